@@ -0,0 +1,178 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMService } from '../services/llm';
+import { CreativeStrategyOutput } from '../services/structured-output';
+import { Shot } from '../shared/types';
+import { DatabaseService } from './database';
+import { MigrationRunner } from './migration-runner';
+import { MockDataImporter } from './mock-data-importer';
+import { migrations } from './migrations';
+
+const user = { id: 'user-legacy', name: 'Legacy User', email: 'legacy@example.com', password_hash: 'x', role: 'PROJECT_DIRECTOR' };
+const project = { id: 'project-legacy', name: 'Legacy Project', created_by: 'user-legacy', assigned_personas: [] };
+
+describe('DatabaseService upgrades', () => {
+  let dir: string;
+  let dbPath: string;
+  let mockPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svpp-db-'));
+    dbPath = path.join(dir, 'platform.db');
+    mockPath = path.join(dir, 'mock-database.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createOldDatabase(version: number): void {
+    const db = new Database(dbPath);
+    new MigrationRunner(db, migrations.filter(migration => migration.version <= version)).migrate();
+    db.close();
+  }
+
+  it('previews migrations and the legacy import without changing the file', async () => {
+    createOldDatabase(2);
+    fs.writeFileSync(mockPath, JSON.stringify({ users: [user], projects: [project] }));
+    const before = fs.readFileSync(dbPath);
+
+    const service = new DatabaseService(dbPath);
+    const preview = await service.previewUpgrade();
+
+    expect(preview.success).toBe(true);
+    expect(preview.data!.migrations).toMatchObject({ dryRun: true, currentVersion: 2, targetVersion: migrations[migrations.length - 1].version });
+    expect(preview.data!.migrations.pending.map(migration => migration.version)).toEqual(migrations.slice(2).map(migration => migration.version));
+    expect(preview.data!.legacyImport!.entities.users).toMatchObject({ total: 1, imported: 1, errors: [] });
+    expect(preview.data!.legacyImport!.entities.projects).toMatchObject({ total: 1, imported: 1, errors: [] });
+
+    expect(fs.readFileSync(dbPath).equals(before)).toBe(true);
+    expect(service.isInitialized()).toBe(false);
+  });
+
+  it('retries a legacy import that had failed rows', async () => {
+    const service = new DatabaseService(dbPath);
+    await service.initialize();
+    const importer = new MockDataImporter(service.getDatabase());
+
+    // A project without a name fails its NOT NULL constraint
+    fs.writeFileSync(mockPath, JSON.stringify({ users: [user], projects: [{ ...project, name: null }] }));
+    const failed = importer.import({ sourcePath: mockPath });
+    expect(failed.entities.projects.errors).toHaveLength(1);
+    expect(importer.hasImported(mockPath)).toBe(false);
+
+    fs.writeFileSync(mockPath, JSON.stringify({ users: [user], projects: [project] }));
+    const retried = importer.import({ sourcePath: mockPath });
+    expect(retried.entities.projects).toMatchObject({ imported: 1, errors: [] });
+    expect(importer.hasImported(mockPath)).toBe(true);
+
+    service.close();
+  });
+});
+
+describe('DatabaseService.generateCreativeStrategy', () => {
+  const service = new DatabaseService(':memory:');
+
+  const strategy: CreativeStrategyOutput = {
+    creative_concept: 'A ribbon-cutting for a bike lane that ends in a wall',
+    satirical_angles: [{ angle_type: 'IRONY', description: 'Celebrating the smallest possible gesture', key_elements: ['ribbon', 'wall'] }],
+    target_audience: 'GENERAL',
+    tone: 'DRY_WIT',
+    key_themes: ['Greenwashing'],
+    character_archetypes: [],
+    visual_style_guide: { overall_aesthetic: 'Local news' }
+  };
+
+  beforeEach(async () => {
+    await service.initialize();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    service.close();
+  });
+
+  it('builds the strategy from schema-validated output', async () => {
+    const project = await service.createProject({ name: 'Lane Closed', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+    await service.createNewsArticle({ title: 'Council opens 40m bike lane', content: 'The lane ends at a wall.', uploaded_by: 'user-1', project_id: project.data!.id });
+    const generate = vi.spyOn(LLMService.prototype, 'generateStructuredOutput').mockResolvedValue({ success: true, data: strategy, attempts: 2 });
+
+    const result = await service.generateCreativeStrategy(project.data!.id, 'user-1');
+
+    expect(generate).toHaveBeenCalledWith('CREATIVE_STRATEGIST', expect.stringContaining('Council opens 40m bike lane'), 'creative_strategy', expect.objectContaining({ project: expect.anything() }));
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ creative_concept: strategy.creative_concept, tone: 'DRY_WIT', generated_by_persona: 'CREATIVE_STRATEGIST', created_by: 'user-1' });
+  });
+
+  it('reports output that never passed validation', async () => {
+    const project = await service.createProject({ name: 'Lane Closed', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+    await service.createNewsArticle({ title: 'Council opens 40m bike lane', content: 'The lane ends at a wall.', uploaded_by: 'user-1', project_id: project.data!.id });
+    vi.spyOn(LLMService.prototype, 'generateStructuredOutput').mockResolvedValue({
+      success: false,
+      attempts: 3,
+      error: 'Response did not match the required format after 3 attempts: /tone must be equal to one of the allowed values',
+      validationErrors: ['/tone must be equal to one of the allowed values']
+    });
+
+    const result = await service.generateCreativeStrategy(project.data!.id, 'user-1');
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('/tone must be equal to one of the allowed values') });
+    expect((await service.getCreativeStrategy(project.data!.id)).success).toBe(false);
+  });
+});
+
+describe('DatabaseService.saveShots', () => {
+  const service = new DatabaseService(':memory:');
+
+  const shot: Shot = {
+    id: 'shot-1',
+    script_id: '',
+    panel_number: 1,
+    length_seconds: 6,
+    camera_angle: 'Wide',
+    character_action: 'Anchor cuts the ribbon',
+    lighting_mood: 'Flat daylight',
+    visual_style: 'Local news',
+    created_at: new Date()
+  };
+
+  beforeEach(async () => {
+    await service.initialize();
+  });
+
+  afterEach(() => {
+    service.close();
+  });
+
+  it('records a storyboard revision when a shot is edited', async () => {
+    const project = await service.createProject({ name: 'Lane Closed', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+    const storyboard = await service.saveStoryboard(project.data!.id, { visual_concept: 'Ribbon, then wall', shots: [shot] }, { created_by: 'user-1' });
+
+    const saved = await service.saveShots(project.data!.id, [{ ...shot, camera_angle: 'Close-up' }], { created_by: 'user-2' });
+    const revisions = await service.getRevisions('STORYBOARD', storyboard.data!.id);
+
+    expect(saved.data).toEqual([expect.objectContaining({ id: 'shot-1', camera_angle: 'Close-up' })]);
+    expect(revisions.data).toHaveLength(2);
+    expect(revisions.data!.find(revision => revision.version === 2)).toMatchObject({
+      created_by: 'user-2',
+      snapshot: { shots: [expect.objectContaining({ id: 'shot-1', camera_angle: 'Close-up' })] }
+    });
+  });
+
+  it('refuses shots and sound notes that belong to another project', async () => {
+    const mine = await service.createProject({ name: 'Mine', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+    const theirs = await service.createProject({ name: 'Theirs', status: 'ACTIVE', created_by: 'user-9', assigned_personas: [] });
+    await service.saveShots(theirs.data!.id, [shot]);
+
+    const shots = await service.saveShots(mine.data!.id, [{ ...shot, camera_angle: 'Hijacked' }]);
+    const notes = await service.saveSoundNotes(mine.data!.id, [{ id: 'note-1', shot_id: shot.id, ambient_foley: 'Hijacked', created_at: new Date() }]);
+
+    expect(shots).toMatchObject({ success: false, error: expect.stringContaining('shots from another project') });
+    expect(notes).toMatchObject({ success: false, error: expect.stringContaining('is not in this project') });
+    expect((await service.getShots(theirs.data!.id)).data).toEqual([expect.objectContaining({ id: shot.id, camera_angle: 'Wide' })]);
+    expect((await service.getSoundNotes(theirs.data!.id)).data).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+// Migration Runner
+// Applies numbered schema migrations and records them in the SchemaMigrations table
+
+import type Database from 'better-sqlite3';
+import { Migration, migrations as defaultMigrations } from './migrations';
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: Date;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  currentVersion: number;
+  targetVersion: number;
+  applied: AppliedMigration[];
+  pending: { version: number; name: string }[];
+}
+
+/**
+ * Thrown inside a dry-run transaction to roll it back after the migrations have been exercised
+ */
+class DryRunRollback extends Error {}
+
+export class MigrationRunner {
+  constructor(
+    private db: Database.Database,
+    private migrations: Migration[] = defaultMigrations
+  ) {
+    const versions = migrations.map(m => m.version);
+    if (new Set(versions).size !== versions.length) {
+      throw new Error('Duplicate migration versions detected');
+    }
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply all pending migrations. In dry-run mode every pending migration is executed
+   * inside a transaction that is rolled back, so SQL errors surface without changing the file.
+   */
+  migrate(options: { dryRun?: boolean } = {}): MigrationReport {
+    const dryRun = !!options.dryRun;
+    this.ensureMigrationsTable();
+
+    const currentVersion = this.getCurrentVersion();
+    const pending = this.getPendingMigrations();
+    const applied: AppliedMigration[] = [];
+
+    if (dryRun) {
+      try {
+        this.db.transaction(() => {
+          pending.forEach(migration => migration.up(this.db));
+          throw new DryRunRollback();
+        })();
+      } catch (error) {
+        if (!(error instanceof DryRunRollback)) {
+          throw error;
+        }
+      }
+    } else {
+      for (const migration of pending) {
+        this.db.transaction(() => {
+          migration.up(this.db);
+          const appliedAt = new Date();
+          this.db.prepare('INSERT INTO SchemaMigrations (version, name, applied_at) VALUES (?, ?, ?)')
+            .run(migration.version, migration.name, appliedAt.toISOString());
+          applied.push({ version: migration.version, name: migration.name, applied_at: appliedAt });
+        })();
+        console.log(`Applied migration ${this.formatVersion(migration.version)}_${migration.name}`);
+      }
+    }
+
+    return {
+      dryRun,
+      currentVersion,
+      targetVersion: this.getLatestVersion(),
+      applied,
+      pending: pending.map(({ version, name }) => ({ version, name }))
+    };
+  }
+
+  /**
+   * Get migrations that have been recorded as applied
+   */
+  getAppliedMigrations(): AppliedMigration[] {
+    this.ensureMigrationsTable();
+    const rows = this.db.prepare('SELECT version, name, applied_at FROM SchemaMigrations ORDER BY version ASC').all() as any[];
+    return rows.map(row => ({
+      version: row.version,
+      name: row.name,
+      applied_at: new Date(row.applied_at)
+    }));
+  }
+
+  /**
+   * Get migrations that have not been applied yet
+   */
+  getPendingMigrations(): Migration[] {
+    const appliedVersions = new Set(this.getAppliedMigrations().map(m => m.version));
+    return this.migrations.filter(m => !appliedVersions.has(m.version));
+  }
+
+  /**
+   * Highest applied migration version (0 for a fresh database)
+   */
+  getCurrentVersion(): number {
+    this.ensureMigrationsTable();
+    const row = this.db.prepare('SELECT MAX(version) as version FROM SchemaMigrations').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  // Private helper methods
+
+  private ensureMigrationsTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS SchemaMigrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  private getLatestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  private formatVersion(version: number): string {
+    return version.toString().padStart(3, '0');
+  }
+}
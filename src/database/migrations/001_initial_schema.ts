@@ -0,0 +1,14 @@
+// Migration 001 - baseline schema from schema.sql
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Migration } from './index';
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: (db) => {
+    const schema = fs.readFileSync(path.join(__dirname, '..', 'schema.sql'), 'utf8');
+    db.exec(schema);
+  }
+};
@@ -0,0 +1,17 @@
+// Migration 002 - track one-time imports of legacy data sources
+
+import type { Migration } from './index';
+
+export const dataImports: Migration = {
+  version: 2,
+  name: 'data_imports',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS DataImports (
+          source TEXT PRIMARY KEY, -- e.g. absolute path of the imported mock-database.json
+          summary TEXT NOT NULL, -- JSON ImportReport
+          imported_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      );
+    `);
+  }
+};
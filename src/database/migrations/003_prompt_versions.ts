@@ -0,0 +1,17 @@
+// Migration 003 - keep every saved video prompt as a numbered version per shot
+
+import type { Migration } from './index';
+
+export const promptVersions: Migration = {
+  version: 3,
+  name: 'prompt_versions',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE Prompts ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE Prompts ADD COLUMN change_note TEXT;
+      ALTER TABLE Prompts ADD COLUMN shot_brief TEXT; -- JSON UnifiedShotBrief
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_prompts_shot_version ON Prompts(shot_id, version);
+    `);
+  }
+};
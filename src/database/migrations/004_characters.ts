@@ -0,0 +1,36 @@
+// Migration 004 - per-project presenter characters from the broadcaster studio
+
+import type { Migration } from './index';
+
+export const characters: Migration = {
+  version: 4,
+  name: 'characters',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS Characters (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          role TEXT NOT NULL,
+          visual_description TEXT NOT NULL DEFAULT '',
+          verbal_tics TEXT NOT NULL DEFAULT '[]', -- JSON string[]
+          catchphrases TEXT NOT NULL DEFAULT '[]', -- JSON string[]
+          voice_notes TEXT,
+          ai_generated BOOLEAN NOT NULL DEFAULT FALSE,
+          persona_source TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          updated_at TEXT,
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
+          UNIQUE (project_id, name)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_characters_project ON Characters(project_id);
+
+      CREATE TRIGGER IF NOT EXISTS update_characters_timestamp
+          AFTER UPDATE ON Characters
+          BEGIN
+              UPDATE Characters SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+          END;
+    `);
+  }
+};
@@ -0,0 +1,17 @@
+// Migration 005 - extend characters into a lockable character bible
+
+import type { Migration } from './index';
+
+export const characterBible: Migration = {
+  version: 5,
+  name: 'character_bible',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE Characters ADD COLUMN description TEXT;
+      ALTER TABLE Characters ADD COLUMN wardrobe TEXT;
+      ALTER TABLE Characters ADD COLUMN mannerisms TEXT;
+      ALTER TABLE Characters ADD COLUMN reference_sheet TEXT; -- Image path/URL or written turnaround notes
+      ALTER TABLE Characters ADD COLUMN locked BOOLEAN NOT NULL DEFAULT FALSE;
+    `);
+  }
+};
@@ -0,0 +1,15 @@
+// Migration 006 - headline, byline and publication date extracted from uploaded articles
+
+import type { Migration } from './index';
+
+export const articleMetadata: Migration = {
+  version: 6,
+  name: 'article_metadata',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE NewsArticles ADD COLUMN headline TEXT;
+      ALTER TABLE NewsArticles ADD COLUMN byline TEXT;
+      ALTER TABLE NewsArticles ADD COLUMN published_date TEXT;
+    `);
+  }
+};
@@ -0,0 +1,35 @@
+// Migration 007 - immutable revision history for scripts, creative strategies, director notes and storyboards
+
+import type { Migration } from './index';
+
+export const revisions: Migration = {
+  version: 7,
+  name: 'revisions',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS Revisions (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          entity_type TEXT NOT NULL CHECK (entity_type IN ('SCRIPT', 'CREATIVE_STRATEGY', 'DIRECTOR_NOTES', 'STORYBOARD')),
+          entity_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          snapshot TEXT NOT NULL, -- JSON of the entity's versioned fields
+          change_note TEXT,
+          restored_from_version INTEGER,
+          created_by TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
+          UNIQUE (entity_type, entity_id, version)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_revisions_entity ON Revisions(entity_type, entity_id);
+
+      -- Revisions are append-only; rows only go away with their project
+      CREATE TRIGGER IF NOT EXISTS revisions_immutable
+      BEFORE UPDATE ON Revisions
+      BEGIN
+          SELECT RAISE(ABORT, 'Revisions are immutable');
+      END;
+    `);
+  }
+};
@@ -0,0 +1,62 @@
+// Migration 008 - approval workflow state per reviewable stage and an append-only sign-off audit trail
+
+import type { Migration } from './index';
+
+export const approvals: Migration = {
+  version: 8,
+  name: 'approvals',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS Approvals (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          entity_type TEXT NOT NULL CHECK (entity_type IN ('CREATIVE_STRATEGY', 'SCRIPT', 'STORYBOARD', 'SOUND_DESIGN')),
+          entity_id TEXT NOT NULL, -- Sound design is reviewed per project, so its entity is the project
+          status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'IN_REVIEW', 'APPROVED', 'NEEDS_REVISION')),
+          reviewer_id TEXT,
+          submitted_by TEXT,
+          submitted_at TEXT,
+          decided_by TEXT,
+          decided_at TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          updated_at TEXT,
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
+          UNIQUE (entity_type, entity_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_approvals_project ON Approvals(project_id);
+
+      CREATE TRIGGER IF NOT EXISTS update_approvals_timestamp
+      AFTER UPDATE ON Approvals
+      BEGIN
+          UPDATE Approvals SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+      END;
+
+      CREATE TABLE IF NOT EXISTS ApprovalEvents (
+          id TEXT PRIMARY KEY,
+          approval_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          action TEXT NOT NULL CHECK (action IN ('SUBMIT', 'APPROVE', 'REQUEST_CHANGES')),
+          from_status TEXT NOT NULL,
+          to_status TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          reviewer_id TEXT,
+          comment TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          FOREIGN KEY (approval_id) REFERENCES Approvals(id) ON DELETE CASCADE,
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_approval_events_approval ON ApprovalEvents(approval_id);
+
+      -- The audit trail is append-only; rows only go away with their project
+      CREATE TRIGGER IF NOT EXISTS approval_events_immutable
+      BEFORE UPDATE ON ApprovalEvents
+      BEGIN
+          SELECT RAISE(ABORT, 'Approval events are immutable');
+      END;
+    `);
+  }
+};
@@ -0,0 +1,47 @@
+// Migration 009 - threaded comments anchored to project entities, with resolve state and @mentions
+
+import type { Migration } from './index';
+
+export const commentThreads: Migration = {
+  version: 9,
+  name: 'comment_threads',
+  up: (db) => {
+    // The baseline Comments table was never written to, so it is rebuilt rather than altered
+    db.exec(`
+      DROP TABLE IF EXISTS Comments;
+
+      CREATE TABLE Comments (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          target_entity_type TEXT NOT NULL CHECK (target_entity_type IN (
+              'project', 'news_article', 'creative_strategy', 'director_notes', 'script', 'storyboard', 'shot', 'sound_notes', 'prompt'
+          )),
+          target_entity_id TEXT NOT NULL,
+          parent_id TEXT, -- Replies point at the thread's first comment
+          anchor TEXT, -- JSON: strategy section or script line range the thread is about
+          comment_text TEXT NOT NULL,
+          author TEXT NOT NULL,
+          mentions TEXT NOT NULL DEFAULT '[]', -- JSON array of mentioned user IDs
+          status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'RESOLVED')), -- Tracked on the thread's first comment
+          resolved_by TEXT,
+          resolved_at TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          updated_at TEXT,
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
+          FOREIGN KEY (parent_id) REFERENCES Comments(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_comments_target ON Comments(target_entity_type, target_entity_id);
+      CREATE INDEX IF NOT EXISTS idx_comments_project_status ON Comments(project_id, status);
+      CREATE INDEX IF NOT EXISTS idx_comments_parent ON Comments(parent_id);
+      CREATE INDEX IF NOT EXISTS idx_comments_author ON Comments(author);
+      CREATE INDEX IF NOT EXISTS idx_comments_created ON Comments(created_at);
+
+      CREATE TRIGGER IF NOT EXISTS update_comments_timestamp
+      AFTER UPDATE ON Comments
+      BEGIN
+          UPDATE Comments SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+      END;
+    `);
+  }
+};
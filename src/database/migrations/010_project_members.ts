@@ -0,0 +1,36 @@
+// Migration 010 - per-project membership with a role for each member
+
+import type { Migration } from './index';
+
+export const projectMembers: Migration = {
+  version: 10,
+  name: 'project_members',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ProjectMembers (
+          project_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL CHECK (role IN ('DIRECTOR', 'WRITER', 'STORYBOARDER', 'SOUND', 'VIEWER')),
+          added_by TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          updated_at TEXT,
+          PRIMARY KEY (project_id, user_id),
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_project_members_user ON ProjectMembers(user_id);
+
+      CREATE TRIGGER IF NOT EXISTS update_project_members_timestamp
+      AFTER UPDATE ON ProjectMembers
+      BEGIN
+          UPDATE ProjectMembers SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE project_id = NEW.project_id AND user_id = NEW.user_id;
+      END;
+
+      -- Existing projects are directed by whoever created them, if that was a real account
+      INSERT OR IGNORE INTO ProjectMembers (project_id, user_id, role)
+      SELECT Projects.id, Projects.created_by, 'DIRECTOR'
+      FROM Projects
+      JOIN Users ON Users.id = Projects.created_by;
+    `);
+  }
+};
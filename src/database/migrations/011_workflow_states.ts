@@ -0,0 +1,26 @@
+// Migration 011 - persisted workflow state machine, one per project
+
+import type { Migration } from './index';
+
+export const workflowStates: Migration = {
+  version: 11,
+  name: 'workflow_states',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS WorkflowStates (
+          project_id TEXT PRIMARY KEY,
+          workflow_id TEXT NOT NULL,
+          state TEXT NOT NULL, -- JSON snapshot of stages, shared memory and metadata
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          updated_at TEXT,
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
+      );
+
+      CREATE TRIGGER IF NOT EXISTS update_workflow_states_timestamp
+      AFTER UPDATE ON WorkflowStates
+      BEGIN
+          UPDATE WorkflowStates SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE project_id = NEW.project_id;
+      END;
+    `);
+  }
+};
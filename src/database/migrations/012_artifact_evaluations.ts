@@ -0,0 +1,32 @@
+// Migration 012 - judged satirical quality scores, one per version of a versioned artifact
+
+import type { Migration } from './index';
+
+export const artifactEvaluations: Migration = {
+  version: 12,
+  name: 'artifact_evaluations',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ArtifactEvaluations (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          entity_type TEXT NOT NULL CHECK (entity_type IN ('SCRIPT', 'CREATIVE_STRATEGY', 'DIRECTOR_NOTES', 'STORYBOARD')),
+          entity_id TEXT NOT NULL,
+          version INTEGER NOT NULL, -- Revisions.version that was judged
+          scores TEXT NOT NULL, -- JSON array of per-criterion scores and rationales
+          overall_score INTEGER NOT NULL,
+          passed BOOLEAN NOT NULL,
+          summary TEXT NOT NULL,
+          rubric TEXT NOT NULL, -- JSON of the rubric the scores were weighted with
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          created_by TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
+          UNIQUE (entity_type, entity_id, version)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_artifact_evaluations_project ON ArtifactEvaluations(project_id);
+    `);
+  }
+};
@@ -0,0 +1,20 @@
+// Migration 013 - library of user-authored satirical lenses that can be applied to any project
+
+import type { Migration } from './index';
+
+export const satiricalLenses: Migration = {
+  version: 13,
+  name: 'satirical_lenses',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS SatiricalLenses (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          context TEXT NOT NULL, -- JSON of the SatiricalContext
+          created_by TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          updated_at TEXT
+      );
+    `);
+  }
+};
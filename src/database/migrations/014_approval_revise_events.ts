@@ -0,0 +1,42 @@
+// Migration 014 - record content edits that send a submitted or approved stage back for revision
+
+import type { Migration } from './index';
+
+export const approvalReviseEvents: Migration = {
+  version: 14,
+  name: 'approval_revise_events',
+  up: (db) => {
+    // SQLite can't widen a CHECK constraint in place, so the audit trail is copied into a rebuilt table
+    db.exec(`
+      CREATE TABLE ApprovalEvents_new (
+          id TEXT PRIMARY KEY,
+          approval_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          action TEXT NOT NULL CHECK (action IN ('SUBMIT', 'APPROVE', 'REQUEST_CHANGES', 'REVISE')),
+          from_status TEXT NOT NULL,
+          to_status TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          reviewer_id TEXT,
+          comment TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          FOREIGN KEY (approval_id) REFERENCES Approvals(id) ON DELETE CASCADE,
+          FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO ApprovalEvents_new SELECT * FROM ApprovalEvents;
+      DROP TABLE ApprovalEvents;
+      ALTER TABLE ApprovalEvents_new RENAME TO ApprovalEvents;
+
+      CREATE INDEX IF NOT EXISTS idx_approval_events_approval ON ApprovalEvents(approval_id);
+
+      -- The audit trail is append-only; rows only go away with their project
+      CREATE TRIGGER IF NOT EXISTS approval_events_immutable
+      BEFORE UPDATE ON ApprovalEvents
+      BEGIN
+          SELECT RAISE(ABORT, 'Approval events are immutable');
+      END;
+    `);
+  }
+};
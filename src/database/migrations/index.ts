@@ -0,0 +1,45 @@
+// Database migrations
+// Ordered list of forward-only schema migrations applied by the MigrationRunner
+
+import type Database from 'better-sqlite3';
+import { initialSchema } from './001_initial_schema';
+import { dataImports } from './002_data_imports';
+import { promptVersions } from './003_prompt_versions';
+import { characters } from './004_characters';
+import { characterBible } from './005_character_bible';
+import { articleMetadata } from './006_article_metadata';
+import { revisions } from './007_revisions';
+import { approvals } from './008_approvals';
+import { commentThreads } from './009_comment_threads';
+import { projectMembers } from './010_project_members';
+import { workflowStates } from './011_workflow_states';
+import { artifactEvaluations } from './012_artifact_evaluations';
+import { satiricalLenses } from './013_satirical_lenses';
+import { approvalReviseEvents } from './014_approval_revise_events';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * All migrations in the order they must be applied.
+ * Never edit a migration that has shipped - add a new one instead.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  dataImports,
+  promptVersions,
+  characters,
+  characterBible,
+  articleMetadata,
+  revisions,
+  approvals,
+  commentThreads,
+  projectMembers,
+  workflowStates,
+  artifactEvaluations,
+  satiricalLenses,
+  approvalReviseEvents
+];
@@ -0,0 +1,320 @@
+// Mock Data Importer
+// One-time import of the legacy mock-database.json store into SQLite
+
+import type Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type ImportEntity =
+  | 'users'
+  | 'projects'
+  | 'newsArticles'
+  | 'creativeStrategies'
+  | 'directorNotes'
+  | 'scripts'
+  | 'storyboards'
+  | 'shots'
+  | 'soundNotes'
+  | 'conversations'
+  | 'messages';
+
+export interface ImportEntityReport {
+  total: number;
+  imported: number;
+  skipped: number; // Already present in the database
+  errors: string[];
+}
+
+export interface ImportReport {
+  source: string;
+  dryRun: boolean;
+  fileFound: boolean;
+  alreadyImported: boolean;
+  entities: Record<ImportEntity, ImportEntityReport>;
+}
+
+/**
+ * Thrown inside a dry-run transaction to roll it back once the import has been exercised
+ */
+class DryRunRollback extends Error {}
+
+export class MockDataImporter {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Location the MockDatabaseService persisted to
+   */
+  static getDefaultSourcePath(): string {
+    return path.join(os.homedir(), '.satirical-video-platform', 'mock-database.json');
+  }
+
+  /**
+   * Check whether a source file has been imported without errors
+   */
+  hasImported(sourcePath: string = MockDataImporter.getDefaultSourcePath()): boolean {
+    return !!this.db.prepare('SELECT 1 FROM DataImports WHERE source = ?').get(path.resolve(sourcePath));
+  }
+
+  /**
+   * Import the mock JSON data. Rows whose IDs already exist are skipped, so re-running is safe.
+   * In dry-run mode the import runs inside a transaction that is rolled back and only the report is returned.
+   */
+  import(options: { sourcePath?: string; dryRun?: boolean } = {}): ImportReport {
+    const source = path.resolve(options.sourcePath || MockDataImporter.getDefaultSourcePath());
+    const dryRun = !!options.dryRun;
+    const report: ImportReport = {
+      source,
+      dryRun,
+      fileFound: fs.existsSync(source),
+      alreadyImported: this.hasImported(source),
+      entities: this.emptyEntityReports()
+    };
+
+    if (!report.fileFound || (report.alreadyImported && !dryRun)) {
+      return report;
+    }
+
+    const data = JSON.parse(fs.readFileSync(source, 'utf8'));
+
+    try {
+      this.db.transaction(() => {
+        this.importAll(data, report);
+
+        if (dryRun) {
+          throw new DryRunRollback();
+        }
+
+        // Rows that failed are retried on the next run, so only a clean import marks the source as done
+        if (Object.values(report.entities).some(entity => entity.errors.length > 0)) {
+          return;
+        }
+
+        this.db.prepare('INSERT OR REPLACE INTO DataImports (source, summary, imported_at) VALUES (?, ?, ?)')
+          .run(source, JSON.stringify(report.entities), new Date().toISOString());
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) {
+        throw error;
+      }
+    }
+
+    return report;
+  }
+
+  // Private helper methods
+
+  private importAll(data: any, report: ImportReport): void {
+    const projectIds = new Set<string>((data.projects || []).map((p: any) => p.id));
+    const scriptProjects = new Map<string, string>((data.scripts || []).map((s: any) => [s.id, s.project_id]));
+
+    // Mock shots reference either a script ID or the project ID directly via script_id
+    const resolveShotProject = (shot: any): string | undefined =>
+      projectIds.has(shot.script_id) ? shot.script_id : scriptProjects.get(shot.script_id);
+
+    // Storyboards carried their own copy of the shot list; fold those in with the standalone shots
+    const shots = new Map<string, any>();
+    (data.storyboards || []).forEach((storyboard: any) =>
+      (storyboard.shots || []).forEach((shot: any) => shots.set(shot.id, { ...shot, project_id: storyboard.project_id }))
+    );
+    (data.shots || []).forEach((shot: any) =>
+      shots.set(shot.id, { ...shot, project_id: resolveShotProject(shot) || shots.get(shot.id)?.project_id })
+    );
+
+    this.importRows(report.entities.users, 'Users', data.users, user => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      password_hash: user.password_hash,
+      role: user.role,
+      created_at: this.toISOString(user.created_at),
+      updated_at: this.toOptionalISOString(user.updated_at)
+    }));
+
+    this.importRows(report.entities.projects, 'Projects', data.projects, project => ({
+      id: project.id,
+      name: project.name,
+      description: project.description ?? null,
+      status: project.status || 'ACTIVE',
+      created_by: project.created_by,
+      assigned_personas: JSON.stringify(project.assigned_personas || []),
+      satirical_context: project.satirical_context ? JSON.stringify(project.satirical_context) : null,
+      satirical_format: project.satirical_format ?? null,
+      created_at: this.toISOString(project.created_at),
+      updated_at: this.toOptionalISOString(project.updated_at)
+    }));
+
+    this.importRows(report.entities.newsArticles, 'NewsArticles', data.newsArticles, article => ({
+      id: article.id,
+      title: article.title,
+      source: article.source ?? null,
+      url: article.url ?? null,
+      content: article.content,
+      processing_notes: article.processing_notes ?? null,
+      uploaded_by: article.uploaded_by,
+      associated_project: article.project_id,
+      file_name: article.file_name ?? null,
+      file_type: article.file_type ?? null,
+      created_at: this.toISOString(article.created_at),
+      updated_at: this.toOptionalISOString(article.updated_at)
+    }));
+
+    this.importRows(report.entities.creativeStrategies, 'CreativeStrategies', data.creativeStrategies, strategy => ({
+      id: strategy.id,
+      project_id: strategy.project_id,
+      director_notes_id: strategy.director_notes_id ?? null,
+      creative_concept: strategy.creative_concept,
+      satirical_angles: JSON.stringify(strategy.satirical_angles || []),
+      target_audience: strategy.target_audience,
+      tone: strategy.tone,
+      satirical_format: strategy.satirical_format ?? null,
+      key_themes: JSON.stringify(strategy.key_themes || []),
+      character_archetypes: JSON.stringify(strategy.character_archetypes || []),
+      visual_style_guide: JSON.stringify(strategy.visual_style_guide || {}),
+      validation_criteria: JSON.stringify(strategy.validation_criteria || {}),
+      status: strategy.status || 'DRAFT',
+      version: strategy.version || 1,
+      generated_by_persona: strategy.generated_by_persona ?? null,
+      created_by: strategy.created_by,
+      approved_by: strategy.approved_by ?? null,
+      created_at: this.toISOString(strategy.created_at),
+      updated_at: this.toOptionalISOString(strategy.updated_at)
+    }));
+
+    this.importRows(report.entities.directorNotes, 'DirectorNotes', data.directorNotes, notes => ({
+      id: notes.id,
+      project_id: notes.project_id,
+      creative_strategy_id: notes.creative_strategy_id ?? null,
+      summary: notes.summary,
+      satirical_hook: notes.satirical_hook,
+      characters: notes.characters,
+      visual_concepts: notes.visual_concepts,
+      status: notes.status || 'DRAFT',
+      version: notes.version || 1,
+      created_at: this.toISOString(notes.created_at),
+      updated_at: this.toOptionalISOString(notes.updated_at)
+    }));
+
+    this.importRows(report.entities.scripts, 'Scripts', data.scripts, script => ({
+      id: script.id,
+      project_id: script.project_id,
+      director_notes_id: script.director_notes_id || null,
+      outline: script.outline ?? null,
+      content: script.content,
+      status: script.status || 'DRAFT',
+      version: script.version || 1,
+      ai_generated: script.ai_generated ? 1 : 0,
+      persona_source: script.persona_source ?? null,
+      created_at: this.toISOString(script.created_at),
+      updated_at: this.toOptionalISOString(script.updated_at)
+    }));
+
+    this.importRows(report.entities.storyboards, 'Storyboards', data.storyboards, storyboard => ({
+      id: storyboard.id,
+      project_id: storyboard.project_id,
+      script_id: storyboard.script_id || null,
+      visual_concept: storyboard.visual_concept ?? null,
+      status: storyboard.status || 'DRAFT',
+      version: storyboard.version || 1,
+      created_by: storyboard.created_by || 'temp-user-id',
+      created_at: this.toISOString(storyboard.created_at),
+      updated_at: this.toOptionalISOString(storyboard.updated_at)
+    }));
+
+    this.importRows(report.entities.shots, 'Shots', Array.from(shots.values()), shot => {
+      if (!shot.project_id) {
+        throw new Error(`cannot resolve project for script_id ${shot.script_id}`);
+      }
+      return {
+        id: shot.id,
+        project_id: shot.project_id,
+        script_id: shot.script_id && !projectIds.has(shot.script_id) ? shot.script_id : null,
+        panel_number: shot.panel_number,
+        length_seconds: shot.length_seconds,
+        camera_angle: shot.camera_angle || '',
+        character_action: shot.character_action || '',
+        lighting_mood: shot.lighting_mood || '',
+        dialogue_narration: shot.dialogue_narration ?? null,
+        visual_style: shot.visual_style || '',
+        created_at: this.toISOString(shot.created_at),
+        updated_at: this.toOptionalISOString(shot.updated_at)
+      };
+    });
+
+    this.importRows(report.entities.soundNotes, 'SoundNotes', data.soundNotes, note => ({
+      id: note.id,
+      shot_id: note.shot_id,
+      ambient_foley: note.ambient_foley ?? null,
+      specific_sfx: note.specific_sfx ?? null,
+      broadcast_audio: note.broadcast_audio ?? null,
+      created_at: this.toISOString(note.created_at),
+      updated_at: this.toOptionalISOString(note.updated_at)
+    }));
+
+    this.importRows(report.entities.conversations, 'Conversations', data.conversations, conversation => ({
+      id: conversation.id,
+      project_id: conversation.project_id,
+      participant_personas: JSON.stringify(conversation.participant_personas || []),
+      status: conversation.status || 'ACTIVE',
+      created_at: this.toISOString(conversation.created_at),
+      updated_at: this.toOptionalISOString(conversation.updated_at)
+    }));
+
+    this.importRows(report.entities.messages, 'Messages', data.messages, message => ({
+      id: message.id,
+      conversation_id: message.conversation_id,
+      sender_persona: message.sender_persona,
+      message_content: message.message_content,
+      message_type: message.message_type || 'TEXT',
+      metadata: message.metadata ? JSON.stringify(message.metadata) : null,
+      created_at: this.toISOString(message.created_at)
+    }));
+  }
+
+  /**
+   * Insert rows one at a time so a single bad record is reported instead of aborting the import
+   */
+  private importRows(entityReport: ImportEntityReport, table: string, rows: any[] | undefined, toRecord: (row: any) => Record<string, unknown>): void {
+    const exists = this.db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`);
+
+    for (const row of rows || []) {
+      entityReport.total++;
+
+      try {
+        if (exists.get(row.id)) {
+          entityReport.skipped++;
+          continue;
+        }
+
+        const record = toRecord(row);
+        const columns = Object.keys(record);
+        this.db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(c => '@' + c).join(', ')})`)
+          .run(record);
+        entityReport.imported++;
+      } catch (error) {
+        entityReport.errors.push(`${row?.id ?? 'unknown'}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private emptyEntityReports(): Record<ImportEntity, ImportEntityReport> {
+    const entities: ImportEntity[] = [
+      'users', 'projects', 'newsArticles', 'creativeStrategies', 'directorNotes',
+      'scripts', 'storyboards', 'shots', 'soundNotes', 'conversations', 'messages'
+    ];
+    const reports = {} as Record<ImportEntity, ImportEntityReport>;
+    entities.forEach(entity => {
+      reports[entity] = { total: 0, imported: 0, skipped: 0, errors: [] };
+    });
+    return reports;
+  }
+
+  private toISOString(value: unknown): string {
+    const date = value ? new Date(value as string) : new Date();
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+  }
+
+  private toOptionalISOString(value: unknown): string | null {
+    return value ? this.toISOString(value) : null;
+  }
+}
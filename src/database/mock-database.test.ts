@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MockDatabaseService } from './mock-database';
+
+const dataFile = () => path.join(os.homedir(), '.satirical-video-platform', 'mock-database.json');
+
+async function openDatabase(): Promise<MockDatabaseService> {
+  const db = new MockDatabaseService();
+  await db.initialize();
+  return db;
+}
+
+describe('MockDatabaseService', () => {
+  let db: MockDatabaseService;
+
+  beforeEach(async () => {
+    fs.rmSync(dataFile(), { force: true });
+    db = await openDatabase();
+  });
+
+  it('refuses to work before initialization', async () => {
+    await expect(new MockDatabaseService().getProjectById('p')).rejects.toThrow('Database not initialized');
+  });
+
+  describe('users', () => {
+    it('creates users without returning the password hash', async () => {
+      const result = await db.createUser({ name: 'Ann', email: 'ann@example.com', password_hash: 'hash', role: 'CREATIVE_STRATEGIST' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.password_hash).toBeUndefined();
+      expect((await db.getUserById(result.data!.id)).data?.email).toBe('ann@example.com');
+      expect((await db.getUserByEmail('ann@example.com'))?.password_hash).toBe('hash');
+    });
+
+    it('rejects duplicate emails', async () => {
+      await db.createUser({ name: 'Ann', email: 'ann@example.com', role: 'CREATIVE_STRATEGIST' });
+
+      const result = await db.createUser({ name: 'Other Ann', email: 'ann@example.com', role: 'CREATIVE_STRATEGIST' });
+
+      expect(result).toMatchObject({ success: false, error: 'Email already exists' });
+    });
+  });
+
+  describe('projects', () => {
+    it('creates, reads, lists and deletes projects', async () => {
+      const created = await db.createProject({ name: 'Bulletin', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+      const id = created.data!.id;
+      await db.createProject({ name: 'Elsewhere', status: 'ACTIVE', created_by: 'user-2', assigned_personas: [] });
+
+      expect((await db.getProjectById(id)).data?.name).toBe('Bulletin');
+      expect((await db.getProjectsForUser('user-1')).data?.map(project => project.name)).toEqual(['Bulletin']);
+
+      expect((await db.deleteProject(id)).success).toBe(true);
+      expect(await db.getProjectById(id)).toMatchObject({ success: false, error: 'Project not found' });
+      expect(await db.deleteProject(id)).toMatchObject({ success: false, error: 'Project not found' });
+    });
+
+    it('applies a satirical context by type', async () => {
+      const created = await db.createProject({ name: 'Bulletin', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+
+      const updated = await db.updateProjectContext(created.data!.id, 'ENVIRONMENTAL');
+      expect(updated.data?.satirical_context?.type).toBe('ENVIRONMENTAL');
+
+      expect(await db.updateProjectContext(created.data!.id, 'NOT_A_CONTEXT')).toMatchObject({
+        success: false,
+        error: 'Invalid satirical context type'
+      });
+    });
+
+    it('removes a project\'s articles and scripts with it', async () => {
+      const projectId = (await db.createProject({ name: 'Bulletin', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] })).data!.id;
+      await db.createNewsArticle({ title: 'Cage-free claims', content: 'Text', uploaded_by: 'user-1', project_id: projectId });
+      await db.createScript({ project_id: projectId, director_notes_id: 'notes-1', content: 'FADE IN', status: 'DRAFT', version: 1 });
+
+      await db.deleteProject(projectId);
+
+      expect((await db.getNewsArticlesByProject(projectId)).data).toEqual([]);
+      expect((await db.getScriptsByProject(projectId)).data).toEqual([]);
+    });
+  });
+
+  describe('news articles', () => {
+    it('updates and deletes articles', async () => {
+      const article = (await db.createNewsArticle({ title: 'Draft', content: 'Text', uploaded_by: 'user-1', project_id: 'project-1' })).data!;
+
+      const updated = await db.updateNewsArticle(article.id, { title: 'Final' });
+      expect(updated.data?.title).toBe('Final');
+      expect(updated.data?.updated_at).toBeInstanceOf(Date);
+
+      expect((await db.deleteNewsArticle(article.id)).data).toBe(true);
+      expect(await db.getNewsArticleById(article.id)).toMatchObject({ success: false });
+      expect(await db.updateNewsArticle(article.id, { title: 'Again' })).toMatchObject({ success: false, error: 'Article not found' });
+    });
+  });
+
+  describe('scripts', () => {
+    it('updates script content and bumps updated_at', async () => {
+      const script = (await db.createScript({ project_id: 'project-1', director_notes_id: 'notes-1', content: 'FADE IN', status: 'DRAFT', version: 1 })).data!;
+
+      const updated = await db.updateScript(script.id, { content: 'FADE OUT', status: 'APPROVED' });
+
+      expect(updated.data).toMatchObject({ id: script.id, content: 'FADE OUT', status: 'APPROVED' });
+      expect(updated.data!.updated_at!.getTime()).toBeGreaterThanOrEqual(script.updated_at!.getTime());
+      expect((await db.deleteScript(script.id)).success).toBe(true);
+      expect(await db.getScriptById(script.id)).toMatchObject({ success: false, error: 'Script not found' });
+    });
+  });
+
+  describe('persistence', () => {
+    it('reloads saved records with dates restored', async () => {
+      const projectId = (await db.createProject({ name: 'Bulletin', status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] })).data!.id;
+      const kept = (await db.createNewsArticle({ title: 'Kept', content: 'Text', uploaded_by: 'user-1', project_id: projectId })).data!;
+      const removed = (await db.createNewsArticle({ title: 'Removed', content: 'Text', uploaded_by: 'user-1', project_id: projectId })).data!;
+      await db.deleteNewsArticle(removed.id);
+
+      const reopened = await openDatabase();
+
+      const project = await reopened.getProjectById(projectId);
+      expect(project.data?.name).toBe('Bulletin');
+      expect(project.data?.created_at).toBeInstanceOf(Date);
+      expect((await reopened.getNewsArticlesByProject(projectId)).data?.map(article => article.id)).toEqual([kept.id]);
+    });
+
+    it('starts empty when the data file is corrupt', async () => {
+      fs.writeFileSync(dataFile(), '{ not json');
+
+      const reopened = await openDatabase();
+
+      expect((await reopened.testConnection()).data).toEqual({ userCount: 0, projectCount: 0, articlesCount: 0 });
+    });
+  });
+});
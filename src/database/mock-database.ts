@@ -16,6 +16,7 @@ import {
   APIResponse 
 } from '../shared/types';
 import { generateId } from '../shared/utils';
+import { articleExtractorService } from '../services/article-extractor';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -574,19 +575,18 @@ export class MockDatabaseService {
     }
 
     try {
-      // In a real implementation, we would process the file content
-      // For now, we'll simulate file processing
-      let processedContent = '';
-      
-      if (fileData.fileType.includes('text/plain')) {
-        // Decode base64 text file
-        processedContent = Buffer.from(fileData.fileData, 'base64').toString('utf8');
-      } else if (fileData.fileType.includes('pdf') || fileData.fileType.includes('doc')) {
-        // For PDF/DOC files, we would use a proper parser
-        // For now, just indicate that it's processed content
-        processedContent = `[Processed content from ${fileData.fileName}]\n\nThis would contain the extracted text from the uploaded ${fileData.fileType} file. In a real implementation, we would use appropriate parsers for different file types.`;
-      } else {
-        processedContent = `[File content from ${fileData.fileName}]`;
+      const extraction = await articleExtractorService.extract(
+        Buffer.from(fileData.fileData, 'base64'),
+        fileData.fileName,
+        fileData.fileType
+      );
+
+      if (extraction.text.length === 0) {
+        return {
+          success: false,
+          error: extraction.warnings[0] || `No text could be extracted from ${fileData.fileName}`,
+          timestamp: new Date()
+        };
       }
 
       const article: NewsArticle = {
@@ -594,7 +594,10 @@ export class MockDatabaseService {
         title: fileData.title,
         source: fileData.source,
         url: fileData.url,
-        content: processedContent,
+        content: extraction.text,
+        headline: extraction.headline,
+        byline: extraction.byline,
+        published_date: extraction.published_date,
         processing_notes: fileData.processing_notes,
         project_id: fileData.project_id,
         uploaded_by: fileData.uploaded_by,
@@ -747,6 +750,9 @@ export class MockDatabaseService {
 
       this.newsArticles.splice(index, 1);
 
+      // Save to persistent storage
+      await this.saveData();
+
       return {
         success: true,
         data: true,
@@ -983,7 +989,7 @@ export class MockDatabaseService {
   /**
    * Generate AI-powered creative strategy
    */
-  async generateCreativeStrategy(projectId: string): Promise<APIResponse<CreativeStrategy>> {
+  async generateCreativeStrategy(projectId: string, userId: string): Promise<APIResponse<CreativeStrategy>> {
     if (!this.initialized) {
       throw new Error('Database not initialized');
     }
@@ -1057,7 +1063,7 @@ export class MockDatabaseService {
         status: 'DRAFT',
         version: 1,
         generated_by_persona: 'CREATIVE_STRATEGIST',
-        created_by: 'temp-user-id',
+        created_by: userId,
         created_at: new Date()
       };
 
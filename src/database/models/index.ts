@@ -213,7 +213,7 @@ export class ConversationRepository {
   static async closeConversation(conversationId: string): Promise<boolean> {
     try {
       const db = databaseService.getDatabase();
-      const stmt = db.prepare('UPDATE Conversations SET status = "COMPLETED" WHERE id = ?');
+      const stmt = db.prepare("UPDATE Conversations SET status = 'COMPLETED' WHERE id = ?");
       const result = stmt.run(conversationId);
       return result.changes > 0;
     } catch (error) {
@@ -279,7 +279,7 @@ export class ContentRepository {
         script.content,
         script.status,
         script.version,
-        scriptData.ai_generated || false,
+        scriptData.ai_generated ? 1 : 0,
         scriptData.persona_source || null,
         script.created_at.toISOString()
       );
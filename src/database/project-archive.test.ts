@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseService } from './database';
+import { ProjectArchive, ProjectArchiver } from './project-archive';
+
+describe('ProjectArchiver.import', () => {
+  const service = new DatabaseService(':memory:');
+  let archiver: ProjectArchiver;
+
+  beforeEach(async () => {
+    await service.initialize();
+    archiver = new ProjectArchiver(service.getDatabase());
+  });
+
+  afterEach(() => {
+    service.close();
+  });
+
+  async function exportProject(name: string): Promise<ProjectArchive> {
+    const project = await service.createProject({ name, status: 'ACTIVE', created_by: 'user-1', assigned_personas: [] });
+    await service.createScript({ project_id: project.data!.id, content: `INT. ${project.data!.id} - DAY`, director_notes_id: '', status: 'DRAFT', version: 1, ai_generated: false });
+    return archiver.export(project.data!.id);
+  }
+
+  // Anyone editing an archive can recompute its checksum
+  function tamper(archive: ProjectArchive, edit: (data: ProjectArchive['data']) => void): ProjectArchive {
+    const data = JSON.parse(JSON.stringify(archive.data));
+    edit(data);
+    return { manifest: { ...archive.manifest, checksum: createHash('sha256').update(JSON.stringify(data)).digest('hex') }, data };
+  }
+
+  it('imports under fresh IDs without rewriting IDs that appear in free text', async () => {
+    const archive = await exportProject('Lane Closed');
+    const sourceId = archive.data.projects[0].id;
+    service.getDatabase().prepare('DELETE FROM Projects WHERE id = ?').run(sourceId);
+
+    const result = archiver.import(archive, { userId: 'user-2' });
+    const script = service.getDatabase().prepare('SELECT * FROM Scripts WHERE project_id = ?').get(result.project_id) as any;
+
+    expect(result.project_id).not.toBe(sourceId);
+    expect(script.content).toBe(`INT. ${sourceId} - DAY`);
+  });
+
+  it('rejects rows that point at a project outside the archive', async () => {
+    const victim = await service.createProject({ name: 'Someone Else', status: 'ACTIVE', created_by: 'user-9', assigned_personas: [] });
+    const archive = tamper(await exportProject('Lane Closed'), data => {
+      data.scripts[0].project_id = victim.data!.id;
+    });
+
+    expect(() => archiver.import(archive, { userId: 'user-2', resolution: 'KEEP_BOTH' })).toThrow(/outside the archive/);
+    expect(service.getDatabase().prepare('SELECT COUNT(*) AS count FROM Scripts WHERE project_id = ?').get(victim.data!.id)).toEqual({ count: 0 });
+  });
+
+  it('rejects archives with more than one project', async () => {
+    const other = await service.createProject({ name: 'Someone Else', status: 'ACTIVE', created_by: 'user-9', assigned_personas: [] });
+    const archive = tamper(await exportProject('Lane Closed'), data => {
+      data.projects.push({ ...data.projects[0], id: other.data!.id });
+    });
+
+    expect(() => archiver.import(archive, { userId: 'user-2', resolution: 'REPLACE' })).toThrow(/exactly one project/);
+  });
+
+  it('replaces only the project the archive came from and renames on a name clash', async () => {
+    const archive = await exportProject('Lane Closed');
+    const namesake = await service.createProject({ name: 'lane closed', status: 'ACTIVE', created_by: 'user-9', assigned_personas: [] });
+
+    const result = archiver.import(archive, { userId: 'user-2', resolution: 'REPLACE' });
+
+    expect(result.replaced_project_ids).toEqual([archive.data.projects[0].id]);
+    expect(result).toMatchObject({ project_name: 'Lane Closed (imported)', renamed: true });
+    expect((await service.getProjectById(namesake.data!.id)).success).toBe(true);
+  });
+});
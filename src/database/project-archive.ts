@@ -0,0 +1,473 @@
+// Project Archive
+// Portable export/import of a project and everything linked to it as a single versioned file
+
+import type Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { generateId } from '../shared/utils';
+import { migrations } from './migrations';
+
+export const PROJECT_ARCHIVE_FORMAT = 'satirical-video-project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+export const PROJECT_ARCHIVE_EXTENSION = 'svproject';
+
+export type ArchiveEntity =
+  | 'projects'
+  | 'newsArticles'
+  | 'creativeStrategies'
+  | 'directorNotes'
+  | 'scripts'
+  | 'storyboards'
+  | 'shots'
+  | 'soundNotes'
+  | 'prompts'
+  | 'characters'
+  | 'conversations'
+  | 'messages'
+  | 'revisions'
+  | 'approvals'
+  | 'approvalEvents'
+  | 'comments'
+  | 'workflowStates'
+  | 'artifactEvaluations';
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  archive_version: number;
+  schema_version: number; // Latest migration applied on the exporting machine
+  app_version?: string;
+  exported_at: string;
+  project: { id: string; name: string };
+  counts: Record<ArchiveEntity, number>;
+  checksum: string; // SHA-256 of the serialized data section
+}
+
+export interface ProjectArchive {
+  manifest: ProjectArchiveManifest;
+  data: Record<ArchiveEntity, any[]>; // Raw table rows
+}
+
+export type ProjectImportConflictType = 'SAME_PROJECT' | 'SAME_NAME';
+export type ProjectImportResolution = 'KEEP_BOTH' | 'REPLACE';
+
+export interface ProjectImportConflict {
+  type: ProjectImportConflictType;
+  project_id: string;
+  project_name: string;
+}
+
+export interface ProjectImportPreview {
+  manifest: ProjectArchiveManifest;
+  conflicts: ProjectImportConflict[];
+}
+
+export interface ProjectImportResult {
+  project_id: string;
+  project_name: string;
+  renamed: boolean;
+  replaced_project_ids: string[];
+  counts: Record<ArchiveEntity, number>;
+}
+
+/**
+ * Raised for archives that cannot be imported as-is (corrupt, too new, or conflicting without a resolution)
+ */
+export class ProjectArchiveError extends Error {
+  constructor(message: string, public conflicts: ProjectImportConflict[] = []) {
+    super(message);
+    this.name = 'ProjectArchiveError';
+  }
+}
+
+interface ArchiveTable {
+  entity: ArchiveEntity;
+  table: string;
+  select: string; // Bound to the project ID
+  projectColumn?: string; // Always points at the imported project
+  idColumns?: string[]; // References to other rows in the same archive
+  jsonColumns?: string[]; // JSON whose ID-named keys reference rows in the same archive
+  userColumns?: string[]; // Reassigned to the importing user, since user IDs don't travel between machines
+}
+
+// Parents before children so foreign keys resolve on insert
+const ARCHIVE_TABLES: ArchiveTable[] = [
+  { entity: 'projects', table: 'Projects', select: 'SELECT * FROM Projects WHERE id = ?', projectColumn: 'id', userColumns: ['created_by'] },
+  {
+    entity: 'newsArticles',
+    table: 'NewsArticles',
+    select: 'SELECT * FROM NewsArticles WHERE associated_project = ?',
+    projectColumn: 'associated_project',
+    userColumns: ['uploaded_by']
+  },
+  {
+    entity: 'creativeStrategies',
+    table: 'CreativeStrategies',
+    select: 'SELECT * FROM CreativeStrategies WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['director_notes_id'],
+    userColumns: ['created_by', 'approved_by']
+  },
+  {
+    entity: 'directorNotes',
+    table: 'DirectorNotes',
+    select: 'SELECT * FROM DirectorNotes WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['creative_strategy_id']
+  },
+  {
+    entity: 'scripts',
+    table: 'Scripts',
+    select: 'SELECT * FROM Scripts WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['director_notes_id']
+  },
+  {
+    entity: 'storyboards',
+    table: 'Storyboards',
+    select: 'SELECT * FROM Storyboards WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['script_id'],
+    userColumns: ['created_by']
+  },
+  { entity: 'shots', table: 'Shots', select: 'SELECT * FROM Shots WHERE project_id = ?', projectColumn: 'project_id', idColumns: ['script_id'] },
+  {
+    entity: 'soundNotes',
+    table: 'SoundNotes',
+    select: 'SELECT sn.* FROM SoundNotes sn JOIN Shots s ON s.id = sn.shot_id WHERE s.project_id = ?',
+    idColumns: ['shot_id']
+  },
+  {
+    entity: 'prompts',
+    table: 'Prompts',
+    select: 'SELECT p.* FROM Prompts p JOIN Shots s ON s.id = p.shot_id WHERE s.project_id = ?',
+    idColumns: ['shot_id']
+  },
+  { entity: 'characters', table: 'Characters', select: 'SELECT * FROM Characters WHERE project_id = ?', projectColumn: 'project_id' },
+  { entity: 'conversations', table: 'Conversations', select: 'SELECT * FROM Conversations WHERE project_id = ?', projectColumn: 'project_id' },
+  {
+    entity: 'messages',
+    table: 'Messages',
+    select: 'SELECT m.* FROM Messages m JOIN Conversations c ON c.id = m.conversation_id WHERE c.project_id = ?',
+    idColumns: ['conversation_id'],
+    jsonColumns: ['metadata']
+  },
+  {
+    entity: 'revisions',
+    table: 'Revisions',
+    select: 'SELECT * FROM Revisions WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['entity_id'],
+    jsonColumns: ['snapshot'],
+    userColumns: ['created_by']
+  },
+  {
+    entity: 'approvals',
+    table: 'Approvals',
+    select: 'SELECT * FROM Approvals WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['entity_id'],
+    userColumns: ['reviewer_id', 'submitted_by', 'decided_by']
+  },
+  {
+    entity: 'approvalEvents',
+    table: 'ApprovalEvents',
+    select: 'SELECT * FROM ApprovalEvents WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['approval_id', 'entity_id'],
+    userColumns: ['user_id', 'reviewer_id']
+  },
+  {
+    entity: 'comments',
+    table: 'Comments',
+    // Threads before their replies
+    select: 'SELECT * FROM Comments WHERE project_id = ? ORDER BY parent_id IS NOT NULL, created_at ASC',
+    projectColumn: 'project_id',
+    idColumns: ['target_entity_id', 'parent_id'],
+    userColumns: ['author', 'resolved_by']
+  },
+  {
+    entity: 'workflowStates',
+    table: 'WorkflowStates',
+    select: 'SELECT * FROM WorkflowStates WHERE project_id = ?',
+    projectColumn: 'project_id',
+    jsonColumns: ['state']
+  },
+  {
+    entity: 'artifactEvaluations',
+    table: 'ArtifactEvaluations',
+    select: 'SELECT * FROM ArtifactEvaluations WHERE project_id = ?',
+    projectColumn: 'project_id',
+    idColumns: ['entity_id'],
+    userColumns: ['created_by']
+  }
+];
+
+// Keys inside JSON columns whose values are row IDs
+const JSON_ID_KEY = /^id$|_id$|Id$/;
+const JSON_PROJECT_KEYS = new Set(['project_id', 'projectId']);
+
+export class ProjectArchiver {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Collect a project and all of its linked rows into an archive
+   */
+  export(projectId: string, options: { appVersion?: string } = {}): ProjectArchive {
+    const project = this.db.prepare('SELECT id, name FROM Projects WHERE id = ?').get(projectId) as { id: string; name: string } | undefined;
+    if (!project) {
+      throw new ProjectArchiveError(`Project not found: ${projectId}`);
+    }
+
+    const data = {} as Record<ArchiveEntity, any[]>;
+    const counts = {} as Record<ArchiveEntity, number>;
+    ARCHIVE_TABLES.forEach(({ entity, select }) => {
+      data[entity] = this.db.prepare(select).all(projectId);
+      counts[entity] = data[entity].length;
+    });
+
+    return {
+      manifest: {
+        format: PROJECT_ARCHIVE_FORMAT,
+        archive_version: PROJECT_ARCHIVE_VERSION,
+        schema_version: ProjectArchiver.currentSchemaVersion(),
+        app_version: options.appVersion,
+        exported_at: new Date().toISOString(),
+        project: { id: project.id, name: project.name },
+        counts,
+        checksum: this.checksum(data)
+      },
+      data
+    };
+  }
+
+  /**
+   * Validate an archive and report which existing projects it conflicts with
+   */
+  inspect(archive: ProjectArchive): ProjectImportPreview {
+    this.validate(archive);
+    return { manifest: archive.manifest, conflicts: this.findConflicts(archive) };
+  }
+
+  /**
+   * Import an archive under fresh IDs. Conflicts must be resolved by keeping both projects or replacing the one the archive
+   * was exported from; projects that only share the name are never replaced, the import is renamed instead.
+   */
+  import(archive: ProjectArchive, options: { userId: string; resolution?: ProjectImportResolution }): ProjectImportResult {
+    this.validate(archive);
+    const conflicts = this.findConflicts(archive);
+
+    if (conflicts.length > 0 && !options.resolution) {
+      throw new ProjectArchiveError(
+        `Archive conflicts with existing project${conflicts.length > 1 ? 's' : ''}: ${conflicts.map(c => `"${c.project_name}"`).join(', ')}`,
+        conflicts
+      );
+    }
+
+    const idMap = this.buildIdMap(archive);
+    const replaced = options.resolution === 'REPLACE'
+      ? conflicts.filter(conflict => conflict.type === 'SAME_PROJECT').map(conflict => conflict.project_id)
+      : [];
+    const source = archive.data.projects[0];
+    const projectId = idMap.get(source.id)!;
+
+    return this.db.transaction(() => {
+      // Child rows go with the project through ON DELETE CASCADE
+      replaced.forEach(id => this.db.prepare('DELETE FROM Projects WHERE id = ?').run(id));
+
+      const projectName = this.uniqueProjectName(source.name as string);
+
+      ARCHIVE_TABLES.forEach(({ entity, table, projectColumn, idColumns = [], jsonColumns = [], userColumns = [] }) => {
+        const columns = this.tableColumns(table);
+
+        (archive.data[entity] || []).forEach(row => {
+          const values: Record<string, unknown> = {};
+          Object.entries(row).forEach(([column, value]) => {
+            if (!columns.has(column)) return; // Dropped or renamed since the archive was written
+            if (column === 'id' || idColumns.includes(column)) {
+              values[column] = value == null ? null : idMap.get(value as string);
+            } else if (userColumns.includes(column)) {
+              values[column] = value == null ? null : options.userId;
+            } else if (jsonColumns.includes(column) && typeof value === 'string') {
+              values[column] = this.remapJson(value, idMap, projectId);
+            } else {
+              values[column] = value;
+            }
+          });
+
+          if (projectColumn) {
+            values[projectColumn] = projectId;
+          }
+          if (entity === 'projects') {
+            values.name = projectName;
+          }
+
+          const names = Object.keys(values);
+          this.db.prepare(`INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(name => `@${name}`).join(', ')})`).run(values);
+        });
+      });
+
+      // Memberships don't travel between installs, so the importer directs the project
+      this.db.prepare(`INSERT INTO ProjectMembers (project_id, user_id, role, added_by) VALUES (?, ?, 'DIRECTOR', ?)`)
+        .run(projectId, options.userId, options.userId);
+
+      return {
+        project_id: projectId,
+        project_name: projectName,
+        renamed: projectName !== source.name,
+        replaced_project_ids: replaced,
+        counts: archive.manifest.counts
+      };
+    })();
+  }
+
+  /**
+   * Serialize an archive to a gzipped JSON file body
+   */
+  static serialize(archive: ProjectArchive): Buffer {
+    return gzipSync(Buffer.from(JSON.stringify(archive), 'utf8'));
+  }
+
+  /**
+   * Parse an archive file body (gzipped or plain JSON)
+   */
+  static deserialize(buffer: Buffer): ProjectArchive {
+    const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+
+    try {
+      return JSON.parse((isGzip ? gunzipSync(buffer) : buffer).toString('utf8'));
+    } catch (error) {
+      throw new ProjectArchiveError(`Not a readable project archive: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static currentSchemaVersion(): number {
+    return Math.max(...migrations.map(migration => migration.version));
+  }
+
+  // Private helper methods
+
+  private validate(archive: ProjectArchive): void {
+    const manifest = archive?.manifest;
+
+    if (!manifest || manifest.format !== PROJECT_ARCHIVE_FORMAT || !archive.data) {
+      throw new ProjectArchiveError('File is not a satirical video project archive');
+    }
+    if (manifest.archive_version > PROJECT_ARCHIVE_VERSION) {
+      throw new ProjectArchiveError(`Archive version ${manifest.archive_version} is newer than this app supports (${PROJECT_ARCHIVE_VERSION}). Update the app and try again.`);
+    }
+    if (manifest.schema_version > ProjectArchiver.currentSchemaVersion()) {
+      throw new ProjectArchiveError(`Archive was exported from a newer database (schema ${manifest.schema_version}). Update the app and try again.`);
+    }
+    if (manifest.checksum !== this.checksum(archive.data)) {
+      throw new ProjectArchiveError('Archive checksum does not match its contents; the file may be corrupt or was edited');
+    }
+    if (!Array.isArray(archive.data.projects) || archive.data.projects.length !== 1) {
+      throw new ProjectArchiveError('Archive must contain exactly one project');
+    }
+
+    this.validateReferences(archive);
+  }
+
+  /**
+   * Every row must belong to the archived project and only reference rows inside the archive,
+   * so an edited archive can't attach content to projects already in the database
+   */
+  private validateReferences(archive: ProjectArchive): void {
+    const projectId = archive.data.projects[0].id;
+    ARCHIVE_TABLES.forEach(({ entity }) => {
+      if (archive.data[entity] != null && !Array.isArray(archive.data[entity])) {
+        throw new ProjectArchiveError(`Archive ${entity} must be a list of rows`);
+      }
+    });
+
+    const ids = new Set<unknown>();
+    ARCHIVE_TABLES.forEach(({ entity }) => (archive.data[entity] || []).forEach(row => ids.add(row?.id)));
+
+    ARCHIVE_TABLES.forEach(({ entity, table, projectColumn, idColumns = [] }) => {
+      (archive.data[entity] || []).forEach(row => {
+        if (!row || typeof row !== 'object' || (entity !== 'workflowStates' && typeof row.id !== 'string')) {
+          throw new ProjectArchiveError(`${table} row is missing its ID`);
+        }
+        if (projectColumn && row[projectColumn] !== projectId) {
+          throw new ProjectArchiveError(`${table} row belongs to a project outside the archive`);
+        }
+        idColumns.forEach(column => {
+          const value = row[column];
+          if (value != null && !ids.has(value)) {
+            throw new ProjectArchiveError(`${table}.${column} of row ${row.id} references a row outside the archive`);
+          }
+        });
+      });
+    });
+  }
+
+  private findConflicts(archive: ProjectArchive): ProjectImportConflict[] {
+    const { id, name } = archive.data.projects[0];
+    const conflicts: ProjectImportConflict[] = [];
+
+    const sameProject = this.db.prepare('SELECT id, name FROM Projects WHERE id = ?').get(id) as { id: string; name: string } | undefined;
+    if (sameProject) {
+      conflicts.push({ type: 'SAME_PROJECT', project_id: sameProject.id, project_name: sameProject.name });
+    }
+
+    const sameName = this.db.prepare('SELECT id, name FROM Projects WHERE lower(name) = lower(?) AND id != ?').all(name, id) as { id: string; name: string }[];
+    sameName.forEach(project => conflicts.push({ type: 'SAME_NAME', project_id: project.id, project_name: project.name }));
+
+    return conflicts;
+  }
+
+  private buildIdMap(archive: ProjectArchive): Map<string, string> {
+    const idMap = new Map<string, string>();
+    ARCHIVE_TABLES.forEach(({ entity }) =>
+      (archive.data[entity] || []).forEach(row => {
+        if (typeof row.id === 'string') idMap.set(row.id, generateId());
+      })
+    );
+    return idMap;
+  }
+
+  /**
+   * Rewrites archived IDs held under ID-named keys of a JSON column; free text inside the JSON is left alone
+   */
+  private remapJson(value: string, idMap: Map<string, string>, projectId: string): string {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return value;
+    }
+
+    const visit = (node: unknown): unknown => {
+      if (Array.isArray(node)) return node.map(visit);
+      if (!node || typeof node !== 'object') return node;
+
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => {
+        if (JSON_PROJECT_KEYS.has(key)) return [key, projectId];
+        if (typeof child === 'string' && JSON_ID_KEY.test(key)) return [key, idMap.get(child) ?? child];
+        return [key, visit(child)];
+      }));
+    };
+
+    return JSON.stringify(visit(parsed));
+  }
+
+  private uniqueProjectName(name: string): string {
+    const exists = (candidate: string) => !!this.db.prepare('SELECT 1 FROM Projects WHERE lower(name) = lower(?)').get(candidate);
+    if (!exists(name)) return name;
+
+    let suffix = 1;
+    let candidate = `${name} (imported)`;
+    while (exists(candidate)) {
+      candidate = `${name} (imported ${++suffix})`;
+    }
+    return candidate;
+  }
+
+  private tableColumns(table: string): Set<string> {
+    return new Set((this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name));
+  }
+
+  private checksum(data: Record<ArchiveEntity, any[]>): string {
+    return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+  }
+}
@@ -1,5 +1,12 @@
 -- Satirical Video Production Platform Database Schema
 -- SQLite Database Schema for local-first architecture
+--
+-- Baseline schema applied by migration 001. Later schema changes live in
+-- src/database/migrations as new numbered migrations - do not edit this file for them.
+--
+-- Timestamps are stored as ISO-8601 strings so they round-trip through `new Date()`.
+-- User references (created_by, uploaded_by, author) are not foreign keys because the
+-- renderer still submits placeholder user IDs before a session exists.
 
 -- Users table - stores all personas and project directors
 CREATE TABLE IF NOT EXISTS Users (
@@ -9,15 +16,15 @@ CREATE TABLE IF NOT EXISTS Users (
     password_hash TEXT NOT NULL,
     role TEXT NOT NULL CHECK (role IN (
         'PROJECT_DIRECTOR',
-        'CREATIVE_STRATEGIST', 
+        'CREATIVE_STRATEGIST',
         'BAFFLING_BROADCASTER',
         'SATIRICAL_SCREENWRITER',
         'CINEMATIC_STORYBOARDER',
         'SOUNDSCAPE_ARCHITECT',
         'VIDEO_PROMPT_ENGINEER'
     )),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT
 );
 
 -- Projects table - main project container
@@ -28,62 +35,108 @@ CREATE TABLE IF NOT EXISTS Projects (
     status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'COMPLETED', 'ARCHIVED')),
     created_by TEXT NOT NULL,
     assigned_personas TEXT, -- JSON array of persona types
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (created_by) REFERENCES Users(id)
+    satirical_context TEXT, -- JSON SatiricalContext
+    satirical_format TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT
 );
 
 -- News Articles table - source material for satirical content
 CREATE TABLE IF NOT EXISTS NewsArticles (
     id TEXT PRIMARY KEY,
     title TEXT NOT NULL,
+    source TEXT,
     url TEXT,
     content TEXT NOT NULL,
+    processing_notes TEXT,
     uploaded_by TEXT NOT NULL,
     associated_project TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (uploaded_by) REFERENCES Users(id),
+    file_name TEXT,
+    file_type TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
     FOREIGN KEY (associated_project) REFERENCES Projects(id) ON DELETE CASCADE
 );
 
+-- Creative Strategies table - AI-assisted strategic framework for a project
+CREATE TABLE IF NOT EXISTS CreativeStrategies (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    director_notes_id TEXT,
+    creative_concept TEXT NOT NULL,
+    satirical_angles TEXT NOT NULL, -- JSON array of SatiricalAngle
+    target_audience TEXT NOT NULL,
+    tone TEXT NOT NULL,
+    satirical_format TEXT,
+    key_themes TEXT NOT NULL, -- JSON array of strings
+    character_archetypes TEXT NOT NULL, -- JSON array of CharacterArchetype
+    visual_style_guide TEXT NOT NULL, -- JSON object
+    validation_criteria TEXT NOT NULL, -- JSON object
+    status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'IN_REVIEW', 'APPROVED', 'NEEDS_REVISION')),
+    version INTEGER NOT NULL DEFAULT 1,
+    generated_by_persona TEXT,
+    created_by TEXT NOT NULL,
+    approved_by TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
+    FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
+);
+
 -- Director Notes table - core creative brief
 CREATE TABLE IF NOT EXISTS DirectorNotes (
     id TEXT PRIMARY KEY,
     project_id TEXT NOT NULL,
+    creative_strategy_id TEXT,
     summary TEXT NOT NULL,
     satirical_hook TEXT NOT NULL,
     characters TEXT NOT NULL,
     visual_concepts TEXT NOT NULL,
     status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'APPROVED')),
     version INTEGER NOT NULL DEFAULT 1,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
     FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
 );
 
 -- Scripts table - the video script content
+-- director_notes_id may hold a creative strategy ID while director notes are optional
 CREATE TABLE IF NOT EXISTS Scripts (
     id TEXT PRIMARY KEY,
     project_id TEXT NOT NULL,
-    director_notes_id TEXT NOT NULL,
+    director_notes_id TEXT,
     outline TEXT,
     content TEXT NOT NULL,
     status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'APPROVED')),
     version INTEGER NOT NULL DEFAULT 1,
     ai_generated BOOLEAN NOT NULL DEFAULT FALSE,
     persona_source TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
-    FOREIGN KEY (director_notes_id) REFERENCES DirectorNotes(id)
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
+    FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
+);
+
+-- Storyboards table - one visual plan per project, shots live in the Shots table
+CREATE TABLE IF NOT EXISTS Storyboards (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL UNIQUE,
+    script_id TEXT,
+    visual_concept TEXT,
+    status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'IN_REVIEW', 'APPROVED')),
+    version INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
+    FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
 );
 
 -- Shots table - individual video segments
+-- The 8-second rule is surfaced by the storyboard UI rather than enforced here so drafts can be saved
 CREATE TABLE IF NOT EXISTS Shots (
     id TEXT PRIMARY KEY,
-    script_id TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    script_id TEXT,
     panel_number INTEGER NOT NULL,
-    length_seconds REAL NOT NULL CHECK (length_seconds > 0 AND length_seconds <= 8), -- 8-second constraint
+    length_seconds REAL NOT NULL CHECK (length_seconds > 0),
     camera_angle TEXT NOT NULL,
     character_action TEXT NOT NULL,
     lighting_mood TEXT NOT NULL,
@@ -91,9 +144,9 @@ CREATE TABLE IF NOT EXISTS Shots (
     visual_style TEXT NOT NULL,
     ai_generated BOOLEAN NOT NULL DEFAULT FALSE,
     persona_source TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (script_id) REFERENCES Scripts(id) ON DELETE CASCADE
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
+    FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
 );
 
 -- Sound Notes table - audio design for each shot
@@ -105,8 +158,8 @@ CREATE TABLE IF NOT EXISTS SoundNotes (
     broadcast_audio TEXT,
     ai_generated BOOLEAN NOT NULL DEFAULT FALSE,
     persona_source TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
     FOREIGN KEY (shot_id) REFERENCES Shots(id) ON DELETE CASCADE
 );
 
@@ -120,8 +173,8 @@ CREATE TABLE IF NOT EXISTS Prompts (
     generation_status TEXT DEFAULT 'PENDING' CHECK (generation_status IN ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED')),
     ai_generated BOOLEAN NOT NULL DEFAULT TRUE,
     persona_source TEXT DEFAULT 'VIDEO_PROMPT_ENGINEER',
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
     FOREIGN KEY (shot_id) REFERENCES Shots(id) ON DELETE CASCADE
 );
 
@@ -134,8 +187,7 @@ CREATE TABLE IF NOT EXISTS Comments (
     )),
     comment_text TEXT NOT NULL,
     author TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (author) REFERENCES Users(id)
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
 );
 
 -- LLM Integration Tables for Persona AI Assistance
@@ -146,8 +198,8 @@ CREATE TABLE IF NOT EXISTS Conversations (
     project_id TEXT NOT NULL,
     participant_personas TEXT NOT NULL, -- JSON array of persona types
     status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'COMPLETED', 'ARCHIVED')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
     FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE
 );
 
@@ -159,7 +211,7 @@ CREATE TABLE IF NOT EXISTS Messages (
     message_content TEXT NOT NULL,
     message_type TEXT NOT NULL DEFAULT 'TEXT' CHECK (message_type IN ('TEXT', 'STRUCTURED_OUTPUT')),
     metadata TEXT, -- JSON metadata for structured outputs
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
     FOREIGN KEY (conversation_id) REFERENCES Conversations(id) ON DELETE CASCADE
 );
 
@@ -171,9 +223,9 @@ CREATE TABLE IF NOT EXISTS PersonaContext (
     system_prompt TEXT NOT NULL,
     context_data TEXT, -- JSON object with persona-specific context
     conversation_history TEXT, -- JSON array of recent conversation IDs
-    last_active DATETIME DEFAULT CURRENT_TIMESTAMP,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_active TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT,
     FOREIGN KEY (project_id) REFERENCES Projects(id) ON DELETE CASCADE,
     UNIQUE(persona_type, project_id) -- One context per persona per project
 );
@@ -190,8 +242,10 @@ CREATE INDEX IF NOT EXISTS idx_projects_status ON Projects(status);
 
 -- Content workflow indexes
 CREATE INDEX IF NOT EXISTS idx_news_articles_project ON NewsArticles(associated_project);
+CREATE INDEX IF NOT EXISTS idx_creative_strategies_project ON CreativeStrategies(project_id);
 CREATE INDEX IF NOT EXISTS idx_director_notes_project ON DirectorNotes(project_id);
 CREATE INDEX IF NOT EXISTS idx_scripts_project ON Scripts(project_id);
+CREATE INDEX IF NOT EXISTS idx_shots_project ON Shots(project_id);
 CREATE INDEX IF NOT EXISTS idx_shots_script ON Shots(script_id);
 CREATE INDEX IF NOT EXISTS idx_sound_notes_shot ON SoundNotes(shot_id);
 CREATE INDEX IF NOT EXISTS idx_prompts_shot ON Prompts(shot_id);
@@ -213,56 +267,74 @@ CREATE INDEX IF NOT EXISTS idx_messages_created ON Messages(created_at);
 CREATE INDEX IF NOT EXISTS idx_comments_created ON Comments(created_at);
 
 -- Update triggers to maintain updated_at timestamps
-CREATE TRIGGER IF NOT EXISTS update_users_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_users_timestamp
     AFTER UPDATE ON Users
     BEGIN
-        UPDATE Users SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE Users SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_projects_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_projects_timestamp
     AFTER UPDATE ON Projects
     BEGIN
-        UPDATE Projects SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE Projects SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_director_notes_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_news_articles_timestamp
+    AFTER UPDATE ON NewsArticles
+    BEGIN
+        UPDATE NewsArticles SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_creative_strategies_timestamp
+    AFTER UPDATE ON CreativeStrategies
+    BEGIN
+        UPDATE CreativeStrategies SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_director_notes_timestamp
     AFTER UPDATE ON DirectorNotes
     BEGIN
-        UPDATE DirectorNotes SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE DirectorNotes SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_scripts_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_scripts_timestamp
     AFTER UPDATE ON Scripts
     BEGIN
-        UPDATE Scripts SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE Scripts SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_storyboards_timestamp
+    AFTER UPDATE ON Storyboards
+    BEGIN
+        UPDATE Storyboards SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_shots_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_shots_timestamp
     AFTER UPDATE ON Shots
     BEGIN
-        UPDATE Shots SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE Shots SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_sound_notes_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_sound_notes_timestamp
     AFTER UPDATE ON SoundNotes
     BEGIN
-        UPDATE SoundNotes SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE SoundNotes SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_prompts_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_prompts_timestamp
     AFTER UPDATE ON Prompts
     BEGIN
-        UPDATE Prompts SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE Prompts SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_conversations_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_conversations_timestamp
     AFTER UPDATE ON Conversations
     BEGIN
-        UPDATE Conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        UPDATE Conversations SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
     END;
 
-CREATE TRIGGER IF NOT EXISTS update_persona_context_timestamp 
+CREATE TRIGGER IF NOT EXISTS update_persona_context_timestamp
     AFTER UPDATE ON PersonaContext
     BEGIN
-        UPDATE PersonaContext SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
-    END;
\ No newline at end of file
+        UPDATE PersonaContext SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
@@ -0,0 +1,529 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { databaseService } from '../database/database';
+import { AuthService, SessionManager } from '../services/auth';
+import { createIpcEvent, ipcMain } from '../test/electron';
+import { setupIPCHandlers } from './ipc-handlers';
+
+const ADMIN = { email: 'admin@svpp.dev', password: 'admin123456' };
+const WRITER = { name: 'Wendy Writer', email: 'wendy@example.com', password: 'wendy-password', role: 'SATIRICAL_SCREENWRITER' };
+
+const endpointAgent = {
+  persona: 'CREATIVE_STRATEGIST',
+  provider: 'openai-compatible',
+  model: 'llama-3.1-8b-instruct',
+  baseUrl: 'http://llm.test'
+};
+
+function jsonResponse(body: any, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function completion(content: string) {
+  return jsonResponse({
+    choices: [{ message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 }
+  });
+}
+
+async function signInAs(user: { email: string; password: string }): Promise<void> {
+  const result = await ipcMain.invoke('auth-login', user.email, user.password);
+  expect(result.success).toBe(true);
+}
+
+async function createProject(name: string): Promise<string> {
+  const result = await ipcMain.invoke('db-create-project', { name, status: 'ACTIVE', assigned_personas: [] });
+  expect(result.success).toBe(true);
+  return result.data.id;
+}
+
+describe('IPC handlers', () => {
+  let writerId: string;
+
+  beforeAll(async () => {
+    await databaseService.initialize();
+    await AuthService.createDefaultAdmin();
+    setupIPCHandlers();
+
+    const registered = await ipcMain.invoke('auth-register', WRITER);
+    expect(registered.success).toBe(true);
+    writerId = registered.data.user.id;
+  });
+
+  afterAll(() => {
+    ipcMain.reset();
+    SessionManager.clearSession();
+    databaseService.close();
+  });
+
+  beforeEach(async () => {
+    await AuthService.startDefaultSession();
+  });
+
+  it('registers each channel once', () => {
+    expect(ipcMain.channels()).toEqual(expect.arrayContaining(['auth-login', 'db-create-project', 'llm-generate-response']));
+    expect(() => setupIPCHandlers()).toThrow("second handler for 'auth-register'");
+  });
+
+  describe('authentication', () => {
+    it('rejects a wrong password without starting a session', async () => {
+      SessionManager.clearSession();
+
+      const result = await ipcMain.invoke('auth-login', ADMIN.email, 'not-the-password');
+
+      expect(result.success).toBe(false);
+      expect(await ipcMain.invoke('auth-get-session')).toMatchObject({ success: true, data: null });
+    });
+
+    it('reports the signed-in user without their password hash', async () => {
+      const session = await ipcMain.invoke('auth-get-session');
+
+      expect(session.data.email).toBe(ADMIN.email);
+      expect(session.data.password_hash).toBeUndefined();
+    });
+
+    it('only lets project directors create or promote director accounts', async () => {
+      const director = { name: 'Dan Director', email: 'dan@example.com', password: 'dan-password', role: 'PROJECT_DIRECTOR' };
+      await ipcMain.invoke('auth-logout');
+
+      expect(await ipcMain.invoke('auth-register', director)).toMatchObject({
+        success: false,
+        error: 'Only a project director can create another project director account'
+      });
+
+      await signInAs(WRITER);
+      expect((await ipcMain.invoke('db-set-user-role', writerId, 'PROJECT_DIRECTOR')).success).toBe(false);
+
+      await signInAs(ADMIN);
+      expect((await ipcMain.invoke('auth-register', director)).success).toBe(true);
+    });
+  });
+
+  describe('projects', () => {
+    it('creates projects for the signed-in user', async () => {
+      const projectId = await createProject('Battery Farm Bulletin');
+
+      const projects = await ipcMain.invoke('db-get-projects');
+      expect(projects.data.map((project: any) => project.id)).toContain(projectId);
+
+      const access = await ipcMain.invoke('db-get-project-access', projectId);
+      expect(access.data.role).toBe('DIRECTOR');
+    });
+
+    it('requires a session to create a project', async () => {
+      await ipcMain.invoke('auth-logout');
+
+      const result = await ipcMain.invoke('db-create-project', { name: 'Anonymous', status: 'ACTIVE', assigned_personas: [] });
+
+      expect(result).toMatchObject({ success: false, error: 'Sign in to create a project' });
+      expect(result.timestamp).toBeInstanceOf(Date);
+    });
+
+    it('returns an error response when the database throws', async () => {
+      const spy = vi.spyOn(databaseService, 'getProjectById').mockRejectedValueOnce(new Error('disk I/O error'));
+
+      const result = await ipcMain.invoke('db-get-project', 'project-1');
+
+      expect(result).toMatchObject({ success: false, error: 'Failed to get project: Error: disk I/O error' });
+      spy.mockRestore();
+    });
+  });
+
+  describe('project permissions', () => {
+    let projectId: string;
+
+    beforeEach(async () => {
+      projectId = await createProject('Permissions');
+    });
+
+    it('blocks changes from users who are not members', async () => {
+      await signInAs(WRITER);
+
+      const result = await ipcMain.invoke('db-update-project-format', projectId, 'VOX_POP');
+
+      expect(result).toMatchObject({ success: false, error: 'You are not a member of this project' });
+    });
+
+    it('limits members to what their role allows', async () => {
+      expect((await ipcMain.invoke('db-set-project-member', projectId, writerId, 'VIEWER')).success).toBe(true);
+      await signInAs(WRITER);
+
+      const denied = await ipcMain.invoke('db-create-character', { project_id: projectId, name: 'Derek Plinth', role: 'Anchor', visual_description: 'Grey suit' });
+      expect(denied).toMatchObject({ success: false, error: "Your project role (Viewer) doesn't allow you to edit characters" });
+
+      await signInAs(ADMIN);
+      await ipcMain.invoke('db-set-project-member', projectId, writerId, 'WRITER');
+      await signInAs(WRITER);
+
+      const created = await ipcMain.invoke('db-create-character', { project_id: projectId, name: 'Derek Plinth', role: 'Anchor', visual_description: 'Grey suit' });
+      expect(created.success).toBe(true);
+      expect((await ipcMain.invoke('db-update-project-format', projectId, 'VOX_POP')).success).toBe(false);
+    });
+
+    it('checks a reply against the project of the thread it answers', async () => {
+      const otherId = await createProject('Someone Else');
+      const adminId = (await ipcMain.invoke('auth-get-session')).data.id;
+      const thread = await databaseService.createComment({ project_id: otherId, target_entity_type: 'project', target_entity_id: otherId, comment_text: 'Embargoed until Friday', author: adminId });
+      await ipcMain.invoke('db-set-project-member', projectId, writerId, 'VIEWER');
+      await signInAs(WRITER);
+
+      const reply = await ipcMain.invoke('db-create-comment', {
+        project_id: projectId,
+        target_entity_type: 'project',
+        target_entity_id: projectId,
+        parent_id: thread.data!.id,
+        comment_text: 'Leaked it'
+      });
+
+      expect(reply).toMatchObject({ success: false, error: 'You are not a member of this project' });
+    });
+
+    it('only lets directors manage API keys', async () => {
+      await signInAs(WRITER);
+      expect(await ipcMain.invoke('api-keys-set', 'openai', 'sk-writer-key-123456')).toMatchObject({
+        success: false,
+        error: 'Only project directors can do this'
+      });
+      expect((await ipcMain.invoke('api-keys-migrate', { openai: 'sk-writer-key-123456' })).success).toBe(false);
+
+      await signInAs(ADMIN);
+      const stored = await ipcMain.invoke('api-keys-set', 'openai', 'sk-admin-key-123456');
+      expect(stored.data.masked).toBe('sk-…3456');
+      expect(JSON.stringify(await ipcMain.invoke('api-keys-get-status'))).not.toContain('sk-admin-key-123456');
+    });
+  });
+
+  describe('approvals', () => {
+    let projectId: string;
+    let adminId: string;
+    let strategyId: string;
+
+    const transition = (entityType: string, entityId: string, action: string, extra: Record<string, string> = {}) =>
+      ipcMain.invoke('db-transition-approval', { project_id: projectId, entity_type: entityType, entity_id: entityId, action, ...extra });
+
+    // Submitted by the admin, approved by the writer
+    async function approve(entityType: string, entityId: string): Promise<void> {
+      expect((await transition(entityType, entityId, 'SUBMIT', { reviewer_id: writerId })).success).toBe(true);
+      await signInAs(WRITER);
+      expect((await transition(entityType, entityId, 'APPROVE')).data.status).toBe('APPROVED');
+      await signInAs(ADMIN);
+    }
+
+    async function approveScript(content: string): Promise<string> {
+      const script = await databaseService.createScript({ project_id: projectId, content, director_notes_id: '', status: 'DRAFT', version: 1, ai_generated: false });
+      await approve('SCRIPT', script.data!.id);
+      return script.data!.id;
+    }
+
+    function shot(changes: Record<string, unknown> = {}) {
+      return {
+        id: `${projectId}-shot-1`,
+        script_id: '',
+        panel_number: 1,
+        length_seconds: 6,
+        camera_angle: 'Wide',
+        character_action: 'Hens queue for the ribbon',
+        lighting_mood: 'Dawn',
+        visual_style: 'Local news',
+        created_at: new Date(),
+        ...changes
+      };
+    }
+
+    beforeEach(async () => {
+      projectId = await createProject('Signed Off');
+      adminId = (await ipcMain.invoke('auth-get-session')).data.id;
+      await ipcMain.invoke('db-set-project-member', projectId, writerId, 'WRITER');
+      const strategy = await databaseService.createCreativeStrategy({
+        project_id: projectId,
+        creative_concept: 'Free range, within reason',
+        satirical_angles: [],
+        target_audience: 'GENERAL',
+        tone: 'DRY_WIT',
+        key_themes: [],
+        character_archetypes: [],
+        visual_style_guide: {},
+        created_by: adminId
+      } as any);
+      strategyId = strategy.data!.id;
+    });
+
+    it('records transitions against the signed-in user, not a user ID sent by the renderer', async () => {
+      const result = await transition('CREATIVE_STRATEGY', strategyId, 'SUBMIT', { reviewer_id: writerId, user_id: writerId });
+
+      expect(result.success).toBe(true);
+      expect(result.data.events[0]).toMatchObject({ action: 'SUBMIT', user_id: adminId });
+    });
+
+    it('does not let submitters review their own work', async () => {
+      expect(await transition('CREATIVE_STRATEGY', strategyId, 'SUBMIT', { reviewer_id: adminId })).toMatchObject({
+        success: false,
+        error: "You can't review your own creative strategy; assign another reviewer"
+      });
+    });
+
+    it('sends an approved script back for revision when its content is edited', async () => {
+      await transition('CREATIVE_STRATEGY', strategyId, 'SUBMIT', { reviewer_id: writerId });
+      const script = await databaseService.createScript({ project_id: projectId, content: 'INT. HEN HOUSE - DAY', director_notes_id: '', status: 'DRAFT', version: 1, ai_generated: false });
+      const scriptId = script.data!.id;
+
+      await signInAs(WRITER);
+      expect((await transition('CREATIVE_STRATEGY', strategyId, 'APPROVE')).success).toBe(true);
+      await signInAs(ADMIN);
+      expect((await transition('SCRIPT', scriptId, 'SUBMIT', { reviewer_id: writerId })).success).toBe(true);
+      await signInAs(WRITER);
+      expect((await transition('SCRIPT', scriptId, 'APPROVE')).data.status).toBe('APPROVED');
+
+      await signInAs(ADMIN);
+      const updated = await ipcMain.invoke('db-update-script', scriptId, { content: 'INT. HEN HOUSE - NIGHT' });
+      const state = await ipcMain.invoke('db-get-approval-state', projectId, 'SCRIPT', scriptId);
+
+      expect(updated.data.status).toBe('DRAFT');
+      expect(state.data.status).toBe('NEEDS_REVISION');
+      expect(state.data.events[0]).toMatchObject({ action: 'REVISE', from_status: 'APPROVED', to_status: 'NEEDS_REVISION', user_id: adminId });
+    });
+
+    it('sends an approved storyboard back for revision when a shot is edited', async () => {
+      await approve('CREATIVE_STRATEGY', strategyId);
+      await approveScript('INT. HEN HOUSE - DAY');
+      const storyboard = await ipcMain.invoke('database-saveStoryboard', projectId, { visual_concept: 'Queue', shots: [shot()] });
+      await approve('STORYBOARD', storyboard.data.id);
+
+      expect((await ipcMain.invoke('database-saveShots', projectId, [shot({ camera_angle: 'Close-up' })])).success).toBe(true);
+      const state = await ipcMain.invoke('db-get-approval-state', projectId, 'STORYBOARD', storyboard.data.id);
+
+      expect(state.data.status).toBe('NEEDS_REVISION');
+      expect(state.data.events[0]).toMatchObject({ action: 'REVISE', from_status: 'APPROVED', user_id: adminId });
+    });
+
+    it('sends approved sound design back for revision when sound notes change', async () => {
+      await approve('CREATIVE_STRATEGY', strategyId);
+      await approveScript('INT. HEN HOUSE - DAY');
+      const storyboard = await ipcMain.invoke('database-saveStoryboard', projectId, { visual_concept: 'Queue', shots: [shot()] });
+      await approve('STORYBOARD', storyboard.data.id);
+      const note = { shot_id: shot().id, ambient_foley: 'Clucking', created_at: new Date() };
+      expect((await ipcMain.invoke('database-saveSoundNotes', projectId, [note])).success).toBe(true);
+      await approve('SOUND_DESIGN', projectId);
+
+      expect((await ipcMain.invoke('database-saveSoundNotes', projectId, [{ ...note, specific_sfx: 'Ribbon snip' }])).success).toBe(true);
+      const state = await ipcMain.invoke('db-get-approval-state', projectId, 'SOUND_DESIGN', projectId);
+
+      expect(state.data.status).toBe('NEEDS_REVISION');
+      expect(state.data.events[0]).toMatchObject({ action: 'REVISE', from_status: 'APPROVED', user_id: adminId });
+    });
+
+    it('blocks downstream edits until the current upstream version is approved', async () => {
+      expect(await ipcMain.invoke('db-create-script', { project_id: projectId, content: 'INT. HEN HOUSE - DAY', director_notes_id: '', status: 'DRAFT', version: 1, ai_generated: false })).toMatchObject({
+        success: false,
+        error: 'Creative Strategy must be approved before the script can be changed'
+      });
+
+      await approve('CREATIVE_STRATEGY', strategyId);
+      await approveScript('INT. HEN HOUSE - DAY');
+      await databaseService.createScript({ project_id: projectId, content: 'INT. HEN HOUSE - NIGHT', director_notes_id: '', status: 'DRAFT', version: 1, ai_generated: false });
+
+      expect(await ipcMain.invoke('database-saveStoryboard', projectId, { visual_concept: 'Queue', shots: [shot()] })).toMatchObject({
+        success: false,
+        error: 'Script must be approved before the storyboard can be changed'
+      });
+    });
+  });
+
+  describe('workflow', () => {
+    let projectId: string;
+
+    beforeEach(async () => {
+      projectId = await createProject('Workflow');
+    });
+
+    it('reports persisted stage progress and signs off stages that have output', async () => {
+      const progress = await ipcMain.invoke('workflow-get-progress', projectId);
+      expect(progress.data).toMatchObject({ project_id: projectId, current_stage: 'Creative Strategy', completed_count: 0 });
+      expect(progress.data.stages).toHaveLength(6);
+
+      expect(await ipcMain.invoke('workflow-complete-stage', projectId)).toMatchObject({
+        success: false,
+        error: 'Creative Strategy has nothing to sign off yet'
+      });
+
+      const strategy = {
+        project_id: projectId,
+        creative_concept: 'Cage-free, as long as the cage is very large',
+        satirical_angles: [],
+        target_audience: 'GENERAL',
+        tone: 'DRY_WIT',
+        key_themes: ['Greenwashing'],
+        character_archetypes: [],
+        visual_style_guide: {},
+        created_by: 'admin'
+      };
+      await databaseService.createCreativeStrategy(strategy as any);
+
+      const blocked = await ipcMain.invoke('workflow-complete-stage', projectId);
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toContain('Satirical angles: None defined');
+      expect(blocked.data.stages[0].status).toBe('review_required');
+
+      await databaseService.createCreativeStrategy({
+        ...strategy,
+        satirical_angles: [{ angle_type: 'IRONY', description: 'Labels promise freedom the hens never see', key_elements: ['labels'] }],
+        character_archetypes: [{ name: 'The Shopper', role: 'Interviewee', satirical_traits: ['Credulous'] }]
+      } as any);
+
+      const completed = await ipcMain.invoke('workflow-complete-stage', projectId);
+      expect(completed.success).toBe(true);
+      expect(completed.data).toMatchObject({ current_stage: 'Voiceover Development', completed_count: 1 });
+      expect(completed.data.stages[0].gate_results.length).toBeGreaterThan(0);
+      expect(completed.data.key_decisions[0].stage).toBe('Creative Strategy');
+    });
+
+    it('only lets members who own the current stage sign it off', async () => {
+      await ipcMain.invoke('db-set-project-member', projectId, writerId, 'SOUND');
+      await signInAs(WRITER);
+
+      expect(await ipcMain.invoke('workflow-complete-stage', projectId)).toMatchObject({
+        success: false,
+        error: "Your project role (Sound) doesn't allow you to edit the creative strategy and director's notes"
+      });
+    });
+  });
+
+  describe('LLM', () => {
+    let projectId: string;
+
+    beforeEach(async () => {
+      projectId = await createProject('Persona Calls');
+    });
+
+    it('keeps viewers from calling the personas', async () => {
+      await ipcMain.invoke('db-set-project-member', projectId, writerId, 'VIEWER');
+      await signInAs(WRITER);
+      const denied = { success: false, error: "Your project role (Viewer) doesn't allow you to work with the AI personas" };
+
+      expect(await ipcMain.invoke('llm-generate-response', projectId, 'conv-viewer', 'CREATIVE_STRATEGIST', 'Hello', null, endpointAgent)).toMatchObject(denied);
+      expect(await ipcMain.invokeWith(createIpcEvent(), 'llm-stream-response', projectId, 'stream-viewer', 'conv-viewer', 'CREATIVE_STRATEGIST', 'Hello', null, endpointAgent)).toMatchObject(denied);
+      expect(await ipcMain.invoke('llm-generate-structured', projectId, 'CREATIVE_STRATEGIST', 'Hello', 'creative_strategy', null, endpointAgent)).toMatchObject(denied);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('sends chat completions to the configured endpoint and returns the reply', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(completion('Lead with the cage sizes.'));
+
+      const result = await ipcMain.invoke('llm-generate-response', projectId, 'conv-reply', 'CREATIVE_STRATEGIST', 'What is the angle?', null, endpointAgent);
+
+      expect(result).toMatchObject({ success: true, data: 'Lead with the cage sizes.', usage: { total_tokens: 16 } });
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('http://llm.test/v1/chat/completions');
+      const body = JSON.parse(init.body as string);
+      expect(body.model).toBe('llama-3.1-8b-instruct');
+      expect(body.messages[0].role).toBe('system');
+      expect(body.messages.at(-1)).toEqual({ role: 'user', content: 'What is the angle?' });
+    });
+
+    it('only sends an endpoint key to the base URL it was saved for', async () => {
+      expect((await ipcMain.invoke('api-keys-set', 'openai-compatible', 'sk-endpoint-key-123456')).success).toBe(false);
+      const stored = await ipcMain.invoke('api-keys-set', 'openai-compatible', 'sk-endpoint-key-123456', 'http://llm.test/v1/');
+      expect(stored.data.base_url).toBe('http://llm.test/v1');
+
+      try {
+        vi.mocked(fetch).mockResolvedValueOnce(completion('Lead with the cage sizes.'));
+        vi.mocked(fetch).mockResolvedValueOnce(completion('Lead with the cage sizes.'));
+
+        await ipcMain.invoke('llm-generate-response', projectId, 'conv-bound', 'CREATIVE_STRATEGIST', 'Hello', null, endpointAgent);
+        await ipcMain.invoke('llm-generate-response', projectId, 'conv-elsewhere', 'CREATIVE_STRATEGIST', 'Hello', null, { ...endpointAgent, baseUrl: 'http://elsewhere.test' });
+
+        const [[boundUrl, boundInit], [otherUrl, otherInit]] = vi.mocked(fetch).mock.calls as [string, RequestInit][];
+        expect(boundUrl).toBe('http://llm.test/v1/chat/completions');
+        expect((boundInit.headers as Record<string, string>).Authorization).toBe('Bearer sk-endpoint-key-123456');
+        expect(otherUrl).toBe('http://elsewhere.test/v1/chat/completions');
+        expect(otherInit.headers).not.toHaveProperty('Authorization');
+      } finally {
+        await ipcMain.invoke('api-keys-delete', 'openai-compatible');
+      }
+    });
+
+    it('passes provider errors back to the renderer', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ error: { message: 'model not loaded' } }, 503));
+
+      const result = await ipcMain.invoke('llm-generate-response', projectId, 'conv-error', 'CREATIVE_STRATEGIST', 'Hello', null, endpointAgent);
+
+      expect(result).toMatchObject({ success: false, error: 'model not loaded' });
+    });
+
+    it('streams tokens to the window that asked', async () => {
+      const events = [
+        'data: {"choices":[{"delta":{"content":"Cage"}}]}',
+        'data: {"choices":[{"delta":{"content":"-free"}}]}',
+        'data: [DONE]',
+        ''
+      ].join('\n\n');
+      vi.mocked(fetch).mockResolvedValueOnce(new Response(events, { status: 200 }));
+
+      const event = createIpcEvent();
+      const result = await ipcMain.invokeWith(event, 'llm-stream-response', projectId, 'stream-1', 'conv-stream', 'CREATIVE_STRATEGIST', 'Slogan?', null, endpointAgent);
+
+      expect(result).toMatchObject({ success: true, data: 'Cage-free' });
+      expect(event.sent).toEqual([
+        { channel: 'llm-stream-token', args: [{ streamId: 'stream-1', token: 'Cage' }] },
+        { channel: 'llm-stream-token', args: [{ streamId: 'stream-1', token: '-free' }] }
+      ]);
+    });
+
+    it('aborts a stalled stream when it times out', async () => {
+      let signal: AbortSignal | undefined;
+      vi.mocked(fetch).mockImplementationOnce(async (_url, init) => {
+        signal = init?.signal ?? undefined;
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('data: {"choices":[{"delta":{"content":"Cage"}}]}\n\n'));
+            signal?.addEventListener('abort', () => controller.error(new DOMException('The operation was aborted', 'AbortError')));
+          }
+        });
+        return new Response(body, { status: 200 });
+      });
+
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        const event = createIpcEvent();
+        const pending = ipcMain.invokeWith(event, 'llm-stream-response', projectId, 'stream-stall', 'conv-stall', 'CREATIVE_STRATEGIST', 'Slogan?', null, endpointAgent);
+        await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+        expect(await pending).toMatchObject({ success: false, error: expect.stringContaining('Stream timed out') });
+        expect(signal?.aborted).toBe(true);
+        expect(event.sent).toEqual([{ channel: 'llm-stream-token', args: [{ streamId: 'stream-stall', token: 'Cage' }] }]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('answers from the offline provider without touching the network', async () => {
+      const result = await ipcMain.invoke('llm-generate-response', projectId, 'conv-mock', 'CREATIVE_STRATEGIST', 'What is the angle?', null, {
+        persona: 'CREATIVE_STRATEGIST',
+        provider: 'mock',
+        model: 'mock-deterministic'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.length).toBeGreaterThan(0);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('only generates structured output for registered output types', async () => {
+      const schema = { type: 'object', required: ['verdict'], properties: { verdict: { type: 'string' } } };
+
+      const result = await ipcMain.invoke('llm-generate-structured', projectId, 'CREATIVE_STRATEGIST', 'Judge it', schema, null, endpointAgent);
+
+      expect(result).toMatchObject({ success: false, error: 'Unknown structured output type: schemas must be named' });
+      expect(await ipcMain.invoke('llm-generate-structured', projectId, 'CREATIVE_STRATEGIST', 'Judge it', 'verdict', null, endpointAgent))
+        .toMatchObject({ success: false, error: 'Unknown structured output type: verdict' });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('reports an unknown stream when cancelling', async () => {
+      expect(await ipcMain.invoke('llm-cancel-stream', 'missing')).toMatchObject({
+        success: false,
+        error: 'No active stream found with id missing'
+      });
+    });
+  });
+});
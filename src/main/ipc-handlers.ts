@@ -1,12 +1,89 @@
-import { ipcMain } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain } from 'electron';
+import * as path from 'path';
 import { databaseService } from '../database/database';
-import { AuthService } from '../services/auth';
+import { PROJECT_ARCHIVE_EXTENSION } from '../database/project-archive';
+import { AuthService, SessionManager } from '../services/auth';
+import { accessControlService } from '../services/access-control';
 import { UserRepository, ProjectRepository, ConversationRepository } from '../database/models';
 import { generateId, validateShotDuration, sanitizeInput } from '../shared/utils';
+import { APPROVAL_STAGE_PERMISSIONS, REVISION_PERMISSIONS, WORKFLOW_STAGE_PERMISSIONS } from '../shared/utils/permissions';
+import { LENS_FILE_EXTENSION } from '../shared/utils/lenses';
+import { ApprovalEntityType, PersonaType, RevisionEntityType } from '../shared/types';
 import { createLLMService } from '../services/llm.js';
-import { ModelAvailabilityService } from '../services/model-availability.js';
+import { ModelAvailabilityService, ProviderEndpoint } from '../services/model-availability.js';
+import { secretStore } from '../services/secret-store.js';
 import { AgentConfigService } from '../services/agent-config.js';
 import { projectDirectorService } from '../services/project-director.js';
+import { satireEvaluatorService } from '../services/satire-evaluator.js';
+import { lensLibraryService } from '../services/lens-library.js';
+import { workflowStateMachine } from '../services/workflow-state.js';
+import { articleExtractorService } from '../services/article-extractor.js';
+import { STRUCTURED_OUTPUT_SCHEMAS, StructuredOutputType } from '../services/structured-output.js';
+import { SCREENPLAY_FILE_EXTENSIONS, screenplayExportService } from '../services/screenplay-export.js';
+import { SHOT_LIST_FILE_EXTENSIONS, storyboardExportService } from '../services/storyboard-export.js';
+
+/**
+ * Log in and make the user the current session
+ */
+async function signIn(email: string, password: string) {
+  const result = await AuthService.login({ email, password });
+  if (result.success && result.data) {
+    SessionManager.setCurrentUser(result.data.user, result.data.token);
+  }
+  return result;
+}
+
+/**
+ * Keep only the endpoint fields the renderer may set for a self-hosted provider
+ */
+function toProviderEndpoint(endpoint: any): ProviderEndpoint | undefined {
+  if (!endpoint || typeof endpoint !== 'object') return undefined;
+  return {
+    baseUrl: typeof endpoint.baseUrl === 'string' ? endpoint.baseUrl : undefined,
+    authHeader: typeof endpoint.authHeader === 'string' ? endpoint.authHeader : undefined
+  };
+}
+
+/**
+ * Collect what a workflow stage has produced so far, for its quality gates. Null when there is nothing to check yet.
+ */
+async function loadStageOutput(projectId: string, persona: PersonaType): Promise<any> {
+  switch (persona) {
+    case 'CREATIVE_STRATEGIST': {
+      const result = await databaseService.getCreativeStrategy(projectId);
+      if (!result.success || !result.data) return null;
+
+      // The director's notes are written from the strategy and checked with it
+      const notes = await databaseService.getDirectorNotes(projectId);
+      return { ...result.data, director_notes: notes.data?.[0] || null };
+    }
+    case 'BAFFLING_BROADCASTER': {
+      const result = await databaseService.getCharactersByProject(projectId);
+      return result.data?.length ? { characters: result.data } : null;
+    }
+    case 'SATIRICAL_SCREENWRITER': {
+      const result = await databaseService.getScriptsByProject(projectId);
+      return result.data?.length ? result.data[result.data.length - 1] : null;
+    }
+    case 'CINEMATIC_STORYBOARDER': {
+      const storyboard = await databaseService.getStoryboard(projectId);
+      const shots = await databaseService.getShots(projectId);
+      return shots.data?.length ? { storyboard: storyboard.data, shots: shots.data } : null;
+    }
+    case 'SOUNDSCAPE_ARCHITECT': {
+      const result = await databaseService.getSoundNotes(projectId);
+      const shots = await databaseService.getShots(projectId);
+      return result.data?.length ? { shots: shots.data || [], soundNotes: result.data } : null;
+    }
+    case 'VIDEO_PROMPT_ENGINEER': {
+      const result = await databaseService.getPrompts(projectId);
+      const shots = await databaseService.getShots(projectId);
+      return result.data?.length ? { shots: shots.data || [], prompts: result.data } : null;
+    }
+    default:
+      return null;
+  }
+}
 
 /**
  * Setup all IPC handlers for main-renderer communication
@@ -17,6 +94,12 @@ export function setupIPCHandlers() {
   
   ipcMain.handle('auth-register', async (event, userData) => {
     try {
+      // Other account roles carry no app-wide rights; director accounts are admins, so only an admin can create one
+      if (userData?.role === 'PROJECT_DIRECTOR') {
+        const denied = accessControlService.authorizeAdmin();
+        if (denied) return { ...denied, error: 'Only a project director can create another project director account' };
+      }
+
       return await AuthService.register(userData);
     } catch (error) {
       console.error('Register IPC handler failed:', error);
@@ -30,7 +113,7 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('auth-login', async (event, email, password) => {
     try {
-      return await AuthService.login({ email, password });
+      return await signIn(email, password);
     } catch (error) {
       console.error('Login IPC handler failed:', error);
       return {
@@ -84,11 +167,31 @@ export function setupIPCHandlers() {
     }
   });
 
+  // The signed-in user; changes to project data are checked against their project roles
+  ipcMain.handle('auth-get-session', async () => {
+    return {
+      success: true,
+      data: SessionManager.getCurrentUser(),
+      timestamp: new Date()
+    };
+  });
+
+  ipcMain.handle('auth-logout', async () => {
+    SessionManager.clearSession();
+    return {
+      success: true,
+      timestamp: new Date()
+    };
+  });
+
   // ========== DATABASE HANDLERS ==========
 
   // User operations
   ipcMain.handle('db-create-user', async (event, userData) => {
     try {
+      const denied = accessControlService.authorizeAdmin();
+      if (denied) return denied;
+
       return await UserRepository.create(userData);
     } catch (error) {
       console.error('Create user IPC handler failed:', error);
@@ -102,7 +205,7 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-authenticate-user', async (event, email, password) => {
     try {
-      return await AuthService.login({ email, password });
+      return await signIn(email, password);
     } catch (error) {
       console.error('Authenticate user IPC handler failed:', error);
       return {
@@ -113,6 +216,23 @@ export function setupIPCHandlers() {
     }
   });
 
+  // Changing an account's role is how a user becomes (or stops being) a project director
+  ipcMain.handle('db-set-user-role', async (event, userId, role) => {
+    try {
+      const denied = accessControlService.authorizeAdmin();
+      if (denied) return denied;
+
+      return await databaseService.setUserRole(userId, role);
+    } catch (error) {
+      console.error('Set user role IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to set user role: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
   ipcMain.handle('db-get-user', async (event, id) => {
     try {
       return await UserRepository.findById(id);
@@ -129,7 +249,12 @@ export function setupIPCHandlers() {
   // Project operations
   ipcMain.handle('db-create-project', async (event, projectData) => {
     try {
-      return await databaseService.createProject(projectData);
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: false, error: 'Sign in to create a project', timestamp: new Date() };
+      }
+
+      return await databaseService.createProject({ ...projectData, created_by: userId });
     } catch (error) {
       console.error('Create project IPC handler failed:', error);
       return {
@@ -140,8 +265,14 @@ export function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('db-get-projects', async (event, userId) => {
+  // Projects are listed for the signed-in user
+  ipcMain.handle('db-get-projects', async () => {
     try {
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: true, data: [], timestamp: new Date() };
+      }
+
       return await databaseService.getProjectsForUser(userId);
     } catch (error) {
       console.error('Get projects IPC handler failed:', error);
@@ -168,6 +299,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-update-project', async (event, id, data) => {
     try {
+      const denied = await accessControlService.authorize(id, 'project:manage');
+      if (denied) return denied;
+
       // For Phase 0, implement basic status update
       if (data.status) {
         return await ProjectRepository.updateStatus(id, data.status);
@@ -189,6 +323,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-update-project-format', async (event, projectId, formatType) => {
     try {
+      const denied = await accessControlService.authorize(projectId, 'project:manage');
+      if (denied) return denied;
+
       return await databaseService.updateProjectFormat(projectId, formatType);
     } catch (error) {
       console.error('Update project format IPC handler failed:', error);
@@ -202,6 +339,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-delete-project', async (event, id) => {
     try {
+      const denied = await accessControlService.authorize(id, 'project:manage');
+      if (denied) return denied;
+
       return await databaseService.deleteProject(id);
     } catch (error) {
       console.error('Delete project IPC handler failed:', error);
@@ -213,10 +353,161 @@ export function setupIPCHandlers() {
     }
   });
 
+  // Project member operations
+  ipcMain.handle('db-get-project-access', async (event, projectId) => {
+    try {
+      return {
+        success: true,
+        data: await accessControlService.getProjectAccess(projectId),
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Get project access IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get project access: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-get-project-members', async (event, projectId) => {
+    try {
+      return await databaseService.getProjectMembers(projectId);
+    } catch (error) {
+      console.error('Get project members IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get project members: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-set-project-member', async (event, projectId, userId, role) => {
+    try {
+      const denied = await accessControlService.authorize(projectId, 'project:manage');
+      if (denied) return denied;
+
+      return await databaseService.setProjectMember(projectId, userId, role, accessControlService.currentUserId()!);
+    } catch (error) {
+      console.error('Set project member IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to set project member: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-remove-project-member', async (event, projectId, userId) => {
+    try {
+      const denied = await accessControlService.authorize(projectId, 'project:manage');
+      if (denied) return denied;
+
+      return await databaseService.removeProjectMember(projectId, userId);
+    } catch (error) {
+      console.error('Remove project member IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to remove project member: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // Project archive operations - data is null when the user cancels the file dialog
+  const archiveFilters = [{ name: 'Satirical Video Project', extensions: [PROJECT_ARCHIVE_EXTENSION] }];
+
+  ipcMain.handle('db-export-project', async (event, projectId) => {
+    try {
+      const project = await databaseService.getProjectById(projectId);
+      if (!project.success || !project.data) {
+        return project;
+      }
+
+      const fileName = `${project.data.name.replace(/[^\w\- ]+/g, '').trim() || 'project'}.${PROJECT_ARCHIVE_EXTENSION}`;
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Export Project',
+        defaultPath: path.join(app.getPath('documents'), fileName),
+        filters: archiveFilters
+      };
+      const { canceled, filePath } = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      return await databaseService.exportProject(projectId, filePath, { appVersion: app.getVersion() });
+    } catch (error) {
+      console.error('Export project IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to export project: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-preview-project-import', async (event) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Import Project',
+        properties: ['openFile' as const],
+        filters: archiveFilters
+      };
+      const { canceled, filePaths } = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (canceled || filePaths.length === 0) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      const preview = await databaseService.previewProjectImport(filePaths[0]);
+      return preview.success ? { ...preview, data: { ...preview.data, file_path: filePaths[0] } } : preview;
+    } catch (error) {
+      console.error('Preview project import IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to read project archive: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-import-project', async (event, filePath, options) => {
+    try {
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: false, error: 'Sign in to import a project', timestamp: new Date() };
+      }
+
+      // Replacing a project deletes it, so the importer must be able to manage the project the archive came from
+      if (options?.resolution === 'REPLACE') {
+        const preview = await databaseService.previewProjectImport(filePath);
+        for (const conflict of (preview.data?.conflicts || []).filter(conflict => conflict.type === 'SAME_PROJECT')) {
+          const denied = await accessControlService.authorize(conflict.project_id, 'project:manage');
+          if (denied) return denied;
+        }
+      }
+
+      return await databaseService.importProject(filePath, { ...options, userId });
+    } catch (error) {
+      console.error('Import project IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to import project: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
   // News Article operations
   ipcMain.handle('db-create-article', async (event, articleData) => {
     try {
-      return await databaseService.createNewsArticle(articleData);
+      const denied = await accessControlService.authorize(articleData.project_id, 'articles:edit');
+      if (denied) return denied;
+
+      return await databaseService.createNewsArticle({ ...articleData, uploaded_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Create article IPC handler failed:', error);
       return {
@@ -227,9 +518,34 @@ export function setupIPCHandlers() {
     }
   });
 
+  ipcMain.handle('db-extract-article-file', async (event, fileData) => {
+    try {
+      const extraction = await articleExtractorService.extract(
+        Buffer.from(fileData.fileData, 'base64'),
+        fileData.fileName,
+        fileData.fileType
+      );
+      return {
+        success: true,
+        data: extraction,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Extract article file IPC handler failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to extract article: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
   ipcMain.handle('db-upload-article-file', async (event, fileData) => {
     try {
-      return await databaseService.uploadNewsArticleFile(fileData);
+      const denied = await accessControlService.authorize(fileData.project_id, 'articles:edit');
+      if (denied) return denied;
+
+      return await databaseService.uploadNewsArticleFile({ ...fileData, uploaded_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Upload article file IPC handler failed:', error);
       return {
@@ -268,6 +584,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-update-news-article', async (event, id, updates) => {
     try {
+      const denied = await accessControlService.authorizeEntity('news_article', id, 'articles:edit');
+      if (denied) return denied;
+
       return await databaseService.updateNewsArticle(id, updates);
     } catch (error) {
       console.error('Update article IPC handler failed:', error);
@@ -281,6 +600,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-delete-article', async (event, id) => {
     try {
+      const denied = await accessControlService.authorizeEntity('news_article', id, 'articles:edit');
+      if (denied) return denied;
+
       return await databaseService.deleteNewsArticle(id);
     } catch (error) {
       console.error('Delete article IPC handler failed:', error);
@@ -295,6 +617,9 @@ export function setupIPCHandlers() {
   // Director Notes operations
   ipcMain.handle('db-create-director-notes', async (event, notesData) => {
     try {
+      const denied = await accessControlService.authorize(notesData.project_id, 'strategy:edit');
+      if (denied) return denied;
+
       return await databaseService.createDirectorNotes(notesData);
     } catch (error) {
       console.error('Create director notes IPC handler failed:', error);
@@ -308,19 +633,7 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-get-director-notes', async (event, projectId) => {
     try {
-      const db = databaseService.getDatabase();
-      const stmt = db.prepare('SELECT * FROM DirectorNotes WHERE project_id = ? ORDER BY created_at DESC');
-      const notes = stmt.all(projectId) as any[];
-      
-      return {
-        success: true,
-        data: notes.map((note: any) => ({
-          ...note,
-          created_at: new Date(note.created_at),
-          updated_at: note.updated_at ? new Date(note.updated_at) : undefined
-        })),
-        timestamp: new Date()
-      };
+      return await databaseService.getDirectorNotes(projectId);
     } catch (error) {
       console.error('Get director notes IPC handler failed:', error);
       return {
@@ -331,30 +644,12 @@ export function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('db-update-director-notes', async (event, id, data) => {
+  ipcMain.handle('db-update-director-notes', async (event, id, data, options) => {
     try {
-      const db = databaseService.getDatabase();
-      const stmt = db.prepare(`
-        UPDATE DirectorNotes 
-        SET summary = ?, satirical_hook = ?, characters = ?, visual_concepts = ?, status = ?
-        WHERE id = ?
-      `);
-      
-      const result = stmt.run(
-        data.summary,
-        data.satirical_hook,
-        data.characters,
-        data.visual_concepts,
-        data.status,
-        id
-      );
+      const denied = await accessControlService.authorizeEntity('director_notes', id, 'strategy:edit');
+      if (denied) return denied;
 
-      return {
-        success: result.changes > 0,
-        data: result.changes > 0,
-        error: result.changes === 0 ? 'Director notes not found' : undefined,
-        timestamp: new Date()
-      };
+      return await databaseService.updateDirectorNotes(id, data, { ...options, created_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Update director notes IPC handler failed:', error);
       return {
@@ -369,7 +664,10 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-create-creative-strategy', async (event, strategyData) => {
     try {
-      return await databaseService.createCreativeStrategy(strategyData);
+      const denied = await accessControlService.authorize(strategyData.project_id, 'strategy:edit');
+      if (denied) return denied;
+
+      return await databaseService.createCreativeStrategy({ ...strategyData, created_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Create creative strategy IPC handler failed:', error);
       return {
@@ -393,9 +691,12 @@ export function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('db-update-project-context', async (event, projectId, contextType) => {
+  ipcMain.handle('db-update-project-context', async (event, projectId, contextType, lensId) => {
     try {
-      return await databaseService.updateProjectContext(projectId, contextType);
+      const denied = await accessControlService.authorize(projectId, 'project:manage');
+      if (denied) return denied;
+
+      return await databaseService.updateProjectContext(projectId, contextType, lensId);
     } catch (error) {
       console.error('Update project context IPC handler failed:', error);
       return {
@@ -408,7 +709,10 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-generate-creative-strategy', async (event, projectId) => {
     try {
-      return await databaseService.generateCreativeStrategy(projectId);
+      const denied = await accessControlService.authorize(projectId, 'strategy:edit');
+      if (denied) return denied;
+
+      return await databaseService.generateCreativeStrategy(projectId, accessControlService.currentUserId()!);
     } catch (error) {
       console.error('Generate creative strategy IPC handler failed:', error);
       return {
@@ -419,9 +723,12 @@ export function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('db-update-creative-strategy', async (event, strategyId, updates) => {
+  ipcMain.handle('db-update-creative-strategy', async (event, strategyId, updates, options) => {
     try {
-      return await databaseService.updateCreativeStrategy(strategyId, updates);
+      const denied = await accessControlService.authorizeEntity('creative_strategy', strategyId, 'strategy:edit');
+      if (denied) return denied;
+
+      return await databaseService.updateCreativeStrategy(strategyId, updates, { ...options, created_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Update creative strategy IPC handler failed:', error);
       return {
@@ -434,6 +741,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-generate-director-notes', async (event, strategyId) => {
     try {
+      const denied = await accessControlService.authorizeEntity('creative_strategy', strategyId, 'strategy:edit');
+      if (denied) return denied;
+
       return await databaseService.generateDirectorNotes(strategyId);
     } catch (error) {
       console.error('Generate director notes IPC handler failed:', error);
@@ -449,6 +759,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-create-script', async (event, scriptData) => {
     try {
+      const denied = await accessControlService.authorizeStage(scriptData.project_id, 'SCRIPT', 'script:edit');
+      if (denied) return denied;
+
       return await databaseService.createScript(scriptData);
     } catch (error) {
       console.error('Create script IPC handler failed:', error);
@@ -486,9 +799,12 @@ export function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('db-update-script', async (event, scriptId, updates) => {
+  ipcMain.handle('db-update-script', async (event, scriptId, updates, options) => {
     try {
-      return await databaseService.updateScript(scriptId, updates);
+      const denied = await accessControlService.authorizeStage(await databaseService.getEntityProjectId('script', scriptId), 'SCRIPT', 'script:edit');
+      if (denied) return denied;
+
+      return await databaseService.updateScript(scriptId, updates, { ...options, created_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Update script IPC handler failed:', error);
       return {
@@ -501,6 +817,9 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('db-delete-script', async (event, scriptId) => {
     try {
+      const denied = await accessControlService.authorizeEntity('script', scriptId, 'script:edit');
+      if (denied) return denied;
+
       return await databaseService.deleteScript(scriptId);
     } catch (error) {
       console.error('Delete script IPC handler failed:', error);
@@ -512,168 +831,457 @@ export function setupIPCHandlers() {
     }
   });
 
-  // ========== LLM HANDLERS ==========
+  // Screenplay export/import - data is null when the user cancels the file dialog
+  ipcMain.handle('db-export-script', async (event, scriptId, format) => {
+    try {
+      const extension = SCREENPLAY_FILE_EXTENSIONS[format as keyof typeof SCREENPLAY_FILE_EXTENSIONS];
+      if (!extension) {
+        return { success: false, error: `Unsupported screenplay format: ${format}`, timestamp: new Date() };
+      }
 
-  // Initialize LLM service
-  const llmService = createLLMService();
+      const script = await databaseService.getScriptById(scriptId);
+      if (!script.success || !script.data) {
+        return script;
+      }
 
-  ipcMain.handle('llm-generate-response', async (event, conversationId, persona, userMessage, context, agentConfig) => {
-    console.log('DEBUG: ===== LLM GENERATE RESPONSE HANDLER START =====');
-    console.log('DEBUG: conversationId:', conversationId);
-    console.log('DEBUG: persona:', persona);
-    console.log('DEBUG: userMessage:', userMessage?.substring(0, 50) + '...');
-    console.log('DEBUG: context:', context ? Object.keys(context) : 'null');
-    console.log('DEBUG: agentConfig received:', agentConfig);
-    
-    try {
-      console.log('DEBUG: About to call llmService.generateResponseWithConfig()');
-      const response = await llmService.generateResponseWithConfig(conversationId, persona, userMessage, context, agentConfig);
-      console.log('DEBUG: LLM response received:', { success: response.success, error: response.error });
-      
-      return {
-        success: response.success,
-        data: response.response,
-        error: response.error,
-        usage: response.usage,
-        timestamp: new Date()
-      };
+      const project = await databaseService.getProjectById(script.data.project_id);
+      const baseName = (project.data?.name || 'script').replace(/[^\w\- ]+/g, '').trim() || 'script';
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Export Script',
+        defaultPath: path.join(app.getPath('documents'), `${baseName}.${extension}`),
+        filters: [{ name: format === 'FDX' ? 'Final Draft' : format === 'PDF' ? 'PDF' : 'Fountain', extensions: [extension] }]
+      };
+      const { canceled, filePath } = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      return await screenplayExportService.exportScript(scriptId, format, filePath);
     } catch (error) {
-      console.error('DEBUG: IPC handler exception:', error);
+      console.error('Export script IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to generate LLM response: ${error}`,
+        error: `Failed to export script: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  ipcMain.handle('llm-clear-conversation', async (event, conversationId) => {
+  ipcMain.handle('db-import-fountain-script', async (event, projectId) => {
     try {
-      llmService.clearConversation(conversationId);
-      return {
-        success: true,
-        timestamp: new Date()
-      };
+      const denied = await accessControlService.authorizeStage(projectId, 'SCRIPT', 'script:edit');
+      if (denied) return denied;
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Import Fountain Script',
+        properties: ['openFile' as const],
+        filters: [{ name: 'Fountain', extensions: ['fountain', 'spmd', 'txt'] }]
+      };
+      const { canceled, filePaths } = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (canceled || filePaths.length === 0) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      return await screenplayExportService.importFountain(projectId, filePaths[0]);
     } catch (error) {
-      console.error('Clear conversation failed:', error);
+      console.error('Import Fountain script IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to clear conversation: ${error}`,
+        error: `Failed to import Fountain script: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  ipcMain.handle('llm-get-conversation-summary', async (event, conversationId) => {
+  // ========== CHARACTER HANDLERS ==========
+
+  ipcMain.handle('db-create-character', async (event, characterData) => {
     try {
-      const summary = llmService.getConversationSummary(conversationId);
-      return {
-        success: true,
-        data: summary,
-        timestamp: new Date()
-      };
+      const denied = await accessControlService.authorize(characterData.project_id, 'characters:edit');
+      if (denied) return denied;
+
+      return await databaseService.createCharacter(characterData);
     } catch (error) {
-      console.error('Get conversation summary failed:', error);
+      console.error('Create character IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to get conversation summary: ${error}`,
+        error: `Failed to create character: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  ipcMain.handle('llm-generate-structured', async (event, persona, prompt, schema) => {
-    // This can be implemented later for structured output generation
-    return {
-      success: false,
-      error: 'Structured generation not yet implemented',
-      timestamp: new Date()
-    };
-  });
-
-  ipcMain.handle('llm-create-conversation', async (event, projectId, personas) => {
+  ipcMain.handle('db-get-characters-by-project', async (event, projectId) => {
     try {
-      return await ConversationRepository.create({
-        project_id: projectId,
-        participant_personas: personas,
-        status: 'ACTIVE'
-      });
+      return await databaseService.getCharactersByProject(projectId);
     } catch (error) {
-      console.error('Create conversation IPC handler failed:', error);
+      console.error('Get characters IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to create conversation: ${error}`,
+        error: `Failed to get characters: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  ipcMain.handle('llm-add-message', async (event, conversationId, message) => {
+  ipcMain.handle('db-update-character', async (event, characterId, updates) => {
     try {
-      return await ConversationRepository.addMessage({
-        conversation_id: conversationId,
-        ...message
-      });
+      const denied = await accessControlService.authorizeEntity('character', characterId, 'characters:edit');
+      if (denied) return denied;
+
+      return await databaseService.updateCharacter(characterId, updates);
     } catch (error) {
-      console.error('Add message IPC handler failed:', error);
+      console.error('Update character IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to add message: ${error}`,
+        error: `Failed to update character: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  ipcMain.handle('llm-get-conversation', async (event, conversationId) => {
+  ipcMain.handle('db-delete-character', async (event, characterId) => {
     try {
-      return await ConversationRepository.getMessages(conversationId);
+      const denied = await accessControlService.authorizeEntity('character', characterId, 'characters:edit');
+      if (denied) return denied;
+
+      return await databaseService.deleteCharacter(characterId);
     } catch (error) {
-      console.error('Get conversation IPC handler failed:', error);
+      console.error('Delete character IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to get conversation: ${error}`,
+        error: `Failed to delete character: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  // ========== MODEL VALIDATION HANDLERS ==========
+  // ========== API KEY HANDLERS ==========
 
-  ipcMain.handle('model-check-availability', async (event, provider, apiKey) => {
+  // Keys are stored encrypted in the main process; the renderer only ever gets masked summaries back
+  ipcMain.handle('api-keys-get-status', async () => {
     try {
-      console.log(`DEBUG: Checking model availability for ${provider}`);
-      const result = await ModelAvailabilityService.checkAvailableModels(provider, apiKey);
-      
       return {
-        success: result.success,
-        data: result,
+        success: true,
+        data: secretStore.getStatus(),
         timestamp: new Date()
       };
     } catch (error) {
-      console.error('Model availability check failed:', error);
+      console.error('API key status IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to check model availability: ${error}`,
+        error: `Failed to load API keys: ${error}`,
         timestamp: new Date()
       };
     }
   });
 
-  ipcMain.handle('model-validate', async (event, provider, modelId, apiKey) => {
+  ipcMain.handle('api-keys-set', async (event, provider, key, baseUrl) => {
     try {
-      console.log(`DEBUG: Validating model ${modelId} for ${provider}`);
-      const result = await ModelAvailabilityService.validateModel(provider, modelId, apiKey);
-      
-      return {
-        success: true,
-        data: result,
-        timestamp: new Date()
-      };
+      const denied = accessControlService.authorizeAdmin();
+      if (denied) return denied;
+
+      return secretStore.setKey(provider, key, baseUrl);
     } catch (error) {
-      console.error('Model validation failed:', error);
+      console.error('Set API key IPC handler failed:', error);
       return {
         success: false,
-        error: `Failed to validate model: ${error}`,
+        error: `Failed to save API key: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('api-keys-delete', async (event, provider) => {
+    try {
+      const denied = accessControlService.authorizeAdmin();
+      if (denied) return denied;
+
+      return secretStore.deleteKey(provider);
+    } catch (error) {
+      console.error('Delete API key IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to delete API key: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // Only an admin may move leftover plaintext keys into the shared store; anyone else leaves them where they are
+  ipcMain.handle('api-keys-migrate', async (event, keys, compatibleBaseUrl) => {
+    try {
+      const denied = accessControlService.authorizeAdmin();
+      if (denied) return denied;
+
+      return secretStore.migrateKeys(keys, compatibleBaseUrl);
+    } catch (error) {
+      console.error('Migrate API keys IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to migrate API keys: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== LLM HANDLERS ==========
+
+  // Initialize LLM service
+  const llmService = createLLMService();
+
+  ipcMain.handle('llm-generate-response', async (event, projectId, conversationId, persona, userMessage, context, agentConfig) => {
+    console.log('DEBUG: ===== LLM GENERATE RESPONSE HANDLER START =====');
+    console.log('DEBUG: conversationId:', conversationId);
+    console.log('DEBUG: persona:', persona);
+    console.log('DEBUG: userMessage:', userMessage?.substring(0, 50) + '...');
+    console.log('DEBUG: context:', context ? Object.keys(context) : 'null');
+    console.log('DEBUG: agentConfig received:', agentConfig);
+    
+    try {
+      // Persona calls spend the stored API keys, so they need the project's AI permission
+      const denied = await accessControlService.authorize(projectId, 'ai:use');
+      if (denied) return denied;
+
+      console.log('DEBUG: About to call llmService.generateResponseWithConfig()');
+      const response = await llmService.generateResponseWithConfig(conversationId, persona, userMessage, { ...context, projectId }, agentConfig);
+      console.log('DEBUG: LLM response received:', { success: response.success, error: response.error });
+      
+      return {
+        success: response.success,
+        data: response.response,
+        error: response.error,
+        usage: response.usage,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('DEBUG: IPC handler exception:', error);
+      return {
+        success: false,
+        error: `Failed to generate LLM response: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // In-flight streamed responses, keyed by the stream ID supplied by the renderer
+  const activeStreams = new Map<string, AbortController>();
+
+  ipcMain.handle('llm-stream-response', async (event, projectId, streamId, conversationId, persona, userMessage, context, agentConfig) => {
+    const denied = await accessControlService.authorize(projectId, 'ai:use');
+    if (denied) return denied;
+
+    const controller = new AbortController();
+    activeStreams.set(streamId, controller);
+
+    try {
+      const response = await llmService.generateResponseWithConfig(conversationId, persona, userMessage, { ...context, projectId }, agentConfig, {
+        signal: controller.signal,
+        onToken: (token) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send('llm-stream-token', { streamId, token });
+          }
+        }
+      });
+
+      return {
+        success: response.success,
+        data: response.response,
+        error: response.error,
+        usage: response.usage,
+        cancelled: response.cancelled,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Stream LLM response IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to stream LLM response: ${error}`,
+        timestamp: new Date()
+      };
+    } finally {
+      activeStreams.delete(streamId);
+    }
+  });
+
+  ipcMain.handle('llm-cancel-stream', async (event, streamId) => {
+    const controller = activeStreams.get(streamId);
+    if (!controller) {
+      return {
+        success: false,
+        error: `No active stream found with id ${streamId}`,
+        timestamp: new Date()
+      };
+    }
+
+    controller.abort();
+    return {
+      success: true,
+      timestamp: new Date()
+    };
+  });
+
+  ipcMain.handle('llm-clear-conversation', async (event, conversationId) => {
+    try {
+      llmService.clearConversation(conversationId);
+      return {
+        success: true,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Clear conversation failed:', error);
+      return {
+        success: false,
+        error: `Failed to clear conversation: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('llm-get-conversation-summary', async (event, conversationId) => {
+    try {
+      const summary = llmService.getConversationSummary(conversationId);
+      return {
+        success: true,
+        data: summary,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Get conversation summary failed:', error);
+      return {
+        success: false,
+        error: `Failed to get conversation summary: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('llm-generate-structured', async (event, projectId, persona, prompt, schema, context, agentConfig) => {
+    try {
+      const denied = await accessControlService.authorize(projectId, 'ai:use');
+      if (denied) return denied;
+
+      // Only registered output types cross IPC; their schemas stay in the main process
+      if (typeof schema !== 'string' || !Object.prototype.hasOwnProperty.call(STRUCTURED_OUTPUT_SCHEMAS, schema)) {
+        return {
+          success: false,
+          error: `Unknown structured output type: ${typeof schema === 'string' ? schema : 'schemas must be named'}`,
+          timestamp: new Date()
+        };
+      }
+
+      const response = await llmService.generateStructuredOutput(persona, prompt, schema as StructuredOutputType, { ...context, projectId }, agentConfig);
+      return {
+        success: response.success,
+        data: response.data,
+        error: response.error,
+        attempts: response.attempts,
+        validationErrors: response.validationErrors,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Generate structured output IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to generate structured output: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('llm-create-conversation', async (event, projectId, personas) => {
+    try {
+      const denied = await accessControlService.authorize(projectId, 'ai:use');
+      if (denied) return denied;
+
+      return await ConversationRepository.create({
+        project_id: projectId,
+        participant_personas: personas,
+        status: 'ACTIVE'
+      });
+    } catch (error) {
+      console.error('Create conversation IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to create conversation: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('llm-add-message', async (event, conversationId, message) => {
+    try {
+      const denied = await accessControlService.authorizeEntity('conversation', conversationId, 'ai:use');
+      if (denied) return denied;
+
+      return await ConversationRepository.addMessage({
+        conversation_id: conversationId,
+        ...message
+      });
+    } catch (error) {
+      console.error('Add message IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to add message: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('llm-get-conversation', async (event, conversationId) => {
+    try {
+      return await ConversationRepository.getMessages(conversationId);
+    } catch (error) {
+      console.error('Get conversation IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get conversation: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== MODEL VALIDATION HANDLERS ==========
+
+  ipcMain.handle('model-check-availability', async (event, provider, endpoint) => {
+    try {
+      console.log(`DEBUG: Checking model availability for ${provider}`);
+      const providerEndpoint = toProviderEndpoint(endpoint);
+      const result = await ModelAvailabilityService.checkAvailableModels(provider, secretStore.getKey(provider, providerEndpoint?.baseUrl) || undefined, providerEndpoint);
+      
+      return {
+        success: result.success,
+        data: result,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Model availability check failed:', error);
+      return {
+        success: false,
+        error: `Failed to check model availability: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('model-validate', async (event, provider, modelId, endpoint) => {
+    try {
+      console.log(`DEBUG: Validating model ${modelId} for ${provider}`);
+      const providerEndpoint = toProviderEndpoint(endpoint);
+      const result = await ModelAvailabilityService.validateModel(provider, modelId, secretStore.getKey(provider, providerEndpoint?.baseUrl) || undefined, providerEndpoint);
+      
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Model validation failed:', error);
+      return {
+        success: false,
+        error: `Failed to validate model: ${error}`,
         timestamp: new Date()
       };
     }
@@ -740,10 +1348,11 @@ export function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('agent-get-models-dynamic', async (event, provider, apiKey) => {
+  ipcMain.handle('agent-get-models-dynamic', async (event, provider, endpoint) => {
     try {
       console.log(`DEBUG: Getting dynamic models for ${provider}`);
-      const result = await AgentConfigService.getModelsForProviderDynamic(provider, apiKey);
+      const providerEndpoint = toProviderEndpoint(endpoint);
+      const result = await AgentConfigService.getModelsForProviderDynamic(provider, secretStore.getKey(provider, providerEndpoint?.baseUrl) || undefined, providerEndpoint);
       
       return {
         success: true,
@@ -837,6 +1446,39 @@ export function setupIPCHandlers() {
     }
   });
 
+  // ========== MIGRATION HANDLERS ==========
+
+  ipcMain.handle('db-migration-status', async (event) => {
+    try {
+      return await databaseService.getMigrationStatus();
+    } catch (error) {
+      console.error('Migration status IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get migration status: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-import-mock-data', async (event, dryRun) => {
+    try {
+      if (!dryRun) {
+        const denied = accessControlService.authorizeAdmin();
+        if (denied) return denied;
+      }
+
+      return await databaseService.importMockData({ dryRun: !!dryRun });
+    } catch (error) {
+      console.error('Import mock data IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to import mock data: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
   // Test handler to verify IPC communication
   ipcMain.handle('test-ipc', async (event, message) => {
     console.log('DEBUG: Test IPC handler called with message:', message);
@@ -888,10 +1530,18 @@ export function setupIPCHandlers() {
       const articlesResult = await databaseService.getNewsArticlesByProject(projectId);
       const strategyResult = await databaseService.getCreativeStrategy(projectId);
       
+      const trendsResult = await satireEvaluatorService.getQualityTrends(projectId);
+      
+      const workflow = projectResult.success && projectResult.data
+        ? await workflowStateMachine.openWorkflow(projectId, projectResult.data)
+        : null;
+
       const projectContext = {
         project: projectResult.success ? projectResult.data : null,
         articles: articlesResult.success ? articlesResult.data : [],
-        creativeStrategy: strategyResult.success ? strategyResult.data : null
+        creativeStrategy: strategyResult.success ? strategyResult.data : null,
+        workflow: workflow ? workflowStateMachine.getProgress(workflow) : null,
+        qualityTrends: trendsResult.success ? trendsResult.data : []
       };
       
       // Initialize if needed
@@ -952,13 +1602,86 @@ export function setupIPCHandlers() {
     }
   });
 
-  // ========== STORYBOARD AND SHOT HANDLERS ==========
-  
-  ipcMain.handle('database-saveStoryboard', async (event, projectId, storyboard) => {
+  // ========== WORKFLOW HANDLERS ==========
+
+  ipcMain.handle('workflow-get-progress', async (event, projectId) => {
     try {
-      return await databaseService.saveStoryboard(projectId, storyboard);
-    } catch (error) {
-      console.error('Save storyboard IPC handler failed:', error);
+      const projectResult = await databaseService.getProjectById(projectId);
+      if (!projectResult.success || !projectResult.data) {
+        return projectResult;
+      }
+
+      const workflow = await workflowStateMachine.openWorkflow(projectId, projectResult.data);
+
+      return {
+        success: true,
+        data: workflowStateMachine.getProgress(workflow),
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Get workflow progress IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get workflow progress: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('workflow-complete-stage', async (event, projectId) => {
+    try {
+      const projectResult = await databaseService.getProjectById(projectId);
+      if (!projectResult.success || !projectResult.data) {
+        return projectResult;
+      }
+
+      const workflow = await workflowStateMachine.openWorkflow(projectId, projectResult.data);
+      const stage = workflow.currentStage;
+      const denied = await accessControlService.authorize(projectId, WORKFLOW_STAGE_PERMISSIONS[stage.persona]);
+      if (denied) return denied;
+
+      if (stage.status === 'completed') {
+        return { success: false, error: 'Every workflow stage is already complete', timestamp: new Date() };
+      }
+
+      const output = await loadStageOutput(projectId, stage.persona);
+      if (!output) {
+        return { success: false, error: `${stage.name} has nothing to sign off yet`, timestamp: new Date() };
+      }
+
+      // Someone else may have signed the stage off while its output was loading
+      if (workflow.currentStage !== stage) {
+        return { success: false, error: `${stage.name} was already signed off`, timestamp: new Date() };
+      }
+
+      const result = await workflowStateMachine.transitionToNextStage(workflow, output);
+
+      return {
+        success: result.success,
+        data: workflowStateMachine.getProgress(workflow),
+        error: result.error,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Complete workflow stage IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to complete workflow stage: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== STORYBOARD AND SHOT HANDLERS ==========
+  
+  ipcMain.handle('database-saveStoryboard', async (event, projectId, storyboard, options) => {
+    try {
+      const denied = await accessControlService.authorizeStage(projectId, 'STORYBOARD', 'storyboard:edit');
+      if (denied) return denied;
+
+      return await databaseService.saveStoryboard(projectId, storyboard, { ...options, created_by: accessControlService.currentUserId()! });
+    } catch (error) {
+      console.error('Save storyboard IPC handler failed:', error);
       return {
         success: false,
         error: `Save storyboard failed: ${error}`,
@@ -982,7 +1705,10 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('database-saveShots', async (event, projectId, shots) => {
     try {
-      return await databaseService.saveShots(projectId, shots);
+      const denied = await accessControlService.authorizeStage(projectId, 'STORYBOARD', 'storyboard:edit');
+      if (denied) return denied;
+
+      return await databaseService.saveShots(projectId, shots, { created_by: accessControlService.currentUserId()! });
     } catch (error) {
       console.error('Save shots IPC handler failed:', error);
       return {
@@ -1010,7 +1736,10 @@ export function setupIPCHandlers() {
 
   ipcMain.handle('database-saveSoundNotes', async (event, projectId, soundNotes) => {
     try {
-      return await databaseService.saveSoundNotes(projectId, soundNotes);
+      const denied = await accessControlService.authorizeStage(projectId, 'SOUND_DESIGN', 'sound:edit');
+      if (denied) return denied;
+
+      return await databaseService.saveSoundNotes(projectId, soundNotes, accessControlService.currentUserId()!);
     } catch (error) {
       console.error('Save sound notes IPC handler failed:', error);
       return {
@@ -1047,5 +1776,394 @@ export function setupIPCHandlers() {
     }
   });
 
+  // Prompt operations
+  ipcMain.handle('database-savePromptVersion', async (event, promptData) => {
+    try {
+      const denied = await accessControlService.authorizeEntity('shot', promptData.shot_id, 'prompts:edit');
+      if (denied) return denied;
+
+      return await databaseService.savePromptVersion(promptData);
+    } catch (error) {
+      console.error('Save prompt version IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Save prompt version failed: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('database-getPrompts', async (event, projectId) => {
+    try {
+      return await databaseService.getPrompts(projectId);
+    } catch (error) {
+      console.error('Get prompts IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Get prompts failed: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('database-getPromptHistory', async (event, shotId) => {
+    try {
+      return await databaseService.getPromptHistory(shotId);
+    } catch (error) {
+      console.error('Get prompt history IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Get prompt history failed: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // Shot list export - data is null when the user cancels the file dialog
+  ipcMain.handle('database-exportShotList', async (event, projectId, format, options) => {
+    try {
+      const extension = SHOT_LIST_FILE_EXTENSIONS[format as keyof typeof SHOT_LIST_FILE_EXTENSIONS];
+      if (!extension) {
+        return { success: false, error: `Unsupported shot list format: ${format}`, timestamp: new Date() };
+      }
+
+      const project = await databaseService.getProjectById(projectId);
+      const baseName = (project.data?.name || 'storyboard').replace(/[^\w\- ]+/g, '').trim() || 'storyboard';
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const dialogOptions = {
+        title: 'Export Shot List',
+        defaultPath: path.join(app.getPath('documents'), `${baseName} - shot list.${extension}`),
+        filters: [{ name: format === 'EDL' ? 'CMX3600 EDL' : format, extensions: [extension] }]
+      };
+      const { canceled, filePath } = window ? await dialog.showSaveDialog(window, dialogOptions) : await dialog.showSaveDialog(dialogOptions);
+      if (canceled || !filePath) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      return await storyboardExportService.exportShotList(projectId, format, filePath, options);
+    } catch (error) {
+      console.error('Export shot list IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to export shot list: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== APPROVAL HANDLERS ==========
+
+  ipcMain.handle('db-get-users', async () => {
+    try {
+      return await databaseService.getUsers();
+    } catch (error) {
+      console.error('Get users IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get users: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-get-approval-state', async (event, projectId, entityType, entityId) => {
+    try {
+      return await databaseService.getApprovalState(projectId, entityType, entityId);
+    } catch (error) {
+      console.error('Get approval state IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get approval state: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-get-project-approvals', async (event, projectId) => {
+    try {
+      return await databaseService.getProjectApprovals(projectId);
+    } catch (error) {
+      console.error('Get project approvals IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get project approvals: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // Transitions are validated here in the main process; the renderer only offers them
+  ipcMain.handle('db-transition-approval', async (event, request) => {
+    try {
+      // Submitting takes the stage's edit permission; deciding takes reviewer permission
+      const permission = request.action === 'SUBMIT' ? APPROVAL_STAGE_PERMISSIONS[request.entity_type as ApprovalEntityType] : 'approvals:review';
+      const denied = await accessControlService.authorize(request.project_id, permission);
+      if (denied) return denied;
+
+      if (request.action === 'SUBMIT' && request.reviewer_id &&
+          !(await AuthService.hasProjectPermission(request.reviewer_id, request.project_id, 'approvals:review'))) {
+        return { success: false, error: 'The reviewer must be on the project team in a role that can review', timestamp: new Date() };
+      }
+
+      // The audit trail records the signed-in user, never a user ID sent by the renderer
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: false, error: 'Sign in to change approval status', timestamp: new Date() };
+      }
+
+      return await databaseService.transitionApproval({ ...request, user_id: userId });
+    } catch (error) {
+      console.error('Transition approval IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to change approval status: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== COMMENT HANDLERS ==========
+
+  ipcMain.handle('db-create-comment', async (event, request) => {
+    try {
+      // A reply is posted into its thread's project, so that is the project to check
+      const denied = request?.parent_id
+        ? await accessControlService.authorizeEntity('comment', request.parent_id, 'comments:write')
+        : await accessControlService.authorize(request?.project_id, 'comments:write');
+      if (denied) return denied;
+
+      return await databaseService.createComment({ ...request, author: accessControlService.currentUserId()! });
+    } catch (error) {
+      console.error('Create comment IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to create comment: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-get-comment-threads', async (event, targetType, targetId, filter) => {
+    try {
+      return await databaseService.getCommentThreads(targetType, targetId, filter);
+    } catch (error) {
+      console.error('Get comment threads IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get comment threads: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-get-project-comment-threads', async (event, projectId, filter) => {
+    try {
+      return await databaseService.getProjectCommentThreads(projectId, filter);
+    } catch (error) {
+      console.error('Get project comment threads IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get project comment threads: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-set-comment-thread-status', async (event, threadId, status) => {
+    try {
+      const denied = await accessControlService.authorizeEntity('comment', threadId, 'comments:write');
+      if (denied) return denied;
+
+      return await databaseService.setCommentThreadStatus(threadId, status, accessControlService.currentUserId()!);
+    } catch (error) {
+      console.error('Set comment thread status IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to update comment thread: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== EVALUATION HANDLERS ==========
+
+  ipcMain.handle('evaluation-evaluate-artifact', async (event, projectId, entityType, entityId, options) => {
+    try {
+      const denied = await accessControlService.authorize(projectId, 'ai:use');
+      if (denied) return denied;
+
+      return await satireEvaluatorService.evaluateArtifact(projectId, entityType, entityId, {
+        version: options?.version,
+        rubric: options?.rubric,
+        agentConfig: options?.agentConfig,
+        created_by: accessControlService.currentUserId()!
+      });
+    } catch (error) {
+      console.error('Evaluate artifact IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to evaluate artifact: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('evaluation-get-trends', async (event, projectId) => {
+    try {
+      return await satireEvaluatorService.getQualityTrends(projectId);
+    } catch (error) {
+      console.error('Get quality trends IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get quality trends: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== SATIRICAL LENS HANDLERS ==========
+
+  // Lens export/import - data is null when the user cancels the file dialog
+  const lensFilters = [{ name: 'Satirical Lens', extensions: [LENS_FILE_EXTENSION] }];
+
+  ipcMain.handle('lens-get-all', async () => {
+    try {
+      return await databaseService.getSatiricalLenses();
+    } catch (error) {
+      console.error('Get satirical lenses IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get satirical lenses: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('lens-save', async (event, id, lens) => {
+    try {
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: false, error: 'Sign in to save a lens', timestamp: new Date() };
+      }
+
+      return await lensLibraryService.saveLens({ id: id || undefined, lens }, userId);
+    } catch (error) {
+      console.error('Save satirical lens IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to save satirical lens: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('lens-delete', async (event, id) => {
+    try {
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: false, error: 'Sign in to delete a lens', timestamp: new Date() };
+      }
+
+      return await lensLibraryService.deleteLens(id, userId);
+    } catch (error) {
+      console.error('Delete satirical lens IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to delete satirical lens: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('lens-export', async (event, id) => {
+    try {
+      const lens = await databaseService.getSatiricalLensById(id);
+      if (!lens.success || !lens.data) {
+        return lens;
+      }
+
+      const fileName = `${lens.data.context.name.replace(/[^\w\- ]+/g, '').trim() || 'lens'}.${LENS_FILE_EXTENSION}`;
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Export Satirical Lens',
+        defaultPath: path.join(app.getPath('documents'), fileName),
+        filters: lensFilters
+      };
+      const { canceled, filePath } = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      return await lensLibraryService.exportLens(id, filePath);
+    } catch (error) {
+      console.error('Export satirical lens IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to export satirical lens: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('lens-import', async (event) => {
+    try {
+      const userId = accessControlService.currentUserId();
+      if (!userId) {
+        return { success: false, error: 'Sign in to import a lens', timestamp: new Date() };
+      }
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Import Satirical Lens',
+        properties: ['openFile' as const],
+        filters: lensFilters
+      };
+      const { canceled, filePaths } = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (canceled || filePaths.length === 0) {
+        return { success: true, data: null, timestamp: new Date() };
+      }
+
+      return await lensLibraryService.importLens(filePaths[0], userId);
+    } catch (error) {
+      console.error('Import satirical lens IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to import satirical lens: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  // ========== REVISION HANDLERS ==========
+
+  ipcMain.handle('db-get-revisions', async (event, entityType, entityId) => {
+    try {
+      return await databaseService.getRevisions(entityType, entityId);
+    } catch (error) {
+      console.error('Get revisions IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to get revisions: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
+  ipcMain.handle('db-restore-revision', async (event, entityType, entityId, version, options) => {
+    try {
+      const denied = await accessControlService.authorizeRevision(entityType, entityId, REVISION_PERMISSIONS[entityType as RevisionEntityType]);
+      if (denied) return denied;
+
+      return await databaseService.restoreRevision(entityType, entityId, version, { ...options, created_by: accessControlService.currentUserId()! });
+    } catch (error) {
+      console.error('Restore revision IPC handler failed:', error);
+      return {
+        success: false,
+        error: `Failed to restore revision: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  });
+
   console.log('IPC handlers setup completed');
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { app, BrowserWindow, ipcMain } from 'electron';
 import * as path from 'path';
 import dotenv from 'dotenv';
-import { databaseService } from '../database/database';
+import { databaseService, UpgradePreview } from '../database/database';
 import { AuthService } from '../services/auth';
 import { setupIPCHandlers } from './ipc-handlers';
 
@@ -53,6 +53,18 @@ function createWindow(): void {
 async function initializeApp() {
   try {
     console.log('Initializing Satirical Video Production Platform...');
+
+    // `--db-dry-run` reports what starting up would change in the database, then exits without changing it
+    if (process.argv.includes('--db-dry-run')) {
+      const preview = await databaseService.previewUpgrade();
+      if (preview.success && preview.data) {
+        reportUpgradePreview(preview.data);
+      } else {
+        console.error(preview.error);
+      }
+      app.exit(preview.success ? 0 : 1);
+      return;
+    }
     
     // Initialize database
     await databaseService.initialize();
@@ -64,6 +76,9 @@ async function initializeApp() {
     
     // Create default admin user for development
     await AuthService.createDefaultAdmin();
+    if (process.argv.includes('--dev')) {
+      await AuthService.startDefaultSession();
+    }
     
     // Create main window
     createWindow();
@@ -75,6 +90,28 @@ async function initializeApp() {
   }
 }
 
+// Print a database upgrade preview for `--db-dry-run`
+function reportUpgradePreview({ database, migrations, legacyImport }: UpgradePreview): void {
+  console.log(`\nDatabase: ${database}`);
+  console.log(`Schema version ${migrations.currentVersion} -> ${migrations.targetVersion} (${migrations.pending.length} pending migrations)`);
+  migrations.pending.forEach(migration => console.log(`  ${migration.version.toString().padStart(3, '0')}_${migration.name}`));
+
+  if (!legacyImport) {
+    console.log('No legacy mock data to import');
+  } else if (legacyImport.alreadyImported) {
+    console.log(`Legacy mock data already imported from ${legacyImport.source}`);
+  } else {
+    console.log(`Legacy mock data import from ${legacyImport.source}:`);
+    Object.entries(legacyImport.entities)
+      .filter(([, entity]) => entity.total > 0)
+      .forEach(([name, entity]) => {
+        console.log(`  ${name}: ${entity.imported} to import, ${entity.skipped} already present, ${entity.errors.length} errors`);
+        entity.errors.forEach(error => console.log(`    ${error}`));
+      });
+  }
+  console.log('Nothing was changed.\n');
+}
+
 // This method will be called when Electron has finished initialization
 app.whenReady().then(initializeApp);
 
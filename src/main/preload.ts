@@ -1,4 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { StructuredOutputType } from '../services/structured-output';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -11,23 +12,40 @@ contextBridge.exposeInMainWorld('electronAPI', {
   database: {
     // Test connection
     testConnection: () => ipcRenderer.invoke('db-test-connection'),
+
+    // Migration operations
+    getMigrationStatus: () => ipcRenderer.invoke('db-migration-status'),
+    importMockData: (dryRun: boolean = false) => ipcRenderer.invoke('db-import-mock-data', dryRun),
     
     // User operations
     createUser: (userData: any) => ipcRenderer.invoke('db-create-user', userData),
+    setUserRole: (userId: string, role: string) => ipcRenderer.invoke('db-set-user-role', userId, role),
     authenticateUser: (email: string, password: string) => 
       ipcRenderer.invoke('db-authenticate-user', email, password),
     getUserById: (id: string) => ipcRenderer.invoke('db-get-user', id),
+    register: (userData: any) => ipcRenderer.invoke('auth-register', userData),
+    getSession: () => ipcRenderer.invoke('auth-get-session'),
+    logout: () => ipcRenderer.invoke('auth-logout'),
 
     // Project operations
     createProject: (projectData: any) => ipcRenderer.invoke('db-create-project', projectData),
-    getProjects: (userId: string) => ipcRenderer.invoke('db-get-projects', userId),
+    getProjects: () => ipcRenderer.invoke('db-get-projects'),
     getProjectById: (id: string) => ipcRenderer.invoke('db-get-project', id),
     updateProject: (id: string, data: any) => ipcRenderer.invoke('db-update-project', id, data),
     updateProjectFormat: (projectId: string, formatType: string) => ipcRenderer.invoke('db-update-project-format', projectId, formatType),
+    getProjectAccess: (projectId: string) => ipcRenderer.invoke('db-get-project-access', projectId),
+    getProjectMembers: (projectId: string) => ipcRenderer.invoke('db-get-project-members', projectId),
+    setProjectMember: (projectId: string, userId: string, role: string) => ipcRenderer.invoke('db-set-project-member', projectId, userId, role),
+    removeProjectMember: (projectId: string, userId: string) => ipcRenderer.invoke('db-remove-project-member', projectId, userId),
     deleteProject: (id: string) => ipcRenderer.invoke('db-delete-project', id),
+    exportProject: (projectId: string) => ipcRenderer.invoke('db-export-project', projectId),
+    previewProjectImport: () => ipcRenderer.invoke('db-preview-project-import'),
+    importProject: (filePath: string, options: { resolution?: 'KEEP_BOTH' | 'REPLACE' }) =>
+      ipcRenderer.invoke('db-import-project', filePath, options),
 
     // News Article operations
     createNewsArticle: (articleData: any) => ipcRenderer.invoke('db-create-article', articleData),
+    extractNewsArticleFile: (fileData: any) => ipcRenderer.invoke('db-extract-article-file', fileData),
     uploadNewsArticleFile: (fileData: any) => ipcRenderer.invoke('db-upload-article-file', fileData),
     getNewsArticlesByProject: (projectId: string) => ipcRenderer.invoke('db-get-articles-by-project', projectId),
     getNewsArticle: (id: string) => ipcRenderer.invoke('db-get-article', id),
@@ -37,43 +55,86 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // Creative Strategy operations  
     createCreativeStrategy: (strategyData: any) => ipcRenderer.invoke('db-create-creative-strategy', strategyData),
     getCreativeStrategy: (projectId: string) => ipcRenderer.invoke('db-get-creative-strategy', projectId),
-    updateProjectContext: (projectId: string, contextType: string) => ipcRenderer.invoke('db-update-project-context', projectId, contextType),
+    updateProjectContext: (projectId: string, contextType: string, lensId?: string) => ipcRenderer.invoke('db-update-project-context', projectId, contextType, lensId),
     generateCreativeStrategy: (projectId: string) => ipcRenderer.invoke('db-generate-creative-strategy', projectId),
-    updateCreativeStrategy: (id: string, updates: any) => ipcRenderer.invoke('db-update-creative-strategy', id, updates),
+    updateCreativeStrategy: (id: string, updates: any, options?: any) => ipcRenderer.invoke('db-update-creative-strategy', id, updates, options),
     generateDirectorNotes: (strategyId: string) => ipcRenderer.invoke('db-generate-director-notes', strategyId),
 
     // Director Notes operations
     createDirectorNotes: (notesData: any) => ipcRenderer.invoke('db-create-director-notes', notesData),
     getDirectorNotes: (projectId: string) => ipcRenderer.invoke('db-get-director-notes', projectId),
-    updateDirectorNotes: (id: string, data: any) => ipcRenderer.invoke('db-update-director-notes', id, data),
+    updateDirectorNotes: (id: string, data: any, options?: any) => ipcRenderer.invoke('db-update-director-notes', id, data, options),
 
     // Script operations
     createScript: (scriptData: any) => ipcRenderer.invoke('db-create-script', scriptData),
     getScriptById: (scriptId: string) => ipcRenderer.invoke('db-get-script-by-id', scriptId),
     getScriptsByProject: (projectId: string) => ipcRenderer.invoke('db-get-scripts-by-project', projectId),
-    updateScript: (scriptId: string, updates: any) => ipcRenderer.invoke('db-update-script', scriptId, updates),
+    updateScript: (scriptId: string, updates: any, options?: any) => ipcRenderer.invoke('db-update-script', scriptId, updates, options),
     deleteScript: (scriptId: string) => ipcRenderer.invoke('db-delete-script', scriptId),
+    exportScript: (scriptId: string, format: 'FOUNTAIN' | 'FDX' | 'PDF') => ipcRenderer.invoke('db-export-script', scriptId, format),
+    importFountainScript: (projectId: string) => ipcRenderer.invoke('db-import-fountain-script', projectId),
+
+    // Character operations
+    createCharacter: (characterData: any) => ipcRenderer.invoke('db-create-character', characterData),
+    getCharactersByProject: (projectId: string) => ipcRenderer.invoke('db-get-characters-by-project', projectId),
+    updateCharacter: (characterId: string, updates: any) => ipcRenderer.invoke('db-update-character', characterId, updates),
+    deleteCharacter: (characterId: string) => ipcRenderer.invoke('db-delete-character', characterId),
 
     // Storyboard and Shot operations
-    saveStoryboard: (projectId: string, storyboard: any) => ipcRenderer.invoke('database-saveStoryboard', projectId, storyboard),
+    saveStoryboard: (projectId: string, storyboard: any, options?: any) => ipcRenderer.invoke('database-saveStoryboard', projectId, storyboard, options),
     getStoryboard: (projectId: string) => ipcRenderer.invoke('database-getStoryboard', projectId),
     saveShots: (projectId: string, shots: any[]) => ipcRenderer.invoke('database-saveShots', projectId, shots),
     getShots: (projectId: string) => ipcRenderer.invoke('database-getShots', projectId),
     saveSoundNotes: (projectId: string, soundNotes: any[]) => ipcRenderer.invoke('database-saveSoundNotes', projectId, soundNotes),
     getSoundNotes: (projectId: string) => ipcRenderer.invoke('database-getSoundNotes', projectId),
     getSoundNotesForShot: (shotId: string) => ipcRenderer.invoke('database-getSoundNotesForShot', shotId),
+
+    // Prompt operations
+    savePromptVersion: (promptData: any) => ipcRenderer.invoke('database-savePromptVersion', promptData),
+    getPrompts: (projectId: string) => ipcRenderer.invoke('database-getPrompts', projectId),
+    getPromptHistory: (shotId: string) => ipcRenderer.invoke('database-getPromptHistory', shotId),
+    exportShotList: (projectId: string, format: 'PDF' | 'HTML' | 'CSV' | 'EDL', options?: { fps?: number }) =>
+      ipcRenderer.invoke('database-exportShotList', projectId, format, options),
+
+    // Revision history
+    getRevisions: (entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string) => ipcRenderer.invoke('db-get-revisions', entityType, entityId),
+    restoreRevision: (entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string, version: number, options?: { created_by?: string }) =>
+      ipcRenderer.invoke('db-restore-revision', entityType, entityId, version, options),
+
+    // Approval workflow
+    getUsers: () => ipcRenderer.invoke('db-get-users'),
+    getApprovalState: (projectId: string, entityType: 'CREATIVE_STRATEGY' | 'SCRIPT' | 'STORYBOARD' | 'SOUND_DESIGN', entityId: string) =>
+      ipcRenderer.invoke('db-get-approval-state', projectId, entityType, entityId),
+    getProjectApprovals: (projectId: string) => ipcRenderer.invoke('db-get-project-approvals', projectId),
+    transitionApproval: (request: any) => ipcRenderer.invoke('db-transition-approval', request),
+    createComment: (request: any) => ipcRenderer.invoke('db-create-comment', request),
+    getCommentThreads: (targetType: string, targetId: string, filter?: any) => ipcRenderer.invoke('db-get-comment-threads', targetType, targetId, filter),
+    getProjectCommentThreads: (projectId: string, filter?: any) => ipcRenderer.invoke('db-get-project-comment-threads', projectId, filter),
+    setCommentThreadStatus: (threadId: string, status: string) => ipcRenderer.invoke('db-set-comment-thread-status', threadId, status),
   },
 
   // LLM operations
   llm: {
-    generatePersonaResponse: (conversationId: string, persona: string, userMessage: string, context: any, agentConfig?: any) => 
-      ipcRenderer.invoke('llm-generate-response', conversationId, persona, userMessage, context, agentConfig),
+    generatePersonaResponse: (projectId: string, conversationId: string, persona: string, userMessage: string, context: any, agentConfig?: any) => 
+      ipcRenderer.invoke('llm-generate-response', projectId, conversationId, persona, userMessage, context, agentConfig),
+    streamPersonaResponse: (projectId: string, streamId: string, conversationId: string, persona: string, userMessage: string, context: any, agentConfig: any, onToken: (token: string) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, payload: { streamId: string; token: string }) => {
+        if (payload.streamId === streamId) {
+          onToken(payload.token);
+        }
+      };
+      ipcRenderer.on('llm-stream-token', listener);
+      return ipcRenderer.invoke('llm-stream-response', projectId, streamId, conversationId, persona, userMessage, context, agentConfig)
+        .finally(() => ipcRenderer.removeListener('llm-stream-token', listener));
+    },
+    cancelStream: (streamId: string) =>
+      ipcRenderer.invoke('llm-cancel-stream', streamId),
     clearConversation: (conversationId: string) =>
       ipcRenderer.invoke('llm-clear-conversation', conversationId),
     getConversationSummary: (conversationId: string) =>
       ipcRenderer.invoke('llm-get-conversation-summary', conversationId),
-    generateStructuredOutput: (persona: string, prompt: string, schema: any) =>
-      ipcRenderer.invoke('llm-generate-structured', persona, prompt, schema),
+    generateStructuredOutput: (projectId: string, persona: string, prompt: string, outputType: StructuredOutputType, context?: any, agentConfig?: any) =>
+      ipcRenderer.invoke('llm-generate-structured', projectId, persona, prompt, outputType, context, agentConfig),
     createConversation: (projectId: string, personas: string[]) =>
       ipcRenderer.invoke('llm-create-conversation', projectId, personas),
     addMessage: (conversationId: string, message: any) =>
@@ -82,12 +143,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('llm-get-conversation', conversationId)
   },
 
+  // Provider API keys - stored encrypted in the main process, only masked values come back
+  apiKeys: {
+    getStatus: () => ipcRenderer.invoke('api-keys-get-status'),
+    setKey: (provider: string, key: string, baseUrl?: string) => ipcRenderer.invoke('api-keys-set', provider, key, baseUrl),
+    deleteKey: (provider: string) => ipcRenderer.invoke('api-keys-delete', provider),
+    migrate: (keys: Record<string, string>, compatibleBaseUrl?: string) => ipcRenderer.invoke('api-keys-migrate', keys, compatibleBaseUrl)
+  },
+
   // Model validation operations
   models: {
-    checkAvailability: (provider: string, apiKey?: string) =>
-      ipcRenderer.invoke('model-check-availability', provider, apiKey),
-    validateModel: (provider: string, modelId: string, apiKey?: string) =>
-      ipcRenderer.invoke('model-validate', provider, modelId, apiKey),
+    checkAvailability: (provider: string, endpoint?: { baseUrl?: string; authHeader?: string }) =>
+      ipcRenderer.invoke('model-check-availability', provider, endpoint),
+    validateModel: (provider: string, modelId: string, endpoint?: { baseUrl?: string; authHeader?: string }) =>
+      ipcRenderer.invoke('model-validate', provider, modelId, endpoint),
     clearCache: () =>
       ipcRenderer.invoke('model-clear-cache')
   },
@@ -100,8 +169,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('agent-validate-all'),
     autoFix: (persona: string) =>
       ipcRenderer.invoke('agent-auto-fix', persona),
-    getModelsDynamic: (provider: string, apiKey?: string) =>
-      ipcRenderer.invoke('agent-get-models-dynamic', provider, apiKey)
+    getModelsDynamic: (provider: string, endpoint?: { baseUrl?: string; authHeader?: string }) =>
+      ipcRenderer.invoke('agent-get-models-dynamic', provider, endpoint)
   },
 
   // File operations
@@ -128,6 +197,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('project-director-monitor-conversation', persona, userMessage, agentResponse)
   },
 
+  // Per-project workflow stages, persisted by the main process
+  workflow: {
+    getProgress: (projectId: string) => ipcRenderer.invoke('workflow-get-progress', projectId),
+    completeStage: (projectId: string) => ipcRenderer.invoke('workflow-complete-stage', projectId)
+  },
+
+  // Judged satirical quality scores per artifact version
+  evaluation: {
+    evaluateArtifact: (projectId: string, entityType: string, entityId: string, options?: any) =>
+      ipcRenderer.invoke('evaluation-evaluate-artifact', projectId, entityType, entityId, options),
+    getTrends: (projectId: string) => ipcRenderer.invoke('evaluation-get-trends', projectId)
+  },
+
+  // Library of user-defined satirical lenses, shared as JSON files
+  lenses: {
+    getAll: () => ipcRenderer.invoke('lens-get-all'),
+    save: (id: string | null, lens: any) => ipcRenderer.invoke('lens-save', id, lens),
+    delete: (id: string) => ipcRenderer.invoke('lens-delete', id),
+    export: (id: string) => ipcRenderer.invoke('lens-export', id),
+    import: () => ipcRenderer.invoke('lens-import')
+  },
+
   // Test IPC
   testIPC: (message: string) => ipcRenderer.invoke('test-ipc', message)
 });
@@ -141,35 +232,93 @@ declare global {
       database: {
         testConnection: () => Promise<any>;
         createUser: (userData: any) => Promise<any>;
+        setUserRole: (userId: string, role: string) => Promise<any>;
         authenticateUser: (email: string, password: string) => Promise<any>;
         getUserById: (id: string) => Promise<any>;
+        register: (userData: any) => Promise<any>;
+        getSession: () => Promise<any>;
+        logout: () => Promise<any>;
         createProject: (projectData: any) => Promise<any>;
-        getProjects: (userId: string) => Promise<any[]>;
+        getProjects: () => Promise<any>;
         getProjectById: (id: string) => Promise<any>;
         updateProject: (id: string, data: any) => Promise<any>;
+        updateProjectContext: (projectId: string, contextType: string, lensId?: string) => Promise<any>;
         updateProjectFormat: (projectId: string, formatType: string) => Promise<any>;
+        getProjectAccess: (projectId: string) => Promise<any>;
+        getProjectMembers: (projectId: string) => Promise<any>;
+        setProjectMember: (projectId: string, userId: string, role: string) => Promise<any>;
+        removeProjectMember: (projectId: string, userId: string) => Promise<any>;
         deleteProject: (id: string) => Promise<any>;
+        exportProject: (projectId: string) => Promise<any>;
+        previewProjectImport: () => Promise<any>;
+        importProject: (filePath: string, options: { resolution?: 'KEEP_BOTH' | 'REPLACE' }) => Promise<any>;
         createNewsArticle: (articleData: any) => Promise<any>;
+        extractNewsArticleFile: (fileData: any) => Promise<any>;
+        uploadNewsArticleFile: (fileData: any) => Promise<any>;
         getNewsArticle: (id: string) => Promise<any>;
         updateNewsArticle: (id: string, updates: any) => Promise<any>;
         createCreativeStrategy: (strategyData: any) => Promise<any>;
         getCreativeStrategy: (projectId: string) => Promise<any>;
         generateCreativeStrategy: (projectId: string) => Promise<any>;
-        updateCreativeStrategy: (id: string, updates: any) => Promise<any>;
+        updateCreativeStrategy: (id: string, updates: any, options?: any) => Promise<any>;
         generateDirectorNotes: (strategyId: string) => Promise<any>;
         createDirectorNotes: (notesData: any) => Promise<any>;
         getDirectorNotes: (projectId: string) => Promise<any>;
-        updateDirectorNotes: (id: string, data: any) => Promise<any>;
+        updateDirectorNotes: (id: string, data: any, options?: any) => Promise<any>;
+        getScriptById: (scriptId: string) => Promise<any>;
+        getScriptsByProject: (projectId: string) => Promise<any>;
+        exportScript: (scriptId: string, format: 'FOUNTAIN' | 'FDX' | 'PDF') => Promise<any>;
+        importFountainScript: (projectId: string) => Promise<any>;
+        getStoryboard: (projectId: string) => Promise<any>;
+        getShots: (projectId: string) => Promise<any>;
+        getSoundNotes: (projectId: string) => Promise<any>;
+        createCharacter: (characterData: any) => Promise<any>;
+        getCharactersByProject: (projectId: string) => Promise<any>;
+        updateCharacter: (characterId: string, updates: any) => Promise<any>;
+        deleteCharacter: (characterId: string) => Promise<any>;
+        savePromptVersion: (promptData: any) => Promise<any>;
+        getPrompts: (projectId: string) => Promise<any>;
+        getPromptHistory: (shotId: string) => Promise<any>;
+        exportShotList: (projectId: string, format: 'PDF' | 'HTML' | 'CSV' | 'EDL', options?: { fps?: number }) => Promise<any>;
+        getRevisions: (entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string) => Promise<any>;
+        restoreRevision: (entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string, version: number, options?: { created_by?: string }) => Promise<any>;
+        getUsers: () => Promise<any>;
+        getApprovalState: (projectId: string, entityType: 'CREATIVE_STRATEGY' | 'SCRIPT' | 'STORYBOARD' | 'SOUND_DESIGN', entityId: string) => Promise<any>;
+        getProjectApprovals: (projectId: string) => Promise<any>;
+        transitionApproval: (request: any) => Promise<any>;
+        createComment: (request: any) => Promise<any>;
+        getCommentThreads: (targetType: string, targetId: string, filter?: any) => Promise<any>;
+        getProjectCommentThreads: (projectId: string, filter?: any) => Promise<any>;
+        setCommentThreadStatus: (threadId: string, status: string) => Promise<any>;
       };
       llm: {
-        generatePersonaResponse: (conversationId: string, persona: string, userMessage: string, context: any, agentConfig?: any) => Promise<any>;
+        generatePersonaResponse: (projectId: string, conversationId: string, persona: string, userMessage: string, context: any, agentConfig?: any) => Promise<any>;
+        streamPersonaResponse: (projectId: string, streamId: string, conversationId: string, persona: string, userMessage: string, context: any, agentConfig: any, onToken: (token: string) => void) => Promise<any>;
+        cancelStream: (streamId: string) => Promise<any>;
         clearConversation: (conversationId: string) => Promise<any>;
         getConversationSummary: (conversationId: string) => Promise<any>;
-        generateStructuredOutput: (persona: string, prompt: string, schema: any) => Promise<any>;
+        generateStructuredOutput: (projectId: string, persona: string, prompt: string, outputType: StructuredOutputType, context?: any, agentConfig?: any) => Promise<any>;
         createConversation: (projectId: string, personas: string[]) => Promise<any>;
         addMessage: (conversationId: string, message: any) => Promise<void>;
         getConversationHistory: (conversationId: string) => Promise<any[]>;
       };
+      apiKeys: {
+        getStatus: () => Promise<any>;
+        setKey: (provider: string, key: string, baseUrl?: string) => Promise<any>;
+        deleteKey: (provider: string) => Promise<any>;
+        migrate: (keys: Record<string, string>, compatibleBaseUrl?: string) => Promise<any>;
+      };
+      models: {
+        checkAvailability: (provider: string, endpoint?: { baseUrl?: string; authHeader?: string }) => Promise<any>;
+        validateModel: (provider: string, modelId: string, endpoint?: { baseUrl?: string; authHeader?: string }) => Promise<any>;
+        clearCache: () => Promise<any>;
+      };
+      agents: {
+        validate: (persona: string) => Promise<any>;
+        validateAll: () => Promise<any>;
+        autoFix: (persona: string) => Promise<any>;
+        getModelsDynamic: (provider: string, endpoint?: { baseUrl?: string; authHeader?: string }) => Promise<any>;
+      };
       files: {
         saveFile: (filepath: string, content: string) => Promise<boolean>;
         readFile: (filepath: string) => Promise<string>;
@@ -186,6 +335,21 @@ declare global {
         getStrategicGuidance: (query: string) => Promise<any>;
         monitorConversation: (persona: string, userMessage: string, agentResponse: string) => Promise<any>;
       };
+      workflow: {
+        getProgress: (projectId: string) => Promise<any>;
+        completeStage: (projectId: string) => Promise<any>;
+      };
+      evaluation: {
+        evaluateArtifact: (projectId: string, entityType: string, entityId: string, options?: any) => Promise<any>;
+        getTrends: (projectId: string) => Promise<any>;
+      };
+      lenses: {
+        getAll: () => Promise<any>;
+        save: (id: string | null, lens: any) => Promise<any>;
+        delete: (id: string) => Promise<any>;
+        export: (id: string) => Promise<any>;
+        import: () => Promise<any>;
+      };
       testIPC: (message: string) => Promise<any>;
     };
   }
@@ -2,7 +2,10 @@
 // Handles collaborative chat sessions with AI personas for creative development
 
 import { PersonaType } from '../../shared/types/index.js';
+import { CreativeStrategyOutput } from '../../services/structured-output.js';
+import type { AgentConfig } from '../../services/llm.js';
 import { LLMSettings, llmSettings } from './LLMSettings.js';
+import { GlobalAPISettings } from './GlobalAPISettings.js';
 
 export interface ChatMessage {
   id: string;
@@ -31,6 +34,7 @@ export class AIChatInterface {
   private currentSession: ChatSession | null = null;
   private isTyping = false;
   private useMockResponses = false;
+  private pendingSession: { projectId: string; persona: PersonaType; existingStrategy?: any } | null = null;
 
   /**
    * Initialize chat interface for a specific project and persona
@@ -44,6 +48,7 @@ export class AIChatInterface {
 
     // Check if LLM is configured
     if (!LLMSettings.isConfigured()) {
+      this.pendingSession = { projectId, persona, existingStrategy };
       this.renderConfigurationRequired();
       return;
     }
@@ -467,10 +472,12 @@ export class AIChatInterface {
 
       // @ts-ignore
       const result = await window.electronAPI.llm.generatePersonaResponse(
+        this.currentSession.projectId,
         this.currentSession.id,
         this.currentSession.persona,
         userInput,
-        context
+        context,
+        await this.getAgentConfig(this.currentSession.persona)
       );
 
       if (result.success) {
@@ -573,239 +580,6 @@ export class AIChatInterface {
     }
   }
 
-
-  /**
-   * Mock AI response generation (kept as fallback)
-   */
-  private async mockAIResponse(userInput: string): Promise<{
-    content: string;
-    type: 'text' | 'question' | 'suggestion' | 'summary';
-    contextUpdates?: any;
-  }> {
-    const phase = this.currentSession!.context.phase;
-    const lowerInput = userInput.toLowerCase();
-    const messageCount = this.currentSession!.messages.length;
-
-    // Add variety based on message count to avoid repetition
-    const responseVariant = messageCount % 4;
-
-    // Simulate different responses based on conversation phase
-    switch (phase) {
-      case 'introduction':
-        if (lowerInput.includes('yes') || lowerInput.includes('start') || lowerInput.includes('analyze')) {
-          return {
-            content: "Perfect! Let me analyze your uploaded articles... I can see some interesting themes emerging. What specific aspect of current events do you find most absurd or worthy of satirical commentary?",
-            type: 'question',
-            contextUpdates: { 
-              phase: 'analysis',
-              articlesAnalyzed: true,
-              keyTopicsIdentified: ['Current Events', 'Media Coverage', 'Social Issues']
-            }
-          };
-        }
-        return this.getIntroductionResponse(lowerInput, responseVariant);
-
-      case 'analysis':
-        if (lowerInput.includes('media') || lowerInput.includes('politics') || lowerInput.includes('social')) {
-          return {
-            content: "Excellent insight! I can see you're interested in critiquing media coverage. Based on your articles, I'm noticing themes around performative journalism and out-of-touch commentary. Would you like to explore a satirical angle that exaggerates how disconnected mainstream media can be from real issues?",
-            type: 'suggestion',
-            contextUpdates: {
-              phase: 'brainstorming',
-              keyTopicsIdentified: ['Media Disconnect', 'Performative Journalism', 'Social Commentary'],
-              strategicElements: { 
-                'Primary Theme': 'Media Disconnect',
-                'Satirical Approach': 'Exaggerated Commentary' 
-              }
-            }
-          };
-        }
-        return this.getAnalysisResponse(lowerInput, responseVariant);
-
-      case 'brainstorming':
-        return this.getBrainstormingResponse(lowerInput, responseVariant);
-
-      case 'refinement':
-        return this.getRefinementResponse(lowerInput, responseVariant);
-
-      case 'finalization':
-        return this.getFinalizationResponse(lowerInput, responseVariant);
-
-      default:
-        return this.getGeneralResponse(lowerInput, responseVariant);
-    }
-  }
-
-  /**
-   * Get varied responses for introduction phase
-   */
-  private getIntroductionResponse(userInput: string, variant: number): any {
-    const responses = [
-      {
-        content: "Great! What specific themes or topics from your articles caught your attention? I'd love to understand what resonates with your satirical vision.",
-        type: 'question'
-      },
-      {
-        content: "Interesting perspective! Can you tell me more about the tone you're aiming for - are you thinking more subtle irony or bold, obvious satire?",
-        type: 'question'
-      },
-      {
-        content: "That's a solid foundation. Let's dive deeper - what aspects of your articles do you think would translate best to visual satire?",
-        type: 'suggestion'
-      },
-      {
-        content: "I appreciate that insight. What's your gut feeling about the main message you want to convey through this satirical video?",
-        type: 'question'
-      }
-    ];
-    return responses[variant];
-  }
-
-  /**
-   * Get varied responses for analysis phase
-   */
-  private getAnalysisResponse(userInput: string, variant: number): any {
-    const responses = [
-      {
-        content: "That's a compelling angle! How do you think we could exaggerate those elements to make them more obviously satirical without losing the underlying truth?",
-        type: 'question'
-      },
-      {
-        content: "I like where you're going with this. What kind of character or narrator do you envision delivering this satirical take?",
-        type: 'suggestion',
-        contextUpdates: {
-          phase: 'brainstorming'
-        }
-      },
-      {
-        content: "Excellent observation! Let's explore the visual possibilities - what setting or scenario would best highlight the absurdity you're targeting?",
-        type: 'question'
-      },
-      {
-        content: "That's exactly the kind of insight we need. What would be the most ridiculous way someone might actually behave in this situation?",
-        type: 'suggestion'
-      }
-    ];
-    return responses[variant];
-  }
-
-  /**
-   * Get varied responses for brainstorming phase
-   */
-  private getBrainstormingResponse(userInput: string, variant: number): any {
-    const responses = [
-      {
-        content: "Great direction! For characters, I'm thinking we could create archetypes that embody the absurdity. What's your target audience - are we going for subtle wit or more obvious humor?",
-        type: 'question',
-        contextUpdates: {
-          phase: 'refinement',
-          strategicElements: {
-            ...this.currentSession!.context.strategicElements,
-            'Character Development': 'In Progress',
-            'Audience Consideration': 'Under Discussion'
-          }
-        }
-      },
-      {
-        content: "I love that concept! Let's think about the visual style - should we go for a documentary feel, news parody, or something more stylized and surreal?",
-        type: 'suggestion'
-      },
-      {
-        content: "That's brilliant! How do you envision the pacing? Quick cuts and snappy dialogue, or longer, more contemplative moments that build the absurdity?",
-        type: 'question'
-      },
-      {
-        content: "Perfect insight! What props, costumes, or visual elements could we use to immediately signal the satirical intent to viewers?",
-        type: 'suggestion'
-      }
-    ];
-    return responses[variant];
-  }
-
-  /**
-   * Get varied responses for refinement phase
-   */
-  private getRefinementResponse(userInput: string, variant: number): any {
-    const responses = [
-      {
-        content: "That's a thoughtful addition to your existing strategy. How do you think this refinement changes the overall tone compared to your original approach?",
-        type: 'question'
-      },
-      {
-        content: "I can see how that would strengthen your current concept. What other elements of your strategy do you feel could benefit from similar adjustments?",
-        type: 'suggestion'
-      },
-      {
-        content: "Excellent refinement! That adds more depth to your characters. How might this change affect the visual style guide you already have?",
-        type: 'question'
-      },
-      {
-        content: "That's a smart evolution of your existing idea. Should we also consider how this impacts your satirical angles - do any need updating?",
-        type: 'suggestion',
-        contextUpdates: {
-          strategicElements: {
-            ...this.currentSession!.context.strategicElements,
-            'Refinement Progress': 'Active Discussion'
-          }
-        }
-      }
-    ];
-    return responses[variant];
-  }
-
-  /**
-   * Get varied responses for finalization phase
-   */
-  private getFinalizationResponse(userInput: string, variant: number): any {
-    const responses = [
-      {
-        content: "We're making great progress! Looking at everything we've discussed, what feels like the strongest element of your refined strategy?",
-        type: 'question',
-        contextUpdates: {
-          phase: 'finalization'
-        }
-      },
-      {
-        content: "This is shaping up really well! Are there any final touches or concerns you'd like to address before we finalize these improvements?",
-        type: 'summary'
-      },
-      {
-        content: "Excellent work! Your strategy has evolved nicely. What aspect of this refinement are you most excited about implementing?",
-        type: 'question'
-      },
-      {
-        content: "I think we've covered a lot of ground! Should we summarize the key improvements we've made to your creative strategy?",
-        type: 'suggestion'
-      }
-    ];
-    return responses[variant];
-  }
-
-  /**
-   * Get general varied responses
-   */
-  private getGeneralResponse(userInput: string, variant: number): any {
-    const responses = [
-      {
-        content: "That's an interesting perspective! Can you elaborate on what specifically appeals to you about that approach?",
-        type: 'question'
-      },
-      {
-        content: "I love that direction! How do you think your audience will connect with that concept?",
-        type: 'suggestion'
-      },
-      {
-        content: "That's exactly the kind of creative thinking we need! What other elements could we explore in that same vein?",
-        type: 'question'
-      },
-      {
-        content: "Brilliant insight! Let's build on that - what would be the most effective way to bring that idea to life visually?",
-        type: 'suggestion'
-      }
-    ];
-    return responses[variant];
-  }
-
   /**
    * Show typing indicator
    */
@@ -916,35 +690,54 @@ export class AIChatInterface {
   private async generateFinalStrategy(): Promise<void> {
     if (!this.currentSession) return;
 
-    // Extract strategic elements from conversation
     const context = this.currentSession.context;
-    const messages = this.currentSession.messages;
-
-    // Create strategy data structure from chat context
-    const strategyData = {
-      project_id: this.currentSession.projectId,
-      creative_concept: this.extractCreativeConcept(messages, context),
-      target_audience: this.extractTargetAudience(messages, context),
-      tone: this.extractTone(messages, context),
-      key_themes: context.keyTopicsIdentified || [],
-      satirical_angles: this.extractSatiricalAngles(messages, context),
-      character_archetypes: this.extractCharacterArchetypes(messages, context),
-      visual_style_guide: this.extractVisualStyle(messages, context),
-      created_by: 'temp-user-id',
-      generated_by_persona: this.currentSession.persona
-    };
+    const transcript = this.currentSession.messages
+      .map(m => `${m.sender === 'USER' ? 'USER' : 'STRATEGIST'}: ${m.content}`)
+      .join('\n\n');
+
+    const prompt = `Turn the following creative strategy session into a final creative strategy.
+Use only ideas that were discussed; where the session did not settle something, choose the option that best fits the discussion.
+
+KEY TOPICS: ${context.keyTopicsIdentified.join(', ') || 'Not identified'}
+
+SESSION TRANSCRIPT:
+${transcript}`;
 
-    // Save to backend
     try {
+      const agentConfig = await this.getAgentConfig(this.currentSession.persona);
+
+      // Ask the strategist for a schema-validated strategy instead of scraping the chat
       // @ts-ignore
-      const result = await window.electronAPI.database.createCreativeStrategy(strategyData);
-      if (result.success) {
+      const result = await window.electronAPI.llm.generateStructuredOutput(
+        this.currentSession.projectId,
+        this.currentSession.persona,
+        prompt,
+        'creative_strategy',
+        { projectId: this.currentSession.projectId },
+        agentConfig
+      );
+
+      if (!result.success || !result.data) {
+        alert('❌ Failed to generate strategy: ' + result.error);
+        return;
+      }
+
+      const strategy = result.data as CreativeStrategyOutput;
+      const strategyData = {
+        ...strategy,
+        project_id: this.currentSession.projectId,
+        generated_by_persona: this.currentSession.persona
+      };
+
+      // @ts-ignore
+      const saveResult = await window.electronAPI.database.createCreativeStrategy(strategyData);
+      if (saveResult.success) {
         alert('✅ Creative Strategy generated successfully from your chat session!');
         
         // Trigger refresh of strategy tab
         window.dispatchEvent(new CustomEvent('refreshStrategy'));
       } else {
-        alert('❌ Failed to generate strategy: ' + result.error);
+        alert('❌ Failed to generate strategy: ' + saveResult.error);
       }
     } catch (error) {
       console.error('Failed to create strategy from chat:', error);
@@ -952,52 +745,6 @@ export class AIChatInterface {
     }
   }
 
-  /**
-   * Extract creative concept from chat
-   */
-  private extractCreativeConcept(messages: ChatMessage[], context: any): string {
-    const userMessages = messages.filter(m => m.sender === 'USER').map(m => m.content).join(' ');
-    const themes = context.keyTopicsIdentified?.join(', ') || 'current events';
-    
-    return `Satirical approach to ${themes} developed through collaborative discussion. Focus on ${context.strategicElements?.['Primary Theme'] || 'social commentary'} with emphasis on ${context.strategicElements?.['Satirical Approach'] || 'observational humor'}.`;
-  }
-
-  /**
-   * Extract other strategy elements (simplified for now)
-   */
-  private extractTargetAudience(messages: ChatMessage[], context: any): string {
-    return 'SOCIAL_COMMENTARY'; // Default, could be extracted from conversation
-  }
-
-  private extractTone(messages: ChatMessage[], context: any): string {
-    return 'DRY_WIT'; // Default, could be extracted from conversation
-  }
-
-  private extractSatiricalAngles(messages: ChatMessage[], context: any): any[] {
-    return [{
-      angle_type: 'EXAGGERATION',
-      description: 'Amplify absurd elements identified in chat discussion',
-      key_elements: context.keyTopicsIdentified || ['Media Commentary', 'Social Observation']
-    }];
-  }
-
-  private extractCharacterArchetypes(messages: ChatMessage[], context: any): any[] {
-    return [{
-      name: context.strategicElements?.['Character Concept'] || 'The Narrator',
-      role: 'Main commentator',
-      satirical_traits: ['Observational', 'Witty', 'Slightly cynical'],
-      visual_description: 'Developed through collaborative discussion'
-    }];
-  }
-
-  private extractVisualStyle(messages: ChatMessage[], context: any): any {
-    return {
-      overall_aesthetic: 'Style developed through collaborative chat session',
-      cinematography_notes: 'Visual approach refined through discussion',
-      color_palette: 'To be determined in production phase'
-    };
-  }
-
   /**
    * Close chat interface
    */
@@ -1095,7 +842,7 @@ export class AIChatInterface {
             🔑 Configure AI Settings
           </button>
           <button class="btn btn-outline" id="use-mock-chat">
-            💬 Use Basic Chat (No AI)
+            🧪 Try Offline Demo
           </button>
         </div>
       </div>
@@ -1115,22 +862,27 @@ export class AIChatInterface {
     });
 
     document.getElementById('use-mock-chat')?.addEventListener('click', () => {
-      // Initialize with mock responses
+      // Chat with the offline mock provider instead
       this.initializeMockChat();
     });
   }
 
   /**
-   * Initialize with mock responses (fallback)
+   * Initialize with the offline mock provider (fallback)
    */
   private async initializeMockChat(): Promise<void> {
     // Force use of mock responses
     this.useMockResponses = true;
+    GlobalAPISettings.enableMockProvider();
     
     // Need to create session first if it doesn't exist
     if (!this.currentSession) {
-      console.error('No session to initialize mock chat');
-      return;
+      if (!this.pendingSession) {
+        console.error('No session to initialize mock chat');
+        return;
+      }
+      const { projectId, persona, existingStrategy } = this.pendingSession;
+      await this.createChatSession(projectId, persona, existingStrategy);
     }
     
     // Render and start conversation
@@ -1138,6 +890,18 @@ export class AIChatInterface {
     await this.startConversation();
   }
 
+  /**
+   * The agent config to send with requests - the mock provider while in offline demo mode
+   */
+  private async getAgentConfig(persona: PersonaType): Promise<AgentConfig | null> {
+    if (this.useMockResponses) {
+      return { persona, provider: 'mock', model: 'mock-deterministic' };
+    }
+
+    const { AgentConfigService } = await import('../../services/agent-config.js');
+    return AgentConfigService.getAgentConfig(persona);
+  }
+
   /**
    * Render error state
    */
@@ -2,7 +2,9 @@
 // Allows users to select which model each AI agent should use
 
 import { PersonaType } from '../../shared/types/index.js';
-import { AgentConfigService } from '../../services/agent-config.js';
+import { AgentConfigService, DEFAULT_GENERATION_PARAMETERS } from '../../services/agent-config.js';
+import { GenerationParameters } from '../../services/llm.js';
+import { ModelRecommendationService } from '../../services/model-recommendations.js';
 import { GlobalAPISettings } from './GlobalAPISettings.js';
 
 export class AgentModelSelector {
@@ -49,6 +51,29 @@ export class AgentModelSelector {
                 <small class="form-hint" id="model-hint">Choose the specific model for this agent</small>
               </div>
 
+              <div class="generation-settings" id="generation-settings" style="display: none;">
+                <h4>⚙️ Generation Parameters</h4>
+                <div class="generation-grid">
+                  <div class="form-group">
+                    <label for="agent-temperature">Temperature</label>
+                    <input type="number" id="agent-temperature" name="temperature" min="0" max="2" step="0.1" placeholder="${DEFAULT_GENERATION_PARAMETERS.temperature}">
+                  </div>
+                  <div class="form-group">
+                    <label for="agent-top-p">Top-p</label>
+                    <input type="number" id="agent-top-p" name="topP" min="0" max="1" step="0.05" placeholder="Default">
+                  </div>
+                  <div class="form-group">
+                    <label for="agent-max-tokens">Max Output Tokens</label>
+                    <input type="number" id="agent-max-tokens" name="maxTokens" min="1" step="1" placeholder="${DEFAULT_GENERATION_PARAMETERS.maxTokens}">
+                  </div>
+                </div>
+                <div class="form-group">
+                  <label for="agent-stop-sequences">Stop Sequences</label>
+                  <textarea id="agent-stop-sequences" name="stopSequences" rows="2" placeholder="One per line (up to 4)"></textarea>
+                  <small class="form-hint">Leave fields empty to use the defaults. Raise max output tokens for long drafts such as full scripts.</small>
+                </div>
+              </div>
+
               <div class="no-providers-message" id="no-providers" style="display: none;">
                 <div class="info-callout">
                   <strong>⚠️ No AI providers configured</strong><br>
@@ -187,7 +212,9 @@ export class AgentModelSelector {
       'openai': '🤖 OpenAI',
       'anthropic': '🧠 Anthropic', 
       'gemini': '💎 Google Gemini',
-      'local': '🏠 Local LLM'
+      'local': '🏠 Local LLM',
+      'openai-compatible': '🔌 OpenAI-Compatible Endpoint',
+      'mock': '🧪 Offline Demo (Mock)'
     };
 
     availableProviders.forEach(provider => {
@@ -199,9 +226,10 @@ export class AgentModelSelector {
   }
 
   /**
-   * Handle provider change
+   * Handle provider change. OpenAI-compatible endpoints have no fixed model list,
+   * so their models are listed from the server.
    */
-  private handleProviderChange(): void {
+  private async handleProviderChange(): Promise<void> {
     const providerSelect = document.getElementById('agent-provider') as HTMLSelectElement;
     const modelGroup = document.getElementById('model-group');
     const modelSelect = document.getElementById('agent-model') as HTMLSelectElement;
@@ -210,16 +238,27 @@ export class AgentModelSelector {
     
     const provider = providerSelect.value;
     
+    const generationSettings = document.getElementById('generation-settings');
+
     if (!provider) {
       modelGroup!.style.display = 'none';
       modelInfo!.style.display = 'none';
+      generationSettings!.style.display = 'none';
       return;
     }
 
     modelGroup!.style.display = 'block';
+    generationSettings!.style.display = 'block';
     
+    if (provider === 'openai-compatible') {
+      await this.loadEndpointModels(provider);
+      return;
+    }
+
     // Clear existing models
+    modelSelect.disabled = false;
     modelSelect.innerHTML = '<option value="">Select model...</option>';
+    document.getElementById('model-hint')!.textContent = 'Choose the specific model for this agent';
     
     // Add models for provider
     const models = AgentConfigService.getModelsForProvider(provider);
@@ -237,6 +276,57 @@ export class AgentModelSelector {
     }
   }
 
+  /**
+   * Fill the model list from the endpoint's /v1/models and recommend one of the served models
+   */
+  private async loadEndpointModels(provider: string): Promise<void> {
+    const providerSelect = document.getElementById('agent-provider') as HTMLSelectElement;
+    const modelSelect = document.getElementById('agent-model') as HTMLSelectElement;
+    const modelHint = document.getElementById('model-hint');
+    const modelInfo = document.getElementById('model-info');
+    const recommendations = document.getElementById('model-recommendations');
+
+    modelSelect.innerHTML = '<option value="">Loading models...</option>';
+    modelSelect.disabled = true;
+    modelInfo!.style.display = 'none';
+
+    let modelIds: string[] = [];
+    let error: string | undefined;
+    try {
+      const result = await window.electronAPI.models.checkAvailability(provider, AgentConfigService.getProviderEndpoint(provider));
+      modelIds = (result.data?.models || []).map((model: { id: string }) => model.id);
+      if (!result.success) error = result.data?.error || result.error;
+    } catch (loadError) {
+      error = `${loadError}`;
+    }
+
+    // The user may have picked another provider while the endpoint was answering
+    if (providerSelect.value !== provider) return;
+
+    modelSelect.disabled = false;
+    modelSelect.innerHTML = `<option value="">${modelIds.length > 0 ? 'Select model...' : 'No models available'}</option>`;
+    modelIds.forEach(id => {
+      const option = document.createElement('option');
+      option.value = id;
+      option.textContent = id;
+      modelSelect.appendChild(option);
+    });
+
+    if (modelHint) {
+      modelHint.textContent = error
+        ? `Could not list models: ${error}. Check the endpoint in API settings.`
+        : 'Models served by your endpoint';
+    }
+
+    const recommendation = this.currentPersona
+      ? ModelRecommendationService.getOpenAICompatibleRecommendation(this.currentPersona, modelIds)
+      : null;
+    if (recommendations && recommendation) {
+      modelInfo!.style.display = 'block';
+      recommendations.innerHTML = this.escapeHtml(`**${recommendation.model}** - ${recommendation.reason}`);
+    }
+  }
+
   /**
    * Get model recommendations for persona and provider
    */
@@ -269,6 +359,15 @@ export class AgentModelSelector {
         'BAFFLING_BROADCASTER': '**Gemini 1.5 Pro** - Good character development',
         'PROJECT_DIRECTOR': '**Gemini 1.5 Pro** - Advanced project coordination'
       },
+      'mock': {
+        'CREATIVE_STRATEGIST': '**Deterministic Fixtures** - Repeatable strategy output for demos and tests',
+        'SATIRICAL_SCREENWRITER': '**Deterministic Fixtures** - Repeatable script replies for demos and tests',
+        'CINEMATIC_STORYBOARDER': '**Deterministic Fixtures** - A valid three-shot list every time',
+        'SOUNDSCAPE_ARCHITECT': '**Deterministic Fixtures** - Sound notes matched to the requested panels',
+        'VIDEO_PROMPT_ENGINEER': '**Deterministic Fixtures** - A ready-made Veo3 prompt for every shot',
+        'BAFFLING_BROADCASTER': '**Deterministic Fixtures** - A complete presenter character',
+        'PROJECT_DIRECTOR': '**Deterministic Fixtures** - Canned review notes'
+      },
       'local': {
         'CREATIVE_STRATEGIST': '**Llama 2** - Good for creative brainstorming',
         'SATIRICAL_SCREENWRITER': '**Mistral** - Strong writing capabilities',
@@ -286,22 +385,28 @@ export class AgentModelSelector {
   /**
    * Load current settings
    */
-  private loadCurrentSettings(): void {
+  private async loadCurrentSettings(): Promise<void> {
     if (!this.currentPersona) return;
     
     const config = AgentConfigService.getAgentConfig(this.currentPersona);
+    this.populateGenerationParameters(config?.generation);
     if (!config) return;
 
     const providerSelect = document.getElementById('agent-provider') as HTMLSelectElement;
     const modelSelect = document.getElementById('agent-model') as HTMLSelectElement;
 
     providerSelect.value = config.provider;
-    this.handleProviderChange(); // This will populate models
-    
-    // Set model after models are populated
-    setTimeout(() => {
-      modelSelect.value = config.model;
-    }, 50);
+    await this.handleProviderChange(); // This will populate models
+    if (providerSelect.value !== config.provider) return;
+
+    // Keep a saved model selectable even if the endpoint no longer lists it
+    if (config.model && !Array.from(modelSelect.options).some(option => option.value === config.model)) {
+      const option = document.createElement('option');
+      option.value = config.model;
+      option.textContent = `${config.model} (saved)`;
+      modelSelect.appendChild(option);
+    }
+    modelSelect.value = config.model;
   }
 
   /**
@@ -328,10 +433,18 @@ export class AgentModelSelector {
       return;
     }
 
+    const generation = this.readGenerationParameters(formData);
+    const generationErrors = AgentConfigService.validateGenerationParameters(generation);
+    if (generationErrors.length > 0) {
+      alert(`Please fix the generation parameters:\n\n${generationErrors.join('\n')}`);
+      return;
+    }
+
     // Save agent configuration (API keys are stored globally)
     AgentConfigService.saveAgentConfig(this.currentPersona, {
       provider: provider as any,
-      model: model
+      model: model,
+      generation
     });
 
     alert(`✅ Model selection saved for ${AgentConfigService.getPersonaDisplayName(this.currentPersona)}!`);
@@ -343,6 +456,37 @@ export class AgentModelSelector {
     }));
   }
 
+  /**
+   * Fill the generation parameter fields (empty fields fall back to defaults)
+   */
+  private populateGenerationParameters(generation?: GenerationParameters): void {
+    (document.getElementById('agent-temperature') as HTMLInputElement).value = generation?.temperature?.toString() ?? '';
+    (document.getElementById('agent-top-p') as HTMLInputElement).value = generation?.topP?.toString() ?? '';
+    (document.getElementById('agent-max-tokens') as HTMLInputElement).value = generation?.maxTokens?.toString() ?? '';
+    (document.getElementById('agent-stop-sequences') as HTMLTextAreaElement).value = (generation?.stopSequences || []).join('\n');
+  }
+
+  /**
+   * Read generation parameters from the form, omitting fields left empty
+   */
+  private readGenerationParameters(formData: FormData): GenerationParameters {
+    const readNumber = (name: string): number | undefined => {
+      const value = (formData.get(name) as string || '').trim();
+      return value === '' ? undefined : Number(value);
+    };
+
+    const stopSequences = (formData.get('stopSequences') as string || '')
+      .split('\n')
+      .filter(sequence => sequence.trim().length > 0);
+
+    return {
+      temperature: readNumber('temperature'),
+      topP: readNumber('topP'),
+      maxTokens: readNumber('maxTokens'),
+      stopSequences: stopSequences.length > 0 ? stopSequences : undefined
+    };
+  }
+
   /**
    * Open global API settings
    */
@@ -384,6 +528,12 @@ export class AgentModelSelector {
     };
     return descriptions[persona] || 'AI assistant for satirical content creation';
   }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
 }
 
 // Export singleton instance
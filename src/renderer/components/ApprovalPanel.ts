@@ -0,0 +1,217 @@
+// Approval Panel Component
+// Shows a stage's approval status, reviewer and sign-off audit trail, and offers the transitions the workflow allows
+
+import { ApprovalAction, ApprovalEntityType, ApprovalEvent, ApprovalEventAction, ApprovalState, ProjectMember, User } from '../../shared/types/index.js';
+import {
+  APPROVAL_STAGE_LABELS,
+  APPROVAL_STATUS_LABELS,
+  availableApprovalActions
+} from '../../shared/utils/approval.js';
+import { APPROVAL_STAGE_PERMISSIONS, PROJECT_ROLE_LABELS, hasPermission } from '../../shared/utils/permissions.js';
+import { projectAccess } from './ProjectAccess.js';
+
+export interface ApprovalPanelOptions {
+  containerId: string;
+  projectId: string;
+  entityType: ApprovalEntityType;
+  entityId: string; // The project ID for sound design
+  onChange?: (state: ApprovalState) => void;
+}
+
+const ACTION_LABELS: Record<ApprovalEventAction, string> = {
+  SUBMIT: 'submitted for review',
+  APPROVE: 'approved',
+  REQUEST_CHANGES: 'requested changes',
+  REVISE: 'edited it, so it needs review again'
+};
+
+export class ApprovalPanel {
+  private state: ApprovalState | null = null;
+  private users: User[] = [];
+  private members: ProjectMember[] = [];
+
+  constructor(private options: ApprovalPanelOptions) {}
+
+  /**
+   * Load the approval state and render the panel into its container
+   */
+  public async render(): Promise<ApprovalState | null> {
+    const container = document.getElementById(this.options.containerId);
+    if (!container) return null;
+
+    try {
+      const [stateResult, usersResult, membersResult] = await Promise.all([
+        window.electronAPI.database.getApprovalState(this.options.projectId, this.options.entityType, this.options.entityId),
+        window.electronAPI.database.getUsers(),
+        window.electronAPI.database.getProjectMembers(this.options.projectId)
+      ]);
+      if (!stateResult.success) {
+        throw new Error(stateResult.error);
+      }
+
+      this.state = stateResult.data;
+      this.users = usersResult.success ? usersResult.data : [];
+      this.members = membersResult.success ? membersResult.data : [];
+      container.innerHTML = this.renderPanel(this.state!);
+      this.setupEventHandlers(container);
+      return this.state;
+    } catch (error) {
+      console.error('Failed to load approval state:', error);
+      container.innerHTML = '<div class="approval-panel approval-error">Failed to load approval status</div>';
+      return null;
+    }
+  }
+
+  /**
+   * Whether the stage is approved
+   */
+  public isApproved(): boolean {
+    return this.state?.status === 'APPROVED';
+  }
+
+  private renderPanel(state: ApprovalState): string {
+    const actions = availableApprovalActions(state.status);
+    const reviewerId = state.approval?.reviewer_id;
+    const isReviewer = !!reviewerId && reviewerId === projectAccess.currentUserId() && state.approval?.submitted_by !== reviewerId;
+    const blocked = state.blocked_by ? APPROVAL_STAGE_LABELS[state.blocked_by] : null;
+
+    return `
+      <div class="approval-panel">
+        <div class="approval-header">
+          <h4>Approval</h4>
+          <span class="approval-status ${state.status.toLowerCase()}">${APPROVAL_STATUS_LABELS[state.status]}</span>
+          ${reviewerId ? `<span class="approval-reviewer">Reviewer: ${this.escapeHtml(this.userName(reviewerId))}</span>` : ''}
+        </div>
+
+        ${blocked ? `
+          <div class="approval-blocked">
+            🔒 Blocked until the ${this.escapeHtml(blocked.toLowerCase())} is approved
+          </div>
+        ` : ''}
+
+        ${actions.includes('SUBMIT') ? `
+          <div class="approval-submit" data-permission="${APPROVAL_STAGE_PERMISSIONS[this.options.entityType]}">
+            <label for="${this.options.containerId}-reviewer">Reviewer</label>
+            <select id="${this.options.containerId}-reviewer" class="form-control">
+              <option value="">Select reviewer...</option>
+              ${this.reviewerOptions(reviewerId)}
+            </select>
+            <button type="button" class="btn btn-success" data-approval-action="SUBMIT" ${blocked ? 'disabled' : ''}>
+              📋 ${state.status === 'NEEDS_REVISION' ? 'Resubmit' : 'Submit'} for Approval
+            </button>
+          </div>
+        ` : ''}
+
+        ${(actions.includes('APPROVE') || actions.includes('REQUEST_CHANGES')) && isReviewer ? `
+          <div class="approval-review" data-permission="approvals:review">
+            <textarea id="${this.options.containerId}-comment" class="form-control" rows="2"
+              placeholder="Comment (required when requesting changes)"></textarea>
+            <div class="approval-review-actions">
+              ${actions.includes('APPROVE') ? `
+                <button type="button" class="btn btn-success" data-approval-action="APPROVE" ${blocked ? 'disabled' : ''}>✅ Approve</button>
+              ` : ''}
+              <button type="button" class="btn btn-outline" data-approval-action="REQUEST_CHANGES">↩️ Request Changes</button>
+            </div>
+          </div>
+        ` : ''}
+
+        ${state.status === 'IN_REVIEW' && !isReviewer ? `
+          <p class="form-hint">Waiting for ${this.escapeHtml(this.userName(reviewerId))} to review.</p>
+        ` : ''}
+
+        ${state.events.length > 0 ? `
+          <details class="approval-audit">
+            <summary>Sign-off history (${state.events.length})</summary>
+            <ul>
+              ${state.events.map(event => this.renderEvent(event)).join('')}
+            </ul>
+          </details>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderEvent(event: ApprovalEvent): string {
+    return `
+      <li class="approval-event ${event.action.toLowerCase()}">
+        <strong>${this.escapeHtml(this.userName(event.user_id))}</strong> ${ACTION_LABELS[event.action]}
+        <small>${new Date(event.created_at).toLocaleString()}</small>
+        ${event.comment ? `<div class="approval-comment">${this.escapeHtml(event.comment)}</div>` : ''}
+      </li>
+    `;
+  }
+
+  private setupEventHandlers(container: HTMLElement): void {
+    container.querySelectorAll('[data-approval-action]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.transition(button.getAttribute('data-approval-action') as ApprovalAction);
+      });
+    });
+  }
+
+  private async transition(action: ApprovalAction): Promise<void> {
+    const reviewerId = (document.getElementById(`${this.options.containerId}-reviewer`) as HTMLSelectElement)?.value || undefined;
+    const comment = (document.getElementById(`${this.options.containerId}-comment`) as HTMLTextAreaElement)?.value.trim() || undefined;
+
+    if (action === 'SUBMIT' && !reviewerId) {
+      alert('Please select a reviewer before submitting.');
+      return;
+    }
+    if (action === 'REQUEST_CHANGES' && !comment) {
+      alert('Please add a comment describing the changes needed.');
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.database.transitionApproval({
+        project_id: this.options.projectId,
+        entity_type: this.options.entityType,
+        entity_id: this.options.entityId,
+        action,
+        reviewer_id: reviewerId,
+        comment
+      });
+
+      if (!result.success) {
+        alert(`❌ ${result.error}`);
+        return;
+      }
+
+      const label = APPROVAL_STAGE_LABELS[this.options.entityType];
+      alert(`✅ ${label} ${ACTION_LABELS[action]}.`);
+
+      const state = await this.render();
+      if (state) {
+        this.options.onChange?.(state);
+      }
+    } catch (error) {
+      console.error('Failed to change approval status:', error);
+      alert('❌ Failed to change approval status. Please try again.');
+    }
+  }
+
+  /**
+   * Project members whose role lets them review, other than whoever is submitting
+   */
+  private reviewerOptions(selectedId?: string): string {
+    return this.members
+      .filter(member => hasPermission(member.role, 'approvals:review') && member.user_id !== projectAccess.currentUserId())
+      .map(member => {
+        const name = `${this.userName(member.user_id)} (${PROJECT_ROLE_LABELS[member.role]})`;
+        return `<option value="${this.escapeHtml(member.user_id)}" ${member.user_id === selectedId ? 'selected' : ''}>${this.escapeHtml(name)}</option>`;
+      })
+      .join('');
+  }
+
+  private userName(userId?: string): string {
+    if (!userId) return 'the reviewer';
+    if (userId === projectAccess.currentUserId()) return 'Me';
+    return this.users.find(user => user.id === userId)?.name || userId;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,538 @@
+// Broadcaster Studio Component
+// Edits the project's character bible and drafts presenters with the Baffling Broadcaster persona
+
+import { Character, CreativeStrategy } from '../../shared/types/index.js';
+import { BroadcasterCharacterOutput } from '../../services/structured-output.js';
+
+type CharacterDraft = Omit<Character, 'id' | 'project_id' | 'created_at' | 'updated_at'>;
+
+export class BroadcasterStudio {
+  private currentProjectId: string | null = null;
+  private creativeStrategy: CreativeStrategy | null = null;
+  private characters: Character[] = [];
+  private editingCharacterId: string | null = null;
+  private pendingDraft: CharacterDraft | null = null; // Agent output awaiting review
+
+  /**
+   * Initialize the broadcaster studio for a project
+   */
+  async initialize(projectId: string): Promise<void> {
+    try {
+      this.currentProjectId = projectId;
+      this.editingCharacterId = null;
+      this.pendingDraft = null;
+
+      await this.loadCreativeStrategy();
+      await this.loadCharacters();
+
+      this.renderStudioInterface();
+
+      // Setup event handlers with a small delay to ensure DOM is ready
+      setTimeout(() => {
+        this.setupEventHandlers();
+      }, 100);
+
+    } catch (error) {
+      console.error('Failed to initialize broadcaster studio:', error);
+      this.renderError('Failed to load broadcaster studio');
+    }
+  }
+
+  /**
+   * Load creative strategy for character context
+   */
+  private async loadCreativeStrategy(): Promise<void> {
+    try {
+      if (!this.currentProjectId) return;
+
+      const result = await window.electronAPI.database.getCreativeStrategy(this.currentProjectId);
+      if (result.success && result.data) {
+        this.creativeStrategy = result.data;
+      }
+    } catch (error) {
+      console.error('Failed to load creative strategy:', error);
+    }
+  }
+
+  /**
+   * Load saved characters for this project
+   */
+  private async loadCharacters(): Promise<void> {
+    try {
+      if (!this.currentProjectId) return;
+
+      const result = await window.electronAPI.database.getCharactersByProject(this.currentProjectId);
+      if (result.success && result.data) {
+        this.characters = result.data;
+        console.log(`Loaded ${this.characters.length} characters from the character bible`);
+      }
+    } catch (error) {
+      console.error('Failed to load characters:', error);
+    }
+  }
+
+  /**
+   * Render the studio interface
+   */
+  private renderStudioInterface(): void {
+    const container = document.getElementById('broadcaster-studio-container');
+    if (!container) return;
+
+    container.innerHTML = `
+      <div class="broadcaster-workspace">
+        <div class="broadcaster-header">
+          <h2>🎭 Character Bible</h2>
+          <p>Every agent sees these characters in its system prompt. Lock a character once it is final so no agent can change it.</p>
+        </div>
+
+        <div class="broadcaster-content-area">
+          <div class="broadcaster-characters-section">
+            <div class="broadcaster-characters-header">
+              <h4>🎭 Characters</h4>
+              <button type="button" id="new-character-btn" data-permission="characters:edit" class="btn btn-secondary">
+                ➕ New Character
+              </button>
+            </div>
+
+            <div id="character-form-container" class="character-form-container" style="display: none;"></div>
+
+            <div id="broadcaster-characters-list" class="broadcaster-characters-list">
+              ${this.renderCharactersList()}
+            </div>
+          </div>
+
+          <div class="broadcaster-agent-section">
+            <h4>🤖 Create with the Baffling Broadcaster</h4>
+            <p class="form-hint">Describe the presenter you want. The agent drafts the full persona for you to review before saving.</p>
+            <textarea
+              id="broadcaster-brief"
+              class="broadcaster-brief"
+              rows="5"
+              placeholder="e.g. A breakfast TV host who treats every disaster as a lifestyle segment..."
+            ></textarea>
+            <button type="button" id="generate-character-btn" data-permission="characters:edit" class="btn btn-primary">
+              🤖 Draft Presenter
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render saved characters
+   */
+  private renderCharactersList(): string {
+    if (this.characters.length === 0) {
+      return `
+        <div class="empty-characters-state">
+          <div class="empty-icon">🎙️</div>
+          <p>No characters yet. Draft a presenter with the agent or create one by hand. Characters the agents introduce are added here automatically.</p>
+        </div>
+      `;
+    }
+
+    return this.characters.map(character => this.renderCharacterCard(character)).join('');
+  }
+
+  /**
+   * Render a single character card
+   */
+  private renderCharacterCard(character: Character): string {
+    const locked = !!character.locked;
+    return `
+      <div class="character-card ${locked ? 'locked' : ''}" data-character-id="${character.id}">
+        <div class="character-card-header">
+          <div>
+            <h5>${this.escapeHtml(character.name)}${locked ? ' <span class="character-lock-badge">🔒 Locked</span>' : ''}</h5>
+            <span class="character-role">${this.escapeHtml(character.role)}</span>
+          </div>
+          <div class="shot-actions">
+            <button type="button" class="btn btn-sm btn-secondary btn-lock-character" data-character-id="${character.id}" data-permission="characters:edit">${locked ? '🔓 Unlock' : '🔒 Lock'}</button>
+            <button type="button" class="btn btn-sm btn-secondary btn-edit-character" data-character-id="${character.id}" data-permission="characters:edit" ${locked ? 'disabled' : ''}>✏️ Edit</button>
+            <button type="button" class="btn btn-sm btn-danger btn-delete-character" data-character-id="${character.id}" data-permission="characters:edit" ${locked ? 'disabled' : ''}>🗑️ Delete</button>
+          </div>
+        </div>
+        <div class="character-details">
+          ${character.description ? `<p>${this.escapeHtml(character.description)}</p>` : ''}
+          <p><strong>Appearance:</strong> ${this.escapeHtml(character.visual_description || 'Not described')}</p>
+          ${character.wardrobe ? `<p><strong>Wardrobe:</strong> ${this.escapeHtml(character.wardrobe)}</p>` : ''}
+          ${character.mannerisms ? `<p><strong>Mannerisms:</strong> ${this.escapeHtml(character.mannerisms)}</p>` : ''}
+          ${character.verbal_tics.length > 0 ? `<p><strong>Verbal tics:</strong> ${this.escapeHtml(character.verbal_tics.join('; '))}</p>` : ''}
+          ${character.catchphrases.length > 0 ? `<p><strong>Catchphrases:</strong> ${character.catchphrases.map(c => `"${this.escapeHtml(c)}"`).join(', ')}</p>` : ''}
+          ${character.voice_notes ? `<p><strong>Voice:</strong> ${this.escapeHtml(character.voice_notes)}</p>` : ''}
+          ${character.reference_sheet ? `<p><strong>Reference sheet:</strong> ${this.escapeHtml(character.reference_sheet)}</p>` : ''}
+          ${character.ai_generated && character.persona_source ? `<small class="form-hint">Added by ${this.escapeHtml(character.persona_source)}</small>` : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the character form, prefilled from a saved character or an agent draft
+   */
+  private renderCharacterForm(draft?: Partial<CharacterDraft>): string {
+    return `
+      <div class="character-form">
+        <h6>${this.editingCharacterId ? '✏️ Edit Character' : '🎭 New Character'}</h6>
+
+        <div class="form-group">
+          <label for="character-name">Name *</label>
+          <input type="text" id="character-name" value="${this.escapeAttribute(draft?.name || '')}" />
+        </div>
+
+        <div class="form-group">
+          <label for="character-role">Role *</label>
+          <input type="text" id="character-role" placeholder="e.g. News anchor, Roving reporter" value="${this.escapeAttribute(draft?.role || '')}" />
+        </div>
+
+        <div class="form-group">
+          <label for="character-description">Description</label>
+          <textarea id="character-description" rows="2">${this.escapeHtml(draft?.description || '')}</textarea>
+        </div>
+
+        <div class="form-group">
+          <label for="character-visual">Appearance *</label>
+          <textarea id="character-visual" rows="3">${this.escapeHtml(draft?.visual_description || '')}</textarea>
+        </div>
+
+        <div class="form-group">
+          <label for="character-wardrobe">Wardrobe</label>
+          <textarea id="character-wardrobe" rows="2">${this.escapeHtml(draft?.wardrobe || '')}</textarea>
+        </div>
+
+        <div class="form-group">
+          <label for="character-mannerisms">Mannerisms</label>
+          <textarea id="character-mannerisms" rows="2">${this.escapeHtml(draft?.mannerisms || '')}</textarea>
+        </div>
+
+        <div class="form-group">
+          <label for="character-tics">Verbal Tics</label>
+          <textarea id="character-tics" rows="3">${this.escapeHtml((draft?.verbal_tics || []).join('\n'))}</textarea>
+          <small class="form-hint">One per line</small>
+        </div>
+
+        <div class="form-group">
+          <label for="character-catchphrases">Catchphrases</label>
+          <textarea id="character-catchphrases" rows="3">${this.escapeHtml((draft?.catchphrases || []).join('\n'))}</textarea>
+          <small class="form-hint">One per line</small>
+        </div>
+
+        <div class="form-group">
+          <label for="character-voice">Voice Notes</label>
+          <textarea id="character-voice" rows="2">${this.escapeHtml(draft?.voice_notes || '')}</textarea>
+        </div>
+
+        <div class="form-group">
+          <label for="character-reference">Reference Sheet</label>
+          <textarea id="character-reference" rows="3" placeholder="Turnaround notes, reference image paths or URLs">${this.escapeHtml(draft?.reference_sheet || '')}</textarea>
+        </div>
+
+        <div class="form-actions">
+          <button type="button" id="save-character-btn" class="btn btn-primary">💾 Save Character</button>
+          <button type="button" id="cancel-character-btn" class="btn btn-secondary">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Setup event handlers
+   */
+  private setupEventHandlers(): void {
+    document.getElementById('new-character-btn')?.addEventListener('click', () => {
+      this.editingCharacterId = null;
+      this.pendingDraft = null;
+      this.showCharacterForm();
+    });
+
+    document.getElementById('generate-character-btn')?.addEventListener('click', () => {
+      this.generateCharacter();
+    });
+
+    this.setupCharacterEventListeners();
+  }
+
+  /**
+   * Setup event listeners for character cards
+   */
+  private setupCharacterEventListeners(): void {
+    document.querySelectorAll('.btn-edit-character').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const characterId = (e.currentTarget as HTMLElement).getAttribute('data-character-id');
+        const character = this.characters.find(c => c.id === characterId);
+        if (character) {
+          this.editingCharacterId = character.id;
+          this.pendingDraft = null;
+          this.showCharacterForm(character);
+        }
+      });
+    });
+
+    document.querySelectorAll('.btn-delete-character').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const characterId = (e.currentTarget as HTMLElement).getAttribute('data-character-id');
+        if (characterId) this.deleteCharacter(characterId);
+      });
+    });
+
+    document.querySelectorAll('.btn-lock-character').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const characterId = (e.currentTarget as HTMLElement).getAttribute('data-character-id');
+        if (characterId) this.toggleCharacterLock(characterId);
+      });
+    });
+  }
+
+  /**
+   * Show the character form
+   */
+  private showCharacterForm(draft?: Partial<CharacterDraft>): void {
+    const container = document.getElementById('character-form-container');
+    if (!container) return;
+
+    container.innerHTML = this.renderCharacterForm(draft);
+    container.style.display = 'block';
+
+    document.getElementById('save-character-btn')?.addEventListener('click', () => {
+      this.saveCharacterForm();
+    });
+    document.getElementById('cancel-character-btn')?.addEventListener('click', () => {
+      this.hideCharacterForm();
+    });
+  }
+
+  /**
+   * Hide the character form
+   */
+  private hideCharacterForm(): void {
+    const container = document.getElementById('character-form-container');
+    if (container) {
+      container.style.display = 'none';
+      container.innerHTML = '';
+    }
+    this.editingCharacterId = null;
+    this.pendingDraft = null;
+  }
+
+  /**
+   * Ask the Baffling Broadcaster to draft a presenter from the user's brief
+   */
+  private async generateCharacter(): Promise<void> {
+    const briefInput = document.getElementById('broadcaster-brief') as HTMLTextAreaElement | null;
+    const brief = briefInput?.value.trim() || '';
+    if (!brief) {
+      alert('Describe the presenter you want first');
+      return;
+    }
+
+    const button = document.getElementById('generate-character-btn') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = true;
+      button.textContent = '⏳ Drafting...';
+    }
+
+    try {
+      const { AgentConfigService } = await import('../../services/agent-config.js');
+      const agentConfig = AgentConfigService.getAgentConfig('BAFFLING_BROADCASTER');
+
+      const strategy = this.creativeStrategy;
+      const prompt = `Create one presenter character for this satirical video.
+
+BRIEF: ${brief}
+
+${strategy ? `CREATIVE CONCEPT: ${strategy.creative_concept}
+TONE: ${strategy.tone}
+FORMAT: ${strategy.satirical_format || 'Not specified'}` : ''}
+
+EXISTING PRESENTERS (do not reuse these names): ${this.characters.map(c => c.name).join(', ') || 'None'}
+
+Give a visual description an AI video model can reproduce exactly, a few verbal tics, two or three catchphrases and notes on voice and delivery.`;
+
+      const project = await window.electronAPI.database.getProjectById(this.currentProjectId!);
+      const result = await window.electronAPI.llm.generateStructuredOutput(
+        this.currentProjectId!,
+        'BAFFLING_BROADCASTER',
+        prompt,
+        'broadcaster_character',
+        { projectId: this.currentProjectId, project: project.success ? project.data : undefined },
+        agentConfig
+      );
+
+      if (!result.success || !result.data) {
+        alert(`❌ Failed to draft presenter: ${result.error}`);
+        return;
+      }
+
+      const draft = result.data as BroadcasterCharacterOutput;
+      this.editingCharacterId = null;
+      this.pendingDraft = { ...draft, ai_generated: true, persona_source: 'BAFFLING_BROADCASTER' };
+      this.showCharacterForm(this.pendingDraft);
+    } catch (error) {
+      console.error('Failed to generate character:', error);
+      alert('❌ Failed to draft presenter');
+    } finally {
+      if (button) {
+        button.disabled = false;
+        button.textContent = '🤖 Draft Presenter';
+      }
+    }
+  }
+
+  /**
+   * Save the character form as a new or updated character
+   */
+  private async saveCharacterForm(): Promise<void> {
+    if (!this.currentProjectId) return;
+
+    const name = (document.getElementById('character-name') as HTMLInputElement).value.trim();
+    const role = (document.getElementById('character-role') as HTMLInputElement).value.trim();
+    const visualDescription = (document.getElementById('character-visual') as HTMLTextAreaElement).value.trim();
+    const verbalTics = this.readLines('character-tics');
+    const catchphrases = this.readLines('character-catchphrases');
+    const voiceNotes = (document.getElementById('character-voice') as HTMLTextAreaElement).value.trim();
+    const description = (document.getElementById('character-description') as HTMLTextAreaElement).value.trim();
+    const wardrobe = (document.getElementById('character-wardrobe') as HTMLTextAreaElement).value.trim();
+    const mannerisms = (document.getElementById('character-mannerisms') as HTMLTextAreaElement).value.trim();
+    const referenceSheet = (document.getElementById('character-reference') as HTMLTextAreaElement).value.trim();
+
+    if (!name || !role || !visualDescription) {
+      alert('Please fill in all required fields');
+      return;
+    }
+
+    const duplicate = this.characters.find(c => c.name.toLowerCase() === name.toLowerCase() && c.id !== this.editingCharacterId);
+    if (duplicate) {
+      alert(`A character called "${duplicate.name}" already exists in this project`);
+      return;
+    }
+
+    const characterData: CharacterDraft = {
+      name,
+      role,
+      visual_description: visualDescription,
+      verbal_tics: verbalTics,
+      catchphrases,
+      voice_notes: voiceNotes || undefined,
+      description: description || undefined,
+      wardrobe: wardrobe || undefined,
+      mannerisms: mannerisms || undefined,
+      reference_sheet: referenceSheet || undefined,
+      ai_generated: this.pendingDraft?.ai_generated || false,
+      persona_source: this.pendingDraft?.persona_source
+    };
+
+    try {
+      const result = this.editingCharacterId
+        ? await window.electronAPI.database.updateCharacter(this.editingCharacterId, characterData)
+        : await window.electronAPI.database.createCharacter({ ...characterData, project_id: this.currentProjectId });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      this.hideCharacterForm();
+      await this.loadCharacters();
+      this.refreshCharactersList();
+    } catch (error) {
+      console.error('Failed to save character:', error);
+      alert(`❌ Failed to save character: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Lock or unlock a character. Locked characters cannot be edited or deleted by users or agents.
+   */
+  private async toggleCharacterLock(characterId: string): Promise<void> {
+    const character = this.characters.find(c => c.id === characterId);
+    if (!character) return;
+
+    try {
+      const result = await window.electronAPI.database.updateCharacter(characterId, { locked: !character.locked });
+      if (!result.success || !result.data) {
+        throw new Error(result.error);
+      }
+
+      this.characters = this.characters.map(c => c.id === characterId ? result.data! : c);
+      if (this.editingCharacterId === characterId) {
+        this.hideCharacterForm();
+      }
+      this.refreshCharactersList();
+    } catch (error) {
+      console.error('Failed to toggle character lock:', error);
+      alert(`❌ Failed to ${character.locked ? 'unlock' : 'lock'} ${character.name}`);
+    }
+  }
+
+  /**
+   * Delete a character
+   */
+  private async deleteCharacter(characterId: string): Promise<void> {
+    const character = this.characters.find(c => c.id === characterId);
+    if (!character || !confirm(`Are you sure you want to delete ${character.name}?`)) return;
+
+    try {
+      const result = await window.electronAPI.database.deleteCharacter(characterId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      this.characters = this.characters.filter(c => c.id !== characterId);
+      if (this.editingCharacterId === characterId) {
+        this.hideCharacterForm();
+      }
+      this.refreshCharactersList();
+    } catch (error) {
+      console.error('Failed to delete character:', error);
+      alert(`❌ Failed to delete character: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Refresh characters list display
+   */
+  private refreshCharactersList(): void {
+    const container = document.getElementById('broadcaster-characters-list');
+    if (container) {
+      container.innerHTML = this.renderCharactersList();
+      this.setupCharacterEventListeners();
+    }
+  }
+
+  private readLines(elementId: string): string[] {
+    const value = (document.getElementById(elementId) as HTMLTextAreaElement)?.value || '';
+    return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  private escapeAttribute(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Render error state
+   */
+  private renderError(message: string): void {
+    const container = document.getElementById('broadcaster-studio-container');
+    if (!container) return;
+
+    container.innerHTML = `
+      <div class="broadcaster-error">
+        <div class="error-icon">❌</div>
+        <h3>Character Bible Error</h3>
+        <p>${message}</p>
+        <button class="btn btn-primary" onclick="location.reload()">
+          Retry
+        </button>
+      </div>
+    `;
+  }
+}
+
+// Export singleton instance
+export const broadcasterStudio = new BroadcasterStudio();
@@ -0,0 +1,273 @@
+// Comments Panel Component
+// Threaded comments on a project entity: start threads on a section or line range, reply, @mention teammates, resolve and reopen
+
+import { CommentAnchor, CommentStatus, CommentTargetType, CommentThread, User } from '../../shared/types/index.js';
+import { COMMENT_SECTIONS, COMMENT_TARGET_LABELS, describeCommentAnchor, mentionHandle, splitMentions } from '../../shared/utils/comments.js';
+import { projectAccess } from './ProjectAccess.js';
+
+export interface CommentsPanelOptions {
+  projectId: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  title: string;
+  anchor?: CommentAnchor; // Preselected anchor for a new thread, e.g. the selected script lines
+  onChange?: (threads: CommentThread[]) => void;
+}
+
+type ThreadFilter = 'OPEN' | 'RESOLVED' | 'ALL';
+
+export class CommentsPanel {
+  private options: CommentsPanelOptions | null = null;
+  private threads: CommentThread[] = [];
+  private users: User[] = [];
+  private filter: ThreadFilter = 'OPEN';
+
+  /**
+   * Open the comment threads of an entity
+   */
+  public async open(options: CommentsPanelOptions): Promise<void> {
+    this.options = options;
+    this.filter = 'OPEN';
+
+    const usersResult = await window.electronAPI.database.getUsers();
+    this.users = usersResult.success ? usersResult.data : [];
+
+    await this.loadThreads();
+    if (!this.options) return;
+    this.render();
+  }
+
+  /**
+   * Close the panel
+   */
+  public close(): void {
+    document.getElementById('comments-modal')?.remove();
+    this.options = null;
+    this.threads = [];
+  }
+
+  private async loadThreads(): Promise<void> {
+    const { targetType, targetId } = this.options!;
+    const result = await window.electronAPI.database.getCommentThreads(targetType, targetId);
+    if (!result.success) {
+      alert(`❌ Failed to load comments: ${result.error}`);
+      this.close();
+      return;
+    }
+    this.threads = result.data || [];
+  }
+
+  private render(): void {
+    const { title, targetType, anchor } = this.options!;
+    const sections = COMMENT_SECTIONS[targetType];
+    const visible = this.threads.filter(thread => this.filter === 'ALL' || thread.status === this.filter);
+    const count = (status: CommentStatus) => this.threads.filter(thread => thread.status === status).length;
+
+    document.getElementById('comments-modal')?.remove();
+    document.body.insertAdjacentHTML('beforeend', `
+      <div id="comments-modal" class="modal-overlay" style="display: flex;">
+        <div class="modal-content comments-modal">
+          <div class="modal-header">
+            <h2>💬 ${this.escapeHtml(title)} Comments</h2>
+            <button class="modal-close" id="close-comments">&times;</button>
+          </div>
+
+          <div class="comment-compose" data-permission="comments:write">
+            ${anchor && !anchor.section ? `
+              <div class="comment-anchor">
+                On ${this.escapeHtml(describeCommentAnchor(targetType, anchor))}
+                ${anchor.quote ? `<blockquote>${this.escapeHtml(this.truncate(anchor.quote, 200))}</blockquote>` : ''}
+              </div>
+            ` : ''}
+            ${sections ? `
+              <select id="comment-section" class="form-control">
+                <option value="">Whole ${this.escapeHtml(COMMENT_TARGET_LABELS[targetType].toLowerCase())}</option>
+                ${Object.entries(sections).map(([key, label]) => `
+                  <option value="${key}" ${anchor?.section === key ? 'selected' : ''}>${this.escapeHtml(label)}</option>
+                `).join('')}
+              </select>
+            ` : ''}
+            <textarea id="new-comment-text" class="form-control" rows="3" placeholder="Start a thread..."></textarea>
+            <div class="comment-compose-footer">
+              <small class="form-hint">${this.renderMentionHint()}</small>
+              <button type="button" id="post-comment-btn" class="btn btn-primary btn-sm">💬 Comment</button>
+            </div>
+          </div>
+
+          <div class="comment-filter">
+            <button type="button" class="btn btn-sm ${this.filter === 'OPEN' ? 'btn-primary' : 'btn-outline'}" data-comment-filter="OPEN">Open (${count('OPEN')})</button>
+            <button type="button" class="btn btn-sm ${this.filter === 'RESOLVED' ? 'btn-primary' : 'btn-outline'}" data-comment-filter="RESOLVED">Resolved (${count('RESOLVED')})</button>
+            <button type="button" class="btn btn-sm ${this.filter === 'ALL' ? 'btn-primary' : 'btn-outline'}" data-comment-filter="ALL">All</button>
+          </div>
+
+          <div class="comment-threads">
+            ${visible.length === 0 ? `
+              <p class="form-hint">No ${this.filter === 'ALL' ? '' : `${this.filter.toLowerCase()} `}comments yet.</p>
+            ` : visible.map(thread => this.renderThread(thread)).join('')}
+          </div>
+        </div>
+      </div>
+    `);
+
+    this.setupEventHandlers();
+  }
+
+  private renderThread(thread: CommentThread): string {
+    const anchorLabel = describeCommentAnchor(thread.target_entity_type, thread.anchor);
+
+    return `
+      <div class="comment-thread ${thread.status.toLowerCase()}">
+        <div class="comment-thread-header">
+          ${anchorLabel ? `<span class="comment-anchor-label">${this.escapeHtml(anchorLabel)}</span>` : ''}
+          ${thread.status === 'RESOLVED' ? `
+            <span class="comment-resolved-label">✅ Resolved by ${this.escapeHtml(this.userName(thread.resolved_by))}</span>
+            <button type="button" class="btn btn-outline btn-sm" data-thread-status="OPEN" data-thread-id="${thread.id}" data-permission="comments:write">Reopen</button>
+          ` : `
+            <button type="button" class="btn btn-outline btn-sm" data-thread-status="RESOLVED" data-thread-id="${thread.id}" data-permission="comments:write">✓ Resolve</button>
+          `}
+        </div>
+        ${thread.anchor?.quote ? `<blockquote>${this.escapeHtml(this.truncate(thread.anchor.quote, 200))}</blockquote>` : ''}
+        ${[thread, ...thread.replies].map(comment => `
+          <div class="comment">
+            <div class="comment-meta">
+              <strong>${this.escapeHtml(this.userName(comment.author))}</strong>
+              <small>${new Date(comment.created_at).toLocaleString()}</small>
+            </div>
+            <div class="comment-text">${this.renderText(comment.comment_text)}</div>
+          </div>
+        `).join('')}
+        <div class="comment-reply" data-permission="comments:write">
+          <textarea class="form-control" rows="1" placeholder="Reply..." data-reply-text="${thread.id}"></textarea>
+          <button type="button" class="btn btn-outline btn-sm" data-reply-to="${thread.id}">Reply</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private setupEventHandlers(): void {
+    const modal = document.getElementById('comments-modal');
+    if (!modal) return;
+
+    document.getElementById('close-comments')?.addEventListener('click', () => this.close());
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) this.close();
+    });
+
+    document.getElementById('post-comment-btn')?.addEventListener('click', () => this.postComment());
+
+    modal.querySelectorAll('[data-comment-filter]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.filter = button.getAttribute('data-comment-filter') as ThreadFilter;
+        this.render();
+      });
+    });
+
+    modal.querySelectorAll('[data-reply-to]').forEach(button => {
+      button.addEventListener('click', () => this.reply(button.getAttribute('data-reply-to')!));
+    });
+
+    modal.querySelectorAll('[data-thread-status]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.setStatus(button.getAttribute('data-thread-id')!, button.getAttribute('data-thread-status') as CommentStatus);
+      });
+    });
+  }
+
+  private async postComment(): Promise<void> {
+    if (!this.options) return;
+    const text = (document.getElementById('new-comment-text') as HTMLTextAreaElement)?.value.trim();
+    if (!text) {
+      alert('Please enter a comment.');
+      return;
+    }
+
+    const section = (document.getElementById('comment-section') as HTMLSelectElement)?.value;
+    const anchor = section ? { section } : this.options.anchor;
+
+    await this.save(() => window.electronAPI.database.createComment({
+      project_id: this.options!.projectId,
+      target_entity_type: this.options!.targetType,
+      target_entity_id: this.options!.targetId,
+      anchor,
+      comment_text: text
+    }), 'Failed to post comment');
+  }
+
+  private async reply(threadId: string): Promise<void> {
+    const text = (document.querySelector(`[data-reply-text="${threadId}"]`) as HTMLTextAreaElement)?.value.trim();
+    if (!text) return;
+
+    await this.save(() => window.electronAPI.database.createComment({
+      project_id: this.options!.projectId,
+      target_entity_type: this.options!.targetType,
+      target_entity_id: this.options!.targetId,
+      parent_id: threadId,
+      comment_text: text
+    }), 'Failed to post reply');
+  }
+
+  private async setStatus(threadId: string, status: CommentStatus): Promise<void> {
+    await this.save(
+      () => window.electronAPI.database.setCommentThreadStatus(threadId, status),
+      status === 'RESOLVED' ? 'Failed to resolve thread' : 'Failed to reopen thread'
+    );
+  }
+
+  /**
+   * Run a change, then reload and re-render the threads
+   */
+  private async save(change: () => Promise<any>, failure: string): Promise<void> {
+    try {
+      const result = await change();
+      if (!result.success) {
+        alert(`❌ ${result.error || failure}`);
+        return;
+      }
+
+      const onChange = this.options?.onChange;
+      await this.loadThreads();
+      if (!this.options) return;
+      this.render();
+      onChange?.(this.threads);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`❌ ${failure}. Please try again.`);
+    }
+  }
+
+  private renderMentionHint(): string {
+    const handles = this.users.map(user => `@${this.escapeHtml(mentionHandle(user))}`);
+    return handles.length > 0
+      ? `Mention teammates with ${handles.slice(0, 5).join(', ')}${handles.length > 5 ? '…' : ''}`
+      : 'Mention teammates with @name';
+  }
+
+  private renderText(text: string): string {
+    const handles = new Set(this.users.map(user => mentionHandle(user)));
+    return splitMentions(text)
+      .map(part => part.mention && handles.has(part.text.slice(1).toLowerCase())
+        ? `<span class="comment-mention">${this.escapeHtml(part.text)}</span>`
+        : this.escapeHtml(part.text))
+      .join('')
+      .replace(/\n/g, '<br>');
+  }
+
+  private userName(userId?: string): string {
+    if (!userId) return 'someone';
+    if (userId === projectAccess.currentUserId()) return 'Me';
+    return this.users.find(user => user.id === userId)?.name || userId;
+  }
+
+  private truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length)}…` : text;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Export singleton instance
+export const commentsPanel = new CommentsPanel();
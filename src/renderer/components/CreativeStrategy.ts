@@ -8,14 +8,20 @@ import {
   TargetAudience, 
   SatiricalAngle, 
   CharacterArchetype,
+  DirectorNotes,
   SatiricalFormat,
   PersonaType
 } from '../../shared/types/index.js';
 import { ModernAIChatInterface } from './ModernAIChatInterface.js';
+import { revisionHistoryPanel } from './RevisionHistoryPanel.js';
+import { ApprovalPanel } from './ApprovalPanel.js';
+import { commentsPanel } from './CommentsPanel.js';
 
 export class CreativeStrategyManager {
   private currentProjectId: string | null = null;
   private currentStrategy: CreativeStrategy | null = null;
+  private editingStrategy: CreativeStrategy | null = null; // Saved strategy open in the workspace for refinement
+  private directorNotes: DirectorNotes | null = null;
   private isLoading = false;
   private modernAIChat: ModernAIChatInterface | null = null;
   private autoSaveTimeout: NodeJS.Timeout | null = null;
@@ -55,6 +61,23 @@ export class CreativeStrategyManager {
       console.error('Failed to load strategy:', error);
       this.currentStrategy = null;
     }
+
+    await this.loadDirectorNotes();
+  }
+
+  /**
+   * Load the latest director's notes so their history can be opened
+   */
+  private async loadDirectorNotes(): Promise<void> {
+    if (!this.currentProjectId) return;
+
+    try {
+      const result = await window.electronAPI.database.getDirectorNotes(this.currentProjectId);
+      this.directorNotes = result.success && result.data?.length > 0 ? result.data[0] : null;
+    } catch (error) {
+      console.error('Failed to load director notes:', error);
+      this.directorNotes = null;
+    }
   }
 
   /**
@@ -177,7 +200,7 @@ export class CreativeStrategyManager {
 
               <!-- Form Actions -->
               <div class="form-actions">
-                <button type="button" id="save-strategy-btn" class="btn btn-primary">Save Strategy</button>
+                <button type="button" id="save-strategy-btn" data-permission="strategy:edit" class="btn btn-primary">Save Strategy</button>
                 <button type="button" id="clear-form-btn" class="btn btn-outline">Clear Form</button>
               </div>
             </div>
@@ -189,10 +212,10 @@ export class CreativeStrategyManager {
               <h4>💬 Creative Strategist AI</h4>
               <p>Collaborate to develop your strategy</p>
               <div class="chat-actions">
-                <button type="button" id="start-ai-chat-btn" class="btn btn-primary chat-start-btn">
+                <button type="button" id="start-ai-chat-btn" data-permission="ai:use" class="btn btn-primary chat-start-btn">
                   Start Collaboration
                 </button>
-                <button class="btn btn-outline" id="generate-ai-strategy-btn">
+                <button class="btn btn-outline" id="generate-ai-strategy-btn" data-permission="strategy:edit">
                   🚀 Quick Generation
                 </button>
               </div>
@@ -299,12 +322,20 @@ export class CreativeStrategyManager {
           </div>
           
           <div class="strategy-actions">
-            <button class="btn btn-outline" id="edit-strategy-btn">Edit Strategy</button>
-            <button class="btn btn-primary" id="refine-with-chat-btn">💬 Refine with AI</button>
-            <button class="btn btn-success" id="generate-director-notes-btn">Generate Director's Notes</button>
+            <button class="btn btn-outline" id="edit-strategy-btn" data-permission="strategy:edit">Edit Strategy</button>
+            <button class="btn btn-primary" id="refine-with-chat-btn" data-permission="strategy:edit">💬 Refine with AI</button>
+            <button class="btn btn-success" id="generate-director-notes-btn" data-permission="strategy:edit">Generate Director's Notes</button>
+            <button class="btn btn-outline" id="strategy-history-btn">🕘 History</button>
+            <button class="btn btn-outline" id="strategy-comments-btn">💬 Comments</button>
+            ${this.directorNotes ? `
+              <button class="btn btn-outline" id="director-notes-history-btn">🕘 Director's Notes History</button>
+              <button class="btn btn-outline" id="director-notes-comments-btn">💬 Director's Notes Comments</button>
+            ` : ''}
           </div>
         </div>
 
+        <div id="strategy-approval"></div>
+
         <!-- Strategy Overview -->
         <div class="strategy-overview">
           <div class="strategy-section">
@@ -419,6 +450,81 @@ export class CreativeStrategyManager {
     refineWithChatBtn?.addEventListener('click', () => this.refineWithChat());
     editBtn?.addEventListener('click', () => this.editStrategy());
     generateNotesBtn?.addEventListener('click', () => this.generateDirectorNotes());
+    document.getElementById('strategy-history-btn')?.addEventListener('click', () => this.showStrategyHistory());
+    document.getElementById('director-notes-history-btn')?.addEventListener('click', () => this.showDirectorNotesHistory());
+    document.getElementById('strategy-comments-btn')?.addEventListener('click', () => this.showComments('creative_strategy'));
+    document.getElementById('director-notes-comments-btn')?.addEventListener('click', () => this.showComments('director_notes'));
+
+    this.renderApprovalPanel();
+  }
+
+  /**
+   * Render the approval workflow for the current strategy
+   */
+  private async renderApprovalPanel(): Promise<void> {
+    if (!this.currentStrategy || !this.currentProjectId) return;
+
+    await new ApprovalPanel({
+      containerId: 'strategy-approval',
+      projectId: this.currentProjectId,
+      entityType: 'CREATIVE_STRATEGY',
+      entityId: this.currentStrategy.id,
+      onChange: async () => {
+        // The main process keeps the strategy's status in step with its approval
+        await this.loadExistingStrategy();
+        const badge = document.querySelector('.existing-strategy .status-badge');
+        if (badge && this.currentStrategy) {
+          badge.className = `status-badge ${this.currentStrategy.status.toLowerCase()}`;
+          badge.textContent = this.formatStatus(this.currentStrategy.status);
+        }
+      }
+    }).render();
+  }
+
+  /**
+   * Open the comment threads on the strategy or its latest director's notes; threads can be anchored to a section
+   */
+  private async showComments(targetType: 'creative_strategy' | 'director_notes'): Promise<void> {
+    const target = targetType === 'creative_strategy' ? this.currentStrategy : this.directorNotes;
+    if (!target || !this.currentProjectId) return;
+
+    await commentsPanel.open({
+      projectId: this.currentProjectId,
+      targetType,
+      targetId: target.id,
+      title: targetType === 'creative_strategy' ? 'Creative Strategy' : "Director's Notes"
+    });
+  }
+
+  /**
+   * Open the strategy's revision history; a restored version is shown in place of the current one
+   */
+  private async showStrategyHistory(): Promise<void> {
+    if (!this.currentStrategy) return;
+
+    await revisionHistoryPanel.open({
+      entityType: 'CREATIVE_STRATEGY',
+      entityId: this.currentStrategy.id,
+      title: 'Creative Strategy',
+      onRestore: async () => {
+        await this.loadExistingStrategy();
+        this.render();
+      }
+    });
+  }
+
+  /**
+   * Open the revision history of the latest director's notes
+   */
+  private async showDirectorNotesHistory(): Promise<void> {
+    if (!this.directorNotes) return;
+
+    await revisionHistoryPanel.open({
+      entityType: 'DIRECTOR_NOTES',
+      entityId: this.directorNotes.id,
+      title: 'Director\'s Notes',
+      onRestore: () => this.loadDirectorNotes()
+    });
   }
 
   /**
@@ -734,16 +840,22 @@ export class CreativeStrategyManager {
       // Transform form data to match database schema
       const transformedData = this.transformFormDataForSave(formData);
       
-      // @ts-ignore
-      const result = await window.electronAPI.database.createCreativeStrategy({
-        project_id: this.currentProjectId,
-        ...transformedData,
-        status: 'DRAFT',
-        created_by: 'temp-user-id' // TODO: Get actual user ID from auth
-      });
+      // Refining a saved strategy records a new revision of it rather than starting another strategy
+      const result = this.editingStrategy
+        ? await window.electronAPI.database.updateCreativeStrategy(this.editingStrategy.id, {
+          ...transformedData,
+          status: 'DRAFT'
+        })
+        // @ts-ignore
+        : await window.electronAPI.database.createCreativeStrategy({
+          project_id: this.currentProjectId,
+          ...transformedData,
+          status: 'DRAFT'
+        });
 
       if (result.success) {
         this.currentStrategy = result.data;
+        this.editingStrategy = null;
         alert('Creative Strategy saved successfully!');
         
         // Clear auto-save data
@@ -820,6 +932,7 @@ export class CreativeStrategyManager {
   private async refineWithChat(): Promise<void> {
     try {
       // Switch to edit mode with chat enabled
+      this.editingStrategy = this.currentStrategy;
       this.currentStrategy = null; // Temporarily clear to show workspace
       this.render();
       
@@ -839,9 +952,9 @@ export class CreativeStrategyManager {
    * Populate form with existing strategy data
    */
   private populateFormWithExistingStrategy(): void {
-    if (!this.currentStrategy) return;
+    const strategy = this.currentStrategy || this.editingStrategy;
+    if (!strategy) return;
 
-    const strategy = this.currentStrategy;
 
     // Populate basic fields
     const conceptEl = document.getElementById('creative-concept') as HTMLTextAreaElement;
@@ -920,6 +1033,8 @@ export class CreativeStrategyManager {
       const result = await window.electronAPI.database.generateDirectorNotes(this.currentStrategy.id);
 
       if (result.success) {
+        this.directorNotes = result.data;
+        this.render();
         alert('Director\'s Notes generated successfully! You can view them in the next workflow stage.');
       } else {
         throw new Error(result.error || 'Failed to generate director notes');
@@ -1,17 +1,35 @@
 // Global API Settings Component
 // Central management for all AI provider API keys
 
+import { APIKeyProvider, APIKeyStoreStatus, APIKeySummary } from '../../shared/types/index.js';
+
+// What the renderer keeps in localStorage - key summaries only, the keys are held encrypted by the main process
 export interface APIKeySettings {
-  openai_api_key?: string;
-  anthropic_api_key?: string;
-  gemini_api_key?: string;
   local_base_url?: string;
+  compatible_base_url?: string;
+  compatible_auth_header?: string;
+  mock_enabled?: boolean;
+  keys?: Partial<Record<APIKeyProvider, APIKeySummary>>;
 }
 
+// Plaintext keys as entered in the settings form, or as stored by older versions
+type APIKeyInput = Partial<Record<APIKeyProvider, string>>;
+
+const HOSTED_PROVIDERS: APIKeyProvider[] = ['openai', 'anthropic', 'gemini'];
+const KEY_PROVIDERS: APIKeyProvider[] = [...HOSTED_PROVIDERS, 'openai-compatible'];
+
+const KEY_PLACEHOLDERS: Record<APIKeyProvider, string> = {
+  openai: 'sk-...',
+  anthropic: 'sk-ant-...',
+  gemini: 'AIza...',
+  'openai-compatible': 'Optional'
+};
+
 export class GlobalAPISettings {
   private modal: HTMLElement | null = null;
   private isOpen = false;
   private static readonly STORAGE_KEY = 'global-api-settings';
+  private static encryptionAvailable = true;
 
   constructor() {
     this.createModal();
@@ -36,6 +54,12 @@ export class GlobalAPISettings {
               <div class="info-callout">
                 <strong>💡 Tip:</strong> You only need to configure the providers you want to use. Leave others blank.
               </div>
+              <div class="info-callout">
+                <strong>🔒 Stored securely:</strong> Keys are encrypted with your system keychain and never shown in full again. Leave a field blank to keep its saved key.
+              </div>
+              <div class="form-error" id="api-keys-encryption-warning" style="display: none;">
+                No system keychain is available, so API keys can't be saved. Unlock or install a keyring, or set keys through environment variables.
+              </div>
             </div>
 
             <form id="global-api-form">
@@ -51,6 +75,7 @@ export class GlobalAPISettings {
                   <div class="key-input-group">
                     <input type="password" id="openai-key" name="openai_api_key" placeholder="sk-...">
                     <button type="button" class="btn btn-outline test-btn" data-provider="openai">Test</button>
+                    <button type="button" class="btn btn-outline remove-key-btn" data-provider="openai" style="display: none;">Remove</button>
                   </div>
                   <small class="form-hint">
                     Models: GPT-4, GPT-4 Turbo, GPT-3.5 Turbo
@@ -70,6 +95,7 @@ export class GlobalAPISettings {
                   <div class="key-input-group">
                     <input type="password" id="anthropic-key" name="anthropic_api_key" placeholder="sk-ant-...">
                     <button type="button" class="btn btn-outline test-btn" data-provider="anthropic">Test</button>
+                    <button type="button" class="btn btn-outline remove-key-btn" data-provider="anthropic" style="display: none;">Remove</button>
                   </div>
                   <small class="form-hint">
                     Models: Claude 3 Sonnet, Haiku, Opus
@@ -89,6 +115,7 @@ export class GlobalAPISettings {
                   <div class="key-input-group">
                     <input type="password" id="gemini-key" name="gemini_api_key" placeholder="AIza...">
                     <button type="button" class="btn btn-outline test-btn" data-provider="gemini">Test</button>
+                    <button type="button" class="btn btn-outline remove-key-btn" data-provider="gemini" style="display: none;">Remove</button>
                   </div>
                   <small class="form-hint">
                     Models: Gemini 1.5 Pro, Flash, Pro
@@ -116,6 +143,55 @@ export class GlobalAPISettings {
                 </div>
               </div>
 
+              <!-- OpenAI-Compatible Endpoint Section -->
+              <div class="provider-section">
+                <div class="provider-header">
+                  <h3>🔌 OpenAI-Compatible Endpoint</h3>
+                  <span class="provider-status" id="openai-compatible-status">Not configured</span>
+                </div>
+                <div class="form-group">
+                  <label for="compatible-url">Base URL</label>
+                  <div class="key-input-group">
+                    <input type="url" id="compatible-url" name="compatible_base_url" placeholder="http://localhost:8000/v1">
+                    <button type="button" class="btn btn-outline test-btn" data-provider="openai-compatible">Test</button>
+                  </div>
+                  <small class="form-hint">
+                    Any server implementing the OpenAI API: llama.cpp, vLLM, LM Studio, LocalAI. Models are listed from <code>/v1/models</code>.
+                  </small>
+                </div>
+                <div class="form-group">
+                  <label for="openai-compatible-key">API Key (optional)</label>
+                  <div class="key-input-group">
+                    <input type="password" id="openai-compatible-key" name="openai-compatible_api_key" placeholder="Optional">
+                    <button type="button" class="btn btn-outline remove-key-btn" data-provider="openai-compatible" style="display: none;">Remove</button>
+                  </div>
+                </div>
+                <div class="form-group">
+                  <label for="compatible-auth-header">Auth Header (optional)</label>
+                  <input type="text" id="compatible-auth-header" name="compatible_auth_header" placeholder="Authorization">
+                  <small class="form-hint">
+                    Leave blank to send the key as <code>Authorization: Bearer</code>. Set a header name such as <code>X-API-Key</code> to send the raw key there instead.
+                  </small>
+                </div>
+              </div>
+
+              <!-- Offline Demo Section -->
+              <div class="provider-section">
+                <div class="provider-header">
+                  <h3>🧪 Offline Demo</h3>
+                  <span class="provider-status" id="mock-status">Not configured</span>
+                </div>
+                <div class="form-group">
+                  <label class="checkbox-option" for="mock-enabled">
+                    <input type="checkbox" id="mock-enabled" name="mock_enabled">
+                    Offer the mock provider to agents
+                  </label>
+                  <small class="form-hint">
+                    Canned, repeatable responses for every agent - no API key or network needed. Use it to try the full workflow or to demo the app.
+                  </small>
+                </div>
+              </div>
+
               <div class="form-actions">
                 <button type="button" class="btn btn-secondary" id="cancel-api-settings">Cancel</button>
                 <button type="submit" class="btn btn-primary">Save API Keys</button>
@@ -150,24 +226,33 @@ export class GlobalAPISettings {
       });
     });
 
+    document.querySelectorAll('.remove-key-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const provider = (e.target as HTMLElement).dataset.provider as APIKeyProvider;
+        this.removeKey(provider);
+      });
+    });
+
     // Close on overlay click
     this.modal?.addEventListener('click', (e) => {
       if (e.target === this.modal) this.close();
     });
 
     // Real-time status updates
-    ['openai-key', 'anthropic-key', 'gemini-key', 'local-url'].forEach(id => {
+    ['openai-key', 'anthropic-key', 'gemini-key', 'local-url', 'compatible-url'].forEach(id => {
       document.getElementById(id)?.addEventListener('input', () => {
         this.updateProviderStatus();
       });
     });
+    document.getElementById('mock-enabled')?.addEventListener('change', () => this.updateProviderStatus());
   }
 
   /**
    * Open settings modal
    */
-  public open(): void {
+  public async open(): Promise<void> {
     if (this.modal) {
+      await GlobalAPISettings.refreshKeys();
       this.loadCurrentSettings();
       this.updateProviderStatus();
       this.modal.style.display = 'flex';
@@ -187,31 +272,51 @@ export class GlobalAPISettings {
   }
 
   /**
-   * Load current settings
+   * Load current settings. Stored keys are never sent back to the renderer, so their
+   * inputs stay empty and show the masked key instead.
    */
   private loadCurrentSettings(): void {
     const settings = GlobalAPISettings.getAPISettings();
-    if (!settings) return;
 
     const form = this.modal?.querySelector('#global-api-form') as HTMLFormElement;
     if (!form) return;
 
-    (form.querySelector('[name="openai_api_key"]') as HTMLInputElement).value = settings.openai_api_key || '';
-    (form.querySelector('[name="anthropic_api_key"]') as HTMLInputElement).value = settings.anthropic_api_key || '';
-    (form.querySelector('[name="gemini_api_key"]') as HTMLInputElement).value = settings.gemini_api_key || '';
-    (form.querySelector('[name="local_base_url"]') as HTMLInputElement).value = settings.local_base_url || 'http://localhost:11434';
+    KEY_PROVIDERS.forEach(provider => {
+      const input = form.querySelector(`[name="${provider}_api_key"]`) as HTMLInputElement;
+      const summary = settings?.keys?.[provider];
+      input.value = '';
+      input.placeholder = summary
+        ? `Saved: ${summary.masked}${summary.base_url ? ` for ${summary.base_url}` : ''}`
+        : KEY_PLACEHOLDERS[provider];
+
+      const removeBtn = form.querySelector(`.remove-key-btn[data-provider="${provider}"]`) as HTMLElement;
+      removeBtn.style.display = summary ? '' : 'none';
+    });
+    (form.querySelector('[name="local_base_url"]') as HTMLInputElement).value = settings?.local_base_url || 'http://localhost:11434';
+    (form.querySelector('[name="compatible_base_url"]') as HTMLInputElement).value = settings?.compatible_base_url || '';
+    (form.querySelector('[name="compatible_auth_header"]') as HTMLInputElement).value = settings?.compatible_auth_header || '';
+    (form.querySelector('[name="mock_enabled"]') as HTMLInputElement).checked = !!settings?.mock_enabled;
+
+    const warning = document.getElementById('api-keys-encryption-warning');
+    if (warning) {
+      warning.style.display = GlobalAPISettings.encryptionAvailable ? 'none' : 'block';
+    }
   }
 
   /**
    * Update provider status indicators
    */
   private updateProviderStatus(): void {
-    const settings = this.getCurrentFormData();
-    
-    this.updateStatusIndicator('openai', !!settings.openai_api_key);
-    this.updateStatusIndicator('anthropic', !!settings.anthropic_api_key);
-    this.updateStatusIndicator('gemini', !!settings.gemini_api_key);
-    this.updateStatusIndicator('local', !!settings.local_base_url);
+    const entered = this.getCurrentFormData();
+    const stored = GlobalAPISettings.getAPISettings()?.keys || {};
+
+    HOSTED_PROVIDERS.forEach(provider => {
+      this.updateStatusIndicator(provider, !!(entered.keys[provider] || stored[provider]));
+    });
+    this.updateStatusIndicator('local', !!entered.local_base_url);
+    // The endpoint's key is optional - many local servers don't check one
+    this.updateStatusIndicator('openai-compatible', !!entered.compatible_base_url);
+    this.updateStatusIndicator('mock', !!entered.mock_enabled);
   }
 
   /**
@@ -226,18 +331,25 @@ export class GlobalAPISettings {
   }
 
   /**
-   * Get current form data
+   * Get current form data - only keys typed in this session, not the saved ones
    */
-  private getCurrentFormData(): APIKeySettings {
+  private getCurrentFormData(): { keys: APIKeyInput } & Omit<APIKeySettings, 'keys'> {
     const form = this.modal?.querySelector('#global-api-form') as HTMLFormElement;
-    if (!form) return {};
+    if (!form) return { keys: {} };
 
     const formData = new FormData(form);
+    const keys: APIKeyInput = {};
+    KEY_PROVIDERS.forEach(provider => {
+      const value = (formData.get(`${provider}_api_key`) as string || '').trim();
+      if (value) keys[provider] = value;
+    });
+
     return {
-      openai_api_key: formData.get('openai_api_key') as string || undefined,
-      anthropic_api_key: formData.get('anthropic_api_key') as string || undefined,
-      gemini_api_key: formData.get('gemini_api_key') as string || undefined,
-      local_base_url: formData.get('local_base_url') as string || undefined
+      keys,
+      local_base_url: formData.get('local_base_url') as string || undefined,
+      compatible_base_url: (formData.get('compatible_base_url') as string || '').trim() || undefined,
+      compatible_auth_header: (formData.get('compatible_auth_header') as string || '').trim() || undefined,
+      mock_enabled: formData.get('mock_enabled') === 'on'
     };
   }
 
@@ -245,7 +357,7 @@ export class GlobalAPISettings {
    * Test connection for a provider
    */
   private async testConnection(provider: string): Promise<void> {
-    const testBtn = document.querySelector(`[data-provider="${provider}"]`) as HTMLButtonElement;
+    const testBtn = document.querySelector(`.test-btn[data-provider="${provider}"]`) as HTMLButtonElement;
     if (!testBtn) return;
 
     const originalText = testBtn.textContent;
@@ -254,13 +366,20 @@ export class GlobalAPISettings {
 
     try {
       const settings = this.getCurrentFormData();
+
+      if (provider === 'openai-compatible') {
+        await this.testCompatibleEndpoint(settings.compatible_base_url, settings.compatible_auth_header);
+        return;
+      }
       
       // Here we would test the actual API connection
       // For now, simulate the test
       await new Promise(resolve => setTimeout(resolve, 1500));
       
-      // Mock test success based on whether key is provided
-      const hasKey = this.getKeyForProvider(provider, settings);
+      // Mock test success based on whether a key is entered or saved
+      const hasKey = provider === 'local'
+        ? settings.local_base_url
+        : settings.keys[provider as APIKeyProvider] || GlobalAPISettings.getKeySummary(provider);
       
       if (hasKey) {
         this.showTestResult(provider, '✅ Connection successful!', true);
@@ -277,15 +396,23 @@ export class GlobalAPISettings {
   }
 
   /**
-   * Get API key for provider
+   * List the endpoint's models through the main process. Uses the saved key, so a newly
+   * typed key has to be saved before it is tested.
    */
-  private getKeyForProvider(provider: string, settings: APIKeySettings): string | undefined {
-    switch (provider) {
-      case 'openai': return settings.openai_api_key;
-      case 'anthropic': return settings.anthropic_api_key;
-      case 'gemini': return settings.gemini_api_key;
-      case 'local': return settings.local_base_url;
-      default: return undefined;
+  private async testCompatibleEndpoint(baseUrl?: string, authHeader?: string): Promise<void> {
+    if (!baseUrl) {
+      this.showTestResult('openai-compatible', '❌ Base URL required', false);
+      return;
+    }
+
+    await window.electronAPI.models.clearCache();
+    const result = await window.electronAPI.models.checkAvailability('openai-compatible', { baseUrl, authHeader });
+    const models = result.data?.models || [];
+
+    if (result.success) {
+      this.showTestResult('openai-compatible', `✅ Connected - ${models.length} model${models.length === 1 ? '' : 's'} available`, true);
+    } else {
+      this.showTestResult('openai-compatible', `❌ ${result.data?.error || result.error || 'Endpoint not reachable'}`, false);
     }
   }
 
@@ -311,17 +438,42 @@ export class GlobalAPISettings {
   }
 
   /**
-   * Handle form submission
+   * Handle form submission. New keys go to the main process to be encrypted;
+   * only their masked summaries come back.
    */
-  private handleSubmit(event: Event): void {
+  private async handleSubmit(event: Event): Promise<void> {
     event.preventDefault();
     
-    const settings = this.getCurrentFormData();
+    const formData = this.getCurrentFormData();
     
     try {
-      GlobalAPISettings.saveAPISettings(settings);
-      alert('✅ API keys saved successfully!\n\nYou can now configure individual agents to use these providers.');
-      this.close();
+      const errors: string[] = [];
+      for (const [provider, key] of Object.entries(formData.keys)) {
+        // The endpoint's key is bound to its base URL and never sent anywhere else
+        const baseUrl = provider === 'openai-compatible' ? formData.compatible_base_url : undefined;
+        const result = await window.electronAPI.apiKeys.setKey(provider, key!, baseUrl);
+        if (!result.success) {
+          errors.push(`${provider}: ${result.error}`);
+        }
+      }
+
+      GlobalAPISettings.saveAPISettings({
+        ...GlobalAPISettings.getAPISettings(),
+        local_base_url: formData.local_base_url,
+        compatible_base_url: formData.compatible_base_url,
+        compatible_auth_header: formData.compatible_auth_header,
+        mock_enabled: formData.mock_enabled
+      });
+      const settings = await GlobalAPISettings.refreshKeys();
+
+      if (errors.length > 0) {
+        alert(`❌ Some API keys could not be saved:\n\n${errors.join('\n')}`);
+        this.loadCurrentSettings();
+        this.updateProviderStatus();
+      } else {
+        alert('✅ API keys saved successfully!\n\nYou can now configure individual agents to use these providers.');
+        this.close();
+      }
       
       // Trigger event for other components
       window.dispatchEvent(new CustomEvent('apiSettingsUpdated', { detail: settings }));
@@ -332,6 +484,29 @@ export class GlobalAPISettings {
     }
   }
 
+  /**
+   * Delete a provider's saved key
+   */
+  private async removeKey(provider: APIKeyProvider): Promise<void> {
+    if (!confirm(`Remove the saved ${provider} API key? Agents using ${provider} will stop working until a new key is added.`)) return;
+
+    try {
+      const result = await window.electronAPI.apiKeys.deleteKey(provider);
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to remove API key'}`);
+        return;
+      }
+
+      const settings = await GlobalAPISettings.refreshKeys();
+      this.loadCurrentSettings();
+      this.updateProviderStatus();
+      window.dispatchEvent(new CustomEvent('apiSettingsUpdated', { detail: settings }));
+    } catch (error) {
+      console.error('Failed to remove API key:', error);
+      alert('❌ Failed to remove API key');
+    }
+  }
+
   /**
    * Clear form
    */
@@ -373,15 +548,7 @@ export class GlobalAPISettings {
    * Static method to check if any provider is configured
    */
   public static hasAnyProvider(): boolean {
-    const settings = GlobalAPISettings.getAPISettings();
-    if (!settings) return false;
-    
-    return !!(
-      settings.openai_api_key ||
-      settings.anthropic_api_key ||
-      settings.gemini_api_key ||
-      settings.local_base_url
-    );
+    return GlobalAPISettings.getAvailableProviders().length > 0;
   }
 
   /**
@@ -391,28 +558,145 @@ export class GlobalAPISettings {
     const settings = GlobalAPISettings.getAPISettings();
     if (!settings) return [];
 
-    const providers = [];
-    if (settings.openai_api_key) providers.push('openai');
-    if (settings.anthropic_api_key) providers.push('anthropic');
-    if (settings.gemini_api_key) providers.push('gemini');
+    const providers: string[] = HOSTED_PROVIDERS.filter(provider => settings.keys?.[provider]);
     if (settings.local_base_url) providers.push('local');
+    if (settings.compatible_base_url) providers.push('openai-compatible');
+    if (settings.mock_enabled) providers.push('mock');
     
     return providers;
   }
 
   /**
-   * Static method to get API key for provider
+   * Turn on the offline mock provider so agents can be pointed at it
    */
-  public static getAPIKeyForProvider(provider: string): string | null {
-    const settings = GlobalAPISettings.getAPISettings();
-    if (!settings) return null;
-
-    switch (provider) {
-      case 'openai': return settings.openai_api_key || null;
-      case 'anthropic': return settings.anthropic_api_key || null;
-      case 'gemini': return settings.gemini_api_key || null;
-      case 'local': return settings.local_base_url || null;
-      default: return null;
+  public static enableMockProvider(): void {
+    GlobalAPISettings.saveAPISettings({
+      ...GlobalAPISettings.getAPISettings(),
+      mock_enabled: true
+    });
+    window.dispatchEvent(new CustomEvent('apiSettingsUpdated', { detail: GlobalAPISettings.getAPISettings() }));
+  }
+
+  /**
+   * Static method to get the masked summary of a provider's saved key
+   */
+  public static getKeySummary(provider: string): APIKeySummary | null {
+    return GlobalAPISettings.getAPISettings()?.keys?.[provider as APIKeyProvider] || null;
+  }
+
+  /**
+   * Reload the saved key summaries from the main process
+   */
+  public static async refreshKeys(): Promise<APIKeySettings> {
+    const settings = GlobalAPISettings.getAPISettings() || {};
+
+    try {
+      const result = await window.electronAPI.apiKeys.getStatus();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      GlobalAPISettings.applyKeyStatus(settings, result.data);
+      GlobalAPISettings.saveAPISettings(settings);
+    } catch (error) {
+      console.error('Failed to load API key status:', error);
+    }
+    return settings;
+  }
+
+  /**
+   * Move plaintext keys left in localStorage by older versions into the main process's
+   * encrypted store, then strip them. Keys that fail to migrate are kept and retried next start.
+   */
+  public static async initialize(): Promise<void> {
+    try {
+      const legacy = GlobalAPISettings.findLegacyKeys();
+      if (Object.keys(legacy).length === 0) {
+        await GlobalAPISettings.refreshKeys();
+        return;
+      }
+
+      const result = await window.electronAPI.apiKeys.migrate(legacy, GlobalAPISettings.getAPISettings()?.compatible_base_url);
+      if (!result.success) {
+        console.error('Failed to migrate API keys:', result.error);
+      }
+      if (!result.data) return;
+
+      const status: APIKeyStoreStatus = result.data;
+      const migrated = new Set<string>(status.keys.map(key => key.provider));
+      GlobalAPISettings.stripLegacyKeys(migrated);
+
+      const settings = GlobalAPISettings.getAPISettings() || {};
+      GlobalAPISettings.applyKeyStatus(settings, status);
+      GlobalAPISettings.saveAPISettings(settings);
+      console.log(`Moved ${migrated.size} API key(s) into secure storage`);
+    } catch (error) {
+      console.error('Failed to initialize API key storage:', error);
+    }
+  }
+
+  private static applyKeyStatus(settings: APIKeySettings, status: APIKeyStoreStatus): void {
+    GlobalAPISettings.encryptionAvailable = status.encryption_available;
+    settings.keys = {};
+    status.keys.forEach(key => {
+      settings.keys![key.provider] = key;
+    });
+  }
+
+  /**
+   * Plaintext keys in global-api-settings, the older llm-settings and agent-configurations
+   */
+  private static findLegacyKeys(): APIKeyInput {
+    const keys: APIKeyInput = {};
+    const add = (provider: unknown, key: unknown) => {
+      if (KEY_PROVIDERS.includes(provider as APIKeyProvider) && typeof key === 'string' && key.trim() && !keys[provider as APIKeyProvider]) {
+        keys[provider as APIKeyProvider] = key.trim();
+      }
+    };
+
+    const global = GlobalAPISettings.readJSON(GlobalAPISettings.STORAGE_KEY);
+    KEY_PROVIDERS.forEach(provider => add(provider, global?.[`${provider}_api_key`]));
+
+    const llmSettings = GlobalAPISettings.readJSON('llm-settings');
+    add(llmSettings?.provider, llmSettings?.apiKey);
+
+    const agentConfigs = GlobalAPISettings.readJSON('agent-configurations');
+    Object.values(agentConfigs || {}).forEach((config: any) => add(config?.provider, config?.apiKey));
+
+    return keys;
+  }
+
+  private static stripLegacyKeys(migrated: Set<string>): void {
+    const global = GlobalAPISettings.readJSON(GlobalAPISettings.STORAGE_KEY);
+    if (global) {
+      KEY_PROVIDERS.forEach(provider => {
+        if (migrated.has(provider)) delete global[`${provider}_api_key`];
+      });
+      localStorage.setItem(GlobalAPISettings.STORAGE_KEY, JSON.stringify(global));
+    }
+
+    const llmSettings = GlobalAPISettings.readJSON('llm-settings');
+    if (llmSettings?.apiKey && migrated.has(llmSettings.provider)) {
+      delete llmSettings.apiKey;
+      localStorage.setItem('llm-settings', JSON.stringify(llmSettings));
+    }
+
+    const agentConfigs = GlobalAPISettings.readJSON('agent-configurations');
+    if (agentConfigs) {
+      Object.values(agentConfigs).forEach((config: any) => {
+        if (config?.apiKey && migrated.has(config.provider)) delete config.apiKey;
+      });
+      localStorage.setItem('agent-configurations', JSON.stringify(agentConfigs));
+    }
+  }
+
+  private static readJSON(storageKey: string): any {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error(`Failed to read ${storageKey}:`, error);
+      return null;
     }
   }
 }
@@ -1,6 +1,8 @@
 // LLM Settings Component
 // Allows users to configure their LLM API settings
 
+import { GlobalAPISettings } from './GlobalAPISettings.js';
+
 export class LLMSettings {
   private modal: HTMLElement | null = null;
   private isOpen = false;
@@ -173,6 +175,12 @@ export class LLMSettings {
     apiKeyGroup.style.display = (provider === 'openai' || provider === 'anthropic' || provider === 'gemini') ? 'block' : 'none';
     localConfig.style.display = provider === 'local' ? 'block' : 'none';
 
+    // Saved keys are never sent back to the renderer - show the masked value instead
+    const savedKey = GlobalAPISettings.getKeySummary(provider);
+    (document.getElementById('api-key') as HTMLInputElement).placeholder = savedKey
+      ? `Saved: ${savedKey.masked} (leave blank to keep)`
+      : 'Enter your API key...';
+
     // Update model options
     modelSelect.innerHTML = '<option value="">Auto-select best model</option>';
     
@@ -295,7 +303,7 @@ export class LLMSettings {
   /**
    * Handle form submission
    */
-  private handleSubmit(event: Event) {
+  private async handleSubmit(event: Event) {
     event.preventDefault();
     
     const form = event.target as HTMLFormElement;
@@ -314,14 +322,26 @@ export class LLMSettings {
       return;
     }
 
-    if ((settings.provider === 'openai' || settings.provider === 'anthropic' || settings.provider === 'gemini') && !settings.apiKey) {
+    const needsKey = settings.provider === 'openai' || settings.provider === 'anthropic' || settings.provider === 'gemini';
+    if (needsKey && !settings.apiKey && !GlobalAPISettings.getKeySummary(settings.provider as string)) {
       alert('Please enter your API key');
       return;
     }
 
-    // Save settings to localStorage (in production, this should be encrypted)
+    // The key goes to the main process's encrypted store; localStorage only keeps the provider and model
     try {
-      localStorage.setItem('llm-settings', JSON.stringify(settings));
+      if (needsKey && settings.apiKey) {
+        const result = await window.electronAPI.apiKeys.setKey(settings.provider as string, settings.apiKey as string);
+        if (!result.success) {
+          alert(`❌ ${result.error || 'Failed to save API key'}`);
+          return;
+        }
+        await GlobalAPISettings.refreshKeys();
+        window.dispatchEvent(new CustomEvent('apiSettingsUpdated'));
+      }
+
+      const { apiKey, ...storedSettings } = settings;
+      localStorage.setItem('llm-settings', JSON.stringify(storedSettings));
       alert('✅ Settings saved successfully! You can now use AI chat.');
       this.close();
       
@@ -356,9 +376,7 @@ export class LLMSettings {
       const config = JSON.parse(settings);
       return !!(config.provider && (
         config.provider === 'local' || 
-        (config.provider === 'openai' && config.apiKey) ||
-        (config.provider === 'anthropic' && config.apiKey) ||
-        (config.provider === 'gemini' && config.apiKey)
+        GlobalAPISettings.getKeySummary(config.provider)
       ));
     } catch {
       return false;
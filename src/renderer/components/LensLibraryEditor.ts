@@ -0,0 +1,385 @@
+// Lens Library Editor Component
+// Creates, edits, imports and exports the user-defined satirical lenses that projects can apply
+
+import { SatiricalContext, SatiricalLens, TerminologyGuidance } from '../../shared/types/index.js';
+import { EMPTY_CUSTOM_LENS, normalizeLens } from '../../shared/utils/lenses.js';
+import { SatiricalContextService } from '../../services/satirical-context.js';
+import { projectAccess } from './ProjectAccess.js';
+
+export interface LensLibraryEditorOptions {
+  selectedId?: string;
+  onChange?: (lenses: SatiricalLens[]) => void | Promise<void>; // After any save, delete or import
+}
+
+type LensListField = 'keyPrinciples' | 'commonTargets' | 'satiricalApproaches';
+
+export class LensLibraryEditor {
+  private options: LensLibraryEditorOptions | null = null;
+  private lenses: SatiricalLens[] = [];
+  private selectedId: string | null = null; // Null while drafting a new lens
+  private draft: SatiricalContext = this.blankLens();
+  private errors: string[] = [];
+
+  /**
+   * Open the library, editing the given lens or starting a new one
+   */
+  public async open(options: LensLibraryEditorOptions = {}): Promise<void> {
+    this.options = options;
+    await this.loadLenses();
+    if (!this.options) return;
+
+    this.select(options.selectedId && this.lenses.some(lens => lens.id === options.selectedId) ? options.selectedId : null);
+  }
+
+  /**
+   * Close the editor
+   */
+  public close(): void {
+    document.getElementById('lens-library-modal')?.remove();
+    this.options = null;
+    this.lenses = [];
+    this.errors = [];
+  }
+
+  private async loadLenses(): Promise<void> {
+    const result = await window.electronAPI.lenses.getAll();
+    if (!result.success) {
+      alert(`❌ Failed to load the lens library: ${result.error}`);
+      this.close();
+      return;
+    }
+    this.lenses = result.data || [];
+  }
+
+  private select(id: string | null): void {
+    const lens = this.lenses.find(entry => entry.id === id);
+    this.selectedId = lens?.id ?? null;
+    this.draft = lens ? this.copyLens(lens.context) : this.blankLens();
+    this.errors = [];
+    this.render();
+  }
+
+  private render(): void {
+    const selected = this.lenses.find(lens => lens.id === this.selectedId);
+    const ownLens = this.isOwnLens(selected);
+
+    document.getElementById('lens-library-modal')?.remove();
+    document.body.insertAdjacentHTML('beforeend', `
+      <div id="lens-library-modal" class="modal-overlay" style="display: flex;">
+        <div class="modal-content lens-library-modal">
+          <div class="modal-header">
+            <h2>🎯 Satirical Lens Library</h2>
+            <button class="modal-close" id="close-lens-library">&times;</button>
+          </div>
+
+          <div class="lens-library-body">
+            <div class="lens-library-sidebar">
+              <div class="lens-library-actions">
+                <button type="button" class="btn btn-outline btn-sm" id="lens-new-btn">＋ New</button>
+                <button type="button" class="btn btn-outline btn-sm" id="lens-import-btn">📥 Import</button>
+              </div>
+              ${this.lenses.length === 0 ? `
+                <p class="form-hint">No custom lenses yet. Write one or import a lens file.</p>
+              ` : `
+                <ul class="lens-library-list">
+                  ${this.lenses.map(lens => `
+                    <li class="lens-library-item ${lens.id === this.selectedId ? 'selected' : ''}" data-lens-id="${lens.id}">
+                      <strong>${this.escapeHtml(lens.context.name)}</strong>
+                      ${lens.context.description ? `<small>${this.escapeHtml(lens.context.description)}</small>` : ''}
+                    </li>
+                  `).join('')}
+                </ul>
+              `}
+            </div>
+
+            <form id="lens-editor-form" class="lens-editor-form">
+              <div class="lens-editor-heading">
+                <h3>${selected ? this.escapeHtml(selected.context.name) : 'New lens'}</h3>
+                <label class="lens-start-from">Start from
+                  <select id="lens-start-from">
+                    <option value="">Choose a predefined lens...</option>
+                    ${SatiricalContextService.getPredefinedContexts().map(context => `
+                      <option value="${context.type}">${this.escapeHtml(context.name)}</option>
+                    `).join('')}
+                  </select>
+                </label>
+              </div>
+
+              ${!ownLens ? `
+                <p class="form-hint">Only the author of this lens can change it. Saving keeps your edits as a new lens.</p>
+              ` : ''}
+
+              ${this.errors.length > 0 ? `
+                <ul class="lens-editor-errors">
+                  ${this.errors.map(error => `<li>${this.escapeHtml(error)}</li>`).join('')}
+                </ul>
+              ` : ''}
+
+              <div class="form-group">
+                <label for="lens-name">Name *</label>
+                <input type="text" id="lens-name" value="${this.escapeHtml(this.draft.name)}" placeholder="e.g. Housing Justice">
+              </div>
+
+              <div class="form-group">
+                <label for="lens-description">Description</label>
+                <textarea id="lens-description" rows="2" placeholder="What this perspective focuses on">${this.escapeHtml(this.draft.description)}</textarea>
+              </div>
+
+              <div class="form-group">
+                <label for="lens-ethical-framework">Ethical Framework *</label>
+                <textarea id="lens-ethical-framework" rows="3" placeholder="The values the satire argues from">${this.escapeHtml(this.draft.ethicalFramework)}</textarea>
+              </div>
+
+              ${this.renderListField('keyPrinciples', 'Key Principles *', 'One principle per line')}
+              ${this.renderListField('commonTargets', 'Common Targets', 'One target per line, e.g. the people, companies or ideas the satire aims at')}
+              ${this.renderListField('satiricalApproaches', 'Satirical Approaches *', 'One approach per line')}
+
+              <div class="form-group">
+                <label>Terminology</label>
+                <small class="form-hint">Terms the lens avoids and what to say instead. Separate alternatives with "or".</small>
+                <table class="lens-terminology-table">
+                  <thead>
+                    <tr><th>Avoid</th><th>Prefer</th><th>Reason</th><th></th></tr>
+                  </thead>
+                  <tbody>
+                    ${this.draft.preferredTerminology.map((row, index) => `
+                      <tr>
+                        <td><input type="text" data-term-index="${index}" data-term-field="avoid" value="${this.escapeHtml(row.avoid)}"></td>
+                        <td><input type="text" data-term-index="${index}" data-term-field="prefer" value="${this.escapeHtml(row.prefer)}"></td>
+                        <td><input type="text" data-term-index="${index}" data-term-field="reason" value="${this.escapeHtml(row.reason)}"></td>
+                        <td><button type="button" class="btn btn-outline btn-sm" data-remove-term="${index}" title="Remove term">✕</button></td>
+                      </tr>
+                    `).join('')}
+                  </tbody>
+                </table>
+                <button type="button" class="btn btn-outline btn-sm" id="lens-add-term-btn">＋ Add term</button>
+              </div>
+
+              <div class="form-actions">
+                <button type="submit" class="btn btn-primary">💾 ${ownLens ? 'Save Lens' : 'Save as New Lens'}</button>
+                ${selected ? `
+                  <button type="button" class="btn btn-outline" id="lens-export-btn">📤 Export</button>
+                  ${ownLens ? '<button type="button" class="btn btn-outline btn-danger" id="lens-delete-btn">🗑️ Delete</button>' : ''}
+                ` : ''}
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    `);
+
+    this.setupEventHandlers();
+  }
+
+  private renderListField(field: LensListField, label: string, hint: string): string {
+    const id = `lens-${field}`;
+    return `
+      <div class="form-group">
+        <label for="${id}">${label}</label>
+        <textarea id="${id}" rows="4" placeholder="${hint}">${this.escapeHtml(this.draft[field].join('\n'))}</textarea>
+      </div>
+    `;
+  }
+
+  private setupEventHandlers(): void {
+    const modal = document.getElementById('lens-library-modal');
+    if (!modal) return;
+
+    document.getElementById('close-lens-library')?.addEventListener('click', () => this.close());
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) this.close();
+    });
+
+    modal.querySelectorAll('[data-lens-id]').forEach(item => {
+      item.addEventListener('click', () => this.select(item.getAttribute('data-lens-id')));
+    });
+
+    document.getElementById('lens-new-btn')?.addEventListener('click', () => this.select(null));
+    document.getElementById('lens-import-btn')?.addEventListener('click', () => this.importLens());
+
+    document.getElementById('lens-start-from')?.addEventListener('change', (e) => {
+      const predefined = SatiricalContextService.getContextByType((e.target as HTMLSelectElement).value as SatiricalContext['type']);
+      if (!predefined) return;
+      if (this.hasContent(this.readForm()) && !confirm(`Replace the lens being edited with a copy of "${predefined.name}"?`)) {
+        (e.target as HTMLSelectElement).value = '';
+        return;
+      }
+
+      this.draft = { ...this.copyLens(predefined), type: 'CUSTOM', name: `${predefined.name} (custom)` };
+      this.errors = [];
+      this.render();
+    });
+
+    document.getElementById('lens-add-term-btn')?.addEventListener('click', () => {
+      this.draft = this.readForm();
+      this.draft.preferredTerminology.push({ avoid: '', prefer: '', reason: '' });
+      this.render();
+      document.querySelector<HTMLInputElement>(`[data-term-index="${this.draft.preferredTerminology.length - 1}"][data-term-field="avoid"]`)?.focus();
+    });
+
+    modal.querySelectorAll('[data-remove-term]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.draft = this.readForm();
+        this.draft.preferredTerminology.splice(parseInt(button.getAttribute('data-remove-term')!, 10), 1);
+        this.render();
+      });
+    });
+
+    document.getElementById('lens-editor-form')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.saveLens();
+    });
+    document.getElementById('lens-export-btn')?.addEventListener('click', () => this.exportLens());
+    document.getElementById('lens-delete-btn')?.addEventListener('click', () => this.deleteLens());
+  }
+
+  /**
+   * The lens as currently typed, blank terminology rows included so they survive a re-render
+   */
+  private readForm(): SatiricalContext {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null)?.value ?? '';
+    const lines = (field: LensListField) => value(`lens-${field}`).split('\n');
+
+    const terminology: TerminologyGuidance[] = this.draft.preferredTerminology.map((_, index) => {
+      const term = (field: keyof TerminologyGuidance) =>
+        document.querySelector<HTMLInputElement>(`[data-term-index="${index}"][data-term-field="${field}"]`)?.value ?? '';
+      return { avoid: term('avoid'), prefer: term('prefer'), reason: term('reason') };
+    });
+
+    return {
+      type: 'CUSTOM',
+      name: value('lens-name'),
+      description: value('lens-description'),
+      ethicalFramework: value('lens-ethical-framework'),
+      keyPrinciples: lines('keyPrinciples'),
+      commonTargets: lines('commonTargets'),
+      preferredTerminology: terminology,
+      satiricalApproaches: lines('satiricalApproaches')
+    };
+  }
+
+  private async saveLens(): Promise<void> {
+    this.draft = this.readForm();
+    const { lens, errors } = normalizeLens(this.draft);
+    if (errors.length > 0) {
+      this.errors = errors;
+      this.render();
+      return;
+    }
+
+    const selected = this.lenses.find(entry => entry.id === this.selectedId);
+    const id = selected && this.isOwnLens(selected) ? selected.id : null;
+
+    try {
+      const result = await window.electronAPI.lenses.save(id, lens);
+      if (!result.success) {
+        this.errors = [result.error || 'Failed to save lens'];
+        this.render();
+        return;
+      }
+
+      await this.reload(result.data.id);
+    } catch (error) {
+      console.error('Failed to save lens:', error);
+      alert('❌ Failed to save lens. Please try again.');
+    }
+  }
+
+  private async deleteLens(): Promise<void> {
+    const selected = this.lenses.find(lens => lens.id === this.selectedId);
+    if (!selected) return;
+    if (!confirm(`Delete "${selected.context.name}" from the library? Projects already using it keep their copy.`)) return;
+
+    try {
+      const result = await window.electronAPI.lenses.delete(selected.id);
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to delete lens'}`);
+        return;
+      }
+
+      await this.reload(null);
+    } catch (error) {
+      console.error('Failed to delete lens:', error);
+      alert('❌ Failed to delete lens. Please try again.');
+    }
+  }
+
+  private async exportLens(): Promise<void> {
+    if (!this.selectedId) return;
+
+    try {
+      const result = await window.electronAPI.lenses.export(this.selectedId);
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to export lens'}`);
+        return;
+      }
+      if (result.data) {
+        alert(`✅ Lens exported to ${result.data}`);
+      }
+    } catch (error) {
+      console.error('Failed to export lens:', error);
+      alert('❌ Failed to export lens. Please try again.');
+    }
+  }
+
+  private async importLens(): Promise<void> {
+    try {
+      const result = await window.electronAPI.lenses.import();
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to import lens'}`);
+        return;
+      }
+      if (result.data) {
+        await this.reload(result.data.id);
+      }
+    } catch (error) {
+      console.error('Failed to import lens:', error);
+      alert('❌ Failed to import lens. Please try again.');
+    }
+  }
+
+  /**
+   * Reload the library after a change, select a lens and let the opener refresh its own lens list
+   */
+  private async reload(selectedId: string | null): Promise<void> {
+    const onChange = this.options?.onChange;
+    await this.loadLenses();
+    if (!this.options) return;
+
+    this.select(selectedId);
+    await onChange?.(this.lenses);
+  }
+
+  private isOwnLens(lens: SatiricalLens | undefined): boolean {
+    return !lens?.created_by || lens.created_by === projectAccess.currentUserId();
+  }
+
+  private hasContent(lens: SatiricalContext): boolean {
+    const { lens: cleaned } = normalizeLens(lens);
+    return [cleaned.name, cleaned.description, cleaned.ethicalFramework].some(value => value.length > 0) ||
+      [cleaned.keyPrinciples, cleaned.commonTargets, cleaned.preferredTerminology, cleaned.satiricalApproaches].some(list => list.length > 0);
+  }
+
+  private blankLens(): SatiricalContext {
+    return this.copyLens(EMPTY_CUSTOM_LENS);
+  }
+
+  private copyLens(lens: SatiricalContext): SatiricalContext {
+    return {
+      ...lens,
+      keyPrinciples: [...lens.keyPrinciples],
+      commonTargets: [...lens.commonTargets],
+      preferredTerminology: lens.preferredTerminology.map(row => ({ ...row })),
+      satiricalApproaches: [...lens.satiricalApproaches]
+    };
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML.replace(/"/g, '&quot;'); // Also used inside attribute values
+  }
+}
+
+// Export singleton instance
+export const lensLibraryEditor = new LensLibraryEditor();
@@ -29,6 +29,7 @@ export class ModernAIChatInterface {
   private messagesContainer: HTMLElement | null = null;
   private inputContainer: HTMLElement | null = null;
   private isLoading = false;
+  private activeStreamId: string | null = null;
 
   constructor(containerId: string) {
     const container = document.getElementById(containerId);
@@ -242,6 +243,11 @@ export class ModernAIChatInterface {
               <path d="M2,21L23,12L2,3V10L17,12L2,14V21Z"/>
             </svg>
           </button>
+          <button class="send-btn stop-btn" id="stop-btn" title="Stop generating" style="display: none;">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+              <rect x="6" y="6" width="12" height="12" rx="2"/>
+            </svg>
+          </button>
         </div>
         <div class="input-hints">
           <span class="hint">Press Enter to send, Shift+Enter for new line</span>
@@ -308,6 +314,11 @@ export class ModernAIChatInterface {
       });
     });
 
+    // Stop a streaming response
+    document.getElementById('stop-btn')?.addEventListener('click', () => {
+      this.cancelResponse();
+    });
+
     // Header buttons
     document.getElementById('agent-settings-btn')?.addEventListener('click', () => {
       this.openAgentSettings();
@@ -411,81 +422,147 @@ export class ModernAIChatInterface {
   }
 
   /**
-   * Generate AI response
+   * Generate AI response, rendering tokens as they stream in
    */
   private async generateAIResponse(userMessage: string): Promise<void> {
     if (!this.currentSession) return;
 
-    console.log('DEBUG: Frontend generateAIResponse called');
-    console.log('DEBUG: Session ID:', this.currentSession.id);
-    console.log('DEBUG: Persona:', this.currentSession.persona);
-    console.log('DEBUG: User message:', userMessage);
-    console.log('DEBUG: Context:', this.currentSession.context);
+    const session = this.currentSession;
+    const streamId = `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    let streamingMessage = null as ChatMessage | null;
 
-    // Add typing indicator
+    // Typing indicator is shown until the first token arrives
     this.showTypingIndicator();
+    this.activeStreamId = streamId;
+    this.toggleStopButton(true);
 
     try {
-      console.log('DEBUG: Getting agent configuration from frontend...');
-      const agentConfig = AgentConfigService.getAgentConfig(this.currentSession.persona);
-      console.log('DEBUG: Frontend agentConfig:', agentConfig);
-      
-      console.log('DEBUG: About to call window.electronAPI.llm.generatePersonaResponse');
-      const result = await window.electronAPI.llm.generatePersonaResponse(
-        this.currentSession.id,
-        this.currentSession.persona,
+      const agentConfig = AgentConfigService.getAgentConfig(session.persona);
+
+      const result = await window.electronAPI.llm.streamPersonaResponse(
+        session.context.projectId,
+        streamId,
+        session.id,
+        session.persona,
         userMessage,
-        this.currentSession.context,
-        agentConfig
+        session.context,
+        agentConfig,
+        (token: string) => {
+          if (!streamingMessage) {
+            this.hideTypingIndicator();
+            streamingMessage = {
+              id: `msg_${Date.now()}`,
+              role: 'assistant',
+              content: '',
+              timestamp: new Date(),
+              persona: session.persona
+            };
+            session.messages.push(streamingMessage);
+            this.updateMessagesDisplay();
+          }
+
+          streamingMessage.content += token;
+          this.updateStreamingMessage(streamingMessage);
+        }
       );
-      console.log('DEBUG: Received result from IPC:', result);
 
-      // Remove typing indicator
       this.hideTypingIndicator();
 
-      if (result.success) {
-        const aiMessage: ChatMessage = {
-          id: `msg_${Date.now()}`,
-          role: 'assistant',
-          content: result.data,
-          timestamp: new Date(),
-          persona: this.currentSession.persona
-        };
-
-        this.currentSession.messages.push(aiMessage);
+      if (result.success || result.cancelled) {
+        const content = result.cancelled
+          ? `${result.data || ''}\\n\\n*Response stopped*`
+          : result.data;
+
+        if (streamingMessage) {
+          streamingMessage.content = content;
+        } else {
+          session.messages.push({
+            id: `msg_${Date.now()}`,
+            role: 'assistant',
+            content,
+            timestamp: new Date(),
+            persona: session.persona
+          });
+        }
         await this.updateMessagesDisplay();
       } else {
-        // Show error message
+        // Drop any partial output and show the error instead
+        session.messages = session.messages.filter(message => message !== streamingMessage);
+
         const errorMessage: ChatMessage = {
           id: `msg_${Date.now()}`,
           role: 'assistant',
           content: `❌ **Error**: ${result.error}\\n\\nPlease check your AI agent configuration and try again.`,
           timestamp: new Date(),
-          persona: this.currentSession.persona
+          persona: session.persona
         };
 
-        this.currentSession.messages.push(errorMessage);
+        session.messages.push(errorMessage);
         await this.updateMessagesDisplay();
       }
     } catch (error) {
       this.hideTypingIndicator();
       console.error('Failed to generate AI response:', error);
-      
+
+      session.messages = session.messages.filter(message => message !== streamingMessage);
+
       const errorMessage: ChatMessage = {
         id: `msg_${Date.now()}`,
         role: 'assistant',
         content: `❌ **Connection Error**: Failed to connect to AI service.\\n\\nPlease check your network connection and AI configuration.`,
         timestamp: new Date(),
-        persona: this.currentSession.persona
+        persona: session.persona
       };
 
-      this.currentSession.messages.push(errorMessage);
+      session.messages.push(errorMessage);
       await this.updateMessagesDisplay();
+    } finally {
+      this.activeStreamId = null;
+      this.toggleStopButton(false);
     }
 
     this.scrollToBottom();
   }
 
+  /**
+   * Cancel the response that is currently streaming
+   */
+  private async cancelResponse(): Promise<void> {
+    if (!this.activeStreamId) return;
+
+    try {
+      await window.electronAPI.llm.cancelStream(this.activeStreamId);
+    } catch (error) {
+      console.error('Failed to cancel AI response:', error);
+    }
+  }
+
+  /**
+   * Swap the send button for the stop button while a response is streaming
+   */
+  private toggleStopButton(streaming: boolean): void {
+    const sendBtn = document.getElementById('send-btn');
+    const stopBtn = document.getElementById('stop-btn');
+
+    if (sendBtn) sendBtn.style.display = streaming ? 'none' : '';
+    if (stopBtn) stopBtn.style.display = streaming ? '' : 'none';
+  }
+
+  /**
+   * Update the text of the message currently being streamed without re-rendering the list
+   */
+  private updateStreamingMessage(message: ChatMessage): void {
+    if (!this.messagesContainer) return;
+
+    const bubbles = this.messagesContainer.querySelectorAll('.chat-message.assistant .message-text');
+    const lastBubble = bubbles[bubbles.length - 1];
+    if (lastBubble) {
+      lastBubble.innerHTML = this.formatMessageContent(message.content);
+    }
+
+    this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+  }
+
   /**
    * Show typing indicator
    */
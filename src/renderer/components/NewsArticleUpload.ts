@@ -1,7 +1,10 @@
 // News Article Upload Component
 // Handles uploading and processing news articles for satirical video projects
 
-import { NewsArticle } from '../../shared/types/index.js';
+import { ArticleExtraction, NewsArticle } from '../../shared/types/index.js';
+
+const SUPPORTED_FILE_TYPES = ['.txt', '.pdf', '.docx', '.rtf', '.html', '.htm', '.md', '.markdown'];
+const PREVIEW_LENGTH = 1500;
 
 export class NewsArticleUpload {
   private modal: HTMLElement | null = null;
@@ -9,6 +12,8 @@ export class NewsArticleUpload {
   private currentProjectId: string | null = null;
   private isEditMode = false;
   private currentArticle: any = null;
+  private extraction: ArticleExtraction | null = null;
+  private extractionRequest = 0; // Ignore previews for files that have since been replaced
 
   constructor() {
     this.createModal();
@@ -52,7 +57,7 @@ export class NewsArticleUpload {
                 <label class="upload-method-option">
                   <input type="radio" name="upload-method" value="file" checked>
                   <span>Upload File</span>
-                  <small>Upload a text file, PDF, or Word document</small>
+                  <small>Upload a PDF, Word document, saved web page, Markdown, RTF or text file</small>
                 </label>
                 <label class="upload-method-option">
                   <input type="radio" name="upload-method" value="paste">
@@ -65,14 +70,14 @@ export class NewsArticleUpload {
             <div class="form-group" id="file-upload-section">
               <label for="article-file">Select File *</label>
               <div class="file-upload-area" id="file-drop-zone">
-                <input type="file" id="article-file" name="file" accept=".txt,.pdf,.doc,.docx,.rtf" style="display: none;">
+                <input type="file" id="article-file" name="file" accept="${SUPPORTED_FILE_TYPES.join(',')}" style="display: none;">
                 <div class="file-upload-placeholder">
                   <div class="file-upload-icon">📄</div>
                   <div class="file-upload-text">
                     <strong>Click to select</strong> or drag and drop a file here
                   </div>
                   <div class="file-upload-hint">
-                    Supported: .txt, .pdf, .doc, .docx, .rtf (max 10MB)
+                    Supported: .pdf, .docx, .html, .md, .rtf, .txt (max 10MB)
                   </div>
                 </div>
                 <div class="file-upload-selected" id="selected-file" style="display: none;">
@@ -89,6 +94,8 @@ export class NewsArticleUpload {
               <div class="form-error" id="article-file-error"></div>
             </div>
 
+            <div class="form-group article-extraction-preview" id="article-extraction-preview" style="display: none;"></div>
+
             <div class="form-group" id="text-paste-section" style="display: none;">
               <label for="article-content">Article Content *</label>
               <textarea id="article-content" name="content" rows="10" maxlength="50000" placeholder="Paste the full article text here..."></textarea>
@@ -199,7 +206,6 @@ export class NewsArticleUpload {
    */
   private handleFileSelection(file: File) {
     const maxSize = 10 * 1024 * 1024; // 10MB
-    const allowedTypes = ['.txt', '.pdf', '.doc', '.docx', '.rtf'];
     
     // Validate file size
     if (file.size > maxSize) {
@@ -209,8 +215,12 @@ export class NewsArticleUpload {
 
     // Validate file type
     const fileExt = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (!allowedTypes.includes(fileExt)) {
-      this.showFileError('Please select a supported file type (.txt, .pdf, .doc, .docx, .rtf)');
+    if (fileExt === '.doc') {
+      this.showFileError('Legacy .doc files are not supported. Save the document as .docx and try again.');
+      return;
+    }
+    if (!SUPPORTED_FILE_TYPES.includes(fileExt)) {
+      this.showFileError('Please select a supported file type (.pdf, .docx, .html, .md, .rtf, .txt)');
       return;
     }
 
@@ -219,6 +229,93 @@ export class NewsArticleUpload {
 
     // Show selected file info
     this.displaySelectedFile(file);
+
+    this.previewExtraction(file);
+  }
+
+  /**
+   * Extract the file in the main process and show what will be saved
+   */
+  private async previewExtraction(file: File): Promise<void> {
+    const request = ++this.extractionRequest;
+    this.extraction = null;
+    this.renderExtractionPreview('loading');
+
+    try {
+      const result = await window.electronAPI.database.extractNewsArticleFile({
+        fileName: file.name,
+        fileData: await this.fileToBase64(file),
+        fileType: file.type
+      });
+      if (request !== this.extractionRequest) return;
+
+      if (!result.success) {
+        this.renderExtractionPreview('hidden');
+        this.showFileError(result.error || 'Could not read this file');
+        return;
+      }
+
+      this.extraction = result.data as ArticleExtraction;
+      this.renderExtractionPreview('ready');
+
+      // Offer the extracted headline as the title if the user hasn't typed one
+      const titleInput = document.getElementById('article-title') as HTMLInputElement;
+      if (titleInput && !titleInput.value.trim() && this.extraction.headline) {
+        titleInput.value = this.extraction.headline.substring(0, 200);
+        this.validateTitle();
+      }
+    } catch (error) {
+      console.error('Article extraction failed:', error);
+      if (request === this.extractionRequest) {
+        this.renderExtractionPreview('hidden');
+        this.showFileError('Could not read this file');
+      }
+    }
+  }
+
+  /**
+   * Render the extraction preview with editable headline, byline and publication date
+   */
+  private renderExtractionPreview(state: 'hidden' | 'loading' | 'ready'): void {
+    const container = document.getElementById('article-extraction-preview');
+    if (!container) return;
+
+    if (state === 'hidden') {
+      container.style.display = 'none';
+      container.innerHTML = '';
+      return;
+    }
+
+    container.style.display = 'block';
+    if (state === 'loading' || !this.extraction) {
+      container.innerHTML = `<label>Extraction Preview</label><div class="extraction-loading">⏳ Extracting article text...</div>`;
+      return;
+    }
+
+    const { format, text, headline, byline, published_date, word_count, warnings } = this.extraction;
+    const publishedValue = published_date ? new Date(published_date).toISOString().substring(0, 10) : '';
+    const excerpt = text.length > PREVIEW_LENGTH ? text.substring(0, PREVIEW_LENGTH) + '…' : text;
+
+    container.innerHTML = `
+      <label>Extraction Preview <span class="extraction-meta">${format} · ${word_count.toLocaleString()} words</span></label>
+      <div class="extraction-fields">
+        <div class="form-group">
+          <label for="article-headline">Headline</label>
+          <input type="text" id="article-headline" maxlength="300" value="${this.escapeAttribute(headline || '')}">
+        </div>
+        <div class="form-group">
+          <label for="article-byline">Byline</label>
+          <input type="text" id="article-byline" maxlength="200" value="${this.escapeAttribute(byline || '')}">
+        </div>
+        <div class="form-group">
+          <label for="article-published-date">Published</label>
+          <input type="date" id="article-published-date" value="${publishedValue}">
+        </div>
+      </div>
+      ${warnings.length > 0 ? `<ul class="extraction-warnings">${warnings.map(w => `<li>⚠️ ${this.escapeHtml(w)}</li>`).join('')}</ul>` : ''}
+      <pre class="extraction-text">${this.escapeHtml(excerpt) || '<em>No text extracted</em>'}</pre>
+      <small class="form-hint">Navigation, adverts and other page furniture have been removed. Correct the details above before saving if needed.</small>
+    `;
   }
 
   /**
@@ -256,6 +353,9 @@ export class NewsArticleUpload {
     fileInput.value = '';
     
     this.clearFileError();
+    this.extractionRequest++;
+    this.extraction = null;
+    this.renderExtractionPreview('hidden');
   }
 
   /**
@@ -448,6 +548,14 @@ export class NewsArticleUpload {
         this.showFileError('Please select a file to upload');
         return;
       }
+      if (!this.extraction) {
+        this.showFileError('Wait for the extraction preview to finish before uploading');
+        return;
+      }
+      if (this.extraction.text.length === 0) {
+        this.showFileError('No article text could be extracted from this file');
+        return;
+      }
       contentValid = true;
       // File content will be processed by the main process
     } else {
@@ -483,8 +591,7 @@ export class NewsArticleUpload {
       url: urlInput.value.trim() || undefined,
       content: articleContent || undefined,
       processing_notes: notesInput.value.trim() || undefined,
-      project_id: this.currentProjectId,
-      uploaded_by: 'temp-user-id' // TODO: Get from session
+      project_id: this.currentProjectId
     };
 
     try {
@@ -515,12 +622,16 @@ export class NewsArticleUpload {
         // Convert file to base64 for IPC transport
         const fileData = await this.fileToBase64(file);
         
-        // @ts-ignore
+        const readPreviewField = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value.trim() || undefined;
+
         result = await window.electronAPI.database.uploadNewsArticleFile({
           ...articleData,
           fileName: file.name,
           fileData: fileData,
-          fileType: file.type || 'text/plain'
+          fileType: file.type,
+          headline: readPreviewField('article-headline'),
+          byline: readPreviewField('article-byline'),
+          published_date: readPreviewField('article-published-date')
         });
       } else {
         // Handle text paste for new articles
@@ -567,6 +678,16 @@ export class NewsArticleUpload {
     });
   }
 
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  private escapeAttribute(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;');
+  }
+
   /**
    * Format file size for display
    */
@@ -0,0 +1,113 @@
+// Project Access
+// Tracks the signed-in user and their role on the open project, and hides the actions that role can't perform
+
+import { ProjectAccess, ProjectPermission, User } from '../../shared/types/index.js';
+import { PROJECT_ROLE_LABELS } from '../../shared/utils/permissions.js';
+
+export class ProjectAccessControl {
+  private user: User | null = null;
+  private access: ProjectAccess | null = null;
+  private observer: MutationObserver | null = null;
+
+  /**
+   * Load the signed-in user
+   */
+  public async loadSession(): Promise<User | null> {
+    try {
+      const result = await window.electronAPI.database.getSession();
+      this.user = result.success ? result.data : null;
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      this.user = null;
+    }
+    return this.user;
+  }
+
+  /**
+   * Load the signed-in user's role on a project and apply it to the page
+   */
+  public async load(projectId: string): Promise<ProjectAccess | null> {
+    try {
+      const result = await window.electronAPI.database.getProjectAccess(projectId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      this.access = result.data;
+      this.user = result.data.user;
+    } catch (error) {
+      console.error('Failed to load project access:', error);
+      this.access = { project_id: projectId, user: this.user, role: null, permissions: [] };
+    }
+
+    this.observe();
+    this.apply(document.body);
+    return this.access;
+  }
+
+  /**
+   * Forget the project's access, e.g. when leaving its workspace
+   */
+  public clear(): void {
+    this.access = null;
+    this.apply(document.body);
+  }
+
+  public get currentUser(): User | null {
+    return this.user;
+  }
+
+  public currentUserId(): string | null {
+    return this.user?.id ?? null;
+  }
+
+  /**
+   * Whether the signed-in user may perform an action on the open project.
+   * Outside a project nothing is hidden; the main process still checks every change.
+   */
+  public can(permission: ProjectPermission): boolean {
+    return !this.access || this.access.permissions.includes(permission);
+  }
+
+  /**
+   * The signed-in user's role on the open project, e.g. "Writer"
+   */
+  public roleLabel(): string {
+    if (!this.access) return '';
+    return this.access.role ? PROJECT_ROLE_LABELS[this.access.role] : 'Not a member';
+  }
+
+  /**
+   * Hide elements marked with data-permission that the user's role doesn't allow
+   */
+  private apply(root: Element): void {
+    const elements = [
+      ...(root.matches('[data-permission]') ? [root] : []),
+      ...Array.from(root.querySelectorAll('[data-permission]'))
+    ];
+
+    elements.forEach(element => {
+      const permission = element.getAttribute('data-permission') as ProjectPermission;
+      element.classList.toggle('permission-hidden', !this.can(permission));
+    });
+  }
+
+  /**
+   * Components re-render their HTML often, so new elements are checked as they're added
+   */
+  private observe(): void {
+    if (this.observer) return;
+
+    this.observer = new MutationObserver(mutations => {
+      mutations.forEach(mutation => {
+        mutation.addedNodes.forEach(node => {
+          if (node instanceof Element) this.apply(node);
+        });
+      });
+    });
+    this.observer.observe(document.body, { childList: true, subtree: true });
+  }
+}
+
+// Export singleton instance
+export const projectAccess = new ProjectAccessControl();
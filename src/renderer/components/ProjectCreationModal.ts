@@ -239,8 +239,7 @@ export class ProjectCreationModal {
     const projectData = {
       name: nameInput.value.trim(),
       description: descriptionInput.value.trim() || undefined,
-      status: 'ACTIVE' as const,
-      created_by: 'temp-user-id', // TODO: Get from session in Phase 1
+      status: 'ACTIVE' as const, // The main process records the signed-in user as creator
       assigned_personas: selectedPersonas
     };
 
@@ -1,7 +1,14 @@
 // Project Overview Dashboard Component
 // Provides analytics, progress tracking, and project insights
 
-import { Project, NewsArticle, PersonaType, SatiricalContextType, SatiricalFormat } from '../../shared/types/index.js';
+import { Project, NewsArticle, PersonaType, SatiricalContext, SatiricalContextType, SatiricalFormat, SatiricalLens, CommentThread, User, ProjectMember, ProjectRole, WorkflowProgress } from '../../shared/types/index.js';
+import { COMMENT_TARGET_LABELS, describeCommentAnchor } from '../../shared/utils/comments.js';
+import { PROJECT_ROLES, PROJECT_ROLE_LABELS } from '../../shared/utils/permissions.js';
+import { WORKFLOW_STATUS_ICONS, WORKFLOW_STATUS_LABELS, firstGateIssue } from '../../shared/utils/workflow.js';
+import { SatiricalContextService } from '../../services/satirical-context.js';
+import { commentsPanel } from './CommentsPanel.js';
+import { lensLibraryEditor } from './LensLibraryEditor.js';
+import { projectAccess } from './ProjectAccess.js';
 
 interface ProjectStats {
   totalArticles: number;
@@ -14,6 +21,9 @@ interface ProjectStats {
 export class ProjectDashboard {
   private currentProject: Project | null = null;
   private projectStats: ProjectStats | null = null;
+  private workflow: WorkflowProgress | null = null; // Persisted stage progress from the main process
+  private commentsMentionFilter = ''; // User ID whose mentions the comments inbox is narrowed to
+  private customLenses: SatiricalLens[] = []; // The user-defined lens library
 
   /**
    * Initialize dashboard for a project
@@ -47,12 +57,15 @@ export class ProjectDashboard {
       // @ts-ignore
       const articlesResult = await window.electronAPI.database.getNewsArticlesByProject(projectId);
       const articles: NewsArticle[] = articlesResult.success ? articlesResult.data : [];
+
+      const workflowResult = await window.electronAPI.workflow.getProgress(projectId);
+      this.workflow = workflowResult.success ? workflowResult.data : null;
       
       // Calculate stats
       const stats: ProjectStats = {
         totalArticles: articles.length,
-        completedPhases: this.calculateCompletedPhases(),
-        totalPhases: 7, // Total modules in the pipeline
+        completedPhases: this.workflow?.completed_count || 0,
+        totalPhases: this.workflow?.stages.length || 0,
         lastActivity: this.getLastActivity(articles),
         assignedPersonas: this.currentProject?.assigned_personas || []
       };
@@ -60,40 +73,17 @@ export class ProjectDashboard {
       this.projectStats = stats;
     } catch (error) {
       console.error('Failed to calculate project stats:', error);
+      this.workflow = null;
       this.projectStats = {
         totalArticles: 0,
         completedPhases: 0,
-        totalPhases: 7,
+        totalPhases: 0,
         lastActivity: new Date(),
         assignedPersonas: []
       };
     }
   }
 
-  /**
-   * Calculate completed phases based on project content
-   */
-  private calculateCompletedPhases(): number {
-    // For Phase 1, we only have Module 1 completed
-    // In future phases, this will check for actual completion status
-    let completed = 0;
-    
-    // Phase 1: Project Management & News Article Ingestion
-    if (this.projectStats && this.projectStats.totalArticles > 0) {
-      completed = 1;
-    }
-    
-    // Future phases would check for:
-    // - Creative Strategy completion
-    // - Script development completion
-    // - Storyboard completion
-    // - Sound design completion
-    // - Shot brief completion
-    // - Prompt generation completion
-    
-    return completed;
-  }
-
   /**
    * Get last activity date from articles
    */
@@ -116,7 +106,9 @@ export class ProjectDashboard {
     const container = this.getDashboardContainer();
     if (!container || !this.currentProject || !this.projectStats) return;
 
-    const progressPercentage = (this.projectStats.completedPhases / this.projectStats.totalPhases) * 100;
+    const progressPercentage = this.projectStats.totalPhases > 0
+      ? (this.projectStats.completedPhases / this.projectStats.totalPhases) * 100
+      : 0;
     
     container.innerHTML = `
       <div class="project-dashboard">
@@ -138,7 +130,7 @@ export class ProjectDashboard {
             </div>
           </div>
           <div class="project-actions">
-            <button class="btn btn-primary dashboard-action" data-action="upload-article">
+            <button class="btn btn-primary dashboard-action" data-action="upload-article" data-permission="articles:edit">
               📰 Upload Article
             </button>
             <button class="btn btn-secondary dashboard-action" data-action="view-articles">
@@ -154,15 +146,13 @@ export class ProjectDashboard {
           <div id="current-lens-display">
             <!-- Current lens will be displayed here -->
           </div>
-          <div class="lens-selector">
+          <div class="lens-selector" data-permission="project:manage">
             <select id="project-satirical-lens-select" class="form-control">
               <option value="">Choose satirical perspective...</option>
-              <option value="ANIMAL_LIBERATION">🐾 Animal Liberation & Vegan Ethics</option>
-              <option value="ENVIRONMENTAL">🌍 Environmental Justice & Climate Action</option>
-              <option value="GENERAL">💭 General Satirical Perspective</option>
             </select>
             <button type="button" id="apply-lens-btn" class="btn btn-primary">Apply Lens</button>
           </div>
+          <button type="button" id="manage-lenses-btn" class="btn btn-outline btn-sm">📚 Manage Custom Lenses</button>
           <div id="lens-description" class="lens-description" style="display: none;">
             <!-- Lens description will be populated here -->
           </div>
@@ -175,7 +165,7 @@ export class ProjectDashboard {
           <div id="current-format-display">
             <!-- Current format will be displayed here -->
           </div>
-          <div class="format-selector">
+          <div class="format-selector" data-permission="project:manage">
             <select id="project-satirical-format-select" class="form-control">
               <option value="">Choose video format...</option>
               <option value="NEWS_PARODY">📺 News Parody (BBC/ABC serious news style)</option>
@@ -251,6 +241,28 @@ export class ProjectDashboard {
           </div>
         </div>
 
+        <!-- Project Team -->
+        <div class="project-team-section">
+          <h3>👥 Project Team</h3>
+          <p>Each member's role decides what they can change in this project</p>
+          <div id="project-team-container">
+            <!-- Members will be loaded here -->
+          </div>
+        </div>
+
+        <!-- Open Comments Inbox -->
+        <div class="comments-inbox-section">
+          <div class="comments-inbox-header">
+            <h3>💬 Open Comments</h3>
+            <select id="comments-mention-filter" class="form-control comments-inbox-filter">
+              <option value="">All open comments</option>
+            </select>
+          </div>
+          <div class="comments-inbox" id="comments-inbox-container">
+            <!-- Open comment threads will be loaded here -->
+          </div>
+        </div>
+
         <!-- Recent Activity -->
         <div class="activity-section">
           <h3>Recent Activity</h3>
@@ -263,25 +275,25 @@ export class ProjectDashboard {
         <div class="quick-actions-section">
           <h3>Quick Actions</h3>
           <div class="quick-actions-grid">
-            <button class="quick-action-btn" data-action="upload-article">
+            <button class="quick-action-btn" data-action="upload-article" data-permission="articles:edit">
               <div class="action-icon">📰</div>
               <div class="action-title">Upload News Article</div>
               <div class="action-description">Add source material for satirical content</div>
             </button>
             
-            <button class="quick-action-btn" data-action="create-strategy">
+            <button class="quick-action-btn" data-action="create-strategy" data-permission="strategy:edit">
               <div class="action-icon">🎯</div>
               <div class="action-title">Create Strategy</div>
               <div class="action-description">Develop creative direction</div>
             </button>
             
-            <button class="quick-action-btn" data-action="develop-script">
+            <button class="quick-action-btn" data-action="develop-script" data-permission="script:edit">
               <div class="action-icon">📝</div>
               <div class="action-title">Develop Script</div>
               <div class="action-description">Write your satirical script</div>
             </button>
             
-            <button class="quick-action-btn disabled" data-action="create-storyboard">
+            <button class="quick-action-btn disabled" data-action="create-storyboard" data-permission="storyboard:edit">
               <div class="action-icon">🎬</div>
               <div class="action-title">Create Storyboard</div>
               <div class="action-description">Design visual sequences (Module 4)</div>
@@ -293,9 +305,225 @@ export class ProjectDashboard {
 
     this.setupEventListeners();
     
-    // Load activity feed and phase checklist asynchronously
+    // Load activity feed, phase checklist, team and comments inbox asynchronously
     this.loadActivityFeed();
     this.loadPhaseChecklist();
+    this.loadProjectTeam();
+    this.loadCommentsInbox();
+  }
+
+  /**
+   * Load the project's members. Directors can add members, change roles and remove members.
+   */
+  private async loadProjectTeam(): Promise<void> {
+    const container = document.getElementById('project-team-container');
+    if (!container || !this.currentProject) return;
+
+    try {
+      const [membersResult, usersResult] = await Promise.all([
+        window.electronAPI.database.getProjectMembers(this.currentProject.id),
+        window.electronAPI.database.getUsers()
+      ]);
+      if (!membersResult.success) {
+        throw new Error(membersResult.error);
+      }
+
+      const members: ProjectMember[] = membersResult.data || [];
+      const users: User[] = usersResult.success ? usersResult.data : [];
+      const candidates = users.filter(user => !members.some(member => member.user_id === user.id));
+      const canManage = projectAccess.can('project:manage');
+      const roleOptions = (selected?: ProjectRole) => PROJECT_ROLES.map(role => `
+        <option value="${role}" ${role === selected ? 'selected' : ''}>${PROJECT_ROLE_LABELS[role]}</option>
+      `).join('');
+
+      container.innerHTML = `
+        <div class="project-team">
+          ${members.length === 0 ? '<p class="form-hint">No members yet.</p>' : members.map(member => `
+            <div class="project-team-member">
+              <div class="project-team-user">
+                <strong>${this.escapeHtml(member.user?.name || member.user_id)}${member.user_id === projectAccess.currentUserId() ? ' (me)' : ''}</strong>
+                ${member.user ? `<small>${this.escapeHtml(member.user.email)}</small>` : ''}
+              </div>
+              ${canManage ? `
+                <select class="form-control project-team-role" data-member-role="${member.user_id}">
+                  ${roleOptions(member.role)}
+                </select>
+                <button type="button" class="btn btn-outline btn-sm" data-remove-member="${member.user_id}">Remove</button>
+              ` : `
+                <span class="project-role-badge ${member.role.toLowerCase()}">${PROJECT_ROLE_LABELS[member.role]}</span>
+              `}
+            </div>
+          `).join('')}
+        </div>
+
+        ${canManage && candidates.length > 0 ? `
+          <div class="project-team-add">
+            <select id="project-team-new-user" class="form-control">
+              <option value="">Add a teammate...</option>
+              ${candidates.map(user => `<option value="${user.id}">${this.escapeHtml(user.name)} (${this.escapeHtml(user.email)})</option>`).join('')}
+            </select>
+            <select id="project-team-new-role" class="form-control">
+              ${roleOptions('VIEWER')}
+            </select>
+            <button type="button" id="project-team-add-btn" class="btn btn-primary btn-sm">Add</button>
+          </div>
+        ` : ''}
+      `;
+
+      container.querySelectorAll('[data-member-role]').forEach(select => {
+        select.addEventListener('change', () => {
+          const userId = select.getAttribute('data-member-role')!;
+          this.saveTeamChange(() => window.electronAPI.database.setProjectMember(
+            this.currentProject!.id,
+            userId,
+            (select as HTMLSelectElement).value as ProjectRole
+          ), 'Failed to change role');
+        });
+      });
+
+      container.querySelectorAll('[data-remove-member]').forEach(button => {
+        button.addEventListener('click', () => {
+          if (!confirm('Remove this member from the project?')) return;
+          this.saveTeamChange(() => window.electronAPI.database.removeProjectMember(
+            this.currentProject!.id,
+            button.getAttribute('data-remove-member')!
+          ), 'Failed to remove member');
+        });
+      });
+
+      document.getElementById('project-team-add-btn')?.addEventListener('click', () => {
+        const userId = (document.getElementById('project-team-new-user') as HTMLSelectElement)?.value;
+        const role = (document.getElementById('project-team-new-role') as HTMLSelectElement)?.value as ProjectRole;
+        if (!userId) {
+          alert('Please choose a teammate to add.');
+          return;
+        }
+        this.saveTeamChange(() => window.electronAPI.database.setProjectMember(this.currentProject!.id, userId, role), 'Failed to add member');
+      });
+    } catch (error) {
+      console.error('Failed to load project team:', error);
+      container.innerHTML = `
+        <div class="project-team-error">
+          <p>Failed to load the project team</p>
+        </div>
+      `;
+    }
+  }
+
+  /**
+   * Apply a membership change, then reload the team and the signed-in user's own access
+   */
+  private async saveTeamChange(change: () => Promise<any>, failure: string): Promise<void> {
+    try {
+      const result = await change();
+      if (!result.success) {
+        alert(`❌ ${result.error || failure}`);
+      }
+
+      // Directors may have changed their own role
+      await projectAccess.load(this.currentProject!.id);
+      this.loadProjectTeam();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`❌ ${failure}. Please try again.`);
+    }
+  }
+
+  /**
+   * Load the project's open comment threads
+   */
+  private async loadCommentsInbox(): Promise<void> {
+    const container = document.getElementById('comments-inbox-container');
+    if (!container || !this.currentProject) return;
+
+    try {
+      const [threadsResult, usersResult] = await Promise.all([
+        window.electronAPI.database.getProjectCommentThreads(this.currentProject.id, {
+          status: 'OPEN',
+          mentioned_user_id: this.commentsMentionFilter || undefined
+        }),
+        window.electronAPI.database.getUsers()
+      ]);
+      if (!threadsResult.success) {
+        throw new Error(threadsResult.error);
+      }
+
+      const threads: CommentThread[] = threadsResult.data || [];
+      const users: User[] = usersResult.success ? usersResult.data : [];
+      const userName = (id: string) => id === projectAccess.currentUserId() ? 'Me' : users.find(user => user.id === id)?.name || id;
+
+      const mentionFilter = document.getElementById('comments-mention-filter') as HTMLSelectElement | null;
+      if (mentionFilter) {
+        mentionFilter.innerHTML = `
+          <option value="">All open comments</option>
+          ${users.map(user => `
+            <option value="${user.id}" ${user.id === this.commentsMentionFilter ? 'selected' : ''}>Mentioning ${this.escapeHtml(user.name)}</option>
+          `).join('')}
+        `;
+      }
+
+      if (threads.length === 0) {
+        container.innerHTML = `<p class="comments-inbox-empty">No open comments${this.commentsMentionFilter ? ` mentioning ${this.escapeHtml(userName(this.commentsMentionFilter))}` : ''}.</p>`;
+        return;
+      }
+
+      container.innerHTML = threads.map(thread => {
+        const latest = thread.replies[thread.replies.length - 1] || thread;
+        const anchor = describeCommentAnchor(thread.target_entity_type, thread.anchor);
+        return `
+          <div class="comments-inbox-item">
+            <div class="comments-inbox-target">
+              <strong>${COMMENT_TARGET_LABELS[thread.target_entity_type]}</strong>
+              ${anchor ? `<span>· ${this.escapeHtml(anchor)}</span>` : ''}
+            </div>
+            <div class="comments-inbox-text">
+              <strong>${this.escapeHtml(userName(thread.author))}:</strong>
+              ${this.escapeHtml(thread.comment_text.length > 140 ? `${thread.comment_text.slice(0, 140)}…` : thread.comment_text)}
+            </div>
+            <div class="comments-inbox-meta">
+              <small>${thread.replies.length} ${thread.replies.length === 1 ? 'reply' : 'replies'} · ${this.getRelativeTime(new Date(latest.created_at))}</small>
+              <button type="button" class="btn btn-outline btn-sm" data-open-thread="${thread.id}">View</button>
+              <button type="button" class="btn btn-outline btn-sm" data-resolve-thread="${thread.id}" data-permission="comments:write">✓ Resolve</button>
+            </div>
+          </div>
+        `;
+      }).join('');
+
+      container.querySelectorAll('[data-open-thread]').forEach(button => {
+        button.addEventListener('click', () => {
+          const thread = threads.find(t => t.id === button.getAttribute('data-open-thread'));
+          if (!thread) return;
+          commentsPanel.open({
+            projectId: thread.project_id,
+            targetType: thread.target_entity_type,
+            targetId: thread.target_entity_id,
+            title: COMMENT_TARGET_LABELS[thread.target_entity_type],
+            onChange: () => this.loadCommentsInbox()
+          });
+        });
+      });
+
+      container.querySelectorAll('[data-resolve-thread]').forEach(button => {
+        button.addEventListener('click', async () => {
+          const result = await window.electronAPI.database.setCommentThreadStatus(
+            button.getAttribute('data-resolve-thread')!,
+            'RESOLVED'
+          );
+          if (!result.success) {
+            alert(`❌ ${result.error}`);
+            return;
+          }
+          this.loadCommentsInbox();
+        });
+      });
+    } catch (error) {
+      console.error('Failed to load comments inbox:', error);
+      container.innerHTML = `
+        <div class="comments-inbox-error">
+          <p>Failed to load open comments</p>
+        </div>
+      `;
+    }
   }
 
   /**
@@ -339,43 +567,35 @@ export class ProjectDashboard {
   }
 
   /**
-   * Render phase checklist
+   * Render phase checklist from the project's persisted workflow stages
    */
   private async renderPhaseChecklist(): Promise<string> {
-    // Check if creative strategy and script exist
-    let hasCreativeStrategy = false;
-    let hasScript = false;
-    
-    try {
-      // @ts-ignore
-      const strategyResult = await window.electronAPI.database.getCreativeStrategy(this.currentProject!.id);
-      hasCreativeStrategy = strategyResult.success;
-      
-      // @ts-ignore
-      const scriptResult = await window.electronAPI.database.getScriptsByProject(this.currentProject!.id);
-      hasScript = scriptResult.success && scriptResult.data && scriptResult.data.length > 0;
-    } catch (error) {
-      console.error('Failed to check project phases:', error);
+    if (!this.workflow) {
+      return `
+        <div class="phase-error">
+          <p>Workflow progress is unavailable</p>
+        </div>
+      `;
     }
 
-    const phases = [
-      { id: 'articles', name: 'News Article Ingestion', completed: this.projectStats!.totalArticles > 0 },
-      { id: 'strategy', name: 'Creative Strategy', completed: hasCreativeStrategy },
-      { id: 'script', name: 'Script Development', completed: hasScript },
-      { id: 'storyboard', name: 'Visual Storyboard', completed: false },
-      { id: 'sound', name: 'Sound Design', completed: false },
-      { id: 'shots', name: 'Shot Brief Generation', completed: false },
-      { id: 'prompts', name: 'AI Prompt Engineering', completed: false }
-    ];
-
-    return phases.map(phase => `
-      <div class="phase-item ${phase.completed ? 'completed' : 'pending'}">
-        <div class="phase-status">
-          ${phase.completed ? '✅' : '⏳'}
+    return this.workflow.stages.map(stage => {
+      const issue = firstGateIssue(stage);
+      const detail = stage.status === 'completed' && stage.quality_score !== null
+        ? `Quality ${stage.quality_score}/100`
+        : issue || WORKFLOW_STATUS_LABELS[stage.status];
+
+      return `
+        <div class="phase-item ${stage.status === 'completed' ? 'completed' : 'pending'} ${stage.name === this.workflow!.current_stage ? 'current' : ''}">
+          <div class="phase-status" title="${WORKFLOW_STATUS_LABELS[stage.status]}">
+            ${WORKFLOW_STATUS_ICONS[stage.status]}
+          </div>
+          <div class="phase-info">
+            <div class="phase-name">${stage.name}</div>
+            <div class="phase-detail">${this.escapeHtml(detail)}</div>
+          </div>
         </div>
-        <div class="phase-name">${phase.name}</div>
-      </div>
-    `).join('');
+      `;
+    }).join('');
   }
 
   /**
@@ -506,6 +726,12 @@ export class ProjectDashboard {
       });
     });
     
+    // Comments inbox filter
+    document.getElementById('comments-mention-filter')?.addEventListener('change', (e) => {
+      this.commentsMentionFilter = (e.target as HTMLSelectElement).value;
+      this.loadCommentsInbox();
+    });
+
     // Satirical lens selector
     this.setupLensSelector();
     
@@ -519,121 +745,128 @@ export class ProjectDashboard {
   private setupLensSelector(): void {
     const lensSelect = document.getElementById('project-satirical-lens-select') as HTMLSelectElement;
     const applyLensBtn = document.getElementById('apply-lens-btn');
-    const lensDescription = document.getElementById('lens-description');
     
     // Show lens description when selection changes
     lensSelect?.addEventListener('change', () => {
-      const selectedValue = lensSelect.value as SatiricalContextType;
-      this.showLensDescription(selectedValue);
+      this.showLensDescription(lensSelect.value);
     });
     
     // Apply lens to project
     applyLensBtn?.addEventListener('click', () => {
-      const selectedValue = lensSelect.value as SatiricalContextType;
+      const selectedValue = lensSelect.value;
       if (selectedValue) {
         this.applyLensToProject(selectedValue);
       } else {
         alert('Please select a satirical lens first.');
       }
     });
+
+    // Edit the custom lens library, keeping the selector in step with it
+    document.getElementById('manage-lenses-btn')?.addEventListener('click', () => {
+      const lensId = lensSelect?.value.startsWith('CUSTOM:') ? lensSelect.value.slice('CUSTOM:'.length) : undefined;
+      lensLibraryEditor.open({
+        selectedId: lensId || this.currentProject?.satirical_context?.lensId,
+        onChange: lenses => {
+          this.customLenses = lenses;
+          this.renderLensOptions();
+        }
+      });
+    });
     
     // Load and display current lens
     this.loadCurrentLens();
   }
 
+  /**
+   * Fill the lens selector with the predefined lenses and the custom lens library.
+   * Custom lenses are chosen as "CUSTOM:<lens id>".
+   */
+  private renderLensOptions(): void {
+    const lensSelect = document.getElementById('project-satirical-lens-select') as HTMLSelectElement;
+    if (!lensSelect) return;
+
+    const selectedValue = lensSelect.value;
+    const icons: Partial<Record<SatiricalContextType, string>> = { ANIMAL_LIBERATION: '🐾', ENVIRONMENTAL: '🌍', GENERAL: '💭' };
+
+    lensSelect.innerHTML = `
+      <option value="">Choose satirical perspective...</option>
+      ${SatiricalContextService.getPredefinedContexts().map(context => `
+        <option value="${context.type}">${icons[context.type] || '🎯'} ${this.escapeHtml(context.name)}</option>
+      `).join('')}
+      ${this.customLenses.length > 0 ? `
+        <optgroup label="Custom Lenses">
+          ${this.customLenses.map(lens => `<option value="CUSTOM:${lens.id}">✏️ ${this.escapeHtml(lens.context.name)}</option>`).join('')}
+        </optgroup>
+      ` : ''}
+    `;
+
+    // Keep the selection unless its lens was deleted
+    lensSelect.value = selectedValue;
+    if (lensSelect.value !== selectedValue) {
+      lensSelect.value = '';
+    }
+    this.showLensDescription(lensSelect.value);
+  }
+
   /**
    * Show lens description
    */
-  private showLensDescription(lensType: SatiricalContextType): void {
+  private showLensDescription(lensValue: string): void {
     const lensDescription = document.getElementById('lens-description');
-    if (!lensDescription || !lensType) {
-      if (lensDescription) lensDescription.style.display = 'none';
+    if (!lensDescription) return;
+
+    const lensData = lensValue ? this.getLensDescription(lensValue) : null;
+    if (!lensData) {
+      lensDescription.style.display = 'none';
       return;
     }
     
-    const lensData = this.getLensDescription(lensType);
-    
-    if (lensData) {
-      lensDescription.innerHTML = `
-        <div class="lens-preview">
-          <h4>${lensData.name}</h4>
-          <p><strong>Focus:</strong> ${lensData.description}</p>
-          <p><strong>Approach:</strong> ${lensData.ethicalFramework}</p>
-          <div class="lens-principles">
-            <strong>Key Principles:</strong>
-            <ul>
-              ${lensData.keyPrinciples.slice(0, 3).map((principle: string) => `<li>${principle}</li>`).join('')}
-              ${lensData.keyPrinciples.length > 3 ? `<li><em>...and ${lensData.keyPrinciples.length - 3} more</em></li>` : ''}
-            </ul>
-          </div>
+    lensDescription.innerHTML = `
+      <div class="lens-preview">
+        <h4>${this.escapeHtml(lensData.name)}</h4>
+        ${lensData.description ? `<p><strong>Focus:</strong> ${this.escapeHtml(lensData.description)}</p>` : ''}
+        <p><strong>Approach:</strong> ${this.escapeHtml(lensData.ethicalFramework)}</p>
+        <div class="lens-principles">
+          <strong>Key Principles:</strong>
+          <ul>
+            ${lensData.keyPrinciples.slice(0, 3).map(principle => `<li>${this.escapeHtml(principle)}</li>`).join('')}
+            ${lensData.keyPrinciples.length > 3 ? `<li><em>...and ${lensData.keyPrinciples.length - 3} more</em></li>` : ''}
+          </ul>
         </div>
-      `;
-      lensDescription.style.display = 'block';
-    }
+      </div>
+    `;
+    lensDescription.style.display = 'block';
   }
 
   /**
-   * Get lens description data
+   * Get lens description data for a selector value
    */
-  private getLensDescription(lensType: SatiricalContextType): any {
-    const lenses = {
-      'ANIMAL_LIBERATION': {
-        name: 'Animal Liberation & Vegan Ethics',
-        description: 'Strong anti-anthropocentric perspective focused on animal liberation, rights, and vegan ethics',
-        ethicalFramework: 'Animal liberation philosophy with strong vegan ethics, rejecting speciesism and anthropocentrism',
-        keyPrinciples: [
-          'Animals are sentient beings with inherent worth, not property or resources',
-          'All animal use is exploitation - reject "humane" or "welfare" approaches as inadequate',
-          'Veganism is the baseline ethical position, not an extreme view',
-          'Speciesism is a form of discrimination as serious as racism or sexism',
-          'The animal perspective must be centered, not human convenience'
-        ]
-      },
-      'ENVIRONMENTAL': {
-        name: 'Environmental Justice & Climate Action',
-        description: 'Focus on environmental destruction, climate change, and corporate greenwashing',
-        ethicalFramework: 'Environmental justice perspective emphasizing systemic change over individual action',
-        keyPrinciples: [
-          'Climate change is primarily caused by corporate interests, not individual choices',
-          'Environmental destruction disproportionately affects marginalized communities',
-          'Greenwashing is a deliberate strategy to avoid systemic change',
-          'Capitalism and endless growth are incompatible with environmental sustainability'
-        ]
-      },
-      'GENERAL': {
-        name: 'General Satirical Perspective',
-        description: 'Broad satirical approach without specific ethical framework',
-        ethicalFramework: 'General satirical perspective focused on exposing hypocrisy and absurdity',
-        keyPrinciples: [
-          'Question authority and conventional wisdom',
-          'Expose hypocrisy and contradiction',
-          'Challenge power structures',
-          'Use humor to make serious points accessible'
-        ]
-      }
-    };
-    
-    return lenses[lensType as keyof typeof lenses] || null;
+  private getLensDescription(lensValue: string): SatiricalContext | null {
+    if (lensValue.startsWith('CUSTOM:')) {
+      const lensId = lensValue.slice('CUSTOM:'.length);
+      return this.customLenses.find(lens => lens.id === lensId)?.context || null;
+    }
+    return SatiricalContextService.getContextByType(lensValue as SatiricalContextType);
   }
 
   /**
    * Apply lens to project
    */
-  private async applyLensToProject(lensType: SatiricalContextType): Promise<void> {
+  private async applyLensToProject(lensValue: string): Promise<void> {
     try {
       if (!this.currentProject) return;
-      
-      // @ts-ignore - Call backend to update project with satirical context
-      const result = await window.electronAPI.database.updateProjectContext(this.currentProject.id, lensType);
+
+      const [contextType, lensId] = lensValue.split(':') as [SatiricalContextType, string | undefined];
+      const result = await window.electronAPI.database.updateProjectContext(this.currentProject.id, contextType, lensId);
       
       if (result.success) {
-        alert(`✅ ${this.getLensDescription(lensType)?.name} lens applied to project!\n\nAll AI agents will now use this perspective when helping with your satirical content.`);
-        
-        // Update the current lens display
-        this.updateCurrentLensDisplay(lensType);
+        alert(`✅ ${this.getLensDescription(lensValue)?.name} lens applied to project!\n\nAll AI agents will now use this perspective when helping with your satirical content.`);
         
         // Refresh project data
         await this.refreshProjectData();
+
+        // Update the current lens display
+        this.updateCurrentLensDisplay(this.currentProject.satirical_context || null);
       } else {
         throw new Error(result.error || 'Failed to apply lens');
       }
@@ -649,23 +882,23 @@ export class ProjectDashboard {
   private async loadCurrentLens(): Promise<void> {
     try {
       if (!this.currentProject) return;
+
+      const library = await window.electronAPI.lenses.getAll();
+      this.customLenses = library.success ? library.data || [] : [];
+      this.renderLensOptions();
       
-      if (this.currentProject.satirical_context) {
-        const lensType = this.currentProject.satirical_context.type;
-        
+      const context = this.currentProject.satirical_context;
+      if (context) {
         // Set the selector to current lens
         const lensSelect = document.getElementById('project-satirical-lens-select') as HTMLSelectElement;
         if (lensSelect) {
-          lensSelect.value = lensType;
-          this.showLensDescription(lensType);
+          lensSelect.value = context.type === 'CUSTOM' ? `CUSTOM:${context.lensId}` : context.type;
+          this.showLensDescription(lensSelect.value);
         }
-        
-        // Update current lens display
-        this.updateCurrentLensDisplay(lensType);
-      } else {
-        // No lens set, show default message
-        this.updateCurrentLensDisplay(null);
       }
+
+      // Update current lens display
+      this.updateCurrentLensDisplay(context || null);
     } catch (error) {
       console.error('Failed to load current lens:', error);
     }
@@ -674,23 +907,26 @@ export class ProjectDashboard {
   /**
    * Update current lens display
    */
-  private updateCurrentLensDisplay(lensType: SatiricalContextType | null): void {
+  private updateCurrentLensDisplay(context: SatiricalContext | null): void {
     const currentLensDisplay = document.getElementById('current-lens-display');
     if (!currentLensDisplay) return;
     
-    if (lensType) {
-      const lensData = this.getLensDescription(lensType);
-      if (lensData) {
-        currentLensDisplay.innerHTML = `
-          <div class="current-lens">
-            <span class="lens-icon">✅</span>
-            <div class="lens-info">
-              <strong>Active Lens:</strong> ${lensData.name}
-              <p style="margin: 0.25rem 0 0; font-size: 0.9rem; color: #666;">All AI agents use this perspective</p>
-            </div>
+    if (context) {
+      // A custom lens is a copy taken when it was applied, so later library edits show up only once it is re-applied
+      const libraryLens = context.lensId ? this.customLenses.find(lens => lens.id === context.lensId) : undefined;
+      const outdated = libraryLens && JSON.stringify({ ...libraryLens.context, lensId: undefined }) !== JSON.stringify({ ...context, lensId: undefined });
+
+      currentLensDisplay.innerHTML = `
+        <div class="current-lens">
+          <span class="lens-icon">✅</span>
+          <div class="lens-info">
+            <strong>Active Lens:</strong> ${this.escapeHtml(context.name)}${context.type === 'CUSTOM' ? ' <small>(custom)</small>' : ''}
+            <p style="margin: 0.25rem 0 0; font-size: 0.9rem; color: #666;">
+              ${outdated ? 'The library version has changed since it was applied. Apply it again to use the changes.' : 'All AI agents use this perspective'}
+            </p>
           </div>
-        `;
-      }
+        </div>
+      `;
     } else {
       currentLensDisplay.innerHTML = `
         <div class="no-lens">
@@ -2,12 +2,24 @@
 // Central command interface for project management and strategic guidance
 
 import { ProjectHealthCheck, QualityIssue, WorkflowStage } from '../../services/project-director.js';
-import { Project, PersonaType } from '../../shared/types/index.js';
+import { AgentConfigService } from '../../services/agent-config.js';
+import { AgentConfig } from '../../services/llm.js';
+import { ArtifactQualityTrend, EvaluationRubric, Project, PersonaType } from '../../shared/types/index.js';
+import { EVALUATION_CRITERION_LABELS, resolveEvaluationRubric } from '../../shared/utils/evaluation.js';
+import { GlobalAPISettings } from './GlobalAPISettings.js';
+
+interface EvaluationSettings {
+  rubric: EvaluationRubric;
+  judge: { provider: AgentConfig['provider']; model: string } | null; // Null uses the Project Director's model
+}
 
 export class ProjectDirectorDashboard {
+  private static EVALUATION_SETTINGS_KEY = 'evaluation-rubric';
+
   private currentProject: Project | null = null;
   private healthCheck: ProjectHealthCheck | null = null;
   private refreshInterval: NodeJS.Timeout | null = null;
+  private evaluatingArtifact: string | null = null;
 
   /**
    * Initialize Project Director Dashboard
@@ -124,6 +136,21 @@ export class ProjectDirectorDashboard {
           </div>
         </div>
 
+        <!-- Satirical Quality -->
+        <div class="quality-trends-section">
+          <div class="quality-trends-header">
+            <h3>🎭 Satirical Quality</h3>
+            <button type="button" id="toggle-rubric-btn" class="btn btn-small btn-outline">⚙️ Rubric</button>
+          </div>
+          <div id="rubric-settings" class="rubric-settings" style="display: none;"></div>
+          <div id="quality-trends-content">
+            <div class="quality-trends-loading">
+              <span class="loading-spinner">⏳</span>
+              Loading quality scores...
+            </div>
+          </div>
+        </div>
+
         <!-- Quality Issues -->
         <div class="quality-issues-section">
           <h3>⚠️ Quality Control</h3>
@@ -172,6 +199,7 @@ export class ProjectDirectorDashboard {
     this.updateHealthOverview();
     this.updateRecommendations();
     this.updateWorkflowProgress();
+    this.updateQualityTrends();
     this.updateQualityIssues();
     this.updateNextSteps();
   }
@@ -282,37 +310,252 @@ export class ProjectDirectorDashboard {
     const container = document.getElementById('workflow-progress-content');
     if (!container || !this.healthCheck) return;
 
-    // For now, create a basic workflow display
-    // TODO: Get actual workflow stages from health check
-    const mockStages = [
-      { name: 'News Articles', completed: true, quality: 'excellent' },
-      { name: 'Satirical Format', completed: !!this.currentProject?.satirical_format, quality: 'good' },
-      { name: 'Creative Strategy', completed: false, quality: 'not_started' },
-      { name: 'Script Development', completed: false, quality: 'not_started' },
-      { name: 'Visual Storyboard', completed: false, quality: 'not_started' },
-      { name: 'Audio Design', completed: false, quality: 'not_started' }
-    ];
-
-    const stagesHtml = mockStages.map(stage => `
-      <div class="workflow-stage ${stage.completed ? 'completed' : 'pending'}">
-        <div class="stage-indicator">
-          ${stage.completed ? '✅' : '⏳'}
-        </div>
-        <div class="stage-info">
-          <h5>${stage.name}</h5>
-          <span class="stage-status">${stage.completed ? 'Completed' : 'Pending'}</span>
+    const currentStage = this.healthCheck.currentStage;
+    const stagesHtml = this.healthCheck.workflowStages.map(stage => {
+      const isCurrent = !stage.completed && stage.name === currentStage;
+
+      return `
+        <div class="workflow-stage ${stage.completed ? 'completed' : 'pending'}">
+          <div class="stage-indicator">
+            ${stage.completed ? '✅' : isCurrent ? '▶️' : '⏳'}
+          </div>
+          <div class="stage-info">
+            <h5>${stage.name}</h5>
+            <span class="stage-status">${this.escapeHtml(stage.recommendations[0] || (stage.completed ? 'Completed' : 'Pending'))}</span>
+          </div>
+          <div class="stage-quality">
+            <span class="quality-badge quality-${stage.quality}">${this.formatQualityStatus(stage.quality)}</span>
+          </div>
+          ${isCurrent ? `
+            <button type="button" class="btn btn-small btn-primary" data-action="complete-stage">
+              Sign Off
+            </button>
+          ` : ''}
         </div>
-        <div class="stage-quality">
-          <span class="quality-badge quality-${stage.quality}">${this.formatQualityStatus(stage.quality)}</span>
+      `;
+    }).join('');
+
+    container.innerHTML = `
+      <div class="workflow-stages">
+        ${stagesHtml}
+      </div>
+    `;
+  }
+
+  /**
+   * Update satirical quality section: judged scores for each artifact across its versions
+   */
+  private updateQualityTrends(): void {
+    const container = document.getElementById('quality-trends-content');
+    if (!container || !this.healthCheck) return;
+
+    const trends = this.healthCheck.qualityTrends || [];
+    if (trends.length === 0) {
+      container.innerHTML = `
+        <div class="no-trends">
+          <p>Save a creative strategy, director's notes, script or storyboard to have it judged against the rubric.</p>
         </div>
+      `;
+      return;
+    }
+
+    container.innerHTML = `<div class="quality-trends-list">${trends.map(trend => this.renderQualityTrend(trend)).join('')}</div>`;
+  }
+
+  private renderQualityTrend(trend: ArtifactQualityTrend): string {
+    const key = `${trend.entity_type}:${trend.entity_id}`;
+    const latest = trend.evaluations[trend.evaluations.length - 1];
+    const previous = trend.evaluations[trend.evaluations.length - 2];
+    const delta = latest && previous ? latest.overall_score - previous.overall_score : 0;
+    const evaluating = this.evaluatingArtifact === key;
+    const action = latest?.version === trend.latest_version ? 'Re-evaluate' : 'Evaluate';
+
+    const bars = trend.evaluations.map(evaluation => `
+      <div class="trend-bar-slot" title="v${evaluation.version}: ${evaluation.overall_score}/100 (${this.escapeHtml(evaluation.model)})">
+        <div class="trend-bar ${evaluation.passed ? 'passed' : 'failed'}" style="height: ${Math.max(evaluation.overall_score, 2)}%"></div>
+        <span class="trend-bar-label">v${evaluation.version}</span>
       </div>
     `).join('');
 
+    const criteria = latest ? latest.scores.map(score => `
+      <li class="trend-criterion">
+        <span class="trend-criterion-name">${EVALUATION_CRITERION_LABELS[score.criterion]}</span>
+        <span class="trend-criterion-score">${score.score}/10</span>
+        <span class="trend-criterion-rationale">${this.escapeHtml(score.rationale)}</span>
+      </li>
+    `).join('') : '';
+
+    return `
+      <div class="quality-trend">
+        <div class="quality-trend-header">
+          <h5>${this.escapeHtml(trend.label)}</h5>
+          ${latest ? `
+            <span class="trend-score ${latest.passed ? 'passed' : 'failed'}">${latest.overall_score}/100</span>
+            ${delta !== 0 ? `<span class="trend-delta ${delta > 0 ? 'up' : 'down'}">${delta > 0 ? '▲' : '▼'} ${Math.abs(delta)}</span>` : ''}
+            <span class="trend-version">v${latest.version} judged${latest.version !== trend.latest_version ? ` · latest is v${trend.latest_version}` : ''}</span>
+          ` : `<span class="trend-version">Not judged yet · latest is v${trend.latest_version}</span>`}
+          <button type="button" class="btn btn-small btn-primary" data-action="evaluate-artifact"
+            data-entity-type="${trend.entity_type}" data-entity-id="${trend.entity_id}" ${evaluating ? 'disabled' : ''}>
+            ${evaluating ? 'Judging...' : `${action} v${trend.latest_version}`}
+          </button>
+        </div>
+        ${latest ? `
+          <div class="trend-chart">
+            <div class="trend-pass-line" style="bottom: ${latest.rubric.passing_score}%" title="Pass mark ${latest.rubric.passing_score}"></div>
+            ${bars}
+          </div>
+          <ul class="trend-criteria">${criteria}</ul>
+          <p class="trend-summary">${this.escapeHtml(latest.summary)}</p>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the rubric form from the saved evaluation settings
+   */
+  private renderRubricSettings(): void {
+    const container = document.getElementById('rubric-settings');
+    if (!container) return;
+
+    const settings = this.loadEvaluationSettings();
+    const providers = GlobalAPISettings.getAvailableProviders();
+
     container.innerHTML = `
-      <div class="workflow-stages">
-        ${stagesHtml}
+      <p class="form-hint">Weights set how much each criterion counts towards the overall score; 0 leaves it out.</p>
+      <div class="rubric-criteria">
+        ${settings.rubric.criteria.map(config => `
+          <div class="rubric-criterion">
+            <label>
+              ${EVALUATION_CRITERION_LABELS[config.criterion]}
+              <input type="number" class="form-input rubric-weight" min="0" max="10" step="1" data-criterion="${config.criterion}" value="${config.weight}">
+            </label>
+            <textarea class="form-textarea rubric-guidance" rows="2" data-criterion="${config.criterion}">${this.escapeHtml(config.guidance)}</textarea>
+          </div>
+        `).join('')}
+      </div>
+      <div class="rubric-options">
+        <label>
+          Pass mark
+          <input type="number" id="rubric-passing-score" class="form-input" min="0" max="100" value="${settings.rubric.passing_score}">
+        </label>
+        <label>
+          Judge provider
+          <select id="rubric-judge-provider" class="form-select">
+            <option value="">Project Director's model</option>
+            ${providers.map(provider => `<option value="${provider}" ${settings.judge?.provider === provider ? 'selected' : ''}>${provider}</option>`).join('')}
+          </select>
+        </label>
+        <label>
+          Judge model
+          <input type="text" id="rubric-judge-model" class="form-input" list="rubric-judge-models" value="${this.escapeHtml(settings.judge?.model || '')}">
+          <datalist id="rubric-judge-models"></datalist>
+        </label>
+      </div>
+      <div class="rubric-actions">
+        <button type="button" id="save-rubric-btn" class="btn btn-small btn-primary">Save Rubric</button>
+        <button type="button" id="reset-rubric-btn" class="btn btn-small btn-outline">Reset to Defaults</button>
       </div>
     `;
+
+    const providerSelect = document.getElementById('rubric-judge-provider') as HTMLSelectElement;
+    const fillModels = () => {
+      const datalist = document.getElementById('rubric-judge-models');
+      if (!datalist) return;
+      datalist.innerHTML = AgentConfigService.getModelsForProvider(providerSelect.value)
+        .map(model => `<option value="${model.value}">${this.escapeHtml(model.label)}</option>`).join('');
+    };
+    fillModels();
+    providerSelect.addEventListener('change', fillModels);
+
+    document.getElementById('save-rubric-btn')?.addEventListener('click', () => this.saveRubricSettings());
+    document.getElementById('reset-rubric-btn')?.addEventListener('click', () => {
+      localStorage.removeItem(ProjectDirectorDashboard.EVALUATION_SETTINGS_KEY);
+      this.renderRubricSettings();
+    });
+  }
+
+  private toggleRubricSettings(): void {
+    const container = document.getElementById('rubric-settings');
+    if (!container) return;
+
+    const isVisible = container.style.display !== 'none';
+    if (!isVisible) this.renderRubricSettings();
+    container.style.display = isVisible ? 'none' : 'block';
+  }
+
+  private saveRubricSettings(): void {
+    const container = document.getElementById('rubric-settings');
+    if (!container) return;
+
+    const criteria = Array.from(container.querySelectorAll<HTMLInputElement>('.rubric-weight')).map(input => ({
+      criterion: input.dataset.criterion,
+      weight: parseFloat(input.value),
+      guidance: container.querySelector<HTMLTextAreaElement>(`.rubric-guidance[data-criterion="${input.dataset.criterion}"]`)?.value || ''
+    }));
+    const rubric = resolveEvaluationRubric({
+      criteria: criteria as EvaluationRubric['criteria'],
+      passing_score: parseFloat((document.getElementById('rubric-passing-score') as HTMLInputElement).value)
+    });
+
+    if (rubric.criteria.every(config => config.weight === 0)) {
+      alert('Give at least one criterion a weight above 0.');
+      return;
+    }
+
+    const provider = (document.getElementById('rubric-judge-provider') as HTMLSelectElement).value as AgentConfig['provider'] | '';
+    const model = (document.getElementById('rubric-judge-model') as HTMLInputElement).value.trim();
+    if (provider && !model) {
+      alert('Choose a model for the judge provider.');
+      return;
+    }
+
+    const settings: EvaluationSettings = { rubric, judge: provider ? { provider, model } : null };
+    localStorage.setItem(ProjectDirectorDashboard.EVALUATION_SETTINGS_KEY, JSON.stringify(settings));
+    this.toggleRubricSettings();
+  }
+
+  private loadEvaluationSettings(): EvaluationSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(ProjectDirectorDashboard.EVALUATION_SETTINGS_KEY) || 'null');
+      return { rubric: resolveEvaluationRubric(stored?.rubric), judge: stored?.judge || null };
+    } catch (error) {
+      console.error('Failed to load evaluation settings:', error);
+      return { rubric: resolveEvaluationRubric(), judge: null };
+    }
+  }
+
+  /**
+   * Have the judge model score the latest version of an artifact with the saved rubric
+   */
+  private async handleEvaluateArtifact(entityType: string, entityId: string): Promise<void> {
+    if (!this.currentProject || this.evaluatingArtifact) return;
+
+    const settings = this.loadEvaluationSettings();
+    const agentConfig = settings.judge
+      ? AgentConfigService.getModelConfig('PROJECT_DIRECTOR', settings.judge.provider, settings.judge.model)
+      : AgentConfigService.getAgentConfig('PROJECT_DIRECTOR');
+
+    this.evaluatingArtifact = `${entityType}:${entityId}`;
+    this.updateQualityTrends();
+
+    try {
+      const result = await window.electronAPI.evaluation.evaluateArtifact(
+        this.currentProject.id,
+        entityType as ArtifactQualityTrend['entity_type'],
+        entityId,
+        { rubric: settings.rubric, agentConfig }
+      );
+      if (!result.success) {
+        alert(`Could not evaluate: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Failed to evaluate artifact:', error);
+    }
+
+    this.evaluatingArtifact = null;
+    this.updateQualityTrends();
+    await this.performHealthCheck();
   }
 
   /**
@@ -400,6 +643,7 @@ export class ProjectDirectorDashboard {
 
     getGuidanceBtn?.addEventListener('click', () => this.toggleGuidanceChat());
     refreshHealthBtn?.addEventListener('click', () => this.performHealthCheck());
+    document.getElementById('toggle-rubric-btn')?.addEventListener('click', () => this.toggleRubricSettings());
     
     sendGuidanceBtn?.addEventListener('click', () => this.sendGuidanceMessage());
     guidanceInput?.addEventListener('keypress', (e) => {
@@ -429,6 +673,10 @@ export class ProjectDirectorDashboard {
       } else if (action === 'fix-issue') {
         const issueIndex = target.getAttribute('data-index');
         this.handleFixIssue(parseInt(issueIndex || '0'));
+      } else if (action === 'complete-stage') {
+        this.handleCompleteStage();
+      } else if (action === 'evaluate-artifact') {
+        this.handleEvaluateArtifact(target.getAttribute('data-entity-type') || '', target.getAttribute('data-entity-id') || '');
       } else if (action === 'dismiss-recommendation') {
         const recIndex = target.getAttribute('data-index');
         this.handleDismissRecommendation(parseInt(recIndex || '0'));
@@ -514,6 +762,24 @@ export class ProjectDirectorDashboard {
     }
   }
 
+  /**
+   * Sign off the current workflow stage; its saved output has to pass the stage's quality gates
+   */
+  private async handleCompleteStage(): Promise<void> {
+    if (!this.currentProject) return;
+
+    try {
+      const result = await window.electronAPI.workflow.completeStage(this.currentProject.id);
+      if (!result.success) {
+        alert(`Could not sign off ${this.healthCheck?.currentStage || 'this stage'}: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Failed to complete workflow stage:', error);
+    }
+
+    await this.performHealthCheck();
+  }
+
   /**
    * Handle fixing a quality issue
    */
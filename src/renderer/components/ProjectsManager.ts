@@ -3,9 +3,9 @@
 
 import { Project, PersonaType } from '../../shared/types/index.js';
 import { projectCreationModal } from './ProjectCreationModal.js';
+import { projectAccess } from './ProjectAccess.js';
 
 export class ProjectsManager {
-  private currentUser: any = null; // TODO: Get from session
   private projects: Project[] = [];
   private isLoading = false;
 
@@ -23,11 +23,22 @@ export class ProjectsManager {
       this.loadProjects();
     });
 
+    // Another user signed in - their projects and permissions differ
+    window.addEventListener('sessionChanged', () => {
+      this.showProjectsList();
+    });
+
     // Create project button
     const createBtn = document.getElementById('create-project-btn');
     createBtn?.addEventListener('click', () => {
       projectCreationModal.open();
     });
+
+    // Import project button
+    const importBtn = document.getElementById('import-project-btn');
+    importBtn?.addEventListener('click', () => {
+      this.importProject();
+    });
   }
 
   /**
@@ -37,11 +48,8 @@ export class ProjectsManager {
     this.setLoading(true);
 
     try {
-      // For Phase 1, use a temporary user ID
-      // In Phase 2, this will come from authentication session
-      const tempUserId = 'temp-user-id';
-      
-      const result = await window.electronAPI.database.getProjects(tempUserId);
+      // Lists the signed-in user's projects
+      const result = await window.electronAPI.database.getProjects();
       
       // @ts-ignore
       if (result && result.success) {
@@ -121,6 +129,9 @@ export class ProjectsManager {
           <button class="btn btn-primary btn-open-project" data-project-id="${project.id}">
             Open Project
           </button>
+          <button class="btn btn-secondary btn-export-project" data-project-id="${project.id}" title="Export Project">
+            📦 Export
+          </button>
           <button class="btn btn-danger btn-delete-project" data-project-id="${project.id}" title="Delete Project">
             🗑️ Delete
           </button>
@@ -186,6 +197,15 @@ export class ProjectsManager {
       });
     });
 
+    // Export project archive
+    const exportBtns = document.querySelectorAll('.btn-export-project');
+    exportBtns.forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const projectId = (e.target as HTMLElement).getAttribute('data-project-id');
+        if (projectId) this.exportProject(projectId);
+      });
+    });
+
     // Delete project
     const deleteBtns = document.querySelectorAll('.btn-delete-project');
     deleteBtns.forEach(btn => {
@@ -258,6 +278,7 @@ This will be replaced with a proper details modal in Phase 1.2
       }
 
       const project = result.data;
+      const access = await projectAccess.load(projectId);
       
       // Create project workspace HTML
       const workspaceHTML = `
@@ -268,14 +289,15 @@ This will be replaced with a proper details modal in Phase 1.2
               <div class="project-meta">
                 Created: ${new Date(project.created_at).toLocaleDateString()} • 
                 Status: ${project.status} • 
-                ${project.assigned_personas.length} personas assigned
+                ${project.assigned_personas.length} personas assigned •
+                Your role: ${this.escapeHtml(access?.role ? projectAccess.roleLabel() : 'Not a member')}
               </div>
             </div>
             <div class="project-actions">
               <button class="btn btn-secondary" id="back-to-projects-btn">
                 ← Back to Projects
               </button>
-              <button class="btn btn-primary" id="upload-article-btn">
+              <button class="btn btn-primary" id="upload-article-btn" data-permission="articles:edit">
                 Upload News Article
               </button>
             </div>
@@ -286,9 +308,11 @@ This will be replaced with a proper details modal in Phase 1.2
             <button class="project-tab active" data-tab="overview">Overview</button>
             <button class="project-tab" data-tab="articles">Articles</button>
             <button class="project-tab" data-tab="strategy">Creative Strategy</button>
+            <button class="project-tab" data-tab="broadcasters">🎭 Characters</button>
             <button class="project-tab" data-tab="script">Script</button>
             <button class="project-tab" data-tab="storyboard">Storyboard</button>
             <button class="project-tab" data-tab="sound">🎵 Sound Design</button>
+            <button class="project-tab" data-tab="prompts">🤖 Video Prompts</button>
           </div>
 
           <div class="tab-content" id="director-tab">
@@ -318,6 +342,15 @@ This will be replaced with a proper details modal in Phase 1.2
             </div>
           </div>
 
+          <div class="tab-content" id="broadcasters-tab">
+            <div id="broadcaster-studio-container">
+              <div class="loading-text">
+                <span class="loading-spinner"></span>
+                Loading broadcaster studio...
+              </div>
+            </div>
+          </div>
+
           <div class="tab-content" id="script-tab">
             <div id="script-development-container">
               <div class="loading-text">
@@ -344,6 +377,15 @@ This will be replaced with a proper details modal in Phase 1.2
               </div>
             </div>
           </div>
+
+          <div class="tab-content" id="prompts-tab">
+            <div id="video-prompt-engineer-container">
+              <div class="loading-text">
+                <span class="loading-spinner"></span>
+                Loading video prompts...
+              </div>
+            </div>
+          </div>
         </div>
       `;
 
@@ -457,6 +499,9 @@ This will be replaced with a proper details modal in Phase 1.2
     } else if (tabId === 'strategy' && currentProjectId) {
       // Initialize Creative Strategy component
       this.initializeCreativeStrategy(currentProjectId);
+    } else if (tabId === 'broadcasters' && currentProjectId) {
+      // Initialize Broadcaster Studio component
+      this.initializeBroadcasterStudio(currentProjectId);
     } else if (tabId === 'script' && currentProjectId) {
       // Initialize Script Development component
       this.initializeScriptDevelopment(currentProjectId);
@@ -466,6 +511,9 @@ This will be replaced with a proper details modal in Phase 1.2
     } else if (tabId === 'sound' && currentProjectId) {
       // Initialize Soundscape Architect component
       this.initializeSoundscapeArchitect(currentProjectId);
+    } else if (tabId === 'prompts' && currentProjectId) {
+      // Initialize Video Prompt Engineer component
+      this.initializeVideoPromptEngineer(currentProjectId);
     }
   }
 
@@ -530,6 +578,31 @@ This will be replaced with a proper details modal in Phase 1.2
     }
   }
 
+  /**
+   * Initialize Broadcaster Studio component
+   */
+  private async initializeBroadcasterStudio(projectId: string): Promise<void> {
+    try {
+      const { broadcasterStudio } = await import('./BroadcasterStudio.js');
+      await broadcasterStudio.initialize(projectId);
+    } catch (error) {
+      console.error('Failed to initialize Broadcaster Studio:', error);
+      const broadcastersTab = document.getElementById('broadcasters-tab');
+      if (broadcastersTab) {
+        broadcastersTab.innerHTML = `
+          <div class="broadcaster-error">
+            <div class="error-icon">❌</div>
+            <h3>Character Bible Error</h3>
+            <p>Failed to load Character Bible component</p>
+            <button class="btn btn-primary" onclick="location.reload()">
+              Retry
+            </button>
+          </div>
+        `;
+      }
+    }
+  }
+
   /**
    * Initialize Script Development component
    */
@@ -605,6 +678,31 @@ This will be replaced with a proper details modal in Phase 1.2
     }
   }
 
+  /**
+   * Initialize Video Prompt Engineer component
+   */
+  private async initializeVideoPromptEngineer(projectId: string): Promise<void> {
+    try {
+      const { videoPromptEngineer } = await import('./VideoPromptEngineer.js');
+      await videoPromptEngineer.initialize(projectId);
+    } catch (error) {
+      console.error('Failed to initialize Video Prompt Engineer:', error);
+      const promptsTab = document.getElementById('prompts-tab');
+      if (promptsTab) {
+        promptsTab.innerHTML = `
+          <div class="prompt-engineer-error">
+            <div class="error-icon">❌</div>
+            <h3>Video Prompt Error</h3>
+            <p>Failed to load Video Prompt Engineer component</p>
+            <button class="btn btn-primary" onclick="location.reload()">
+              Retry
+            </button>
+          </div>
+        `;
+      }
+    }
+  }
+
   /**
    * Load articles for project
    */
@@ -649,7 +747,7 @@ This will be replaced with a proper details modal in Phase 1.2
           <div class="empty-state-icon">📰</div>
           <h3>No Articles Yet</h3>
           <p>Upload your first news article to begin creating satirical content.</p>
-          <button class="btn btn-primary" onclick="document.getElementById('upload-article-btn').click()">
+          <button class="btn btn-primary" data-permission="articles:edit" onclick="document.getElementById('upload-article-btn').click()">
             Upload First Article
           </button>
         </div>
@@ -698,10 +796,10 @@ This will be replaced with a proper details modal in Phase 1.2
           <button class="btn btn-outline btn-view-article" data-article-id="${article.id}">
             View Full Article
           </button>
-          <button class="btn btn-secondary btn-edit-article" data-article-id="${article.id}">
+          <button class="btn btn-secondary btn-edit-article" data-article-id="${article.id}" data-permission="articles:edit">
             Edit
           </button>
-          <button class="btn btn-danger btn-delete-article" data-article-id="${article.id}">
+          <button class="btn btn-danger btn-delete-article" data-article-id="${article.id}" data-permission="articles:edit">
             Delete
           </button>
         </div>
@@ -891,21 +989,166 @@ ${article.processing_notes ? `Processing Notes: ${article.processing_notes}` : '
     }
   }
 
+  /**
+   * Export a project and all its linked data to an archive file
+   */
+  private async exportProject(projectId: string): Promise<void> {
+    const exportBtn = document.querySelector(`[data-project-id="${projectId}"].btn-export-project`) as HTMLButtonElement | null;
+    if (exportBtn) {
+      exportBtn.disabled = true;
+      exportBtn.textContent = 'Exporting...';
+    }
+
+    try {
+      const result = await window.electronAPI.database.exportProject(projectId);
+
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to export project'}`);
+      } else if (result.data) {
+        const manifest = result.data;
+        this.showSuccess(
+          `Exported "${manifest.project.name}"\n\n` +
+          `${manifest.counts.newsArticles} articles • ${manifest.counts.scripts} scripts • ` +
+          `${manifest.counts.shots} shots • ${manifest.counts.prompts} prompts • ${manifest.counts.conversations} conversations`
+        );
+      }
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      alert('❌ An error occurred while exporting the project');
+    } finally {
+      if (exportBtn) {
+        exportBtn.disabled = false;
+        exportBtn.innerHTML = '📦 Export';
+      }
+    }
+  }
+
+  /**
+   * Pick an archive file, show what it contains and import it, resolving conflicts with existing projects
+   */
+  private async importProject(): Promise<void> {
+    try {
+      const preview = await window.electronAPI.database.previewProjectImport();
+      if (!preview.success) {
+        alert(`❌ ${preview.error || 'Failed to read project archive'}`);
+        return;
+      }
+      if (!preview.data) return; // File dialog cancelled
+
+      const resolution = await this.confirmProjectImport(preview.data);
+      if (resolution === null) return;
+
+      const result = await window.electronAPI.database.importProject(preview.data.file_path, {
+        resolution: resolution || undefined
+      });
+
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to import project'}`);
+        return;
+      }
+
+      await this.loadProjects();
+      this.showSuccess(
+        `Imported "${result.data.project_name}"` +
+        (result.data.renamed ? ' (renamed to avoid a clash with an existing project)' : '') +
+        (result.data.replaced_project_ids.length > 0 ? `\nReplaced ${result.data.replaced_project_ids.length} existing project(s)` : '')
+      );
+    } catch (error) {
+      console.error('Error importing project:', error);
+      alert('❌ An error occurred while importing the project');
+    }
+  }
+
+  /**
+   * Show the archive summary and conflicts. Resolves to the chosen resolution, '' when there is nothing to resolve, or null if cancelled.
+   */
+  private confirmProjectImport(preview: any): Promise<'KEEP_BOTH' | 'REPLACE' | '' | null> {
+    const { manifest, conflicts } = preview;
+    const counts = manifest.counts;
+    const canReplace = conflicts.some((conflict: any) => conflict.type === 'SAME_PROJECT');
+    const conflictLabels: Record<string, string> = {
+      SAME_PROJECT: 'This project already exists here',
+      SAME_NAME: 'A different project has the same name'
+    };
+
+    document.getElementById('project-import-modal')?.remove();
+    document.body.insertAdjacentHTML('beforeend', `
+      <div id="project-import-modal" class="modal-overlay" style="display: flex;">
+        <div class="modal-content project-import-modal">
+          <div class="modal-header">
+            <h2>Import Project</h2>
+          </div>
+          <div class="project-import-summary">
+            <h3>${this.escapeHtml(manifest.project.name)}</h3>
+            <small>Exported ${new Date(manifest.exported_at).toLocaleString()}${manifest.app_version ? ` from v${this.escapeHtml(manifest.app_version)}` : ''}</small>
+            <ul class="project-import-counts">
+              <li>${counts.newsArticles} articles</li>
+              <li>${counts.creativeStrategies} creative strategies</li>
+              <li>${counts.directorNotes} director notes</li>
+              <li>${counts.scripts} scripts</li>
+              <li>${counts.storyboards} storyboards</li>
+              <li>${counts.shots} shots</li>
+              <li>${counts.soundNotes} sound notes</li>
+              <li>${counts.prompts} prompts</li>
+              <li>${counts.characters} characters</li>
+              <li>${counts.conversations} conversations</li>
+              ${counts.revisions ? `<li>${counts.revisions} revisions</li>` : ''}
+              ${counts.comments ? `<li>${counts.comments} comments</li>` : ''}
+            </ul>
+            ${conflicts.length > 0 ? `
+              <div class="project-import-conflicts">
+                <strong>⚠️ Conflicts</strong>
+                <ul>
+                  ${conflicts.map((conflict: any) => `<li>${conflictLabels[conflict.type]}: "${this.escapeHtml(conflict.project_name)}"</li>`).join('')}
+                </ul>
+                <p class="form-hint">Keep both imports a copy with new IDs and a new name.${canReplace ? ' Replace deletes the existing copy of this project first; projects that only share its name are kept.' : ''}</p>
+              </div>
+            ` : '<p class="form-hint">The project will be imported with new IDs.</p>'}
+          </div>
+          <div class="form-actions">
+            <button type="button" class="btn btn-secondary" data-import-choice="cancel">Cancel</button>
+            ${conflicts.length > 0 ? `
+              ${canReplace ? '<button type="button" class="btn btn-danger" data-import-choice="REPLACE">Replace Existing</button>' : ''}
+              <button type="button" class="btn btn-primary" data-import-choice="KEEP_BOTH">Keep Both</button>
+            ` : '<button type="button" class="btn btn-primary" data-import-choice="">Import</button>'}
+          </div>
+        </div>
+      </div>
+    `);
+
+    return new Promise(resolve => {
+      const modal = document.getElementById('project-import-modal')!;
+      modal.querySelectorAll('[data-import-choice]').forEach(button => {
+        button.addEventListener('click', () => {
+          const choice = button.getAttribute('data-import-choice');
+          modal.remove();
+          resolve(choice === 'cancel' ? null : choice as 'KEEP_BOTH' | 'REPLACE' | '');
+        });
+      });
+    });
+  }
+
   /**
    * Show projects list (go back from workspace)
    */
   public showProjectsList() {
     const projectsSection = document.getElementById('projects');
     if (!projectsSection) return;
+    projectAccess.clear();
 
     // Restore the original projects section HTML
     projectsSection.innerHTML = `
       <div class="card">
         <div class="projects-header">
           <h2>Projects</h2>
-          <button id="create-project-btn" class="btn btn-primary">
-            Create New Project
-          </button>
+          <div class="projects-header-actions">
+            <button id="import-project-btn" class="btn btn-secondary">
+              📦 Import Project
+            </button>
+            <button id="create-project-btn" class="btn btn-primary">
+              Create New Project
+            </button>
+          </div>
         </div>
         <p>Manage your satirical video production projects</p>
         
@@ -931,6 +1174,11 @@ ${article.processing_notes ? `Processing Notes: ${article.processing_notes}` : '
         module.projectCreationModal.open();
       });
     });
+
+    const importBtn = document.getElementById('import-project-btn');
+    importBtn?.addEventListener('click', () => {
+      this.importProject();
+    });
   }
 
   /**
@@ -0,0 +1,255 @@
+// Revision History Panel Component
+// Lists the revisions of a script, creative strategy, director's notes or storyboard, diffs any two versions and restores earlier ones
+
+import { Revision, RevisionEntityType } from '../../shared/types/index.js';
+import { DiffLine, DiffPart, diffLines, summarizeDiff, toSideBySide } from '../../shared/utils/diff.js';
+import { REVISION_PERMISSIONS } from '../../shared/utils/permissions.js';
+import { formatRevisionSnapshot } from '../../shared/utils/revisions.js';
+
+export interface RevisionHistoryOptions {
+  entityType: RevisionEntityType;
+  entityId: string;
+  title: string;
+  onRestore?: (revision: Revision) => void | Promise<void>;
+}
+
+type DiffMode = 'side-by-side' | 'inline';
+
+export class RevisionHistoryPanel {
+  private options: RevisionHistoryOptions | null = null;
+  private revisions: Revision[] = [];
+  private fromVersion = 0;
+  private toVersion = 0;
+  private mode: DiffMode = 'side-by-side';
+
+  /**
+   * Open the history for an entity, comparing its two latest versions
+   */
+  public async open(options: RevisionHistoryOptions): Promise<void> {
+    this.options = options;
+    await this.loadRevisions();
+    if (!this.options) return;
+
+    this.toVersion = this.revisions[0]?.version || 0;
+    this.fromVersion = this.revisions[1]?.version || this.toVersion;
+    this.render();
+  }
+
+  /**
+   * Close the panel
+   */
+  public close(): void {
+    document.getElementById('revision-history-modal')?.remove();
+    this.options = null;
+    this.revisions = [];
+  }
+
+  private async loadRevisions(): Promise<void> {
+    const result = await window.electronAPI.database.getRevisions(this.options!.entityType, this.options!.entityId);
+    if (!result.success) {
+      alert(`❌ Failed to load revision history: ${result.error}`);
+      this.close();
+      return;
+    }
+    this.revisions = result.data || [];
+  }
+
+  private render(): void {
+    const { title } = this.options!;
+    const latestVersion = this.revisions[0]?.version;
+    const versionOptions = (selected: number) => this.revisions
+      .map(revision => `<option value="${revision.version}" ${revision.version === selected ? 'selected' : ''}>v${revision.version}</option>`)
+      .join('');
+
+    document.getElementById('revision-history-modal')?.remove();
+    document.body.insertAdjacentHTML('beforeend', `
+      <div id="revision-history-modal" class="modal-overlay" style="display: flex;">
+        <div class="modal-content revision-history-modal">
+          <div class="modal-header">
+            <h2>🕘 ${this.escapeHtml(title)} History</h2>
+            <button class="modal-close" id="close-revision-history">&times;</button>
+          </div>
+
+          ${this.revisions.length === 0 ? `
+            <p class="form-hint">No revisions yet. Save to start the history.</p>
+          ` : `
+            <div class="revision-history-body">
+              <ul class="revision-list">
+                ${this.revisions.map(revision => `
+                  <li class="revision-item ${revision.version === this.toVersion ? 'selected' : ''}" data-revision-version="${revision.version}">
+                    <div class="revision-item-header">
+                      <strong>v${revision.version}</strong>
+                      ${revision.version === latestVersion ? '<span class="revision-current">Current</span>' : ''}
+                      <small>${new Date(revision.created_at).toLocaleString()}</small>
+                    </div>
+                    ${revision.change_note ? `<div class="revision-note">${this.escapeHtml(revision.change_note)}</div>` : ''}
+                    ${revision.created_by ? `<small class="revision-author">by ${this.escapeHtml(revision.created_by)}</small>` : ''}
+                    ${revision.version !== latestVersion ? `
+                      <button type="button" class="btn btn-outline btn-sm" data-restore-version="${revision.version}" data-permission="${REVISION_PERMISSIONS[this.options!.entityType]}">↩️ Restore</button>
+                    ` : ''}
+                  </li>
+                `).join('')}
+              </ul>
+
+              <div class="revision-compare">
+                <div class="revision-compare-controls">
+                  <label>Compare
+                    <select id="revision-from">${versionOptions(this.fromVersion)}</select>
+                  </label>
+                  <label>with
+                    <select id="revision-to">${versionOptions(this.toVersion)}</select>
+                  </label>
+                  <div class="revision-mode-toggle">
+                    <button type="button" class="btn btn-sm ${this.mode === 'side-by-side' ? 'btn-primary' : 'btn-outline'}" data-diff-mode="side-by-side">Side by side</button>
+                    <button type="button" class="btn btn-sm ${this.mode === 'inline' ? 'btn-primary' : 'btn-outline'}" data-diff-mode="inline">Inline</button>
+                  </div>
+                </div>
+                <div id="revision-diff" class="revision-diff">
+                  ${this.renderDiff()}
+                </div>
+              </div>
+            </div>
+          `}
+        </div>
+      </div>
+    `);
+
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    const modal = document.getElementById('revision-history-modal');
+    if (!modal) return;
+
+    document.getElementById('close-revision-history')?.addEventListener('click', () => this.close());
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) this.close();
+    });
+
+    modal.querySelectorAll('[data-revision-version]').forEach(item => {
+      item.addEventListener('click', () => {
+        // Selecting a revision compares it with the one before it
+        const version = parseInt(item.getAttribute('data-revision-version')!, 10);
+        const index = this.revisions.findIndex(revision => revision.version === version);
+        this.toVersion = version;
+        this.fromVersion = this.revisions[index + 1]?.version ?? version;
+        this.render();
+      });
+    });
+
+    modal.querySelectorAll('[data-restore-version]').forEach(button => {
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.restore(parseInt(button.getAttribute('data-restore-version')!, 10));
+      });
+    });
+
+    (['revision-from', 'revision-to'] as const).forEach(id => {
+      document.getElementById(id)?.addEventListener('change', (e) => {
+        const version = parseInt((e.target as HTMLSelectElement).value, 10);
+        if (id === 'revision-from') {
+          this.fromVersion = version;
+        } else {
+          this.toVersion = version;
+        }
+        this.render();
+      });
+    });
+
+    modal.querySelectorAll('[data-diff-mode]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.mode = button.getAttribute('data-diff-mode') as DiffMode;
+        this.render();
+      });
+    });
+  }
+
+  private renderDiff(): string {
+    const from = this.revisions.find(revision => revision.version === this.fromVersion);
+    const to = this.revisions.find(revision => revision.version === this.toVersion);
+    if (!from || !to) return '';
+
+    const type = this.options!.entityType;
+    const lines = diffLines(formatRevisionSnapshot(type, from.snapshot), formatRevisionSnapshot(type, to.snapshot));
+    const { added, removed } = summarizeDiff(lines);
+    const summary = from.version === to.version
+      ? `Showing v${to.version}`
+      : `v${from.version} → v${to.version}: +${added} / −${removed} lines`;
+
+    if (this.mode === 'inline') {
+      return `
+        <div class="revision-diff-summary">${summary}</div>
+        <table class="diff-table diff-inline">
+          ${lines.map(line => `
+            <tr class="diff-${line.op}">
+              <td class="diff-line-number">${line.old_line ?? ''}</td>
+              <td class="diff-line-number">${line.new_line ?? ''}</td>
+              <td class="diff-marker">${this.marker(line)}</td>
+              <td class="diff-text">${this.renderLineText(line)}</td>
+            </tr>
+          `).join('')}
+        </table>
+      `;
+    }
+
+    return `
+      <div class="revision-diff-summary">${summary}</div>
+      <table class="diff-table diff-side-by-side">
+        ${toSideBySide(lines).map(({ left, right }) => `
+          <tr>
+            <td class="diff-line-number">${left?.old_line ?? ''}</td>
+            <td class="diff-text ${left ? `diff-${left.op}` : 'diff-empty'}">${left ? this.renderLineText(left) : ''}</td>
+            <td class="diff-line-number">${right?.new_line ?? ''}</td>
+            <td class="diff-text ${right ? `diff-${right.op}` : 'diff-empty'}">${right ? this.renderLineText(right) : ''}</td>
+          </tr>
+        `).join('')}
+      </table>
+    `;
+  }
+
+  private renderLineText(line: DiffLine): string {
+    if (!line.words) return this.escapeHtml(line.text) || '&nbsp;';
+    return line.words
+      .map((part: DiffPart) => part.op === 'equal'
+        ? this.escapeHtml(part.text)
+        : `<mark class="diff-word-${part.op}">${this.escapeHtml(part.text)}</mark>`)
+      .join('') || '&nbsp;';
+  }
+
+  private marker(line: DiffLine): string {
+    return line.op === 'insert' ? '+' : line.op === 'delete' ? '−' : '';
+  }
+
+  private async restore(version: number): Promise<void> {
+    if (!this.options) return;
+    if (!confirm(`Restore version ${version}? The current content is kept in the history and the restored content becomes a new version.`)) return;
+
+    try {
+      const result = await window.electronAPI.database.restoreRevision(this.options.entityType, this.options.entityId, version);
+      if (!result.success) {
+        alert(`❌ ${result.error || 'Failed to restore revision'}`);
+        return;
+      }
+
+      const onRestore = this.options.onRestore;
+      await this.loadRevisions();
+      this.toVersion = result.data.version;
+      this.fromVersion = version;
+      this.render();
+
+      await onRestore?.(result.data);
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert('❌ Failed to restore revision. Please try again.');
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Export singleton instance
+export const revisionHistoryPanel = new RevisionHistoryPanel();
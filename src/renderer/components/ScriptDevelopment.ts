@@ -1,13 +1,21 @@
 // Script Development Component for Satirical Screenwriter
 // Handles script writing workflow with AI assistance and creative strategy integration
 
-import { Script, CreativeStrategy, PersonaType } from '../../shared/types/index.js';
+import { Script, CreativeStrategy, PersonaType, ScreenplayExportFormat, CommentAnchor, TerminologyGuidance } from '../../shared/types/index.js';
+import { parseScreenplay, summarizeScreenplay, toFountain } from '../../shared/utils/screenplay.js';
+import { revisionHistoryPanel } from './RevisionHistoryPanel.js';
+import { ApprovalPanel } from './ApprovalPanel.js';
+import { commentsPanel } from './CommentsPanel.js';
+import { TerminologyLint } from './TerminologyLint.js';
 
 export class ScriptDevelopment {
   private currentProjectId: string | null = null;
   private currentScript: Script | null = null;
   private creativeStrategy: CreativeStrategy | null = null;
   private conversationId: string | null = null;
+  private activeStreamId: string | null = null;
+  private terminology: TerminologyGuidance[] = [];
+  private scriptLint: TerminologyLint | null = null;
 
   /**
    * Initialize script development for a project
@@ -21,6 +29,9 @@ export class ScriptDevelopment {
       
       // Load existing script or prepare for new one
       await this.loadExistingScript();
+
+      // Terms the project's satirical lens avoids are highlighted as the script is written
+      this.terminology = await TerminologyLint.loadTerminology(projectId);
       
       // Initialize conversation for AI assistance
       this.conversationId = `script-${projectId}-${Date.now()}`;
@@ -119,26 +130,41 @@ export class ScriptDevelopment {
                   rows="20" 
                   placeholder="Write your complete script with dialogue, narration, and scene descriptions..."
                 >${this.currentScript?.content || ''}</textarea>
-                <small class="form-hint">Complete script with character dialogue, stage directions, and voiceover narration</small>
+                <small class="form-hint">Screenplay format (Fountain): INT./EXT. scene headings, CHARACTER NAMES in caps above their dialogue, (parentheticals) and TRANSITIONS TO:</small>
+              </div>
+
+              <div id="script-structure" class="script-structure">
+                ${this.renderScriptStructure(this.currentScript?.content || '')}
               </div>
 
               <div class="script-actions">
-                <button type="button" id="save-script-btn" class="btn btn-primary">
+                <button type="button" id="save-script-btn" data-permission="script:edit" class="btn btn-primary">
                   💾 Save Script
                 </button>
                 <button type="button" id="validate-script-btn" class="btn btn-secondary">
                   ✅ Validate & Review
                 </button>
-                ${this.currentScript?.status === 'DRAFT' ? `
-                  <button type="button" id="submit-approval-btn" class="btn btn-success">
-                    📋 Submit for Approval
-                  </button>
+              </div>
+
+              <div class="script-actions script-export-actions">
+                <button type="button" id="format-screenplay-btn" data-permission="script:edit" class="btn btn-outline btn-sm" title="Rewrite the script in standard screenplay layout">
+                  🎬 Format as Screenplay
+                </button>
+                <button type="button" class="btn btn-outline btn-sm" data-export-format="FOUNTAIN">📄 Export Fountain</button>
+                <button type="button" class="btn btn-outline btn-sm" data-export-format="FDX">🎞️ Export Final Draft</button>
+                <button type="button" class="btn btn-outline btn-sm" data-export-format="PDF">🖨️ Export PDF</button>
+                <button type="button" id="import-fountain-btn" data-permission="script:edit" class="btn btn-outline btn-sm">📥 Import Fountain</button>
+                ${this.currentScript ? `
+                  <button type="button" id="script-history-btn" class="btn btn-outline btn-sm">🕘 History</button>
+                  <button type="button" id="script-comments-btn" class="btn btn-outline btn-sm" title="Comment on the selected lines, or the whole script">💬 Comments</button>
                 ` : ''}
               </div>
 
               <div id="script-status" class="script-status">
                 ${this.renderScriptStatus()}
               </div>
+
+              <div id="script-approval"></div>
             </div>
           </div>
 
@@ -164,7 +190,8 @@ export class ScriptDevelopment {
                       rows="4"
                       style="min-height: 80px; resize: vertical;"
                     ></textarea>
-                    <button id="script-send-message" class="chat-send-btn">Send</button>
+                    <button id="script-send-message" data-permission="ai:use" class="chat-send-btn">Send</button>
+                    <button id="script-cancel-message" class="chat-cancel-btn" style="display: none;">Stop</button>
                   </div>
                 </div>
               </div>
@@ -229,6 +256,35 @@ export class ScriptDevelopment {
     `;
   }
 
+  /**
+   * Render the parsed screenplay structure (scenes, speaking characters, page count)
+   */
+  private renderScriptStructure(content: string): string {
+    if (!content.trim()) {
+      return '<small class="form-hint">Scene and character breakdown will appear here as you write.</small>';
+    }
+
+    const summary = summarizeScreenplay(parseScreenplay(content));
+
+    return `
+      <div class="structure-stats">
+        <span><strong>${summary.page_count}</strong> page${summary.page_count === 1 ? '' : 's'}</span>
+        <span><strong>${summary.scenes.length}</strong> scene${summary.scenes.length === 1 ? '' : 's'}</span>
+        <span><strong>${summary.characters.length}</strong> speaking character${summary.characters.length === 1 ? '' : 's'}</span>
+      </div>
+      ${summary.scenes.length > 0 ? `
+        <ol class="structure-scenes">
+          ${summary.scenes.map(scene => `<li>${this.escapeHtml(scene)}</li>`).join('')}
+        </ol>
+      ` : '<small class="form-hint">No scene headings yet - start scenes with INT. or EXT.</small>'}
+      ${summary.characters.length > 0 ? `
+        <div class="structure-characters">
+          ${summary.characters.map(character => `<span class="structure-character">${this.escapeHtml(character.name)} <small>${character.lines}</small></span>`).join('')}
+        </div>
+      ` : ''}
+    `;
+  }
+
   /**
    * Render script status
    */
@@ -305,10 +361,8 @@ export class ScriptDevelopment {
       this.validateScript();
     });
 
-    // Submit for approval button
-    document.getElementById('submit-approval-btn')?.addEventListener('click', () => {
-      this.submitForApproval();
-    });
+    this.renderApprovalPanel();
+    this.attachTerminologyLint();
 
     // AI chat functionality
     const sendButton = document.getElementById('script-send-message');
@@ -347,6 +401,10 @@ export class ScriptDevelopment {
       this.sendAIMessage();
     });
 
+    document.getElementById('script-cancel-message')?.addEventListener('click', () => {
+      this.cancelAIMessage();
+    });
+
     userInput?.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
@@ -365,6 +423,184 @@ export class ScriptDevelopment {
 
     document.getElementById('script-outline')?.addEventListener('input', autoSave);
     document.getElementById('script-content')?.addEventListener('input', autoSave);
+
+    // Keep the structure breakdown in step with the editor
+    let structureTimeout: NodeJS.Timeout;
+    document.getElementById('script-content')?.addEventListener('input', () => {
+      clearTimeout(structureTimeout);
+      structureTimeout = setTimeout(() => this.updateScriptStructure(), 300);
+    });
+
+    // Screenplay formatting, export and import
+    document.getElementById('format-screenplay-btn')?.addEventListener('click', () => {
+      this.formatAsScreenplay();
+    });
+
+    document.querySelectorAll('[data-export-format]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.exportScript(button.getAttribute('data-export-format') as ScreenplayExportFormat);
+      });
+    });
+
+    document.getElementById('import-fountain-btn')?.addEventListener('click', () => {
+      this.importFountainScript();
+    });
+
+    document.getElementById('script-history-btn')?.addEventListener('click', () => {
+      this.showHistory();
+    });
+
+    // Comments button
+    document.getElementById('script-comments-btn')?.addEventListener('click', () => {
+      this.showComments();
+    });
+  }
+
+  /**
+   * Highlight the lens's avoided terms in the outline and script, with its preferred terms as quick fixes
+   */
+  private attachTerminologyLint(): void {
+    const outline = document.getElementById('script-outline') as HTMLTextAreaElement | null;
+    const content = document.getElementById('script-content') as HTMLTextAreaElement | null;
+
+    if (outline) {
+      new TerminologyLint({ field: outline, terminology: this.terminology, permission: 'script:edit' }).attach();
+    }
+    this.scriptLint = content
+      ? new TerminologyLint({ field: content, terminology: this.terminology, script: true, permission: 'script:edit' }).attach()
+      : null;
+  }
+
+  /**
+   * Open the script's comment threads; a selection in the editor anchors a new thread to those lines
+   */
+  private async showComments(): Promise<void> {
+    if (!this.currentScript || !this.currentProjectId) return;
+
+    const editor = document.getElementById('script-content') as HTMLTextAreaElement;
+    let anchor: CommentAnchor | undefined;
+    if (editor && editor.selectionEnd > editor.selectionStart) {
+      const lineAt = (offset: number) => editor.value.slice(0, offset).split('\n').length;
+      anchor = {
+        line_start: lineAt(editor.selectionStart),
+        line_end: lineAt(editor.selectionEnd - 1), // Line of the last selected character
+        quote: editor.value.slice(editor.selectionStart, editor.selectionEnd).trim()
+      };
+    }
+
+    await commentsPanel.open({
+      projectId: this.currentProjectId,
+      targetType: 'script',
+      targetId: this.currentScript.id,
+      title: 'Script',
+      anchor
+    });
+  }
+
+  /**
+   * Open the revision history; a restored version is loaded back into the editor
+   */
+  private async showHistory(): Promise<void> {
+    if (!this.currentScript) return;
+
+    await this.saveScript(true);
+    await revisionHistoryPanel.open({
+      entityType: 'SCRIPT',
+      entityId: this.currentScript.id,
+      title: 'Script',
+      onRestore: async () => {
+        const result = await window.electronAPI.database.getScriptById(this.currentScript!.id);
+        if (!result.success) return;
+
+        this.currentScript = result.data;
+        this.renderScriptInterface();
+        setTimeout(() => {
+          this.setupEventHandlers();
+        }, 100);
+      }
+    });
+  }
+
+  /**
+   * Refresh the structure breakdown from the editor contents
+   */
+  private updateScriptStructure(): void {
+    const contentEl = document.getElementById('script-content') as HTMLTextAreaElement;
+    const structureEl = document.getElementById('script-structure');
+    if (contentEl && structureEl) {
+      structureEl.innerHTML = this.renderScriptStructure(contentEl.value);
+    }
+  }
+
+  /**
+   * Rewrite the editor contents as Fountain, e.g. turning "NAME: line" dialogue into character blocks
+   */
+  private formatAsScreenplay(): void {
+    const contentEl = document.getElementById('script-content') as HTMLTextAreaElement;
+    if (!contentEl || !contentEl.value.trim()) return;
+
+    const formatted = toFountain(parseScreenplay(contentEl.value)).trim();
+    if (formatted === contentEl.value.trim()) {
+      alert('✅ Script is already in screenplay format.');
+      return;
+    }
+
+    if (!confirm('Rewrite the script in standard screenplay format? Scene headings, character cues and dialogue will be laid out as Fountain.')) {
+      return;
+    }
+
+    contentEl.value = formatted;
+    contentEl.dispatchEvent(new Event('input'));
+  }
+
+  /**
+   * Save the script, then export it as Fountain, Final Draft (FDX) or PDF
+   */
+  private async exportScript(format: ScreenplayExportFormat): Promise<void> {
+    try {
+      await this.saveScript(true);
+      if (!this.currentScript) {
+        alert('Please write and save the script before exporting.');
+        return;
+      }
+
+      const result = await window.electronAPI.database.exportScript(this.currentScript.id, format);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      if (result.data) {
+        alert(`✅ Script exported (${result.data.page_count} page${result.data.page_count === 1 ? '' : 's'}) to:\n${result.data.file_path}`);
+      }
+    } catch (error) {
+      console.error('Failed to export script:', error);
+      alert(`❌ Failed to export script: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Import a Fountain file as a new draft script and open it in the editor
+   */
+  private async importFountainScript(): Promise<void> {
+    try {
+      if (!this.currentProjectId) return;
+
+      const result = await window.electronAPI.database.importFountainScript(this.currentProjectId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      if (!result.data) return; // File dialog cancelled
+
+      this.currentScript = result.data;
+      this.renderScriptInterface();
+      setTimeout(() => {
+        this.setupEventHandlers();
+      }, 100);
+      alert('✅ Fountain script imported as a new draft.');
+    } catch (error) {
+      console.error('Failed to import Fountain script:', error);
+      alert(`❌ Failed to import Fountain script: ${error instanceof Error ? error.message : error}`);
+    }
   }
 
   /**
@@ -388,12 +624,11 @@ export class ScriptDevelopment {
       if (!this.currentProjectId) return;
 
       if (this.currentScript) {
-        // Update existing script
+        // Update existing script; auto-saves keep a working copy, explicit saves record a revision
         const result = await window.electronAPI.database.updateScript(this.currentScript.id, {
           outline,
-          content,
-          status: 'DRAFT'
-        });
+          content
+        }, { revision: !silent });
 
         if (result.success) {
           this.currentScript = result.data;
@@ -478,6 +713,12 @@ export class ScriptDevelopment {
       issues.push('Script should include character dialogue or narration');
     }
 
+    // Dialogue and quotes may use the target's language; the script's own voice should not
+    const avoided = (this.scriptLint?.getMatches() || []).filter(match => match.usage === 'narrative');
+    if (avoided.length > 0) {
+      issues.push(`Uses ${avoided.length} term${avoided.length === 1 ? '' : 's'} the satirical lens avoids outside dialogue (${[...new Set(avoided.map(match => match.text.toLowerCase()))].join(', ')})`);
+    }
+
     if (issues.length === 0) {
       alert('✅ Script validation passed! Ready for approval.');
     } else {
@@ -486,48 +727,38 @@ export class ScriptDevelopment {
   }
 
   /**
-   * Submit script for approval
+   * Render the approval workflow for the saved script
    */
-  private async submitForApproval(): Promise<void> {
-    try {
-      if (!this.currentScript) {
-        alert('Please save the script first.');
-        return;
-      }
-
-      // First validate
-      this.validateScript();
-
-      const result = await window.electronAPI.database.updateScript(this.currentScript.id, {
-        status: 'APPROVED'
-      });
-
-      if (result.success) {
-        this.currentScript = result.data;
-        alert('✅ Script submitted for approval!');
-        this.updateScriptStatus();
-        
-        // Trigger navigation to next step (storyboard)
-        window.dispatchEvent(new CustomEvent('scriptApproved', {
-          detail: { scriptId: this.currentScript?.id, projectId: this.currentProjectId }
-        }));
-      } else {
-        throw new Error(result.error);
+  private async renderApprovalPanel(): Promise<void> {
+    if (!this.currentScript || !this.currentProjectId) return;
+
+    await new ApprovalPanel({
+      containerId: 'script-approval',
+      projectId: this.currentProjectId,
+      entityType: 'SCRIPT',
+      entityId: this.currentScript.id,
+      onChange: async () => {
+        // The main process keeps the script's status in step with its approval
+        const result = await window.electronAPI.database.getScriptById(this.currentScript!.id);
+        if (result.success) {
+          this.currentScript = result.data;
+          this.updateScriptStatus(false);
+        }
       }
-    } catch (error) {
-      console.error('Failed to submit script for approval:', error);
-      alert('❌ Failed to submit script for approval. Please try again.');
-    }
+    }).render();
   }
 
   /**
    * Update script status display
    */
-  private updateScriptStatus(): void {
+  private updateScriptStatus(refreshApproval: boolean = true): void {
     const statusEl = document.getElementById('script-status');
     if (statusEl) {
       statusEl.innerHTML = this.renderScriptStatus();
     }
+    if (refreshApproval) {
+      this.renderApprovalPanel();
+    }
   }
 
   /**
@@ -607,26 +838,56 @@ ${context.news_article ? `- News Article: "${context.news_article.headline}"` :
 
 Please use this context in your response.`;
       
-      // Send to AI with agent config
-      const response = await window.electronAPI.llm.generatePersonaResponse(
+      // Stream the reply into a single message bubble as tokens arrive
+      const streamId = `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      let streamedMessage = null as HTMLElement | null;
+      let streamedText = '';
+      this.activeStreamId = streamId;
+      this.toggleCancelButton(true);
+
+      const response = await window.electronAPI.llm.streamPersonaResponse(
+        this.currentProjectId!,
+        streamId,
         this.conversationId,
         'SATIRICAL_SCREENWRITER',
         enhancedMessage,
         context,
-        agentConfig
+        agentConfig,
+        (token: string) => {
+          streamedText += token;
+          if (!streamedMessage) {
+            streamedMessage = this.addMessageToChat('ai', streamedText);
+          } else {
+            this.updateChatMessage(streamedMessage, streamedText);
+          }
+        }
       );
 
       if (response.success && response.data) {
-        this.addMessageToChat('ai', response.data);
+        if (streamedMessage) {
+          this.updateChatMessage(streamedMessage, response.data);
+        } else {
+          this.addMessageToChat('ai', response.data);
+        }
+      } else if (response.cancelled) {
+        const stoppedText = `${response.data || ''}\n\n(Response stopped)`.trim();
+        if (streamedMessage) {
+          this.updateChatMessage(streamedMessage, stoppedText);
+        } else {
+          this.addMessageToChat('ai', stoppedText);
+        }
       } else {
+        streamedMessage?.closest('.chat-message')?.remove();
         console.error('AI response error:', response);
-        console.error('Full response object:', JSON.stringify(response, null, 2));
         this.addMessageToChat('ai', `Sorry, I encountered an error: ${response.error || 'Unknown error'}. Please check that the Satirical Screenwriter agent is properly configured in Settings.`);
       }
     } catch (error) {
       console.error('Failed to send AI message:', error);
       this.addMessageToChat('ai', 'Sorry, I encountered an error. Please try again.');
     } finally {
+      this.activeStreamId = null;
+      this.toggleCancelButton(false);
+
       // Re-enable input and focus it
       userInput.disabled = false;
       if (sendButton) sendButton.disabled = false;
@@ -639,11 +900,35 @@ Please use this context in your response.`;
   }
 
   /**
-   * Add message to chat display
+   * Cancel the AI response that is currently streaming
    */
-  private addMessageToChat(sender: 'user' | 'ai', message: string): void {
+  private async cancelAIMessage(): Promise<void> {
+    if (!this.activeStreamId) return;
+
+    try {
+      await window.electronAPI.llm.cancelStream(this.activeStreamId);
+    } catch (error) {
+      console.error('Failed to cancel AI message:', error);
+    }
+  }
+
+  /**
+   * Show the stop button in place of send while a response is streaming
+   */
+  private toggleCancelButton(streaming: boolean): void {
+    const sendButton = document.getElementById('script-send-message');
+    const cancelButton = document.getElementById('script-cancel-message');
+
+    if (sendButton) sendButton.style.display = streaming ? 'none' : '';
+    if (cancelButton) cancelButton.style.display = streaming ? '' : 'none';
+  }
+
+  /**
+   * Add message to chat display, returning its text element so it can be updated while streaming
+   */
+  private addMessageToChat(sender: 'user' | 'ai', message: string): HTMLElement | null {
     const messagesContainer = document.getElementById('script-chat-messages');
-    if (!messagesContainer) return;
+    if (!messagesContainer) return null;
 
     const messageDiv = document.createElement('div');
     messageDiv.className = `chat-message ${sender}-message`;
@@ -664,6 +949,29 @@ Please use this context in your response.`;
 
     messagesContainer.appendChild(messageDiv);
     messagesContainer.scrollTop = messagesContainer.scrollHeight;
+
+    return messageDiv.querySelector('.message-text');
+  }
+
+  /**
+   * Replace the text of a chat message that is being streamed
+   */
+  private updateChatMessage(messageText: HTMLElement, message: string): void {
+    messageText.innerHTML = message;
+
+    const messagesContainer = document.getElementById('script-chat-messages');
+    if (messagesContainer) {
+      messagesContainer.scrollTop = messagesContainer.scrollHeight;
+    }
+  }
+
+  /**
+   * Escape HTML to prevent XSS
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
   }
 
   /**
@@ -0,0 +1,183 @@
+// Session Menu Component
+// Shows who is signed in in the app header and lets teammates sign in, create an account or sign out
+
+import { PersonaType } from '../../shared/types/index.js';
+import { projectAccess } from './ProjectAccess.js';
+
+type SessionMode = 'SIGN_IN' | 'REGISTER';
+
+// Project director accounts are app admins, so they can only be granted by another director
+const ACCOUNT_ROLES: { value: PersonaType; label: string }[] = [
+  { value: 'CREATIVE_STRATEGIST', label: 'Creative Strategist' },
+  { value: 'SATIRICAL_SCREENWRITER', label: 'Screenwriter' },
+  { value: 'CINEMATIC_STORYBOARDER', label: 'Storyboarder' },
+  { value: 'SOUNDSCAPE_ARCHITECT', label: 'Sound Designer' },
+  { value: 'VIDEO_PROMPT_ENGINEER', label: 'Video Prompt Engineer' }
+];
+
+export class SessionMenu {
+  private mode: SessionMode = 'SIGN_IN';
+
+  /**
+   * Load the session and render the menu into the header
+   */
+  public async initialize(): Promise<void> {
+    await projectAccess.loadSession();
+    this.render();
+  }
+
+  private render(): void {
+    const container = document.getElementById('session-menu');
+    if (!container) return;
+
+    const user = projectAccess.currentUser;
+    container.innerHTML = user ? `
+      <span class="session-user" title="${this.escapeHtml(user.email)}">👤 ${this.escapeHtml(user.name)}</span>
+      <button type="button" class="btn btn-sm btn-outline session-btn" id="session-switch-btn">Switch User</button>
+      <button type="button" class="btn btn-sm btn-outline session-btn" id="session-sign-out-btn">Sign Out</button>
+    ` : `
+      <span class="session-user">Signed out</span>
+      <button type="button" class="btn btn-sm btn-primary session-btn" id="session-sign-in-btn">Sign In</button>
+    `;
+
+    document.getElementById('session-switch-btn')?.addEventListener('click', () => this.openModal('SIGN_IN'));
+    document.getElementById('session-sign-in-btn')?.addEventListener('click', () => this.openModal('SIGN_IN'));
+    document.getElementById('session-sign-out-btn')?.addEventListener('click', () => this.signOut());
+  }
+
+  private openModal(mode: SessionMode): void {
+    this.mode = mode;
+    this.closeModal();
+
+    document.body.insertAdjacentHTML('beforeend', `
+      <div id="session-modal" class="modal-overlay" style="display: flex;">
+        <div class="modal-content session-modal">
+          <div class="modal-header">
+            <h2>${mode === 'SIGN_IN' ? 'Sign In' : 'Create Account'}</h2>
+            <button class="modal-close" id="close-session-modal">&times;</button>
+          </div>
+
+          <form id="session-form" class="modal-form">
+            ${mode === 'REGISTER' ? `
+              <div class="form-group">
+                <label for="session-name">Name *</label>
+                <input type="text" id="session-name" required maxlength="100">
+              </div>
+            ` : ''}
+            <div class="form-group">
+              <label for="session-email">Email *</label>
+              <input type="email" id="session-email" required>
+            </div>
+            <div class="form-group">
+              <label for="session-password">Password *</label>
+              <input type="password" id="session-password" required ${mode === 'REGISTER' ? 'minlength="8"' : ''}>
+            </div>
+            ${mode === 'REGISTER' ? `
+              <div class="form-group">
+                <label for="session-role">Role</label>
+                <select id="session-role" class="form-control">
+                  ${ACCOUNT_ROLES.map(role => `<option value="${role.value}">${role.label}</option>`).join('')}
+                </select>
+                <small class="form-hint">What you can do on a project is set by its director when they add you to the team</small>
+              </div>
+            ` : ''}
+            <div class="form-error" id="session-error"></div>
+
+            <div class="form-actions">
+              <button type="button" class="btn btn-outline" id="session-toggle-mode">
+                ${mode === 'SIGN_IN' ? 'Create an account' : 'I have an account'}
+              </button>
+              <button type="submit" class="btn btn-primary">${mode === 'SIGN_IN' ? 'Sign In' : 'Create Account'}</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `);
+
+    const modal = document.getElementById('session-modal');
+    document.getElementById('close-session-modal')?.addEventListener('click', () => this.closeModal());
+    modal?.addEventListener('click', (e) => {
+      if (e.target === modal) this.closeModal();
+    });
+    document.getElementById('session-toggle-mode')?.addEventListener('click', () => {
+      this.openModal(this.mode === 'SIGN_IN' ? 'REGISTER' : 'SIGN_IN');
+    });
+    document.getElementById('session-form')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.submit();
+    });
+    (document.getElementById(mode === 'SIGN_IN' ? 'session-email' : 'session-name') as HTMLInputElement)?.focus();
+  }
+
+  private closeModal(): void {
+    document.getElementById('session-modal')?.remove();
+  }
+
+  private async submit(): Promise<void> {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value.trim() || '';
+    const email = value('session-email');
+    const password = (document.getElementById('session-password') as HTMLInputElement)?.value || '';
+
+    try {
+      if (this.mode === 'REGISTER') {
+        const registered = await window.electronAPI.database.register({
+          name: value('session-name'),
+          email,
+          password,
+          role: value('session-role') as PersonaType
+        });
+        if (!registered.success) {
+          this.showError(registered.error || 'Failed to create account');
+          return;
+        }
+      }
+
+      const result = await window.electronAPI.database.authenticateUser(email, password);
+      if (!result.success) {
+        this.showError(result.error || 'Failed to sign in');
+        return;
+      }
+
+      this.closeModal();
+      await this.sessionChanged();
+    } catch (error) {
+      console.error('Failed to sign in:', error);
+      this.showError('Failed to sign in. Please try again.');
+    }
+  }
+
+  private async signOut(): Promise<void> {
+    if (!confirm('Sign out? You will need to sign in again to make changes.')) return;
+
+    try {
+      await window.electronAPI.database.logout();
+      await this.sessionChanged();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+      alert('❌ Failed to sign out. Please try again.');
+    }
+  }
+
+  /**
+   * Refresh the menu and let the rest of the app reload for the new user
+   */
+  private async sessionChanged(): Promise<void> {
+    await projectAccess.loadSession();
+    this.render();
+    window.dispatchEvent(new CustomEvent('sessionChanged'));
+  }
+
+  private showError(message: string): void {
+    const error = document.getElementById('session-error');
+    if (error) error.textContent = message;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Export singleton instance
+export const sessionMenu = new SessionMenu();
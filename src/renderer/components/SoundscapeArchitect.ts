@@ -1,7 +1,11 @@
 // Soundscape Architect Component
 // Handles sound design for each shot - ambient sound, foley, SFX, and broadcast audio
 
-import { Shot, SoundNotes } from '../../shared/types/index.js';
+import { ApprovalStatus, Shot, SoundNotes } from '../../shared/types/index.js';
+import { APPROVAL_STATUS_LABELS } from '../../shared/utils/approval.js';
+import { SoundNotesOutput } from '../../services/structured-output.js';
+import { ApprovalPanel } from './ApprovalPanel.js';
+import { commentsPanel } from './CommentsPanel.js';
 
 export class SoundscapeArchitect {
   private currentProjectId: string | null = null;
@@ -9,7 +13,9 @@ export class SoundscapeArchitect {
   private currentStoryboard: any = null;
   private shots: Shot[] = [];
   private soundNotes: Map<string, SoundNotes> = new Map();
+  private approvalStatus: ApprovalStatus = 'DRAFT';
   private conversationId: string = '';
+  private activeStreamId: string | null = null;
 
   /**
    * Initialize sound design for a project
@@ -151,20 +157,22 @@ export class SoundscapeArchitect {
               </div>
 
               <div class="soundscape-actions">
-                <button type="button" id="save-soundscape-btn" class="btn btn-primary">
+                <button type="button" id="generate-sound-design-btn" data-permission="sound:edit" class="btn btn-secondary" ${this.shots.length > 0 ? '' : 'disabled'}>
+                  🤖 Generate Sound Design
+                </button>
+                <button type="button" id="save-soundscape-btn" data-permission="sound:edit" class="btn btn-primary">
                   💾 Save Sound Design
                 </button>
                 <button type="button" id="validate-soundscape-btn" class="btn btn-secondary">
                   ✅ Validate Audio Mix
                 </button>
-                <button type="button" id="submit-soundscape-approval-btn" class="btn btn-success">
-                  📋 Submit for Approval
-                </button>
               </div>
 
               <div id="soundscape-status" class="soundscape-status">
                 ${this.renderSoundscapeStatus()}
               </div>
+
+              <div id="soundscape-approval"></div>
             </div>
           </div>
 
@@ -190,7 +198,8 @@ export class SoundscapeArchitect {
                       rows="4"
                       style="min-height: 80px; resize: vertical;"
                     ></textarea>
-                    <button id="soundscape-send-message" class="chat-send-btn">Send</button>
+                    <button id="soundscape-send-message" data-permission="ai:use" class="chat-send-btn">Send</button>
+                    <button id="soundscape-cancel-message" class="chat-cancel-btn" style="display: none;">Stop</button>
                   </div>
                 </div>
               </div>
@@ -281,9 +290,12 @@ export class SoundscapeArchitect {
         <div class="shot-header">
           <h5>Shot ${shot.panel_number} (${shot.length_seconds}s)</h5>
           <div class="shot-actions">
-            <button type="button" class="btn btn-sm btn-secondary btn-edit-sound" data-shot-id="${shot.id}">
+            <button type="button" class="btn btn-sm btn-secondary btn-edit-sound" data-shot-id="${shot.id}" data-permission="sound:edit">
               🎵 Design Sound
             </button>
+            ${soundNote ? `
+              <button type="button" class="btn btn-sm btn-outline btn-sound-comments" data-shot-id="${shot.id}">💬 Comments</button>
+            ` : ''}
           </div>
         </div>
         
@@ -419,7 +431,7 @@ export class SoundscapeArchitect {
       </div>
       <div class="status-info">
         <span class="status-label">Status:</span>
-        <span class="status-value draft">Draft</span>
+        <span class="status-value ${this.approvalStatus.toLowerCase().replace('_', '-')}">${APPROVAL_STATUS_LABELS[this.approvalStatus]}</span>
       </div>
     `;
   }
@@ -467,9 +479,11 @@ export class SoundscapeArchitect {
       this.validateSoundscape();
     });
 
-    // Submit for approval button
-    document.getElementById('submit-soundscape-approval-btn')?.addEventListener('click', () => {
-      this.submitForApproval();
+    this.renderApprovalPanel();
+
+    // Generate sound design button
+    document.getElementById('generate-sound-design-btn')?.addEventListener('click', () => {
+      this.generateSoundDesign();
     });
 
     // Setup sound event listeners
@@ -502,6 +516,10 @@ export class SoundscapeArchitect {
       this.sendAIMessage();
     });
 
+    document.getElementById('soundscape-cancel-message')?.addEventListener('click', () => {
+      this.cancelAIMessage();
+    });
+
     userInput?.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
@@ -537,6 +555,31 @@ export class SoundscapeArchitect {
         if (shotId) this.hideSoundForm(shotId);
       });
     });
+
+    // Sound note comment buttons
+    document.querySelectorAll('.btn-sound-comments').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const shotId = (e.target as HTMLElement).getAttribute('data-shot-id');
+        if (shotId) this.showSoundComments(shotId);
+      });
+    });
+  }
+
+  /**
+   * Open the comment threads on a shot's sound notes
+   */
+  private async showSoundComments(shotId: string): Promise<void> {
+    const soundNote = this.soundNotes.get(shotId);
+    const shot = this.shots.find(s => s.id === shotId);
+    if (!soundNote || !this.currentProjectId) return;
+
+    await this.saveSoundscape(true); // Comments attach to stored sound notes
+    await commentsPanel.open({
+      projectId: this.currentProjectId,
+      targetType: 'sound_notes',
+      targetId: soundNote.id,
+      title: `Shot ${shot?.panel_number ?? ''} Sound`
+    });
   }
 
   /**
@@ -568,7 +611,7 @@ export class SoundscapeArchitect {
     const broadcastAudio = (document.getElementById(`broadcast-audio-${shotId}`) as HTMLTextAreaElement)?.value || '';
 
     const soundNote: SoundNotes = {
-      id: `sound-${shotId}-${Date.now()}`,
+      id: this.soundNotes.get(shotId)?.id || `sound-${shotId}-${Date.now()}`, // Stable so comments stay attached
       shot_id: shotId,
       ambient_foley: ambientFoley || undefined,
       specific_sfx: specificSfx || undefined,
@@ -585,6 +628,88 @@ export class SoundscapeArchitect {
     this.saveSoundscape(true); // Silent save
   }
 
+  /**
+   * Generate validated sound notes for every shot that does not have a sound design yet
+   */
+  private async generateSoundDesign(): Promise<void> {
+    const pendingShots = this.shots.filter(shot => !this.soundNotes.has(shot.id));
+    if (pendingShots.length === 0) {
+      alert('Every shot already has a sound design');
+      return;
+    }
+
+    const button = document.getElementById('generate-sound-design-btn') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = true;
+      button.textContent = '⏳ Generating Sound Design...';
+    }
+
+    try {
+      const { AgentConfigService } = await import('../../services/agent-config.js');
+      const agentConfig = AgentConfigService.getAgentConfig('SOUNDSCAPE_ARCHITECT');
+
+      const prompt = `Design the sound for the following shots. Return one entry per shot, using its panel number.
+Only design shots ${pendingShots.map(shot => shot.panel_number).join(', ')}.
+
+${this.generateShotsSummary()}`;
+
+      const result = await window.electronAPI.llm.generateStructuredOutput(
+        this.currentProjectId!,
+        'SOUNDSCAPE_ARCHITECT',
+        prompt,
+        'sound_notes',
+        {
+          projectId: this.currentProjectId,
+          current_script: this.currentScript,
+          current_storyboard: this.currentStoryboard
+        },
+        agentConfig
+      );
+
+      if (!result.success || !result.data) {
+        const details = result.validationErrors?.length ? `\n\n${result.validationErrors.join('\n')}` : '';
+        alert(`Failed to generate sound design: ${result.error}${details}`);
+        return;
+      }
+
+      const { sound_notes } = result.data as SoundNotesOutput;
+      let applied = 0;
+      sound_notes.forEach(note => {
+        const shot = pendingShots.find(s => s.panel_number === note.panel_number);
+        if (!shot) return;
+
+        this.soundNotes.set(shot.id, {
+          id: this.soundNotes.get(shot.id)?.id || `sound-${shot.id}-${Date.now()}`,
+          shot_id: shot.id,
+          ambient_foley: note.ambient_foley || undefined,
+          specific_sfx: note.specific_sfx || undefined,
+          broadcast_audio: note.broadcast_audio || undefined,
+          created_at: new Date(),
+          updated_at: new Date()
+        });
+        applied++;
+      });
+
+      if (applied === 0) {
+        alert('The generated sound design did not match any shots. Please try again.');
+        return;
+      }
+
+      this.refreshSoundShotsList();
+
+      // Auto-save
+      this.saveSoundscape(true); // Silent save
+    } catch (error) {
+      console.error('Failed to generate sound design:', error);
+      alert('Failed to generate sound design');
+    } finally {
+      if (button) {
+        button.disabled = false;
+        button.textContent = '🤖 Generate Sound Design';
+      }
+    }
+  }
+
   /**
    * Refresh sound shots list display
    */
@@ -650,18 +775,46 @@ ${context.shots_summary}
 
 Please provide specific sound design guidance based on this satirical news parody context and the shot details above.`;
       
-      // Send to AI with agent config
-      const response = await window.electronAPI.llm.generatePersonaResponse(
+      // Stream the reply into a single message bubble as tokens arrive
+      const streamId = `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      let streamedMessage = null as HTMLElement | null;
+      let streamedText = '';
+      this.activeStreamId = streamId;
+      this.toggleCancelButton(true);
+
+      const response = await window.electronAPI.llm.streamPersonaResponse(
+        this.currentProjectId!,
+        streamId,
         this.conversationId,
         'SOUNDSCAPE_ARCHITECT',
         enhancedMessage,
         context,
-        agentConfig
+        agentConfig,
+        (token: string) => {
+          streamedText += token;
+          if (!streamedMessage) {
+            streamedMessage = this.addMessageToChat('ai', streamedText);
+          } else {
+            this.updateChatMessage(streamedMessage, streamedText);
+          }
+        }
       );
 
       if (response.success && response.data) {
-        this.addMessageToChat('ai', response.data);
+        if (streamedMessage) {
+          this.updateChatMessage(streamedMessage, response.data);
+        } else {
+          this.addMessageToChat('ai', response.data);
+        }
+      } else if (response.cancelled) {
+        const stoppedText = `${response.data || ''}\n\n(Response stopped)`.trim();
+        if (streamedMessage) {
+          this.updateChatMessage(streamedMessage, stoppedText);
+        } else {
+          this.addMessageToChat('ai', stoppedText);
+        }
       } else {
+        streamedMessage?.closest('.chat-message')?.remove();
         console.error('AI response error:', response);
         this.addMessageToChat('ai', `Sorry, I encountered an error: ${response.error || 'Unknown error'}. Please check that the Soundscape Architect agent is properly configured in Settings.`);
       }
@@ -669,6 +822,9 @@ Please provide specific sound design guidance based on this satirical news parod
       console.error('Failed to send AI message:', error);
       this.addMessageToChat('ai', 'Sorry, I encountered an error. Please try again.');
     } finally {
+      this.activeStreamId = null;
+      this.toggleCancelButton(false);
+
       // Re-enable input and focus it
       userInput.disabled = false;
       if (sendButton) sendButton.disabled = false;
@@ -680,11 +836,35 @@ Please provide specific sound design guidance based on this satirical news parod
   }
 
   /**
-   * Add message to chat display
+   * Cancel the AI response that is currently streaming
+   */
+  private async cancelAIMessage(): Promise<void> {
+    if (!this.activeStreamId) return;
+
+    try {
+      await window.electronAPI.llm.cancelStream(this.activeStreamId);
+    } catch (error) {
+      console.error('Failed to cancel AI message:', error);
+    }
+  }
+
+  /**
+   * Show the stop button in place of send while a response is streaming
    */
-  private addMessageToChat(sender: 'user' | 'ai', message: string): void {
+  private toggleCancelButton(streaming: boolean): void {
+    const sendButton = document.getElementById('soundscape-send-message');
+    const cancelButton = document.getElementById('soundscape-cancel-message');
+
+    if (sendButton) sendButton.style.display = streaming ? 'none' : '';
+    if (cancelButton) cancelButton.style.display = streaming ? '' : 'none';
+  }
+
+  /**
+   * Add message to chat display, returning its text element so it can be updated while streaming
+   */
+  private addMessageToChat(sender: 'user' | 'ai', message: string): HTMLElement | null {
     const messagesContainer = document.getElementById('soundscape-chat-messages');
-    if (!messagesContainer) return;
+    if (!messagesContainer) return null;
 
     const messageDiv = document.createElement('div');
     messageDiv.className = `chat-message ${sender}-message`;
@@ -702,6 +882,20 @@ Please provide specific sound design guidance based on this satirical news parod
     
     messagesContainer.appendChild(messageDiv);
     messagesContainer.scrollTop = messagesContainer.scrollHeight;
+
+    return messageDiv.querySelector('.message-text');
+  }
+
+  /**
+   * Replace the text of a chat message that is being streamed
+   */
+  private updateChatMessage(messageText: HTMLElement, message: string): void {
+    messageText.innerHTML = message.replace(/\n/g, '<br>');
+
+    const messagesContainer = document.getElementById('soundscape-chat-messages');
+    if (messagesContainer) {
+      messagesContainer.scrollTop = messagesContainer.scrollHeight;
+    }
   }
 
   /**
@@ -775,15 +969,30 @@ Please provide specific sound design guidance based on this satirical news parod
   }
 
   /**
-   * Submit soundscape for approval
+   * Render the approval workflow for the project's sound design
    */
-  private async submitForApproval(): Promise<void> {
-    try {
-      // Implementation for submitting for approval
-      alert('📋 Sound design submitted for approval!');
-    } catch (error) {
-      console.error('Failed to submit soundscape for approval:', error);
-      alert('❌ Failed to submit sound design for approval. Please try again.');
+  private async renderApprovalPanel(): Promise<void> {
+    if (!this.currentProjectId) return;
+
+    const updateStatus = (status: ApprovalStatus) => {
+      this.approvalStatus = status;
+      const statusContainer = document.getElementById('soundscape-status');
+      if (statusContainer) {
+        statusContainer.innerHTML = this.renderSoundscapeStatus();
+      }
+    };
+
+    // Sound design is approved as a whole, so the project stands in for it
+    const state = await new ApprovalPanel({
+      containerId: 'soundscape-approval',
+      projectId: this.currentProjectId,
+      entityType: 'SOUND_DESIGN',
+      entityId: this.currentProjectId,
+      onChange: (changed) => updateStatus(changed.status)
+    }).render();
+
+    if (state) {
+      updateStatus(state.status);
     }
   }
 
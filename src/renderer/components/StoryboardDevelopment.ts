@@ -1,7 +1,14 @@
 // Storyboard Development Component
 // Handles visual design and storyboarding for the Cinematic Storyboarder persona
 
-import { Shot, Storyboard } from '../../shared/types/index.js';
+import { Shot, ShotListExportFormat, Storyboard, TerminologyGuidance } from '../../shared/types/index.js';
+import { SHOT_LIST_FRAME_RATES } from '../../shared/utils/shot-list.js';
+import { APPROVAL_STATUS_LABELS } from '../../shared/utils/approval.js';
+import { ShotsOutput } from '../../services/structured-output.js';
+import { revisionHistoryPanel } from './RevisionHistoryPanel.js';
+import { ApprovalPanel } from './ApprovalPanel.js';
+import { commentsPanel } from './CommentsPanel.js';
+import { TerminologyLint } from './TerminologyLint.js';
 
 export class StoryboardDevelopment {
   private currentProjectId: string | null = null;
@@ -9,7 +16,9 @@ export class StoryboardDevelopment {
   private creativeStrategy: any = null;
   private currentStoryboard: Storyboard | null = null;
   private conversationId: string = '';
+  private activeStreamId: string | null = null;
   private shots: Shot[] = [];
+  private terminology: TerminologyGuidance[] = [];
 
   /**
    * Initialize storyboard development for a project
@@ -71,6 +80,9 @@ export class StoryboardDevelopment {
           console.warn('No approved script found for storyboard development');
         }
       }
+
+      // Terms the project's satirical lens avoids are highlighted in shot descriptions
+      this.terminology = await TerminologyLint.loadTerminology(this.currentProjectId);
     } catch (error) {
       console.error('Failed to load project context:', error);
     }
@@ -144,7 +156,10 @@ export class StoryboardDevelopment {
               <div class="shots-container">
                 <div class="shots-header">
                   <h4>📸 Shot Breakdown</h4>
-                  <button type="button" id="add-shot-btn" class="btn btn-secondary">
+                  <button type="button" id="generate-shots-btn" data-permission="storyboard:edit" class="btn btn-secondary" ${this.currentScript ? '' : 'disabled'}>
+                    🤖 Generate Shots from Script
+                  </button>
+                  <button type="button" id="add-shot-btn" data-permission="storyboard:edit" class="btn btn-secondary">
                     ➕ Add Shot
                   </button>
                 </div>
@@ -159,20 +174,38 @@ export class StoryboardDevelopment {
               </div>
 
               <div class="storyboard-actions">
-                <button type="button" id="save-storyboard-btn" class="btn btn-primary">
+                <button type="button" id="save-storyboard-btn" data-permission="storyboard:edit" class="btn btn-primary">
                   💾 Save Storyboard
                 </button>
                 <button type="button" id="validate-storyboard-btn" class="btn btn-secondary">
                   ✅ Validate Timing
                 </button>
-                <button type="button" id="submit-storyboard-approval-btn" class="btn btn-success">
-                  📋 Submit for Approval
-                </button>
+                ${this.currentStoryboard ? `
+                  <button type="button" id="storyboard-history-btn" class="btn btn-outline">
+                    🕘 History
+                  </button>
+                ` : ''}
+              </div>
+
+              <div class="shot-list-export">
+                <span class="shot-list-export-label">📤 Export shot list</span>
+                <button type="button" class="btn btn-outline btn-sm" data-shot-list-format="PDF">🖨️ PDF</button>
+                <button type="button" class="btn btn-outline btn-sm" data-shot-list-format="HTML">🌐 HTML</button>
+                <button type="button" class="btn btn-outline btn-sm" data-shot-list-format="CSV">📊 CSV</button>
+                <button type="button" class="btn btn-outline btn-sm" data-shot-list-format="EDL">🎞️ EDL</button>
+                <label class="shot-list-fps">
+                  Frame rate
+                  <select id="shot-list-fps">
+                    ${SHOT_LIST_FRAME_RATES.map(fps => `<option value="${fps}">${fps} fps</option>`).join('')}
+                  </select>
+                </label>
               </div>
 
               <div id="storyboard-status" class="storyboard-status">
                 ${this.renderStoryboardStatus()}
               </div>
+
+              <div id="storyboard-approval"></div>
             </div>
           </div>
 
@@ -198,7 +231,8 @@ export class StoryboardDevelopment {
                       rows="4"
                       style="min-height: 80px; resize: vertical;"
                     ></textarea>
-                    <button id="storyboard-send-message" class="chat-send-btn">Send</button>
+                    <button id="storyboard-send-message" data-permission="ai:use" class="chat-send-btn">Send</button>
+                    <button id="storyboard-cancel-message" class="chat-cancel-btn" style="display: none;">Stop</button>
                   </div>
                 </div>
               </div>
@@ -304,7 +338,7 @@ export class StoryboardDevelopment {
     const beforeText = insertPosition === 0 ? 'at beginning' : `after Shot ${insertPosition}`;
     return `
       <div class="insert-shot-container">
-        <button type="button" class="btn-insert-shot" data-insert-position="${insertPosition}">
+        <button type="button" class="btn-insert-shot" data-insert-position="${insertPosition}" data-permission="storyboard:edit">
           ➕ Insert shot ${beforeText}
         </button>
       </div>
@@ -320,12 +354,15 @@ export class StoryboardDevelopment {
         <div class="shot-header">
           <h5>Shot ${index + 1}</h5>
           <div class="shot-actions">
-            <button type="button" class="btn btn-sm btn-secondary btn-edit-shot" data-shot-index="${index}">
+            <button type="button" class="btn btn-sm btn-secondary btn-edit-shot" data-shot-index="${index}" data-permission="storyboard:edit">
               ✏️ Edit
             </button>
-            <button type="button" class="btn btn-sm btn-danger btn-delete-shot" data-shot-index="${index}">
+            <button type="button" class="btn btn-sm btn-danger btn-delete-shot" data-shot-index="${index}" data-permission="storyboard:edit">
               🗑️ Delete
             </button>
+            <button type="button" class="btn btn-sm btn-outline btn-shot-comments" data-shot-index="${index}">
+              💬 Comments
+            </button>
           </div>
         </div>
         
@@ -364,10 +401,11 @@ export class StoryboardDevelopment {
    * Render storyboard status
    */
   private renderStoryboardStatus(): string {
+    const status = this.currentStoryboard?.status || 'DRAFT';
     return `
       <div class="status-info">
         <span class="status-label">Status:</span>
-        <span class="status-value draft">Draft</span>
+        <span class="status-value ${status.toLowerCase().replace('_', '-')}">${APPROVAL_STATUS_LABELS[status]}</span>
       </div>
     `;
   }
@@ -413,9 +451,12 @@ export class StoryboardDevelopment {
       this.validateStoryboard();
     });
 
-    // Submit for approval button
-    document.getElementById('submit-storyboard-approval-btn')?.addEventListener('click', () => {
-      this.submitForApproval();
+    this.renderApprovalPanel();
+    this.attachTerminologyLint('storyboard-concept');
+
+    // Revision history button
+    document.getElementById('storyboard-history-btn')?.addEventListener('click', () => {
+      this.showHistory();
     });
 
     // Add shot button
@@ -423,6 +464,18 @@ export class StoryboardDevelopment {
       this.addNewShot();
     });
 
+    // Generate shots button
+    document.getElementById('generate-shots-btn')?.addEventListener('click', () => {
+      this.generateShotsFromScript();
+    });
+
+    // Shot list export buttons
+    document.querySelectorAll('[data-shot-list-format]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.exportShotList(button.getAttribute('data-shot-list-format') as ShotListExportFormat);
+      });
+    });
+
     // Setup initial shot event listeners
     this.setupShotEventListeners();
     
@@ -434,7 +487,7 @@ export class StoryboardDevelopment {
         // Debounce auto-save
         clearTimeout(saveTimeout);
         saveTimeout = setTimeout(() => {
-          this.saveStoryboard(true); // Silent save
+          this.saveStoryboard(true, false); // Silent working-copy save
         }, 2000); // Save 2 seconds after user stops typing
       });
     }
@@ -472,6 +525,10 @@ export class StoryboardDevelopment {
       this.sendAIMessage();
     });
 
+    document.getElementById('storyboard-cancel-message')?.addEventListener('click', () => {
+      this.cancelAIMessage();
+    });
+
     userInput?.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
@@ -559,18 +616,46 @@ ${context.shots_summary}
 
 Please use this context, the existing shots, and the 8-second shot limit constraint in your response. When suggesting new shots, consider how they fit with the existing sequence.`;
       
-      // Send to AI with agent config
-      const response = await window.electronAPI.llm.generatePersonaResponse(
+      // Stream the reply into a single message bubble as tokens arrive
+      const streamId = `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      let streamedMessage = null as HTMLElement | null;
+      let streamedText = '';
+      this.activeStreamId = streamId;
+      this.toggleCancelButton(true);
+
+      const response = await window.electronAPI.llm.streamPersonaResponse(
+        this.currentProjectId!,
+        streamId,
         this.conversationId,
         'CINEMATIC_STORYBOARDER',
         enhancedMessage,
         context,
-        agentConfig
+        agentConfig,
+        (token: string) => {
+          streamedText += token;
+          if (!streamedMessage) {
+            streamedMessage = this.addMessageToChat('ai', streamedText);
+          } else {
+            this.updateChatMessage(streamedMessage, streamedText);
+          }
+        }
       );
 
       if (response.success && response.data) {
-        this.addMessageToChat('ai', response.data);
+        if (streamedMessage) {
+          this.updateChatMessage(streamedMessage, response.data);
+        } else {
+          this.addMessageToChat('ai', response.data);
+        }
+      } else if (response.cancelled) {
+        const stoppedText = `${response.data || ''}\n\n(Response stopped)`.trim();
+        if (streamedMessage) {
+          this.updateChatMessage(streamedMessage, stoppedText);
+        } else {
+          this.addMessageToChat('ai', stoppedText);
+        }
       } else {
+        streamedMessage?.closest('.chat-message')?.remove();
         console.error('AI response error:', response);
         this.addMessageToChat('ai', `Sorry, I encountered an error: ${response.error || 'Unknown error'}. Please check that the Cinematic Storyboarder agent is properly configured in Settings.`);
       }
@@ -578,6 +663,9 @@ Please use this context, the existing shots, and the 8-second shot limit constra
       console.error('Failed to send AI message:', error);
       this.addMessageToChat('ai', 'Sorry, I encountered an error. Please try again.');
     } finally {
+      this.activeStreamId = null;
+      this.toggleCancelButton(false);
+
       // Re-enable input and focus it
       userInput.disabled = false;
       if (sendButton) sendButton.disabled = false;
@@ -589,11 +677,35 @@ Please use this context, the existing shots, and the 8-second shot limit constra
   }
 
   /**
-   * Add message to chat display
+   * Cancel the AI response that is currently streaming
+   */
+  private async cancelAIMessage(): Promise<void> {
+    if (!this.activeStreamId) return;
+
+    try {
+      await window.electronAPI.llm.cancelStream(this.activeStreamId);
+    } catch (error) {
+      console.error('Failed to cancel AI message:', error);
+    }
+  }
+
+  /**
+   * Show the stop button in place of send while a response is streaming
+   */
+  private toggleCancelButton(streaming: boolean): void {
+    const sendButton = document.getElementById('storyboard-send-message');
+    const cancelButton = document.getElementById('storyboard-cancel-message');
+
+    if (sendButton) sendButton.style.display = streaming ? 'none' : '';
+    if (cancelButton) cancelButton.style.display = streaming ? '' : 'none';
+  }
+
+  /**
+   * Add message to chat display, returning its text element so it can be updated while streaming
    */
-  private addMessageToChat(sender: 'user' | 'ai', message: string): void {
+  private addMessageToChat(sender: 'user' | 'ai', message: string): HTMLElement | null {
     const messagesContainer = document.getElementById('storyboard-chat-messages');
-    if (!messagesContainer) return;
+    if (!messagesContainer) return null;
 
     const messageDiv = document.createElement('div');
     messageDiv.className = `chat-message ${sender}-message`;
@@ -611,12 +723,26 @@ Please use this context, the existing shots, and the 8-second shot limit constra
     
     messagesContainer.appendChild(messageDiv);
     messagesContainer.scrollTop = messagesContainer.scrollHeight;
+
+    return messageDiv.querySelector('.message-text');
+  }
+
+  /**
+   * Replace the text of a chat message that is being streamed
+   */
+  private updateChatMessage(messageText: HTMLElement, message: string): void {
+    messageText.innerHTML = message.replace(/\n/g, '<br>');
+
+    const messagesContainer = document.getElementById('storyboard-chat-messages');
+    if (messagesContainer) {
+      messagesContainer.scrollTop = messagesContainer.scrollHeight;
+    }
   }
 
   /**
    * Save storyboard
    */
-  private async saveStoryboard(silent: boolean = false): Promise<void> {
+  private async saveStoryboard(silent: boolean = false, revision: boolean = true): Promise<void> {
     try {
       if (!this.currentProjectId) return;
 
@@ -627,13 +753,16 @@ Please use this context, the existing shots, and the 8-second shot limit constra
         script_id: this.currentScript?.id || '',
         visual_concept: visualConcept,
         shots: this.shots,
-        status: 'DRAFT' as const,
-        created_by: 'temp-user-id'
+        status: 'DRAFT' as const // Only applies to a new storyboard; approvals own the status after that
       };
 
-      const result = await window.electronAPI.database.saveStoryboard(this.currentProjectId, storyboardData);
+      const result = await window.electronAPI.database.saveStoryboard(this.currentProjectId, storyboardData, { revision });
       if (result.success) {
+        const created = !this.currentStoryboard;
         this.currentStoryboard = result.data;
+        if (created) {
+          this.renderApprovalPanel();
+        }
         if (!silent) {
           alert('💾 Storyboard saved successfully!');
         }
@@ -646,6 +775,28 @@ Please use this context, the existing shots, and the 8-second shot limit constra
     }
   }
 
+  /**
+   * Open the revision history; a restored version reloads the storyboard and its shots
+   */
+  private async showHistory(): Promise<void> {
+    if (!this.currentStoryboard) return;
+
+    await this.saveStoryboard(true, false);
+    await revisionHistoryPanel.open({
+      entityType: 'STORYBOARD',
+      entityId: this.currentStoryboard.id,
+      title: 'Storyboard',
+      onRestore: async () => {
+        await this.loadExistingStoryboard();
+        await this.loadExistingShotsFromDatabase();
+        this.renderStoryboardInterface();
+        setTimeout(() => {
+          this.setupEventHandlers();
+        }, 100);
+      }
+    });
+  }
+
   /**
    * Validate storyboard timing
    */
@@ -660,16 +811,25 @@ Please use this context, the existing shots, and the 8-second shot limit constra
   }
 
   /**
-   * Submit storyboard for approval
+   * Render the approval workflow for the saved storyboard
    */
-  private async submitForApproval(): Promise<void> {
-    try {
-      // Implementation for submitting for approval
-      alert('📋 Storyboard submitted for approval!');
-    } catch (error) {
-      console.error('Failed to submit storyboard for approval:', error);
-      alert('❌ Failed to submit storyboard for approval. Please try again.');
-    }
+  private async renderApprovalPanel(): Promise<void> {
+    if (!this.currentStoryboard || !this.currentProjectId) return;
+
+    await new ApprovalPanel({
+      containerId: 'storyboard-approval',
+      projectId: this.currentProjectId,
+      entityType: 'STORYBOARD',
+      entityId: this.currentStoryboard.id,
+      onChange: async () => {
+        // The main process keeps the storyboard's status in step with its approval
+        await this.loadExistingStoryboard();
+        const statusEl = document.getElementById('storyboard-status');
+        if (statusEl) {
+          statusEl.innerHTML = this.renderStoryboardStatus();
+        }
+      }
+    }).render();
   }
 
   /**
@@ -847,12 +1007,25 @@ Framing: Centered on anchor, rule of thirds"
     closeBtn?.addEventListener('click', () => this.hideInlineShotForm());
     cancelBtn?.addEventListener('click', () => this.hideInlineShotForm());
     saveBtn?.addEventListener('click', () => this.saveInlineShotForm(shotIndex));
+
+    this.attachTerminologyLint('inline-shot-action');
+    this.attachTerminologyLint('inline-shot-dialogue', true);
+  }
+
+  /**
+   * Highlight the lens's avoided terms in a field, with its preferred terms as quick fixes
+   */
+  private attachTerminologyLint(fieldId: string, spoken: boolean = false): void {
+    const field = document.getElementById(fieldId) as HTMLTextAreaElement | HTMLInputElement | null;
+    if (field) {
+      new TerminologyLint({ field, terminology: this.terminology, spoken, permission: 'storyboard:edit' }).attach();
+    }
   }
 
   /**
    * Save shot from inline form
    */
-  private saveInlineShotForm(shotIndex?: number): void {
+  private async saveInlineShotForm(shotIndex?: number): Promise<void> {
     const duration = parseFloat((document.getElementById('inline-shot-duration') as HTMLInputElement).value);
     const camera = (document.getElementById('inline-shot-camera') as HTMLTextAreaElement).value;
     const visual = (document.getElementById('inline-shot-visual') as HTMLTextAreaElement).value;
@@ -908,12 +1081,93 @@ Framing: Centered on anchor, rule of thirds"
     this.hideInlineShotForm();
     this.refreshShotsList();
     
-    // Auto-save shots to database and storyboard  
-    this.saveShotsToDatabase();
-    this.saveStoryboard(true); // Silent save
+    // Shots are saved with the storyboard so each edit is recorded as a revision
+    await this.saveStoryboard(true); // Silent save
   }
 
 
+  /**
+   * Generate a validated shot breakdown from the approved script and append it to the storyboard
+   */
+  private async generateShotsFromScript(): Promise<void> {
+    if (!this.currentScript) {
+      alert('An approved script is required to generate shots');
+      return;
+    }
+
+    const button = document.getElementById('generate-shots-btn') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = true;
+      button.textContent = '⏳ Generating Shots...';
+    }
+
+    try {
+      const { AgentConfigService } = await import('../../services/agent-config.js');
+      const agentConfig = AgentConfigService.getAgentConfig('CINEMATIC_STORYBOARDER');
+
+      const prompt = `Break the following approved script into a shot list for AI video generation.
+Each shot must be 8 seconds or shorter. Number panels from ${this.shots.length + 1}.
+
+VISUAL CONCEPT: ${this.currentStoryboard?.visual_concept || 'Not specified'}
+
+${this.generateShotsSummary()}
+
+SCRIPT:
+${this.currentScript.content || this.currentScript.outline || ''}`;
+
+      const result = await window.electronAPI.llm.generateStructuredOutput(
+        this.currentProjectId!,
+        'CINEMATIC_STORYBOARDER',
+        prompt,
+        'shots',
+        {
+          projectId: this.currentProjectId,
+          creative_strategy: this.creativeStrategy,
+          current_script: this.currentScript
+        },
+        agentConfig
+      );
+
+      if (!result.success || !result.data) {
+        const details = result.validationErrors?.length ? `\n\n${result.validationErrors.join('\n')}` : '';
+        alert(`Failed to generate shots: ${result.error}${details}`);
+        return;
+      }
+
+      const { shots } = result.data as ShotsOutput;
+      const now = Date.now();
+      const generatedShots: Shot[] = [...shots]
+        .sort((a, b) => a.panel_number - b.panel_number)
+        .map((shot, index) => ({
+          id: `shot-${now}-${index}`,
+          script_id: this.currentScript?.id || '',
+          panel_number: this.shots.length + index + 1,
+          length_seconds: shot.length_seconds,
+          camera_angle: shot.camera_angle,
+          character_action: shot.character_action,
+          lighting_mood: shot.lighting_mood,
+          dialogue_narration: shot.dialogue_narration || undefined,
+          visual_style: shot.visual_style,
+          created_at: new Date(),
+          updated_at: new Date()
+        }));
+
+      this.shots.push(...generatedShots);
+      this.refreshShotsList();
+
+      // Shots are saved with the storyboard so each edit is recorded as a revision
+      await this.saveStoryboard(true); // Silent save
+    } catch (error) {
+      console.error('Failed to generate shots:', error);
+      alert('Failed to generate shots from script');
+    } finally {
+      if (button) {
+        button.disabled = false;
+        button.textContent = '🤖 Generate Shots from Script';
+      }
+    }
+  }
+
   /**
    * Refresh shots list display
    */
@@ -952,6 +1206,30 @@ Framing: Centered on anchor, rule of thirds"
         this.insertShotAtPosition(insertPosition);
       });
     });
+
+    // Shot comment buttons
+    document.querySelectorAll('.btn-shot-comments').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const shotIndex = parseInt((e.target as HTMLElement).getAttribute('data-shot-index') || '0');
+        this.showShotComments(shotIndex);
+      });
+    });
+  }
+
+  /**
+   * Open the comment threads on a shot
+   */
+  private async showShotComments(shotIndex: number): Promise<void> {
+    const shot = this.shots[shotIndex];
+    if (!shot || !this.currentProjectId) return;
+
+    await this.saveStoryboard(true, false); // Comments attach to stored shots
+    await commentsPanel.open({
+      projectId: this.currentProjectId,
+      targetType: 'shot',
+      targetId: shot.id,
+      title: `Shot ${shotIndex + 1}`
+    });
   }
 
   /**
@@ -966,9 +1244,8 @@ Framing: Centered on anchor, rule of thirds"
       });
       this.refreshShotsList();
       
-      // Auto-save shots to database and storyboard
-      this.saveShotsToDatabase();
-      this.saveStoryboard(true); // Silent save
+      // Shots are saved with the storyboard so each edit is recorded as a revision
+      await this.saveStoryboard(true); // Silent save
     }
   }
 
@@ -992,20 +1269,31 @@ Framing: Centered on anchor, rule of thirds"
   }
 
   /**
-   * Save shots to database
+   * Save the current shots, then export them with sound notes and prompts for editors
    */
-  private async saveShotsToDatabase(): Promise<void> {
+  private async exportShotList(format: ShotListExportFormat): Promise<void> {
     try {
       if (!this.currentProjectId) return;
 
-      const result = await window.electronAPI.database.saveShots(this.currentProjectId, this.shots);
-      if (result.success) {
-        console.log(`Saved ${this.shots.length} shots to database`);
-      } else {
-        console.error('Failed to save shots:', result.error);
+      if (this.shots.length === 0) {
+        alert('Add some shots before exporting a shot list.');
+        return;
+      }
+
+      await this.saveStoryboard(true, false); // The export reads stored shots
+
+      const fps = Number((document.getElementById('shot-list-fps') as HTMLSelectElement)?.value) || undefined;
+      const result = await window.electronAPI.database.exportShotList(this.currentProjectId, format, { fps });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      if (result.data) {
+        alert(`✅ Exported ${result.data.shot_count} shots (${result.data.total_seconds}s) to:\n${result.data.file_path}`);
       }
     } catch (error) {
-      console.error('Failed to save shots to database:', error);
+      console.error('Failed to export shot list:', error);
+      alert(`❌ Failed to export shot list: ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -0,0 +1,221 @@
+// Terminology Lint Component
+// Highlights terms the project's satirical lens avoids inside an editor field and offers its preferred terms as quick fixes
+
+import { ProjectPermission, TerminologyGuidance } from '../../shared/types/index.js';
+import { TerminologyMatch, applyAllTerminologyFixes, applyTerminologyFix, lintTerminology } from '../../shared/utils/terminology.js';
+
+export interface TerminologyLintOptions {
+  field: HTMLTextAreaElement | HTMLInputElement;
+  terminology: TerminologyGuidance[];
+  script?: boolean; // Screenplay text: findings show their line and dialogue is told apart from action
+  spoken?: boolean; // Everything in the field is dialogue or narration
+  permission?: ProjectPermission; // Needed to apply fixes
+}
+
+const USAGE_LABELS: Record<TerminologyMatch['usage'], string> = {
+  narrative: 'narration',
+  dialogue: 'dialogue',
+  quote: 'quote'
+};
+
+// Styles the highlight layer copies from its field so the marks sit exactly under the text
+const MIRRORED_STYLES = [
+  'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'lineHeight', 'letterSpacing', 'wordSpacing', 'textAlign',
+  'textIndent', 'tabSize', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth', 'borderRadius', 'boxSizing'
+] as const;
+
+export class TerminologyLint {
+  private backdrop: HTMLElement | null = null;
+  private report: HTMLElement | null = null;
+  private matches: TerminologyMatch[] = [];
+  private background = '';
+
+  constructor(private options: TerminologyLintOptions) {}
+
+  /**
+   * The avoided terms of a project's satirical lens; none when the project has no lens
+   */
+  public static async loadTerminology(projectId: string): Promise<TerminologyGuidance[]> {
+    try {
+      const result = await window.electronAPI.database.getProjectById(projectId);
+      return result.success ? result.data?.satirical_context?.preferredTerminology || [] : [];
+    } catch (error) {
+      console.error('Failed to load lens terminology:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Lay a highlight layer under the field and a list of findings after it, and keep both in step as it is edited
+   */
+  public attach(): TerminologyLint {
+    const { field, terminology } = this.options;
+    if (terminology.length === 0 || field.closest('.terminology-lint-field')) return this;
+
+    // The field turns transparent to show the highlights, so its background moves to the layer beneath
+    this.background = window.getComputedStyle(field).backgroundColor;
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'terminology-lint-field';
+    field.parentElement?.insertBefore(wrapper, field);
+
+    this.backdrop = document.createElement('div');
+    this.backdrop.className = 'terminology-lint-backdrop';
+    this.backdrop.setAttribute('aria-hidden', 'true');
+    wrapper.append(this.backdrop, field);
+    field.classList.add('terminology-lint-input');
+
+    this.report = document.createElement('div');
+    this.report.className = 'terminology-lint-report';
+    wrapper.after(this.report);
+
+    field.addEventListener('input', () => this.refresh());
+    field.addEventListener('scroll', () => this.syncScroll());
+    this.report.addEventListener('click', event => this.handleReportClick(event));
+
+    this.refresh();
+    return this;
+  }
+
+  /**
+   * Lint the field again and redraw the highlights and findings
+   */
+  public refresh(): void {
+    if (!this.backdrop || !this.report) return;
+
+    const { field, terminology, script, spoken } = this.options;
+    this.matches = lintTerminology(field.value, terminology, { script }).map(match =>
+      spoken && match.usage === 'narrative' ? { ...match, usage: 'dialogue' } : match);
+
+    this.mirrorStyles();
+    this.backdrop.innerHTML = this.renderHighlights(field.value);
+    this.report.innerHTML = this.renderReport();
+    this.syncScroll();
+  }
+
+  /**
+   * Current findings, e.g. for an editor's own validation summary
+   */
+  public getMatches(): TerminologyMatch[] {
+    return this.matches;
+  }
+
+  // Private helper methods
+
+  private renderHighlights(text: string): string {
+    let html = '';
+    let position = 0;
+
+    this.matches.forEach(match => {
+      html += this.escapeHtml(text.slice(position, match.start));
+      html += `<mark class="terminology-mark usage-${match.usage}">${this.escapeHtml(match.text)}</mark>`;
+      position = match.end;
+    });
+
+    // A trailing newline needs something after it to take up its line
+    return `${html}${this.escapeHtml(text.slice(position))} `;
+  }
+
+  private renderReport(): string {
+    if (this.matches.length === 0) return '';
+
+    const permission = this.options.permission ? ` data-permission="${this.options.permission}"` : '';
+    const narrative = this.matches.filter(match => match.usage === 'narrative' && match.fixable).length;
+
+    return `
+      <div class="terminology-lint-header">
+        <span>⚠️ ${this.matches.length} term${this.matches.length === 1 ? '' : 's'} the satirical lens avoids</span>
+        ${narrative > 0 ? `
+          <button type="button" class="btn btn-outline btn-sm" data-lint-action="fix-all"${permission}>
+            Fix ${narrative} outside dialogue and quotes
+          </button>
+        ` : ''}
+      </div>
+      <ul class="terminology-findings">
+        ${this.matches.map((match, index) => `
+          <li class="terminology-finding usage-${match.usage}">
+            <div class="terminology-finding-term">
+              <button type="button" class="terminology-finding-select" data-lint-action="select" data-index="${index}" title="Select in the editor">
+                "${this.escapeHtml(match.text)}"
+              </button>
+              <small>${this.options.script ? `line ${match.line} · ` : ''}${USAGE_LABELS[match.usage]}</small>
+              <span class="terminology-finding-arrow">→</span>
+              ${match.fixable ? match.replacements.map((replacement, option) => `
+                <button type="button" class="terminology-fix" data-lint-action="fix" data-index="${index}" data-option="${option}"${permission}>
+                  ${this.escapeHtml(replacement)}
+                </button>
+              `).join('') : `
+                <span class="terminology-suggestion">Reword with ${match.replacements.map(replacement => `"${this.escapeHtml(replacement)}"`).join(' or ')}</span>
+              `}
+            </div>
+            <div class="terminology-finding-reason">${this.escapeHtml(match.guidance.reason)}</div>
+          </li>
+        `).join('')}
+      </ul>
+    `;
+  }
+
+  private handleReportClick(event: Event): void {
+    const button = (event.target as HTMLElement).closest<HTMLElement>('[data-lint-action]');
+    if (!button) return;
+
+    const { field } = this.options;
+    const match = this.matches[Number(button.dataset.index)];
+
+    switch (button.dataset.lintAction) {
+      case 'select':
+        if (!match) return;
+        field.focus();
+        field.setSelectionRange(match.start, match.end);
+        break;
+      case 'fix': {
+        if (!match) return;
+        const replacement = match.replacements[Number(button.dataset.option)];
+        this.updateField(applyTerminologyFix(field.value, match, replacement), match.start + replacement.length);
+        break;
+      }
+      case 'fix-all':
+        this.updateField(applyAllTerminologyFixes(field.value, this.matches.filter(entry => entry.usage === 'narrative' && entry.fixable)));
+        break;
+    }
+  }
+
+  /**
+   * Change the field's text as if it were typed, so editors save and re-parse it as usual
+   */
+  private updateField(value: string, caret?: number): void {
+    const { field } = this.options;
+    if (field.readOnly || field.disabled || value === field.value) return;
+
+    field.value = value;
+    if (caret !== undefined) {
+      field.focus();
+      field.setSelectionRange(caret, caret);
+    }
+    field.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+
+  private mirrorStyles(): void {
+    if (!this.backdrop) return;
+
+    const computed = window.getComputedStyle(this.options.field);
+    MIRRORED_STYLES.forEach(property => {
+      this.backdrop!.style[property] = computed[property];
+    });
+    this.backdrop.style.backgroundColor = this.background;
+    this.backdrop.style.whiteSpace = this.options.field instanceof HTMLTextAreaElement ? 'pre-wrap' : 'pre';
+  }
+
+  private syncScroll(): void {
+    if (!this.backdrop) return;
+    this.backdrop.scrollTop = this.options.field.scrollTop;
+    this.backdrop.scrollLeft = this.options.field.scrollLeft;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,544 @@
+// Video Prompt Engineer Component
+// Turns each storyboard shot into a versioned AI video generation prompt
+
+import { Character, CharacterArchetype, Prompt, Shot, SoundNotes, TerminologyGuidance, UnifiedShotBrief } from '../../shared/types/index.js';
+import { VideoPromptOutput } from '../../services/structured-output.js';
+import { buildUnifiedShotBrief, draftPromptFromBrief, formatShotBrief } from '../../shared/utils/shot-brief.js';
+import { TerminologyLint } from './TerminologyLint.js';
+
+export class VideoPromptEngineer {
+  private currentProjectId: string | null = null;
+  private currentScript: any = null;
+  private currentStoryboard: any = null;
+  private characters: CharacterArchetype[] = [];
+  private presenters: Character[] = [];
+  private shots: Shot[] = [];
+  private soundNotes: Map<string, SoundNotes> = new Map();
+  private prompts: Map<string, Prompt> = new Map(); // Latest version per shot
+  private generatingShots: Set<string> = new Set();
+  private terminology: TerminologyGuidance[] = [];
+
+  /**
+   * Initialize prompt engineering for a project
+   */
+  async initialize(projectId: string): Promise<void> {
+    try {
+      this.currentProjectId = projectId;
+
+      await this.loadProjectContext();
+      await this.loadShotsAndSoundNotes();
+      await this.loadPrompts();
+
+      this.renderPromptInterface();
+
+      // Setup event handlers with a small delay to ensure DOM is ready
+      setTimeout(() => {
+        this.setupEventHandlers();
+      }, 100);
+
+    } catch (error) {
+      console.error('Failed to initialize video prompt engineer:', error);
+      this.renderError('Failed to load prompt engineering interface');
+    }
+  }
+
+  /**
+   * Load project context (approved script, storyboard, characters and presenters)
+   */
+  private async loadProjectContext(): Promise<void> {
+    try {
+      if (!this.currentProjectId) return;
+
+      const scriptsResult = await window.electronAPI.database.getScriptsByProject(this.currentProjectId);
+      if (scriptsResult.success && scriptsResult.data && scriptsResult.data.length > 0) {
+        this.currentScript = scriptsResult.data
+          .filter((script: any) => script.status === 'APPROVED')
+          .sort((a: any, b: any) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())[0] || null;
+      }
+
+      const storyboardResult = await window.electronAPI.database.getStoryboard(this.currentProjectId);
+      if (storyboardResult.success && storyboardResult.data) {
+        this.currentStoryboard = storyboardResult.data;
+      }
+
+      const strategyResult = await window.electronAPI.database.getCreativeStrategy(this.currentProjectId);
+      if (strategyResult.success && strategyResult.data) {
+        this.characters = strategyResult.data.character_archetypes || [];
+      }
+
+      const charactersResult = await window.electronAPI.database.getCharactersByProject(this.currentProjectId);
+      if (charactersResult.success && charactersResult.data) {
+        this.presenters = charactersResult.data;
+      }
+
+      // Terms the project's satirical lens avoids are highlighted in the prompts
+      this.terminology = await TerminologyLint.loadTerminology(this.currentProjectId);
+    } catch (error) {
+      console.error('Failed to load project context:', error);
+    }
+  }
+
+  /**
+   * Load shots and their sound notes from database
+   */
+  private async loadShotsAndSoundNotes(): Promise<void> {
+    try {
+      if (!this.currentProjectId) return;
+
+      const shotsResult = await window.electronAPI.database.getShots(this.currentProjectId);
+      if (shotsResult.success && shotsResult.data) {
+        this.shots = shotsResult.data;
+      }
+
+      this.soundNotes.clear();
+      const soundResult = await window.electronAPI.database.getSoundNotes(this.currentProjectId);
+      if (soundResult.success && soundResult.data) {
+        soundResult.data.forEach((soundNote: SoundNotes) => {
+          this.soundNotes.set(soundNote.shot_id, soundNote);
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load shots and sound notes:', error);
+    }
+  }
+
+  /**
+   * Load the latest prompt version for every shot
+   */
+  private async loadPrompts(): Promise<void> {
+    try {
+      if (!this.currentProjectId) return;
+
+      this.prompts.clear();
+      const result = await window.electronAPI.database.getPrompts(this.currentProjectId);
+      if (result.success && result.data) {
+        result.data.forEach((prompt: Prompt) => {
+          this.prompts.set(prompt.shot_id, prompt);
+        });
+        console.log(`Loaded ${result.data.length} video prompts from database`);
+      }
+    } catch (error) {
+      console.error('Failed to load prompts:', error);
+    }
+  }
+
+  /**
+   * Render the prompt engineering interface
+   */
+  private renderPromptInterface(): void {
+    const container = document.getElementById('video-prompt-engineer-container');
+    if (!container) return;
+
+    container.innerHTML = `
+      <div class="prompt-engineer-workspace">
+        <div class="prompt-engineer-header">
+          <h2>🤖 Video Prompt Engineering</h2>
+          <p>Turn every shot into a Veo3-ready prompt with the Video Prompt Engineer AI</p>
+        </div>
+
+        <div class="prompt-engineer-toolbar">
+          <div class="prompt-progress">
+            ${this.prompts.size} of ${this.shots.length} shots have prompts
+          </div>
+          <button type="button" id="generate-all-prompts-btn" data-permission="prompts:edit" class="btn btn-primary" ${this.shots.length > 0 ? '' : 'disabled'}>
+            🤖 Generate Missing Prompts
+          </button>
+        </div>
+
+        <div id="prompt-shots-list" class="prompt-shots-list">
+          ${this.renderPromptShotsList()}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the list of shots with their prompts
+   */
+  private renderPromptShotsList(): string {
+    if (this.shots.length === 0) {
+      return `
+        <div class="empty-prompt-shots-state">
+          <div class="empty-icon">🎬</div>
+          <p>No shots available for prompt engineering. Complete the storyboard first.</p>
+        </div>
+      `;
+    }
+
+    return this.shots.map(shot => this.renderPromptShotItem(shot)).join('');
+  }
+
+  /**
+   * Render a single shot with its prompt editor
+   */
+  private renderPromptShotItem(shot: Shot): string {
+    const prompt = this.prompts.get(shot.id);
+    const brief = this.buildBrief(shot);
+    const generating = this.generatingShots.has(shot.id);
+
+    return `
+      <div class="prompt-shot-item" data-shot-id="${shot.id}">
+        <div class="shot-header">
+          <h5>Shot ${shot.panel_number} (${shot.length_seconds}s)</h5>
+          <div class="prompt-version-info">
+            ${prompt
+              ? `v${prompt.version} · ${prompt.ai_generated ? '🤖 AI' : '✏️ Edited'} · ${new Date(prompt.created_at).toLocaleString()}`
+              : '<span class="empty-badge">No prompt yet</span>'}
+          </div>
+        </div>
+
+        <details class="shot-brief-preview">
+          <summary>📋 Shot Brief</summary>
+          <pre class="shot-brief-text">${this.escapeHtml(formatShotBrief(brief))}</pre>
+        </details>
+
+        <div class="prompt-editor">
+          <textarea
+            id="prompt-text-${shot.id}"
+            class="prompt-textarea"
+            rows="5"
+            placeholder="Generate a prompt with the agent or write one by hand..."
+          >${this.escapeHtml(prompt ? prompt.generated_prompt_text : draftPromptFromBrief(brief))}</textarea>
+
+          <div class="prompt-actions">
+            <button type="button" class="btn btn-sm btn-secondary btn-generate-prompt" data-shot-id="${shot.id}" data-permission="prompts:edit" ${generating ? 'disabled' : ''}>
+              ${generating ? '⏳ Generating...' : prompt ? '🔄 Regenerate' : '🤖 Generate'}
+            </button>
+            <button type="button" class="btn btn-sm btn-primary btn-save-prompt" data-shot-id="${shot.id}" data-permission="prompts:edit">
+              💾 Save Version
+            </button>
+            <button type="button" class="btn btn-sm btn-secondary btn-prompt-history" data-shot-id="${shot.id}" ${prompt ? '' : 'disabled'}>
+              🕘 History
+            </button>
+          </div>
+        </div>
+
+        <div class="prompt-history" id="prompt-history-${shot.id}" style="display: none;"></div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render version history for a shot
+   */
+  private renderPromptHistory(shotId: string, versions: Prompt[]): string {
+    const current = this.prompts.get(shotId);
+
+    return `
+      <h6>Version History</h6>
+      ${versions.map(version => `
+        <div class="prompt-history-entry ${version.id === current?.id ? 'current' : ''}">
+          <div class="prompt-history-meta">
+            <strong>v${version.version}</strong>
+            ${version.ai_generated ? '🤖 AI' : '✏️ Edited'} · ${new Date(version.created_at).toLocaleString()}
+            ${version.change_note ? ` · ${this.escapeHtml(version.change_note)}` : ''}
+          </div>
+          <p class="prompt-history-text">${this.escapeHtml(version.generated_prompt_text)}</p>
+          ${version.id === current?.id ? '<span class="completion-badge">Current</span>' : `
+            <button type="button" class="btn btn-sm btn-secondary btn-restore-prompt" data-shot-id="${shotId}" data-prompt-id="${version.id}" data-permission="prompts:edit">
+              ↩️ Restore
+            </button>
+          `}
+        </div>
+      `).join('')}
+    `;
+  }
+
+  /**
+   * Setup event handlers
+   */
+  private setupEventHandlers(): void {
+    document.getElementById('generate-all-prompts-btn')?.addEventListener('click', () => {
+      this.generateMissingPrompts();
+    });
+
+    this.setupShotEventListeners();
+  }
+
+  /**
+   * Setup event listeners for shot items
+   */
+  private setupShotEventListeners(): void {
+    document.querySelectorAll('.btn-generate-prompt').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const shotId = (e.currentTarget as HTMLElement).getAttribute('data-shot-id');
+        if (shotId) this.generatePrompt(shotId);
+      });
+    });
+
+    document.querySelectorAll('.btn-save-prompt').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const shotId = (e.currentTarget as HTMLElement).getAttribute('data-shot-id');
+        if (shotId) this.saveEditedPrompt(shotId);
+      });
+    });
+
+    document.querySelectorAll('.btn-prompt-history').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const shotId = (e.currentTarget as HTMLElement).getAttribute('data-shot-id');
+        if (shotId) this.togglePromptHistory(shotId);
+      });
+    });
+
+    this.shots.forEach(shot => this.attachTerminologyLint(shot.id));
+  }
+
+  /**
+   * Highlight the lens's avoided terms in a shot's prompt, with its preferred terms as quick fixes
+   */
+  private attachTerminologyLint(shotId: string): void {
+    const field = document.getElementById(`prompt-text-${shotId}`) as HTMLTextAreaElement | null;
+    if (field) {
+      new TerminologyLint({ field, terminology: this.terminology, permission: 'prompts:edit' }).attach();
+    }
+  }
+
+  /**
+   * Generate a prompt for a shot with the Video Prompt Engineer agent
+   */
+  private async generatePrompt(shotId: string, silent: boolean = false): Promise<boolean> {
+    const shot = this.shots.find(s => s.id === shotId);
+    if (!shot) return false;
+
+    this.generatingShots.add(shotId);
+    this.refreshShotItem(shotId);
+
+    try {
+      const brief = this.buildBrief(shot);
+      const { AgentConfigService } = await import('../../services/agent-config.js');
+      const agentConfig = AgentConfigService.getAgentConfig('VIDEO_PROMPT_ENGINEER');
+
+      const currentText = this.prompts.get(shotId)?.generated_prompt_text;
+      const prompt = `Write a single Veo3 video generation prompt for the shot below.
+Describe subject, action, camera, lighting, mood, style and audio in one dense paragraph.
+Keep recurring characters visually consistent with their descriptions and keep the shot within ${brief.technical_constraints.duration_seconds} seconds.
+${currentText ? `\nIMPROVE ON THE CURRENT PROMPT:\n${currentText}\n` : ''}
+${formatShotBrief(brief)}`;
+
+      const result = await window.electronAPI.llm.generateStructuredOutput(
+        this.currentProjectId!,
+        'VIDEO_PROMPT_ENGINEER',
+        prompt,
+        'video_prompt',
+        { projectId: this.currentProjectId, characters: this.presenters },
+        agentConfig
+      );
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'No prompt returned');
+      }
+
+      const { prompt_text } = result.data as VideoPromptOutput;
+      await this.savePromptVersion(shot, prompt_text.trim(), true, currentText ? 'Regenerated by agent' : 'Generated by agent');
+      return true;
+    } catch (error) {
+      console.error('Failed to generate prompt:', error);
+      if (!silent) {
+        alert(`❌ Failed to generate prompt for Shot ${shot.panel_number}: ${error instanceof Error ? error.message : error}`);
+      }
+      return false;
+    } finally {
+      this.generatingShots.delete(shotId);
+      this.refreshShotItem(shotId);
+    }
+  }
+
+  /**
+   * Generate prompts for every shot that does not have one yet
+   */
+  private async generateMissingPrompts(): Promise<void> {
+    const pendingShots = this.shots.filter(shot => !this.prompts.has(shot.id));
+    if (pendingShots.length === 0) {
+      alert('Every shot already has a prompt');
+      return;
+    }
+
+    const button = document.getElementById('generate-all-prompts-btn') as HTMLButtonElement | null;
+    if (button) button.disabled = true;
+
+    let failed = 0;
+    // One shot at a time so provider rate limits are respected
+    for (const shot of pendingShots) {
+      const generated = await this.generatePrompt(shot.id, true);
+      if (!generated) failed++;
+    }
+
+    if (button) button.disabled = false;
+    this.refreshProgress();
+
+    if (failed > 0) {
+      alert(`⚠️ ${failed} of ${pendingShots.length} prompts could not be generated. Try those shots again individually.`);
+    }
+  }
+
+  /**
+   * Save the editor contents as a new version
+   */
+  private async saveEditedPrompt(shotId: string): Promise<void> {
+    const shot = this.shots.find(s => s.id === shotId);
+    const textarea = document.getElementById(`prompt-text-${shotId}`) as HTMLTextAreaElement | null;
+    if (!shot || !textarea) return;
+
+    const text = textarea.value.trim();
+    if (!text) {
+      alert('Prompt text cannot be empty');
+      return;
+    }
+
+    if (text === this.prompts.get(shotId)?.generated_prompt_text) {
+      alert('No changes to save');
+      return;
+    }
+
+    try {
+      await this.savePromptVersion(shot, text, false, 'Edited manually');
+      this.refreshShotItem(shotId);
+    } catch (error) {
+      console.error('Failed to save prompt:', error);
+      alert('❌ Failed to save prompt. Please try again.');
+    }
+  }
+
+  /**
+   * Show or hide the version history for a shot
+   */
+  private async togglePromptHistory(shotId: string): Promise<void> {
+    const container = document.getElementById(`prompt-history-${shotId}`);
+    if (!container) return;
+
+    if (container.style.display !== 'none') {
+      container.style.display = 'none';
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.database.getPromptHistory(shotId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const versions: Prompt[] = result.data || [];
+      container.innerHTML = this.renderPromptHistory(shotId, versions);
+      container.style.display = 'block';
+
+      container.querySelectorAll('.btn-restore-prompt').forEach(btn => {
+        btn.addEventListener('click', (e) => {
+          const promptId = (e.currentTarget as HTMLElement).getAttribute('data-prompt-id');
+          const version = versions.find(v => v.id === promptId);
+          if (version) this.restorePromptVersion(shotId, version);
+        });
+      });
+    } catch (error) {
+      console.error('Failed to load prompt history:', error);
+      alert('❌ Failed to load prompt history');
+    }
+  }
+
+  /**
+   * Restore an earlier version by saving it again as the newest version
+   */
+  private async restorePromptVersion(shotId: string, version: Prompt): Promise<void> {
+    const shot = this.shots.find(s => s.id === shotId);
+    if (!shot) return;
+
+    try {
+      await this.savePromptVersion(shot, version.generated_prompt_text, !!version.ai_generated, `Restored from v${version.version}`);
+      this.refreshShotItem(shotId);
+    } catch (error) {
+      console.error('Failed to restore prompt version:', error);
+      alert('❌ Failed to restore prompt version');
+    }
+  }
+
+  /**
+   * Persist a prompt version along with the brief it was written from
+   */
+  private async savePromptVersion(shot: Shot, text: string, aiGenerated: boolean, changeNote: string): Promise<Prompt> {
+    const result = await window.electronAPI.database.savePromptVersion({
+      shot_id: shot.id,
+      generated_prompt_text: text,
+      ai_model: 'Veo3',
+      ai_generated: aiGenerated,
+      change_note: changeNote,
+      shot_brief: this.buildBrief(shot)
+    });
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to save prompt');
+    }
+
+    this.prompts.set(shot.id, result.data);
+    this.refreshProgress();
+    return result.data;
+  }
+
+  /**
+   * Build the unified brief for a shot from the loaded project context
+   */
+  private buildBrief(shot: Shot): UnifiedShotBrief {
+    return buildUnifiedShotBrief(shot, {
+      storyboard: this.currentStoryboard,
+      soundNotes: this.soundNotes.get(shot.id),
+      script: this.currentScript,
+      characters: this.characters,
+      presenters: this.presenters
+    });
+  }
+
+  /**
+   * Re-render a single shot item and rebind its listeners
+   */
+  private refreshShotItem(shotId: string): void {
+    const shot = this.shots.find(s => s.id === shotId);
+    const item = document.querySelector(`.prompt-shot-item[data-shot-id="${shotId}"]`);
+    if (!shot || !item) return;
+
+    // Keep unsaved edits in other shots by only replacing this item
+    item.outerHTML = this.renderPromptShotItem(shot);
+    const newItem = document.querySelector(`.prompt-shot-item[data-shot-id="${shotId}"]`);
+    if (!newItem) return;
+
+    newItem.querySelector('.btn-generate-prompt')?.addEventListener('click', () => this.generatePrompt(shotId));
+    newItem.querySelector('.btn-save-prompt')?.addEventListener('click', () => this.saveEditedPrompt(shotId));
+    newItem.querySelector('.btn-prompt-history')?.addEventListener('click', () => this.togglePromptHistory(shotId));
+    this.attachTerminologyLint(shotId);
+  }
+
+  /**
+   * Update the prompt progress counter
+   */
+  private refreshProgress(): void {
+    const progress = document.querySelector('.prompt-progress');
+    if (progress) {
+      progress.textContent = `${this.prompts.size} of ${this.shots.length} shots have prompts`;
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  /**
+   * Render error state
+   */
+  private renderError(message: string): void {
+    const container = document.getElementById('video-prompt-engineer-container');
+    if (!container) return;
+
+    container.innerHTML = `
+      <div class="prompt-engineer-error">
+        <div class="error-icon">❌</div>
+        <h3>Prompt Engineering Error</h3>
+        <p>${message}</p>
+        <button class="btn btn-primary" onclick="location.reload()">
+          Retry
+        </button>
+      </div>
+    `;
+  }
+}
+
+// Export singleton instance
+export const videoPromptEngineer = new VideoPromptEngineer();
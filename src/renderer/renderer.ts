@@ -24,6 +24,12 @@ async function initializeComponents() {
     }
     
     // Import and initialize components
+    await import('./components/SessionMenu.js').then(module => module.sessionMenu.initialize()).catch(console.error);
+    await import('./components/GlobalAPISettings.js').then(module => {
+      // Legacy keys only move into the key store once a project director signs in
+      window.addEventListener('sessionChanged', () => module.GlobalAPISettings.initialize());
+      return module.GlobalAPISettings.initialize();
+    }).catch(console.error);
     await import('./components/ProjectCreationModal.js').catch(console.error);
     await import('./components/ProjectsManager.js').catch(console.error);
     await import('./components/NewsArticleUpload.js').catch(console.error);
@@ -33,7 +39,6 @@ async function initializeComponents() {
     await import('./components/ProjectDirectorDashboard.js').catch(console.error);
     
     // Import settings components
-    await import('./components/GlobalAPISettings.js').catch(console.error);
     await import('./components/AgentModelSelector.js').catch(console.error);
     
     // Import and initialize model validation
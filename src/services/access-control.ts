@@ -0,0 +1,122 @@
+// Access Control Service
+// Checks the signed-in user's project role before IPC handlers change project data
+
+import { databaseService, ProjectScopedEntity } from '../database/database';
+import { APIResponse, ApprovalEntityType, ProjectAccess, ProjectPermission, RevisionEntityType } from '../shared/types';
+import { APPROVAL_INPUTS, APPROVAL_STAGE_LABELS } from '../shared/utils/approval';
+import { PERMISSION_LABELS, PROJECT_ROLE_LABELS, ROLE_PERMISSIONS, hasPermission } from '../shared/utils/permissions';
+import { SessionManager } from './auth';
+
+// The record a revision's entity ID points at
+const REVISION_ENTITIES: Record<RevisionEntityType, ProjectScopedEntity> = {
+  CREATIVE_STRATEGY: 'creative_strategy',
+  DIRECTOR_NOTES: 'director_notes',
+  SCRIPT: 'script',
+  STORYBOARD: 'storyboard'
+};
+
+export class AccessControlService {
+  /**
+   * The signed-in user's ID, or null when signed out
+   */
+  currentUserId(): string | null {
+    return SessionManager.getCurrentUser()?.id ?? null;
+  }
+
+  /**
+   * The signed-in user's role and permissions on a project
+   */
+  async getProjectAccess(projectId: string): Promise<ProjectAccess> {
+    const user = SessionManager.getCurrentUser();
+    const role = user ? await databaseService.getProjectRole(projectId, user.id) : null;
+
+    return {
+      project_id: projectId,
+      user,
+      role,
+      permissions: role ? [...ROLE_PERMISSIONS[role]] : []
+    };
+  }
+
+  /**
+   * Check that the signed-in user holds a permission on a project.
+   * Returns the failure response to send back, or null when allowed.
+   */
+  async authorize(projectId: string | null | undefined, permission: ProjectPermission): Promise<APIResponse<never> | null> {
+    const user = SessionManager.getCurrentUser();
+    if (!user) {
+      return this.deny('Sign in to make changes');
+    }
+    if (!projectId) {
+      return this.deny('Project not found');
+    }
+
+    const role = await databaseService.getProjectRole(projectId, user.id);
+    if (!role) {
+      return this.deny('You are not a member of this project');
+    }
+    if (!hasPermission(role, permission)) {
+      return this.deny(`Your project role (${PROJECT_ROLE_LABELS[role]}) doesn't allow you to ${PERMISSION_LABELS[permission]}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a permission on the project that owns a record
+   */
+  async authorizeEntity(entity: ProjectScopedEntity, id: string, permission: ProjectPermission): Promise<APIResponse<never> | null> {
+    return this.authorize(await databaseService.getEntityProjectId(entity, id), permission);
+  }
+
+  /**
+   * Check a permission on the project that owns a revisioned entity. Restoring a version is an edit,
+   * so a stage still waiting on upstream approval stays locked.
+   */
+  async authorizeRevision(entityType: RevisionEntityType, entityId: string, permission: ProjectPermission): Promise<APIResponse<never> | null> {
+    const entity = REVISION_ENTITIES[entityType];
+    if (!entity) {
+      return this.deny(`Unknown revision entity type: ${entityType}`);
+    }
+
+    const projectId = await databaseService.getEntityProjectId(entity, entityId);
+    return entityType in APPROVAL_INPUTS
+      ? this.authorizeStage(projectId, entityType as ApprovalEntityType, permission)
+      : this.authorize(projectId, permission);
+  }
+
+  /**
+   * Check a permission, and that the stage being changed isn't waiting for the stage it is built from to be approved
+   */
+  async authorizeStage(projectId: string | null | undefined, stage: ApprovalEntityType, permission: ProjectPermission): Promise<APIResponse<never> | null> {
+    const denied = await this.authorize(projectId, permission);
+    if (denied) return denied;
+
+    const blockedBy = await databaseService.getUnapprovedInput(projectId!, stage);
+    return blockedBy
+      ? this.deny(`${APPROVAL_STAGE_LABELS[blockedBy]} must be approved before the ${APPROVAL_STAGE_LABELS[stage].toLowerCase()} can be changed`)
+      : null;
+  }
+
+  /**
+   * Check that the signed-in user is a global project director, for app-wide operations
+   */
+  authorizeAdmin(): APIResponse<never> | null {
+    const user = SessionManager.getCurrentUser();
+    if (!user) {
+      return this.deny('Sign in to make changes');
+    }
+    return user.role === 'PROJECT_DIRECTOR' ? null : this.deny('Only project directors can do this');
+  }
+
+  private deny(error: string): APIResponse<never> {
+    return {
+      success: false,
+      error,
+      timestamp: new Date()
+    };
+  }
+}
+
+// Export singleton instance
+export const accessControlService = new AccessControlService();
@@ -2,17 +2,24 @@
 // Manages individual AI agent settings and model assignments
 
 import { PersonaType } from '../shared/types/index.js';
-import { AgentConfig } from './llm.js';
-import { ModelAvailabilityService, ModelInfo } from './model-availability.js';
+import { AgentConfig, GenerationParameters } from './llm.js';
+import { ModelAvailabilityService, ModelInfo, ProviderEndpoint } from './model-availability.js';
 import { ModelRecommendationService } from './model-recommendations.js';
 
 export interface StoredAgentConfig {
   [key: string]: {
-    provider: 'openai' | 'anthropic' | 'gemini' | 'local';
+    provider: 'openai' | 'anthropic' | 'gemini' | 'local' | 'openai-compatible' | 'mock';
     model: string;
+    generation?: GenerationParameters;
   };
 }
 
+// Applied when an agent has not overridden a generation parameter
+export const DEFAULT_GENERATION_PARAMETERS = {
+  temperature: 0.7,
+  maxTokens: 1000
+};
+
 export class AgentConfigService {
   private static STORAGE_KEY = 'agent-configurations';
 
@@ -27,22 +34,31 @@ export class AgentConfigService {
       
       if (!config) return null;
 
-      // Get API key from global settings
-      const apiKey = this.getGlobalAPIKey(config.provider);
-      
-      return {
-        persona,
-        provider: config.provider,
-        model: config.model,
-        apiKey: apiKey || undefined,
-        baseUrl: config.provider === 'local' ? (apiKey || undefined) : undefined
-      };
+      return this.getModelConfig(persona, config.provider, config.model, config.generation);
     } catch (error) {
       console.error('Failed to load agent config:', error);
       return null;
     }
   }
 
+  /**
+   * Build the configuration for sending a persona's requests to a specific provider and model,
+   * e.g. a judge model chosen separately from the persona's own
+   */
+  public static getModelConfig(persona: PersonaType, provider: AgentConfig['provider'], model: string, generation?: GenerationParameters): AgentConfig {
+    // Global settings hold the stored key's ID and, for self-hosted providers, the server URL
+    const settings = this.loadGlobalSettings();
+
+    return {
+      persona,
+      provider,
+      model,
+      keyId: settings?.keys?.[provider]?.id || undefined,
+      ...this.getProviderEndpoint(provider),
+      generation
+    };
+  }
+
   /**
    * Save configuration for a specific agent
    */
@@ -56,7 +72,8 @@ export class AgentConfigService {
       const configs = this.loadStoredConfigs();
       configs[persona] = {
         provider: config.provider,
-        model: config.model
+        model: config.model,
+        generation: config.generation
       };
       
       localStorage.setItem(this.STORAGE_KEY, JSON.stringify(configs));
@@ -65,6 +82,28 @@ export class AgentConfigService {
     }
   }
 
+  /**
+   * Validate generation parameters, returning a list of problems (empty when valid)
+   */
+  public static validateGenerationParameters(generation: GenerationParameters): string[] {
+    const errors: string[] = [];
+
+    if (generation.temperature !== undefined && (isNaN(generation.temperature) || generation.temperature < 0 || generation.temperature > 2)) {
+      errors.push('Temperature must be between 0 and 2');
+    }
+    if (generation.topP !== undefined && (isNaN(generation.topP) || generation.topP <= 0 || generation.topP > 1)) {
+      errors.push('Top-p must be greater than 0 and at most 1');
+    }
+    if (generation.maxTokens !== undefined && (!Number.isInteger(generation.maxTokens) || generation.maxTokens < 1)) {
+      errors.push('Max output tokens must be a positive whole number');
+    }
+    if (generation.stopSequences && generation.stopSequences.length > 4) {
+      errors.push('Use at most 4 stop sequences so every provider can apply them');
+    }
+
+    return errors;
+  }
+
   /**
    * Get all agent configurations
    */
@@ -97,9 +136,8 @@ export class AgentConfigService {
     // Check if agent has provider and model selected
     if (!config.provider || !config.model) return false;
     
-    // Check if global API key exists for this provider
-    const apiKey = this.getGlobalAPIKey(config.provider);
-    return !!apiKey;
+    // Check if a global API key is stored for this provider
+    return !!this.getGlobalProviderSetting(config.provider);
   }
 
   /**
@@ -120,7 +158,6 @@ export class AgentConfigService {
         persona: 'CREATIVE_STRATEGIST', // Default persona
         provider: settings.provider,
         model: settings.model,
-        apiKey: settings.apiKey,
         baseUrl: settings.baseUrl
       };
     } catch (error) {
@@ -151,7 +188,6 @@ export class AgentConfigService {
         this.saveAgentConfig(persona, {
           provider: defaultConfig.provider,
           model: defaultConfig.model,
-          apiKey: defaultConfig.apiKey,
           baseUrl: defaultConfig.baseUrl
         });
       }
@@ -178,9 +214,44 @@ export class AgentConfigService {
   }
 
   /**
-   * Get API key for provider from global settings
+   * Get the setting that makes a provider usable from global settings: the stored API key's ID,
+   * or the server URL for self-hosted providers. Keys themselves are held encrypted by the main process.
+   */
+  private static getGlobalProviderSetting(provider: string): string | null {
+    const settings = this.loadGlobalSettings();
+    if (!settings) return null;
+
+    switch (provider) {
+      case 'local': return settings.local_base_url || null;
+      case 'openai-compatible': return settings.compatible_base_url || null;
+      case 'mock': return settings.mock_enabled ? 'mock' : null;
+      default: return settings.keys?.[provider]?.id || null;
+    }
+  }
+
+  /**
+   * Get where a self-hosted provider is served from global settings (empty for hosted providers)
+   */
+  public static getProviderEndpoint(provider: string): ProviderEndpoint {
+    const settings = this.loadGlobalSettings();
+
+    switch (provider) {
+      case 'local':
+        return { baseUrl: settings?.local_base_url || undefined };
+      case 'openai-compatible':
+        return {
+          baseUrl: settings?.compatible_base_url || undefined,
+          authHeader: settings?.compatible_auth_header || undefined
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Load global API settings from localStorage (or return null if not available)
    */
-  private static getGlobalAPIKey(provider: string): string | null {
+  private static loadGlobalSettings(): any {
     try {
       // Check if localStorage is available (renderer process only)
       if (typeof localStorage === 'undefined') {
@@ -188,18 +259,7 @@ export class AgentConfigService {
       }
       
       const globalSettings = localStorage.getItem('global-api-settings');
-      
-      if (!globalSettings) return null;
-      
-      const settings = JSON.parse(globalSettings);
-      
-      switch (provider) {
-        case 'openai': return settings.openai_api_key || null;
-        case 'anthropic': return settings.anthropic_api_key || null;
-        case 'gemini': return settings.gemini_api_key || null;
-        case 'local': return settings.local_base_url || null;
-        default: return null;
-      }
+      return globalSettings ? JSON.parse(globalSettings) : null;
     } catch (error) {
       console.error('Failed to load global API settings:', error);
       return null;
@@ -209,9 +269,9 @@ export class AgentConfigService {
   /**
    * Get available models for a provider (with real-time checking)
    */
-  public static async getModelsForProviderDynamic(provider: string, apiKey?: string): Promise<{ value: string; label: string; deprecated?: boolean; error?: string }[]> {
+  public static async getModelsForProviderDynamic(provider: string, apiKey?: string, endpoint?: ProviderEndpoint): Promise<{ value: string; label: string; deprecated?: boolean; error?: string }[]> {
     try {
-      const result = await ModelAvailabilityService.checkAvailableModels(provider, apiKey);
+      const result = await ModelAvailabilityService.checkAvailableModels(provider, apiKey, endpoint);
       
       if (result.success) {
         return result.models.map(model => ({
@@ -282,6 +342,10 @@ export class AgentConfigService {
           { value: 'codellama:13b', label: 'Code Llama 13B (Legacy Coding)' },
           { value: 'phi3.5:3.8b', label: 'Phi 3.5 (Microsoft - Compact)' }
         ];
+      case 'mock':
+        return [
+          { value: 'mock-deterministic', label: 'Deterministic Fixtures (Offline)' }
+        ];
       default:
         return [];
     }
@@ -318,8 +382,20 @@ export class AgentConfigService {
       const isConfigured = !!(config.provider && config.model);
 
       // Check if API key is available (this affects runtime validity, not configuration)
-      const apiKey = this.getGlobalAPIKey(config.provider);
-      if (!apiKey && config.provider !== 'local') {
+      const hasKey = !!this.getGlobalProviderSetting(config.provider);
+      if (!hasKey && config.provider === 'openai-compatible') {
+        issues.push('No base URL configured for the OpenAI-compatible endpoint');
+        suggestions.push({
+          action: 'setup-api',
+          description: 'Configure the OpenAI-compatible endpoint in global settings'
+        });
+      } else if (!hasKey && config.provider === 'mock') {
+        issues.push('The offline demo provider is turned off');
+        suggestions.push({
+          action: 'setup-api',
+          description: 'Turn on the offline demo provider in global settings'
+        });
+      } else if (!hasKey && config.provider !== 'local') {
         issues.push(`No API key found for ${config.provider}`);
         suggestions.push({
           action: 'setup-api',
@@ -328,12 +404,8 @@ export class AgentConfigService {
       }
 
       // Validate model availability
-      if (apiKey || config.provider === 'local') {
-        const modelValidation = await ModelAvailabilityService.validateModel(
-          config.provider, 
-          config.model, 
-          apiKey || undefined
-        );
+      if (hasKey || config.provider === 'local') {
+        const modelValidation = await this.validateModel(config.provider, config.model);
 
         if (!modelValidation.isValid) {
           issues.push(`Model "${config.model}" is not available`);
@@ -374,6 +446,28 @@ export class AgentConfigService {
     }
   }
 
+  /**
+   * Check a model against the provider's live model list. From the renderer this goes
+   * through the main process, which holds the API keys.
+   */
+  private static async validateModel(provider: string, modelId: string): Promise<{
+    isValid: boolean;
+    isDeprecated?: boolean;
+    suggestedReplacement?: string;
+    error?: string;
+  }> {
+    const endpoint = this.getProviderEndpoint(provider);
+
+    if (typeof window !== 'undefined' && window.electronAPI) {
+      const result = await window.electronAPI.models.validateModel(provider, modelId, endpoint);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    }
+    return ModelAvailabilityService.validateModel(provider, modelId, undefined, endpoint);
+  }
+
   /**
    * Auto-fix agent configuration issues
    */
@@ -398,8 +492,8 @@ export class AgentConfigService {
             this.saveAgentConfig(persona, {
               provider: currentConfig.provider,
               model: suggestion.data.newModel,
-              apiKey: currentConfig.apiKey,
-              baseUrl: currentConfig.baseUrl
+              baseUrl: currentConfig.baseUrl,
+              generation: currentConfig.generation
             });
             changes.push(`Updated model to ${suggestion.data.newModel}`);
           }
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ArticleExtractorService } from './article-extractor';
+
+/**
+ * A minimal PDF with one line of Helvetica text per entry, one page per array
+ */
+function buildPdf(pages: string[][]): Buffer {
+  const objects = ['<< /Type /Catalog /Pages 2 0 R >>', '', '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'];
+  const kids: string[] = [];
+  pages.forEach(lines => {
+    const stream = `BT /F1 12 Tf 14 TL 72 720 Td ${lines.map(line => `(${line.replace(/[()\\]/g, '\\$&')}) Tj T*`).join(' ')} ET`;
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${objects.length} 0 R >>`);
+    kids.push(`${objects.length} 0 R`);
+  });
+  objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('ArticleExtractorService', () => {
+  const extractor = new ArticleExtractorService();
+
+  it('keeps hard-wrapped lines that mention cookies or newsletters', async () => {
+    const text = [
+      'Bake Sale Raises Record Sum',
+      '',
+      'By Jane Smith',
+      '',
+      'The school bake sale sold more',
+      'cookies on Saturday, organisers said.',
+      'Parents who had',
+      'subscribed to the weekly newsletter list.',
+      'heard about it first.',
+      '',
+      'Advertisement',
+      '',
+      'The money will pay for library books.'
+    ].join('\n');
+
+    const article = await extractor.extract(Buffer.from(text), 'bake-sale.txt', 'text/plain');
+
+    expect(article.headline).toBe('Bake Sale Raises Record Sum');
+    expect(article.byline).toBe('Jane Smith');
+    expect(article.text).toContain('cookies on Saturday, organisers said.');
+    expect(article.text).toContain('subscribed to the weekly newsletter list.');
+    expect(article.text).not.toContain('Advertisement');
+    expect(article.warnings).toContain('Removed 1 line of page furniture such as "Advertisement". Check the text if anything is missing.');
+  });
+
+  it('only removes furniture that is a paragraph of its own in Markdown', async () => {
+    const markdown = [
+      '# Council Votes on Bins',
+      '',
+      'Residents were asked to',
+      'share',
+      'their views before the vote.',
+      '',
+      'Share this article',
+      '',
+      '12'
+    ].join('\n');
+
+    const article = await extractor.extract(Buffer.from(markdown), 'bins.md', 'text/markdown');
+
+    expect(article.text).toContain('share\ntheir views before the vote.');
+    expect(article.text).not.toContain('Share this article');
+    expect(article.text).not.toMatch(/\b12\b/);
+  });
+
+  it('reflows PDF lines before looking for furniture', async () => {
+    const pdf = buildPdf([
+      [
+        'Bake Sale Raises Record Sum',
+        'The school bake sale sold more',
+        'cookies on Saturday, organisers said.',
+        'Advertisement',
+        'Parents who subscribed to the',
+        'newsletter heard first.',
+        '1'
+      ],
+      ['The money will pay for library books.', '2']
+    ]);
+
+    const article = await extractor.extract(pdf, 'bake-sale.pdf', 'application/pdf');
+
+    expect(article.text).toBe([
+      'The school bake sale sold more cookies on Saturday, organisers said.',
+      'Parents who subscribed to the newsletter heard first.',
+      '',
+      'The money will pay for library books.'
+    ].join('\n'));
+  });
+});
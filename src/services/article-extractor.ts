@@ -0,0 +1,603 @@
+// Article Extractor Service
+// Local text extraction for uploaded news articles (PDF, DOCX, HTML, Markdown, RTF and plain text)
+
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { ArticleExtraction, ArticleFileFormat } from '../shared/types/index.js';
+
+interface ArticleMetadata {
+  headline?: string;
+  byline?: string;
+  published_date?: Date;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+// Metadata lines are only looked for near the top of the article
+const METADATA_SCAN_LINES = 10;
+const MAX_HEADLINE_LENGTH = 200;
+const MAX_METADATA_LINE_LENGTH = 120;
+
+// Whole short paragraphs that are site furniture rather than article text. Every pattern must match the
+// entire paragraph, so sentences that merely mention cookies or newsletters are never removed.
+const BOILERPLATE_PATTERN = new RegExp('^(' + [
+  'advertisement', 'advert', 'sponsored( content)?', 'share( this( article| story| page)?)?( on \\w+)?', 'tweet', 'email( this( article| story)?)?',
+  'follow us( on \\w+)?', 'sign up( (for|to) (our|the) \\w+ newsletter| now)?', 'subscribe( now| today| to (our|the) newsletter)?',
+  '(sign up for |get )?(our|the) \\w+ newsletter', 'newsletter( sign[- ]?up)?', 'read more( stories| articles)?', 'related( articles| stories| content)?',
+  'more on this story', 'most (read|popular)', 'recommended( for you)?', 'we use cookies( on this (site|website))?',
+  '(accept|reject|manage)( all)? cookies', 'cookie (settings|policy|preferences)', 'skip to( main)? content',
+  'back to top', 'comments?( \\(\\d+\\))?', 'image (source|caption|copyright):.*', 'getty images', 'all rights reserved',
+  '(copyright|©) (©\\s*)?\\d{4}\\b.*', '© .*', 'page \\d+( of \\d+)?', '-*\\s*\\d+ of \\d+\\s*-*', '\\d+'
+].join('|') + ')[.!:]?$', 'i');
+const MAX_BOILERPLATE_LENGTH = 80;
+
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”', bullet: '•'
+};
+
+const REMOVED_HTML_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object', 'canvas'];
+const BOILERPLATE_HTML_ELEMENTS = ['nav', 'footer', 'aside', 'form', 'button', 'select', 'figure'];
+const BOILERPLATE_CLASS_PATTERN = /\b(share|sharing|social|newsletter|subscribe|related|advert|ad-slot|promo|cookie|comments?|sidebar|breadcrumbs?)\b/i;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', pound: '£', euro: '€', copy: '©', reg: '®', trade: '™'
+};
+
+/**
+ * Converts uploaded article files into clean text plus headline, byline and publication date
+ */
+export class ArticleExtractorService {
+  /**
+   * Extract an article from a file's contents
+   */
+  async extract(buffer: Buffer, fileName: string, mimeType?: string): Promise<ArticleExtraction> {
+    const format = this.detectFormat(buffer, fileName, mimeType);
+    const warnings: string[] = [];
+    let text = '';
+    let metadata: ArticleMetadata = {};
+
+    switch (format) {
+      case 'PDF':
+        ({ text, metadata } = await this.extractPdf(buffer));
+        break;
+      case 'DOCX': {
+        const result = await mammoth.convertToHtml({ buffer });
+        ({ text, metadata } = this.extractHtml(result.value, false));
+        break;
+      }
+      case 'HTML':
+        ({ text, metadata } = this.extractHtml(this.decodeText(buffer), true));
+        break;
+      case 'MARKDOWN':
+        ({ text, metadata } = this.extractMarkdown(this.decodeText(buffer)));
+        break;
+      case 'RTF':
+        ({ text, metadata } = this.extractRtf(buffer.toString('latin1')));
+        break;
+      default:
+        text = this.decodeText(buffer);
+    }
+
+    const article = this.finishArticle(text, metadata, format === 'PDF');
+
+    if (article.text.length === 0) {
+      warnings.push(format === 'PDF'
+        ? 'No text found. The PDF may be a scanned image, which needs OCR before it can be used.'
+        : 'No article text could be extracted from this file.');
+    } else if (format === 'PDF' && article.text.length < 200) {
+      warnings.push('Very little text found. Parts of the PDF may be scanned images.');
+    }
+    if (article.boilerplate.length > 0) {
+      const examples = [...new Set(article.boilerplate)].slice(0, 3).map(line => `"${line}"`).join(', ');
+      warnings.push(`Removed ${article.boilerplate.length} line${article.boilerplate.length === 1 ? '' : 's'} of page furniture such as ${examples}. Check the text if anything is missing.`);
+    }
+    if (!article.headline) warnings.push('No headline detected.');
+    if (!article.byline) warnings.push('No byline detected.');
+    if (!article.published_date) warnings.push('No publication date detected.');
+
+    return {
+      format,
+      text: article.text,
+      headline: article.headline,
+      byline: article.byline,
+      published_date: article.published_date,
+      word_count: article.text ? article.text.split(/\s+/).filter(Boolean).length : 0,
+      warnings
+    };
+  }
+
+  /**
+   * Work out the file format from its extension, MIME type and leading bytes
+   */
+  detectFormat(buffer: Buffer, fileName: string, mimeType?: string): ArticleFileFormat {
+    const extension = (fileName.split('.').pop() || '').toLowerCase();
+    const mime = (mimeType || '').toLowerCase();
+    const header = buffer.subarray(0, 8).toString('latin1');
+
+    if (extension === 'doc' || mime === 'application/msword') {
+      throw new Error('Legacy Word .doc files are not supported. Save the document as .docx and upload it again.');
+    }
+
+    if (header.startsWith('%PDF') || extension === 'pdf' || mime.includes('pdf')) return 'PDF';
+    if (header.startsWith('{\\rtf') || extension === 'rtf' || mime.includes('rtf')) return 'RTF';
+    if (extension === 'docx' || mime.includes('wordprocessingml')) return 'DOCX';
+    if (['html', 'htm', 'xhtml'].includes(extension) || mime.includes('html')) return 'HTML';
+    if (['md', 'markdown'].includes(extension) || mime.includes('markdown')) return 'MARKDOWN';
+    if (extension === 'txt' || mime.startsWith('text/') || !mime) return 'TEXT';
+
+    throw new Error(`Unsupported file type: ${fileName}${mimeType ? ` (${mimeType})` : ''}`);
+  }
+
+  // Private helper methods
+
+  private async extractPdf(buffer: Buffer): Promise<{ text: string; metadata: ArticleMetadata }> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+    try {
+      const result = await parser.getText();
+      const info = await parser.getInfo().catch(() => null);
+
+      // Running headers and footers repeat on most pages
+      const pages = result.pages.map(page => page.text.split('\n').map(line => line.trim()));
+      const repeated = new Set<string>();
+      if (pages.length >= 2) {
+        const counts = new Map<string, number>();
+        pages.forEach(lines => new Set(lines.filter(Boolean)).forEach(line => counts.set(line, (counts.get(line) || 0) + 1)));
+        counts.forEach((count, line) => {
+          if (count >= Math.max(2, Math.ceil(pages.length / 2))) repeated.add(line);
+        });
+      }
+
+      const text = pages.map(lines => this.trimPageNumbers(lines.filter(line => !repeated.has(line))).join('\n')).join('\n\n');
+      const title = typeof info?.info?.Title === 'string' ? info.info.Title.trim() : '';
+      const author = typeof info?.info?.Author === 'string' ? info.info.Author.trim() : '';
+
+      return {
+        text,
+        metadata: {
+          // Word processors often write the file name or "Untitled" as the PDF title
+          headline: title && !/^(untitled|microsoft word)|\.(docx?|pdf)$/i.test(title) ? title : undefined,
+          byline: author || undefined
+        }
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  /**
+   * Page numbers sit at the top or bottom of a page; left in, reflow would join them to the text
+   */
+  private trimPageNumbers(lines: string[]): string[] {
+    const isPageNumber = (line: string) => /^(page\s+)?\d+(\s+of\s+\d+)?$|^[-–—]+\s*\d+\s*[-–—]+$/i.test(line);
+    const content = lines.map((line, index) => ({ line, index })).filter(({ line }) => line.length > 0);
+    const edges = new Set([content[0], content[content.length - 1]].filter(entry => entry && isPageNumber(entry.line)).map(entry => entry.index));
+    return lines.filter((line, index) => !edges.has(index));
+  }
+
+  private extractHtml(html: string, fullPage: boolean): { text: string; metadata: ArticleMetadata } {
+    const metadata = fullPage ? this.readHtmlMetadata(html) : {};
+
+    let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+    REMOVED_HTML_ELEMENTS.forEach(tag => {
+      cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'), '');
+    });
+
+    // Prefer the article element with the most text, then <main>, then <body>
+    const body = this.largestElement(cleaned, 'article') || this.largestElement(cleaned, 'main') ||
+      this.largestElement(cleaned, 'body') || cleaned;
+
+    let content = body;
+    BOILERPLATE_HTML_ELEMENTS.forEach(tag => {
+      content = content.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'), '');
+    });
+    content = content.replace(/<(div|section|ul|ol|p|span)\b([^>]*)>[\s\S]*?<\/\1>/gi, (element, _tag, attributes: string) => {
+      const classes = (attributes.match(/\b(?:class|id)\s*=\s*["']([^"']*)["']/gi) || []).join(' ');
+      return BOILERPLATE_CLASS_PATTERN.test(classes) ? '' : element;
+    });
+
+    if (!metadata.headline) {
+      const heading = content.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+      if (heading) metadata.headline = this.htmlToText(heading[1]).trim() || undefined;
+    }
+
+    return { text: this.htmlToText(content), metadata };
+  }
+
+  private readHtmlMetadata(html: string): ArticleMetadata {
+    const metadata: ArticleMetadata = {};
+
+    // Structured data is the most reliable source when a page publishes it
+    const jsonLdBlocks = html.match(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi) || [];
+    for (const block of jsonLdBlocks) {
+      try {
+        const data = JSON.parse(block.replace(/^<script\b[^>]*>|<\/script>$/gi, ''));
+        const items: any[] = (Array.isArray(data) ? data : [data]).flatMap(item => item?.['@graph'] || [item]);
+        const article = items.find(item => item && (item.headline || item.datePublished));
+        if (article) {
+          metadata.headline = metadata.headline || this.cleanString(article.headline);
+          metadata.byline = metadata.byline || this.authorNames(article.author);
+          metadata.published_date = metadata.published_date || this.parseDate(article.datePublished);
+        }
+      } catch {
+        // Malformed JSON-LD is common; fall back to meta tags
+      }
+    }
+
+    const meta = new Map<string, string>();
+    (html.match(/<meta\b[^>]*>/gi) || []).forEach(tag => {
+      const attributes = this.readAttributes(tag);
+      const key = (attributes.property || attributes.name || attributes.itemprop || '').toLowerCase();
+      if (key && attributes.content && !meta.has(key)) meta.set(key, attributes.content);
+    });
+
+    metadata.headline = metadata.headline || this.cleanString(meta.get('og:title') || meta.get('twitter:title') || meta.get('title'));
+
+    const author = meta.get('author') || meta.get('article:author') || meta.get('byl') || meta.get('dc.creator');
+    if (!metadata.byline && author && !/^https?:/i.test(author)) {
+      metadata.byline = this.cleanByline(this.decodeEntities(author));
+    }
+
+    if (!metadata.published_date) {
+      const date = meta.get('article:published_time') || meta.get('datepublished') || meta.get('pubdate') ||
+        meta.get('publishdate') || meta.get('date') || meta.get('dc.date') ||
+        html.match(/<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i)?.[1];
+      metadata.published_date = this.parseDate(date);
+    }
+
+    if (!metadata.byline) {
+      const bylineElement = html.match(/<(\w+)\b[^>]*class\s*=\s*["'][^"']*\b(byline|author-name)\b[^"']*["'][^>]*>([\s\S]*?)<\/\1>/i);
+      if (bylineElement) metadata.byline = this.cleanByline(this.htmlToText(bylineElement[3]));
+    }
+
+    if (!metadata.headline) {
+      const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+      // Drop the " | Site Name" suffix most pages add to <title>
+      metadata.headline = this.cleanString(title && this.decodeEntities(title).split(/\s+[|–—-]\s+/)[0]);
+    }
+
+    return metadata;
+  }
+
+  private extractMarkdown(markdown: string): { text: string; metadata: ArticleMetadata } {
+    const metadata: ArticleMetadata = {};
+    let body = markdown.replace(/\r\n?/g, '\n');
+
+    // YAML front matter (title/author/date) as used by static site generators
+    const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n/);
+    if (frontMatter) {
+      const field = (name: string) => frontMatter[1].match(new RegExp(`^${name}\\s*:\\s*["']?(.+?)["']?\\s*$`, 'mi'))?.[1];
+      metadata.headline = this.cleanString(field('title'));
+      metadata.byline = this.cleanString(field('author'));
+      metadata.published_date = this.parseDate(field('date'));
+      body = body.substring(frontMatter[0].length);
+    }
+
+    const heading = body.match(/^#\s+(.+)$/m);
+    if (heading && !metadata.headline) {
+      metadata.headline = this.cleanString(heading[1].replace(/#+\s*$/, ''));
+    }
+
+    const text = body
+      .replace(/```[\s\S]*?```/g, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/^\[[^\]]+\]:\s*\S+.*$/gm, '')
+      .replace(/^#{1,6}\s+(.*?)\s*#*\s*$/gm, '$1')
+      .replace(/^\s*>\s?/gm, '')
+      .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+      .replace(/^\s*[*+]\s+/gm, '- ')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+      .replace(/`([^`]+)`/g, '$1');
+
+    return { text, metadata };
+  }
+
+  private extractRtf(rtf: string): { text: string; metadata: ArticleMetadata } {
+    const metadata: ArticleMetadata = {};
+
+    // The \info group carries document title, author and creation time
+    const infoField = (name: string) => rtf.match(new RegExp(`\\{\\\\${name}\\s+((?:[^{}\\\\]|\\\\.)*)\\}`))?.[1];
+    metadata.headline = this.cleanString(infoField('title') && this.rtfToText(infoField('title')!));
+    metadata.byline = this.cleanString(infoField('author') && this.rtfToText(infoField('author')!));
+    const created = rtf.match(/\\creatim\\yr(\d{4})\\mo(\d{1,2})\\dy(\d{1,2})/);
+    if (created) {
+      metadata.published_date = this.validDate(Date.UTC(+created[1], +created[2] - 1, +created[3]));
+    }
+
+    return { text: this.rtfToText(rtf), metadata };
+  }
+
+  /**
+   * Convert RTF to plain text, skipping destination groups such as font tables, pictures and \info
+   */
+  private rtfToText(rtf: string): string {
+    const skippedDestinations = new Set([
+      'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer', 'headerl', 'headerr', 'footerl',
+      'footerr', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping',
+      'latentstyles', 'datastore', 'object', 'fldinst'
+    ]);
+    const stack: { skip: boolean; unicodeSkip: number }[] = [];
+    let skip = false;
+    let unicodeSkip = 1;
+    let pendingSkip = 0; // Fallback characters still to drop after a \u escape
+    let output = '';
+    let i = 0;
+
+    const emit = (text: string) => {
+      if (skip) return;
+      if (pendingSkip > 0) {
+        pendingSkip--;
+        return;
+      }
+      output += text;
+    };
+
+    while (i < rtf.length) {
+      const char = rtf[i];
+
+      if (char === '{') {
+        stack.push({ skip, unicodeSkip });
+        i++;
+        continue;
+      }
+      if (char === '}') {
+        ({ skip, unicodeSkip } = stack.pop() || { skip: false, unicodeSkip: 1 });
+        i++;
+        continue;
+      }
+      if (char === '\\') {
+        const next = rtf[i + 1];
+        if (next === '\\' || next === '{' || next === '}') {
+          emit(next);
+          i += 2;
+          continue;
+        }
+        if (next === '*') {
+          skip = true;
+          i += 2;
+          continue;
+        }
+        if (next === "'") {
+          emit(String.fromCharCode(parseInt(rtf.substring(i + 2, i + 4), 16)));
+          i += 4;
+          continue;
+        }
+        if (next === '~') {
+          emit(' ');
+          i += 2;
+          continue;
+        }
+
+        const control = rtf.substring(i, i + 40).match(/^\\([a-z]+)(-?\d+)? ?/i);
+        if (!control) {
+          i += 2;
+          continue;
+        }
+        i += control[0].length;
+
+        const [, word, parameter] = control;
+        if (skippedDestinations.has(word)) {
+          skip = true;
+        } else if (skip) {
+          continue;
+        } else if (word === 'par' || word === 'line' || word === 'sect' || word === 'page') {
+          output += '\n';
+        } else if (word === 'tab') {
+          output += '\t';
+        } else if (word === 'uc') {
+          unicodeSkip = Number(parameter);
+        } else if (word === 'u') {
+          const code = Number(parameter);
+          output += String.fromCharCode(code < 0 ? code + 65536 : code);
+          pendingSkip = unicodeSkip;
+        } else if (RTF_SYMBOLS[word]) {
+          output += RTF_SYMBOLS[word];
+        }
+        continue;
+      }
+
+      if (char !== '\r' && char !== '\n') {
+        emit(char);
+      }
+      i++;
+    }
+
+    return output;
+  }
+
+  /**
+   * Shared clean-up: find metadata lines at the top, remove them and boilerplate, and tidy whitespace
+   */
+  private finishArticle(rawText: string, metadata: ArticleMetadata, reflow: boolean): ArticleMetadata & { text: string; boilerplate: string[] } {
+    let lines = rawText
+      .replace(/\r\n?/g, '\n')
+      .replace(/\u00a0/g, ' ')
+      .split('\n')
+      .map(line => line.replace(/[ \t]+/g, ' ').trim());
+
+    const result = { ...metadata };
+    const removed = new Set<number>();
+    const firstLines = lines.map((line, index) => ({ line, index })).filter(({ line }) => line.length > 0).slice(0, METADATA_SCAN_LINES);
+
+    // The first line of the file doubles as the headline when nothing better was found
+    const first = firstLines[0];
+    if (first && first.line.length <= MAX_HEADLINE_LENGTH) {
+      if (!result.headline && !/[.,;]$/.test(first.line)) {
+        result.headline = first.line;
+      }
+      if (result.headline && this.sameText(first.line, result.headline)) {
+        removed.add(first.index);
+      }
+    }
+
+    for (const { line, index } of firstLines) {
+      if (removed.has(index) || line.length > MAX_METADATA_LINE_LENGTH) continue;
+
+      const byline = line.match(/^(?:by|written by|words by|story by|reporting by)\s+(.+)$/i);
+      if (byline) {
+        const [name, ...rest] = byline[1].split(/\s+[|•·—–-]\s+|,\s+(?=\w+\s+\d)/);
+        result.byline = result.byline || this.cleanByline(name);
+        result.published_date = result.published_date || this.parseDate(rest.join(' '));
+        removed.add(index);
+        continue;
+      }
+
+      const date = this.parseDate(line);
+      if (date && line.replace(/\b(published|updated|posted|first published|last modified|on|at)\b:?/gi, '').length <= 60) {
+        result.published_date = result.published_date || date;
+        removed.add(index);
+        continue;
+      }
+
+      if (result.byline && this.sameText(line, result.byline)) {
+        removed.add(index);
+      }
+    }
+
+    let text = lines
+      .filter((line, index) => !removed.has(index))
+      .filter((line, index, all) => line.length === 0 || line !== all[index - 1])
+      .join('\n');
+    if (reflow) {
+      // PDF text arrives as visual lines; rejoin hyphenated words and wrapped lines into paragraphs
+      text = text
+        .replace(/(\w)-\n(\w)/g, '$1$2')
+        .replace(/([^\n.!?:"”’)])\n(?=[a-z0-9(“"‘'])/g, '$1 ');
+    }
+
+    const { text: cleaned, boilerplate } = this.removeBoilerplate(text, reflow);
+    return {
+      ...result,
+      text: cleaned.replace(/\n{3,}/g, '\n\n').trim(),
+      boilerplate
+    };
+  }
+
+  /**
+   * Drop short paragraphs that are site furniture. Only whole paragraphs are judged: after reflow each PDF
+   * line is one, elsewhere a paragraph ends at a blank line, so a line of hard-wrapped text is never removed.
+   */
+  private removeBoilerplate(text: string, reflowed: boolean): { text: string; boilerplate: string[] } {
+    const lines = text.split('\n');
+    const boilerplate: string[] = [];
+
+    const kept = lines.filter((line, index) => {
+      const standalone = reflowed || ((lines[index - 1] ?? '') === '' && (lines[index + 1] ?? '') === '');
+      if (!standalone || line.length === 0 || line.length > MAX_BOILERPLATE_LENGTH || !BOILERPLATE_PATTERN.test(line)) {
+        return true;
+      }
+      boilerplate.push(line);
+      return false;
+    });
+
+    return { text: kept.join('\n'), boilerplate };
+  }
+
+  private htmlToText(html: string): string {
+    return this.decodeEntities(
+      html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<\/?(p|div|section|article|header|main|h[1-6]|li|ul|ol|blockquote|tr|table|pre)\b[^>]*>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+    ).replace(/[ \t]*\n[ \t]*/g, '\n');
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  private decodeText(buffer: Buffer): string {
+    return buffer.toString('utf8').replace(/^\uFEFF/, '');
+  }
+
+  private largestElement(html: string, tag: string): string | null {
+    const matches = html.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi')) || [];
+    if (matches.length === 0) {
+      // Unclosed <body> in hand-saved pages
+      const open = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)$`, 'i'));
+      return open ? open[1] : null;
+    }
+
+    return matches.reduce((largest, match) =>
+      this.htmlToText(match).trim().length > this.htmlToText(largest).trim().length ? match : largest
+    );
+  }
+
+  private readAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(tag)) !== null) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3];
+    }
+    return attributes;
+  }
+
+  private authorNames(author: any): string | undefined {
+    const authors = Array.isArray(author) ? author : [author];
+    const names = authors
+      .map(item => (typeof item === 'string' ? item : item?.name))
+      .filter((name): name is string => typeof name === 'string' && name.length > 0 && !/^https?:/i.test(name));
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+
+  private cleanByline(byline: string | undefined): string | undefined {
+    return this.cleanString(byline?.replace(/^(by|written by|words by)\s+/i, ''));
+  }
+
+  private cleanString(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const cleaned = this.decodeEntities(value).replace(/\s+/g, ' ').trim();
+    return cleaned.length > 0 ? cleaned : undefined;
+  }
+
+  private sameText(a: string, b: string): boolean {
+    const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    return normalize(a) === normalize(b) || normalize(a) === `by ${normalize(b)}`;
+  }
+
+  /**
+   * Parse ISO, PDF (D:YYYYMMDD) and written dates such as "12 March 2024" or "March 12, 2024"
+   */
+  private parseDate(value: unknown): Date | undefined {
+    if (typeof value !== 'string' || value.trim().length === 0) return undefined;
+
+    const iso = value.match(/\b\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?\b/);
+    if (iso) return this.validDate(Date.parse(iso[0]));
+
+    const pdf = value.match(/^D:(\d{4})(\d{2})(\d{2})/);
+    if (pdf) return this.validDate(Date.UTC(+pdf[1], +pdf[2] - 1, +pdf[3]));
+
+    const dayFirst = value.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'i'));
+    if (dayFirst) return this.writtenDate(+dayFirst[3], dayFirst[2], +dayFirst[1]);
+
+    const monthFirst = value.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'));
+    if (monthFirst) return this.writtenDate(+monthFirst[3], monthFirst[1], +monthFirst[2]);
+
+    return undefined;
+  }
+
+  private writtenDate(year: number, month: string, day: number): Date | undefined {
+    const monthIndex = MONTHS.findIndex(name => name.startsWith(month.toLowerCase().replace('.', '').substring(0, 3)));
+    return monthIndex >= 0 && day >= 1 && day <= 31 ? this.validDate(Date.UTC(year, monthIndex, day)) : undefined;
+  }
+
+  private validDate(time: number): Date | undefined {
+    return Number.isFinite(time) ? new Date(time) : undefined;
+  }
+}
+
+// Export singleton instance
+export const articleExtractorService = new ArticleExtractorService();
@@ -1,8 +1,10 @@
 import * as bcrypt from 'bcrypt';
 import * as jwt from 'jsonwebtoken';
 import { UserRepository } from '../database/models';
-import { User, PersonaType, APIResponse } from '../shared/types';
+import { databaseService } from '../database/database';
+import { User, PersonaType, ProjectPermission, APIResponse } from '../shared/types';
 import { validateEmail, generateId } from '../shared/utils';
+import { hasPermission } from '../shared/utils/permissions';
 
 // JWT Configuration
 const JWT_SECRET = process.env.JWT_SECRET || 'svpp-development-secret-key'; // In production, this should be from environment
@@ -333,33 +335,29 @@ export class AuthService {
   }
 
   /**
-   * Check if user can access project
+   * Check if user can access project - they need a role on it
    */
   static async canAccessProject(userId: string, projectId: string): Promise<boolean> {
     try {
-      // Get user
-      const userResult = await UserRepository.findById(userId);
-      if (!userResult.success || !userResult.data) {
-        return false;
-      }
-
-      // Project Directors can access any project they created
-      if (userResult.data.role === 'PROJECT_DIRECTOR') {
-        // We would check if they created the project, but for Phase 0, allow access
-        return true;
-      }
-
-      // For other personas, check if they're assigned to the project
-      // This would require checking the project's assigned_personas
-      // For Phase 0, allow access if they have a valid account
-      return true;
-
+      return (await databaseService.getProjectRole(projectId, userId)) !== null;
     } catch (error) {
       console.error('Project access check failed:', error);
       return false;
     }
   }
 
+  /**
+   * Check if user holds a permission on a project through their project role
+   */
+  static async hasProjectPermission(userId: string, projectId: string, permission: ProjectPermission): Promise<boolean> {
+    try {
+      return hasPermission(await databaseService.getProjectRole(projectId, userId), permission);
+    } catch (error) {
+      console.error('Project permission check failed:', error);
+      return false;
+    }
+  }
+
   /**
    * Generate default admin user for development
    */
@@ -393,6 +391,24 @@ export class AuthService {
       console.error('Failed to create default admin:', error);
     }
   }
+
+  /**
+   * Sign in as the default admin without a password. Only for `--dev` launches and tests; everyone else signs in.
+   */
+  static async startDefaultSession(): Promise<void> {
+    try {
+      const admin = await UserRepository.findByEmail('admin@svpp.dev');
+      if (!admin) {
+        console.warn('Default admin user not found - starting signed out');
+        return;
+      }
+
+      const token = this.generateToken({ userId: admin.id, email: admin.email, role: admin.role });
+      SessionManager.setCurrentUser({ ...admin, password_hash: undefined }, token);
+    } catch (error) {
+      console.error('Failed to start default session:', error);
+    }
+  }
 }
 
 /**
@@ -0,0 +1,152 @@
+// Character Bible Service
+// Persisted per-project character reference shared by every agent
+
+import { Character, PersonaType } from '../shared/types/index.js';
+import { databaseService } from '../database/database';
+
+export interface CharacterMention {
+  name: string;
+  role?: string;
+  description?: string;
+  visualDescription?: string;
+  wardrobe?: string;
+  voice?: string;
+  mannerisms?: string;
+}
+
+// Fields agents may fill in on unlocked characters; they never overwrite what a user has written
+const FILLABLE_FIELDS: { mention: keyof CharacterMention; character: keyof Character }[] = [
+  { mention: 'role', character: 'role' },
+  { mention: 'description', character: 'description' },
+  { mention: 'visualDescription', character: 'visual_description' },
+  { mention: 'wardrobe', character: 'wardrobe' },
+  { mention: 'voice', character: 'voice_notes' },
+  { mention: 'mannerisms', character: 'mannerisms' }
+];
+
+const UNASSIGNED_ROLE = 'Unassigned';
+
+/**
+ * Reads and writes the character bible and renders it for system prompts
+ */
+export class CharacterBibleService {
+  /**
+   * Get every character in a project's bible. Returns an empty bible if the database is unavailable.
+   */
+  async getBible(projectId: string): Promise<Character[]> {
+    if (!projectId || !databaseService.isInitialized()) {
+      return [];
+    }
+
+    const result = await databaseService.getCharactersByProject(projectId);
+    return result.success && result.data ? result.data : [];
+  }
+
+  /**
+   * Find a character by name (case-insensitive)
+   */
+  async findByName(projectId: string, name: string): Promise<Character | null> {
+    const bible = await this.getBible(projectId);
+    return bible.find(character => character.name.toLowerCase() === name.trim().toLowerCase()) || null;
+  }
+
+  /**
+   * Record characters mentioned by an agent. New names are added; unlocked characters only have empty fields filled.
+   * Returns the names of locked characters whose mention contradicted the bible.
+   */
+  async recordMentions(projectId: string, mentions: CharacterMention[], persona?: PersonaType): Promise<string[]> {
+    if (!projectId || !databaseService.isInitialized()) {
+      return [];
+    }
+
+    const conflicts: string[] = [];
+
+    for (const mention of mentions) {
+      const existing = await this.findByName(projectId, mention.name);
+
+      if (!existing) {
+        await databaseService.createCharacter({
+          project_id: projectId,
+          name: mention.name,
+          role: mention.role || UNASSIGNED_ROLE,
+          description: mention.description,
+          visual_description: mention.visualDescription || '',
+          wardrobe: mention.wardrobe,
+          verbal_tics: [],
+          catchphrases: [],
+          voice_notes: mention.voice,
+          mannerisms: mention.mannerisms,
+          ai_generated: true,
+          persona_source: persona
+        });
+        continue;
+      }
+
+      if (existing.locked) {
+        if (this.contradicts(existing, mention)) {
+          conflicts.push(existing.name);
+        }
+        continue;
+      }
+
+      const updates: Partial<Character> = {};
+      FILLABLE_FIELDS.forEach(({ mention: from, character: to }) => {
+        const value = mention[from];
+        const current = existing[to];
+        if (value && (!current || (to === 'role' && current === UNASSIGNED_ROLE))) {
+          (updates as any)[to] = value;
+        }
+      });
+
+      if (Object.keys(updates).length > 0) {
+        await databaseService.updateCharacter(existing.id, updates);
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Render the bible as a system prompt section
+   */
+  formatForPrompt(characters: Character[]): string {
+    if (characters.length === 0) {
+      return '';
+    }
+
+    const entries = characters.map(character => {
+      const details = [
+        character.description,
+        character.visual_description && `Appearance: ${character.visual_description}`,
+        character.wardrobe && `Wardrobe: ${character.wardrobe}`,
+        character.voice_notes && `Voice: ${character.voice_notes}`,
+        character.mannerisms && `Mannerisms: ${character.mannerisms}`,
+        character.verbal_tics.length > 0 && `Verbal tics: ${character.verbal_tics.join('; ')}`,
+        character.catchphrases.length > 0 && `Catchphrases: "${character.catchphrases.join('", "')}"`,
+        character.reference_sheet && `Reference sheet: ${character.reference_sheet}`
+      ].filter(Boolean);
+
+      const heading = `- ${character.name} (${character.role})${character.locked ? ' [LOCKED]' : ''}`;
+      return details.length > 0 ? `${heading}\n  ${details.join('\n  ')}` : heading;
+    });
+
+    return `\n\nCHARACTER BIBLE:
+These are the established characters for this project. Use their exact names and keep appearance, wardrobe, voice and mannerisms consistent.
+Characters marked [LOCKED] are final - never change or contradict their details.
+${entries.join('\n')}`;
+  }
+
+  // Private helper methods
+
+  private contradicts(character: Character, mention: CharacterMention): boolean {
+    return FILLABLE_FIELDS.some(({ mention: from, character: to }) => {
+      const value = mention[from];
+      const current = character[to];
+      return !!value && typeof current === 'string' && current.length > 0 &&
+        !current.toLowerCase().includes(String(value).toLowerCase());
+    });
+  }
+}
+
+// Export singleton instance
+export const characterBibleService = new CharacterBibleService();
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Character } from '../shared/types';
+import { characterBibleService } from './character-bible';
+import { ContextManager } from './context-manager';
+
+const anchor: Character = {
+  id: 'char-1',
+  project_id: 'project-1',
+  name: 'Derek Plinth',
+  role: 'News anchor',
+  description: 'Unflappable and wrong about everything',
+  visual_description: 'Grey suit, immovable hair',
+  verbal_tics: [],
+  catchphrases: [],
+  created_at: new Date()
+};
+
+const baseContext = {
+  projectId: 'project-1',
+  project: { id: 'project-1', name: 'Battery Farm Bulletin', satirical_format: 'NEWS_PARODY' }
+};
+
+describe('ContextManager', () => {
+  let manager: ContextManager;
+
+  beforeEach(() => {
+    manager = new ContextManager();
+    vi.spyOn(characterBibleService, 'getBible').mockResolvedValue([anchor]);
+    vi.spyOn(characterBibleService, 'recordMentions').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createEnhancedContext', () => {
+    it('adds characters, format rules and persona requirements to the base context', async () => {
+      const context = await manager.createEnhancedContext('project-1', 'CINEMATIC_STORYBOARDER', baseContext, 'conv-1');
+
+      expect(context.project).toBe(baseContext.project);
+      expect(context.characterProfiles).toEqual([
+        expect.objectContaining({ id: 'char-1', name: 'Derek Plinth', role: 'News anchor', visualDescription: 'Grey suit, immovable hair' })
+      ]);
+      expect(context.formatConstraints).toContain('Authoritative presenter tone');
+      expect(context.formatGuidelines).toMatchObject({ format: 'NEWS_PARODY', examples: ['The Day Today', 'Brass Eye', 'Clarke and Dawe'] });
+      expect(context.qualityRequirements).toContain('Respect 8-second shot limitations');
+      expect(context.handoffPreparation).toContain('Confirm all shots meet 8-second constraint');
+      expect(context.contextSummary).toBe('New project starting with initial context.');
+      expect(context.previousStageOutputs).toBe('No previous stage outputs available.');
+    });
+
+    it('leaves format rules empty when the project has no format', async () => {
+      const context = await manager.createEnhancedContext('project-1', 'CREATIVE_STRATEGIST', { projectId: 'project-1' }, 'conv-1');
+
+      expect(context.formatConstraints).toEqual([]);
+      expect(context.formatGuidelines).toBeNull();
+    });
+
+    it('falls back to the base context when enrichment fails', async () => {
+      vi.mocked(characterBibleService.getBible).mockRejectedValue(new Error('database locked'));
+
+      expect(await manager.createEnhancedContext('project-1', 'CREATIVE_STRATEGIST', baseContext, 'conv-1')).toBe(baseContext);
+    });
+
+    it('picks up the latest snapshot after an interaction', async () => {
+      await manager.updateContextAfterInteraction('project-1', 'SATIRICAL_SCREENWRITER', 'Write it', 'Script draft', 'conv-1');
+
+      const context = await manager.createEnhancedContext('project-1', 'CINEMATIC_STORYBOARDER', baseContext, 'conv-1');
+
+      expect(context.contextSummary).toBe('SATIRICAL_SCREENWRITER interaction completed');
+      expect(context.previousStageOutputs).toBe('Previous stages completed successfully with approved outputs.');
+    });
+  });
+
+  describe('generateContextPromptAdditions', () => {
+    it('assembles the prompt sections in order', async () => {
+      const context = await manager.createEnhancedContext('project-1', 'BAFFLING_BROADCASTER', baseContext, 'conv-1');
+
+      const prompt = manager.generateContextPromptAdditions('BAFFLING_BROADCASTER', context);
+
+      const headings = prompt.split('\n').filter(line => line.startsWith('#'));
+      expect(headings).toEqual([
+        '## ENHANCED CONTEXT AWARENESS',
+        '### CHARACTER CONSISTENCY',
+        '### WORKFLOW CONTINUITY',
+        '### FORMAT COMPLIANCE',
+        '### QUALITY STANDARDS',
+        '### PROJECT CONTEXT SUMMARY'
+      ]);
+      expect(prompt).toContain('Established characters: Derek Plinth. Follow the CHARACTER BIBLE for their details.');
+      expect(prompt).toContain('• Authoritative presenter tone\n');
+      expect(prompt).toContain('• Show oblivious disconnect from reality\n');
+    });
+
+    it('includes recent decisions and user preferences when present', () => {
+      const prompt = manager.generateContextPromptAdditions('CREATIVE_STRATEGIST', {
+        recentDecisions: [
+          { stage: 'Creative Strategy', decision: 'Lead with the cage sizes', reasoning: 'Strongest contrast', impact: '', timestamp: new Date() }
+        ],
+        userPreferences: [{ category: 'tone', preference: 'Deadpan', strength: 4, appliedAt: [] }]
+      });
+
+      expect(prompt).toContain('### RECENT PROJECT DECISIONS\n• Lead with the cage sizes (Strongest contrast)\n');
+      expect(prompt).toContain('### USER PREFERENCES\n• Deadpan (tone)\n');
+      expect(prompt).not.toContain('### CHARACTER CONSISTENCY');
+    });
+  });
+
+  describe('updateContextAfterInteraction', () => {
+    it('records structured character mentions in the character bible', async () => {
+      const response = '## Characters\n- Derek Plinth (News anchor) - Unflappable\n  Voice: Clipped RP\n- Character: Trudy Gate - Roving reporter';
+
+      await manager.updateContextAfterInteraction('project-1', 'CREATIVE_STRATEGIST', 'Who is in it?', response, 'conv-1');
+
+      expect(characterBibleService.recordMentions).toHaveBeenCalledWith('project-1', [
+        { name: 'Derek Plinth', role: 'News anchor', description: 'Unflappable', voice: 'Clipped RP' },
+        { name: 'Trudy Gate', role: undefined, description: 'Roving reporter' }
+      ], 'CREATIVE_STRATEGIST');
+    });
+
+    it('skips the character bible when no characters are mentioned', async () => {
+      await manager.updateContextAfterInteraction('project-1', 'CREATIVE_STRATEGIST', 'Thoughts?', 'the angle is corporate euphemism', 'conv-1');
+
+      expect(characterBibleService.recordMentions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepareContextTransfer', () => {
+    it('packages the handoff for the next persona', async () => {
+      const transfer = await manager.prepareContextTransfer('project-1', 'SATIRICAL_SCREENWRITER', 'CINEMATIC_STORYBOARDER', 'FADE IN: A battery farm.');
+
+      expect(transfer.contextSummary).toBe(
+        'SATIRICAL_SCREENWRITER completed their work and is transferring to CINEMATIC_STORYBOARDER. Output: FADE IN: A battery farm.'
+      );
+      expect(transfer.continuityInstructions[0]).toBe('Build upon the work completed by SATIRICAL_SCREENWRITER');
+      expect(transfer.qualityRequirements).toContain('Provide detailed visual descriptions');
+    });
+  });
+});
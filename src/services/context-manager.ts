@@ -3,6 +3,7 @@
 
 import { PersonaType, SatiricalFormat } from '../shared/types/index.js';
 import { ProjectContext, ConversationMemory, CharacterProfile, KeyDecision, UserPreference } from './workflow-state.js';
+import { characterBibleService, CharacterMention } from './character-bible.js';
 
 export interface ContextSnapshot {
   id: string;
@@ -58,7 +59,6 @@ export interface ContextMessage {
 export class ContextManager {
   private contextSnapshots: Map<string, ContextSnapshot[]> = new Map();
   private activeContexts: Map<string, ConversationContext> = new Map();
-  private characterProfiles: Map<string, CharacterProfile> = new Map();
   private formatConstraints: Map<SatiricalFormat, string[]> = new Map();
 
   constructor() {
@@ -90,7 +90,7 @@ export class ContextManager {
         previousStageOutputs: this.getPreviousStageOutputs(contextSnapshot, persona),
         
         // Character consistency
-        characterProfiles: this.getRelevantCharacterProfiles(projectId),
+        characterProfiles: await this.getRelevantCharacterProfiles(projectId),
         characterConsistency: this.generateCharacterConsistencyReminders(),
         
         // Format compliance
@@ -155,7 +155,7 @@ export class ContextManager {
       });
 
       // Update character consistency if characters mentioned
-      await this.updateCharacterConsistency(projectId, agentResponse);
+      await this.updateCharacterConsistency(projectId, agentResponse, persona);
 
       // Update shared memory
       await this.updateSharedMemory(projectId, persona, userMessage, agentResponse);
@@ -222,10 +222,10 @@ export class ContextManager {
 
     // Character consistency reminders
     if (enhancedContext.characterProfiles && enhancedContext.characterProfiles.length > 0) {
+      // Full descriptions are already in the CHARACTER BIBLE section of the system prompt
       contextPrompt += '\n### CHARACTER CONSISTENCY\n';
-      enhancedContext.characterProfiles.forEach((char: CharacterProfile) => {
-        contextPrompt += `• **${char.name}**: ${char.description} (Visual: ${char.visualDescription})\n`;
-      });
+      const names = enhancedContext.characterProfiles.map((char: CharacterProfile) => char.name).join(', ');
+      contextPrompt += `Established characters: ${names}. Follow the CHARACTER BIBLE for their details.\n`;
       contextPrompt += '\n⚠️ CRITICAL: Maintain exact character descriptions and visual consistency across all responses.\n';
     }
 
@@ -299,9 +299,17 @@ export class ContextManager {
     return 'Previous stages completed successfully with approved outputs.';
   }
 
-  private getRelevantCharacterProfiles(projectId: string): CharacterProfile[] {
-    // Would retrieve character profiles from project context
-    return Array.from(this.characterProfiles.values());
+  private async getRelevantCharacterProfiles(projectId: string): Promise<CharacterProfile[]> {
+    const bible = await characterBibleService.getBible(projectId);
+    return bible.map(character => ({
+      id: character.id,
+      name: character.name,
+      description: character.description || '',
+      visualDescription: character.visual_description,
+      personality: character.mannerisms || '',
+      role: character.role,
+      consistency: character.name
+    }));
   }
 
   private generateCharacterConsistencyReminders(): string[] {
@@ -557,30 +565,16 @@ export class ContextManager {
     }
   }
 
-  private async updateCharacterConsistency(projectId: string, response: string): Promise<void> {
-    // Extract character mentions and update consistency tracking
+  private async updateCharacterConsistency(projectId: string, response: string, persona?: PersonaType): Promise<void> {
+    // Extract character mentions and record them in the persisted character bible
     const characterMentions = this.extractCharacterMentions(response);
-    
-    characterMentions.forEach(mention => {
-      const profile = this.characterProfiles.get(mention.name);
-      if (profile) {
-        // Update character profile with any new information
-        if (mention.description && mention.description !== profile.description) {
-          console.warn(`⚠️ Character description inconsistency detected for ${mention.name}`);
-        }
-      } else {
-        // Create new character profile
-        const newProfile: CharacterProfile = {
-          id: this.generateCharacterId(),
-          name: mention.name,
-          description: mention.description || '',
-          visualDescription: mention.visualDescription || '',
-          personality: mention.personality || '',
-          role: mention.role || '',
-          consistency: mention.name // For AI prompt consistency
-        };
-        this.characterProfiles.set(mention.name, newProfile);
-      }
+    if (characterMentions.length === 0) {
+      return;
+    }
+
+    const conflicts = await characterBibleService.recordMentions(projectId, characterMentions, persona);
+    conflicts.forEach(name => {
+      console.warn(`⚠️ Character description inconsistency detected for locked character ${name}`);
     });
   }
 
@@ -596,13 +590,14 @@ export class ContextManager {
   }
 
   private async createContextSnapshot(projectId: string, persona: PersonaType): Promise<void> {
+    const bible = await characterBibleService.getBible(projectId);
     const snapshot: ContextSnapshot = {
       id: this.generateSnapshotId(),
       projectId,
       timestamp: new Date(),
       context: {} as ProjectContext, // Would be populated with actual context
       conversationSummary: `${persona} interaction completed`,
-      characterConsistency: new Map(Array.from(this.characterProfiles.entries()).map(([key, profile]) => [key, profile.name])),
+      characterConsistency: new Map(bible.map(character => [character.id, character.name])),
       formatConstraints: [],
       qualityMetrics: this.getDefaultQualityMetrics()
     };
@@ -699,9 +694,58 @@ export class ContextManager {
     };
   }
 
-  private extractCharacterMentions(response: string): any[] {
-    // Extract character mentions with context
-    return []; // Implementation would parse response for character information
+  private extractCharacterMentions(response: string): CharacterMention[] {
+    // Only structured mentions are picked up: "Character: Name - description" lines,
+    // and bullets under a Characters/Cast heading, optionally followed by labelled detail lines
+    const mentions: CharacterMention[] = [];
+    let inCharacterSection = false;
+    let current: CharacterMention | null = null;
+
+    for (const rawLine of response.split('\n')) {
+      const line = rawLine.replace(/\*\*/g, '').trim();
+      if (!line) {
+        continue;
+      }
+
+      const heading = line.match(/^#{1,6}\s*(.+)$/) || line.match(/^([A-Za-z ]+):$/);
+      if (heading) {
+        inCharacterSection = /\b(characters?|cast|presenters?)\b/i.test(heading[1]);
+        current = null;
+        continue;
+      }
+
+      const detail = current && line.match(/^[-*•]?\s*(appearance|look|wardrobe|costume|voice|mannerisms?)\s*:\s*(.+)$/i);
+      if (current && detail) {
+        const label = detail[1].toLowerCase();
+        if (label === 'appearance' || label === 'look') current.visualDescription = detail[2];
+        else if (label === 'wardrobe' || label === 'costume') current.wardrobe = detail[2];
+        else if (label === 'voice') current.voice = detail[2];
+        else current.mannerisms = detail[2];
+        continue;
+      }
+
+      const labelled = line.match(/^(?:[-*•]\s*)?character\s*:\s*(.+)$/i);
+      const bullet = inCharacterSection ? line.match(/^(?:[-*•]|\d+\.)\s*(.+)$/) : null;
+      const entry = labelled?.[1] || bullet?.[1];
+      if (!entry) {
+        continue;
+      }
+
+      const parsed = entry.match(/^([A-Z][\w'.-]*(?:\s+[A-Z][\w'.-]*){0,3})\s*(?:\(([^)]+)\))?\s*(?:[-–—:]\s*(.+))?$/);
+      if (!parsed) {
+        current = null;
+        continue;
+      }
+
+      current = {
+        name: parsed[1].trim(),
+        role: parsed[2]?.trim(),
+        description: parsed[3]?.trim()
+      };
+      mentions.push(current);
+    }
+
+    return mentions;
   }
 
   private summarizeOutput(output: any): string {
@@ -715,10 +759,6 @@ export class ContextManager {
     return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private generateCharacterId(): string {
-    return `char_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   private generateSnapshotId(): string {
     return `snap_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
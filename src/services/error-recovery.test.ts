@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ErrorRecoveryService, RetryConfig } from './error-recovery';
+
+// Keep retry delays short so the suite doesn't wait on real backoff
+const fast: Partial<RetryConfig> = { baseDelay: 1, maxDelay: 5, timeout: 1000 };
+
+describe('ErrorRecoveryService', () => {
+  let service: ErrorRecoveryService;
+
+  beforeEach(() => {
+    service = new ErrorRecoveryService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the result of a successful operation on the first attempt', async () => {
+    const operation = vi.fn().mockResolvedValue('ok');
+
+    const result = await service.executeWithRecovery('op-1', 'CREATIVE_STRATEGIST', operation, fast);
+
+    expect(result).toEqual({ success: true, result: 'ok', attempts: 1 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries retryable errors until the operation succeeds', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockRejectedValueOnce(new Error('Network error: connection reset'))
+      .mockResolvedValue('recovered');
+
+    const result = await service.executeWithRecovery('op-2', 'BAFFLING_BROADCASTER', operation, fast);
+
+    expect(result).toMatchObject({ success: true, result: 'recovered', attempts: 3 });
+    expect(operation).toHaveBeenCalledTimes(3);
+
+    const stats = service.getErrorStatistics('BAFFLING_BROADCASTER');
+    expect(stats.totalAttempts).toBe(3);
+    expect(stats.commonErrors.map(error => error.type).sort()).toEqual(['api_rate_limit', 'network_error']);
+  });
+
+  it('gives up after maxRetries retries', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('Request timed out'));
+
+    const result = await service.executeWithRecovery('op-3', 'SATIRICAL_SCREENWRITER', operation, { ...fast, maxRetries: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Request timed out');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors outside the retryable list', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('401 Unauthorized: invalid API key'));
+
+    const result = await service.executeWithRecovery('op-4', 'SATIRICAL_SCREENWRITER', operation, fast);
+
+    expect(result.success).toBe(false);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(service.getErrorStatistics('SATIRICAL_SCREENWRITER').commonErrors).toEqual([
+      { type: 'authentication_error', count: 1 }
+    ]);
+  });
+
+  it('fails attempts that run past the per-attempt timeout', async () => {
+    const operation = vi.fn(() => new Promise(() => {}));
+
+    const result = await service.executeWithRecovery('op-5', 'SOUNDSCAPE_ARCHITECT', operation, { ...fast, timeout: 10, maxRetries: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Operation timed out after 10ms');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off exponentially up to maxDelay', async () => {
+    const delays: number[] = [];
+    vi.spyOn(service as any, 'sleep').mockImplementation(async (ms: any) => {
+      delays.push(ms);
+    });
+    const operation = vi.fn().mockRejectedValue(new Error('rate limit exceeded'));
+
+    await service.executeWithRecovery('op-6', 'CINEMATIC_STORYBOARDER', operation, { baseDelay: 100, maxDelay: 300, maxRetries: 3 });
+
+    expect(delays).toEqual([100, 200, 300]);
+  });
+
+  it('opens the circuit breaker after five failures and blocks further calls', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('401 Unauthorized'));
+    for (let i = 0; i < 5; i++) {
+      await service.executeWithRecovery(`fail-${i}`, 'VIDEO_PROMPT_ENGINEER', failing, fast);
+    }
+    expect(service.getErrorStatistics('VIDEO_PROMPT_ENGINEER').circuitBreakerState).toBe('OPEN');
+
+    const operation = vi.fn().mockResolvedValue('ok');
+    const result = await service.executeWithRecovery('blocked', 'VIDEO_PROMPT_ENGINEER', operation, fast);
+
+    expect(result).toMatchObject({ success: false, attempts: 0 });
+    expect(result.error?.message).toContain('Circuit breaker is open');
+    expect(operation).not.toHaveBeenCalled();
+
+    // Other personas have their own breaker
+    expect((await service.executeWithRecovery('other', 'PROJECT_DIRECTOR', operation, fast)).success).toBe(true);
+  });
+
+  it('lets a trial call through once the breaker timeout has passed, closing it on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const failing = vi.fn().mockRejectedValue(new Error('401 Unauthorized'));
+    for (let i = 0; i < 5; i++) {
+      await service.executeWithRecovery(`fail-${i}`, 'CREATIVE_STRATEGIST', failing, fast);
+    }
+
+    vi.setSystemTime(Date.now() + 61000);
+    expect(service.getErrorStatistics('CREATIVE_STRATEGIST').circuitBreakerState).toBe('HALF_OPEN');
+
+    const result = await service.executeWithRecovery('trial', 'CREATIVE_STRATEGIST', vi.fn().mockResolvedValue('ok'), fast);
+
+    expect(result.success).toBe(true);
+    expect(service.getErrorStatistics('CREATIVE_STRATEGIST').circuitBreakerState).toBe('CLOSED');
+  });
+
+  it('closes the breaker when it is reset manually', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('401 Unauthorized'));
+    for (let i = 0; i < 5; i++) {
+      await service.executeWithRecovery(`fail-${i}`, 'SOUNDSCAPE_ARCHITECT', failing, fast);
+    }
+
+    service.resetCircuitBreaker('SOUNDSCAPE_ARCHITECT');
+
+    expect(service.getErrorStatistics('SOUNDSCAPE_ARCHITECT').circuitBreakerState).toBe('CLOSED');
+  });
+
+  it('suggests recovery steps from the error strategy', () => {
+    const { strategy, suggestions } = service.getRecoverySuggestions('CREATIVE_STRATEGIST', 'api_rate_limit');
+
+    expect(strategy.strategy).toBe('exponential_backoff');
+    expect(suggestions).toContain('Fallback: switch provider');
+  });
+});
@@ -9,6 +9,7 @@ export interface RetryConfig {
   baseDelay: number; // milliseconds
   backoffMultiplier: number;
   maxDelay: number; // milliseconds
+  timeout: number; // milliseconds per attempt
   retryableErrors: ErrorType[];
 }
 
@@ -97,6 +98,7 @@ export class ErrorRecoveryService {
       baseDelay: 1000,
       backoffMultiplier: 2,
       maxDelay: 30000,
+      timeout: 30000,
       retryableErrors: [
         'api_timeout',
         'api_rate_limit',
@@ -137,7 +139,7 @@ export class ErrorRecoveryService {
 
     for (attempts = 0; attempts <= config.maxRetries; attempts++) {
       try {
-        const result = await this.executeWithTimeout(operation, 30000); // 30 second timeout
+        const result = await this.executeWithTimeout(operation, config.timeout);
         
         // Success - record and return
         this.recordSuccessfulAttempt(operationId, persona, attempts);
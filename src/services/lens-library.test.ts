@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { databaseService } from '../database/database';
+import { SatiricalContext } from '../shared/types';
+import { parseLensFile } from '../shared/utils/lenses';
+import { SatiricalContextService } from './satirical-context';
+import { LensLibraryService } from './lens-library';
+
+const housingLens: SatiricalContext = {
+  type: 'CUSTOM',
+  name: '  Housing Justice ',
+  description: 'Landlords, speculation and the housing crisis',
+  ethicalFramework: 'Housing is a human right, not an investment vehicle',
+  keyPrinciples: ['Homes are for living in', '  ', 'Rent extraction is not work'],
+  commonTargets: ['Corporate landlords'],
+  preferredTerminology: [
+    { avoid: 'property market', prefer: 'housing crisis', reason: 'Names the harm' },
+    { avoid: 'landlord', prefer: '', reason: 'Incomplete row' }
+  ],
+  satiricalApproaches: ['Estate agent listings that tell the truth']
+};
+
+describe('LensLibraryService', () => {
+  const library = new LensLibraryService();
+  let tempDir: string;
+
+  beforeAll(async () => {
+    await databaseService.initialize();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lens-library-'));
+  });
+
+  afterAll(async () => {
+    databaseService.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('saves a cleaned-up lens and reports what a lens is missing', async () => {
+    const saved = await library.saveLens({ lens: housingLens }, 'user-1');
+
+    expect(saved.success).toBe(true);
+    expect(saved.data!.created_by).toBe('user-1');
+    expect(saved.data!.context).toMatchObject({
+      type: 'CUSTOM',
+      name: 'Housing Justice',
+      lensId: saved.data!.id,
+      keyPrinciples: ['Homes are for living in', 'Rent extraction is not work'],
+      preferredTerminology: [{ avoid: 'property market', prefer: 'housing crisis', reason: 'Names the harm' }]
+    });
+
+    const invalid = await library.saveLens({ lens: { name: 'Half a lens' } }, 'user-1');
+    expect(invalid).toMatchObject({
+      success: false,
+      error: 'Describe the ethical framework; Add at least one key principle; Add at least one satirical approach'
+    });
+  });
+
+  it('only lets the author change or delete a lens', async () => {
+    const saved = await library.saveLens({ lens: housingLens }, 'user-1');
+    const id = saved.data!.id;
+
+    expect(await library.saveLens({ id, lens: { ...housingLens, name: 'Renamed' } }, 'user-2'))
+      .toMatchObject({ success: false, error: 'Only the author of a lens can change or remove it' });
+    expect(await library.deleteLens(id, 'user-2')).toMatchObject({ success: false });
+
+    const renamed = await library.saveLens({ id, lens: { ...housingLens, name: 'Renamed' } }, 'user-1');
+    expect(renamed.data!.context.name).toBe('Renamed');
+
+    expect((await library.deleteLens(id, 'user-1')).success).toBe(true);
+    expect((await databaseService.getSatiricalLensById(id)).success).toBe(false);
+  });
+
+  it('exports a lens to JSON and imports it as a new lens', async () => {
+    const saved = await library.saveLens({ lens: housingLens }, 'user-1');
+    const filePath = path.join(tempDir, 'housing.json');
+
+    expect((await library.exportLens(saved.data!.id, filePath)).data).toBe(filePath);
+    const file = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(file).toMatchObject({ format: 'satirical-lens', version: 1, lens: { name: 'Housing Justice' } });
+    expect(file.lens.lensId).toBeUndefined();
+
+    const imported = await library.importLens(filePath, 'user-2');
+    expect(imported.data!.id).not.toBe(saved.data!.id);
+    expect(imported.data!.created_by).toBe('user-2');
+    expect({ ...imported.data!.context, lensId: undefined }).toEqual({ ...saved.data!.context, lensId: undefined });
+  });
+
+  it('rejects files that are not usable lenses', async () => {
+    const filePath = path.join(tempDir, 'broken.json');
+    await fs.writeFile(filePath, '{ "name": ', 'utf-8');
+
+    expect(await library.importLens(filePath, 'user-1'))
+      .toMatchObject({ success: false, error: 'broken.json is not a usable lens: The file is not valid JSON' });
+    expect(parseLensFile(JSON.stringify({ format: 'satirical-lens', version: 2, lens: housingLens })).lens).toBeNull();
+    expect(parseLensFile(`\uFEFF${JSON.stringify(housingLens)}`).lens?.name).toBe('Housing Justice');
+  });
+
+  it('applies a library lens to a project as a copy', async () => {
+    const saved = await library.saveLens({ lens: housingLens }, 'user-1');
+    const project = await databaseService.createProject({
+      name: 'Open House',
+      status: 'ACTIVE',
+      created_by: 'user-1',
+      assigned_personas: [],
+      satirical_context: SatiricalContextService.getContextByType('GENERAL')!
+    });
+
+    expect(await databaseService.updateProjectContext(project.data!.id, 'CUSTOM'))
+      .toMatchObject({ success: false, error: 'Choose a lens from the library' });
+
+    const applied = await databaseService.updateProjectContext(project.data!.id, 'CUSTOM', saved.data!.id);
+    expect(applied.success).toBe(true);
+
+    await library.saveLens({ id: saved.data!.id, lens: { ...housingLens, name: 'Edited Later' } }, 'user-1');
+    const reloaded = await databaseService.getProjectById(project.data!.id);
+    expect(reloaded.data!.satirical_context).toMatchObject({ type: 'CUSTOM', name: 'Housing Justice', lensId: saved.data!.id });
+  });
+});
@@ -0,0 +1,101 @@
+// Lens Library Service
+// Saves user-authored satirical lenses for reuse across projects and shares them as JSON files
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { APIResponse, SatiricalLens } from '../shared/types/index.js';
+import { normalizeLens, parseLensFile, toLensFile } from '../shared/utils/lenses.js';
+import { databaseService } from '../database/database';
+
+/**
+ * Checks and stores custom lenses. Anyone signed in can add lenses; only a lens's author can change or remove it.
+ */
+export class LensLibraryService {
+  /**
+   * Add a lens to the library, or replace one when an ID is given
+   */
+  async saveLens(input: { id?: string; lens: unknown }, userId: string): Promise<APIResponse<SatiricalLens>> {
+    const { lens, errors } = normalizeLens(input.lens);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('; '), timestamp: new Date() };
+    }
+
+    if (!input.id) {
+      return databaseService.createSatiricalLens(lens, userId);
+    }
+
+    const denied = await this.authorizeAuthor(input.id, userId);
+    if (denied) return denied;
+
+    return databaseService.updateSatiricalLens(input.id, lens);
+  }
+
+  /**
+   * Remove a lens from the library
+   */
+  async deleteLens(id: string, userId: string): Promise<APIResponse<boolean>> {
+    const denied = await this.authorizeAuthor(id, userId);
+    if (denied) return denied;
+
+    return databaseService.deleteSatiricalLens(id);
+  }
+
+  /**
+   * Write a lens to a JSON file others can import
+   */
+  async exportLens(id: string, filePath: string): Promise<APIResponse<string>> {
+    const lens = await databaseService.getSatiricalLensById(id);
+    if (!lens.success || !lens.data) {
+      return { success: false, error: lens.error, timestamp: new Date() };
+    }
+
+    try {
+      await fs.writeFile(filePath, JSON.stringify(toLensFile(lens.data.context), null, 2), 'utf-8');
+      return { success: true, data: filePath, timestamp: new Date() };
+    } catch (error) {
+      console.error('Failed to export satirical lens:', error);
+      return {
+        success: false,
+        error: `Failed to export satirical lens: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Add the lens in an exported JSON file to the library as a new lens owned by the importer
+   */
+  async importLens(filePath: string, userId: string): Promise<APIResponse<SatiricalLens>> {
+    try {
+      const { lens, errors } = parseLensFile(await fs.readFile(filePath, 'utf-8'));
+      if (!lens) {
+        return { success: false, error: `${path.basename(filePath)} is not a usable lens: ${errors.join('; ')}`, timestamp: new Date() };
+      }
+
+      return await databaseService.createSatiricalLens(lens, userId);
+    } catch (error) {
+      console.error('Failed to import satirical lens:', error);
+      return {
+        success: false,
+        error: `Failed to import satirical lens: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private async authorizeAuthor(id: string, userId: string): Promise<APIResponse<never> | null> {
+    const existing = await databaseService.getSatiricalLensById(id);
+    if (!existing.success || !existing.data) {
+      return { success: false, error: existing.error || 'Satirical lens not found', timestamp: new Date() };
+    }
+    if (existing.data.created_by && existing.data.created_by !== userId) {
+      return { success: false, error: 'Only the author of a lens can change or remove it', timestamp: new Date() };
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const lensLibraryService = new LensLibraryService();
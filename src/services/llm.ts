@@ -2,10 +2,15 @@
 // Handles communication with AI providers (OpenAI, Anthropic, etc.)
 
 import { PersonaType } from '../shared/types/index.js';
-import { AgentConfigService } from './agent-config.js';
+import { AgentConfigService, DEFAULT_GENERATION_PARAMETERS } from './agent-config.js';
 import { SatiricalContextService } from './satirical-context.js';
 import { contextManager } from './context-manager.js';
 import { errorRecoveryService } from './error-recovery.js';
+import { structuredOutputService, StructuredOutputType } from './structured-output.js';
+import { characterBibleService } from './character-bible.js';
+import { isSameEndpoint, secretStore } from './secret-store.js';
+import { getOpenAICompatibleApiRoot, getOpenAICompatibleHeaders } from './model-availability.js';
+import { MOCK_MODEL_ID, mockLLMProvider } from './mock-llm.js';
 
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant';
@@ -21,23 +26,54 @@ export interface LLMResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  cancelled?: boolean;
+}
+
+export interface StructuredLLMResponse<T = any> {
+  success: boolean;
+  data?: T;
+  rawResponse?: string;
+  attempts: number;
+  validationErrors?: string[];
+  error?: string;
+}
+
+export interface LLMStreamOptions {
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface GenerationParameters {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stopSequences?: string[];
 }
 
 export interface LLMConfig {
-  provider: 'openai' | 'anthropic' | 'gemini' | 'local';
+  provider: 'openai' | 'anthropic' | 'gemini' | 'local' | 'openai-compatible' | 'mock';
   apiKey?: string;
   model?: string;
   baseUrl?: string;
+  authHeader?: string; // OpenAI-compatible endpoints only; defaults to "Authorization: Bearer <key>"
+  generation?: GenerationParameters;
 }
 
 export interface AgentConfig {
   persona: PersonaType;
-  provider: 'openai' | 'anthropic' | 'gemini' | 'local';
+  provider: 'openai' | 'anthropic' | 'gemini' | 'local' | 'openai-compatible' | 'mock';
   model: string;
-  apiKey?: string;
+  keyId?: string; // The stored API key this agent uses; the key itself stays in the main process
   baseUrl?: string;
+  authHeader?: string;
+  generation?: GenerationParameters;
 }
 
+// Streams are not retried once tokens have been emitted, and long replies need more than the default timeout.
+// The stream aborts its own request at STREAM_TIMEOUT_MS; the recovery timeout only backs that up.
+const STREAM_TIMEOUT_MS = 5 * 60 * 1000;
+const STREAM_RETRY_CONFIG = { maxRetries: 0, timeout: STREAM_TIMEOUT_MS + 10 * 1000 };
+
 /**
  * LLM Service for AI Chat Integration
  */
@@ -50,31 +86,28 @@ export class LLMService {
   }
 
   /**
-   * Generate a response with provided agent configuration (bypassing localStorage)
+   * Generate a response with provided agent configuration (bypassing localStorage).
+   * When stream options are given, tokens are passed to onToken as they arrive.
    */
   public async generateResponseWithConfig(
     conversationId: string,
     persona: PersonaType,
     userMessage: string,
     context?: any,
-    agentConfig?: AgentConfig | null
+    agentConfig?: AgentConfig | null,
+    stream?: LLMStreamOptions
   ): Promise<LLMResponse> {
     try {
       console.log(`DEBUG: LLMService.generateResponseWithConfig called for persona: ${persona}`);
       console.log('DEBUG: Provided agentConfig:', agentConfig);
       
       let configToUse = this.config;
-      console.log('DEBUG: Default LLM config:', this.config);
+      console.log('DEBUG: Default LLM config:', this.describeConfig(this.config));
 
       if (agentConfig) {
         // Use provided agent-specific configuration
-        configToUse = {
-          provider: agentConfig.provider,
-          apiKey: agentConfig.apiKey || this.config.apiKey,
-          model: agentConfig.model,
-          baseUrl: agentConfig.baseUrl || this.config.baseUrl
-        };
-        console.log('DEBUG: Using provided agent-specific config:', configToUse);
+        configToUse = this.resolveAgentConfig(agentConfig);
+        console.log('DEBUG: Using provided agent-specific config:', this.describeConfig(configToUse));
       } else {
         console.log('DEBUG: No agent-specific config provided, using default');
       }
@@ -115,7 +148,10 @@ export class LLMService {
       const recoveryResult = await errorRecoveryService.executeWithRecovery(
         operationId,
         persona,
-        () => this.callLLMProviderWithConfig(messages, configToUse)
+        () => stream
+          ? this.streamWithDeadline(messages, configToUse, stream, persona)
+          : this.callLLMProviderWithConfig(messages, configToUse, undefined, persona),
+        stream ? STREAM_RETRY_CONFIG : undefined
       );
 
       if (!recoveryResult.success) {
@@ -128,6 +164,18 @@ export class LLMService {
 
       const response = recoveryResult.result!;
 
+      if (response.cancelled) {
+        // Keep whatever the user already saw so the conversation stays coherent
+        if (response.response) {
+          messages.push({
+            role: 'assistant',
+            content: response.response
+          });
+          this.conversationHistory.set(conversationId, messages);
+        }
+        return response;
+      }
+
       if (response.success && response.response) {
         // Add AI response to history
         messages.push({
@@ -185,17 +233,12 @@ export class LLMService {
       console.log('DEBUG: AgentConfigService.getAgentConfig() returned:', agentConfig);
       
       let configToUse = this.config;
-      console.log('DEBUG: Default LLM config:', this.config);
+      console.log('DEBUG: Default LLM config:', this.describeConfig(this.config));
 
       if (agentConfig) {
         // Use agent-specific configuration
-        configToUse = {
-          provider: agentConfig.provider,
-          apiKey: agentConfig.apiKey || this.config.apiKey,
-          model: agentConfig.model,
-          baseUrl: agentConfig.baseUrl || this.config.baseUrl
-        };
-        console.log('DEBUG: Using agent-specific config:', configToUse);
+        configToUse = this.resolveAgentConfig(agentConfig);
+        console.log('DEBUG: Using agent-specific config:', this.describeConfig(configToUse));
       } else {
         console.log('DEBUG: No agent-specific config found, attempting fallback configuration');
         
@@ -203,7 +246,7 @@ export class LLMService {
         const fallbackConfig = this.getFallbackConfiguration();
         if (fallbackConfig) {
           configToUse = fallbackConfig;
-          console.log('DEBUG: Using fallback config:', configToUse);
+          console.log('DEBUG: Using fallback config:', this.describeConfig(configToUse));
         } else {
           console.log('DEBUG: No fallback config available, using default');
         }
@@ -245,7 +288,7 @@ export class LLMService {
       const recoveryResult = await errorRecoveryService.executeWithRecovery(
         operationId,
         persona,
-        () => this.callLLMProviderWithConfig(messages, configToUse)
+        () => this.callLLMProviderWithConfig(messages, configToUse, undefined, persona)
       );
 
       if (!recoveryResult.success) {
@@ -297,6 +340,109 @@ export class LLMService {
     }
   }
 
+  /**
+   * Generate output that must match a JSON schema. Invalid responses are sent back to the
+   * model with the validation errors until it complies or the attempts run out.
+   */
+  public async generateStructuredOutput<T = any>(
+    persona: PersonaType,
+    prompt: string,
+    schema: StructuredOutputType | object,
+    context?: any,
+    agentConfig?: AgentConfig | null,
+    maxAttempts: number = 3
+  ): Promise<StructuredLLMResponse<T>> {
+    try {
+      const configToUse: LLMConfig = agentConfig ? this.resolveAgentConfig(agentConfig) : this.config;
+
+      if (!this.isConfigurationValid(configToUse)) {
+        return {
+          success: false,
+          attempts: 0,
+          error: `${persona} agent is not properly configured. Please configure API key and model.`
+        };
+      }
+
+      const resolvedSchema = structuredOutputService.resolveSchema(schema);
+
+      // Structured requests use a one-off message list so they never pollute chat history
+      const messages: LLMMessage[] = [
+        {
+          role: 'system',
+          content: `${await this.getPersonaSystemPrompt(persona, context)}\n\n${this.getStructuredOutputInstructions(resolvedSchema)}`
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ];
+
+      let rawResponse: string | undefined;
+      let validationErrors: string[] = [];
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const recoveryResult = await errorRecoveryService.executeWithRecovery(
+          `llm_structured_${persona}_${Date.now()}`,
+          persona,
+          () => this.callLLMProviderWithConfig(messages, configToUse, undefined, persona)
+        );
+
+        if (!recoveryResult.success) {
+          return {
+            success: false,
+            attempts: attempt,
+            error: `Failed after ${recoveryResult.attempts} attempts: ${recoveryResult.error?.message || 'Unknown error'}`
+          };
+        }
+
+        const response = recoveryResult.result!;
+        if (!response.success || !response.response) {
+          return {
+            success: false,
+            attempts: attempt,
+            error: response.error || 'Empty response from model'
+          };
+        }
+
+        rawResponse = response.response;
+        const validation = structuredOutputService.parse<T>(rawResponse, resolvedSchema);
+
+        if (validation.valid) {
+          return {
+            success: true,
+            data: validation.data,
+            rawResponse,
+            attempts: attempt
+          };
+        }
+
+        validationErrors = validation.errors;
+        console.warn(`Structured output from ${persona} failed validation (attempt ${attempt}/${maxAttempts}):`, validationErrors);
+
+        messages.push(
+          { role: 'assistant', content: rawResponse },
+          { role: 'user', content: this.getStructuredOutputCorrection(validationErrors) }
+        );
+      }
+
+      return {
+        success: false,
+        rawResponse,
+        attempts: maxAttempts,
+        validationErrors,
+        error: `Response did not match the required format after ${maxAttempts} attempts: ${validationErrors.join('; ')}`
+      };
+
+    } catch (error) {
+      console.error('Structured output generation error:', error);
+      return {
+        success: false,
+        attempts: 0,
+        error: `Failed to generate structured output: ${error}`
+      };
+    }
+  }
+
   /**
    * Trigger Project Director monitoring for agent interactions
    */
@@ -459,20 +605,54 @@ export class LLMService {
     
     if (config.provider === 'local') {
       return !!config.model;
+    } else if (config.provider === 'mock') {
+      return true;
+    } else if (config.provider === 'openai-compatible') {
+      // The endpoint's key is optional
+      return !!(config.baseUrl && config.model);
     } else {
       return !!(config.apiKey && config.model);
     }
   }
 
+  /**
+   * Build the provider config for an agent. The API key is always looked up in the secret
+   * store here - agent configs come from the renderer, which never holds keys.
+   */
+  private resolveAgentConfig(agentConfig: AgentConfig): LLMConfig {
+    const baseUrl = agentConfig.baseUrl || this.config.baseUrl;
+    // Like stored keys, an environment key for an OpenAI-compatible endpoint only goes to LLM_BASE_URL
+    const envKeyApplies = agentConfig.provider === this.config.provider &&
+      (agentConfig.provider !== 'openai-compatible' || isSameEndpoint(this.config.baseUrl, baseUrl));
+    const envKey = envKeyApplies ? this.config.apiKey : undefined;
+
+    return {
+      provider: agentConfig.provider,
+      apiKey: secretStore.getKey(agentConfig.provider, baseUrl) || envKey,
+      model: agentConfig.model,
+      baseUrl,
+      authHeader: agentConfig.authHeader,
+      generation: agentConfig.generation
+    };
+  }
+
+  /**
+   * A config for logging, without the API key
+   */
+  private describeConfig(config: LLMConfig): Omit<LLMConfig, 'apiKey'> & { hasApiKey: boolean } {
+    const { apiKey, ...rest } = config;
+    return { ...rest, hasApiKey: !!apiKey };
+  }
+
   /**
    * Get fallback configuration when agent config is not available
    */
   private getFallbackConfiguration(): LLMConfig | null {
     try {
-      // Check for environment variables first
-      const openaiKey = process.env.OPENAI_API_KEY;
-      const anthropicKey = process.env.ANTHROPIC_API_KEY;
-      const geminiKey = process.env.GEMINI_API_KEY;
+      // Stored keys first, then environment variables
+      const openaiKey = secretStore.getKey('openai') || process.env.OPENAI_API_KEY;
+      const anthropicKey = secretStore.getKey('anthropic') || process.env.ANTHROPIC_API_KEY;
+      const geminiKey = secretStore.getKey('gemini') || process.env.GEMINI_API_KEY;
       
       if (openaiKey) {
         return {
@@ -494,7 +674,7 @@ export class LLMService {
         };
       }
       
-      console.log('DEBUG: No environment variables found for fallback configuration');
+      console.log('DEBUG: No stored or environment API keys found for fallback configuration');
       return null;
     } catch (error) {
       console.error('Failed to get fallback configuration:', error);
@@ -503,18 +683,61 @@ export class LLMService {
   }
 
   /**
-   * Call the appropriate LLM provider with specific configuration
+   * Stream a reply, aborting the request once it outlives STREAM_TIMEOUT_MS so no
+   * tokens reach the renderer after the timeout has been reported
+   */
+  private async streamWithDeadline(messages: LLMMessage[], config: LLMConfig, stream: LLMStreamOptions, persona?: PersonaType): Promise<LLMResponse> {
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    if (stream.signal?.aborted) {
+      controller.abort();
+    }
+    stream.signal?.addEventListener('abort', cancel);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, STREAM_TIMEOUT_MS);
+
+    try {
+      const response = await this.callLLMProviderWithConfig(messages, config, {
+        onToken: token => {
+          if (!controller.signal.aborted) {
+            stream.onToken(token);
+          }
+        },
+        signal: controller.signal
+      }, persona);
+
+      if (timedOut) {
+        throw new Error(`Stream timed out after ${STREAM_TIMEOUT_MS}ms`);
+      }
+      return response;
+    } finally {
+      clearTimeout(timer);
+      stream.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Call the appropriate LLM provider with specific configuration. The persona is only
+   * used by the mock provider to pick its fixtures.
    */
-  private async callLLMProviderWithConfig(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+  private async callLLMProviderWithConfig(messages: LLMMessage[], config: LLMConfig, stream?: LLMStreamOptions, persona?: PersonaType): Promise<LLMResponse> {
     switch (config.provider) {
       case 'openai':
-        return await this.callOpenAIWithConfig(messages, config);
+        return await this.callOpenAIWithConfig(messages, config, stream);
       case 'anthropic':
-        return await this.callAnthropicWithConfig(messages, config);
+        return await this.callAnthropicWithConfig(messages, config, stream);
       case 'gemini':
-        return await this.callGeminiWithConfig(messages, config);
+        return await this.callGeminiWithConfig(messages, config, stream);
       case 'local':
-        return await this.callLocalLLMWithConfig(messages, config);
+        return await this.callLocalLLMWithConfig(messages, config, stream);
+      case 'openai-compatible':
+        return await this.callOpenAICompatibleWithConfig(messages, config, stream);
+      case 'mock':
+        return await mockLLMProvider.complete({ persona, messages, model: config.model, stream });
       default:
         return {
           success: false,
@@ -533,7 +756,7 @@ export class LLMService {
   /**
    * Call OpenAI API with specific configuration
    */
-  private async callOpenAIWithConfig(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+  private async callOpenAIWithConfig(messages: LLMMessage[], config: LLMConfig, stream?: LLMStreamOptions): Promise<LLMResponse> {
     if (!config.apiKey) {
       return {
         success: false,
@@ -541,27 +764,95 @@ export class LLMService {
       };
     }
 
+    return await this.callChatCompletions(
+      'https://api.openai.com/v1/chat/completions',
+      { 'Content-Type': 'application/json', 'Authorization': `Bearer ${config.apiKey}` },
+      messages,
+      { ...config, model: config.model || 'gpt-4' },
+      'OpenAI',
+      stream
+    );
+  }
+
+  /**
+   * Call a self-hosted OpenAI-compatible endpoint (vLLM, llama.cpp server, LM Studio, etc.)
+   */
+  private async callOpenAICompatibleWithConfig(messages: LLMMessage[], config: LLMConfig, stream?: LLMStreamOptions): Promise<LLMResponse> {
+    if (!config.baseUrl) {
+      return {
+        success: false,
+        error: 'OpenAI-compatible endpoint base URL not configured'
+      };
+    }
+
+    return await this.callChatCompletions(
+      `${getOpenAICompatibleApiRoot(config.baseUrl)}/chat/completions`,
+      getOpenAICompatibleHeaders(config.apiKey, config.authHeader),
+      messages,
+      config,
+      'OpenAI-compatible endpoint',
+      stream
+    );
+  }
+
+  /**
+   * Send a request in the OpenAI chat completions format, shared by OpenAI and compatible endpoints
+   */
+  private async callChatCompletions(
+    url: string,
+    headers: Record<string, string>,
+    messages: LLMMessage[],
+    config: LLMConfig,
+    providerName: string,
+    stream?: LLMStreamOptions
+  ): Promise<LLMResponse> {
+    const generation = this.resolveGenerationParameters(config);
+    let streamedText = '';
+
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${config.apiKey}`
-        },
+        headers,
         body: JSON.stringify({
-          model: config.model || 'gpt-4',
+          model: config.model,
           messages: messages,
-          temperature: 0.7,
-          max_tokens: 1000
-        })
+          temperature: generation.temperature,
+          max_tokens: generation.maxTokens,
+          ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+          // OpenAI accepts at most four stop sequences
+          ...(generation.stopSequences.length > 0 ? { stop: generation.stopSequences.slice(0, 4) } : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+        }),
+        signal: stream?.signal
       });
 
+      if (stream && response.ok) {
+        let usage: LLMResponse['usage'];
+        await this.readStreamLines(response, line => {
+          const chunk = this.parseServerSentEvent(line);
+          const token = chunk?.choices?.[0]?.delta?.content;
+          if (token) {
+            streamedText += token;
+            stream.onToken(token);
+          }
+          if (chunk?.usage) {
+            usage = chunk.usage;
+          }
+        });
+
+        return {
+          success: true,
+          response: streamedText,
+          usage
+        };
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
         return {
           success: false,
-          error: data.error?.message || 'OpenAI API error'
+          error: data.error?.message || `${providerName} API error`
         };
       }
 
@@ -572,9 +863,12 @@ export class LLMService {
       };
 
     } catch (error) {
+      if (stream?.signal?.aborted) {
+        return this.createCancelledResponse(streamedText);
+      }
       return {
         success: false,
-        error: `OpenAI API call failed: ${error}`
+        error: `${providerName} API call failed: ${error}`
       };
     }
   }
@@ -589,7 +883,7 @@ export class LLMService {
   /**
    * Call Anthropic API (Claude) with specific configuration
    */
-  private async callAnthropicWithConfig(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+  private async callAnthropicWithConfig(messages: LLMMessage[], config: LLMConfig, stream?: LLMStreamOptions): Promise<LLMResponse> {
     if (!config.apiKey) {
       return {
         success: false,
@@ -597,6 +891,9 @@ export class LLMService {
       };
     }
 
+    const generation = this.resolveGenerationParameters(config);
+    let streamedText = '';
+
     try {
       // Convert messages format for Anthropic
       const systemMessage = messages.find(m => m.role === 'system')?.content || '';
@@ -610,9 +907,14 @@ export class LLMService {
 
       const requestBody = {
         model: config.model || 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
+        max_tokens: generation.maxTokens,
+        // Anthropic caps temperature at 1
+        temperature: Math.min(generation.temperature, 1),
+        ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+        ...(generation.stopSequences.length > 0 ? { stop_sequences: generation.stopSequences } : {}),
         system: systemMessage,
-        messages: conversationMessages
+        messages: conversationMessages,
+        ...(stream ? { stream: true } : {})
       };
 
       console.log('DEBUG: Making Anthropic API call...');
@@ -623,10 +925,39 @@ export class LLMService {
           'x-api-key': config.apiKey,
           'anthropic-version': '2023-06-01'
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal: stream?.signal
       });
 
       console.log('DEBUG: Anthropic API response status:', response.status);
+
+      if (stream && response.ok) {
+        const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+        await this.readStreamLines(response, line => {
+          const event = this.parseServerSentEvent(line);
+          if (event?.type === 'error') {
+            throw new Error(event.error?.message || 'Anthropic stream error');
+          }
+          if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            streamedText += event.delta.text;
+            stream.onToken(event.delta.text);
+          }
+          if (event?.type === 'message_start') {
+            usage.prompt_tokens = event.message?.usage?.input_tokens || 0;
+          }
+          if (event?.type === 'message_delta') {
+            usage.completion_tokens = event.usage?.output_tokens || 0;
+          }
+        });
+        usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+
+        return {
+          success: true,
+          response: streamedText,
+          usage
+        };
+      }
+
       const data = await response.json();
       console.log('DEBUG: Anthropic API response data:', data);
 
@@ -645,6 +976,9 @@ export class LLMService {
       };
 
     } catch (error) {
+      if (stream?.signal?.aborted) {
+        return this.createCancelledResponse(streamedText);
+      }
       console.error('DEBUG: Anthropic API call exception:', error);
       return {
         success: false,
@@ -663,7 +997,7 @@ export class LLMService {
   /**
    * Call Google Gemini API with specific configuration
    */
-  private async callGeminiWithConfig(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+  private async callGeminiWithConfig(messages: LLMMessage[], config: LLMConfig, stream?: LLMStreamOptions): Promise<LLMResponse> {
     if (!config.apiKey) {
       return {
         success: false,
@@ -671,6 +1005,9 @@ export class LLMService {
       };
     }
 
+    const generation = this.resolveGenerationParameters(config);
+    let streamedText = '';
+
     try {
       // Convert messages to Gemini format
       const systemMessage = messages.find(m => m.role === 'system')?.content || '';
@@ -683,7 +1020,10 @@ export class LLMService {
       }));
 
       const model = config.model || 'gemini-1.5-pro';
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${config.apiKey}`, {
+      const endpoint = stream
+        ? `streamGenerateContent?alt=sse&key=${config.apiKey}`
+        : `generateContent?key=${config.apiKey}`;
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:${endpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -695,12 +1035,50 @@ export class LLMService {
             parts: [{ text: systemMessage }]
           } : undefined,
           generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 1000
+            temperature: generation.temperature,
+            maxOutputTokens: generation.maxTokens,
+            topP: generation.topP,
+            // Gemini accepts at most five stop sequences
+            stopSequences: generation.stopSequences.length > 0 ? generation.stopSequences.slice(0, 5) : undefined
           }
-        })
+        }),
+        signal: stream?.signal
       });
 
+      if (stream && response.ok) {
+        let usage: LLMResponse['usage'];
+        await this.readStreamLines(response, line => {
+          const chunk = this.parseServerSentEvent(line);
+          const token = (chunk?.candidates?.[0]?.content?.parts || [])
+            .map((part: any) => part.text || '')
+            .join('');
+          if (token) {
+            streamedText += token;
+            stream.onToken(token);
+          }
+          if (chunk?.usageMetadata) {
+            usage = {
+              prompt_tokens: chunk.usageMetadata.promptTokenCount || 0,
+              completion_tokens: chunk.usageMetadata.candidatesTokenCount || 0,
+              total_tokens: chunk.usageMetadata.totalTokenCount || 0
+            };
+          }
+        });
+
+        if (!streamedText) {
+          return {
+            success: false,
+            error: 'No response text from Gemini API'
+          };
+        }
+
+        return {
+          success: true,
+          response: streamedText,
+          usage
+        };
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
@@ -729,6 +1107,9 @@ export class LLMService {
       };
 
     } catch (error) {
+      if (stream?.signal?.aborted) {
+        return this.createCancelledResponse(streamedText);
+      }
       return {
         success: false,
         error: `Google Gemini API call failed: ${error}`
@@ -746,8 +1127,10 @@ export class LLMService {
   /**
    * Call local LLM (Ollama, LM Studio, etc.) with specific configuration
    */
-  private async callLocalLLMWithConfig(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+  private async callLocalLLMWithConfig(messages: LLMMessage[], config: LLMConfig, stream?: LLMStreamOptions): Promise<LLMResponse> {
     const baseUrl = config.baseUrl || 'http://localhost:11434';
+    const generation = this.resolveGenerationParameters(config);
+    let streamedText = '';
     
     try {
       const response = await fetch(`${baseUrl}/api/chat`, {
@@ -758,10 +1141,37 @@ export class LLMService {
         body: JSON.stringify({
           model: config.model || 'llama2',
           messages: messages,
-          stream: false
-        })
+          stream: !!stream,
+          options: {
+            temperature: generation.temperature,
+            num_predict: generation.maxTokens,
+            top_p: generation.topP,
+            stop: generation.stopSequences.length > 0 ? generation.stopSequences : undefined
+          }
+        }),
+        signal: stream?.signal
       });
 
+      if (stream && response.ok) {
+        // Ollama streams newline-delimited JSON objects rather than server-sent events
+        await this.readStreamLines(response, line => {
+          const chunk = JSON.parse(line);
+          if (chunk.error) {
+            throw new Error(chunk.error);
+          }
+          const token = chunk.message?.content;
+          if (token) {
+            streamedText += token;
+            stream.onToken(token);
+          }
+        });
+
+        return {
+          success: true,
+          response: streamedText
+        };
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
@@ -777,6 +1187,9 @@ export class LLMService {
       };
 
     } catch (error) {
+      if (stream?.signal?.aborted) {
+        return this.createCancelledResponse(streamedText);
+      }
       return {
         success: false,
         error: `Local LLM call failed: ${error}`
@@ -791,6 +1204,91 @@ export class LLMService {
     return await this.callLocalLLMWithConfig(messages, this.config);
   }
 
+  /**
+   * Instructions appended to the system prompt for structured requests
+   */
+  private getStructuredOutputInstructions(schema: object): string {
+    return `OUTPUT FORMAT:
+Respond with a single JSON object that validates against this JSON schema. Do not include any prose, explanation or markdown fences.
+
+${JSON.stringify(schema, null, 2)}`;
+  }
+
+  /**
+   * Follow-up prompt asking the model to fix a response that failed validation
+   */
+  private getStructuredOutputCorrection(errors: string[]): string {
+    return `Your previous response did not match the required JSON schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with only the corrected JSON object.`;
+  }
+
+  /**
+   * Merge an agent's generation parameters with the defaults
+   */
+  private resolveGenerationParameters(config: LLMConfig): { temperature: number; topP?: number; maxTokens: number; stopSequences: string[] } {
+    const generation = config.generation || {};
+    return {
+      temperature: generation.temperature ?? DEFAULT_GENERATION_PARAMETERS.temperature,
+      topP: generation.topP,
+      maxTokens: generation.maxTokens ?? DEFAULT_GENERATION_PARAMETERS.maxTokens,
+      stopSequences: (generation.stopSequences || []).filter(sequence => sequence.length > 0)
+    };
+  }
+
+  /**
+   * Read a streamed response body line by line
+   */
+  private async readStreamLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+      throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      onLine(buffer.trim());
+    }
+  }
+
+  /**
+   * Parse the JSON payload of a server-sent event data line (null for other lines and [DONE])
+   */
+  private parseServerSentEvent(line: string): any | null {
+    if (!line.startsWith('data:')) return null;
+
+    const payload = line.slice('data:'.length).trim();
+    if (!payload || payload === '[DONE]') return null;
+
+    return JSON.parse(payload);
+  }
+
+  /**
+   * Build the response for a stream the user cancelled, keeping any partial text
+   */
+  private createCancelledResponse(partialText: string): LLMResponse {
+    return {
+      success: false,
+      response: partialText,
+      error: 'Response cancelled',
+      cancelled: true
+    };
+  }
+
   /**
    * Get conversation history
    */
@@ -899,7 +1397,17 @@ Working from approved script (Status: ${script.status}):
 
 Use this approved script as your primary reference for creating the visual storyboard. Break down each scene into individual shots of 8 seconds or less.`;
     }
-    
+
+    // Add the project's character bible so every persona works from the same characters
+    const projectId = context?.projectId || context?.project_id || context?.project?.id;
+    if (projectId) {
+      try {
+        systemPrompt += characterBibleService.formatForPrompt(await characterBibleService.getBible(projectId));
+      } catch (error) {
+        console.warn('Failed to add character bible:', error);
+      }
+    }
+
     // Add project title context
     if (context?.project?.name) {
       systemPrompt += `\n\nPROJECT: "${context.project.name}"`;
@@ -924,7 +1432,13 @@ This helps focus the conversation and gets them thinking strategically from the
       // Include article summaries for better context
       context.articles.forEach((article: any, index: number) => {
         const preview = article.content ? article.content.substring(0, 200) + '...' : 'No content preview';
-        systemPrompt += `Article ${index + 1}: "${article.title}"\nSource: ${article.source || 'Unknown'}\nPreview: ${preview}\n\n`;
+        const published = article.published_date ? new Date(article.published_date).toDateString() : null;
+        systemPrompt += `Article ${index + 1}: "${article.title}"\n` +
+          (article.headline && article.headline !== article.title ? `Headline: ${article.headline}\n` : '') +
+          `Source: ${article.source || 'Unknown'}\n` +
+          (article.byline ? `Byline: ${article.byline}\n` : '') +
+          (published ? `Published: ${published}\n` : '') +
+          `Preview: ${preview}\n\n`;
       });
       
       systemPrompt += `Focus on these articles when suggesting satirical angles, themes, and creative concepts.`;
@@ -1185,6 +1699,14 @@ You understand the full production pipeline and help make strategic decisions ab
       .filter(m => m.role !== 'system')
       .map(m => `${m.role}: ${m.content}`);
   }
+
+  /**
+   * The provider and model a request with this agent configuration goes to
+   */
+  public getModelInfo(agentConfig?: AgentConfig | null): { provider: string; model: string } {
+    const config = agentConfig ? this.resolveAgentConfig(agentConfig) : this.config;
+    return { provider: config.provider, model: config.model || 'default' };
+  }
 }
 
 // Default configuration - can be overridden by environment variables
@@ -1203,8 +1725,13 @@ export const createLLMService = (): LLMService => {
     case 'gemini':
       apiKey = process.env.GEMINI_API_KEY || '';
       break;
+    case 'openai-compatible':
+      // Optional - only for endpoints that require auth
+      apiKey = process.env.OPENAI_COMPATIBLE_API_KEY || '';
+      break;
     case 'local':
-      // No API key needed for local
+    case 'mock':
+      // No API key needed for local or mock
       break;
   }
 
@@ -1229,6 +1756,11 @@ function getDefaultModel(provider: string): string {
       return 'gemini-1.5-pro';
     case 'local':
       return 'llama2';
+    case 'openai-compatible':
+      // Only the server knows which models it serves - set LLM_MODEL
+      return '';
+    case 'mock':
+      return MOCK_MODEL_ID;
     default:
       return 'gpt-4';
   }
@@ -0,0 +1,463 @@
+// Mock LLM Provider
+// Deterministic, offline responses for tests and demos, with scripted failures to exercise error recovery
+
+import { PersonaType } from '../shared/types/index.js';
+import type { LLMMessage, LLMResponse, LLMStreamOptions } from './llm.js';
+import {
+  BroadcasterCharacterOutput,
+  CreativeStrategyOutput,
+  STRUCTURED_OUTPUT_SCHEMAS,
+  SatireEvaluationOutput,
+  ShotsOutput,
+  SoundNotesOutput,
+  StructuredOutputType,
+  VideoPromptOutput
+} from './structured-output.js';
+
+export const MOCK_MODEL_ID = 'mock-deterministic';
+
+export type MockFailure = 'rate_limit' | 'timeout' | 'invalid_key' | 'network_error' | 'invalid_json';
+
+export const MOCK_FAILURES: MockFailure[] = ['rate_limit', 'timeout', 'invalid_key', 'network_error', 'invalid_json'];
+
+export interface MockRequest {
+  persona?: PersonaType;
+  messages: LLMMessage[];
+  model?: string;
+  stream?: LLMStreamOptions;
+}
+
+// Worded so ErrorRecoveryService classifies each one as the matching error type
+const FAILURE_MESSAGES: Record<Exclude<MockFailure, 'invalid_json'>, string> = {
+  rate_limit: 'Mock provider rate limit exceeded (429 Too Many Requests)',
+  timeout: 'Mock provider request timed out',
+  invalid_key: 'Mock provider authentication failed: invalid API key (401 Unauthorized)',
+  network_error: 'Mock provider network error: connection refused'
+};
+
+const STRUCTURED_OUTPUT_MARKER = 'OUTPUT FORMAT:';
+
+const FINISH_PATTERN = /\b(finali[sz]e|wrap (it )?up|sign off|we'?re done|hand (it )?off)\b/i;
+
+const CHAT_REPLIES: Record<PersonaType, { replies: string[]; completion: string }> = {
+  CREATIVE_STRATEGIST: {
+    replies: [
+      'The funniest part is that everyone involved is treating this as a triumph. We could show a minister cutting the ribbon on a bridge that goes nowhere, with a marching band playing to an empty car park. What if we took that logic all the way and had them announce a second bridge to reach the first one?',
+      "I'd push the exaggeration angle: a morning TV panel calmly debating whether the problem is real while the studio floods around them. Which target do you want to land hardest on - the officials or the coverage?",
+      'We could parody the press release itself - a presenter reading it word for word, getting more confused with every buzzword. Do you want the tone closer to dry wit or full absurdism?'
+    ],
+    completion: 'Creative strategy complete. The concept, angles and tone are locked in - ready for screenwriter.'
+  },
+  BAFFLING_BROADCASTER: {
+    replies: [
+      "Good evening. I'm told this is a crisis, although from the back seat of the company car it looks perfectly lovely. Now, over to our weather, which is also fine.",
+      "Let's bring in our expert, who has read at least one headline about this. Tell me - and take your time - is it possible the poor simply haven't tried having more money?",
+      'Breaking news: the situation remains exactly as we described it yesterday, but with a new graphic. Isn\'t that something.'
+    ],
+    completion: 'Voiceover script brief complete. The presenter voice is consistent throughout - ready for screenwriter integration.'
+  },
+  SATIRICAL_SCREENWRITER: {
+    replies: [
+      'INT. PRESS BRIEFING ROOM - DAY\n\nA SPOKESPERSON beams at an empty room.\n\nSPOKESPERSON\nWe have listened carefully to the public, and we have decided they are wrong.\n\nShall I keep the cold open this short, or build to a second beat?',
+      'The scene works best if the straight man never breaks. Every absurd answer gets a polite nod and a follow-up question that makes it worse. I can tighten the dialogue so each line lands in under eight seconds.',
+      "I'd cut the explanation in the middle - the audience is ahead of us. Let the reveal sit on a reaction shot and move straight to the sign-off."
+    ],
+    completion: 'Script development complete. Dialogue and scene structure are final - ready for storyboard.'
+  },
+  CINEMATIC_STORYBOARDER: {
+    replies: [
+      'Open on a slow push-in to the presenter, perfectly lit, with the chaos visible only in the reflection of the autocue. Hold for a beat, then cut wide to reveal the empty studio.',
+      'For the reveal, a locked-off wide shot works best - nothing should move except the one thing that is ridiculous. I\'ll keep every shot under eight seconds so it generates cleanly.',
+      'Let\'s match the news-parody look: symmetrical framing, cool blue key light and a lower-third graphic that gets longer every time it appears.'
+    ],
+    completion: 'Storyboard complete. Every shot has framing, lighting and timing - ready for sound design.'
+  },
+  SOUNDSCAPE_ARCHITECT: {
+    replies: [
+      'Under the anchor I\'d keep a low studio hum and the faint rustle of papers, then drop everything to silence for the punchline. A single news sting on the cut makes it land.',
+      'The satire lands harder if the music takes itself completely seriously - a triumphant brass bed that swells at the least triumphant moment.',
+      'Room tone first, then layer the joke: polite applause from a crowd that clearly is not there. Keep it a little too loud.'
+    ],
+    completion: 'Sound design complete. Ambience, effects and broadcast audio are set for every shot - ready for prompt engineering.'
+  },
+  VIDEO_PROMPT_ENGINEER: {
+    replies: [
+      'I\'ll front-load the subject and action, then camera, lighting and style, and finish with audio cues. Consistent character descriptions go in every prompt so the presenter looks the same in each shot.',
+      'For Veo3 I\'d keep each prompt to one dense paragraph and avoid negatives - describe what should be on screen, not what shouldn\'t.',
+      'The lower-third text won\'t render reliably, so I\'ll describe it as a graphic and add the wording in the edit.'
+    ],
+    completion: 'Prompts complete. Every shot has a generation-ready prompt - ready for AI production.'
+  },
+  PROJECT_DIRECTOR: {
+    replies: [
+      'The concept is strong and the tone is consistent. The main risk is the middle section running long - I\'d ask the screenwriter to cut one beat before we storyboard.',
+      'Strategy, script and storyboard agree on the target, which is what matters most. Check that the presenter\'s catchphrases appear in the final prompts too.',
+      'We\'re on schedule. Before sign-off I want every shot under eight seconds and the sound notes matched to panel numbers.'
+    ],
+    completion: 'Review complete. Everything meets the brief - approved for next stage.'
+  }
+};
+
+/**
+ * Offline stand-in for an LLM provider. Replies depend only on the persona and the request,
+ * so the same conversation always produces the same output.
+ */
+export class MockLLMProvider {
+  private failures: MockFailure[] = [];
+  private callCount = 0;
+
+  constructor() {
+    this.failures = this.parseFailures(process.env.MOCK_LLM_FAILURES);
+  }
+
+  /**
+   * Queue failures for the next calls, one per call in order. Later calls succeed again.
+   */
+  scriptFailures(...failures: MockFailure[]): void {
+    this.failures.push(...failures);
+  }
+
+  /**
+   * Failures still waiting to be raised
+   */
+  getPendingFailures(): MockFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Calls made since the last reset, including failed ones
+   */
+  getCallCount(): number {
+    return this.callCount;
+  }
+
+  /**
+   * Clear scripted failures and the call count
+   */
+  reset(): void {
+    this.failures = [];
+    this.callCount = 0;
+  }
+
+  /**
+   * Answer a request. Scripted failures are thrown, like a provider call that never returned.
+   */
+  async complete(request: MockRequest): Promise<LLMResponse> {
+    this.callCount++;
+
+    const failure = this.failures.shift();
+    if (failure && failure !== 'invalid_json') {
+      throw new Error(FAILURE_MESSAGES[failure]);
+    }
+
+    const text = failure === 'invalid_json'
+      ? 'Here is the output you asked for: { "incomplete": '
+      : this.generateText(request);
+
+    if (request.stream) {
+      return await this.streamText(text, request.messages, request.stream);
+    }
+
+    return {
+      success: true,
+      response: text,
+      usage: this.estimateUsage(request.messages, text)
+    };
+  }
+
+  private generateText(request: MockRequest): string {
+    const persona = request.persona || 'CREATIVE_STRATEGIST';
+    const systemPrompt = request.messages.find(message => message.role === 'system')?.content || '';
+    const userMessages = request.messages.filter(message => message.role === 'user');
+    // Structured retries append a correction request, so fixtures are built from the original prompt
+    const prompt = userMessages[0]?.content || '';
+    const lastMessage = userMessages[userMessages.length - 1]?.content || '';
+
+    const schema = this.extractSchema(systemPrompt);
+    if (schema) {
+      const type = this.findOutputType(schema);
+      const output = type ? this.getStructuredFixture(type, prompt) : this.generateFromSchema(schema);
+      return JSON.stringify(output, null, 2);
+    }
+
+    const replies = CHAT_REPLIES[persona] || CHAT_REPLIES.CREATIVE_STRATEGIST;
+    if (FINISH_PATTERN.test(lastMessage)) {
+      return replies.completion;
+    }
+    return replies.replies[hashString(`${persona}:${lastMessage}`) % replies.replies.length];
+  }
+
+  /**
+   * Pull the JSON schema LLMService appends to the system prompt for structured requests
+   */
+  private extractSchema(systemPrompt: string): object | null {
+    const markerIndex = systemPrompt.lastIndexOf(STRUCTURED_OUTPUT_MARKER);
+    if (markerIndex === -1) return null;
+
+    const schemaStart = systemPrompt.indexOf('{', markerIndex);
+    if (schemaStart === -1) return null;
+
+    try {
+      return JSON.parse(systemPrompt.slice(schemaStart));
+    } catch {
+      return null;
+    }
+  }
+
+  private findOutputType(schema: object): StructuredOutputType | null {
+    const serialized = JSON.stringify(schema);
+    const types = Object.keys(STRUCTURED_OUTPUT_SCHEMAS) as StructuredOutputType[];
+    return types.find(type => JSON.stringify(STRUCTURED_OUTPUT_SCHEMAS[type]) === serialized) || null;
+  }
+
+  private getStructuredFixture(type: StructuredOutputType, prompt: string): object {
+    switch (type) {
+      case 'creative_strategy':
+        return this.getCreativeStrategyFixture();
+      case 'shots':
+        return this.getShotsFixture(prompt);
+      case 'sound_notes':
+        return this.getSoundNotesFixture(prompt);
+      case 'video_prompt':
+        return this.getVideoPromptFixture(prompt);
+      case 'broadcaster_character':
+        return this.getBroadcasterCharacterFixture(prompt);
+      case 'satire_evaluation':
+        return this.getSatireEvaluationFixture(prompt);
+    }
+  }
+
+  private getCreativeStrategyFixture(): CreativeStrategyOutput {
+    return {
+      creative_concept: 'A flagship infrastructure launch covered live by a news team determined to call it a triumph, even as the bridge visibly leads nowhere.',
+      satirical_angles: [
+        {
+          angle_type: 'EXAGGERATION',
+          description: 'Every official celebrates a bigger milestone while the project gets smaller.',
+          key_elements: ['ribbon cutting', 'empty car park', 'marching band']
+        },
+        {
+          angle_type: 'IRONY',
+          description: 'The coverage praises transparency while every question goes unanswered.',
+          key_elements: ['press release read verbatim', 'no comment', 'confident smiles']
+        }
+      ],
+      target_audience: 'POLITICAL_SATIRE',
+      tone: 'DRY_WIT',
+      satirical_format: 'NEWS_PARODY',
+      key_themes: ['Government spin', 'Uncritical coverage', 'Wasteful spending'],
+      character_archetypes: [
+        {
+          name: 'Gerald Pemberton',
+          role: 'News anchor',
+          satirical_traits: ['unshakeable optimism', 'reads every press release word for word'],
+          visual_description: 'Silver-haired anchor in a navy suit with a red tie and a permanent half-smile'
+        },
+        {
+          name: 'Minister Fiona Clarke',
+          role: 'Government spokesperson',
+          satirical_traits: ['answers a different question', 'thanks the public for their patience'],
+          visual_description: 'Minister in a hard hat that has never seen a building site'
+        }
+      ],
+      visual_style_guide: {
+        color_palette: 'Broadcast blues with bright ribbon red',
+        cinematography_notes: 'Symmetrical news framing; locked-off wides for every reveal',
+        overall_aesthetic: 'Polished evening news that never notices the disaster behind it'
+      }
+    };
+  }
+
+  private getShotsFixture(prompt: string): ShotsOutput {
+    const firstPanel = parseInt(prompt.match(/number panels from (\d+)/i)?.[1] || '1', 10);
+    const shots = [
+      {
+        length_seconds: 6,
+        camera_angle: 'Medium close-up, slow push-in',
+        character_action: 'Gerald smiles into the lens and announces the bridge opening',
+        lighting_mood: 'Bright studio key light, cool fill',
+        dialogue_narration: 'GERALD: A historic day for anyone who enjoys bridges.',
+        visual_style: 'Polished evening news'
+      },
+      {
+        length_seconds: 8,
+        camera_angle: 'Wide, locked off',
+        character_action: 'The minister cuts a ribbon on a bridge that ends in mid-air',
+        lighting_mood: 'Flat overcast daylight',
+        dialogue_narration: 'MINISTER: This bridge connects us to the future.',
+        visual_style: 'Live outside broadcast'
+      },
+      {
+        length_seconds: 4,
+        camera_angle: 'Close-up reaction shot',
+        character_action: 'Gerald nods approvingly and moves on to the weather',
+        lighting_mood: 'Bright studio key light, cool fill',
+        visual_style: 'Polished evening news'
+      }
+    ];
+
+    return {
+      shots: shots.map((shot, index) => ({ panel_number: firstPanel + index, ...shot }))
+    };
+  }
+
+  private getSoundNotesFixture(prompt: string): SoundNotesOutput {
+    const requested = prompt.match(/only design shots ([\d,\s]+)/i)?.[1] || '';
+    const panels = requested.split(',').map(panel => parseInt(panel.trim(), 10)).filter(panel => panel > 0);
+    const notes = [
+      { ambient_foley: 'Low studio hum and rustling scripts', specific_sfx: 'News sting on the cut', broadcast_audio: 'Anchor on a lavalier mic, crisp and close' },
+      { ambient_foley: 'Wind across an empty car park', specific_sfx: 'Ribbon snip, a single trumpet note', broadcast_audio: 'Field mic with light wind noise' },
+      { ambient_foley: 'Studio room tone', specific_sfx: 'Polite applause from nobody', broadcast_audio: 'Anchor returns, slightly too cheerful' }
+    ];
+
+    return {
+      sound_notes: (panels.length > 0 ? panels : [1, 2, 3]).map((panel_number, index) => ({
+        panel_number,
+        ...notes[index % notes.length]
+      }))
+    };
+  }
+
+  private getVideoPromptFixture(prompt: string): VideoPromptOutput {
+    const seconds = prompt.match(/within (\d+(?:\.\d+)?) seconds/i)?.[1] || '8';
+    return {
+      prompt_text: `A silver-haired news anchor in a navy suit and red tie sits at a glossy studio desk and smiles confidently into the camera while delivering good news. Medium close-up with a slow push-in, symmetrical framing. Bright cool key light, polished evening-news look, shallow depth of field. Audio: low studio hum, crisp anchor voice, a short news sting at the end. Duration ${seconds} seconds.`
+    };
+  }
+
+  private getBroadcasterCharacterFixture(prompt: string): BroadcasterCharacterOutput {
+    const takenNames = (prompt.match(/do not reuse these names\): (.*)/i)?.[1] || '').split(',').map(name => name.trim());
+    const name = ['Gerald Pemberton', 'Sandra Whitcombe', 'Nigel Ashdown'].find(candidate => !takenNames.includes(candidate)) || 'Presenter';
+
+    return {
+      name,
+      role: 'Evening news anchor',
+      visual_description: 'Silver-haired anchor in his sixties, navy suit, red tie, reading glasses pushed up on his forehead, seated at a glossy curved desk',
+      verbal_tics: ['clears throat before bad news', 'says "quite" after every statistic'],
+      catchphrases: ['And that, I think, is reassuring.', 'More on that never.'],
+      voice_notes: 'Warm, unhurried received pronunciation; delivers disasters with the tone of a garden show'
+    };
+  }
+
+  /**
+   * Scores between 5 and 9 that depend on the artifact, so each version gets its own stable result
+   */
+  private getSatireEvaluationFixture(prompt: string): SatireEvaluationOutput {
+    const rationales = {
+      SATIRICAL_CLARITY: 'The target and the point being made about it come across without being explained.',
+      TARGET_ACCURACY: 'Aims at the officials and their messaging rather than the people affected.',
+      TERMINOLOGY_COMPLIANCE: 'Sticks to the preferred terms outside of quoted spin.',
+      FORMAT_FIT: 'Follows the format conventions closely enough for the parody to land.',
+      COMEDIC_ESCALATION: 'Builds from a plausible opening to an absurd payoff, though the middle beat could push harder.'
+    };
+
+    const scores = Object.fromEntries(Object.entries(rationales).map(([criterion, rationale]) => [
+      criterion,
+      { score: 5 + (hashString(`${criterion}:${prompt}`) % 5), rationale }
+    ])) as SatireEvaluationOutput['scores'];
+
+    return {
+      scores,
+      summary: 'Clear, well-aimed satire in the right format; the escalation is where the next draft can gain the most.'
+    };
+  }
+
+  /**
+   * Build the smallest value that satisfies a schema, for schemas without a fixture
+   */
+  private generateFromSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') return null;
+    if (Array.isArray(schema.enum)) return schema.enum[0];
+
+    switch (schema.type) {
+      case 'object': {
+        const result: Record<string, any> = {};
+        const properties = schema.properties || {};
+        (schema.required || Object.keys(properties)).forEach((key: string) => {
+          result[key] = this.generateFromSchema(properties[key]);
+        });
+        return result;
+      }
+      case 'array':
+        return Array.from({ length: Math.max(schema.minItems || 1, 1) }, () => this.generateFromSchema(schema.items));
+      case 'integer':
+      case 'number': {
+        const minimum = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 1);
+        return schema.maximum !== undefined ? Math.min(minimum, schema.maximum) : minimum;
+      }
+      case 'boolean':
+        return false;
+      case 'string':
+        return 'mock'.padEnd(schema.minLength || 0, '.');
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Emit the reply word by word, stopping if the stream is cancelled
+   */
+  private async streamText(text: string, messages: LLMMessage[], stream: LLMStreamOptions): Promise<LLMResponse> {
+    const tokens = text.match(/\S+\s*|\s+/g) || [];
+    let streamedText = '';
+
+    for (const token of tokens) {
+      if (stream.signal?.aborted) {
+        return {
+          success: false,
+          response: streamedText,
+          error: 'Response cancelled',
+          cancelled: true
+        };
+      }
+
+      streamedText += token;
+      stream.onToken(token);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return {
+      success: true,
+      response: streamedText,
+      usage: this.estimateUsage(messages, streamedText)
+    };
+  }
+
+  /**
+   * Roughly four characters per token, like most BPE tokenizers on English text
+   */
+  private estimateUsage(messages: LLMMessage[], text: string): LLMResponse['usage'] {
+    const prompt_tokens = Math.ceil(messages.reduce((total, message) => total + message.content.length, 0) / 4);
+    const completion_tokens = Math.ceil(text.length / 4);
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+  }
+
+  private parseFailures(value?: string): MockFailure[] {
+    return (value || '')
+      .split(',')
+      .map(failure => failure.trim())
+      .filter((failure): failure is MockFailure => {
+        if (!failure) return false;
+        if (!MOCK_FAILURES.includes(failure as MockFailure)) {
+          console.warn(`Ignoring unknown mock LLM failure "${failure}" - expected one of ${MOCK_FAILURES.join(', ')}`);
+          return false;
+        }
+        return true;
+      });
+  }
+}
+
+/**
+ * FNV-1a hash, used to pick fixture variants deterministically
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Export singleton instance
+export const mockLLMProvider = new MockLLMProvider();
@@ -18,6 +18,33 @@ export interface ModelAvailabilityResult {
   lastChecked: Date;
 }
 
+// Where a self-hosted provider is served (local and OpenAI-compatible endpoints)
+export interface ProviderEndpoint {
+  baseUrl?: string;
+  authHeader?: string; // Header that carries the key; defaults to "Authorization: Bearer <key>"
+}
+
+/**
+ * Normalise an OpenAI-compatible base URL to its versioned API root, e.g.
+ * "http://localhost:8080" and "http://localhost:8080/v1/" both become "http://localhost:8080/v1"
+ */
+export function getOpenAICompatibleApiRoot(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Request headers for an OpenAI-compatible endpoint; the key is optional
+ */
+export function getOpenAICompatibleHeaders(apiKey?: string, authHeader?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    const name = authHeader?.trim() || 'Authorization';
+    headers[name] = name.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey;
+  }
+  return headers;
+}
+
 export class ModelAvailabilityService {
   private static cache: Map<string, { result: ModelAvailabilityResult; expiry: number }> = new Map();
   private static CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
@@ -25,9 +52,9 @@ export class ModelAvailabilityService {
   /**
    * Check available models for a provider
    */
-  public static async checkAvailableModels(provider: string, apiKey?: string): Promise<ModelAvailabilityResult> {
+  public static async checkAvailableModels(provider: string, apiKey?: string, endpoint?: ProviderEndpoint): Promise<ModelAvailabilityResult> {
     // Check cache first
-    const cacheKey = `${provider}-${apiKey ? 'authenticated' : 'public'}`;
+    const cacheKey = `${provider}-${apiKey ? 'authenticated' : 'public'}-${endpoint?.baseUrl || ''}`;
     const cached = this.cache.get(cacheKey);
     
     if (cached && Date.now() < cached.expiry) {
@@ -51,7 +78,17 @@ export class ModelAvailabilityService {
           result = await this.checkGeminiModels(apiKey);
           break;
         case 'local':
-          result = await this.checkLocalModels();
+          result = await this.checkLocalModels(endpoint?.baseUrl || undefined);
+          break;
+        case 'openai-compatible':
+          result = await this.checkOpenAICompatibleModels(apiKey, endpoint);
+          break;
+        case 'mock':
+          result = {
+            success: true,
+            models: [{ id: 'mock-deterministic', name: 'mock-deterministic', displayName: 'Deterministic Fixtures (Offline)', description: 'Canned persona responses for tests and demos' }],
+            lastChecked: new Date()
+          };
           break;
         default:
           result = {
@@ -345,6 +382,61 @@ export class ModelAvailabilityService {
     }
   }
 
+  /**
+   * Check models served by an OpenAI-compatible endpoint (vLLM, llama.cpp server, LM Studio, etc.)
+   * through its /v1/models listing. There's no fallback list - only the server knows what it serves.
+   */
+  private static async checkOpenAICompatibleModels(apiKey?: string, endpoint?: ProviderEndpoint): Promise<ModelAvailabilityResult> {
+    if (!endpoint?.baseUrl) {
+      return {
+        success: false,
+        models: [],
+        error: 'No base URL configured for the OpenAI-compatible endpoint',
+        lastChecked: new Date()
+      };
+    }
+
+    try {
+      const response = await fetch(`${getOpenAICompatibleApiRoot(endpoint.baseUrl)}/models`, {
+        headers: getOpenAICompatibleHeaders(apiKey, endpoint.authHeader)
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          models: [],
+          error: response.status === 401 || response.status === 403
+            ? `Endpoint rejected the credentials (HTTP ${response.status})`
+            : `Endpoint returned HTTP ${response.status}`,
+          lastChecked: new Date()
+        };
+      }
+
+      const data = await response.json();
+      const models: ModelInfo[] = (data.data || []).map((model: any) => ({
+        id: model.id,
+        name: model.id,
+        displayName: model.id,
+        description: model.owned_by ? `Served by ${model.owned_by}` : 'Served by OpenAI-compatible endpoint',
+        contextLength: model.max_model_len || model.context_length
+      }));
+
+      return {
+        success: models.length > 0,
+        models,
+        error: models.length > 0 ? undefined : 'Endpoint did not list any models',
+        lastChecked: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        models: [],
+        error: `Failed to connect to OpenAI-compatible endpoint: ${error}`,
+        lastChecked: new Date()
+      };
+    }
+  }
+
   /**
    * Get default local models when server is not available
    */
@@ -392,13 +484,13 @@ export class ModelAvailabilityService {
   /**
    * Validate if a specific model is available
    */
-  public static async validateModel(provider: string, modelId: string, apiKey?: string): Promise<{
+  public static async validateModel(provider: string, modelId: string, apiKey?: string, endpoint?: ProviderEndpoint): Promise<{
     isValid: boolean;
     isDeprecated?: boolean;
     suggestedReplacement?: string;
     error?: string;
   }> {
-    const availableModels = await this.checkAvailableModels(provider, apiKey);
+    const availableModels = await this.checkAvailableModels(provider, apiKey, endpoint);
     
     if (!availableModels.success) {
       return {
@@ -2,7 +2,7 @@
 // Provides intelligent model suggestions based on specific tasks and workflow requirements
 
 export interface ModelRecommendation {
-  provider: 'openai' | 'anthropic' | 'gemini' | 'local';
+  provider: 'openai' | 'anthropic' | 'gemini' | 'local' | 'openai-compatible';
   model: string;
   reason: string;
   confidence: 'high' | 'medium' | 'low';
@@ -19,6 +19,16 @@ export interface TaskContext {
   reasoning_intensive?: boolean;
 }
 
+// Open-weight model families served by self-hosted endpoints, strongest first
+const OPEN_WEIGHT_FAMILIES: { pattern: RegExp; name: string; strength: string; bestFor: TaskContext['taskType'][] }[] = [
+  { pattern: /qwen-?3|qwen-?2\.5/i, name: 'Qwen', strength: 'is strong at structured output and multilingual writing', bestFor: ['video_prompt_engineering', 'analysis', 'creative_strategy'] },
+  { pattern: /llama-?3/i, name: 'Llama 3', strength: 'writes natural, witty dialogue', bestFor: ['content_generation', 'script_writing', 'general'] },
+  { pattern: /deepseek/i, name: 'DeepSeek', strength: 'reasons carefully through complex briefs', bestFor: ['analysis', 'creative_strategy'] },
+  { pattern: /mistral|mixtral/i, name: 'Mistral', strength: 'is fast with good creative range', bestFor: ['content_generation', 'script_writing'] },
+  { pattern: /gemma/i, name: 'Gemma', strength: 'follows formatting instructions well', bestFor: ['video_prompt_engineering'] },
+  { pattern: /phi-?[34]/i, name: 'Phi', strength: 'is compact and quick', bestFor: ['general'] }
+];
+
 export class ModelRecommendationService {
   
   /**
@@ -245,74 +255,152 @@ export class ModelRecommendationService {
    * Get persona-specific recommendations
    */
   public static getPersonaRecommendation(persona: string): ModelRecommendation {
+    const context = this.getPersonaTaskContext(persona);
+    return context.taskType === 'general'
+      ? this.getGeneralRecommendation(context)
+      : this.getRecommendation(context);
+  }
+
+  /**
+   * Pick from the models an OpenAI-compatible endpoint serves. Open-weight models are ranked by
+   * family and by size - larger for complex work, smaller where the persona needs speed.
+   * Returns null when none of the served models can be ranked.
+   */
+  public static getOpenAICompatibleRecommendation(persona: string, modelIds: string[]): ModelRecommendation | null {
+    const context = this.getPersonaTaskContext(persona);
+    const preferSmall = context.speed === 'priority' || context.budget === 'cost_conscious';
+
+    const ranked = modelIds
+      .map(id => ({ id, score: this.scoreOpenWeightModel(id, context, preferSmall) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) return null;
+
+    const toRecommendation = (id: string, isAlternative: boolean): ModelRecommendation => {
+      const family = OPEN_WEIGHT_FAMILIES.find(candidate => candidate.pattern.test(id));
+      const size = this.getParameterCount(id);
+      return {
+        provider: 'openai-compatible',
+        model: id,
+        reason: `${family?.name || id}${size ? ` (${size}B)` : ''} ${family?.strength || 'is a capable open-weight model'}` +
+          (isAlternative ? '.' : `, and is the ${preferSmall ? 'fastest strong' : 'strongest'} match for this agent on your endpoint.`),
+        confidence: isAlternative ? 'low' : 'medium',
+        costEfficiency: 'excellent'
+      };
+    };
+
+    return {
+      ...toRecommendation(ranked[0].id, false),
+      alternatives: ranked.slice(1, 3).map(candidate => toRecommendation(candidate.id, true))
+    };
+  }
+
+  /**
+   * The task profile each persona's work fits
+   */
+  private static getPersonaTaskContext(persona: string): TaskContext {
     switch (persona) {
       case 'VIDEO_PROMPT_ENGINEER':
-        return this.getRecommendation({
+        return {
           taskType: 'video_prompt_engineering',
           complexity: 'complex',
           budget: 'balanced',
           speed: 'balanced',
           multimodal: true
-        });
+        };
 
       case 'CREATIVE_STRATEGIST':
-        return this.getRecommendation({
+        return {
           taskType: 'creative_strategy',
           complexity: 'complex',
           budget: 'balanced',
           speed: 'balanced',
           reasoning_intensive: true
-        });
+        };
 
       case 'SATIRICAL_SCREENWRITER':
-        return this.getRecommendation({
+        return {
           taskType: 'content_generation',
           complexity: 'complex',
           budget: 'balanced',
           speed: 'balanced'
-        });
+        };
 
       case 'BAFFLING_BROADCASTER':
-        return this.getRecommendation({
+        return {
           taskType: 'content_generation',
           complexity: 'moderate',
           budget: 'balanced',
           speed: 'priority'
-        });
+        };
 
       case 'CINEMATIC_STORYBOARDER':
-        return this.getRecommendation({
+        return {
           taskType: 'analysis',
           complexity: 'moderate',
           budget: 'balanced',
           speed: 'balanced',
           multimodal: true
-        });
+        };
 
       case 'SOUNDSCAPE_ARCHITECT':
-        return this.getRecommendation({
+        return {
           taskType: 'content_generation',
           complexity: 'moderate',
           budget: 'balanced',
           speed: 'balanced'
-        });
+        };
 
       case 'PROJECT_DIRECTOR':
-        return this.getRecommendation({
+        return {
           taskType: 'analysis',
           complexity: 'complex',
           budget: 'premium',
           speed: 'quality_over_speed',
           reasoning_intensive: true
-        });
+        };
 
       default:
-        return this.getGeneralRecommendation({
+        return {
           taskType: 'general',
           complexity: 'moderate',
           budget: 'balanced',
           speed: 'balanced'
-        });
+        };
+    }
+  }
+
+  /**
+   * Score a served model for a task; 0 for embedding models and unknown families
+   */
+  private static scoreOpenWeightModel(modelId: string, context: TaskContext, preferSmall: boolean): number {
+    if (/embed|rerank|whisper|tts/i.test(modelId)) return 0;
+
+    const familyIndex = OPEN_WEIGHT_FAMILIES.findIndex(family => family.pattern.test(modelId));
+    if (familyIndex === -1) return 0;
+
+    const family = OPEN_WEIGHT_FAMILIES[familyIndex];
+    let score = (OPEN_WEIGHT_FAMILIES.length - familyIndex) * 10;
+    if (family.bestFor.includes(context.taskType)) score += 15;
+    if (/instruct|chat|-it\b/i.test(modelId)) score += 5;
+
+    const size = this.getParameterCount(modelId);
+    if (size) {
+      // Around 8B is quick on a workstation GPU; beyond that, bigger is better for complex work
+      score += preferSmall
+        ? Math.max(0, 20 - Math.abs(size - 8))
+        : Math.min(size, 80) / (context.complexity === 'complex' ? 2 : 4);
     }
+
+    return score;
+  }
+
+  /**
+   * Parameter count in billions from a model ID such as "Qwen2.5-72B-Instruct" or "llama3.1:8b"
+   */
+  private static getParameterCount(modelId: string): number | null {
+    const match = modelId.match(/(?:^|[^a-z0-9.])(\d+(?:\.\d+)?)b(?![a-z])/i);
+    return match ? parseFloat(match[1]) : null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+// PDF Printer
+// Prints self-contained HTML documents to PDF in a hidden window; page size comes from the document's @page rule
+
+import { BrowserWindow } from 'electron';
+
+/**
+ * Render an HTML document to a PDF buffer. Margins are in inches; without them the document lays out its own margins.
+ */
+export async function printHtmlToPdf(html: string, options: { margin?: number } = {}): Promise<Buffer> {
+  const window = new BrowserWindow({ show: false, webPreferences: { javascript: false, sandbox: true } });
+  const { margin } = options;
+
+  try {
+    await window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+    return await window.webContents.printToPDF({
+      margins: margin === undefined ? { marginType: 'none' } : { top: margin, bottom: margin, left: margin, right: margin },
+      preferCSSPageSize: true
+    });
+  } finally {
+    window.destroy();
+  }
+}
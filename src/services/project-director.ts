@@ -1,13 +1,17 @@
 // Project Director Orchestration Service
 // Provides active workflow monitoring, quality control, and strategic guidance
 
-import { Project, PersonaType, SatiricalFormat } from '../shared/types/index.js';
+import { ArtifactQualityTrend, Project, PersonaType, SatiricalFormat, WorkflowProgress, WorkflowStageProgress } from '../shared/types/index.js';
+import { EVALUATION_CRITERION_LABELS } from '../shared/utils/evaluation.js';
 import { LLMService } from './llm.js';
 
 export interface ProjectHealthCheck {
   overallHealth: 'excellent' | 'good' | 'needs_attention' | 'critical';
   formatConsistency: boolean;
   workflowProgress: number; // 0-100%
+  workflowStages: WorkflowStage[];
+  currentStage: string | null; // Stage awaiting sign-off in the persisted workflow
+  qualityTrends: ArtifactQualityTrend[]; // Judged satirical quality of each artifact across its versions
   recommendations: string[];
   nextSteps: string[];
   qualityIssues: QualityIssue[];
@@ -73,6 +77,9 @@ export class ProjectDirectorService {
         overallHealth,
         formatConsistency,
         workflowProgress: overallProgress,
+        workflowStages,
+        currentStage: this.projectContext.workflow?.current_stage || null,
+        qualityTrends: this.projectContext.qualityTrends || [],
         recommendations,
         nextSteps,
         qualityIssues
@@ -84,6 +91,9 @@ export class ProjectDirectorService {
         overallHealth: 'critical',
         formatConsistency: false,
         workflowProgress: 0,
+        workflowStages: [],
+        currentStage: null,
+        qualityTrends: [],
         recommendations: ['Unable to assess project health. Please check system configuration.'],
         nextSteps: ['Resolve technical issues before proceeding.'],
         qualityIssues: []
@@ -168,9 +178,19 @@ export class ProjectDirectorService {
   }
 
   /**
-   * Analyze workflow progress across all stages
+   * Analyze workflow progress across all stages, from the project's persisted workflow when there is one
    */
   private async analyzeWorkflowProgress(): Promise<WorkflowStage[]> {
+    const workflow: WorkflowProgress | null = this.projectContext.workflow || null;
+    if (workflow) {
+      return workflow.stages.map(stage => ({
+        name: stage.name,
+        completed: stage.status === 'completed',
+        quality: this.assessStageQuality(stage),
+        recommendations: this.getStageRecommendations(stage, workflow)
+      }));
+    }
+
     const stages: WorkflowStage[] = [
       {
         name: 'News Articles',
@@ -269,6 +289,35 @@ export class ProjectDirectorService {
       });
     }
 
+    // Findings from the current stage's last attempt at its quality gates
+    const workflow: WorkflowProgress | null = this.projectContext.workflow || null;
+    const currentStage = workflow?.stages.find(stage => stage.name === workflow.current_stage && stage.status !== 'completed');
+    currentStage?.gate_results
+      .filter(gate => !gate.passed)
+      .forEach(gate => gate.findings.forEach(finding => issues.push({
+        type: gate.name === 'Format Consistency' ? 'format_drift' : 'quality_concern',
+        severity: finding.severity === 'critical' ? 'high' : finding.severity,
+        description: `${finding.item}: ${finding.message}`,
+        suggestedFix: finding.suggestion || `Resolve before signing off ${currentStage.name}`,
+        affectedSection: `${currentStage.name} - ${gate.name}`
+      })));
+
+    // Artifacts whose most recently judged version fell short of the rubric
+    const trends: ArtifactQualityTrend[] = this.projectContext.qualityTrends || [];
+    trends.forEach(trend => {
+      const latest = trend.evaluations[trend.evaluations.length - 1];
+      if (!latest || latest.passed) return;
+
+      const weakest = [...latest.scores].sort((a, b) => a.score - b.score)[0];
+      issues.push({
+        type: 'quality_concern',
+        severity: latest.overall_score < latest.rubric.passing_score - 20 ? 'high' : 'medium',
+        description: `${trend.label} v${latest.version} scored ${latest.overall_score}/100 for satirical quality (pass mark ${latest.rubric.passing_score})`,
+        suggestedFix: weakest ? `${EVALUATION_CRITERION_LABELS[weakest.criterion]}: ${weakest.rationale}` : latest.summary,
+        affectedSection: trend.label
+      });
+    });
+
     return issues;
   }
 
@@ -344,6 +393,26 @@ export class ProjectDirectorService {
   }
 
   // Helper methods for quality assessment
+  private assessStageQuality(stage: WorkflowStageProgress): 'excellent' | 'good' | 'needs_work' | 'not_started' {
+    if (stage.status === 'failed' || stage.status === 'review_required') return 'needs_work';
+    if (stage.quality_score === null) return 'not_started';
+    if (stage.quality_score >= 85) return 'excellent';
+    if (stage.quality_score >= 70) return 'good';
+    return 'needs_work';
+  }
+
+  private getStageRecommendations(stage: WorkflowStageProgress, workflow: WorkflowProgress): string[] {
+    if (stage.status === 'completed') return [`${stage.name} signed off`];
+    if (stage.status === 'failed') return [`${stage.name} failed: ${stage.last_error || 'retry limit reached'}`];
+
+    const fixes = stage.gate_results
+      .filter(gate => gate.required && !gate.passed)
+      .flatMap(gate => gate.suggestions.length > 0 ? gate.suggestions : gate.issues);
+    if (fixes.length > 0) return fixes;
+    if (stage.name === workflow.current_stage) return [`Sign off ${stage.name} once its output is ready`];
+    return [`Starts after ${workflow.current_stage}`];
+  }
+
   private assessArticlesQuality(): 'excellent' | 'good' | 'needs_work' | 'not_started' {
     if (!this.projectContext.articles) return 'not_started';
     const count = this.projectContext.articles.length;
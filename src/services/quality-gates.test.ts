@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { Shot } from '../shared/types';
+import { applyAllTerminologyFixes, lintTerminology } from '../shared/utils/terminology';
+import { SatiricalContextService } from './satirical-context';
+import {
+  toQualityCheck,
+  validate8SecondConstraint,
+  validateAudioCompleteness,
+  validatePromptOptimization,
+  validateScriptStructure,
+  validateStrategyCompleteness,
+  validateTerminology
+} from './quality-gates';
+
+function shot(panel: number, overrides: Partial<Shot> = {}): Shot {
+  return {
+    id: `shot-${panel}`,
+    script_id: 'script-1',
+    panel_number: panel,
+    length_seconds: 6,
+    camera_angle: 'Mid shot',
+    character_action: 'Derek points at a hen house',
+    lighting_mood: 'Overcast',
+    visual_style: 'News',
+    created_at: new Date(),
+    ...overrides
+  };
+}
+
+describe('toQualityCheck', () => {
+  it('orders findings by severity and only fails on high or critical ones', () => {
+    const check = toQualityCheck([
+      { item: 'Tone', severity: 'low', message: 'Vague' },
+      { item: 'Concept', severity: 'medium', message: 'Thin', suggestion: 'Sharpen it' }
+    ]);
+
+    expect(check).toMatchObject({ passed: true, score: 87, issues: ['Concept: Thin', 'Tone: Vague'], suggestions: ['Sharpen it'] });
+    expect(toQualityCheck([{ item: 'Script', severity: 'high', message: 'Empty' }]).passed).toBe(false);
+  });
+});
+
+describe('validateStrategyCompleteness', () => {
+  it('blocks a strategy with no angles but only warns about missing themes', () => {
+    const check = validateStrategyCompleteness({
+      creative_concept: 'Cage-free, as long as the cage is very large',
+      satirical_angles: [],
+      target_audience: 'GENERAL',
+      tone: 'DRY_WIT',
+      key_themes: [],
+      character_archetypes: [{ name: 'The Shopper', role: 'Interviewee', satirical_traits: ['Credulous'] }],
+      visual_style_guide: { overall_aesthetic: 'Grey' }
+    });
+
+    expect(check.passed).toBe(false);
+    expect(check.findings.map(finding => [finding.item, finding.severity])).toEqual([
+      ['Satirical angles', 'high'],
+      ['Key themes', 'medium']
+    ]);
+  });
+});
+
+describe('validateScriptStructure', () => {
+  const twoHanded = 'EXT. HIGH STREET - DAY\n\nDerek stops a shopper.\n\nDEREK\nCage-free?\n\nSHOPPER\nIf you say so.\n';
+
+  it('checks the cast against the satirical format', () => {
+    expect(validateScriptStructure(twoHanded, 'SKETCH_COMEDY').passed).toBe(true);
+
+    const voxPop = validateScriptStructure(twoHanded, 'VOX_POP');
+    expect(voxPop.passed).toBe(false);
+    expect(voxPop.issues[0]).toContain('VOX_POP needs at least 3');
+  });
+
+  it('requires scene headings for studio formats', () => {
+    const check = validateScriptStructure({ content: 'Derek stops a shopper.\n\nDEREK\nCage-free?\n' }, 'NEWS_PARODY');
+
+    expect(check.findings[0]).toMatchObject({ item: 'Scene headings', severity: 'high' });
+  });
+});
+
+describe('validate8SecondConstraint', () => {
+  it('blocks shots longer than eight seconds', () => {
+    const check = validate8SecondConstraint({ shots: [shot(1), shot(2, { length_seconds: 12 })] });
+
+    expect(check.passed).toBe(false);
+    expect(check.issues).toEqual(['Shot 2: Runs 12s; the limit is 8s']);
+  });
+});
+
+describe('validateAudioCompleteness', () => {
+  it('needs sound notes for every shot', () => {
+    const shots = [shot(1), shot(2, { dialogue_narration: 'Back to you' })];
+    const soundNotes = [{ id: 'sound-2', shot_id: 'shot-2', ambient_foley: 'Clucking', created_at: new Date() }];
+
+    const check = validateAudioCompleteness({ shots, soundNotes });
+
+    expect(check.passed).toBe(false);
+    expect(check.issues).toEqual([
+      'Shot 1: Has no sound notes',
+      'Shot 2: Has dialogue but no notes on how it is recorded or delivered'
+    ]);
+  });
+});
+
+describe('validatePromptOptimization', () => {
+  it('uses the latest prompt version for each shot', () => {
+    const prompt = (version: number, text: string) => ({ id: `p${version}`, shot_id: 'shot-1', generated_prompt_text: text, ai_model: 'Veo3', version, created_at: new Date() });
+    const detailed = 'Mid shot of a reporter in a grey suit pointing at a hen house on an overcast farm, handheld, 6 seconds';
+
+    expect(validatePromptOptimization({ shots: [shot(1)], prompts: [prompt(2, detailed), prompt(1, 'Hens')] }).findings).toEqual([]);
+
+    const tooLong = validatePromptOptimization({ shots: [shot(1)], prompts: [prompt(3, `${detailed}, then 15 seconds of the hens`)] });
+    expect(tooLong.issues).toEqual(['Shot 1: Asks for 15s of footage; the limit is 8s']);
+  });
+});
+
+describe('validateTerminology', () => {
+  const terminology = SatiricalContextService.getContextByType('ANIMAL_LIBERATION')!.preferredTerminology;
+
+  it('finds avoided terms in any inflection or phrasing', () => {
+    const text = "The Dairy-Industry's new ad talks up the welfare of animals and every consumer's choice, as if animal\nwelfare were solved. Humane meat is next.";
+
+    expect(lintTerminology(text, terminology).map(match => match.text)).toEqual([
+      "Dairy-Industry's",
+      'welfare of animals',
+      "consumer's",
+      'animal\nwelfare',
+      'Humane meat'
+    ]);
+  });
+
+  it('offers the preferred terms as fixes, cased to match, and ignores them once applied', () => {
+    const text = 'Livestock are happy. Consumers agree.';
+    const matches = lintTerminology(text, terminology);
+
+    expect(matches[0].replacements).toEqual(['Farmed animals', 'Imprisoned animals']);
+
+    const fixed = applyAllTerminologyFixes(text, matches);
+    expect(fixed).toBe('Farmed animals are happy. People who buy animal products agree.');
+    expect(lintTerminology(fixed, terminology)).toEqual([]);
+  });
+
+  it('keeps a possessive and only suggests rewording inflected uses', () => {
+    const fix = (text: string) => applyAllTerminologyFixes(text, lintTerminology(text, terminology));
+
+    expect(fix("Animal welfare's limits.")).toBe("Animal wellbeing's limits.");
+    expect(fix("The consumers' choice matters.")).toBe("The people who buy animal products' choice matters.");
+    expect(fix("The consumer's choice matters.")).toBe("The consumer's choice matters.");
+    expect(fix('A consumer buys it.')).toBe('A consumer buys it.');
+    expect(fix('Meat industries lobby hard.')).toBe('Meat industries lobby hard.');
+
+    const [inflected] = lintTerminology('Meat industries lobby hard.', terminology);
+    expect(inflected).toMatchObject({ text: 'Meat industries', fixable: false, replacements: ['Animal agriculture', 'Animal exploitation industry'] });
+  });
+
+  it("blocks the production's own voice but lets characters and quotes use the target's language", () => {
+    const script = 'EXT. FARM - DAY\n\nA livestock truck pulls in.\n\nFARMER\nMy livestock love it here.\n\nThe sign says "100% humane dairy".\n';
+
+    const check = validateTerminology({ content: script }, 'SATIRICAL_SCREENWRITER', terminology);
+
+    expect(check.passed).toBe(false);
+    expect(check.findings.map(finding => [finding.item, finding.severity, finding.message])).toEqual([
+      ['Script line 3', 'high', 'Uses "livestock"'],
+      ['Script line 6', 'low', 'Uses "livestock" in dialogue'],
+      ['Script line 8', 'low', 'Uses "humane dairy" in a quote']
+    ]);
+    expect(check.findings[0].suggestion).toContain('Say "farmed animals" or "imprisoned animals" instead');
+    expect(validateTerminology({ shots: [shot(1, { dialogue_narration: 'Our livestock are free range' })] }, 'CINEMATIC_STORYBOARDER', terminology).passed).toBe(true);
+  });
+
+  it('checks director notes with the strategy and passes when the lens has no terminology', () => {
+    const strategy = { creative_concept: 'Cage-free', director_notes: { summary: 'A livestock farmer', satirical_hook: 'Cage-free, as long as the cage is very large' } };
+
+    expect(validateTerminology(strategy, 'CREATIVE_STRATEGIST', terminology).issues).toEqual(["Director's notes summary: Uses \"livestock\""]);
+    expect(validateTerminology(strategy, 'CREATIVE_STRATEGIST', []).passed).toBe(true);
+  });
+});
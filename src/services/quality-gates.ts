@@ -0,0 +1,511 @@
+// Quality Gate Validators
+// Check a workflow stage's output against production rules and report each problem found with a severity
+
+import {
+  PersonaType,
+  Prompt,
+  SatiricalFormat,
+  Shot,
+  SoundNotes,
+  TerminologyGuidance,
+  WorkflowFindingSeverity,
+  WorkflowGateFinding
+} from '../shared/types/index.js';
+import { parseScreenplay, summarizeScreenplay, validateShotDuration } from '../shared/utils';
+import { TerminologyUsage, lintTerminology } from '../shared/utils/terminology.js';
+import type { QualityCheck } from './workflow-state';
+
+const SEVERITY_ORDER: WorkflowFindingSeverity[] = ['critical', 'high', 'medium', 'low'];
+const SEVERITY_PENALTIES: Record<WorkflowFindingSeverity, number> = { critical: 50, high: 25, medium: 10, low: 3 };
+const BLOCKING_SEVERITIES: WorkflowFindingSeverity[] = ['critical', 'high'];
+
+const MAX_SHOT_SECONDS = 8;
+const MIN_OUTPUT_LENGTH = 50;
+const MIN_PROMPT_LENGTH = 80;
+const MAX_PROMPT_LENGTH = 1500;
+const MAX_PLACEHOLDER_FINDINGS = 5;
+const MAX_TERMINOLOGY_FINDINGS = 20;
+
+// The production's own voice must follow the lens; a character or a quote may speak the target's language
+const TERMINOLOGY_SEVERITIES: Record<TerminologyUsage, WorkflowFindingSeverity> = { narrative: 'high', dialogue: 'low', quote: 'low' };
+
+// Text an agent or writer left to fill in later
+const PLACEHOLDER_PATTERN = /\b(?:TODO|TBD|TKTK|lorem ipsum)\b|\[(?:insert|placeholder)[^\]]*\]/i;
+const PROMPT_DURATION_PATTERN = /(\d+(?:\.\d+)?)\s*(?:-\s*)?(?:s|secs?|seconds?)\b/gi;
+
+interface FormatScriptRule {
+  minSpeakers: number;
+  speakers: string; // Who is expected to speak, for messages
+  sceneHeadings: boolean; // Whether the format is shot in defined locations that need INT./EXT. headings
+  maxRuntime?: number; // Seconds, for formats that live or die by brevity
+}
+
+const FORMAT_SCRIPT_RULES: Record<SatiricalFormat, FormatScriptRule> = {
+  NEWS_PARODY: { minSpeakers: 1, speakers: 'presenter', sceneHeadings: true },
+  VOX_POP: { minSpeakers: 3, speakers: 'members of the public', sceneHeadings: false },
+  MORNING_TV_INTERVIEW: { minSpeakers: 2, speakers: 'hosts or guests', sceneHeadings: true },
+  MOCKUMENTARY: { minSpeakers: 1, speakers: 'interviewee', sceneHeadings: true },
+  SOCIAL_MEDIA: { minSpeakers: 1, speakers: 'voice', sceneHeadings: false, maxRuntime: 60 },
+  SKETCH_COMEDY: { minSpeakers: 2, speakers: 'characters', sceneHeadings: true },
+  SATIRICAL_ARTICLE: { minSpeakers: 0, speakers: 'voices', sceneHeadings: false },
+  PANEL_SHOW: { minSpeakers: 3, speakers: 'host and panellists', sceneHeadings: true },
+  COMMERCIAL_PARODY: { minSpeakers: 1, speakers: 'spokesperson', sceneHeadings: false, maxRuntime: 60 },
+  REALITY_TV_PARODY: { minSpeakers: 2, speakers: 'contestants', sceneHeadings: true }
+};
+
+interface TerminologySource {
+  item: string;
+  text: string;
+  script?: boolean; // Screenplay text, reported by line with dialogue told apart from action
+  spoken?: boolean; // All of it is dialogue or narration
+}
+
+const DIRECTOR_NOTES_FIELDS: Record<string, string> = {
+  summary: 'summary',
+  satirical_hook: 'satirical hook',
+  characters: 'characters',
+  visual_concepts: 'visual concepts'
+};
+
+/**
+ * Turn findings into a quality check. High and critical findings fail it and every finding costs score.
+ */
+export function toQualityCheck(findings: WorkflowGateFinding[]): QualityCheck {
+  const ordered = [...findings].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return {
+    passed: !ordered.some(finding => BLOCKING_SEVERITIES.includes(finding.severity)),
+    score: Math.max(0, 100 - ordered.reduce((sum, finding) => sum + SEVERITY_PENALTIES[finding.severity], 0)),
+    issues: ordered.map(finding => `${finding.item}: ${finding.message}`),
+    suggestions: [...new Set(ordered.map(finding => finding.suggestion).filter((suggestion): suggestion is string => !!suggestion))],
+    findings: ordered
+  };
+}
+
+/**
+ * Output declares the project's format, and shot runtimes suit formats with a length limit
+ */
+export function validateFormatConsistency(output: any, format: SatiricalFormat): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+
+  const declared = output?.satirical_format;
+  if (declared && declared !== format) {
+    findings.push({
+      item: 'Format',
+      severity: 'high',
+      message: `Written for ${declared} but the project format is ${format}`,
+      suggestion: `Rework it for ${format}, or change the project format first`
+    });
+  }
+
+  const maxRuntime = FORMAT_SCRIPT_RULES[format]?.maxRuntime;
+  const shots = listOf<Shot>(output?.shots);
+  const runtime = shots.reduce((sum, shot) => sum + (Number(shot.length_seconds) || 0), 0);
+  if (maxRuntime && runtime > maxRuntime) {
+    findings.push({
+      item: 'Runtime',
+      severity: 'medium',
+      message: `Shots run ${formatSeconds(runtime)}, longer than the ${maxRuntime}s this format holds attention for`,
+      suggestion: 'Cut or merge shots to tighten the piece'
+    });
+  }
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Output exists, has enough substance to build on and has no placeholder text left in it
+ */
+export function validateQualityStandard(output: any): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  const texts = collectText(output);
+  const length = texts.reduce((sum, { text }) => sum + text.trim().length, 0);
+
+  if (output === null || output === undefined || length === 0) {
+    findings.push({ item: 'Output', severity: 'critical', message: 'Nothing was produced', suggestion: 'Generate or write the stage output before signing it off' });
+    return toQualityCheck(findings);
+  }
+
+  if (length < MIN_OUTPUT_LENGTH) {
+    findings.push({
+      item: 'Output',
+      severity: 'high',
+      message: `Only ${length} characters of content, too thin for the next stage to build on`,
+      suggestion: 'Flesh the output out before handing it on'
+    });
+  }
+
+  texts
+    .filter(({ text }) => PLACEHOLDER_PATTERN.test(text))
+    .slice(0, MAX_PLACEHOLDER_FINDINGS)
+    .forEach(({ path, text }) => findings.push({
+      item: path || 'Output',
+      severity: 'medium',
+      message: `Contains placeholder text "${text.match(PLACEHOLDER_PATTERN)![0]}"`,
+      suggestion: 'Replace placeholders with finished content'
+    }));
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Every field of the creative strategy that later stages depend on is filled in
+ */
+export function validateStrategyCompleteness(output: any): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+
+  if (!output || typeof output !== 'object') {
+    findings.push({ item: 'Creative strategy', severity: 'critical', message: 'No creative strategy to check', suggestion: 'Save a creative strategy for the project' });
+    return toQualityCheck(findings);
+  }
+
+  if (isBlank(output.creative_concept)) {
+    findings.push({ item: 'Creative concept', severity: 'high', message: 'Missing', suggestion: 'Summarise the satirical idea in a sentence or two' });
+  }
+
+  const angles = listOf<any>(output.satirical_angles);
+  if (angles.length === 0) {
+    findings.push({ item: 'Satirical angles', severity: 'high', message: 'None defined', suggestion: 'Add at least one angle: irony, exaggeration, parody or subversion' });
+  }
+  angles.forEach((angle, index) => {
+    if (isBlank(angle?.description)) {
+      findings.push({ item: `Satirical angle ${index + 1}`, severity: 'medium', message: 'Has no description', suggestion: 'Describe how the angle skewers the story' });
+    } else if (listOf(angle.key_elements).length === 0) {
+      findings.push({ item: `Satirical angle ${index + 1}`, severity: 'low', message: 'Lists no key elements' });
+    }
+  });
+
+  if (isBlank(output.target_audience)) {
+    findings.push({ item: 'Target audience', severity: 'medium', message: 'Not chosen', suggestion: 'Pick who the piece is for' });
+  }
+  if (isBlank(output.tone)) {
+    findings.push({ item: 'Tone', severity: 'medium', message: 'Not chosen', suggestion: 'Pick a satirical tone' });
+  }
+  if (listOf(output.key_themes).length === 0) {
+    findings.push({ item: 'Key themes', severity: 'medium', message: 'None listed', suggestion: 'List the themes every stage should keep returning to' });
+  }
+
+  const archetypes = listOf<any>(output.character_archetypes);
+  if (archetypes.length === 0) {
+    findings.push({ item: 'Character archetypes', severity: 'medium', message: 'None defined', suggestion: 'Sketch the characters the broadcaster and screenwriter will bring to life' });
+  }
+  archetypes.forEach((archetype, index) => {
+    if (isBlank(archetype?.name) || isBlank(archetype?.role)) {
+      findings.push({ item: `Character archetype ${index + 1}`, severity: 'medium', message: 'Needs a name and a role' });
+    } else if (listOf(archetype.satirical_traits).length === 0) {
+      findings.push({ item: archetype.name, severity: 'low', message: 'Has no satirical traits' });
+    }
+  });
+
+  const styleGuide = output.visual_style_guide || {};
+  if (!Object.values(styleGuide).some(value => typeof value === 'string' && !isBlank(value))) {
+    findings.push({ item: 'Visual style guide', severity: 'low', message: 'Empty', suggestion: 'Note a palette, cinematography or overall aesthetic for the storyboarder' });
+  }
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Presenters and characters carry enough detail to look and sound the same in every shot
+ */
+export function validateVoiceConsistency(output: any): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  const characters = listOf<any>(output?.characters);
+
+  if (characters.length === 0) {
+    findings.push({ item: 'Characters', severity: 'high', message: 'No presenter or characters defined', suggestion: 'Create the presenter in the Baffling Broadcaster studio' });
+  }
+
+  characters.forEach((character, index) => {
+    const item = isBlank(character?.name) ? `Character ${index + 1}` : character.name;
+
+    if (isBlank(character?.visual_description)) {
+      findings.push({ item, severity: 'high', message: 'Has no visual description', suggestion: 'Describe their appearance so every shot renders them the same way' });
+    }
+    if (isBlank(character?.role)) {
+      findings.push({ item, severity: 'medium', message: 'Has no role' });
+    }
+    if (isBlank(character?.voice_notes)) {
+      findings.push({ item, severity: 'medium', message: 'Has no voice notes', suggestion: 'Note accent, pace and delivery for the voiceover' });
+    }
+    if (listOf(character?.catchphrases).length === 0 && listOf(character?.verbal_tics).length === 0) {
+      findings.push({ item, severity: 'low', message: 'Has no catchphrases or verbal tics' });
+    }
+  });
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Script parses into scenes, action and dialogue with the cast the satirical format calls for
+ */
+export function validateScriptStructure(output: any, format: SatiricalFormat): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  const content = typeof output === 'string' ? output : output?.content;
+
+  if (isBlank(content)) {
+    findings.push({ item: 'Script', severity: 'critical', message: 'Empty', suggestion: 'Write or generate the script' });
+    return toQualityCheck(findings);
+  }
+
+  const screenplay = parseScreenplay(content);
+  const summary = summarizeScreenplay(screenplay);
+  const rule = FORMAT_SCRIPT_RULES[format] || FORMAT_SCRIPT_RULES.NEWS_PARODY;
+  const speakers = summary.characters.filter(character => character.lines > 0);
+
+  if (rule.sceneHeadings && summary.scenes.length === 0) {
+    findings.push({
+      item: 'Scene headings',
+      severity: 'high',
+      message: `None found; ${format} is shot in set locations`,
+      suggestion: 'Start each scene with a heading such as "INT. NEWS STUDIO - DAY"'
+    });
+  }
+
+  if (speakers.length < rule.minSpeakers) {
+    findings.push({
+      item: 'Dialogue',
+      severity: 'high',
+      message: `${format} needs at least ${rule.minSpeakers} speaking ${rule.speakers}; found ${speakers.length}`,
+      suggestion: 'Give each speaker a character cue followed by their lines'
+    });
+  }
+
+  if (format !== 'SATIRICAL_ARTICLE' && !screenplay.elements.some(element => element.type === 'action')) {
+    findings.push({ item: 'Action', severity: 'medium', message: 'No action lines describing what is on screen', suggestion: 'Add action lines for the storyboarder to work from' });
+  }
+
+  summary.characters
+    .filter(character => character.lines === 0)
+    .forEach(character => findings.push({ item: character.name, severity: 'low', message: 'Has a character cue but no lines' }));
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Every shot has a duration within the 8-second limit of AI video generation, a camera angle and action
+ */
+export function validate8SecondConstraint(output: any): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  const shots = sortShots(listOf<Shot>(output?.shots));
+
+  if (shots.length === 0) {
+    findings.push({ item: 'Storyboard', severity: 'critical', message: 'Has no shots', suggestion: 'Break the script into shots' });
+    return toQualityCheck(findings);
+  }
+
+  const seen = new Set<number>();
+  shots.forEach(shot => {
+    const item = `Shot ${shot.panel_number}`;
+    const seconds = Number(shot.length_seconds);
+
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      findings.push({ item, severity: 'high', message: 'Has no duration', suggestion: `Give it a length of up to ${MAX_SHOT_SECONDS} seconds` });
+    } else if (!validateShotDuration(seconds)) {
+      findings.push({
+        item,
+        severity: 'high',
+        message: `Runs ${formatSeconds(seconds)}; the limit is ${MAX_SHOT_SECONDS}s`,
+        suggestion: 'Split long shots in two or trim the action'
+      });
+    }
+
+    if (isBlank(shot.camera_angle)) {
+      findings.push({ item, severity: 'medium', message: 'Has no camera angle' });
+    }
+    if (isBlank(shot.character_action)) {
+      findings.push({ item, severity: 'medium', message: 'Has no action described' });
+    }
+    if (seen.has(shot.panel_number)) {
+      findings.push({ item, severity: 'low', message: 'Shares its panel number with another shot', suggestion: 'Renumber the panels' });
+    }
+    seen.add(shot.panel_number);
+  });
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Every shot has sound notes, and shots with dialogue say how it should sound
+ */
+export function validateAudioCompleteness(output: any): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  const shots = sortShots(listOf<Shot>(output?.shots));
+  const notes = listOf<SoundNotes>(output?.soundNotes);
+
+  if (shots.length === 0) {
+    findings.push({ item: 'Sound design', severity: 'critical', message: 'There are no shots to design sound for', suggestion: 'Finish the storyboard first' });
+    return toQualityCheck(findings);
+  }
+
+  const notesByShot = new Map(notes.map(note => [note.shot_id, note]));
+  shots.forEach(shot => {
+    const item = `Shot ${shot.panel_number}`;
+    const note = notesByShot.get(shot.id);
+
+    if (!note) {
+      findings.push({ item, severity: 'high', message: 'Has no sound notes', suggestion: 'Add ambience, effects or broadcast audio for every shot' });
+    } else if (isBlank(note.ambient_foley) && isBlank(note.specific_sfx) && isBlank(note.broadcast_audio)) {
+      findings.push({ item, severity: 'high', message: 'Sound notes are empty', suggestion: 'Add ambience, effects or broadcast audio for every shot' });
+    } else if (!isBlank(shot.dialogue_narration) && isBlank(note.broadcast_audio)) {
+      findings.push({ item, severity: 'medium', message: 'Has dialogue but no notes on how it is recorded or delivered' });
+    }
+  });
+
+  const shotIds = new Set(shots.map(shot => shot.id));
+  const orphaned = notes.filter(note => !shotIds.has(note.shot_id)).length;
+  if (orphaned > 0) {
+    findings.push({ item: 'Sound notes', severity: 'low', message: `${orphaned} belong to shots that no longer exist` });
+  }
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Every shot has a prompt detailed enough to steer the video model and no longer than a shot can be
+ */
+export function validatePromptOptimization(output: any): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  const shots = sortShots(listOf<Shot>(output?.shots));
+  const prompts = listOf<Prompt>(output?.prompts);
+
+  if (shots.length === 0) {
+    findings.push({ item: 'Prompts', severity: 'critical', message: 'There are no shots to write prompts for', suggestion: 'Finish the storyboard first' });
+    return toQualityCheck(findings);
+  }
+
+  // Prompts are versioned; only the latest for each shot is used
+  const latest = new Map<string, Prompt>();
+  prompts.forEach(prompt => {
+    const current = latest.get(prompt.shot_id);
+    if (!current || (prompt.version || 0) > (current.version || 0)) {
+      latest.set(prompt.shot_id, prompt);
+    }
+  });
+
+  shots.forEach(shot => {
+    const item = `Shot ${shot.panel_number}`;
+    const text = latest.get(shot.id)?.generated_prompt_text?.trim() || '';
+
+    if (!text) {
+      findings.push({ item, severity: 'high', message: 'Has no video prompt', suggestion: 'Generate a prompt from the shot brief' });
+      return;
+    }
+
+    const requested = Array.from(text.matchAll(PROMPT_DURATION_PATTERN)).map(match => parseFloat(match[1]));
+    const longest = Math.max(0, ...requested);
+    if (longest > MAX_SHOT_SECONDS) {
+      findings.push({ item, severity: 'high', message: `Asks for ${formatSeconds(longest)} of footage; the limit is ${MAX_SHOT_SECONDS}s`, suggestion: 'Match the prompt to the shot length' });
+    }
+    if (text.length < MIN_PROMPT_LENGTH) {
+      findings.push({ item, severity: 'medium', message: `Prompt is only ${text.length} characters`, suggestion: 'Describe subject, setting, camera and lighting so the model has something to go on' });
+    } else if (text.length > MAX_PROMPT_LENGTH) {
+      findings.push({ item, severity: 'low', message: `Prompt is ${text.length} characters; video models may ignore the end of it` });
+    }
+  });
+
+  return toQualityCheck(findings);
+}
+
+/**
+ * Director's notes, scripts, shots and prompts avoid the terms the project's satirical lens rules out
+ */
+export function validateTerminology(output: any, persona: PersonaType, terminology: TerminologyGuidance[] = []): QualityCheck {
+  const findings: WorkflowGateFinding[] = [];
+  if (terminology.length === 0) {
+    return toQualityCheck(findings);
+  }
+
+  terminologySources(output, persona).forEach(source => {
+    lintTerminology(source.text, terminology, { script: source.script }).forEach(match => {
+      const usage = source.spoken && match.usage === 'narrative' ? 'dialogue' : match.usage;
+      findings.push({
+        item: source.script ? `${source.item} line ${match.line}` : source.item,
+        severity: TERMINOLOGY_SEVERITIES[usage],
+        message: `Uses "${match.text}"${usage === 'narrative' ? '' : usage === 'quote' ? ' in a quote' : ' in dialogue'}`,
+        suggestion: `Say "${match.replacements.join('" or "')}" instead: ${match.guidance.reason}`
+      });
+    });
+  });
+
+  // Keep every blocking finding, but not an endless list of the same word in dialogue
+  const blocking = findings.filter(finding => BLOCKING_SEVERITIES.includes(finding.severity));
+  const rest = findings.filter(finding => !BLOCKING_SEVERITIES.includes(finding.severity));
+  return toQualityCheck([...blocking, ...rest.slice(0, Math.max(0, MAX_TERMINOLOGY_FINDINGS - blocking.length))]);
+}
+
+// Private helper methods
+
+/**
+ * The written parts of a stage's output the terminology gate reads
+ */
+function terminologySources(output: any, persona: PersonaType): TerminologySource[] {
+  const sources: TerminologySource[] = [];
+  const add = (item: string, text: unknown, options: { script?: boolean; spoken?: boolean } = {}) => {
+    if (!isBlank(text)) sources.push({ item, text: text as string, ...options });
+  };
+
+  switch (persona) {
+    case 'CREATIVE_STRATEGIST':
+      Object.entries(DIRECTOR_NOTES_FIELDS).forEach(([field, label]) => add(`Director's notes ${label}`, output?.director_notes?.[field]));
+      break;
+    case 'SATIRICAL_SCREENWRITER':
+      add('Script outline', output?.outline);
+      add('Script', typeof output === 'string' ? output : output?.content, { script: true });
+      break;
+    case 'CINEMATIC_STORYBOARDER':
+      sortShots(listOf<Shot>(output?.shots)).forEach(shot => {
+        add(`Shot ${shot.panel_number} action`, shot.character_action);
+        add(`Shot ${shot.panel_number} dialogue`, shot.dialogue_narration, { spoken: true });
+      });
+      break;
+    case 'VIDEO_PROMPT_ENGINEER': {
+      // Only the latest version of each shot's prompt is used
+      const latest = new Map<string, Prompt>();
+      listOf<Prompt>(output?.prompts).forEach(prompt => {
+        const current = latest.get(prompt.shot_id);
+        if (!current || (prompt.version || 0) > (current.version || 0)) {
+          latest.set(prompt.shot_id, prompt);
+        }
+      });
+      sortShots(listOf<Shot>(output?.shots)).forEach(shot => add(`Shot ${shot.panel_number} prompt`, latest.get(shot.id)?.generated_prompt_text));
+      break;
+    }
+  }
+
+  return sources;
+}
+
+function listOf<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim().length === 0;
+}
+
+function sortShots(shots: Shot[]): Shot[] {
+  return [...shots].sort((a, b) => (a.panel_number || 0) - (b.panel_number || 0));
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds * 10) / 10}s`;
+}
+
+/**
+ * Every piece of written content in an output with where it came from, skipping IDs and timestamps
+ */
+function collectText(value: unknown, path = '', depth = 0): { path: string; text: string }[] {
+  if (typeof value === 'string') {
+    return value.trim() ? [{ path, text: value }] : [];
+  }
+  if (!value || typeof value !== 'object' || depth > 4) {
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, child]) => {
+    if (/(?:^id|_id|_at|_url)$/.test(key)) return [];
+    const childPath = Array.isArray(value) ? `${path}[${Number(key) + 1}]` : path ? `${path}.${key}` : key;
+    return collectText(child, childPath, depth + 1);
+  });
+}
@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { databaseService } from '../database/database';
+import { CreativeStrategy } from '../shared/types';
+import { DEFAULT_EVALUATION_RUBRIC, weightedEvaluationScore } from '../shared/utils/evaluation';
+import { SatiricalContextService } from './satirical-context';
+import { SatireEvaluatorService } from './satire-evaluator';
+import { createLLMService } from './llm';
+
+const judge = { persona: 'PROJECT_DIRECTOR' as const, provider: 'mock' as const, model: 'mock-deterministic' };
+
+describe('SatireEvaluatorService', () => {
+  const llmService = createLLMService();
+  const evaluator = new SatireEvaluatorService(llmService);
+
+  async function createStrategy(): Promise<CreativeStrategy> {
+    const project = await databaseService.createProject({
+      name: 'Battery Farm Bulletin',
+      status: 'ACTIVE',
+      created_by: 'user-1',
+      assigned_personas: [],
+      satirical_format: 'NEWS_PARODY',
+      satirical_context: SatiricalContextService.getContextByType('ANIMAL_LIBERATION')!
+    });
+    const strategy = await databaseService.createCreativeStrategy({
+      project_id: project.data!.id,
+      creative_concept: 'Cage-free, as long as the cage is very large',
+      satirical_angles: [{ angle_type: 'IRONY', description: 'Labels promise freedom the hens never see', key_elements: ['labels'] }],
+      target_audience: 'GENERAL',
+      tone: 'DRY_WIT',
+      key_themes: ['Greenwashing'],
+      character_archetypes: [],
+      visual_style_guide: {},
+      created_by: 'user-1'
+    } as any);
+    return strategy.data!;
+  }
+
+  beforeAll(async () => {
+    await databaseService.initialize();
+  });
+
+  afterAll(() => {
+    databaseService.close();
+  });
+
+  it('scores the latest version against the rubric and the project lens', async () => {
+    const strategy = await createStrategy();
+    const generate = vi.spyOn(llmService, 'generateStructuredOutput');
+
+    const result = await evaluator.evaluateArtifact(strategy.project_id, 'CREATIVE_STRATEGY', strategy.id, { agentConfig: judge, created_by: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ version: 1, provider: 'mock', model: 'mock-deterministic', created_by: 'user-1' });
+    expect(result.data!.scores).toHaveLength(5);
+    expect(result.data!.overall_score).toBe(weightedEvaluationScore(result.data!.scores, DEFAULT_EVALUATION_RUBRIC));
+    expect(result.data!.passed).toBe(result.data!.overall_score >= 70);
+
+    const [persona, prompt, schema] = generate.mock.calls[0];
+    expect(persona).toBe('PROJECT_DIRECTOR');
+    expect(schema).toBe('satire_evaluation');
+    expect(prompt).toContain('SATIRICAL FORMAT: NEWS_PARODY');
+    expect(prompt).toContain('Speciesist language normalizing animal exploitation');
+    expect(prompt).toContain('Cage-free, as long as the cage is very large');
+    generate.mockRestore();
+  });
+
+  it('keeps one score per version and charts them oldest first', async () => {
+    const strategy = await createStrategy();
+    await evaluator.evaluateArtifact(strategy.project_id, 'CREATIVE_STRATEGY', strategy.id, { agentConfig: judge });
+    await databaseService.updateCreativeStrategy(strategy.id, { creative_concept: 'Free range, within reason' });
+
+    const rubric = { ...DEFAULT_EVALUATION_RUBRIC, passing_score: 0 };
+    await evaluator.evaluateArtifact(strategy.project_id, 'CREATIVE_STRATEGY', strategy.id, { agentConfig: judge });
+    await evaluator.evaluateArtifact(strategy.project_id, 'CREATIVE_STRATEGY', strategy.id, { agentConfig: judge, rubric });
+
+    const trends = await evaluator.getQualityTrends(strategy.project_id);
+
+    expect(trends.data).toHaveLength(1);
+    expect(trends.data![0]).toMatchObject({ entity_type: 'CREATIVE_STRATEGY', label: 'Creative Strategy', latest_version: 2 });
+    expect(trends.data![0].evaluations.map(evaluation => evaluation.version)).toEqual([1, 2]);
+    expect(trends.data![0].evaluations[1]).toMatchObject({ passed: true, rubric: { passing_score: 0 } });
+  });
+
+  it('only counts weighted criteria', () => {
+    const scores = DEFAULT_EVALUATION_RUBRIC.criteria.map((config, index) => ({ criterion: config.criterion, score: index === 0 ? 10 : 2, rationale: '' }));
+    const rubric = {
+      ...DEFAULT_EVALUATION_RUBRIC,
+      criteria: DEFAULT_EVALUATION_RUBRIC.criteria.map((config, index) => ({ ...config, weight: index === 0 ? 1 : 0 }))
+    };
+
+    expect(weightedEvaluationScore(scores, rubric)).toBe(100);
+  });
+
+  it('reports versions that do not exist', async () => {
+    const strategy = await createStrategy();
+
+    const result = await evaluator.evaluateArtifact(strategy.project_id, 'CREATIVE_STRATEGY', strategy.id, { agentConfig: judge, version: 7 });
+
+    expect(result).toMatchObject({ success: false, error: 'Creative Strategy version 7 not found' });
+  });
+});
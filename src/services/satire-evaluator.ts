@@ -0,0 +1,205 @@
+// Satire Evaluator Service
+// Has a judge model score artifact versions against a configurable satirical quality rubric
+
+import {
+  APIResponse,
+  ArtifactEvaluation,
+  ArtifactQualityTrend,
+  EvaluationCriterionScore,
+  EvaluationRubric,
+  Project,
+  Revision,
+  RevisionEntityType
+} from '../shared/types/index.js';
+import {
+  EVALUATED_ARTIFACT_LABELS,
+  EVALUATION_CRITERIA,
+  EVALUATION_CRITERION_LABELS,
+  resolveEvaluationRubric,
+  weightedEvaluationScore
+} from '../shared/utils/evaluation.js';
+import { formatRevisionSnapshot } from '../shared/utils/revisions.js';
+import { databaseService } from '../database/database';
+import { AgentConfig, LLMService, createLLMService } from './llm.js';
+import { SatireEvaluationOutput } from './structured-output.js';
+
+// Long scripts are cut so the rubric and the artifact both fit comfortably in the judge's context
+const MAX_ARTIFACT_CHARS = 12000;
+
+export interface EvaluateArtifactOptions {
+  version?: number; // The latest version when omitted
+  rubric?: Partial<EvaluationRubric> | null;
+  agentConfig?: AgentConfig | null; // The judge model; the default LLM configuration when omitted
+  created_by?: string;
+}
+
+/**
+ * Scores versions of strategies, director's notes, scripts and storyboards for satirical quality
+ */
+export class SatireEvaluatorService {
+  private llmService: LLMService | null;
+
+  constructor(llmService?: LLMService) {
+    this.llmService = llmService || null;
+  }
+
+  /**
+   * Judge one version of an artifact and store the scores against that version
+   */
+  async evaluateArtifact(
+    projectId: string,
+    entityType: RevisionEntityType,
+    entityId: string,
+    options: EvaluateArtifactOptions = {}
+  ): Promise<APIResponse<ArtifactEvaluation>> {
+    const label = EVALUATED_ARTIFACT_LABELS[entityType];
+    if (!label) {
+      return { success: false, error: `${entityType} cannot be evaluated`, timestamp: new Date() };
+    }
+
+    const projectResult = await databaseService.getProjectById(projectId);
+    if (!projectResult.success || !projectResult.data) {
+      return { success: false, error: projectResult.error || 'Project not found', timestamp: new Date() };
+    }
+
+    const revisionsResult = await databaseService.getRevisions(entityType, entityId);
+    if (!revisionsResult.success) {
+      return { success: false, error: revisionsResult.error, timestamp: new Date() };
+    }
+
+    // Newest first, and only this project's
+    const revisions = (revisionsResult.data || []).filter(revision => revision.project_id === projectId);
+    const revision = options.version === undefined ? revisions[0] : revisions.find(entry => entry.version === options.version);
+    if (!revision) {
+      return {
+        success: false,
+        error: options.version === undefined ? `${label} has no saved versions to evaluate` : `${label} version ${options.version} not found`,
+        timestamp: new Date()
+      };
+    }
+
+    const rubric = resolveEvaluationRubric(options.rubric);
+    const llmService = this.getLLMService();
+    const judgement = await llmService.generateStructuredOutput<SatireEvaluationOutput>(
+      'PROJECT_DIRECTOR',
+      this.buildJudgePrompt(projectResult.data, revision, rubric),
+      'satire_evaluation',
+      { project: projectResult.data },
+      options.agentConfig
+    );
+
+    if (!judgement.success || !judgement.data) {
+      return { success: false, error: `Evaluation failed: ${judgement.error || 'No scores returned'}`, timestamp: new Date() };
+    }
+
+    const scores: EvaluationCriterionScore[] = EVALUATION_CRITERIA.map(criterion => ({
+      criterion,
+      score: judgement.data!.scores[criterion].score,
+      rationale: judgement.data!.scores[criterion].rationale.trim()
+    }));
+    const overallScore = weightedEvaluationScore(scores, rubric);
+    const { provider, model } = llmService.getModelInfo(options.agentConfig);
+
+    return databaseService.saveArtifactEvaluation({
+      project_id: projectId,
+      entity_type: entityType,
+      entity_id: entityId,
+      version: revision.version,
+      scores,
+      overall_score: overallScore,
+      passed: overallScore >= rubric.passing_score,
+      summary: judgement.data.summary.trim(),
+      rubric,
+      provider,
+      model,
+      created_by: options.created_by
+    });
+  }
+
+  /**
+   * Each versioned artifact in a project with its judged versions, for charting quality over time
+   */
+  async getQualityTrends(projectId: string): Promise<APIResponse<ArtifactQualityTrend[]>> {
+    const [revisionsResult, evaluationsResult] = await Promise.all([
+      databaseService.getLatestRevisions(projectId),
+      databaseService.getProjectEvaluations(projectId)
+    ]);
+
+    if (!revisionsResult.success || !evaluationsResult.success) {
+      return { success: false, error: revisionsResult.error || evaluationsResult.error, timestamp: new Date() };
+    }
+
+    const evaluations = evaluationsResult.data || [];
+    const artifactTypes = Object.keys(EVALUATED_ARTIFACT_LABELS) as RevisionEntityType[];
+    const latest = (revisionsResult.data || [])
+      .filter(revision => artifactTypes.includes(revision.entity_type))
+      .sort((a, b) => artifactTypes.indexOf(a.entity_type) - artifactTypes.indexOf(b.entity_type));
+
+    const trends = latest.map(revision => {
+      const sameType = latest.filter(entry => entry.entity_type === revision.entity_type);
+      const label = EVALUATED_ARTIFACT_LABELS[revision.entity_type];
+
+      return {
+        entity_type: revision.entity_type,
+        entity_id: revision.entity_id,
+        label: sameType.length > 1 ? `${label} ${sameType.indexOf(revision) + 1}` : label,
+        latest_version: revision.version,
+        evaluations: evaluations.filter(evaluation =>
+          evaluation.entity_type === revision.entity_type && evaluation.entity_id === revision.entity_id)
+      };
+    });
+
+    return {
+      success: true,
+      data: trends,
+      timestamp: new Date()
+    };
+  }
+
+  // Private helper methods
+
+  private getLLMService(): LLMService {
+    if (!this.llmService) {
+      this.llmService = createLLMService();
+    }
+    return this.llmService;
+  }
+
+  /**
+   * The rubric, the project's lens and format, and the artifact itself. The lens's full framework is
+   * added to the system prompt; targets and terminology are repeated here because criteria refer to them.
+   */
+  private buildJudgePrompt(project: Project, revision: Revision, rubric: EvaluationRubric): string {
+    const lens = project.satirical_context;
+    const artifact = formatRevisionSnapshot(revision.entity_type, revision.snapshot);
+    const truncated = artifact.length > MAX_ARTIFACT_CHARS ? `${artifact.slice(0, MAX_ARTIFACT_CHARS)}\n[...truncated]` : artifact;
+
+    const criteria = rubric.criteria.map(config =>
+      `- ${config.criterion} (${EVALUATION_CRITERION_LABELS[config.criterion]}): ${config.guidance}`).join('\n');
+    const targets = lens?.commonTargets?.length ? lens.commonTargets.map(target => `- ${target}`).join('\n') : '- None set; judge whether the satire punches up';
+    const terminology = lens?.preferredTerminology?.length
+      ? lens.preferredTerminology.map(term => `- AVOID "${term.avoid}" -> PREFER "${term.prefer}"`).join('\n')
+      : '- No terminology guidance; score on general accuracy and fairness of language';
+
+    return `Act as a strict satire editor. Judge version ${revision.version} of this project's ${EVALUATED_ARTIFACT_LABELS[revision.entity_type].toLowerCase()} against the rubric below.
+Score every criterion from 1 (fails completely) to 10 (could not be improved) and give a one or two sentence rationale that points at specific lines or choices. Finish with a short summary of what the next draft should change.
+
+SATIRICAL FORMAT: ${project.satirical_format || 'Not chosen'}
+LENS: ${lens?.name || 'None'}
+
+COMMON TARGETS:
+${targets}
+
+TERMINOLOGY:
+${terminology}
+
+RUBRIC:
+${criteria}
+
+ARTIFACT:
+${truncated}`;
+  }
+}
+
+// Export singleton instance
+export const satireEvaluatorService = new SatireEvaluatorService();
@@ -2,6 +2,7 @@
 // Manages different satirical perspectives and ethical frameworks for agents
 
 import { SatiricalContext, SatiricalContextType } from '../shared/types/index.js';
+import { lintTerminology } from '../shared/utils/terminology.js';
 
 export class SatiricalContextService {
   
@@ -203,9 +204,10 @@ export class SatiricalContextService {
     const issues: string[] = [];
     const suggestions: string[] = [];
     
-    // Check for avoided terminology
+    // Check for avoided terminology, in any of its forms
+    const matches = lintTerminology(content, context.preferredTerminology);
     context.preferredTerminology.forEach(term => {
-      if (content.toLowerCase().includes(term.avoid.toLowerCase())) {
+      if (matches.some(match => match.guidance === term)) {
         issues.push(`Uses discouraged term: "${term.avoid}"`);
         suggestions.push(`Replace "${term.avoid}" with "${term.prefer}" - ${term.reason}`);
       }
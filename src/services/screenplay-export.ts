@@ -0,0 +1,132 @@
+// Screenplay Export Service
+// Writes scripts out as Fountain, Final Draft XML or a paginated PDF, and imports Fountain files as scripts
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { databaseService } from '../database/database';
+import { APIResponse, Screenplay, ScreenplayExportFormat, Script } from '../shared/types/index.js';
+import { paginateScreenplay, parseScreenplay, renderScreenplayHtml, toFdx, toFountain } from '../shared/utils/screenplay';
+import { printHtmlToPdf } from './pdf-printer';
+
+export const SCREENPLAY_FILE_EXTENSIONS: Record<ScreenplayExportFormat, string> = {
+  FOUNTAIN: 'fountain',
+  FDX: 'fdx',
+  PDF: 'pdf'
+};
+
+export interface ScreenplayExportResult {
+  file_path: string;
+  format: ScreenplayExportFormat;
+  page_count: number;
+}
+
+export class ScreenplayExportService {
+  /**
+   * Export a script to a file in the given screenplay format
+   */
+  async exportScript(scriptId: string, format: ScreenplayExportFormat, filePath: string): Promise<APIResponse<ScreenplayExportResult>> {
+    try {
+      if (!SCREENPLAY_FILE_EXTENSIONS[format]) {
+        throw new Error(`Unsupported screenplay format: ${format}`);
+      }
+
+      const scriptResult = await databaseService.getScriptById(scriptId);
+      if (!scriptResult.success || !scriptResult.data) {
+        return { success: false, error: scriptResult.error || 'Script not found', timestamp: new Date() };
+      }
+
+      const screenplay = await this.buildScreenplay(scriptResult.data);
+      if (screenplay.elements.length === 0) {
+        return { success: false, error: 'Script has no content to export', timestamp: new Date() };
+      }
+
+      await fs.writeFile(filePath, await this.render(screenplay, format));
+
+      return {
+        success: true,
+        data: { file_path: filePath, format, page_count: paginateScreenplay(screenplay).length },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Failed to export script:', error);
+      return {
+        success: false,
+        error: `Failed to export script: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Create a new draft script in a project from a Fountain file
+   */
+  async importFountain(projectId: string, filePath: string): Promise<APIResponse<Script>> {
+    try {
+      const content = (await fs.readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+      const screenplay = parseScreenplay(content);
+      if (screenplay.elements.length === 0) {
+        return { success: false, error: `No screenplay content found in ${path.basename(filePath)}`, timestamp: new Date() };
+      }
+
+      // Scripts hang off the creative strategy until director notes are in use, as in the script editor
+      const strategy = await databaseService.getCreativeStrategy(projectId);
+
+      return await databaseService.createScript({
+        project_id: projectId,
+        director_notes_id: strategy.success && strategy.data ? strategy.data.id : '',
+        outline: screenplay.elements
+          .filter(element => element.type === 'scene_heading')
+          .map(element => element.text)
+          .join('\n') || undefined,
+        content,
+        status: 'DRAFT',
+        version: 1,
+        ai_generated: false
+      });
+    } catch (error) {
+      console.error('Failed to import Fountain script:', error);
+      return {
+        success: false,
+        error: `Failed to import Fountain script: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Render a screenplay in the given format
+   */
+  async render(screenplay: Screenplay, format: ScreenplayExportFormat): Promise<string | Buffer> {
+    switch (format) {
+      case 'FOUNTAIN':
+        return toFountain(screenplay);
+      case 'FDX':
+        return toFdx(screenplay);
+      case 'PDF':
+        return printHtmlToPdf(renderScreenplayHtml(screenplay));
+    }
+  }
+
+  // Private helper methods
+
+  private async buildScreenplay(script: Script): Promise<Screenplay> {
+    const screenplay = parseScreenplay(script.content);
+
+    // Scripts written in the editor rarely carry a title page, so default one from the project
+    if (!screenplay.title_page.title) {
+      const project = await databaseService.getProjectById(script.project_id);
+      if (project.success && project.data) {
+        screenplay.title_page = {
+          title: project.data.name,
+          'draft date': new Date(script.updated_at || script.created_at).toLocaleDateString(),
+          ...screenplay.title_page
+        };
+      }
+    }
+
+    return screenplay;
+  }
+}
+
+// Export singleton instance
+export const screenplayExportService = new ScreenplayExportService();
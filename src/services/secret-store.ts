@@ -0,0 +1,263 @@
+// Secret Store
+// Keeps AI provider API keys encrypted at rest with the OS keychain (Electron safeStorage).
+// Keys are only ever decrypted inside the main process; the renderer gets masked values and key IDs.
+
+import { safeStorage } from 'electron';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { APIKeyProvider, APIKeyStoreStatus, APIKeySummary, APIResponse } from '../shared/types';
+import { generateId } from '../shared/utils';
+import { getOpenAICompatibleApiRoot } from './model-availability';
+
+export const API_KEY_PROVIDERS: APIKeyProvider[] = ['openai', 'anthropic', 'gemini', 'openai-compatible'];
+
+const MAX_KEY_LENGTH = 512;
+
+interface StoredSecret {
+  id: string;
+  masked: string;
+  ciphertext: string; // base64 of the safeStorage-encrypted key
+  base_url?: string; // API root an openai-compatible key was saved for; it is never sent anywhere else
+  updated_at: string;
+}
+
+interface SecretFile {
+  version: 1;
+  keys: Partial<Record<APIKeyProvider, StoredSecret>>;
+}
+
+export class SecretStore {
+  private filePath: string;
+  private secrets: SecretFile | null = null;
+  private decrypted = new Map<APIKeyProvider, string>();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || path.join(os.homedir(), '.satirical-video-platform', 'api-keys.json');
+  }
+
+  /**
+   * Whether keys can be encrypted on this machine. Linux without a keyring falls back to
+   * a hard-coded password in safeStorage, which we don't treat as encryption.
+   */
+  isEncryptionAvailable(): boolean {
+    if (!safeStorage.isEncryptionAvailable()) return false;
+    return process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text';
+  }
+
+  /**
+   * Masked summaries of the stored keys, safe to send to the renderer
+   */
+  getStatus(): APIKeyStoreStatus {
+    const keys = this.load().keys;
+    return {
+      encryption_available: this.isEncryptionAvailable(),
+      keys: API_KEY_PROVIDERS
+        .filter(provider => keys[provider])
+        .map(provider => this.toSummary(provider, keys[provider]!))
+    };
+  }
+
+  /**
+   * Encrypt and store a provider's key, replacing any existing one. An openai-compatible key
+   * is bound to the endpoint it was entered for.
+   */
+  setKey(provider: string, key: string, baseUrl?: string): APIResponse<APIKeySummary> {
+    try {
+      const value = (key || '').trim();
+      if (!this.isProvider(provider)) {
+        return this.fail(`Unknown API key provider: ${provider}`);
+      }
+      if (!value || /\s/.test(value) || value.length > MAX_KEY_LENGTH) {
+        return this.fail('API key must be a single value without spaces');
+      }
+      const boundUrl = provider === 'openai-compatible' ? normalizeBaseUrl(baseUrl) : undefined;
+      if (provider === 'openai-compatible' && !boundUrl) {
+        return this.fail('An OpenAI-compatible key needs the http(s) base URL of the endpoint it belongs to');
+      }
+      if (!this.isEncryptionAvailable()) {
+        return this.fail('No OS keychain is available to encrypt API keys. Unlock or install a keyring, or set the key through an environment variable instead.');
+      }
+
+      const secrets = this.load();
+      const secret: StoredSecret = {
+        id: generateId(),
+        masked: maskKey(value),
+        ciphertext: safeStorage.encryptString(value).toString('base64'),
+        ...(boundUrl ? { base_url: boundUrl } : {}),
+        updated_at: new Date().toISOString()
+      };
+      secrets.keys[provider] = secret;
+      this.save(secrets);
+      this.decrypted.set(provider, value);
+
+      return {
+        success: true,
+        data: this.toSummary(provider, secret),
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Failed to store API key:', error);
+      return this.fail(`Failed to store API key: ${error}`);
+    }
+  }
+
+  /**
+   * Remove a provider's key
+   */
+  deleteKey(provider: string): APIResponse<void> {
+    try {
+      if (!this.isProvider(provider)) {
+        return this.fail(`Unknown API key provider: ${provider}`);
+      }
+
+      const secrets = this.load();
+      delete secrets.keys[provider];
+      this.save(secrets);
+      this.decrypted.delete(provider);
+
+      return { success: true, timestamp: new Date() };
+    } catch (error) {
+      console.error('Failed to delete API key:', error);
+      return this.fail(`Failed to delete API key: ${error}`);
+    }
+  }
+
+  /**
+   * Move keys that older versions kept in the renderer's localStorage into the store.
+   * A key already in the store is newer than a leftover plaintext one, so it is kept.
+   * An openai-compatible key is bound to the endpoint URL that was saved alongside it.
+   */
+  migrateKeys(keys: Partial<Record<string, string>>, compatibleBaseUrl?: string): APIResponse<APIKeyStoreStatus> {
+    const errors: string[] = [];
+    const stored = this.load().keys;
+
+    Object.entries(keys || {}).forEach(([provider, key]) => {
+      if (!key || !this.isProvider(provider) || stored[provider]) return;
+
+      const result = this.setKey(provider, key, compatibleBaseUrl);
+      if (!result.success) {
+        errors.push(`${provider}: ${result.error}`);
+      }
+    });
+
+    return {
+      success: errors.length === 0,
+      data: this.getStatus(),
+      error: errors.length > 0 ? `Some API keys could not be migrated - ${errors.join('; ')}` : undefined,
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * The decrypted key for a provider, for use in the main process only. An openai-compatible
+   * key is only returned for a request to the endpoint it was saved for.
+   */
+  getKey(provider: string, baseUrl?: string): string | null {
+    if (!this.isProvider(provider)) return null;
+
+    const secret = this.load().keys[provider];
+    if (!secret) return null;
+
+    if (provider === 'openai-compatible' && !isSameEndpoint(secret.base_url, baseUrl)) {
+      console.warn(`Not sending the stored ${provider} key to ${baseUrl || 'an unspecified endpoint'}: it was saved for ${secret.base_url || 'no endpoint'}`);
+      return null;
+    }
+
+    const cached = this.decrypted.get(provider);
+    if (cached) return cached;
+
+    try {
+      const key = safeStorage.decryptString(Buffer.from(secret.ciphertext, 'base64'));
+      this.decrypted.set(provider, key);
+      return key;
+    } catch (error) {
+      console.error(`Failed to decrypt ${provider} API key:`, error);
+      return null;
+    }
+  }
+
+  private load(): SecretFile {
+    if (this.secrets) return this.secrets;
+
+    this.secrets = { version: 1, keys: {} };
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (parsed && typeof parsed.keys === 'object') {
+          this.secrets.keys = parsed.keys;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to read API key store - starting with no keys:', error);
+    }
+    return this.secrets;
+  }
+
+  /**
+   * Write through a temporary file so a crash can't leave a half-written store
+   */
+  private save(secrets: SecretFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(secrets, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private isProvider(provider: string): provider is APIKeyProvider {
+    return API_KEY_PROVIDERS.includes(provider as APIKeyProvider);
+  }
+
+  private toSummary(provider: APIKeyProvider, secret: StoredSecret): APIKeySummary {
+    return {
+      id: secret.id,
+      provider,
+      masked: secret.masked,
+      base_url: secret.base_url,
+      updated_at: secret.updated_at
+    };
+  }
+
+  private fail(error: string): APIResponse<never> {
+    return {
+      success: false,
+      error,
+      timestamp: new Date()
+    };
+  }
+}
+
+/**
+ * The API root a key is bound to, or undefined for anything that isn't an http(s) URL
+ */
+function normalizeBaseUrl(baseUrl?: string): string | undefined {
+  if (!baseUrl?.trim()) return undefined;
+  try {
+    const url = new URL(baseUrl.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+    return getOpenAICompatibleApiRoot(`${url.origin}${url.pathname}`);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a request goes to the endpoint a key was bound to. Keys saved before binding existed match nothing.
+ */
+export function isSameEndpoint(boundUrl: string | undefined, baseUrl: string | undefined): boolean {
+  const bound = normalizeBaseUrl(boundUrl);
+  return !!bound && bound === normalizeBaseUrl(baseUrl);
+}
+
+/**
+ * Show just enough of a key to recognise it, e.g. "sk-…a1b2"
+ */
+function maskKey(key: string): string {
+  if (key.length <= 12) {
+    return `…${key.slice(-2)}`;
+  }
+  return `${key.slice(0, 3)}…${key.slice(-4)}`;
+}
+
+// Export singleton instance
+export const secretStore = new SecretStore();
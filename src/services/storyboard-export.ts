@@ -0,0 +1,111 @@
+// Storyboard Export Service
+// Writes a project's shots, with their sound notes and latest prompts, as a printable shot list, CSV or CMX3600 EDL
+
+import * as fs from 'fs/promises';
+import { databaseService } from '../database/database';
+import { APIResponse, ShotListExportFormat } from '../shared/types/index.js';
+import {
+  buildShotList,
+  renderShotListHtml,
+  SHOT_LIST_PRINT_MARGIN,
+  ShotListEntry,
+  ShotListOptions,
+  toCmx3600Edl,
+  toShotListCsv
+} from '../shared/utils/shot-list';
+import { printHtmlToPdf } from './pdf-printer';
+
+export const SHOT_LIST_FILE_EXTENSIONS: Record<ShotListExportFormat, string> = {
+  PDF: 'pdf',
+  HTML: 'html',
+  CSV: 'csv',
+  EDL: 'edl'
+};
+
+export interface ShotListExportResult {
+  file_path: string;
+  format: ShotListExportFormat;
+  shot_count: number;
+  total_seconds: number;
+}
+
+export class StoryboardExportService {
+  /**
+   * Export a project's storyboard to a file in the given format
+   */
+  async exportShotList(
+    projectId: string,
+    format: ShotListExportFormat,
+    filePath: string,
+    options: { fps?: number } = {}
+  ): Promise<APIResponse<ShotListExportResult>> {
+    try {
+      if (!SHOT_LIST_FILE_EXTENSIONS[format]) {
+        throw new Error(`Unsupported shot list format: ${format}`);
+      }
+
+      const entries = await this.loadShotList(projectId);
+      if (entries.length === 0) {
+        return { success: false, error: 'Storyboard has no shots to export', timestamp: new Date() };
+      }
+
+      const project = await databaseService.getProjectById(projectId);
+      const shotListOptions: ShotListOptions = { title: project.data?.name || 'Storyboard', fps: options.fps };
+
+      await fs.writeFile(filePath, await this.render(entries, format, shotListOptions));
+
+      return {
+        success: true,
+        data: {
+          file_path: filePath,
+          format,
+          shot_count: entries.length,
+          total_seconds: entries.reduce((total, entry) => total + entry.shot.length_seconds, 0)
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Failed to export shot list:', error);
+      return {
+        success: false,
+        error: `Failed to export shot list: ${error}`,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Render a shot list in the given format
+   */
+  async render(entries: ShotListEntry[], format: ShotListExportFormat, options: ShotListOptions): Promise<string | Buffer> {
+    switch (format) {
+      case 'PDF':
+        return printHtmlToPdf(renderShotListHtml(entries, options), { margin: SHOT_LIST_PRINT_MARGIN });
+      case 'HTML':
+        return renderShotListHtml(entries, options);
+      case 'CSV':
+        return toShotListCsv(entries, options);
+      case 'EDL':
+        return toCmx3600Edl(entries, options);
+    }
+  }
+
+  // Private helper methods
+
+  private async loadShotList(projectId: string): Promise<ShotListEntry[]> {
+    const [shots, soundNotes, prompts] = await Promise.all([
+      databaseService.getShots(projectId),
+      databaseService.getSoundNotes(projectId),
+      databaseService.getPrompts(projectId)
+    ]);
+
+    if (!shots.success) {
+      throw new Error(shots.error);
+    }
+
+    return buildShotList(shots.data || [], soundNotes.data || [], prompts.data || []);
+  }
+}
+
+// Export singleton instance
+export const storyboardExportService = new StoryboardExportService();
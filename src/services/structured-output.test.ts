@@ -0,0 +1,35 @@
+import Ajv from 'ajv';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { StructuredOutputService } from './structured-output';
+
+const pointSchema = {
+  type: 'object',
+  required: ['x', 'y'],
+  properties: { x: { type: 'number' }, y: { type: 'number' } }
+};
+
+describe('StructuredOutputService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('compiles a schema once however many copies of it arrive', () => {
+    const service = new StructuredOutputService();
+    const compile = vi.spyOn(Ajv.prototype, 'compile');
+
+    // Schemas sent over IPC are deserialized into a fresh object on every call
+    expect(service.validate({ x: 1, y: 2 }, structuredClone(pointSchema)).valid).toBe(true);
+    expect(service.validate({ x: 1 }, structuredClone(pointSchema)).valid).toBe(false);
+    expect(service.parse('```json\n{"x": 3, "y": 4}\n```', structuredClone(pointSchema)).data).toEqual({ x: 3, y: 4 });
+
+    expect(compile).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates a schema with an $id more than once', () => {
+    const service = new StructuredOutputService();
+    const schema = { ...pointSchema, $id: 'https://svpp.dev/schemas/point' };
+
+    expect(service.validate({ x: 1, y: 2 }, schema).valid).toBe(true);
+    expect(service.validate({ x: 'one', y: 2 }, structuredClone(schema))).toMatchObject({ valid: false });
+  });
+});
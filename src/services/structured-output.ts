@@ -0,0 +1,351 @@
+// Structured Output Service
+// JSON schemas for persona outputs and ajv validation of model responses
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import {
+  CharacterArchetype,
+  EvaluationCriterion,
+  SatiricalAngle,
+  SatiricalFormat,
+  SatiricalTone,
+  TargetAudience
+} from '../shared/types/index.js';
+
+export type StructuredOutputType = 'creative_strategy' | 'shots' | 'sound_notes' | 'video_prompt' | 'broadcaster_character' | 'satire_evaluation';
+
+export interface CreativeStrategyOutput {
+  creative_concept: string;
+  satirical_angles: SatiricalAngle[];
+  target_audience: TargetAudience;
+  tone: SatiricalTone;
+  satirical_format?: SatiricalFormat;
+  key_themes: string[];
+  character_archetypes: CharacterArchetype[];
+  visual_style_guide: {
+    color_palette?: string;
+    cinematography_notes?: string;
+    overall_aesthetic?: string;
+  };
+}
+
+export interface ShotOutput {
+  panel_number: number;
+  length_seconds: number;
+  camera_angle: string;
+  character_action: string;
+  lighting_mood: string;
+  dialogue_narration?: string;
+  visual_style: string;
+}
+
+export interface ShotsOutput {
+  shots: ShotOutput[];
+}
+
+export interface SoundNoteOutput {
+  panel_number: number; // Shot the notes belong to
+  ambient_foley: string;
+  specific_sfx: string;
+  broadcast_audio: string;
+}
+
+export interface SoundNotesOutput {
+  sound_notes: SoundNoteOutput[];
+}
+
+export interface VideoPromptOutput {
+  prompt_text: string;
+}
+
+export interface BroadcasterCharacterOutput {
+  name: string;
+  role: string;
+  visual_description: string;
+  verbal_tics: string[];
+  catchphrases: string[];
+  voice_notes: string;
+}
+
+export interface SatireEvaluationOutput {
+  scores: Record<EvaluationCriterion, { score: number; rationale: string }>;
+  summary: string;
+}
+
+export interface StructuredOutputMap {
+  creative_strategy: CreativeStrategyOutput;
+  shots: ShotsOutput;
+  sound_notes: SoundNotesOutput;
+  video_prompt: VideoPromptOutput;
+  broadcaster_character: BroadcasterCharacterOutput;
+  satire_evaluation: SatireEvaluationOutput;
+}
+
+export interface StructuredValidationResult<T> {
+  valid: boolean;
+  data?: T;
+  errors: string[];
+}
+
+const nonEmptyString = { type: 'string', minLength: 1 };
+const criterionScore = {
+  type: 'object',
+  required: ['score', 'rationale'],
+  properties: {
+    score: { type: 'integer', minimum: 1, maximum: 10 },
+    rationale: nonEmptyString
+  }
+};
+
+/**
+ * Schemas for persona outputs. Arrays are wrapped in an object so every response is a JSON object.
+ */
+export const STRUCTURED_OUTPUT_SCHEMAS: Record<StructuredOutputType, object> = {
+  creative_strategy: {
+    type: 'object',
+    required: [
+      'creative_concept',
+      'satirical_angles',
+      'target_audience',
+      'tone',
+      'key_themes',
+      'character_archetypes',
+      'visual_style_guide'
+    ],
+    properties: {
+      creative_concept: nonEmptyString,
+      satirical_angles: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['angle_type', 'description', 'key_elements'],
+          properties: {
+            angle_type: { enum: ['IRONY', 'EXAGGERATION', 'PARODY', 'SUBVERSION'] },
+            description: nonEmptyString,
+            key_elements: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      },
+      target_audience: { enum: ['GENERAL', 'POLITICAL_SATIRE', 'SOCIAL_COMMENTARY', 'MILLENNIAL', 'GEN_Z'] },
+      tone: { enum: ['SUBTLE', 'OVERT', 'ABSURDIST', 'DRY_WIT', 'SATIRICAL_NEWS'] },
+      satirical_format: {
+        enum: [
+          'NEWS_PARODY', 'VOX_POP', 'MORNING_TV_INTERVIEW', 'MOCKUMENTARY', 'SOCIAL_MEDIA',
+          'SKETCH_COMEDY', 'SATIRICAL_ARTICLE', 'PANEL_SHOW', 'COMMERCIAL_PARODY', 'REALITY_TV_PARODY'
+        ]
+      },
+      key_themes: { type: 'array', minItems: 1, items: nonEmptyString },
+      character_archetypes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'role', 'satirical_traits'],
+          properties: {
+            name: nonEmptyString,
+            role: nonEmptyString,
+            satirical_traits: { type: 'array', items: { type: 'string' } },
+            visual_description: { type: 'string' }
+          }
+        }
+      },
+      visual_style_guide: {
+        type: 'object',
+        properties: {
+          color_palette: { type: 'string' },
+          cinematography_notes: { type: 'string' },
+          overall_aesthetic: { type: 'string' }
+        }
+      }
+    }
+  },
+
+  shots: {
+    type: 'object',
+    required: ['shots'],
+    properties: {
+      shots: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['panel_number', 'length_seconds', 'camera_angle', 'character_action', 'lighting_mood', 'visual_style'],
+          properties: {
+            panel_number: { type: 'integer', minimum: 1 },
+            // Every shot must fit the 8-second AI video generation limit
+            length_seconds: { type: 'number', exclusiveMinimum: 0, maximum: 8 },
+            camera_angle: nonEmptyString,
+            character_action: nonEmptyString,
+            lighting_mood: nonEmptyString,
+            dialogue_narration: { type: 'string' },
+            visual_style: nonEmptyString
+          }
+        }
+      }
+    }
+  },
+
+  sound_notes: {
+    type: 'object',
+    required: ['sound_notes'],
+    properties: {
+      sound_notes: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['panel_number', 'ambient_foley', 'specific_sfx', 'broadcast_audio'],
+          properties: {
+            panel_number: { type: 'integer', minimum: 1 },
+            ambient_foley: { type: 'string' },
+            specific_sfx: { type: 'string' },
+            broadcast_audio: { type: 'string' }
+          }
+        }
+      }
+    }
+  },
+
+  video_prompt: {
+    type: 'object',
+    required: ['prompt_text'],
+    properties: {
+      prompt_text: { type: 'string', minLength: 1, maxLength: 2000 }
+    }
+  },
+
+  broadcaster_character: {
+    type: 'object',
+    required: ['name', 'role', 'visual_description', 'verbal_tics', 'catchphrases', 'voice_notes'],
+    properties: {
+      name: nonEmptyString,
+      role: nonEmptyString,
+      visual_description: nonEmptyString,
+      verbal_tics: { type: 'array', minItems: 1, items: nonEmptyString },
+      catchphrases: { type: 'array', minItems: 1, items: nonEmptyString },
+      voice_notes: nonEmptyString
+    }
+  },
+
+  satire_evaluation: {
+    type: 'object',
+    required: ['scores', 'summary'],
+    properties: {
+      scores: {
+        type: 'object',
+        required: ['SATIRICAL_CLARITY', 'TARGET_ACCURACY', 'TERMINOLOGY_COMPLIANCE', 'FORMAT_FIT', 'COMEDIC_ESCALATION'],
+        properties: {
+          SATIRICAL_CLARITY: criterionScore,
+          TARGET_ACCURACY: criterionScore,
+          TERMINOLOGY_COMPLIANCE: criterionScore,
+          FORMAT_FIT: criterionScore,
+          COMEDIC_ESCALATION: criterionScore
+        }
+      },
+      summary: nonEmptyString
+    }
+  }
+};
+
+/**
+ * Validates model responses against JSON schemas
+ */
+export class StructuredOutputService {
+  private ajv = new Ajv({ allErrors: true });
+  private validators: Map<string, ValidateFunction> = new Map(); // Keyed by $id or schema content
+
+  /**
+   * Resolve a registered output type to its schema; raw schemas are passed through
+   */
+  resolveSchema(schema: StructuredOutputType | object): object {
+    if (typeof schema === 'string') {
+      const registered = STRUCTURED_OUTPUT_SCHEMAS[schema];
+      if (!registered) {
+        throw new Error(`Unknown structured output type: ${schema}`);
+      }
+      return registered;
+    }
+    return schema;
+  }
+
+  /**
+   * Parse a model response and validate it against a schema
+   */
+  parse<T>(responseText: string, schema: object): StructuredValidationResult<T> {
+    let data: unknown;
+    try {
+      data = this.extractJSON(responseText);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`]
+      };
+    }
+
+    return this.validate<T>(data, schema);
+  }
+
+  /**
+   * Validate already-parsed data against a schema
+   */
+  validate<T>(data: unknown, schema: object): StructuredValidationResult<T> {
+    const validator = this.getValidator(schema);
+    if (validator(data)) {
+      return { valid: true, data: data as T, errors: [] };
+    }
+
+    return {
+      valid: false,
+      errors: this.formatErrors(validator.errors || [])
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Equal schemas share one validator even when they arrive as fresh objects. Ajv keeps every schema
+   * with an $id and refuses to compile that $id again, so those are looked up by $id.
+   */
+  private getValidator(schema: object): ValidateFunction {
+    const id = (schema as { $id?: unknown }).$id;
+    const key = typeof id === 'string' ? `$id:${id}` : JSON.stringify(schema);
+
+    let validator = this.validators.get(key);
+    if (!validator) {
+      validator = (typeof id === 'string' ? this.ajv.getSchema(id) : undefined) || this.ajv.compile(schema);
+      this.validators.set(key, validator);
+    }
+    return validator;
+  }
+
+  /**
+   * Models often wrap JSON in markdown fences or add a sentence around it, so pull out the outermost JSON value
+   */
+  private extractJSON(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = (fenced ? fenced[1] : text).trim();
+
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      const start = candidate.search(/[{[]/);
+      const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+      if (start === -1 || end <= start) {
+        throw error;
+      }
+      return JSON.parse(candidate.slice(start, end + 1));
+    }
+  }
+
+  private formatErrors(errors: ErrorObject[]): string[] {
+    return errors.map(error => {
+      const location = error.instancePath || '(root)';
+      const allowed = error.params && 'allowedValues' in error.params
+        ? ` (${(error.params.allowedValues as unknown[]).join(', ')})`
+        : '';
+      return `${location} ${error.message}${allowed}`;
+    });
+  }
+}
+
+// Export singleton instance
+export const structuredOutputService = new StructuredOutputService();
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PersonaType } from '../shared/types';
+import { AgentTool, ToolContext, ToolIntegrationService } from './tool-integration';
+
+function contextFor(persona: PersonaType): ToolContext {
+  return { projectId: 'project-1', persona, permissions: [] };
+}
+
+function echoTool(overrides: Partial<AgentTool> = {}): AgentTool {
+  return {
+    name: 'echo',
+    description: 'Returns its parameters',
+    parameters: [
+      { name: 'text', type: 'string', required: true, description: 'Text to echo' },
+      { name: 'count', type: 'number', required: false, description: 'Repeat count', validation: value => value > 0 },
+      { name: 'tags', type: 'array', required: false, description: 'Tags' }
+    ],
+    permissions: [{ resource: 'database', action: 'read' }],
+    availableFor: ['PROJECT_DIRECTOR', 'CREATIVE_STRATEGIST'],
+    execute: vi.fn(async params => ({ success: true, data: params })),
+    ...overrides
+  };
+}
+
+describe('ToolIntegrationService', () => {
+  let service: ToolIntegrationService;
+
+  beforeEach(() => {
+    service = new ToolIntegrationService();
+  });
+
+  describe('parameter validation', () => {
+    beforeEach(() => {
+      service.registerTool(echoTool());
+    });
+
+    it('passes valid parameters through to the tool', async () => {
+      const result = await service.executeTool('echo', { text: 'hi', count: 2, tags: ['a'] }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result).toEqual({ success: true, data: { text: 'hi', count: 2, tags: ['a'] } });
+    });
+
+    it('rejects a missing required parameter', async () => {
+      const result = await service.executeTool('echo', { count: 1 }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result).toEqual({ success: false, error: "Parameter validation failed: Required parameter 'text' missing" });
+    });
+
+    it('rejects a parameter of the wrong type', async () => {
+      const result = await service.executeTool('echo', { text: 42 }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result.error).toBe("Parameter validation failed: Parameter 'text' expected string, got number");
+    });
+
+    it('tells arrays apart from objects', async () => {
+      const result = await service.executeTool('echo', { text: 'hi', tags: { a: 1 } }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result.error).toBe("Parameter validation failed: Parameter 'tags' expected array, got object");
+    });
+
+    it('runs custom validators', async () => {
+      const result = await service.executeTool('echo', { text: 'hi', count: 0 }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result.error).toBe("Parameter validation failed: Parameter 'count' failed validation");
+    });
+
+    it('validates the built-in tools', async () => {
+      const result = await service.executeTool('update_workflow_state', { projectId: 'project-1', stageComplete: 'yes' }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result.error).toBe("Parameter validation failed: Parameter 'stageComplete' expected boolean, got string");
+    });
+  });
+
+  describe('permissions', () => {
+    it('reports unknown tools', async () => {
+      expect(await service.executeTool('missing', {}, contextFor('PROJECT_DIRECTOR'))).toEqual({
+        success: false,
+        error: "Tool 'missing' not found"
+      });
+    });
+
+    it('refuses tools that are not offered to the persona', async () => {
+      const result = await service.executeTool('file_operations', { operation: 'read', path: 'a.txt' }, contextFor('SATIRICAL_SCREENWRITER'));
+
+      expect(result.error).toBe("Tool 'file_operations' not available for persona 'SATIRICAL_SCREENWRITER'");
+    });
+
+    it('refuses tools whose resources the persona has not been granted', async () => {
+      const result = await service.executeTool('file_operations', { operation: 'read', path: 'a.txt' }, contextFor('VIDEO_PROMPT_ENGINEER'));
+
+      expect(result.error).toBe('Permission denied: Missing permission: filesystem:read');
+    });
+
+    it('checks permissions before running the tool', async () => {
+      const tool = echoTool({ permissions: [{ resource: 'external_api', action: 'execute' }] });
+      service.registerTool(tool);
+
+      const result = await service.executeTool('echo', { text: 'hi' }, contextFor('CREATIVE_STRATEGIST'));
+
+      expect(result.error).toBe('Permission denied: Missing permission: external_api:execute');
+      expect(tool.execute).not.toHaveBeenCalled();
+    });
+
+    it('accepts "all" grants for a resource action', async () => {
+      const result = await service.executeTool('read_project_data', { projectId: 'project-1', includeArticles: true }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result.success).toBe(true);
+      expect(result.data.articles).toHaveLength(2);
+    });
+
+    it('lists only the tools offered to a persona', () => {
+      const names = service.getAvailableTools('SOUNDSCAPE_ARCHITECT').map(tool => tool.name);
+
+      expect(names).toContain('read_project_data');
+      expect(names).not.toContain('manage_characters');
+      expect(names).not.toContain('file_operations');
+      expect(service.generateToolDocumentation('SOUNDSCAPE_ARCHITECT')).toContain('### save_creative_output');
+    });
+  });
+
+  describe('execution', () => {
+    it('turns a thrown tool error into a failed result', async () => {
+      service.registerTool(echoTool({ execute: async () => { throw new Error('disk full'); } }));
+
+      const result = await service.executeTool('echo', { text: 'hi' }, contextFor('PROJECT_DIRECTOR'));
+
+      expect(result).toEqual({ success: false, error: 'Tool execution failed: Error: disk full' });
+    });
+
+    it('records executions in the usage statistics', async () => {
+      service.registerTool(echoTool());
+      await service.executeTool('echo', { text: 'one' }, contextFor('PROJECT_DIRECTOR'));
+      await service.executeTool('echo', { text: 'two' }, contextFor('PROJECT_DIRECTOR'));
+      await service.executeTool('read_project_data', { projectId: 'project-1' }, contextFor('PROJECT_DIRECTOR'));
+
+      const stats = service.getToolUsageStatistics('PROJECT_DIRECTOR');
+
+      expect(stats.totalExecutions).toBe(3);
+      expect(stats.successRate).toBe(100);
+      expect(stats.popularTools[0]).toEqual({ name: 'echo', usage: 2 });
+      expect(service.getToolUsageStatistics('CREATIVE_STRATEGIST').totalExecutions).toBe(0);
+    });
+  });
+});
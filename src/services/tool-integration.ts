@@ -2,6 +2,8 @@
 // Standardizes how agents interact with database, files, and external services
 
 import { PersonaType, SatiricalFormat, Project } from '../shared/types/index.js';
+import { databaseService } from '../database/database';
+import { characterBibleService } from './character-bible.js';
 
 export interface AgentTool {
   name: string;
@@ -527,23 +529,74 @@ export class ToolIntegrationService {
   private async executeManageCharacters(params: any, context: ToolContext): Promise<ToolResult> {
     try {
       switch (params.action) {
-        case 'create':
-          const newCharacter = {
-            id: `char_${Date.now()}`,
-            ...params.characterData,
-            projectId: context.projectId,
-            createdBy: context.persona
+        case 'create': {
+          const data = params.characterData || {};
+          if (!data.name) {
+            return { success: false, error: 'characterData.name is required to create a character' };
+          }
+
+          const existing = await characterBibleService.findByName(context.projectId, data.name);
+          if (existing) {
+            return {
+              success: false,
+              error: `Character "${existing.name}" already exists`,
+              suggestions: ['Use the update action to change an existing character']
+            };
+          }
+
+          const result = await databaseService.createCharacter({
+            project_id: context.projectId,
+            name: data.name,
+            role: data.role || 'Unassigned',
+            description: data.description,
+            visual_description: data.visual_description || data.visualDescription || '',
+            wardrobe: data.wardrobe,
+            verbal_tics: data.verbal_tics || [],
+            catchphrases: data.catchphrases || [],
+            voice_notes: data.voice_notes || data.voice,
+            mannerisms: data.mannerisms,
+            reference_sheet: data.reference_sheet,
+            ai_generated: true,
+            persona_source: context.persona
+          });
+          return {
+            success: result.success,
+            data: result.data,
+            error: result.error,
+            suggestions: result.success ? ['Character added to the project character bible'] : undefined
           };
+        }
+
+        case 'update': {
+          if (!params.characterId) {
+            return { success: false, error: 'characterId is required to update a character' };
+          }
+
+          const current = await databaseService.getCharacterById(params.characterId);
+          if (!current.success || !current.data || current.data.project_id !== context.projectId) {
+            return { success: false, error: current.error || `Character not found: ${params.characterId}` };
+          }
+
+          const { id, project_id, created_at, ...updates } = params.characterData || {};
+          const result = await databaseService.updateCharacter(params.characterId, updates);
           return {
-            success: true,
-            data: newCharacter,
-            suggestions: ['Character created and available for consistency tracking']
+            success: result.success,
+            data: result.data,
+            error: result.error,
+            suggestions: result.success ? undefined : ['Locked characters can only be changed after a user unlocks them']
           };
+        }
+
+        case 'get': {
+          const result = await databaseService.getCharacterById(params.characterId);
+          if (!result.success || !result.data || result.data.project_id !== context.projectId) {
+            return { success: false, error: result.error || `Character not found: ${params.characterId}` };
+          }
+          return { success: true, data: result.data };
+        }
 
         case 'list':
-          const characters = [
-            { id: 'char_1', name: 'Sample Character', description: 'Example character' }
-          ];
+          const characters = await characterBibleService.getBible(context.projectId);
           return {
             success: true,
             data: characters,
@@ -0,0 +1,300 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { databaseService } from '../database/database';
+import { PersonaType, Project, Shot } from '../shared/types';
+import { QualityCheck, WorkflowError, WorkflowState, WorkflowStateMachine } from './workflow-state';
+
+const project: Project = {
+  id: 'project-1',
+  name: 'Battery Farm Bulletin',
+  status: 'ACTIVE',
+  created_by: 'user-1',
+  assigned_personas: [],
+  satirical_format: 'VOX_POP',
+  created_at: new Date()
+};
+
+const passed: QualityCheck = { passed: true, score: 80, issues: [], suggestions: [], findings: [] };
+
+const shots: Shot[] = [1, 2].map(panel => ({
+  id: `shot-${panel}`,
+  script_id: 'script-1',
+  panel_number: panel,
+  length_seconds: 6,
+  camera_angle: 'Handheld mid shot',
+  character_action: 'A shopper squints at an egg carton',
+  lighting_mood: 'Overcast',
+  visual_style: 'Street interview',
+  created_at: new Date()
+}));
+
+// Output that passes every gate of each stage of a vox pop
+const stageOutputs: Partial<Record<PersonaType, any>> = {
+  CREATIVE_STRATEGIST: {
+    creative_concept: 'Cage-free eggs, as long as the cage is very large',
+    satirical_angles: [{ angle_type: 'IRONY', description: 'Labels promise freedom the hens never see', key_elements: ['labels'] }],
+    target_audience: 'GENERAL',
+    tone: 'DRY_WIT',
+    satirical_format: 'VOX_POP',
+    key_themes: ['Greenwashing'],
+    character_archetypes: [{ name: 'The Shopper', role: 'Interviewee', satirical_traits: ['Credulous'] }],
+    visual_style_guide: { overall_aesthetic: 'Grey high street' }
+  },
+  BAFFLING_BROADCASTER: {
+    characters: [{ name: 'Derek Plinth', role: 'Roving reporter', visual_description: 'Grey suit, immovable hair', voice_notes: 'Clipped RP', catchphrases: ['Back to you'], verbal_tics: [] }]
+  },
+  SATIRICAL_SCREENWRITER: {
+    content: 'Derek thrusts a microphone at passers-by.\n\nDEREK\nAre cage-free eggs from cages?\n\nSHOPPER ONE\nOnly the big ones.\n\nSHOPPER TWO\nThey have a window, I think.\n'
+  },
+  CINEMATIC_STORYBOARDER: { shots },
+  SOUNDSCAPE_ARCHITECT: {
+    shots,
+    soundNotes: shots.map(shot => ({ id: `sound-${shot.id}`, shot_id: shot.id, ambient_foley: 'Traffic and a distant busker', created_at: new Date() }))
+  },
+  VIDEO_PROMPT_ENGINEER: {
+    shots,
+    prompts: shots.map(shot => ({
+      id: `prompt-${shot.id}`,
+      shot_id: shot.id,
+      generated_prompt_text: 'Handheld mid shot on a grey high street: a reporter in a grey suit quizzes a shopper about egg labels, overcast light, 6 seconds',
+      ai_model: 'Veo3',
+      version: 1,
+      created_at: new Date()
+    }))
+  }
+};
+
+function outputFor(state: WorkflowState): any {
+  return stageOutputs[state.currentStage.persona];
+}
+
+function failure(severity: WorkflowError['severity']): WorkflowError {
+  return { type: 'quality', severity, message: 'Output rejected', timestamp: new Date(), resolved: false };
+}
+
+describe('WorkflowStateMachine', () => {
+  let machine: WorkflowStateMachine;
+
+  beforeEach(() => {
+    machine = new WorkflowStateMachine();
+  });
+
+  it('starts at the creative strategy stage with the rest of the pipeline queued', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+
+    expect(state.currentStage.persona).toBe('CREATIVE_STRATEGIST');
+    expect(state.currentStage.status).toBe('ready');
+    expect(state.nextStage?.persona).toBe('BAFFLING_BROADCASTER');
+    expect(state.pendingStages.map(stage => stage.persona)).toEqual([
+      'SATIRICAL_SCREENWRITER',
+      'CINEMATIC_STORYBOARDER',
+      'SOUNDSCAPE_ARCHITECT',
+      'VIDEO_PROMPT_ENGINEER'
+    ]);
+    expect(state.metadata.totalStages).toBe(6);
+    expect(state.context.satiricalFormat).toBe('VOX_POP');
+    expect(state.context.formatGuidelines.format).toBe('VOX_POP');
+  });
+
+  it('reports progress before a workflow exists', async () => {
+    expect(machine.getState(project.id)).toBeNull();
+    expect(machine.getProgressSummary(machine.getState(project.id))).toMatchObject({ current: 'Not initialized', next: null, progress: 0 });
+  });
+
+  it('advances one stage per transition and records the output', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+
+    const result = await machine.transitionToNextStage(state, outputFor(state), { ...passed, score: 90 });
+
+    expect(result.success).toBe(true);
+    expect(result.nextStage?.persona).toBe('BAFFLING_BROADCASTER');
+
+    expect(state.completedStages).toHaveLength(1);
+    expect(state.completedStages[0].status).toBe('completed');
+    expect(state.completedStages[0].outputs[0]).toMatchObject({ type: 'structured', validated: true, qualityScore: 90 });
+    expect(state.currentStage.persona).toBe('BAFFLING_BROADCASTER');
+    expect(state.nextStage?.persona).toBe('SATIRICAL_SCREENWRITER');
+    expect(state.metadata.progressPercentage).toBe(17);
+    expect(state.metadata.qualityScore).toBe(90);
+    expect(state.context.sharedMemory.keyDecisions).toHaveLength(1);
+  });
+
+  it('visits every stage exactly once and finishes at 100%', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+    const visited = [state.currentStage.persona];
+
+    for (let i = 0; i < 5; i++) {
+      const result = await machine.transitionToNextStage(state, outputFor(state), passed);
+      expect(result.success).toBe(true);
+      visited.push(result.nextStage!.persona);
+    }
+
+    expect(visited).toEqual([
+      'CREATIVE_STRATEGIST',
+      'BAFFLING_BROADCASTER',
+      'SATIRICAL_SCREENWRITER',
+      'CINEMATIC_STORYBOARDER',
+      'SOUNDSCAPE_ARCHITECT',
+      'VIDEO_PROMPT_ENGINEER'
+    ]);
+    expect(machine.getProgressSummary(state).next).toBeNull();
+
+    const final = await machine.transitionToNextStage(state, outputFor(state), passed);
+    expect(final).toEqual({ success: true });
+
+    expect(state.completedStages).toHaveLength(6);
+    expect(state.metadata.progressPercentage).toBe(100);
+  });
+
+  it('stays on the current stage when a required quality gate fails', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+    state.currentStage.qualityGates.push({
+      name: 'Punchline Present',
+      description: 'Test gate',
+      validator: () => ({ passed: false, score: 10, issues: ['No punchline'], suggestions: [], findings: [] }),
+      required: true
+    });
+
+    const result = await machine.transitionToNextStage(state, stageOutputs.CREATIVE_STRATEGIST, passed);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Quality gate failed: Punchline Present. Issues: No punchline');
+    expect(state.currentStage.persona).toBe('CREATIVE_STRATEGIST');
+    expect(state.completedStages).toHaveLength(0);
+  });
+
+  it('allows fewer retries as failures get more severe', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+
+    expect(await machine.handleStageFailure(state, failure('high'))).toEqual({ shouldRetry: true, maxRetriesReached: false });
+    expect(state.currentStage.status).toBe('ready');
+
+    expect(await machine.handleStageFailure(state, failure('high'))).toEqual({ shouldRetry: false, maxRetriesReached: true });
+    expect(state.currentStage.status).toBe('failed');
+    expect(state.currentStage.errors).toHaveLength(2);
+  });
+
+  it('never retries critical failures', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+
+    expect(await machine.handleStageFailure(state, failure('critical'))).toEqual({ shouldRetry: false, maxRetriesReached: true });
+  });
+
+  it('retries low-severity failures up to three times', async () => {
+    const state = await machine.initializeWorkflow(project.id, project);
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push((await machine.handleStageFailure(state, failure('low'))).shouldRetry);
+    }
+
+    expect(results).toEqual([true, true, true, false]);
+  });
+});
+
+describe('WorkflowStateMachine persistence', () => {
+  async function createProject(name: string): Promise<Project> {
+    const result = await databaseService.createProject({ name, status: 'ACTIVE', created_by: 'user-1', assigned_personas: [], satirical_format: 'VOX_POP' });
+    return result.data!;
+  }
+
+  beforeAll(async () => {
+    await databaseService.initialize();
+  });
+
+  afterAll(() => {
+    databaseService.close();
+  });
+
+  it('rehydrates stage progress, gate results and decisions after a restart', async () => {
+    const stored = await createProject('Battery Farm Bulletin');
+    const machine = new WorkflowStateMachine();
+    const opened = await machine.openWorkflow(stored.id, stored);
+    await machine.transitionToNextStage(opened, outputFor(opened), { ...passed, score: 90 });
+    await machine.handleStageFailure(opened, failure('low'));
+
+    const restarted = new WorkflowStateMachine();
+    const state = await restarted.openWorkflow(stored.id, stored);
+
+    expect(state.completedStages.map(stage => stage.persona)).toEqual(['CREATIVE_STRATEGIST']);
+    expect(state.completedStages[0].gateResults.map(result => result.name)).toEqual(['Format Consistency', 'Quality Standard', 'Strategic Completeness', 'Terminology']);
+    expect(state.completedStages[0].completedAt).toBeInstanceOf(Date);
+    expect(state.currentStage).toMatchObject({ persona: 'BAFFLING_BROADCASTER', retryCount: 1 });
+    expect(state.currentStage.errors[0].timestamp).toBeInstanceOf(Date);
+    expect(state.currentStage.qualityGates).toHaveLength(3);
+    expect(state.nextStage?.persona).toBe('SATIRICAL_SCREENWRITER');
+    expect(state.pendingStages).toHaveLength(3);
+    expect(state.context.sharedMemory.keyDecisions[0].timestamp).toBeInstanceOf(Date);
+    expect(state.context.sharedMemory.characterDescriptions).toBeInstanceOf(Map);
+    expect(restarted.getProgress(state)).toMatchObject({ completed_count: 1, progress_percentage: 17, quality_score: 90, current_stage: 'Voiceover Development' });
+
+    const result = await restarted.transitionToNextStage(state, outputFor(state));
+    expect(result.nextStage?.persona).toBe('SATIRICAL_SCREENWRITER');
+  });
+
+  it('keeps each project\'s workflow separate', async () => {
+    const first = await createProject('First');
+    const second = await createProject('Second');
+    const machine = new WorkflowStateMachine();
+
+    const firstState = await machine.openWorkflow(first.id, first);
+    await machine.transitionToNextStage(firstState, outputFor(firstState), passed);
+    const secondState = await machine.openWorkflow(second.id, second);
+
+    expect(machine.getProgress(secondState)).toMatchObject({ project_id: second.id, current_stage: 'Creative Strategy', completed_count: 0 });
+    expect(machine.getProgress(await machine.openWorkflow(first.id, first))).toMatchObject({ project_id: first.id, current_stage: 'Voiceover Development', completed_count: 1 });
+  });
+
+  it('completes the right project\'s stage while other projects are opened mid-transition', async () => {
+    const first = await createProject('Interleaved First');
+    const second = await createProject('Interleaved Second');
+    const machine = new WorkflowStateMachine();
+    const firstState = await machine.openWorkflow(first.id, first);
+
+    // Open the other project while the first one's transition is waiting on its save
+    const transition = machine.transitionToNextStage(firstState, outputFor(firstState), passed);
+    const secondState = await machine.openWorkflow(second.id, second);
+    await transition;
+
+    expect(machine.getProgress(firstState)).toMatchObject({ project_id: first.id, completed_count: 1 });
+    expect(machine.getProgress(secondState)).toMatchObject({ project_id: second.id, completed_count: 0 });
+
+    const restarted = new WorkflowStateMachine();
+    expect((await restarted.openWorkflow(first.id, first)).completedStages).toHaveLength(1);
+    expect((await restarted.openWorkflow(second.id, second)).completedStages).toHaveLength(0);
+  });
+
+  it('restores a finished workflow with every stage completed once', async () => {
+    const stored = await createProject('Finished');
+    const machine = new WorkflowStateMachine();
+    const opened = await machine.openWorkflow(stored.id, stored);
+    for (let i = 0; i < 6; i++) {
+      await machine.transitionToNextStage(opened, outputFor(opened), passed);
+    }
+
+    const restarted = new WorkflowStateMachine();
+    const state = await restarted.openWorkflow(stored.id, stored);
+
+    expect(state.completedStages).toHaveLength(6);
+    expect(state.nextStage).toBeNull();
+    expect(restarted.getProgress(state).stages.map(stage => stage.status)).toEqual(Array(6).fill('completed'));
+    expect(restarted.canProceedToNext(state)).toBe(false);
+  });
+
+  it('records failed gate results on the stage and flags it for review', async () => {
+    const stored = await createProject('Flat');
+    const machine = new WorkflowStateMachine();
+    const state = await machine.openWorkflow(stored.id, stored);
+    state.currentStage.qualityGates.push({
+      name: 'Punchline Present',
+      description: 'Test gate',
+      validator: () => ({ passed: false, score: 10, issues: ['No punchline'], suggestions: ['Add a reveal'], findings: [] }),
+      required: true
+    });
+
+    await machine.transitionToNextStage(state, stageOutputs.CREATIVE_STRATEGIST, passed);
+
+    const stage = (await new WorkflowStateMachine().openWorkflow(stored.id, stored)).currentStage;
+    expect(stage.status).toBe('review_required');
+    expect(stage.gateResults.find(result => result.name === 'Punchline Present')).toMatchObject({ passed: false, issues: ['No punchline'] });
+  });
+});
@@ -1,7 +1,19 @@
 // Workflow State Management Service
 // LangChain-inspired state management for agent orchestration
 
-import { PersonaType, SatiricalFormat, Project } from '../shared/types/index.js';
+import { PersonaType, SatiricalFormat, Project, WorkflowGateFinding, WorkflowGateResult, WorkflowProgress, WorkflowStageStatus } from '../shared/types/index.js';
+import { databaseService } from '../database/database';
+import {
+  validate8SecondConstraint,
+  validateAudioCompleteness,
+  validateFormatConsistency,
+  validatePromptOptimization,
+  validateQualityStandard,
+  validateScriptStructure,
+  validateStrategyCompleteness,
+  validateTerminology,
+  validateVoiceConsistency
+} from './quality-gates';
 
 export interface WorkflowState {
   id: string;
@@ -23,6 +35,7 @@ export interface WorkflowStage {
   requirements: string[];
   outputs: StageOutput[];
   qualityGates: QualityGate[];
+  gateResults: WorkflowGateResult[]; // From the latest attempt to complete the stage
   estimatedDuration: number; // minutes
   actualDuration?: number;
   startedAt?: Date;
@@ -89,6 +102,7 @@ export interface QualityCheck {
   score: number; // 0-100
   issues: string[];
   suggestions: string[];
+  findings: WorkflowGateFinding[]; // Per-item report behind the issues, most severe first
 }
 
 export interface WorkflowError {
@@ -124,22 +138,62 @@ export interface UserPreference {
   appliedAt: string[];
 }
 
-export type StageStatus = 
-  | 'not_started' 
-  | 'ready' 
-  | 'in_progress' 
-  | 'review_required' 
-  | 'completed' 
-  | 'failed' 
-  | 'blocked';
+export type StageStatus = WorkflowStageStatus;
+
+// What is written to the database. Quality gates hold validator functions, so they are rebuilt from each
+// stage's persona on load; dates come back as ISO strings.
+export interface StoredWorkflowState {
+  id: string;
+  projectId: string;
+  stages: Omit<WorkflowStage, 'qualityGates'>[]; // In pipeline order
+  currentStageIndex: number;
+  context: Omit<ProjectContext, 'sharedMemory'> & {
+    sharedMemory: Omit<ConversationMemory, 'characterDescriptions'> & { characterDescriptions: Record<string, string> };
+  };
+  metadata: WorkflowMetadata;
+  createdAt: Date;
+  updatedAt: Date;
+}
 
 /**
  * Workflow State Machine for Agent Orchestration
- * Manages progression through the satirical video production pipeline
+ * Manages progression through the satirical video production pipeline.
+ * Each project has its own workflow, saved after every change while the database is available.
  */
 export class WorkflowStateMachine {
-  private currentState: WorkflowState | null = null;
-  private stateHistory: WorkflowState[] = [];
+  // Requests for different projects interleave, so every operation is handed the workflow it works on
+  private states = new Map<string, WorkflowState>();
+
+  /**
+   * Get a project's workflow, rehydrating it from the database or starting a new one
+   */
+  async openWorkflow(projectId: string, project: Project): Promise<WorkflowState> {
+    let state = this.states.get(projectId);
+    if (!state) {
+      const loaded = await this.loadWorkflow(projectId);
+      // Another request may have opened the workflow while this one was loading
+      state = this.states.get(projectId) || loaded || undefined;
+    }
+    if (!state) {
+      return this.initializeWorkflow(projectId, project);
+    }
+
+    state.context.project = project;
+    this.states.set(projectId, state);
+
+    // Gates check against the chosen format, so they follow the project when it changes
+    const format = project.satirical_format || 'NEWS_PARODY';
+    if (format !== state.context.satiricalFormat) {
+      state.context.satiricalFormat = format;
+      state.context.formatGuidelines = this.createFormatGuidelines(format);
+      this.orderedStages(state).forEach(stage => {
+        stage.qualityGates = this.createQualityGates(stage.persona, format);
+      });
+      await this.saveWorkflow(state);
+    }
+
+    return state;
+  }
 
   /**
    * Initialize workflow for a new project
@@ -171,7 +225,7 @@ export class WorkflowStateMachine {
       currentStage: stages[0],
       nextStage: stages[1] || null,
       completedStages: [],
-      pendingStages: stages.slice(1),
+      pendingStages: stages.slice(2), // Stages after the next one
       context,
       metadata: {
         totalStages: stages.length,
@@ -185,32 +239,34 @@ export class WorkflowStateMachine {
       updatedAt: new Date()
     };
 
-    this.currentState = workflowState;
-    this.stateHistory.push({ ...workflowState });
+    this.states.set(projectId, workflowState);
+    await this.saveWorkflow(workflowState);
 
     return workflowState;
   }
 
   /**
-   * Transition to the next workflow stage
+   * Transition to the next workflow stage. Without a quality check, the stage's own gate results are used.
    */
   async transitionToNextStage(
+    state: WorkflowState,
     completedOutput: any,
-    qualityCheck: QualityCheck
+    qualityCheck?: QualityCheck
   ): Promise<{ success: boolean; nextStage?: WorkflowStage; error?: string }> {
-    if (!this.currentState) {
-      return { success: false, error: 'No active workflow state' };
-    }
-
     try {
       // Validate completion requirements
-      const currentStage = this.currentState.currentStage;
-      const validationResult = await this.validateStageCompletion(currentStage, completedOutput);
+      const currentStage = state.currentStage;
+      const validationResult = await this.validateStageCompletion(state, currentStage, completedOutput);
       
       if (!validationResult.valid) {
+        currentStage.status = 'review_required';
+        state.updatedAt = new Date();
+        await this.saveWorkflow(state);
         return { success: false, error: validationResult.reason };
       }
 
+      qualityCheck = qualityCheck || this.combineGateResults(currentStage.gateResults);
+
       // Update current stage as completed
       currentStage.status = 'completed';
       currentStage.completedAt = new Date();
@@ -225,17 +281,18 @@ export class WorkflowStateMachine {
       });
 
       // Move stage to completed
-      this.currentState.completedStages.push(currentStage);
+      state.completedStages.push(currentStage);
 
       // Update shared context with new information
-      await this.updateSharedContext(completedOutput, currentStage.persona);
+      await this.updateSharedContext(state, completedOutput, currentStage.persona);
 
       // Determine next stage
-      const nextStage = this.currentState.nextStage;
+      const nextStage = state.nextStage;
       if (!nextStage) {
         // Workflow complete
-        this.currentState.currentStage.status = 'completed';
-        this.currentState.metadata.progressPercentage = 100;
+        state.updatedAt = new Date();
+        this.updateWorkflowMetadata(state);
+        await this.saveWorkflow(state);
         return { success: true };
       }
 
@@ -243,15 +300,14 @@ export class WorkflowStateMachine {
       nextStage.status = 'ready';
       nextStage.startedAt = new Date();
       
-      this.currentState.currentStage = nextStage;
-      this.currentState.nextStage = this.currentState.pendingStages.shift() || null;
-      this.currentState.updatedAt = new Date();
+      state.currentStage = nextStage;
+      state.nextStage = state.pendingStages.shift() || null;
+      state.updatedAt = new Date();
 
       // Update metadata
-      this.updateWorkflowMetadata();
+      this.updateWorkflowMetadata(state);
 
-      // Save state to history
-      this.stateHistory.push({ ...this.currentState });
+      await this.saveWorkflow(state);
 
       console.log(`🎯 Workflow transition: ${currentStage.name} → ${nextStage.name}`);
 
@@ -264,33 +320,62 @@ export class WorkflowStateMachine {
   }
 
   /**
-   * Get current workflow state
+   * Get a project's workflow if it has been opened
    */
-  getCurrentState(): WorkflowState | null {
-    return this.currentState;
+  getState(projectId: string): WorkflowState | null {
+    return this.states.get(projectId) || null;
+  }
+
+  /**
+   * Summarize a workflow for the renderer
+   */
+  getProgress(state: WorkflowState): WorkflowProgress {
+    const stages = this.orderedStages(state);
+
+    return {
+      project_id: state.projectId,
+      workflow_id: state.id,
+      current_stage: state.currentStage.name,
+      next_stage: state.nextStage?.name || null,
+      stages: stages.map(stage => ({
+        name: stage.name,
+        persona: stage.persona,
+        status: stage.status,
+        quality_score: stage.status === 'completed' && stage.outputs.length > 0 ? stage.outputs[stage.outputs.length - 1].qualityScore : null,
+        gate_results: stage.gateResults,
+        retry_count: stage.retryCount,
+        last_error: stage.errors.length > 0 ? stage.errors[stage.errors.length - 1].message : undefined,
+        started_at: stage.startedAt,
+        completed_at: stage.completedAt
+      })),
+      completed_count: state.completedStages.length,
+      progress_percentage: state.metadata.progressPercentage,
+      quality_score: state.metadata.qualityScore,
+      key_decisions: state.context.sharedMemory.keyDecisions
+        .map(({ stage, decision, reasoning, timestamp }) => ({ stage, decision, reasoning, timestamp }))
+        .reverse(),
+      updated_at: state.updatedAt
+    };
   }
 
   /**
    * Check if workflow can proceed to next stage
    */
-  canProceedToNext(): boolean {
-    if (!this.currentState) return false;
-    
-    const currentStage = this.currentState.currentStage;
-    return currentStage.status === 'completed' && this.currentState.nextStage !== null;
+  canProceedToNext(state: WorkflowState): boolean {
+    return state.currentStage.status === 'completed' && state.nextStage !== null;
   }
 
   /**
    * Get workflow progress summary
    */
-  getProgressSummary(): {
+  getProgressSummary(state: WorkflowState | null): {
     current: string;
     next: string | null;
     progress: number;
     qualityScore: number;
     estimatedCompletion: Date;
   } {
-    if (!this.currentState) {
+    if (!state) {
       return {
         current: 'Not initialized',
         next: null,
@@ -301,21 +386,19 @@ export class WorkflowStateMachine {
     }
 
     return {
-      current: this.currentState.currentStage.name,
-      next: this.currentState.nextStage?.name || null,
-      progress: this.currentState.metadata.progressPercentage,
-      qualityScore: this.currentState.metadata.qualityScore,
-      estimatedCompletion: this.currentState.metadata.estimatedCompletion
+      current: state.currentStage.name,
+      next: state.nextStage?.name || null,
+      progress: state.metadata.progressPercentage,
+      qualityScore: state.metadata.qualityScore,
+      estimatedCompletion: state.metadata.estimatedCompletion
     };
   }
 
   /**
    * Handle stage failure and retry logic
    */
-  async handleStageFailure(error: WorkflowError): Promise<{ shouldRetry: boolean; maxRetriesReached: boolean }> {
-    if (!this.currentState) return { shouldRetry: false, maxRetriesReached: false };
-
-    const currentStage = this.currentState.currentStage;
+  async handleStageFailure(state: WorkflowState, error: WorkflowError): Promise<{ shouldRetry: boolean; maxRetriesReached: boolean }> {
+    const currentStage = state.currentStage;
     currentStage.errors.push(error);
     currentStage.retryCount++;
 
@@ -330,13 +413,16 @@ export class WorkflowStateMachine {
       console.warn(`🔄 Retrying stage ${currentStage.name} (attempt ${currentStage.retryCount}/${maxRetries})`);
     }
 
+    state.updatedAt = new Date();
+    await this.saveWorkflow(state);
+
     return { shouldRetry, maxRetriesReached: !shouldRetry };
   }
 
   // Private helper methods
 
   private createWorkflowStages(format: SatiricalFormat): WorkflowStage[] {
-    const baseStages: Omit<WorkflowStage, 'qualityGates'>[] = [
+    const baseStages: Omit<WorkflowStage, 'qualityGates' | 'gateResults'>[] = [
       {
         name: 'Creative Strategy',
         persona: 'CREATIVE_STRATEGIST',
@@ -402,7 +488,8 @@ export class WorkflowStateMachine {
     // Add format-specific quality gates
     return baseStages.map(stage => ({
       ...stage,
-      qualityGates: this.createQualityGates(stage.persona, format)
+      qualityGates: this.createQualityGates(stage.persona, format),
+      gateResults: []
     }));
   }
 
@@ -411,31 +498,39 @@ export class WorkflowStateMachine {
       {
         name: 'Format Consistency',
         description: `Output aligns with ${format} format requirements`,
-        validator: (output, context) => this.validateFormatConsistency(output, context.satiricalFormat),
+        validator: (output, context) => validateFormatConsistency(output, context.satiricalFormat),
         required: true
       },
       {
         name: 'Quality Standard',
         description: 'Output meets minimum quality standards',
-        validator: (output, context) => this.validateQualityStandard(output),
+        validator: (output) => validateQualityStandard(output),
         required: true
       }
     ];
 
+    const terminologyGate: QualityGate = {
+      name: 'Terminology',
+      description: "Avoids the terms the project's satirical lens rules out",
+      validator: (output, context) => validateTerminology(output, persona, context.project.satirical_context?.preferredTerminology),
+      required: true
+    };
+
     const personaGates: Record<PersonaType, QualityGate[]> = {
       'CREATIVE_STRATEGIST': [
         {
           name: 'Strategic Completeness',
           description: 'All required strategy elements present',
-          validator: (output, context) => this.validateStrategyCompleteness(output),
+          validator: (output) => validateStrategyCompleteness(output),
           required: true
-        }
+        },
+        terminologyGate
       ],
       'BAFFLING_BROADCASTER': [
         {
           name: 'Voice Character Consistency',
           description: 'Broadcaster character maintained throughout',
-          validator: (output, context) => this.validateVoiceConsistency(output),
+          validator: (output) => validateVoiceConsistency(output),
           required: true
         }
       ],
@@ -443,23 +538,25 @@ export class WorkflowStateMachine {
         {
           name: 'Script Structure',
           description: 'Proper script formatting and structure',
-          validator: (output, context) => this.validateScriptStructure(output),
+          validator: (output, context) => validateScriptStructure(output, context.satiricalFormat),
           required: true
-        }
+        },
+        terminologyGate
       ],
       'CINEMATIC_STORYBOARDER': [
         {
           name: '8-Second Constraint',
           description: 'All shots comply with 8-second maximum',
-          validator: (output, context) => this.validate8SecondConstraint(output),
+          validator: (output) => validate8SecondConstraint(output),
           required: true
-        }
+        },
+        terminologyGate
       ],
       'SOUNDSCAPE_ARCHITECT': [
         {
           name: 'Audio Completeness',
           description: 'Sound notes provided for all shots',
-          validator: (output, context) => this.validateAudioCompleteness(output),
+          validator: (output) => validateAudioCompleteness(output),
           required: true
         }
       ],
@@ -467,9 +564,10 @@ export class WorkflowStateMachine {
         {
           name: 'Prompt Optimization',
           description: 'AI prompts optimized for video generation',
-          validator: (output, context) => this.validatePromptOptimization(output),
+          validator: (output) => validatePromptOptimization(output),
           required: true
-        }
+        },
+        terminologyGate
       ],
       'PROJECT_DIRECTOR': []
     };
@@ -564,63 +662,39 @@ export class WorkflowStateMachine {
     return guidelines[format];
   }
 
-  // Validation methods
-  private validateFormatConsistency(output: any, format: SatiricalFormat): QualityCheck {
-    // Implementation would check format-specific requirements
-    return { passed: true, score: 85, issues: [], suggestions: [] };
-  }
-
-  private validateQualityStandard(output: any): QualityCheck {
-    // Implementation would check general quality metrics
-    return { passed: true, score: 80, issues: [], suggestions: [] };
-  }
-
-  private validateStrategyCompleteness(output: any): QualityCheck {
-    // Check for required strategy elements
-    return { passed: true, score: 90, issues: [], suggestions: [] };
-  }
-
-  private validateVoiceConsistency(output: any): QualityCheck {
-    return { passed: true, score: 85, issues: [], suggestions: [] };
-  }
-
-  private validateScriptStructure(output: any): QualityCheck {
-    return { passed: true, score: 88, issues: [], suggestions: [] };
-  }
-
-  private validate8SecondConstraint(output: any): QualityCheck {
-    return { passed: true, score: 95, issues: [], suggestions: [] };
-  }
-
-  private validateAudioCompleteness(output: any): QualityCheck {
-    return { passed: true, score: 87, issues: [], suggestions: [] };
-  }
-
-  private validatePromptOptimization(output: any): QualityCheck {
-    return { passed: true, score: 92, issues: [], suggestions: [] };
-  }
-
   private async validateStageCompletion(
+    state: WorkflowState,
     stage: WorkflowStage,
     output: any
   ): Promise<{ valid: boolean; reason?: string }> {
-    // Check all required quality gates
-    for (const gate of stage.qualityGates.filter(g => g.required)) {
-      const check = gate.validator(output, this.currentState!.context);
-      if (!check.passed) {
-        return { 
-          valid: false, 
-          reason: `Quality gate failed: ${gate.name}. Issues: ${check.issues.join(', ')}` 
-        };
-      }
+    // Run every gate so the stage keeps the full picture, then check the required ones
+    stage.gateResults = stage.qualityGates.map(gate => {
+      const check = gate.validator(output, state.context);
+      return { name: gate.name, required: gate.required, ...check };
+    });
+
+    const failed = stage.gateResults.find(result => result.required && !result.passed);
+    if (failed) {
+      return {
+        valid: false,
+        reason: `Quality gate failed: ${failed.name}. Issues: ${failed.issues.join(', ')}`
+      };
     }
     return { valid: true };
   }
 
-  private async updateSharedContext(output: any, persona: PersonaType): Promise<void> {
-    if (!this.currentState) return;
+  private combineGateResults(results: WorkflowGateResult[]): QualityCheck {
+    return {
+      passed: results.every(result => result.passed || !result.required),
+      score: results.length > 0 ? Math.round(results.reduce((sum, result) => sum + result.score, 0) / results.length) : 0,
+      issues: results.flatMap(result => result.issues),
+      suggestions: results.flatMap(result => result.suggestions),
+      findings: results.flatMap(result => result.findings)
+    };
+  }
 
-    const memory = this.currentState.context.sharedMemory;
+  private async updateSharedContext(state: WorkflowState, output: any, persona: PersonaType): Promise<void> {
+    const memory = state.context.sharedMemory;
 
     // Update memory based on persona and output
     if (persona === 'CREATIVE_STRATEGIST' && output.characters) {
@@ -631,7 +705,7 @@ export class WorkflowStateMachine {
 
     // Add key decisions
     memory.keyDecisions.push({
-      stage: this.currentState.currentStage.name,
+      stage: state.currentStage.name,
       decision: `${persona} completed: ${this.summarizeOutput(output)}`,
       reasoning: 'Agent workflow progression',
       impact: 'Advances project to next stage',
@@ -639,7 +713,7 @@ export class WorkflowStateMachine {
     });
 
     // Update context summary
-    memory.contextSummary = this.generateContextSummary();
+    memory.contextSummary = this.generateContextSummary(state);
   }
 
   private summarizeOutput(output: any): string {
@@ -649,12 +723,10 @@ export class WorkflowStateMachine {
     return JSON.stringify(output).substring(0, 100) + '...';
   }
 
-  private generateContextSummary(): string {
-    if (!this.currentState) return '';
-
-    const completed = this.currentState.completedStages.map(s => s.name).join(', ');
-    const current = this.currentState.currentStage.name;
-    const format = this.currentState.context.satiricalFormat;
+  private generateContextSummary(state: WorkflowState): string {
+    const completed = state.completedStages.map(s => s.name).join(', ');
+    const current = state.currentStage.name;
+    const format = state.context.satiricalFormat;
 
     return `Project using ${format} format. Completed: ${completed}. Current: ${current}.`;
   }
@@ -665,25 +737,23 @@ export class WorkflowStateMachine {
     return 'file';
   }
 
-  private updateWorkflowMetadata(): void {
-    if (!this.currentState) return;
-
-    const totalStages = this.currentState.metadata.totalStages;
-    const completed = this.currentState.completedStages.length;
-    this.currentState.metadata.progressPercentage = Math.round((completed / totalStages) * 100);
+  private updateWorkflowMetadata(state: WorkflowState): void {
+    const totalStages = state.metadata.totalStages;
+    const completed = state.completedStages.length;
+    state.metadata.progressPercentage = Math.round((completed / totalStages) * 100);
 
     // Update quality score based on completed stages
-    const qualityScores = this.currentState.completedStages
+    const qualityScores = state.completedStages
       .flatMap(stage => stage.outputs.map(output => output.qualityScore))
       .filter(score => score > 0);
     
     if (qualityScores.length > 0) {
-      this.currentState.metadata.qualityScore = Math.round(
+      state.metadata.qualityScore = Math.round(
         qualityScores.reduce((sum, score) => sum + score, 0) / qualityScores.length
       );
     }
 
-    this.currentState.metadata.lastHealthCheck = new Date();
+    state.metadata.lastHealthCheck = new Date();
   }
 
   private calculateEstimatedCompletion(stages: WorkflowStage[]): Date {
@@ -696,6 +766,102 @@ export class WorkflowStateMachine {
     return retryMap[severity];
   }
 
+  /**
+   * Every stage in pipeline order. The last stage stays current once completed, so it is only listed once.
+   */
+  private orderedStages(state: WorkflowState): WorkflowStage[] {
+    const stages = [...state.completedStages];
+    if (!stages.includes(state.currentStage)) stages.push(state.currentStage);
+    if (state.nextStage) stages.push(state.nextStage);
+    return [...stages, ...state.pendingStages];
+  }
+
+  private async loadWorkflow(projectId: string): Promise<WorkflowState | null> {
+    if (!databaseService.isInitialized()) return null;
+
+    const result = await databaseService.getWorkflowState(projectId);
+    if (!result.success || !result.data) return null;
+
+    try {
+      return this.fromStoredState(result.data);
+    } catch (error) {
+      console.error(`Unreadable workflow state for project ${projectId}, starting over:`, error);
+      return null;
+    }
+  }
+
+  private async saveWorkflow(state: WorkflowState): Promise<void> {
+    if (!databaseService.isInitialized()) return;
+
+    const result = await databaseService.saveWorkflowState(state.projectId, state.id, this.toStoredState(state));
+    if (!result.success) {
+      console.error(`Failed to save workflow for project ${state.projectId}:`, result.error);
+    }
+  }
+
+  private toStoredState(state: WorkflowState): StoredWorkflowState {
+    const stages = this.orderedStages(state);
+    const { sharedMemory, ...context } = state.context;
+
+    return {
+      id: state.id,
+      projectId: state.projectId,
+      stages: stages.map(({ qualityGates, ...stage }) => stage),
+      currentStageIndex: stages.indexOf(state.currentStage),
+      context: {
+        ...context,
+        sharedMemory: { ...sharedMemory, characterDescriptions: Object.fromEntries(sharedMemory.characterDescriptions) }
+      },
+      metadata: state.metadata,
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt
+    };
+  }
+
+  private fromStoredState(stored: StoredWorkflowState): WorkflowState {
+    const toDate = (value?: Date | string) => value ? new Date(value) : undefined;
+    const { sharedMemory, ...context } = stored.context;
+
+    const stages: WorkflowStage[] = stored.stages.map(stage => ({
+      ...stage,
+      startedAt: toDate(stage.startedAt),
+      completedAt: toDate(stage.completedAt),
+      errors: stage.errors.map(error => ({ ...error, timestamp: new Date(error.timestamp) })),
+      gateResults: (stage.gateResults || []).map(result => ({ ...result, findings: result.findings || [] })),
+      qualityGates: this.createQualityGates(stage.persona, context.satiricalFormat)
+    }));
+    const index = stored.currentStageIndex;
+    const currentStage = stages[index];
+
+    if (!currentStage) {
+      throw new Error(`No stage at index ${index}`);
+    }
+
+    return {
+      id: stored.id,
+      projectId: stored.projectId,
+      currentStage,
+      nextStage: stages[index + 1] || null,
+      completedStages: currentStage.status === 'completed' ? stages.slice(0, index + 1) : stages.slice(0, index),
+      pendingStages: stages.slice(index + 2),
+      context: {
+        ...context,
+        sharedMemory: {
+          ...sharedMemory,
+          keyDecisions: sharedMemory.keyDecisions.map(decision => ({ ...decision, timestamp: new Date(decision.timestamp) })),
+          characterDescriptions: new Map(Object.entries(sharedMemory.characterDescriptions))
+        }
+      },
+      metadata: {
+        ...stored.metadata,
+        estimatedCompletion: new Date(stored.metadata.estimatedCompletion),
+        lastHealthCheck: new Date(stored.metadata.lastHealthCheck)
+      },
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt)
+    };
+  }
+
   private generateWorkflowId(): string {
     return `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
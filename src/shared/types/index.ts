@@ -20,8 +20,32 @@ export interface SatiricalContext {
   ethicalFramework: string;
   keyPrinciples: string[];
   commonTargets: string[];
-  preferredTerminology: { avoid: string; prefer: string; reason: string }[];
+  preferredTerminology: TerminologyGuidance[];
   satiricalApproaches: string[];
+  lensId?: string; // The library lens a CUSTOM context was applied from
+}
+
+export interface TerminologyGuidance {
+  avoid: string; // "/" separates alternatives, e.g. "humane meat/dairy"
+  prefer: string; // " or " separates alternative replacements; parenthetical asides are not part of them
+  reason: string;
+}
+
+// A user-authored lens kept in the library so it can be applied to any project
+export interface SatiricalLens {
+  id: string;
+  context: SatiricalContext; // Always CUSTOM
+  created_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+// What a lens export file holds, so lenses can be shared between installations
+export interface SatiricalLensFile {
+  format: 'satirical-lens';
+  version: number;
+  exported_at: string;
+  lens: SatiricalContext;
 }
 
 export interface User {
@@ -58,10 +82,25 @@ export interface NewsArticle {
   project_id: string; // Project ID
   file_name?: string; // Original filename if uploaded as file
   file_type?: string; // MIME type if uploaded as file
+  headline?: string; // Headline as published, extracted from the file
+  byline?: string;
+  published_date?: Date;
   created_at: Date;
   updated_at?: Date;
 }
 
+export type ArticleFileFormat = 'TEXT' | 'PDF' | 'DOCX' | 'HTML' | 'MARKDOWN' | 'RTF';
+
+export interface ArticleExtraction {
+  format: ArticleFileFormat;
+  text: string; // Article body with boilerplate removed
+  headline?: string;
+  byline?: string;
+  published_date?: Date;
+  word_count: number;
+  warnings: string[];
+}
+
 // Creative Strategy Types
 export type CreativeStrategyStatus = 'DRAFT' | 'IN_REVIEW' | 'APPROVED' | 'NEEDS_REVISION';
 export type SatiricalTone = 'SUBTLE' | 'OVERT' | 'ABSURDIST' | 'DRY_WIT' | 'SATIRICAL_NEWS';
@@ -148,6 +187,143 @@ export interface Script {
   updated_at?: Date;
 }
 
+// Screenplay structure parsed from Script.content (Fountain syntax, plus "NAME: line" dialogue)
+export type ScreenplayElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition'
+  | 'centered'
+  | 'section'
+  | 'synopsis'
+  | 'page_break';
+
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+  scene_number?: string;
+  dual?: boolean; // Character cue of the second speaker in dual dialogue
+}
+
+export interface Screenplay {
+  title_page: Record<string, string>; // Lower-cased Fountain keys, e.g. title, credit, author, draft date
+  elements: ScreenplayElement[];
+}
+
+export type ScreenplayExportFormat = 'FOUNTAIN' | 'FDX' | 'PDF';
+
+export type ShotListExportFormat = 'PDF' | 'HTML' | 'CSV' | 'EDL';
+
+// Immutable revision history; every content change to a versioned entity is kept as a numbered snapshot
+export type RevisionEntityType = 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD';
+
+export interface Revision {
+  id: string;
+  project_id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  version: number;
+  snapshot: Record<string, any>; // The entity's versioned fields at this version
+  change_note?: string;
+  restored_from_version?: number;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface RevisionOptions {
+  revision?: boolean; // false saves a working copy without recording a revision (e.g. editor auto-save)
+  change_note?: string;
+  created_by?: string;
+  restored_from_version?: number;
+}
+
+export type ProjectRole = 'DIRECTOR' | 'WRITER' | 'STORYBOARDER' | 'SOUND' | 'VIEWER';
+export type ProjectPermission =
+  | 'project:manage' // Settings, lens, format, team, export and delete
+  | 'articles:edit'
+  | 'strategy:edit' // Creative strategy and director's notes
+  | 'script:edit'
+  | 'characters:edit'
+  | 'storyboard:edit' // Storyboard and shots
+  | 'sound:edit'
+  | 'prompts:edit'
+  | 'approvals:review'
+  | 'comments:write'
+  | 'ai:use'; // Persona conversations
+
+export interface ProjectMember {
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  user?: User; // Without password hash
+  added_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+export interface ProjectAccess {
+  project_id: string;
+  user: User | null; // The signed-in user; null when signed out
+  role: ProjectRole | null; // null when the user isn't on the project
+  permissions: ProjectPermission[];
+}
+
+export type ApprovalEntityType = 'CREATIVE_STRATEGY' | 'SCRIPT' | 'STORYBOARD' | 'SOUND_DESIGN';
+export type ApprovalStatus = 'DRAFT' | 'IN_REVIEW' | 'APPROVED' | 'NEEDS_REVISION';
+export type ApprovalAction = 'SUBMIT' | 'APPROVE' | 'REQUEST_CHANGES';
+export type ApprovalEventAction = ApprovalAction | 'REVISE'; // REVISE: the content was edited while in review or approved
+
+export interface Approval {
+  id: string;
+  project_id: string;
+  entity_type: ApprovalEntityType;
+  entity_id: string; // The project itself for SOUND_DESIGN
+  status: ApprovalStatus;
+  reviewer_id?: string;
+  submitted_by?: string;
+  submitted_at?: Date;
+  decided_by?: string;
+  decided_at?: Date;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+export interface ApprovalEvent {
+  id: string;
+  approval_id: string;
+  project_id: string;
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  action: ApprovalEventAction;
+  from_status: ApprovalStatus;
+  to_status: ApprovalStatus;
+  user_id: string;
+  reviewer_id?: string;
+  comment?: string;
+  created_at: Date;
+}
+
+export interface ApprovalState {
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  status: ApprovalStatus; // DRAFT until first submitted
+  approval: Approval | null;
+  events: ApprovalEvent[]; // Audit trail, newest first
+  blocked_by: ApprovalEntityType | null; // Upstream stage that must be approved before this one can be signed off
+}
+
+export interface ApprovalTransitionRequest {
+  project_id: string;
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  action: ApprovalAction;
+  user_id: string;
+  reviewer_id?: string; // Required when submitting unless a reviewer is already assigned
+  comment?: string; // Required when requesting changes
+}
+
 export interface Storyboard {
   id: string;
   project_id: string;
@@ -191,17 +367,193 @@ export interface Prompt {
   generated_prompt_text: string;
   ai_model: string; // e.g., 'Veo3'
   generated_video_url?: string;
+  version: number; // Every edit or regeneration is stored as a new version
+  ai_generated?: boolean;
+  change_note?: string;
+  shot_brief?: UnifiedShotBrief; // Brief the prompt was written from
+  created_at: Date;
+  updated_at?: Date;
+}
+
+// Character bible entry; presenters are created in the Baffling Broadcaster studio
+export interface Character {
+  id: string;
+  project_id: string;
+  name: string;
+  role: string; // e.g., 'News anchor', 'Roving reporter'
+  description?: string;
+  visual_description: string; // Appearance
+  wardrobe?: string;
+  verbal_tics: string[];
+  catchphrases: string[];
+  voice_notes?: string;
+  mannerisms?: string;
+  reference_sheet?: string; // Image path/URL or written turnaround notes
+  locked?: boolean; // Locked characters cannot be changed by agents or edited until unlocked
+  ai_generated?: boolean;
+  persona_source?: string;
   created_at: Date;
   updated_at?: Date;
 }
 
+export type CommentTargetType =
+  | 'project'
+  | 'news_article'
+  | 'creative_strategy'
+  | 'director_notes'
+  | 'script'
+  | 'storyboard'
+  | 'shot'
+  | 'sound_notes'
+  | 'prompt';
+export type CommentStatus = 'OPEN' | 'RESOLVED';
+
+export interface CommentAnchor {
+  section?: string; // Strategy or director's notes section, e.g. 'creative_concept'
+  line_start?: number; // 1-based script line range
+  line_end?: number;
+  quote?: string; // Text the thread was started on
+}
+
 export interface Comment {
   id: string;
+  project_id: string;
   target_entity_id: string;
-  target_entity_type: string; // 'script', 'shot', 'director_notes', etc.
+  target_entity_type: CommentTargetType;
+  parent_id?: string; // Set on replies
+  anchor?: CommentAnchor;
   comment_text: string;
   author: string; // User ID
+  mentions: string[]; // User IDs mentioned with @handle (the local part of their email)
+  status: CommentStatus;
+  resolved_by?: string;
+  resolved_at?: Date;
   created_at: Date;
+  updated_at?: Date;
+}
+
+export interface CommentThread extends Comment {
+  replies: Comment[]; // Oldest first
+}
+
+export interface CreateCommentRequest {
+  project_id: string;
+  target_entity_type: CommentTargetType;
+  target_entity_id: string;
+  parent_id?: string; // Reply to a thread; the target and anchor come from the thread
+  anchor?: CommentAnchor;
+  comment_text: string;
+  author: string;
+}
+
+export interface CommentThreadFilter {
+  status?: CommentStatus;
+  mentioned_user_id?: string; // Threads where the user is mentioned in any comment
+}
+
+// Per-project workflow progress; the main process persists the full stage machine and the renderer sees this summary
+export type WorkflowStageStatus = 'not_started' | 'ready' | 'in_progress' | 'review_required' | 'completed' | 'failed' | 'blocked';
+
+export type WorkflowFindingSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// One problem a quality gate found; high and critical findings fail the gate
+export interface WorkflowGateFinding {
+  item: string; // What the finding is about, e.g. "Shot 3" or "Creative concept"
+  severity: WorkflowFindingSeverity;
+  message: string;
+  suggestion?: string;
+}
+
+export interface WorkflowGateResult {
+  name: string;
+  required: boolean;
+  passed: boolean;
+  score: number; // 0-100
+  issues: string[];
+  suggestions: string[];
+  findings: WorkflowGateFinding[]; // Most severe first
+}
+
+export interface WorkflowStageProgress {
+  name: string;
+  persona: PersonaType;
+  status: WorkflowStageStatus;
+  quality_score: number | null; // Score of the accepted output, null until the stage is completed
+  gate_results: WorkflowGateResult[]; // From the latest attempt to complete the stage
+  retry_count: number;
+  last_error?: string;
+  started_at?: Date;
+  completed_at?: Date;
+}
+
+export interface WorkflowDecision {
+  stage: string;
+  decision: string;
+  reasoning: string;
+  timestamp: Date;
+}
+
+export interface WorkflowProgress {
+  project_id: string;
+  workflow_id: string;
+  current_stage: string;
+  next_stage: string | null;
+  stages: WorkflowStageProgress[]; // In pipeline order
+  completed_count: number;
+  progress_percentage: number;
+  quality_score: number; // Average over completed stages
+  key_decisions: WorkflowDecision[]; // Newest first
+  updated_at: Date;
+}
+
+// Rubric-based evaluation of satirical quality; a judge model scores each version of a versioned artifact
+export type EvaluationCriterion =
+  | 'SATIRICAL_CLARITY'
+  | 'TARGET_ACCURACY'
+  | 'TERMINOLOGY_COMPLIANCE'
+  | 'FORMAT_FIT'
+  | 'COMEDIC_ESCALATION';
+
+export interface EvaluationCriterionConfig {
+  criterion: EvaluationCriterion;
+  weight: number; // Relative weight in the overall score; 0 leaves the criterion out
+  guidance: string; // What the judge should look for
+}
+
+export interface EvaluationRubric {
+  criteria: EvaluationCriterionConfig[];
+  passing_score: number; // 0-100
+}
+
+export interface EvaluationCriterionScore {
+  criterion: EvaluationCriterion;
+  score: number; // 1-10
+  rationale: string;
+}
+
+export interface ArtifactEvaluation {
+  id: string;
+  project_id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  version: number;
+  scores: EvaluationCriterionScore[];
+  overall_score: number; // Weighted, 0-100
+  passed: boolean;
+  summary: string;
+  rubric: EvaluationRubric; // As configured when the version was judged
+  provider: string;
+  model: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface ArtifactQualityTrend {
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  label: string;
+  latest_version: number;
+  evaluations: ArtifactEvaluation[]; // One per judged version, oldest first
 }
 
 // LLM Integration Types
@@ -236,6 +588,22 @@ export interface PersonaContext {
   updated_at?: Date;
 }
 
+// Provider API keys are held encrypted by the main process; the renderer only sees these summaries
+export type APIKeyProvider = 'openai' | 'anthropic' | 'gemini' | 'openai-compatible';
+
+export interface APIKeySummary {
+  id: string; // Changes whenever the key is replaced
+  provider: APIKeyProvider;
+  masked: string; // e.g. "sk-…a1b2"
+  base_url?: string; // The only endpoint an openai-compatible key is sent to
+  updated_at: string; // ISO timestamp
+}
+
+export interface APIKeyStoreStatus {
+  encryption_available: boolean;
+  keys: APIKeySummary[];
+}
+
 // Unified Shot Brief for AI Prompt Generation
 export interface UnifiedShotBrief {
   shot: Shot;
@@ -0,0 +1,47 @@
+// Approval workflow rules
+// Allowed state transitions and stage dependencies, shared by the main process (which enforces them) and the renderer (which offers them)
+
+import { ApprovalAction, ApprovalEntityType, ApprovalStatus } from '../types/index.js';
+
+export const APPROVAL_TRANSITIONS: Record<ApprovalAction, { from: ApprovalStatus[]; to: ApprovalStatus }> = {
+  SUBMIT: { from: ['DRAFT', 'NEEDS_REVISION'], to: 'IN_REVIEW' },
+  APPROVE: { from: ['IN_REVIEW'], to: 'APPROVED' },
+  // Reviewers can also send back something they already approved
+  REQUEST_CHANGES: { from: ['IN_REVIEW', 'APPROVED'], to: 'NEEDS_REVISION' }
+};
+
+// The stage whose approved output each stage is built from
+export const APPROVAL_INPUTS: Record<ApprovalEntityType, ApprovalEntityType | null> = {
+  CREATIVE_STRATEGY: null,
+  SCRIPT: 'CREATIVE_STRATEGY',
+  STORYBOARD: 'SCRIPT',
+  SOUND_DESIGN: 'STORYBOARD'
+};
+
+export const APPROVAL_STAGE_LABELS: Record<ApprovalEntityType, string> = {
+  CREATIVE_STRATEGY: 'Creative Strategy',
+  SCRIPT: 'Script',
+  STORYBOARD: 'Storyboard',
+  SOUND_DESIGN: 'Sound Design'
+};
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  APPROVED: 'Approved',
+  NEEDS_REVISION: 'Needs Revision'
+};
+
+/**
+ * Whether an action may be taken from a status
+ */
+export function canTransition(status: ApprovalStatus, action: ApprovalAction): boolean {
+  return APPROVAL_TRANSITIONS[action].from.includes(status);
+}
+
+/**
+ * The actions that may be taken from a status
+ */
+export function availableApprovalActions(status: ApprovalStatus): ApprovalAction[] {
+  return (Object.keys(APPROVAL_TRANSITIONS) as ApprovalAction[]).filter(action => canTransition(status, action));
+}
@@ -0,0 +1,91 @@
+// Comment utilities
+// @mention parsing and labels for threaded comments, shared by the main process and the renderer
+
+import { CommentAnchor, CommentTargetType } from '../types/index.js';
+
+export const COMMENT_TARGET_LABELS: Record<CommentTargetType, string> = {
+  project: 'Project',
+  news_article: 'News Article',
+  creative_strategy: 'Creative Strategy',
+  director_notes: "Director's Notes",
+  script: 'Script',
+  storyboard: 'Storyboard',
+  shot: 'Shot',
+  sound_notes: 'Sound Notes',
+  prompt: 'Prompt'
+};
+
+// Sections a strategy or director's notes thread can be anchored to
+export const COMMENT_SECTIONS: Partial<Record<CommentTargetType, Record<string, string>>> = {
+  creative_strategy: {
+    creative_concept: 'Creative Concept',
+    satirical_angles: 'Satirical Angles',
+    target_audience: 'Target Audience',
+    tone: 'Tone',
+    satirical_format: 'Satirical Format',
+    key_themes: 'Key Themes',
+    character_archetypes: 'Character Archetypes',
+    visual_style_guide: 'Visual Style Guide'
+  },
+  director_notes: {
+    summary: 'Summary',
+    satirical_hook: 'Satirical Hook',
+    characters: 'Characters',
+    visual_concepts: 'Visual Concepts'
+  }
+};
+
+// An @ that starts a word, so email addresses aren't read as mentions
+const MENTION_PATTERN = /(^|[^\w@.])@([\w][\w.-]*[\w]|[\w])/g;
+
+/**
+ * The handle a user is mentioned by: the local part of their email, lowercased
+ */
+export function mentionHandle(user: { email: string }): string {
+  return user.email.split('@')[0].toLowerCase();
+}
+
+/**
+ * The distinct handles mentioned with @handle, lowercased, in order of first appearance
+ */
+export function extractMentions(text: string): string[] {
+  const handles = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    handles.add(match[2].toLowerCase());
+  }
+  return [...handles];
+}
+
+/**
+ * Split text into plain and @mention parts for highlighting
+ */
+export function splitMentions(text: string): { text: string; mention: boolean }[] {
+  const parts: { text: string; mention: boolean }[] = [];
+  let index = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = match.index! + match[1].length;
+    if (start > index) parts.push({ text: text.slice(index, start), mention: false });
+    parts.push({ text: `@${match[2]}`, mention: true });
+    index = start + match[2].length + 1;
+  }
+  if (index < text.length) parts.push({ text: text.slice(index), mention: false });
+
+  return parts;
+}
+
+/**
+ * Describe where in its target a thread is anchored, e.g. "Lines 12–14" or "Tone"
+ */
+export function describeCommentAnchor(targetType: CommentTargetType, anchor?: CommentAnchor): string {
+  if (!anchor) return '';
+  if (anchor.section) {
+    return COMMENT_SECTIONS[targetType]?.[anchor.section] || anchor.section;
+  }
+  if (anchor.line_start) {
+    return anchor.line_end && anchor.line_end !== anchor.line_start
+      ? `Lines ${anchor.line_start}–${anchor.line_end}`
+      : `Line ${anchor.line_start}`;
+  }
+  return '';
+}
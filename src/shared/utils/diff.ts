@@ -0,0 +1,185 @@
+// Diff utilities
+// Dependency-free line and word diffs for comparing revisions side by side or inline
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOperation;
+  text: string;
+}
+
+export interface DiffLine {
+  op: DiffOperation;
+  old_line?: number; // 1-based line number in the old text
+  new_line?: number; // 1-based line number in the new text
+  text: string;
+  words?: DiffPart[]; // Word-level changes when a deleted line is paired with its replacement
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Longest-common-subsequence tables grow with the product of both lengths
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  const lines: DiffLine[] = diffSequences(oldLines, newLines).map(({ op, text }) => {
+    if (op === 'equal') return { op, old_line: ++oldNumber, new_line: ++newNumber, text };
+    if (op === 'delete') return { op, old_line: ++oldNumber, text };
+    return { op, new_line: ++newNumber, text };
+  });
+
+  // Pair each run of deletions with the insertions that follow it to highlight the changed words
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].op !== 'delete') continue;
+    let deleteEnd = i;
+    while (deleteEnd < lines.length && lines[deleteEnd].op === 'delete') deleteEnd++;
+    let insertEnd = deleteEnd;
+    while (insertEnd < lines.length && lines[insertEnd].op === 'insert') insertEnd++;
+
+    const pairs = Math.min(deleteEnd - i, insertEnd - deleteEnd);
+    for (let k = 0; k < pairs; k++) {
+      const words = diffWords(lines[i + k].text, lines[deleteEnd + k].text);
+      lines[i + k].words = words.filter(part => part.op !== 'insert');
+      lines[deleteEnd + k].words = words.filter(part => part.op !== 'delete');
+    }
+    i = insertEnd - 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Diff two strings word by word, keeping whitespace attached so the parts join back into the originals
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const parts = diffSequences(tokenize(oldText), tokenize(newText));
+
+  // Merge adjacent parts with the same operation for tidier highlighting
+  return parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && last.op === part.op) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Lay a line diff out as aligned rows, pairing deletions with the insertions that replace them
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].op === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      continue;
+    }
+
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    while (i < lines.length && lines[i].op === 'delete') deleted.push(lines[i++]);
+    while (i < lines.length && lines[i].op === 'insert') inserted.push(lines[i++]);
+    i--;
+
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      rows.push({ left: deleted[k] || null, right: inserted[k] || null });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Count inserted and deleted lines
+ */
+export function summarizeDiff(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter(line => line.op === 'insert').length,
+    removed: lines.filter(line => line.op === 'delete').length
+  };
+}
+
+// Private helper methods
+
+function splitLines(text: string): string[] {
+  return text ? text.replace(/\r\n?/g, '\n').split('\n') : [];
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\w'’-]+|[^\w\s]/g) || [];
+}
+
+function diffSequences(a: string[], b: string[]): DiffPart[] {
+  // Common prefix and suffix are trimmed first; edits between revisions are usually local
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map(text => ({ op: 'equal' as const, text }));
+  const suffix = a.slice(endA).map(text => ({ op: 'equal' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  let middle: DiffPart[];
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    // Too large to align; show the changed region as replaced wholesale
+    middle = [
+      ...midA.map(text => ({ op: 'delete' as const, text })),
+      ...midB.map(text => ({ op: 'insert' as const, text }))
+    ];
+  } else {
+    middle = lcsDiff(midA, midB);
+  }
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+function lcsDiff(a: string[], b: string[]): DiffPart[] {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      parts.push({ op: 'delete', text: a[i++] });
+    } else {
+      parts.push({ op: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ op: 'delete', text: a[i++] });
+  while (j < b.length) parts.push({ op: 'insert', text: b[j++] });
+
+  return parts;
+}
@@ -0,0 +1,105 @@
+// Satirical quality rubric
+// Criteria, defaults and scoring for judged artifact versions, shared by the main process (which scores) and the renderer (which configures and charts)
+
+import {
+  EvaluationCriterion,
+  EvaluationCriterionConfig,
+  EvaluationCriterionScore,
+  EvaluationRubric,
+  RevisionEntityType
+} from '../types/index.js';
+
+export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
+  'SATIRICAL_CLARITY',
+  'TARGET_ACCURACY',
+  'TERMINOLOGY_COMPLIANCE',
+  'FORMAT_FIT',
+  'COMEDIC_ESCALATION'
+];
+
+export const EVALUATION_CRITERION_LABELS: Record<EvaluationCriterion, string> = {
+  SATIRICAL_CLARITY: 'Satirical Clarity',
+  TARGET_ACCURACY: 'Target Accuracy',
+  TERMINOLOGY_COMPLIANCE: 'Terminology Compliance',
+  FORMAT_FIT: 'Format Fit',
+  COMEDIC_ESCALATION: 'Comedic Escalation'
+};
+
+export const EVALUATED_ARTIFACT_LABELS: Record<RevisionEntityType, string> = {
+  CREATIVE_STRATEGY: 'Creative Strategy',
+  DIRECTOR_NOTES: "Director's Notes",
+  SCRIPT: 'Script',
+  STORYBOARD: 'Storyboard'
+};
+
+export const DEFAULT_EVALUATION_RUBRIC: EvaluationRubric = {
+  criteria: [
+    {
+      criterion: 'SATIRICAL_CLARITY',
+      weight: 3,
+      guidance: 'A viewer can tell what is being satirised and what the piece is saying about it, without it being spelled out'
+    },
+    {
+      criterion: 'TARGET_ACCURACY',
+      weight: 3,
+      guidance: "The satire punches at the lens's common targets - the powerful and their messaging - rather than at victims or bystanders"
+    },
+    {
+      criterion: 'TERMINOLOGY_COMPLIANCE',
+      weight: 2,
+      guidance: "Uses the lens's preferred terminology and none of the terms it says to avoid, except when deliberately quoting a target"
+    },
+    {
+      criterion: 'FORMAT_FIT',
+      weight: 2,
+      guidance: 'Follows the conventions of the chosen satirical format closely enough that the parody reads instantly'
+    },
+    {
+      criterion: 'COMEDIC_ESCALATION',
+      weight: 2,
+      guidance: 'The premise is established early and each beat heightens the absurdity towards a payoff'
+    }
+  ],
+  passing_score: 70
+};
+
+/**
+ * Fill in anything a saved rubric is missing from the defaults, so older or partial rubrics still cover every criterion
+ */
+export function resolveEvaluationRubric(rubric?: Partial<EvaluationRubric> | null): EvaluationRubric {
+  const criteria = EVALUATION_CRITERIA.map(criterion => {
+    const fallback = DEFAULT_EVALUATION_RUBRIC.criteria.find(config => config.criterion === criterion)!;
+    const configured = rubric?.criteria?.find(config => config.criterion === criterion);
+    const weight = Number(configured?.weight);
+
+    return {
+      criterion,
+      weight: Number.isFinite(weight) && weight >= 0 ? weight : fallback.weight,
+      guidance: configured?.guidance?.trim() || fallback.guidance
+    } as EvaluationCriterionConfig;
+  });
+
+  const passingScore = Number(rubric?.passing_score);
+
+  return {
+    criteria,
+    passing_score: Number.isFinite(passingScore) ? Math.min(100, Math.max(0, passingScore)) : DEFAULT_EVALUATION_RUBRIC.passing_score
+  };
+}
+
+/**
+ * Weighted average of 1-10 criterion scores as a 0-100 score. Criteria weighted 0 are left out.
+ */
+export function weightedEvaluationScore(scores: EvaluationCriterionScore[], rubric: EvaluationRubric): number {
+  let total = 0;
+  let weights = 0;
+
+  rubric.criteria.forEach(config => {
+    const score = scores.find(entry => entry.criterion === config.criterion);
+    if (!score || config.weight <= 0) return;
+    total += score.score * config.weight;
+    weights += config.weight;
+  });
+
+  return weights > 0 ? Math.round((total / weights) * 10) : 0;
+}
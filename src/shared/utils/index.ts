@@ -1,5 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 
+export { generateVeo3Prompt, buildUnifiedShotBrief, formatShotBrief, draftPromptFromBrief } from './shot-brief';
+export { parseScreenplay, toFountain, toFdx, paginateScreenplay, renderScreenplayHtml, summarizeScreenplay } from './screenplay';
+export { buildShotList, formatTimecode, toShotListCsv, toCmx3600Edl, renderShotListHtml } from './shot-list';
+export { diffLines, diffWords, toSideBySide, summarizeDiff } from './diff';
+export { APPROVAL_TRANSITIONS, APPROVAL_INPUTS, APPROVAL_STAGE_LABELS, APPROVAL_STATUS_LABELS, canTransition, availableApprovalActions } from './approval';
+export { COMMENT_TARGET_LABELS, COMMENT_SECTIONS, mentionHandle, extractMentions, splitMentions, describeCommentAnchor } from './comments';
+export { PROJECT_ROLES, PROJECT_ROLE_LABELS, ROLE_PERMISSIONS, PERMISSION_LABELS, APPROVAL_STAGE_PERMISSIONS, REVISION_PERMISSIONS, hasPermission } from './permissions';
+
 /**
  * Generate a unique ID for database entities
  */
@@ -50,24 +58,6 @@ export function isEmptyOrWhitespace(str: string | undefined | null): boolean {
   return !str || str.trim().length === 0;
 }
 
-/**
- * Generate a schema-compliant prompt for Veo3
- */
-export function generateVeo3Prompt(briefData: {
-  shotType: string;
-  subject: string;
-  action: string;
-  cameraAngle: string;
-  lighting: string;
-  mood: string;
-  style: string;
-  duration: number;
-}): string {
-  return `For Veo3: ${briefData.shotType} shot of ${briefData.subject} ${briefData.action}, ` +
-         `${briefData.cameraAngle} camera angle, ${briefData.lighting} lighting, ` +
-         `${briefData.mood} mood, ${briefData.style} style, ${briefData.duration}s duration`;
-}
-
 /**
  * Truncate text to specified length with ellipsis
  */
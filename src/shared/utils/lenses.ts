@@ -0,0 +1,89 @@
+// Satirical lens library
+// Validation and the JSON file format for user-authored lenses, shared by the main process (which stores them) and the renderer (which edits them)
+
+import { SatiricalContext, SatiricalLensFile, TerminologyGuidance } from '../types/index.js';
+
+export const LENS_FILE_FORMAT = 'satirical-lens';
+export const LENS_FILE_VERSION = 1;
+export const LENS_FILE_EXTENSION = 'json';
+
+export const EMPTY_CUSTOM_LENS: SatiricalContext = {
+  type: 'CUSTOM',
+  name: '',
+  description: '',
+  ethicalFramework: '',
+  keyPrinciples: [],
+  commonTargets: [],
+  preferredTerminology: [],
+  satiricalApproaches: []
+};
+
+/**
+ * Clean up a lens as edited or imported: trim every field, drop blank list entries and terminology rows
+ * without both terms, and report what is missing. Always returns a CUSTOM lens without a library ID.
+ */
+export function normalizeLens(input: unknown): { lens: SatiricalContext; errors: string[] } {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  const lens: SatiricalContext = {
+    type: 'CUSTOM',
+    name: text(source.name),
+    description: text(source.description),
+    ethicalFramework: text(source.ethicalFramework),
+    keyPrinciples: textList(source.keyPrinciples),
+    commonTargets: textList(source.commonTargets),
+    preferredTerminology: (Array.isArray(source.preferredTerminology) ? source.preferredTerminology : [])
+      .map((row: any): TerminologyGuidance => ({ avoid: text(row?.avoid), prefer: text(row?.prefer), reason: text(row?.reason) }))
+      .filter(row => row.avoid && row.prefer),
+    satiricalApproaches: textList(source.satiricalApproaches)
+  };
+
+  const errors: string[] = [];
+  if (!lens.name) errors.push('Give the lens a name');
+  if (!lens.ethicalFramework) errors.push('Describe the ethical framework');
+  if (lens.keyPrinciples.length === 0) errors.push('Add at least one key principle');
+  if (lens.satiricalApproaches.length === 0) errors.push('Add at least one satirical approach');
+
+  return { lens, errors };
+}
+
+/**
+ * The export file for a lens
+ */
+export function toLensFile(lens: SatiricalContext): SatiricalLensFile {
+  return {
+    format: LENS_FILE_FORMAT,
+    version: LENS_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    lens: normalizeLens(lens).lens // Without the library ID, which means nothing on another installation
+  };
+}
+
+/**
+ * Read a lens export file. A bare lens object is accepted too, so hand-written files work.
+ */
+export function parseLensFile(json: string): { lens: SatiricalContext | null; errors: string[] } {
+  let data: any;
+  try {
+    data = JSON.parse(json.replace(/^\uFEFF/, ''));
+  } catch {
+    return { lens: null, errors: ['The file is not valid JSON'] };
+  }
+
+  if (data?.format === LENS_FILE_FORMAT && Number(data.version) > LENS_FILE_VERSION) {
+    return { lens: null, errors: [`The lens was exported by a newer version of the app (format version ${data.version})`] };
+  }
+
+  const { lens, errors } = normalizeLens(data?.format === LENS_FILE_FORMAT ? data.lens : data);
+  return errors.length > 0 ? { lens: null, errors } : { lens, errors };
+}
+
+// Private helper methods
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function textList(value: unknown): string[] {
+  return (Array.isArray(value) ? value : []).map(text).filter(entry => entry.length > 0);
+}
@@ -0,0 +1,84 @@
+// Project permission rules
+// What each project role may change, shared by the main process (which enforces it) and the renderer (which hides what isn't allowed)
+
+import { ApprovalEntityType, PersonaType, ProjectPermission, ProjectRole, RevisionEntityType } from '../types/index.js';
+
+export const PROJECT_ROLES: ProjectRole[] = ['DIRECTOR', 'WRITER', 'STORYBOARDER', 'SOUND', 'VIEWER'];
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  DIRECTOR: 'Director',
+  WRITER: 'Writer',
+  STORYBOARDER: 'Storyboarder',
+  SOUND: 'Sound',
+  VIEWER: 'Viewer'
+};
+
+export const ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+  DIRECTOR: [
+    'project:manage',
+    'articles:edit',
+    'strategy:edit',
+    'script:edit',
+    'characters:edit',
+    'storyboard:edit',
+    'sound:edit',
+    'prompts:edit',
+    'approvals:review',
+    'comments:write',
+    'ai:use'
+  ],
+  WRITER: ['articles:edit', 'strategy:edit', 'script:edit', 'characters:edit', 'approvals:review', 'comments:write', 'ai:use'],
+  STORYBOARDER: ['characters:edit', 'storyboard:edit', 'prompts:edit', 'approvals:review', 'comments:write', 'ai:use'],
+  SOUND: ['sound:edit', 'approvals:review', 'comments:write', 'ai:use'],
+  // Viewers follow along and leave feedback
+  VIEWER: ['comments:write']
+};
+
+// What each permission lets a member do, for denial messages
+export const PERMISSION_LABELS: Record<ProjectPermission, string> = {
+  'project:manage': 'manage this project',
+  'articles:edit': 'edit news articles',
+  'strategy:edit': "edit the creative strategy and director's notes",
+  'script:edit': 'edit scripts',
+  'characters:edit': 'edit characters',
+  'storyboard:edit': 'edit the storyboard',
+  'sound:edit': 'edit sound design',
+  'prompts:edit': 'edit prompts',
+  'approvals:review': 'review approvals',
+  'comments:write': 'comment',
+  'ai:use': 'work with the AI personas'
+};
+
+// The permission needed to submit each stage for approval
+export const APPROVAL_STAGE_PERMISSIONS: Record<ApprovalEntityType, ProjectPermission> = {
+  CREATIVE_STRATEGY: 'strategy:edit',
+  SCRIPT: 'script:edit',
+  STORYBOARD: 'storyboard:edit',
+  SOUND_DESIGN: 'sound:edit'
+};
+
+// The permission needed to sign off each workflow stage, by the persona that owns it
+export const WORKFLOW_STAGE_PERMISSIONS: Record<PersonaType, ProjectPermission> = {
+  CREATIVE_STRATEGIST: 'strategy:edit',
+  BAFFLING_BROADCASTER: 'characters:edit',
+  SATIRICAL_SCREENWRITER: 'script:edit',
+  CINEMATIC_STORYBOARDER: 'storyboard:edit',
+  SOUNDSCAPE_ARCHITECT: 'sound:edit',
+  VIDEO_PROMPT_ENGINEER: 'prompts:edit',
+  PROJECT_DIRECTOR: 'project:manage'
+};
+
+// The permission needed to restore a revision of each entity
+export const REVISION_PERMISSIONS: Record<RevisionEntityType, ProjectPermission> = {
+  CREATIVE_STRATEGY: 'strategy:edit',
+  DIRECTOR_NOTES: 'strategy:edit',
+  SCRIPT: 'script:edit',
+  STORYBOARD: 'storyboard:edit'
+};
+
+/**
+ * Whether a project role grants a permission
+ */
+export function hasPermission(role: ProjectRole | null | undefined, permission: ProjectPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,50 @@
+// Revision display rules
+// Readable text layout of revision snapshots, shared by the history panel (which diffs versions) and the main process (which has them judged)
+
+import { RevisionEntityType } from '../types/index.js';
+
+/**
+ * Lay a snapshot out as readable text, so versions diff line by line and read naturally to a judge model
+ */
+export function formatRevisionSnapshot(type: RevisionEntityType, snapshot: Record<string, any>): string {
+  const section = (heading: string, body: string | undefined | null) => `## ${heading}\n${body || ''}`;
+  const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+  switch (type) {
+    case 'SCRIPT':
+      return [section('Outline', snapshot.outline), section('Script', snapshot.content)].join('\n\n');
+    case 'CREATIVE_STRATEGY':
+      return [
+        section('Creative Concept', snapshot.creative_concept),
+        section('Satirical Angles', list((snapshot.satirical_angles || []).map((angle: any) =>
+          `${angle.angle_type}: ${angle.description}${angle.key_elements?.length ? ` (${angle.key_elements.join(', ')})` : ''}`))),
+        section('Target Audience', snapshot.target_audience),
+        section('Tone', snapshot.tone),
+        section('Satirical Format', snapshot.satirical_format),
+        section('Key Themes', list(snapshot.key_themes || [])),
+        section('Character Archetypes', list((snapshot.character_archetypes || []).map((character: any) =>
+          `${character.name} (${character.role}): ${(character.satirical_traits || []).join(', ')}`))),
+        section('Visual Style Guide', Object.entries(snapshot.visual_style_guide || {})
+          .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`)
+          .join('\n'))
+      ].join('\n\n');
+    case 'DIRECTOR_NOTES':
+      return [
+        section('Summary', snapshot.summary),
+        section('Satirical Hook', snapshot.satirical_hook),
+        section('Characters', snapshot.characters),
+        section('Visual Concepts', snapshot.visual_concepts)
+      ].join('\n\n');
+    case 'STORYBOARD':
+      return [
+        section('Visual Concept', snapshot.visual_concept),
+        ...(snapshot.shots || []).map((shot: any) => section(`Panel ${shot.panel_number} (${shot.length_seconds}s)`, [
+          `Camera: ${shot.camera_angle || ''}`,
+          `Action: ${shot.character_action || ''}`,
+          `Lighting: ${shot.lighting_mood || ''}`,
+          `Style: ${shot.visual_style || ''}`,
+          `Dialogue: ${shot.dialogue_narration || ''}`
+        ].join('\n')))
+      ].join('\n\n');
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { Screenplay, ScreenplayElement } from '../types';
+import { SCREENPLAY_LINES_PER_PAGE, paginateScreenplay, parseScreenplay, toFountain } from './screenplay';
+
+function screenplay(elements: ScreenplayElement[]): Screenplay {
+  return { title_page: {}, elements };
+}
+
+function action(lines: number): ScreenplayElement {
+  return { type: 'action', text: Array.from({ length: lines }, (_, index) => `Line ${index + 1} of the action.`).join('\n') };
+}
+
+describe('parseScreenplay', () => {
+  it('reads the title page and scene headings', () => {
+    const parsed = parseScreenplay([
+      'Title: Cage-Free Lies',
+      'Author: The Newsroom',
+      '',
+      'INT. STUDIO - DAY #1A#',
+      '',
+      'The presenter shuffles papers.',
+      '',
+      'ext. farm - night',
+      '',
+      '.OPENING MONTAGE'
+    ].join('\n'));
+
+    expect(parsed.title_page).toEqual({ title: 'Cage-Free Lies', author: 'The Newsroom' });
+    expect(parsed.elements).toEqual([
+      { type: 'scene_heading', text: 'INT. STUDIO - DAY', scene_number: '1A' },
+      { type: 'action', text: 'The presenter shuffles papers.' },
+      { type: 'scene_heading', text: 'EXT. FARM - NIGHT' },
+      { type: 'scene_heading', text: 'OPENING MONTAGE' }
+    ]);
+  });
+
+  it('groups character cues with parentheticals and dialogue', () => {
+    const parsed = parseScreenplay([
+      'ANCHOR',
+      '(brightly)',
+      'Good evening.',
+      'Tonight, happy hens.',
+      '',
+      'REPORTER ^',
+      'Not quite.',
+      '',
+      'NARRATOR (V.O.): The barn holds forty thousand birds.',
+      'HEN (quietly): Cluck.'
+    ].join('\n'));
+
+    expect(parsed.elements).toEqual([
+      { type: 'character', text: 'ANCHOR' },
+      { type: 'parenthetical', text: '(brightly)' },
+      { type: 'dialogue', text: 'Good evening.\nTonight, happy hens.' },
+      { type: 'character', text: 'REPORTER', dual: true },
+      { type: 'dialogue', text: 'Not quite.' },
+      { type: 'character', text: 'NARRATOR (V.O.)' },
+      { type: 'dialogue', text: 'The barn holds forty thousand birds.' },
+      { type: 'character', text: 'HEN' },
+      { type: 'parenthetical', text: '(quietly)' },
+      { type: 'dialogue', text: 'Cluck.' }
+    ]);
+  });
+
+  it('recognises transitions, centered text and forced action', () => {
+    const parsed = parseScreenplay([
+      'The lights dim.',
+      '',
+      'CUT TO:',
+      '',
+      '> fade out',
+      '',
+      '> THE END <',
+      '',
+      '!SMASH CUT TO:'
+    ].join('\n'));
+
+    expect(parsed.elements).toEqual([
+      { type: 'action', text: 'The lights dim.' },
+      { type: 'transition', text: 'CUT TO:' },
+      { type: 'transition', text: 'FADE OUT' },
+      { type: 'centered', text: 'THE END' },
+      { type: 'action', text: 'SMASH CUT TO:' }
+    ]);
+  });
+
+  it('survives a round trip through Fountain', () => {
+    const original = parseScreenplay([
+      'Title: Cage-Free Lies',
+      '',
+      'INT. STUDIO - DAY #1#',
+      '',
+      'ANCHOR',
+      '(brightly)',
+      'Good evening.',
+      '',
+      'CUT TO:',
+      '',
+      '===',
+      '',
+      '!INT. A LINE THAT LOOKS LIKE A HEADING'
+    ].join('\n'));
+
+    expect(parseScreenplay(toFountain(original))).toEqual(original);
+  });
+});
+
+describe('paginateScreenplay', () => {
+  it('lays elements out at their standard indents', () => {
+    const [page] = paginateScreenplay(screenplay([
+      { type: 'scene_heading', text: 'int. studio - day', scene_number: '1' },
+      { type: 'character', text: 'ANCHOR' },
+      { type: 'parenthetical', text: '(brightly)' },
+      { type: 'dialogue', text: 'Good evening.' },
+      { type: 'transition', text: 'CUT TO:' }
+    ]));
+
+    expect(page.lines).toEqual([
+      { type: 'scene_heading', text: 'INT. STUDIO - DAY', indent: 0, scene_number: '1' },
+      { type: 'blank', text: '', indent: 0 },
+      { type: 'character', text: 'ANCHOR', indent: 22 },
+      { type: 'parenthetical', text: '(brightly)', indent: 16 },
+      { type: 'dialogue', text: 'Good evening.', indent: 10 },
+      { type: 'blank', text: '', indent: 0 },
+      { type: 'transition', text: 'CUT TO:', indent: 54 }
+    ]);
+  });
+
+  it('starts a new page at a forced page break', () => {
+    const pages = paginateScreenplay(screenplay([
+      action(1),
+      { type: 'page_break', text: '' },
+      { type: 'page_break', text: '' },
+      action(1)
+    ]));
+
+    expect(pages.map(page => page.number)).toEqual([1, 2]);
+    expect(pages[1].lines[0]).toEqual({ type: 'action', text: 'Line 1 of the action.', indent: 0 });
+  });
+
+  it('splits long action across pages without leaving a single line behind', () => {
+    const pages = paginateScreenplay(screenplay([action(SCREENPLAY_LINES_PER_PAGE - 3), action(4)]));
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].lines).toHaveLength(SCREENPLAY_LINES_PER_PAGE);
+    expect(pages[0].lines.slice(-2).map(line => line.text)).toEqual(['Line 1 of the action.', 'Line 2 of the action.']);
+    expect(pages[1].lines.map(line => line.text)).toEqual(['Line 3 of the action.', 'Line 4 of the action.']);
+  });
+
+  it('keeps a scene heading with the element after it', () => {
+    const pages = paginateScreenplay(screenplay([
+      action(SCREENPLAY_LINES_PER_PAGE - 4),
+      { type: 'scene_heading', text: 'EXT. FARM - NIGHT' },
+      action(2)
+    ]));
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].lines).toHaveLength(SCREENPLAY_LINES_PER_PAGE - 4);
+    expect(pages[1].lines.map(line => line.type)).toEqual(['scene_heading', 'blank', 'action', 'action']);
+  });
+
+  it("carries split dialogue over with (MORE) and (CONT'D)", () => {
+    const speech = Array.from({ length: 6 }, (_, index) => `Sentence ${index + 1}.`).join('\n');
+    const pages = paginateScreenplay(screenplay([
+      action(SCREENPLAY_LINES_PER_PAGE - 6),
+      { type: 'character', text: 'ANCHOR' },
+      { type: 'dialogue', text: speech }
+    ]));
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].lines).toHaveLength(SCREENPLAY_LINES_PER_PAGE);
+    expect(pages[0].lines.slice(-6)).toEqual([
+      { type: 'blank', text: '', indent: 0 },
+      { type: 'character', text: 'ANCHOR', indent: 22 },
+      { type: 'dialogue', text: 'Sentence 1.', indent: 10 },
+      { type: 'dialogue', text: 'Sentence 2.', indent: 10 },
+      { type: 'dialogue', text: 'Sentence 3.', indent: 10 },
+      { type: 'more', text: '(MORE)', indent: 22 }
+    ]);
+    expect(pages[1].lines[0]).toEqual({ type: 'character', text: "ANCHOR (CONT'D)", indent: 22 });
+    expect(pages[1].lines.slice(1).map(line => line.text)).toEqual(['Sentence 4.', 'Sentence 5.', 'Sentence 6.']);
+  });
+});
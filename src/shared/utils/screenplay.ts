@@ -0,0 +1,625 @@
+// Screenplay utilities
+// Dependency-free parsing, Fountain/FDX serialisation and pagination so both processes can work with script structure
+
+import { Screenplay, ScreenplayElement, ScreenplayElementType } from '../types/index.js';
+
+export interface ScreenplayLine {
+  type: ScreenplayElementType | 'blank' | 'more';
+  text: string;
+  indent: number; // In characters from the left margin (Courier 12pt is 10 characters per inch)
+  scene_number?: string;
+}
+
+export interface ScreenplayPage {
+  number: number;
+  lines: ScreenplayLine[];
+}
+
+export interface ScreenplaySummary {
+  scenes: string[];
+  characters: { name: string; lines: number }[];
+  page_count: number;
+}
+
+export const SCREENPLAY_LINES_PER_PAGE = 55;
+const PAGE_WIDTH = 61; // 6.1" between a 1.5" left and 1" right margin
+
+// Industry-standard element positions and widths, in characters
+const LAYOUT: Partial<Record<ScreenplayElementType, { indent: number; width: number; spaceBefore: number }>> = {
+  scene_heading: { indent: 0, width: PAGE_WIDTH, spaceBefore: 1 },
+  action: { indent: 0, width: PAGE_WIDTH, spaceBefore: 1 },
+  character: { indent: 22, width: 38, spaceBefore: 1 },
+  parenthetical: { indent: 16, width: 25, spaceBefore: 0 },
+  dialogue: { indent: 10, width: 35, spaceBefore: 0 },
+  transition: { indent: 0, width: PAGE_WIDTH, spaceBefore: 1 },
+  centered: { indent: 0, width: PAGE_WIDTH, spaceBefore: 1 }
+};
+
+const TITLE_PAGE_KEYS = ['title', 'credit', 'author', 'authors', 'source', 'draft date', 'date', 'contact', 'copyright', 'notes', 'revision'];
+const SCENE_HEADING_PATTERN = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const TRANSITION_PATTERN = /^[A-Z0-9 .'\-]+ TO:$/;
+const SCENE_NUMBER_PATTERN = /\s*#([\w.\-]+)#\s*$/;
+const PARENTHETICAL_PATTERN = /^\(.*\)$/;
+// Plain-text scripts written as "NARRATOR (V.O.): line" rather than Fountain character blocks
+const COLON_DIALOGUE_PATTERN = /^([A-Z][A-Z0-9 .'\-]{0,39}?)\s*(\([^)]*\))?\s*:\s+(\S.*)$/;
+
+/**
+ * Parse script text into screenplay elements. Accepts Fountain and "NAME: dialogue" scripts.
+ */
+export function parseScreenplay(content: string): Screenplay {
+  const lines = stripNotes(content.replace(/\r\n?/g, '\n')).split('\n').map(cleanLine);
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+  const elements: ScreenplayElement[] = [];
+  let inDialogue = false;
+  let colonDialogue = false;
+
+  const push = (type: ScreenplayElementType, text: string, extra: Partial<ScreenplayElement> = {}) => {
+    elements.push({ type, text, ...extra });
+  };
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const previousBlank = i === bodyStart || lines[i - 1].trim() === '';
+    const nextBlank = i + 1 >= lines.length || lines[i + 1].trim() === '';
+    const last = elements[elements.length - 1];
+
+    if (!line) {
+      inDialogue = false;
+      continue;
+    }
+
+    const colonMatch = COLON_DIALOGUE_PATTERN.exec(line);
+    const isColonDialogue = !!colonMatch && !SCENE_HEADING_PATTERN.test(line) && isCharacterName(colonMatch[1]);
+
+    if (inDialogue && !(colonDialogue && isColonDialogue)) {
+      if (PARENTHETICAL_PATTERN.test(line)) {
+        push('parenthetical', line);
+      } else if (last.type === 'dialogue') {
+        last.text += `\n${line}`;
+      } else {
+        push('dialogue', line);
+      }
+      continue;
+    }
+
+    if (/^={3,}$/.test(line)) {
+      push('page_break', '');
+    } else if (line.startsWith('#')) {
+      push('section', line.replace(/^#+\s*/, ''));
+    } else if (line.startsWith('=')) {
+      push('synopsis', line.replace(/^=\s*/, ''));
+    } else if (line.startsWith('>') && line.endsWith('<')) {
+      push('centered', line.slice(1, -1).trim());
+    } else if (line.startsWith('>')) {
+      push('transition', line.slice(1).trim().toUpperCase());
+    } else if (line.startsWith('!')) {
+      appendAction(elements, line.slice(1), previousBlank);
+    } else if ((line.startsWith('.') && !line.startsWith('..')) || (previousBlank && SCENE_HEADING_PATTERN.test(line))) {
+      const heading = line.replace(/^\.(?!\.)/, '');
+      const sceneNumber = SCENE_NUMBER_PATTERN.exec(heading);
+      push('scene_heading', heading.replace(SCENE_NUMBER_PATTERN, '').trim().toUpperCase(), sceneNumber ? { scene_number: sceneNumber[1] } : {});
+    } else if (previousBlank && nextBlank && TRANSITION_PATTERN.test(line)) {
+      push('transition', line);
+    } else if (line.startsWith('@') || (previousBlank && !nextBlank && isCharacterCue(line))) {
+      const dual = line.endsWith('^');
+      push('character', line.replace(/^@/, '').replace(/\s*\^$/, '').trim(), dual ? { dual } : {});
+      inDialogue = true;
+      colonDialogue = false;
+    } else if (isColonDialogue && colonMatch) {
+      // Upper-case extensions such as (V.O.) belong to the cue; anything else is a parenthetical
+      const extension = colonMatch[2] && colonMatch[2] === colonMatch[2].toUpperCase() ? ` ${colonMatch[2]}` : '';
+      push('character', `${colonMatch[1].trim()}${extension}`);
+      if (colonMatch[2] && !extension) {
+        push('parenthetical', colonMatch[2]);
+      }
+      push('dialogue', colonMatch[3].trim());
+      inDialogue = true;
+      colonDialogue = true;
+    } else {
+      appendAction(elements, line, previousBlank);
+    }
+  }
+
+  return { title_page: titlePage, elements };
+}
+
+/**
+ * Serialise a screenplay as Fountain text
+ */
+export function toFountain(screenplay: Screenplay): string {
+  const blocks: string[] = [];
+
+  const titleEntries = Object.entries(screenplay.title_page);
+  if (titleEntries.length > 0) {
+    blocks.push(titleEntries.map(([key, value]) => {
+      const label = key.replace(/\b\w/g, letter => letter.toUpperCase());
+      return value.includes('\n')
+        ? `${label}:\n${value.split('\n').map(line => `   ${line}`).join('\n')}`
+        : `${label}: ${value}`;
+    }).join('\n'));
+  }
+
+  screenplay.elements.forEach(element => {
+    switch (element.type) {
+      case 'scene_heading': {
+        const heading = SCENE_HEADING_PATTERN.test(element.text) ? element.text : `.${element.text}`;
+        blocks.push(element.scene_number ? `${heading} #${element.scene_number}#` : heading);
+        break;
+      }
+      case 'action': {
+        const firstLine = element.text.split('\n')[0];
+        const ambiguous = isCharacterCue(firstLine) || SCENE_HEADING_PATTERN.test(firstLine) ||
+          TRANSITION_PATTERN.test(firstLine) || COLON_DIALOGUE_PATTERN.test(firstLine) || /^[.!@#=>~]/.test(firstLine);
+        blocks.push(ambiguous ? `!${element.text}` : element.text);
+        break;
+      }
+      case 'character': {
+        const cue = isCharacterCue(element.text) ? element.text : `@${element.text}`;
+        blocks.push(element.dual ? `${cue} ^` : cue);
+        break;
+      }
+      case 'parenthetical':
+      case 'dialogue':
+        // Dialogue lines belong to the character block above them
+        blocks[blocks.length - 1] += `\n${element.text}`;
+        break;
+      case 'transition':
+        blocks.push(TRANSITION_PATTERN.test(element.text) ? element.text : `> ${element.text}`);
+        break;
+      case 'centered':
+        blocks.push(`> ${element.text} <`);
+        break;
+      case 'section':
+        blocks.push(`# ${element.text}`);
+        break;
+      case 'synopsis':
+        blocks.push(`= ${element.text}`);
+        break;
+      case 'page_break':
+        blocks.push('===');
+        break;
+    }
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Serialise a screenplay as Final Draft XML (FDX)
+ */
+export function toFdx(screenplay: Screenplay): string {
+  const paragraphTypes: Partial<Record<ScreenplayElementType, string>> = {
+    scene_heading: 'Scene Heading',
+    action: 'Action',
+    character: 'Character',
+    parenthetical: 'Parenthetical',
+    dialogue: 'Dialogue',
+    transition: 'Transition',
+    centered: 'Action'
+  };
+
+  // Group character cues with their lines so dual dialogue can wrap both speakers
+  const units: { dialogue: boolean; dual: boolean; paragraphs: string[] }[] = [];
+  let startsNewPage = false;
+
+  screenplay.elements.forEach(element => {
+    if (element.type === 'page_break') {
+      startsNewPage = true;
+      return;
+    }
+
+    const type = paragraphTypes[element.type];
+    if (!type) return; // Sections and synopses are outline-only
+
+    const attributes = [
+      `Type="${type}"`,
+      element.type === 'centered' ? 'Alignment="Center"' : '',
+      element.scene_number ? `Number="${escapeXml(element.scene_number)}"` : '',
+      startsNewPage ? 'StartsNewPage="Yes"' : ''
+    ].filter(Boolean).join(' ');
+    const paragraph = `    <Paragraph ${attributes}>\n      <Text>${escapeXml(plainText(element.text).replace(/\n/g, ' '))}</Text>\n    </Paragraph>`;
+    startsNewPage = false;
+
+    const last = units[units.length - 1];
+    if ((element.type === 'parenthetical' || element.type === 'dialogue') && last?.dialogue) {
+      last.paragraphs.push(paragraph);
+    } else {
+      units.push({ dialogue: element.type === 'character', dual: !!element.dual, paragraphs: [paragraph] });
+    }
+  });
+
+  const body: string[] = [];
+  units.forEach((unit, index) => {
+    const previous = units[index - 1];
+    if (unit.dual && previous?.dialogue && !previous.dual) {
+      const first = body.pop() as string;
+      body.push(`    <Paragraph>\n      <DualDialogue>\n${indentXml(first)}\n${indentXml(unit.paragraphs.join('\n'))}\n      </DualDialogue>\n    </Paragraph>`);
+    } else {
+      body.push(unit.paragraphs.join('\n'));
+    }
+  });
+
+  const titlePage = screenplay.title_page;
+  const titleParagraphs = [
+    titlePage.title?.toUpperCase(),
+    (titlePage.credit || ((titlePage.author || titlePage.authors) ? 'Written by' : undefined)),
+    titlePage.author || titlePage.authors,
+    titlePage.source,
+    titlePage['draft date'] || titlePage.date,
+    titlePage.contact
+  ].filter((value): value is string => !!value)
+    .flatMap(value => value.split('\n'))
+    .map(value => `      <Paragraph Alignment="Center">\n        <Text>${escapeXml(plainText(value))}</Text>\n      </Paragraph>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...body,
+    '  </Content>',
+    ...(titleParagraphs.length > 0 ? ['  <TitlePage>', '    <Content>', ...titleParagraphs, '    </Content>', '  </TitlePage>'] : []),
+    '</FinalDraft>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Lay a screenplay out on US Letter pages with standard margins.
+ * Scene headings stay with the next element and split dialogue is carried over with (MORE) / (CONT'D).
+ */
+export function paginateScreenplay(screenplay: Screenplay): ScreenplayPage[] {
+  const blocks = buildBlocks(screenplay.elements);
+  const pages: ScreenplayPage[] = [];
+  let current: ScreenplayLine[] = [];
+
+  const newPage = () => {
+    pages.push({ number: pages.length + 1, lines: current });
+    current = [];
+  };
+
+  const addLines = (block: LayoutBlock, lines: ScreenplayLine[]) => {
+    if (current.length > 0) {
+      for (let gap = 0; gap < block.spaceBefore; gap++) {
+        current.push({ type: 'blank', text: '', indent: 0 });
+      }
+    }
+    current.push(...lines);
+  };
+
+  const place = (block: LayoutBlock): void => {
+    const gap = current.length > 0 ? block.spaceBefore : 0;
+    const available = SCREENPLAY_LINES_PER_PAGE - current.length - gap;
+
+    if (block.lines.length <= available) {
+      addLines(block, block.lines);
+      return;
+    }
+
+    const split = splitBlock(block, available);
+    if (split) {
+      addLines(block, split.head);
+      newPage();
+      place(split.tail);
+    } else if (current.length > 0) {
+      newPage();
+      place(block);
+    } else {
+      // A single block longer than a page has to break wherever the page ends
+      addLines(block, block.lines.slice(0, available));
+      newPage();
+      place({ ...block, lines: block.lines.slice(available) });
+    }
+  };
+
+  blocks.forEach((block, index) => {
+    if (block.kind === 'page_break') {
+      if (current.length > 0) newPage();
+      return;
+    }
+
+    // Keep scene headings with the first lines of whatever follows them
+    const next = blocks[index + 1];
+    if (block.keepWithNext && next && next.kind !== 'page_break' && current.length > 0) {
+      const needed = block.spaceBefore + block.lines.length + next.spaceBefore + Math.min(2, next.lines.length);
+      if (current.length + needed > SCREENPLAY_LINES_PER_PAGE) {
+        newPage();
+      }
+    }
+
+    place(block);
+  });
+
+  if (current.length > 0) newPage();
+  return pages;
+}
+
+/**
+ * Render a paginated screenplay as a printable HTML document (used for PDF export)
+ */
+export function renderScreenplayHtml(screenplay: Screenplay): string {
+  const pages = paginateScreenplay(screenplay);
+  const titlePage = renderTitlePage(screenplay.title_page);
+
+  const pageHtml = pages.map(page => `
+    <section class="page">
+      ${page.number > 1 ? `<div class="page-number">${page.number}.</div>` : ''}
+      ${page.lines.map(line => `<div class="line ${line.type}" style="padding-left: ${line.indent}ch">${line.scene_number ? `<span class="scene-number left">${escapeXml(line.scene_number)}</span><span class="scene-number right">${escapeXml(line.scene_number)}</span>` : ''}${escapeXml(line.text)}</div>`).join('\n      ')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeXml(screenplay.title_page.title || 'Screenplay')}</title>
+  <style>
+    @page { size: 8.5in 11in; margin: 0; }
+    body { margin: 0; }
+    .page {
+      position: relative;
+      box-sizing: border-box;
+      width: 8.5in;
+      height: 11in;
+      padding: 1in 1in 1in 1.5in;
+      overflow: hidden;
+      font-family: 'Courier Prime', 'Courier New', Courier, monospace;
+      font-size: 12pt;
+      line-height: 12pt;
+      page-break-after: always;
+    }
+    .line { position: relative; height: 12pt; white-space: pre; }
+    .page-number { position: absolute; top: 0.5in; right: 1in; }
+    .scene-number { position: absolute; }
+    .scene-number.left { left: -0.75in; }
+    .scene-number.right { right: 0; }
+    .title-page .title-block { margin-top: 3in; text-align: center; white-space: pre-wrap; }
+    .title-page .title-block p { margin: 0 0 12pt 0; }
+    .title-page .contact { position: absolute; bottom: 1in; left: 1.5in; white-space: pre-wrap; }
+    .title-page .draft-date { position: absolute; bottom: 1in; right: 1in; white-space: pre-wrap; }
+  </style>
+</head>
+<body>${titlePage}${pageHtml}
+</body>
+</html>
+`;
+}
+
+/**
+ * Summarise scenes, speaking characters and page count for the script editor
+ */
+export function summarizeScreenplay(screenplay: Screenplay): ScreenplaySummary {
+  const characters = new Map<string, number>();
+  let speaker: string | null = null;
+
+  screenplay.elements.forEach(element => {
+    if (element.type === 'character') {
+      speaker = element.text.replace(/\s*\(.*\)\s*$/, '').trim();
+      characters.set(speaker, characters.get(speaker) || 0);
+    } else if (element.type === 'dialogue' && speaker) {
+      characters.set(speaker, (characters.get(speaker) || 0) + 1);
+    }
+  });
+
+  return {
+    scenes: screenplay.elements.filter(element => element.type === 'scene_heading').map(element => element.text),
+    characters: Array.from(characters.entries())
+      .map(([name, lines]) => ({ name, lines }))
+      .sort((a, b) => b.lines - a.lines),
+    page_count: paginateScreenplay(screenplay).length
+  };
+}
+
+// Private helper methods
+
+interface LayoutBlock {
+  kind: 'single' | 'action' | 'dialogue' | 'page_break';
+  lines: ScreenplayLine[];
+  spaceBefore: number;
+  keepWithNext?: boolean;
+  speaker?: string;
+}
+
+function buildBlocks(elements: ScreenplayElement[]): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [];
+
+  elements.forEach(element => {
+    if (element.type === 'page_break') {
+      blocks.push({ kind: 'page_break', lines: [], spaceBefore: 0 });
+      return;
+    }
+
+    const layout = LAYOUT[element.type];
+    if (!layout) return; // Sections and synopses are not printed
+
+    const text = plainText(element.type === 'character' || element.type === 'scene_heading' || element.type === 'transition'
+      ? element.text.toUpperCase()
+      : element.text);
+    const lines: ScreenplayLine[] = wrapText(text, layout.width).map(line => ({
+      type: element.type,
+      text: line,
+      indent: element.type === 'transition'
+        ? Math.max(0, PAGE_WIDTH - line.length)
+        : element.type === 'centered' ? Math.max(0, Math.floor((PAGE_WIDTH - line.length) / 2)) : layout.indent
+    }));
+
+    if (element.type === 'scene_heading' && element.scene_number) {
+      lines[0].scene_number = element.scene_number;
+    }
+
+    const last = blocks[blocks.length - 1];
+    if ((element.type === 'parenthetical' || element.type === 'dialogue') && last?.kind === 'dialogue') {
+      last.lines.push(...lines);
+    } else if (element.type === 'character') {
+      blocks.push({ kind: 'dialogue', lines, spaceBefore: layout.spaceBefore, speaker: text.replace(/\s*\(CONT'D\)\s*$/i, '') });
+    } else {
+      blocks.push({
+        kind: element.type === 'action' ? 'action' : 'single',
+        lines,
+        spaceBefore: layout.spaceBefore,
+        keepWithNext: element.type === 'scene_heading'
+      });
+    }
+  });
+
+  return blocks;
+}
+
+function splitBlock(block: LayoutBlock, available: number): { head: ScreenplayLine[]; tail: LayoutBlock } | null {
+  if (block.kind === 'action') {
+    // Leave at least two lines on each page
+    if (available < 2 || block.lines.length - available < 2) return null;
+    return { head: block.lines.slice(0, available), tail: { ...block, lines: block.lines.slice(available), spaceBefore: 0 } };
+  }
+
+  if (block.kind === 'dialogue' && block.speaker) {
+    const cueLines = block.lines.findIndex(line => line.type !== 'character');
+    const maxHead = available - 1; // Room for (MORE)
+    const minHead = cueLines + 2;
+    if (cueLines < 1 || maxHead < minHead || block.lines.length - minHead < 2) return null;
+
+    // Prefer breaking after a sentence, and never leave a parenthetical dangling at the bottom
+    let cut = Math.min(maxHead, block.lines.length - 2);
+    for (let index = cut; index >= minHead; index--) {
+      const previous = block.lines[index - 1];
+      if (previous.type === 'dialogue' && /[.!?]["')]?$/.test(previous.text)) {
+        cut = index;
+        break;
+      }
+    }
+    while (cut > minHead && block.lines[cut - 1].type === 'parenthetical') {
+      cut--;
+    }
+
+    const cueIndent = LAYOUT.character!.indent;
+    return {
+      head: [...block.lines.slice(0, cut), { type: 'more', text: '(MORE)', indent: cueIndent }],
+      tail: {
+        ...block,
+        spaceBefore: 0,
+        lines: [{ type: 'character', text: `${block.speaker} (CONT'D)`, indent: cueIndent }, ...block.lines.slice(cut)]
+      }
+    };
+  }
+
+  return null;
+}
+
+function renderTitlePage(titlePage: Record<string, string>): string {
+  const title = titlePage.title;
+  if (!title) return '';
+
+  const author = titlePage.author || titlePage.authors;
+  const credit = titlePage.credit || (author ? 'Written by' : '');
+  const block = [title.toUpperCase(), credit, author, titlePage.source]
+    .filter(Boolean)
+    .map(value => `<p>${escapeXml(plainText(value as string))}</p>`)
+    .join('');
+
+  return `
+    <section class="page title-page">
+      <div class="title-block">${block}</div>
+      ${titlePage.contact ? `<div class="contact">${escapeXml(titlePage.contact)}</div>` : ''}
+      ${titlePage['draft date'] || titlePage.date ? `<div class="draft-date">${escapeXml(titlePage['draft date'] || titlePage.date)}</div>` : ''}
+    </section>`;
+}
+
+function parseTitlePage(lines: string[]): { titlePage: Record<string, string>; bodyStart: number } {
+  const titlePage: Record<string, string> = {};
+  let index = 0;
+  while (index < lines.length && lines[index].trim() === '') index++;
+
+  const keyPattern = new RegExp(`^(${TITLE_PAGE_KEYS.join('|')})\\s*:\\s*(.*)$`, 'i');
+  if (!keyPattern.test(lines[index] || '')) {
+    return { titlePage, bodyStart: 0 };
+  }
+
+  let currentKey: string | null = null;
+  for (; index < lines.length && lines[index].trim() !== ''; index++) {
+    const line = lines[index];
+    const match = keyPattern.exec(line.trim());
+    if (match && !/^\s{2,}|^\t/.test(line)) {
+      currentKey = match[1].toLowerCase();
+      titlePage[currentKey] = match[2].trim();
+    } else if (currentKey) {
+      titlePage[currentKey] = [titlePage[currentKey], line.trim()].filter(Boolean).join('\n');
+    }
+  }
+
+  return { titlePage, bodyStart: index };
+}
+
+function appendAction(elements: ScreenplayElement[], text: string, newParagraph: boolean): void {
+  const last = elements[elements.length - 1];
+  if (!newParagraph && last?.type === 'action') {
+    last.text += `\n${text}`;
+  } else {
+    elements.push({ type: 'action', text });
+  }
+}
+
+function isCharacterName(name: string): boolean {
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && name.trim().split(/\s+/).length <= 4;
+}
+
+function isCharacterCue(line: string): boolean {
+  const name = line.replace(/\s*\^$/, '').replace(/\s*\(.*\)\s*$/, '').trim();
+  return name.length > 0 && name.length <= 40 && isCharacterName(name) &&
+    !SCENE_HEADING_PATTERN.test(line) && !TRANSITION_PATTERN.test(line) && !/[:!?.,]$/.test(name);
+}
+
+function cleanLine(line: string): string {
+  // Markdown bold around a whole line is common in generated scripts
+  return line.replace(/\s+$/, '').replace(/^(\s*)\*\*(.+)\*\*$/, '$1$2');
+}
+
+function stripNotes(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\[\[[\s\S]*?\]\]/g, '');
+}
+
+function plainText(text: string): string {
+  return text
+    .replace(/\*{1,3}([^*\n]+)\*{1,3}/g, '$1')
+    .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1$2')
+    .replace(/\\([*_])/g, '$1');
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+      }
+
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= width) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function indentXml(xml: string): string {
+  return xml.split('\n').map(line => `    ${line}`).join('\n');
+}
@@ -0,0 +1,146 @@
+// Shot brief utilities
+// Dependency-free so both the main and renderer processes can build briefs and draft prompts
+
+import {
+  Character,
+  CharacterArchetype,
+  Script,
+  Shot,
+  SoundNotes,
+  Storyboard,
+  UnifiedShotBrief
+} from '../types/index.js';
+
+export interface ShotBriefSources {
+  storyboard?: Storyboard | null;
+  soundNotes?: SoundNotes | null;
+  script?: Script | null;
+  characters?: CharacterArchetype[];
+  presenters?: Character[]; // Character bible entries take precedence over archetypes with the same name
+}
+
+const NARRATIVE_CONTEXT_LENGTH = 600;
+
+/**
+ * Generate a schema-compliant prompt for Veo3
+ */
+export function generateVeo3Prompt(briefData: {
+  shotType: string;
+  subject: string;
+  action: string;
+  cameraAngle: string;
+  lighting: string;
+  mood: string;
+  style: string;
+  duration: number;
+}): string {
+  return `For Veo3: ${briefData.shotType} shot of ${briefData.subject} ${briefData.action}, ` +
+         `${briefData.cameraAngle} camera angle, ${briefData.lighting} lighting, ` +
+         `${briefData.mood} mood, ${briefData.style} style, ${briefData.duration}s duration`;
+}
+
+/**
+ * Combine a shot with its sound notes, script and characters into a single brief
+ */
+export function buildUnifiedShotBrief(shot: Shot, sources: ShotBriefSources = {}): UnifiedShotBrief {
+  const shotText = [shot.character_action, shot.dialogue_narration, shot.visual_style, shot.camera_angle]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  const characterDescriptions: Record<string, string> = {};
+  (sources.characters || [])
+    .filter(character => character.name && shotText.includes(character.name.toLowerCase()))
+    .forEach(character => {
+      characterDescriptions[character.name] = [
+        character.role,
+        character.visual_description,
+        character.satirical_traits?.length ? `traits: ${character.satirical_traits.join(', ')}` : ''
+      ].filter(Boolean).join('; ');
+    });
+
+  (sources.presenters || [])
+    .filter(presenter => presenter.name && shotText.includes(presenter.name.toLowerCase()))
+    .forEach(presenter => {
+      characterDescriptions[presenter.name] = [
+        presenter.role,
+        presenter.visual_description,
+        presenter.wardrobe ? `wardrobe: ${presenter.wardrobe}` : '',
+        presenter.voice_notes ? `voice: ${presenter.voice_notes}` : ''
+      ].filter(Boolean).join('; ');
+    });
+
+  const narrative = sources.script?.outline || sources.script?.content || '';
+
+  return {
+    shot,
+    sound_notes: sources.soundNotes || undefined,
+    script_context: {
+      dialogue: shot.dialogue_narration || '',
+      narrative_context: firstLine(narrative, NARRATIVE_CONTEXT_LENGTH)
+    },
+    character_consistency: {
+      character_descriptions: characterDescriptions,
+      visual_continuity_notes: sources.storyboard?.visual_concept || ''
+    },
+    technical_constraints: {
+      duration_seconds: shot.length_seconds,
+      visual_style: shot.visual_style,
+      camera_specifications: shot.camera_angle
+    }
+  };
+}
+
+/**
+ * Render a brief as plain text for an LLM prompt
+ */
+export function formatShotBrief(brief: UnifiedShotBrief): string {
+  const { shot, sound_notes, script_context, character_consistency, technical_constraints } = brief;
+  const characters = Object.entries(character_consistency.character_descriptions)
+    .map(([name, description]) => `- ${name}: ${description}`)
+    .join('\n');
+
+  return `SHOT ${shot.panel_number} (${technical_constraints.duration_seconds}s)
+Camera: ${technical_constraints.camera_specifications}
+Action: ${shot.character_action}
+Lighting/Mood: ${shot.lighting_mood}
+Visual Style: ${technical_constraints.visual_style}
+Dialogue/Narration: ${script_context.dialogue || 'None'}
+
+SOUND:
+- Ambient/Foley: ${sound_notes?.ambient_foley || 'Not specified'}
+- SFX: ${sound_notes?.specific_sfx || 'Not specified'}
+- Broadcast Audio: ${sound_notes?.broadcast_audio || 'Not specified'}
+
+CHARACTERS:
+${characters || '- No recurring characters in this shot'}
+
+VISUAL CONTINUITY: ${character_consistency.visual_continuity_notes || 'Not specified'}
+NARRATIVE CONTEXT: ${script_context.narrative_context || 'Not specified'}`;
+}
+
+/**
+ * Template prompt used as a starting point before the agent has written one
+ */
+export function draftPromptFromBrief(brief: UnifiedShotBrief): string {
+  const { shot } = brief;
+  const characters = Object.keys(brief.character_consistency.character_descriptions);
+
+  return generateVeo3Prompt({
+    shotType: firstLine(shot.camera_angle, 60),
+    subject: characters.length > 0 ? characters.join(' and ') : 'the scene',
+    action: firstLine(shot.character_action, 200),
+    cameraAngle: firstLine(brief.technical_constraints.camera_specifications, 60),
+    lighting: firstLine(shot.lighting_mood, 80),
+    mood: brief.character_consistency.visual_continuity_notes
+      ? firstLine(brief.character_consistency.visual_continuity_notes, 80)
+      : 'satirical',
+    style: firstLine(brief.technical_constraints.visual_style, 80),
+    duration: brief.technical_constraints.duration_seconds
+  });
+}
+
+function firstLine(text: string, maxLength: number): string {
+  const line = (text || '').split('\n').find(l => l.trim().length > 0)?.trim() || '';
+  return line.length <= maxLength ? line : line.substring(0, maxLength - 3) + '...';
+}
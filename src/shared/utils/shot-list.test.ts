@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Prompt, Shot, SoundNotes } from '../types';
+import { buildShotList, formatTimecode, toCmx3600Edl, toShotListCsv } from './shot-list';
+
+function shot(panel: number, lengthSeconds: number, overrides: Partial<Shot> = {}): Shot {
+  return {
+    id: `shot-${panel}`,
+    script_id: 'script-1',
+    panel_number: panel,
+    length_seconds: lengthSeconds,
+    camera_angle: 'Wide',
+    character_action: 'Presenter walks in',
+    lighting_mood: 'Bright studio',
+    visual_style: 'News desk',
+    created_at: new Date(0),
+    ...overrides
+  };
+}
+
+const shots = [
+  shot(2, 0.5, { camera_angle: 'Close-up', character_action: 'Hen looks\nup', dialogue_narration: 'She said "no", twice' }),
+  shot(1, 6.2),
+  shot(3, 0.5)
+];
+
+const soundNotes: SoundNotes[] = [
+  { id: 'sound-1', shot_id: 'shot-1', ambient_foley: 'Studio hum', specific_sfx: 'Door, slam', created_at: new Date(0) }
+];
+
+const prompts: Prompt[] = [
+  { id: 'prompt-1', shot_id: 'shot-1', generated_prompt_text: 'Old prompt', ai_model: 'Veo3', version: 1, created_at: new Date(0) },
+  { id: 'prompt-2', shot_id: 'shot-1', generated_prompt_text: 'Wide shot of a news desk', ai_model: 'Veo3', version: 2, created_at: new Date(0) }
+];
+
+describe('shot list export', () => {
+  it('formats non-drop-frame timecode', () => {
+    expect(formatTimecode(0)).toBe('00:00:00:00');
+    expect(formatTimecode(3661.5, 24)).toBe('01:01:01:12');
+    expect(formatTimecode(6.2, 25)).toBe('00:00:06:05');
+  });
+
+  it('writes a CMX3600 EDL whose source and record durations match', () => {
+    const edl = toCmx3600Edl(buildShotList(shots, soundNotes, prompts), { title: 'Cage-free\nlies', fps: 25 });
+
+    expect(edl).toBe([
+      'TITLE: CAGE-FREE LIES',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  AX       V     C        00:00:00:00 00:00:06:05 01:00:00:00 01:00:06:05',
+      '* FROM CLIP NAME: PANEL 1 - Wide',
+      '* ACTION: Presenter walks in',
+      '* LIGHTING: Bright studio',
+      '* STYLE: News desk',
+      '* AMBIENT: Studio hum',
+      '* SFX: Door, slam',
+      '* PROMPT: Wide shot of a news desk',
+      '',
+      '002  AX       V     C        00:00:00:00 00:00:00:13 01:00:06:05 01:00:06:18',
+      '* FROM CLIP NAME: PANEL 2 - Close-up',
+      '* ACTION: Hen looks up',
+      '* LIGHTING: Bright studio',
+      '* STYLE: News desk',
+      '* DIALOGUE: She said "no", twice',
+      '',
+      '003  AX       V     C        00:00:00:00 00:00:00:13 01:00:06:18 01:00:07:06',
+      '* FROM CLIP NAME: PANEL 3 - Wide',
+      '* ACTION: Presenter walks in',
+      '* LIGHTING: Bright studio',
+      '* STYLE: News desk',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('writes a CSV row per shot with contiguous timecodes', () => {
+    const csv = toShotListCsv(buildShotList(shots, soundNotes, prompts), { fps: 25 });
+
+    expect(csv).toBe([
+      'Panel,Start,End,Duration (s),Camera Angle,Character Action,Lighting / Mood,Visual Style,Dialogue / Narration,Ambient / Foley,Specific SFX,Broadcast Audio,Prompt,Prompt Model,Prompt Version',
+      '1,00:00:00:00,00:00:06:05,6.2,Wide,Presenter walks in,Bright studio,News desk,,Studio hum,"Door, slam",,Wide shot of a news desk,Veo3,2',
+      '2,00:00:06:05,00:00:06:18,0.5,Close-up,"Hen looks\nup",Bright studio,News desk,"She said ""no"", twice",,,,,,',
+      '3,00:00:06:18,00:00:07:06,0.5,Wide,Presenter walks in,Bright studio,News desk,,,,,,,',
+      ''
+    ].join('\r\n'));
+  });
+});
@@ -0,0 +1,251 @@
+// Shot list utilities
+// Dependency-free CSV, CMX3600 EDL and printable HTML shot lists for handing storyboards to editors
+
+import { Prompt, Shot, SoundNotes } from '../types/index.js';
+
+export interface ShotListEntry {
+  shot: Shot;
+  sound_notes: SoundNotes | null;
+  prompt: Prompt | null; // Latest prompt version for the shot
+  start_seconds: number; // Position on the timeline, from the running total of earlier shots
+}
+
+export interface ShotListOptions {
+  title: string;
+  fps?: number;
+}
+
+export const SHOT_LIST_FRAME_RATES = [24, 25, 30];
+export const SHOT_LIST_PRINT_MARGIN = 0.5; // Inches
+const DEFAULT_FPS = 24;
+// Record timecode conventionally starts at one hour so pre-roll can sit before the first event
+const RECORD_START_SECONDS = 3600;
+const EDL_REEL = 'AX';
+
+const CSV_COLUMNS = [
+  'Panel', 'Start', 'End', 'Duration (s)', 'Camera Angle', 'Character Action', 'Lighting / Mood', 'Visual Style',
+  'Dialogue / Narration', 'Ambient / Foley', 'Specific SFX', 'Broadcast Audio', 'Prompt', 'Prompt Model', 'Prompt Version'
+];
+
+/**
+ * Order shots by panel and attach their sound notes, latest prompt and timeline position
+ */
+export function buildShotList(shots: Shot[], soundNotes: SoundNotes[] = [], prompts: Prompt[] = []): ShotListEntry[] {
+  const soundByShot = new Map(soundNotes.map(notes => [notes.shot_id, notes]));
+  const promptByShot = new Map<string, Prompt>();
+  prompts.forEach(prompt => {
+    const current = promptByShot.get(prompt.shot_id);
+    if (!current || prompt.version > current.version) {
+      promptByShot.set(prompt.shot_id, prompt);
+    }
+  });
+
+  let position = 0;
+  return [...shots]
+    .sort((a, b) => a.panel_number - b.panel_number)
+    .map(shot => {
+      const entry: ShotListEntry = {
+        shot,
+        sound_notes: soundByShot.get(shot.id) || null,
+        prompt: promptByShot.get(shot.id) || null,
+        start_seconds: position
+      };
+      position += shot.length_seconds;
+      return entry;
+    });
+}
+
+/**
+ * Format seconds as non-drop-frame SMPTE timecode (HH:MM:SS:FF)
+ */
+export function formatTimecode(seconds: number, fps: number = DEFAULT_FPS): string {
+  return framesToTimecode(Math.round(seconds * fps), fps);
+}
+
+/**
+ * Serialise a shot list as CSV (RFC 4180, one row per shot)
+ */
+export function toShotListCsv(entries: ShotListEntry[], options: Partial<ShotListOptions> = {}): string {
+  const fps = options.fps || DEFAULT_FPS;
+  const timeline = timelineFrames(entries, fps, 0);
+  const rows = entries.map(({ shot, sound_notes, prompt }, index) => [
+    shot.panel_number,
+    framesToTimecode(timeline[index].start, fps),
+    framesToTimecode(timeline[index].end, fps),
+    shot.length_seconds,
+    shot.camera_angle,
+    shot.character_action,
+    shot.lighting_mood,
+    shot.visual_style,
+    shot.dialogue_narration,
+    sound_notes?.ambient_foley,
+    sound_notes?.specific_sfx,
+    sound_notes?.broadcast_audio,
+    prompt?.generated_prompt_text,
+    prompt?.ai_model,
+    prompt?.version
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(value => escapeCsv(value)).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Serialise a shot list as a CMX3600 EDL. Each shot is a video cut on an auxiliary reel;
+ * shot details, sound notes and prompts are carried as comments so they show up in the editor's timeline.
+ */
+export function toCmx3600Edl(entries: ShotListEntry[], options: ShotListOptions): string {
+  const fps = options.fps || DEFAULT_FPS;
+  const lines = [
+    `TITLE: ${edlText(options.title).toUpperCase().slice(0, 70) || 'STORYBOARD'}`,
+    'FCM: NON-DROP FRAME',
+    ''
+  ];
+
+  const timeline = timelineFrames(entries, fps, RECORD_START_SECONDS * fps);
+  entries.forEach(({ shot, sound_notes, prompt }, index) => {
+    const { start, end } = timeline[index];
+    const sourceIn = framesToTimecode(0, fps);
+    const sourceOut = framesToTimecode(end - start, fps);
+    const recordIn = framesToTimecode(start, fps);
+    const recordOut = framesToTimecode(end, fps);
+
+    lines.push(`${String(index + 1).padStart(3, '0')}  ${EDL_REEL.padEnd(8)} V     C        ${sourceIn} ${sourceOut} ${recordIn} ${recordOut}`);
+    lines.push(`* FROM CLIP NAME: PANEL ${shot.panel_number}${shot.camera_angle ? ` - ${edlText(shot.camera_angle).slice(0, 60)}` : ''}`);
+
+    const comments: [string, string | undefined][] = [
+      ['ACTION', shot.character_action],
+      ['LIGHTING', shot.lighting_mood],
+      ['STYLE', shot.visual_style],
+      ['DIALOGUE', shot.dialogue_narration],
+      ['AMBIENT', sound_notes?.ambient_foley],
+      ['SFX', sound_notes?.specific_sfx],
+      ['BROADCAST AUDIO', sound_notes?.broadcast_audio],
+      ['PROMPT', prompt?.generated_prompt_text]
+    ];
+    comments
+      .filter(([, value]) => value && value.trim())
+      .forEach(([label, value]) => lines.push(`* ${label}: ${edlText(value as string)}`));
+
+    lines.push('');
+  });
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Render a shot list as a self-contained printable HTML document (landscape, one row per shot)
+ */
+export function renderShotListHtml(entries: ShotListEntry[], options: ShotListOptions): string {
+  const fps = options.fps || DEFAULT_FPS;
+  const totalSeconds = entries.reduce((total, entry) => total + entry.shot.length_seconds, 0);
+
+  const rows = entries.map(({ shot, sound_notes, prompt, start_seconds }) => {
+    const sound = [
+      sound_notes?.ambient_foley && `<p><strong>Ambient:</strong> ${escapeHtml(sound_notes.ambient_foley)}</p>`,
+      sound_notes?.specific_sfx && `<p><strong>SFX:</strong> ${escapeHtml(sound_notes.specific_sfx)}</p>`,
+      sound_notes?.broadcast_audio && `<p><strong>Broadcast:</strong> ${escapeHtml(sound_notes.broadcast_audio)}</p>`
+    ].filter(Boolean).join('');
+
+    return `
+        <tr>
+          <td class="panel">${shot.panel_number}</td>
+          <td class="timing">${formatTimecode(start_seconds, fps)}<br><small>${shot.length_seconds}s</small></td>
+          <td>${escapeHtml(shot.camera_angle)}</td>
+          <td>${escapeHtml(shot.character_action)}</td>
+          <td>${escapeHtml(shot.lighting_mood)}${shot.visual_style ? `<p class="muted">${escapeHtml(shot.visual_style)}</p>` : ''}</td>
+          <td>${escapeHtml(shot.dialogue_narration || '')}</td>
+          <td>${sound || '<span class="muted">-</span>'}</td>
+          <td class="prompt">${prompt ? `${escapeHtml(prompt.generated_prompt_text)}<p class="muted">${escapeHtml(prompt.ai_model)} v${prompt.version}</p>` : '<span class="muted">-</span>'}</td>
+        </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(options.title)} - Shot List</title>
+  <style>
+    @page { size: 11in 8.5in; }
+    @media screen { body { padding: 0.5in; } }
+    body { margin: 0; font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 9pt; color: #222; }
+    header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #222; margin-bottom: 8pt; }
+    h1 { font-size: 16pt; margin: 0 0 4pt 0; }
+    table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+    th { text-align: left; background: #eee; border: 1px solid #999; padding: 4pt; font-size: 8pt; text-transform: uppercase; }
+    td { vertical-align: top; border: 1px solid #bbb; padding: 4pt; white-space: pre-wrap; word-wrap: break-word; }
+    td p { margin: 0 0 3pt 0; }
+    .panel { font-size: 14pt; font-weight: bold; text-align: center; }
+    .timing { font-family: 'Courier New', monospace; }
+    .prompt { font-size: 8pt; }
+    .muted { color: #777; }
+    col.narrow { width: 5%; }
+    col.timing { width: 9%; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(options.title)}</h1>
+    <span>${entries.length} shot${entries.length === 1 ? '' : 's'} • ${formatTimecode(totalSeconds, fps)} @ ${fps} fps</span>
+  </header>
+  <table>
+    <colgroup>
+      <col class="narrow"><col class="timing"><col><col><col><col><col><col>
+    </colgroup>
+    <thead>
+      <tr>
+        <th>Panel</th><th>Timing</th><th>Camera</th><th>Action</th><th>Lighting / Style</th><th>Dialogue</th><th>Sound</th><th>Prompt</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+// Private helper methods
+
+function framesToTimecode(totalFrames: number, fps: number): string {
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    frames
+  ].map(value => String(value).padStart(2, '0')).join(':');
+}
+
+function timelineFrames(entries: ShotListEntry[], fps: number, startFrame: number): { start: number; end: number }[] {
+  // Each shot is rounded to whole frames once so source and record durations agree and cuts stay contiguous
+  let position = startFrame;
+  return entries.map(({ shot }) => {
+    const start = position;
+    position += Math.round(shot.length_seconds * fps);
+    return { start, end: position };
+  });
+}
+
+function escapeCsv(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function edlText(text: string): string {
+  // EDL events and comments are one line each
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
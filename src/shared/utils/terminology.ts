@@ -0,0 +1,231 @@
+// Terminology linter
+// Finds the terms a satirical lens says to avoid, in any inflection, and rewrites the base forms with its preferred terms
+
+import { TerminologyGuidance } from '../types/index.js';
+import { parseScreenplay } from './screenplay.js';
+
+// Where a term was used. The production's own voice should follow the lens; characters and quotes may not.
+export type TerminologyUsage = 'narrative' | 'dialogue' | 'quote';
+
+export interface TerminologyMatch {
+  start: number;
+  end: number;
+  text: string;
+  line: number; // 1-based
+  usage: TerminologyUsage;
+  guidance: TerminologyGuidance;
+  replacements: string[]; // Cased like the matched text, with its possessive carried over
+  fixable: boolean; // False for inflected uses (plurals, "-ality", "welfare of animals"): the replacements are suggestions only
+}
+
+const WORD_SEPARATOR = '[\\s\\-\\u2010-\\u2014]+';
+// Only "'s": a bare trailing apostrophe is as likely to close a scare quote
+const POSSESSIVE = "(?:['\\u2019]s)?";
+const POSSESSIVE_SUFFIX = /['\u2019]s$/i;
+const DOUBLE_QUOTES = /["“”]/g;
+
+/**
+ * Every use of an avoided term in the text, in order. Uses that sit inside one of the lens's preferred
+ * phrases (e.g. "animal products" within "people who buy animal products") are not reported.
+ * With `script` set, lines of screenplay dialogue are marked as dialogue.
+ */
+export function lintTerminology(text: string, terminology: TerminologyGuidance[], options: { script?: boolean } = {}): TerminologyMatch[] {
+  if (!text || terminology.length === 0) return [];
+
+  const preferred = preferredRanges(text, terminology);
+  const dialogueLines = options.script ? findDialogueLines(text) : new Set<number>();
+  const found: TerminologyMatch[] = [];
+
+  terminology.forEach(guidance => {
+    const pattern = avoidPattern(guidance.avoid);
+    if (!pattern) return;
+    const baseForms = new Set(expandAlternatives(guidance.avoid.toLowerCase().trim()).map(words => words.join(' ')));
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (preferred.some(range => start >= range.start && end <= range.end)) continue;
+
+      const line = text.slice(0, start).split('\n').length;
+      const possessive = match[0].match(POSSESSIVE_SUFFIX)?.[0];
+      const term = possessive ? match[0].slice(0, -possessive.length) : match[0];
+      found.push({
+        start,
+        end,
+        text: match[0],
+        line,
+        usage: isQuoted(text, start, end) ? 'quote' : dialogueLines.has(line) ? 'dialogue' : 'narrative',
+        guidance,
+        replacements: terminologyReplacements(guidance.prefer).map(replacement => withPossessive(matchCase(replacement, term), possessive)),
+        fixable: baseForms.has(term.toLowerCase().replace(new RegExp(WORD_SEPARATOR, 'g'), ' '))
+      });
+    }
+  });
+
+  // Where terms overlap, the earliest and then the longest wins
+  const ordered = found.sort((a, b) => a.start - b.start || b.end - a.end);
+  return ordered.filter((match, index) => !ordered.slice(0, index).some(previous => match.start < previous.end));
+}
+
+/**
+ * The alternatives in a "prefer" entry, e.g. "animal wellbeing or animal liberation" gives both
+ */
+export function terminologyReplacements(prefer: string): string[] {
+  return prefer
+    .replace(/\s*\([^)]*\)/g, '')
+    .split(/\s+or\s+|\s*;\s*/)
+    .map(replacement => replacement.trim())
+    .filter(replacement => replacement.length > 0);
+}
+
+/**
+ * Replace one match with one of its replacements (the first by default). Inflected uses are left for the writer
+ * to reword, since swapping in the base-form replacement would break the grammar.
+ */
+export function applyTerminologyFix(text: string, match: TerminologyMatch, replacement: string = match.replacements[0]): string {
+  if (!match.fixable || !replacement || text.slice(match.start, match.end) !== match.text) return text;
+  return text.slice(0, match.start) + replacement + text.slice(match.end);
+}
+
+/**
+ * Replace every fixable match with its first replacement
+ */
+export function applyAllTerminologyFixes(text: string, matches: TerminologyMatch[]): string {
+  return [...matches]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, match) => applyTerminologyFix(result, match), text);
+}
+
+// Private helper methods
+
+/**
+ * One case-insensitive pattern for an avoided term: "/" alternatives, singular and plural forms,
+ * possessives, -ality nouns from -al adjectives, hyphenated or line-broken phrases and "Y of (the) X"
+ * for two-word terms (so "animal welfare" also finds "the welfare of animals")
+ */
+function avoidPattern(avoid: string): RegExp | null {
+  const phrases = expandAlternatives(avoid.toLowerCase().trim());
+
+  const variants = phrases.flatMap(words => {
+    const forms = words.map((word, index) => wordForms(word, index === words.length - 1));
+    const variant = [forms.join(WORD_SEPARATOR)];
+    if (words.length === 2) {
+      variant.push(`${wordForms(words[1], false)}${WORD_SEPARATOR}of(?:${WORD_SEPARATOR}the)?${WORD_SEPARATOR}${wordForms(words[0], true)}`);
+    }
+    return variant;
+  });
+
+  return variants.length > 0 ? new RegExp(`(?<![\\w])(?:${variants.join('|')})(?![\\w])`, 'gi') : null;
+}
+
+/**
+ * "meat/dairy industry" -> [["meat", "industry"], ["dairy", "industry"]]
+ */
+function expandAlternatives(avoid: string): string[][] {
+  return avoid
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .reduce<string[][]>((phrases, word) => {
+      const options = word.split('/').filter(option => option.length > 0);
+      return phrases.flatMap(phrase => options.map(option => [...phrase, option]));
+    }, [[]])
+    .filter(phrase => phrase.length > 0);
+}
+
+function wordForms(word: string, last: boolean): string {
+  const singular = singularize(word);
+  const forms = new Set([singular, pluralize(singular), word]);
+  if (last && singular.endsWith('al')) {
+    forms.add(`${singular}ity`);
+  }
+
+  const alternatives = [...forms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  return `(?:${alternatives})${last ? POSSESSIVE : ''}`;
+}
+
+function singularize(word: string): string {
+  if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/(?:ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word) && !/(?:is|us|ss)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return word.slice(0, -1) + 'ies';
+  if (/(?:ch|sh|s|x|z)$/.test(word)) return word + 'es';
+  return word + 's';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function preferredRanges(text: string, terminology: TerminologyGuidance[]): { start: number; end: number }[] {
+  const lower = text.toLowerCase();
+
+  return terminology
+    .flatMap(guidance => terminologyReplacements(guidance.prefer))
+    .flatMap(phrase => {
+      const ranges: { start: number; end: number }[] = [];
+      const needle = phrase.toLowerCase();
+      for (let index = lower.indexOf(needle); index !== -1; index = lower.indexOf(needle, index + 1)) {
+        ranges.push({ start: index, end: index + needle.length });
+      }
+      return ranges;
+    });
+}
+
+/**
+ * Inside double quotes on the same line, or directly wrapped in single (scare) quotes
+ */
+function isQuoted(text: string, start: number, end: number): boolean {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  const before = (text.slice(lineStart, start).match(DOUBLE_QUOTES) || []).length;
+  const after = (text.slice(end, lineEnd).match(DOUBLE_QUOTES) || []).length;
+
+  if (before % 2 === 1 && after > 0) return true;
+  return /['‘]/.test(text[start - 1] || '') && /['’]/.test(text[end] || '');
+}
+
+/**
+ * Line numbers holding dialogue, matched back from the parsed screenplay
+ */
+function findDialogueLines(text: string): Set<number> {
+  const spoken = new Set(
+    parseScreenplay(text).elements
+      .filter(element => element.type === 'dialogue')
+      .flatMap(element => element.text.split('\n').map(line => line.trim()))
+  );
+
+  const lines = new Set<number>();
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    const afterCue = trimmed.slice(trimmed.indexOf(':') + 1).trim();
+    if (trimmed && (spoken.has(trimmed) || (trimmed.includes(':') && spoken.has(afterCue)))) {
+      lines.add(index + 1);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Re-attach a possessive, dropping the "s" after a replacement that already ends in one
+ */
+function withPossessive(replacement: string, possessive?: string): string {
+  if (!possessive) return replacement;
+  return /s$/i.test(replacement) ? replacement + possessive.charAt(0) : replacement + possessive;
+}
+
+/**
+ * Carry over upper case (screenplay cues and headings) or a leading capital
+ */
+function matchCase(replacement: string, original: string): string {
+  if (original.length > 1 && original === original.toUpperCase() && original !== original.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (/^[A-Z]/.test(original)) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
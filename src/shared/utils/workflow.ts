@@ -0,0 +1,33 @@
+// Workflow stage display rules
+// Labels and icons for persisted workflow stages, shared by the dashboards that show progress
+
+import { WorkflowStageProgress, WorkflowStageStatus } from '../types/index.js';
+
+export const WORKFLOW_STATUS_LABELS: Record<WorkflowStageStatus, string> = {
+  not_started: 'Not Started',
+  ready: 'Ready',
+  in_progress: 'In Progress',
+  review_required: 'Needs Review',
+  completed: 'Completed',
+  failed: 'Failed',
+  blocked: 'Blocked'
+};
+
+export const WORKFLOW_STATUS_ICONS: Record<WorkflowStageStatus, string> = {
+  not_started: '⏳',
+  ready: '▶️',
+  in_progress: '🔄',
+  review_required: '⚠️',
+  completed: '✅',
+  failed: '❌',
+  blocked: '⛔'
+};
+
+/**
+ * The first issue raised by a required quality gate on the stage's latest attempt, if any failed
+ */
+export function firstGateIssue(stage: WorkflowStageProgress): string | null {
+  const failed = stage.gate_results.find(gate => gate.required && !gate.passed);
+  if (!failed) return null;
+  return failed.issues[0] ? `${failed.name}: ${failed.issues[0]}` : failed.name;
+}
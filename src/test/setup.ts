@@ -0,0 +1,34 @@
+// Test Setup
+// Runs before every test file: isolates app data in a temp home directory, swaps in the
+// Electron test double and blocks real network access
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, vi } from 'vitest';
+
+// Services write under ~/.satirical-video-platform, so each test file gets its own home
+const testHome = fs.mkdtempSync(path.join(os.tmpdir(), 'svpp-test-'));
+process.env.HOME = testHome;
+process.env.USERPROFILE = testHome;
+delete process.env.MOCK_LLM_FAILURES;
+
+vi.mock('electron', () => import('./electron'));
+
+/**
+ * Default fetch for tests. Provider calls must be stubbed per test; anything else fails loudly.
+ */
+export function blockedFetch(input: any): Promise<Response> {
+  return Promise.reject(new Error(`Unexpected fetch in test: ${String(input?.url ?? input)}`));
+}
+
+vi.stubGlobal('fetch', vi.fn(blockedFetch));
+
+afterEach(() => {
+  vi.mocked(fetch).mockReset();
+  vi.mocked(fetch).mockImplementation(blockedFetch);
+});
+
+afterAll(() => {
+  fs.rmSync(testHome, { recursive: true, force: true });
+});
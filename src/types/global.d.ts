@@ -1,58 +1,104 @@
 // Global type declarations for the renderer process
 
+import type { StructuredOutputType } from '../services/structured-output';
+
 export interface ElectronAPI {
   getAppVersion: () => Promise<string>;
   getPlatformInfo: () => Promise<{ platform: string; arch: string }>;
   
   database: {
     testConnection: () => Promise<any>;
+    getMigrationStatus: () => Promise<any>;
+    importMockData: (dryRun?: boolean) => Promise<any>;
     createUser: (userData: any) => Promise<any>;
+    setUserRole: (userId: string, role: string) => Promise<any>;
     authenticateUser: (email: string, password: string) => Promise<any>;
     getUserById: (id: string) => Promise<any>;
+    register: (userData: { name: string; email: string; password: string; role: string }) => Promise<any>;
+    getSession: () => Promise<any>;
+    logout: () => Promise<any>;
     createProject: (projectData: any) => Promise<any>;
-    getProjects: (userId: string) => Promise<any>;
+    getProjects: () => Promise<any>;
     getProjectById: (id: string) => Promise<any>;
     updateProject: (id: string, data: any) => Promise<any>;
+    updateProjectContext: (projectId: string, contextType: string, lensId?: string) => Promise<any>;
+    getProjectAccess: (projectId: string) => Promise<any>;
+    getProjectMembers: (projectId: string) => Promise<any>;
+    setProjectMember: (projectId: string, userId: string, role: 'DIRECTOR' | 'WRITER' | 'STORYBOARDER' | 'SOUND' | 'VIEWER') => Promise<any>;
+    removeProjectMember: (projectId: string, userId: string) => Promise<any>;
+    exportProject: (projectId: string) => Promise<any>;
+    previewProjectImport: () => Promise<any>;
+    importProject: (filePath: string, options: { resolution?: 'KEEP_BOTH' | 'REPLACE' }) => Promise<any>;
     createNewsArticle: (articleData: any) => Promise<any>;
+    extractNewsArticleFile: (fileData: any) => Promise<any>;
     uploadNewsArticleFile: (fileData: any) => Promise<any>;
     getNewsArticlesByProject: (projectId: string) => Promise<any>;
     getNewsArticle: (id: string) => Promise<any>;
     deleteNewsArticle: (id: string) => Promise<any>;
     createCreativeStrategy: (strategyData: any) => Promise<any>;
     getCreativeStrategy: (projectId: string) => Promise<any>;
-    updateCreativeStrategy: (id: string, updates: any) => Promise<any>;
+    updateCreativeStrategy: (id: string, updates: any, options?: any) => Promise<any>;
     generateCreativeStrategy: (projectId: string) => Promise<any>;
     generateDirectorNotes: (strategyId: string) => Promise<any>;
     createDirectorNotes: (notesData: any) => Promise<any>;
     getDirectorNotes: (projectId: string) => Promise<any>;
-    updateDirectorNotes: (id: string, data: any) => Promise<any>;
+    updateDirectorNotes: (id: string, data: any, options?: any) => Promise<any>;
     createScript: (scriptData: any) => Promise<any>;
     getScriptById: (scriptId: string) => Promise<any>;
     getScriptsByProject: (projectId: string) => Promise<any>;
-    updateScript: (scriptId: string, updates: any) => Promise<any>;
+    updateScript: (scriptId: string, updates: any, options?: any) => Promise<any>;
     deleteScript: (scriptId: string) => Promise<any>;
-    saveStoryboard: (projectId: string, storyboard: any) => Promise<any>;
+    exportScript: (scriptId: string, format: 'FOUNTAIN' | 'FDX' | 'PDF') => Promise<any>;
+    importFountainScript: (projectId: string) => Promise<any>;
+    createCharacter: (characterData: any) => Promise<any>;
+    getCharactersByProject: (projectId: string) => Promise<any>;
+    updateCharacter: (characterId: string, updates: any) => Promise<any>;
+    deleteCharacter: (characterId: string) => Promise<any>;
+    saveStoryboard: (projectId: string, storyboard: any, options?: any) => Promise<any>;
     getStoryboard: (projectId: string) => Promise<any>;
     saveShots: (projectId: string, shots: any[]) => Promise<any>;
     getShots: (projectId: string) => Promise<any>;
     saveSoundNotes: (projectId: string, soundNotes: any[]) => Promise<any>;
     getSoundNotes: (projectId: string) => Promise<any>;
     getSoundNotesForShot: (shotId: string) => Promise<any>;
+    savePromptVersion: (promptData: any) => Promise<any>;
+    getPrompts: (projectId: string) => Promise<any>;
+    getPromptHistory: (shotId: string) => Promise<any>;
+    exportShotList: (projectId: string, format: 'PDF' | 'HTML' | 'CSV' | 'EDL', options?: { fps?: number }) => Promise<any>;
+    getRevisions: (entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string) => Promise<any>;
+    restoreRevision: (entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string, version: number, options?: { created_by?: string }) => Promise<any>;
+    getUsers: () => Promise<any>;
+    getApprovalState: (projectId: string, entityType: 'CREATIVE_STRATEGY' | 'SCRIPT' | 'STORYBOARD' | 'SOUND_DESIGN', entityId: string) => Promise<any>;
+    getProjectApprovals: (projectId: string) => Promise<any>;
+    transitionApproval: (request: any) => Promise<any>;
+    createComment: (request: any) => Promise<any>;
+    getCommentThreads: (targetType: string, targetId: string, filter?: any) => Promise<any>;
+    getProjectCommentThreads: (projectId: string, filter?: any) => Promise<any>;
+    setCommentThreadStatus: (threadId: string, status: string) => Promise<any>;
   };
   
   llm: {
-    generatePersonaResponse: (conversationId: string, persona: string, userMessage: string, context: any, agentConfig?: any) => Promise<any>;
+    generatePersonaResponse: (projectId: string, conversationId: string, persona: string, userMessage: string, context: any, agentConfig?: any) => Promise<any>;
+    streamPersonaResponse: (projectId: string, streamId: string, conversationId: string, persona: string, userMessage: string, context: any, agentConfig: any, onToken: (token: string) => void) => Promise<any>;
+    cancelStream: (streamId: string) => Promise<any>;
     clearConversation: (conversationId: string) => Promise<any>;
     getConversationSummary: (conversationId: string) => Promise<any>;
-    generateStructuredOutput: (persona: string, prompt: string, schema: any) => Promise<any>;
+    generateStructuredOutput: (projectId: string, persona: string, prompt: string, outputType: StructuredOutputType, context?: any, agentConfig?: any) => Promise<any>;
     createConversation: (projectId: string, personas: string[]) => Promise<any>;
     addMessage: (conversationId: string, message: any) => Promise<void>;
     getConversationHistory: (conversationId: string) => Promise<any[]>;
   };
 
+  apiKeys: {
+    getStatus: () => Promise<any>;
+    setKey: (provider: string, key: string, baseUrl?: string) => Promise<any>;
+    deleteKey: (provider: string) => Promise<any>;
+    migrate: (keys: Record<string, string>, compatibleBaseUrl?: string) => Promise<any>;
+  };
+
   models: {
-    checkAvailability: (provider: string, apiKey?: string) => Promise<any>;
-    validateModel: (provider: string, modelId: string, apiKey?: string) => Promise<any>;
+    checkAvailability: (provider: string, endpoint?: { baseUrl?: string; authHeader?: string }) => Promise<any>;
+    validateModel: (provider: string, modelId: string, endpoint?: { baseUrl?: string; authHeader?: string }) => Promise<any>;
     clearCache: () => Promise<any>;
   };
 
@@ -60,7 +106,25 @@ export interface ElectronAPI {
     validate: (persona: string) => Promise<any>;
     validateAll: () => Promise<any>;
     autoFix: (persona: string) => Promise<any>;
-    getModelsDynamic: (provider: string, apiKey?: string) => Promise<any>;
+    getModelsDynamic: (provider: string, endpoint?: { baseUrl?: string; authHeader?: string }) => Promise<any>;
+  };
+
+  workflow: {
+    getProgress: (projectId: string) => Promise<any>;
+    completeStage: (projectId: string) => Promise<any>;
+  };
+
+  evaluation: {
+    evaluateArtifact: (projectId: string, entityType: 'SCRIPT' | 'CREATIVE_STRATEGY' | 'DIRECTOR_NOTES' | 'STORYBOARD', entityId: string, options?: { version?: number; rubric?: any; agentConfig?: any }) => Promise<any>;
+    getTrends: (projectId: string) => Promise<any>;
+  };
+
+  lenses: {
+    getAll: () => Promise<any>;
+    save: (id: string | null, lens: any) => Promise<any>;
+    delete: (id: string) => Promise<any>;
+    export: (id: string) => Promise<any>;
+    import: () => Promise<any>;
   };
 }
 
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    // Services log heavily; only show their output for failing tests
+    silent: 'passed-only',
+    testTimeout: 20000
+  }
+});